@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { LayoutDashboard, Map as MapIcon, RefreshCw, Search, Server, Wifi, Radio, AlertTriangle, XCircle, CloudOff, CheckCircle, Database, Bell, History, BarChart3, ClipboardCheck, Calendar, Settings, Users, MapPin, Home, Menu } from 'lucide-react';
-import { Vehicle, ApiSource, VehicleStatus, FilterType, StatusFilterType, Alert } from './types';
+import { LayoutDashboard, Map as MapIcon, RefreshCw, Search, Server, XCircle, Bell, History, BarChart3, ClipboardCheck, Calendar, Settings, Users, MapPin, Home, Menu } from 'lucide-react';
+import { Vehicle, VehicleStatus, FilterType, StatusFilterType, Alert, Permission } from './types';
 import { AuthProvider, useAuth, ProtectedRoute } from './contexts/AuthContext';
 import { ThemeProvider } from './contexts/ThemeContext';
 import { KpiCards } from './components/KpiCards';
@@ -17,19 +17,46 @@ import { AlertSoundToggle } from './components/AlertSoundSettings';
 import { Dashboard } from './components/Dashboard';
 import { DriverManagement } from './components/DriverManagement';
 import { GeofenceEditor } from './components/GeofenceEditor';
+import { AlertRulesConfig } from './components/AlertRulesConfig';
+import { EscalationConfig } from './components/EscalationConfig';
+import { IntegrationsStatus } from './components/IntegrationsStatus';
+import { ReportsPanel } from './components/ReportsPanel';
+import { FleetConnectionIndicator } from './components/FleetConnectionIndicator';
+import { SlaReport } from './components/SlaReport';
 import { UserManagement } from './components/UserManagement';
 import { ThemeToggle } from './components/ThemeToggle';
 import { Login } from './components/Login';
-import { Sidebar, TabType } from './components/Sidebar';
-import { fetchFleetData, FleetResponse } from './services/fleetService';
-import { detectAlerts, saveAlertsToStorage, getAlertsFromStorage, getUnsavedAlerts, markAlertAsSent, markAlertAsSaved, cleanOldAlerts, processVehiclesForIdleDetection } from './services/alertService';
-import { saveAlertToDatabase, autoSaveAlert } from './services/databaseService';
+import { Sidebar, TabType, TAB_PERMISSIONS } from './components/Sidebar';
+import { fetchFleetData, FleetResponse, markVehiclesWithoutSignal, countVehiclesByProvider } from './services/fleetService';
+import { subscribeToFleetUpdates, FleetStreamStatus } from './services/fleetStreamService';
+import { applyFleetUpdates, fleetVehicleKey, FleetVehicleUpdate } from './supabase/functions/_shared/fleetUpdates';
+import { getProviders } from './services/telematics';
+import { detectAlerts, saveAlertsToStorage, getAlertsFromStorage, getUnsavedAlerts, markAlertAsSent, markAlertAsSaved, markAlertAsAcknowledged, cleanOldAlerts, detectGeofenceAlerts } from './services/alertService';
+import { saveAlertToDatabase, autoSaveAlert, acknowledgeAlert } from './services/databaseService';
+import {
+  fetchLiveAlerts,
+  publishAlerts,
+  purgeOldLiveAlerts,
+  claimAlertForSending,
+  claimAlert,
+  releaseAlert,
+  markLiveAlertAcknowledged,
+  markLiveAlertSaved,
+  subscribeToLiveAlerts,
+  applyLiveAlertChange,
+  isSameAlertWindow,
+  LiveQueueStatus
+} from './services/liveAlertQueueService';
+import { recordVehiclePositions } from './services/positionHistoryService';
+import { refreshAlertThresholdRules } from './services/alertRulesService';
 import { useAutoCleanup } from './hooks/useAutoCleanup';
 import audioEngine from './services/alertSoundService';
 import { usePWA } from './hooks/usePWA';
 
 // Constants
 const REFRESH_INTERVAL = 5 * 60 * 1000; // 5 minutes
+// Con el stream en vivo la flota completa solo se recarga cada media hora
+const FULL_RESYNC_INTERVAL = 30 * 60 * 1000;
 
 // Alert sound function using Web Audio API
 function playAlertSound() {
@@ -58,16 +85,27 @@ function playAlertSound() {
 }
 
 export default function App() {
-  const { user } = useAuth();
+  const { user, can } = useAuth();
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [loading, setLoading] = useState(true);
   const [lastUpdate, setLastUpdate] = useState<Date>(new Date());
-  const [activeTab, setActiveTab] = useState<'dashboard' | 'table' | 'map' | 'alerts' | 'history' | 'saved' | 'analytics' | 'inspections' | 'schedules' | 'drivers' | 'geofences' | 'users' | 'maintenance'>('dashboard');
+  const [activeTab, setActiveTab] = useState<'dashboard' | 'table' | 'map' | 'alerts' | 'history' | 'saved' | 'analytics' | 'inspections' | 'schedules' | 'drivers' | 'geofences' | 'users' | 'maintenance' | 'alertRules' | 'escalation' | 'sla' | 'integrations' | 'reports'>('dashboard');
   const [dataSource, setDataSource] = useState<'REAL' | 'DIRECT_API' | 'PARTIAL_DIRECT' | 'ERROR' | 'MOCK'>('REAL');
   const [apiStatus, setApiStatus] = useState<FleetResponse['apiStatus']>();
   const [vehicleCounts, setVehicleCounts] = useState<FleetResponse['vehicleCounts']>();
-  const [showApiDetails, setShowApiDetails] = useState(false);
+  const [fleetError, setFleetError] = useState<string>();
+  // Cambios incrementales de la flota (fleet_vehicle_updates)
+  const [fleetStreamStatus, setFleetStreamStatus] = useState<FleetStreamStatus>('connecting');
+  const fleetStreamStatusRef = useRef<FleetStreamStatus>('connecting');
+  // Último seq aplicado; null si la flota no viene del snapshot y los cambios no se aplican
+  const fleetSequenceRef = useRef<number | null>(null);
+  const [fleetSequence, setFleetSequence] = useState<number | null>(null);
+  const lastFullLoadRef = useRef(0);
+  const vehiclesRef = useRef<Vehicle[]>([]);
   const [alerts, setAlerts] = useState<Alert[]>([]);
+  // Cola compartida entre consolas (live_alerts); false = solo caché local
+  const [sharedQueue, setSharedQueue] = useState(false);
+  const [liveQueueStatus, setLiveQueueStatus] = useState<LiveQueueStatus>('connecting');
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
 
   // Filters
@@ -84,44 +122,60 @@ export default function App() {
   // PWA Install Hook
   const { isInstallable, installApp } = usePWA();
 
-  // Load Data
-  const fetchData = React.useCallback(async () => {
-    setLoading(true);
-    const result = await fetchFleetData();
-    setDataSource(result.source);
-    setApiStatus(result.apiStatus);
-    setVehicleCounts(result.vehicleCounts);
+  const showVehicles = (next: Vehicle[]) => {
+    vehiclesRef.current = next;
+    setVehicles(next);
+  };
 
-    // Always set data, even if it is fallback data
-    setVehicles(result.data);
+  // Alertas de los vehículos recibidos: la flota completa o solo los que cambiaron en el stream
+  const processVehicleAlerts = React.useCallback(async (changed: Vehicle[], simulated: boolean) => {
+    // Umbrales por contrato / tipo de vehículo (alert_rules)
+    await refreshAlertThresholdRules();
 
-    // Process vehicles for idle detection (tracks ignition and idle time)
-    await processVehiclesForIdleDetection(result.data);
+    // Guardar histórico de posiciones en segundo plano (los datos simulados no se guardan)
+    if (!simulated) {
+      recordVehiclePositions(changed);
+    }
 
     // Detect and process alerts
     const newAlerts: Alert[] = [];
-    result.data.forEach(vehicle => {
+    changed.forEach(vehicle => {
       const vehicleAlerts = detectAlerts(vehicle);
       newAlerts.push(...vehicleAlerts);
     });
 
-    // Combine with existing alerts from storage
-    const existingAlerts = getAlertsFromStorage();
-    const allAlerts = [...newAlerts, ...existingAlerts];
-
-    // Remove duplicates (same vehicle + same type within last 5 minutes)
-    const uniqueAlerts = allAlerts.filter((alert, index, self) => {
-      const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
-      return index === self.findIndex(a =>
-        a.vehicleId === alert.vehicleId &&
-        a.type === alert.type &&
-        new Date(a.timestamp) >= fiveMinutesAgo
-      );
-    });
+    // Entradas/salidas de geocercas (el estado se guarda en Supabase, los datos simulados no se evalúan)
+    if (!simulated) {
+      newAlerts.push(...await detectGeofenceAlerts(changed));
+    }
+
+    // Combine with the shared queue (all consoles); without it, with the local cache
+    const queue = await fetchLiveAlerts();
+    setSharedQueue(queue.success);
+    const existingAlerts = queue.success && queue.data ? queue.data : getAlertsFromStorage();
+    const allAlerts = [...existingAlerts, ...newAlerts];
+
+    // Remove duplicates (same vehicle + same type within 5 minutes of each other)
+    // La copia existente va primero para conservar quién la reportó, tomó o confirmó
+    const uniqueAlerts = allAlerts
+      .filter((alert, index, self) => index === self.findIndex(a => isSameAlertWindow(a, alert)))
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
 
-    setAlerts(uniqueAlerts);
-    saveAlertsToStorage(uniqueAlerts);
-    cleanOldAlerts();
+    setAlerts(uniqueAlerts.filter(alert => !alert.saved));
+
+    // Solo publica y guarda quien tiene permiso (Permission.ALERT_CREATE); el resto solo ve
+    const canSaveAlerts = can(Permission.ALERT_CREATE);
+
+    if (queue.success) {
+      // Las demás consolas las reciben por Realtime
+      if (canSaveAlerts) {
+        await publishAlerts(uniqueAlerts.filter(alert => newAlerts.includes(alert)));
+        purgeOldLiveAlerts();
+      }
+    } else {
+      saveAlertsToStorage(uniqueAlerts);
+      cleanOldAlerts();
+    }
 
     // 🆕 GUARDADO AUTOMÁTICO: Guardar TODAS las alertas nuevas en saved_alerts
     // Esto se hace en segundo plano sin bloquear la UI
@@ -134,11 +188,13 @@ export default function App() {
         );
       }
 
-      Promise.all(
-        newAlerts.map(alert => autoSaveAlert(alert))
-      ).catch(error => {
-        console.error('Error auto-guardando alertas en saved_alerts:', error);
-      });
+      if (canSaveAlerts) {
+        Promise.all(
+          newAlerts.map(alert => autoSaveAlert(alert))
+        ).catch(error => {
+          console.error('Error auto-guardando alertas en saved_alerts:', error);
+        });
+      }
 
       // 🔊 SONIDOS: Reproducir sonido para cada alerta nueva
       newAlerts.forEach(alert => {
@@ -147,16 +203,105 @@ export default function App() {
         });
       });
     }
+  }, [can]);
+
+  // Load Data (flota completa)
+  const fetchData = React.useCallback(async () => {
+    setLoading(true);
+    const result = await fetchFleetData();
+    setDataSource(result.source);
+    setApiStatus(result.apiStatus);
+    setFleetError(result.error);
+
+    // Sesión vencida, límite de /api o snapshot no disponible: se conservan los últimos vehículos y alertas
+    if (result.source === 'ERROR') {
+      setLoading(false);
+      return;
+    }
+
+    // Los cambios del stream se aplican desde aquí (solo si la flota viene del snapshot)
+    fleetSequenceRef.current = result.sequence ?? null;
+    setFleetSequence(result.sequence ?? null);
+    lastFullLoadRef.current = Date.now();
+
+    setVehicleCounts(result.vehicleCounts);
+
+    // Always set data, even if it is fallback data
+    showVehicles(result.data);
+
+    await processVehicleAlerts(result.data, result.source === 'MOCK');
 
     setLastUpdate(new Date());
     setLoading(false);
-  }, []);
+  }, [processVehicleAlerts]);
+
+  // Cambios del stream: se mezclan con la flota actual y solo se evalúan los vehículos que cambiaron
+  const applyStreamUpdates = React.useCallback(async (updates: FleetVehicleUpdate<Vehicle>[]) => {
+    const loadedAt = lastFullLoadRef.current;
+    const { vehicles: merged, changed } = applyFleetUpdates(vehiclesRef.current, updates);
+    const marked = await markVehiclesWithoutSignal(merged);
+
+    // Una recarga completa terminó mientras tanto: ya incluye estos cambios
+    if (lastFullLoadRef.current !== loadedAt) return;
+
+    fleetSequenceRef.current = updates[updates.length - 1].seq;
+    showVehicles(marked);
+    setVehicleCounts(countVehiclesByProvider(marked));
+    setLastUpdate(new Date());
+
+    const changedKeys = new Set(changed.map(fleetVehicleKey));
+    await processVehicleAlerts(marked.filter(vehicle => changedKeys.has(fleetVehicleKey(vehicle))), false);
+  }, [processVehicleAlerts]);
+
+  // Sin cambios de un vehículo no llega nada por el stream: "Sin Señal" se recalcula aquí
+  const refreshSignalStatus = React.useCallback(async () => {
+    const current = vehiclesRef.current;
+    const marked = await markVehiclesWithoutSignal(current);
+    const lostSignal = marked.filter((vehicle, index) =>
+      vehicle.status === VehicleStatus.NO_SIGNAL && current[index].status !== VehicleStatus.NO_SIGNAL
+    );
+
+    if (lostSignal.length === 0 || vehiclesRef.current !== current) return;
+
+    showVehicles(marked);
+    await processVehicleAlerts(lostSignal, false);
+  }, [processVehicleAlerts]);
 
   useEffect(() => {
     fetchData();
-    const interval = setInterval(fetchData, REFRESH_INTERVAL);
+    const interval = setInterval(() => {
+      const streaming = fleetStreamStatusRef.current === 'live' && fleetSequenceRef.current !== null;
+      if (streaming && Date.now() - lastFullLoadRef.current < FULL_RESYNC_INTERVAL) {
+        refreshSignalStatus();
+      } else {
+        fetchData();
+      }
+    }, REFRESH_INTERVAL);
     return () => clearInterval(interval);
-  }, [fetchData]);
+  }, [fetchData, refreshSignalStatus]);
+
+  // Vehículos que cambiaron en cada ingesta del snapshot (las alertas nuevas llegan por live_alerts)
+  useEffect(() => subscribeToFleetUpdates({
+    getSequence: () => fleetSequenceRef.current,
+    onUpdates: applyStreamUpdates,
+    onResyncRequired: fetchData,
+    onStatus: status => {
+      fleetStreamStatusRef.current = status;
+      setFleetStreamStatus(status);
+    }
+  }), [applyStreamUpdates, fetchData]);
+
+  // Cambios de la cola compartida hechos desde cualquier consola
+  useEffect(() => subscribeToLiveAlerts(
+    change => setAlerts(current => applyLiveAlertChange(current, change)),
+    setLiveQueueStatus
+  ), []);
+
+  const operatorName = user?.name || user?.email || 'Usuario';
+
+  const updateAlertInList = (alertId: string, updates: Partial<Alert>) => {
+    setAlerts(current => current.map(a => a.id === alertId ? { ...a, ...updates } : a));
+  };
 
   // Derived State (Filtering)
   const filteredVehicles = useMemo(() => {
@@ -176,7 +321,7 @@ export default function App() {
   // Derived Stats
   const stats = useMemo(() => {
     const totalVehicles = vehicles.length;
-    const activeVehicles = vehicles.filter(v => v.speed > 0 || v.status === VehicleStatus.IDLE).length;
+    const activeVehicles = vehicles.filter(v => v.status !== VehicleStatus.NO_SIGNAL && (v.speed > 0 || v.status === VehicleStatus.IDLE)).length;
     const stoppedVehicles = totalVehicles - activeVehicles;
     const totalSpeed = vehicles.reduce((acc, curr) => acc + curr.speed, 0);
     const avgSpeed = totalVehicles > 0 ? Math.floor(totalSpeed / totalVehicles) : 0;
@@ -184,51 +329,6 @@ export default function App() {
     return { totalVehicles, activeVehicles, stoppedVehicles, avgSpeed };
   }, [vehicles]);
 
-  const getStatusBadge = () => {
-    switch (dataSource) {
-      case 'REAL':
-        return (
-          <span className="flex items-center text-xs font-medium text-green-600 bg-green-50 px-2 py-1 rounded-md border border-green-100 dark:bg-green-900/30 dark:text-green-400 dark:border-green-800">
-            <Wifi className="w-3 h-3 mr-1" /> Backend Conectado
-          </span>
-        );
-      case 'DIRECT_API':
-        return (
-          <span className="flex items-center text-xs font-medium text-purple-600 bg-purple-50 px-2 py-1 rounded-md border border-purple-100 dark:bg-purple-900/30 dark:text-purple-400 dark:border-purple-800">
-            <Radio className="w-3 h-3 mr-1" /> APIs Directas
-            {vehicleCounts && ` (${vehicleCounts.coltrack + vehicleCounts.fagor} vehículos)`}
-          </span>
-        );
-      case 'PARTIAL_DIRECT':
-        return (
-          <span className="flex items-center text-xs font-medium text-orange-600 bg-orange-50 px-2 py-1 rounded-md border border-orange-100 dark:bg-orange-900/30 dark:text-orange-400 dark:border-orange-800">
-            <AlertTriangle className="w-3 h-3 mr-1" /> Conexión Parcial
-            {apiStatus && vehicleCounts && (
-              <span className="ml-1">
-                ({apiStatus.coltrack === 'connected' ? `Coltrack: ${vehicleCounts.coltrack}` : ''}
-                {apiStatus.coltrack === 'connected' && apiStatus.fagor === 'connected' ? ', ' : ''}
-                {apiStatus.fagor === 'connected' ? `Fagor: ${vehicleCounts.fagor}` : ''})
-              </span>
-            )}
-          </span>
-        );
-      case 'MOCK':
-        return (
-          <span className="flex items-center text-xs font-medium text-amber-600 bg-amber-50 px-2 py-1 rounded-md border border-amber-100 dark:bg-amber-900/30 dark:text-amber-400 dark:border-amber-800">
-            <CloudOff className="w-3 h-3 mr-1" /> Modo Demo
-          </span>
-        );
-      case 'ERROR':
-        return (
-          <span className="flex items-center text-xs font-medium text-red-600 bg-red-50 px-2 py-1 rounded-md border border-red-100 dark:bg-red-900/30 dark:text-red-400 dark:border-red-800">
-            <XCircle className="w-3 h-3 mr-1" /> Sin Conexión
-          </span>
-        );
-      default:
-        return null;
-    }
-  };
-
   const getStatusColor = () => {
     if (dataSource === 'REAL') return 'bg-green-600';
     if (dataSource === 'DIRECT_API') return 'bg-purple-600';
@@ -238,15 +338,6 @@ export default function App() {
     return 'bg-slate-500';
   };
 
-  const getStatusText = () => {
-    if (dataSource === 'REAL') return 'Online';
-    if (dataSource === 'DIRECT_API') return 'Directo';
-    if (dataSource === 'PARTIAL_DIRECT') return 'Parcial';
-    if (dataSource === 'MOCK') return 'Simulado';
-    if (dataSource === 'ERROR') return 'Offline';
-    return '...';
-  };
-
   // Handle alert copy to clipboard
   const handleCopyAlert = async (alert: Alert) => {
     // Determinar si es exceso de velocidad
@@ -265,14 +356,27 @@ export default function App() {
       (alert.contract ? `Contrato: ${alert.contract}\n` : '') +
       `Fuente: ${alert.source}`;
 
+    // Cola compartida: solo una consola puede reportarla
+    const claim = sharedQueue ? await claimAlertForSending(alert.id, operatorName) : null;
+    if (claim?.success && !claim.claimed) {
+      const sentAt = claim.at ? ` a las ${new Date(claim.at).toLocaleTimeString('es-CO', { hour: '2-digit', minute: '2-digit' })}` : '';
+      if (!window.confirm(`⚠️ Esta alerta ya fue reportada por ${claim.by || 'otro operador'}${sentAt}.\n\n¿Copiarla de todas formas?`)) {
+        return;
+      }
+    }
+
     try {
       await navigator.clipboard.writeText(message);
 
       // Mark as sent (copied)
-      markAlertAsSent(alert.id, 'Usuario');
+      if (claim?.success) {
+        if (claim.claimed) updateAlertInList(alert.id, { sent: true, sentAt: new Date().toISOString(), sentBy: operatorName });
+      } else {
+        markAlertAsSent(alert.id, operatorName);
 
-      // Reload alerts to show updated state
-      setAlerts(getAlertsFromStorage());
+        // Reload alerts to show updated state
+        setAlerts(getAlertsFromStorage());
+      }
 
       // Show user feedback
       window.alert('✅ Alerta copiada al portapapeles\n\nYa puedes pegarla en WhatsApp o cualquier otra aplicación.');
@@ -282,21 +386,69 @@ export default function App() {
     }
   };
 
+  // Confirmar (ack) una alerta: detiene su escalamiento en el worker
+  const handleAcknowledgeAlert = async (alertToAck: Alert) => {
+    const acknowledgedBy = operatorName;
+    const result = await acknowledgeAlert(alertToAck, acknowledgedBy);
+
+    if (result.success) {
+      if (sharedQueue) {
+        await markLiveAlertAcknowledged(alertToAck.id, acknowledgedBy);
+        updateAlertInList(alertToAck.id, {
+          acknowledged: true,
+          acknowledgedAt: new Date().toISOString(),
+          acknowledgedBy,
+          claimedBy: alertToAck.claimedBy || acknowledgedBy
+        });
+      } else {
+        markAlertAsAcknowledged(alertToAck.id, acknowledgedBy);
+        setAlerts(getUnsavedAlerts());
+      }
+    } else {
+      window.alert('❌ Error al confirmar la alerta: ' + result.error);
+    }
+  };
+
+  // Tomar / liberar una alerta de la cola compartida
+  const handleClaimAlert = async (alertToClaim: Alert) => {
+    if (alertToClaim.claimedBy === operatorName) {
+      const result = await releaseAlert(alertToClaim.id, operatorName);
+      if (result.success) updateAlertInList(alertToClaim.id, { claimedBy: undefined, claimedAt: undefined });
+      return;
+    }
+
+    const result = await claimAlert(alertToClaim.id, operatorName);
+    if (!result.success) {
+      window.alert('❌ Error al tomar la alerta: ' + result.error);
+    } else if (result.claimed) {
+      updateAlertInList(alertToClaim.id, { claimedBy: operatorName, claimedAt: new Date().toISOString() });
+    } else {
+      window.alert(`ℹ️ Esta alerta ya la está atendiendo ${result.by}.`);
+      updateAlertInList(alertToClaim.id, { claimedBy: result.by || undefined, claimedAt: result.at || undefined });
+    }
+  };
+
   // Handle save alert to database
   const handleSaveAlert = async (alertToSave: Alert) => {
     try {
-      const result = await saveAlertToDatabase(alertToSave, 'Usuario');
+      const result = await saveAlertToDatabase(alertToSave, operatorName);
 
       if (result.success) {
-        // Marcar alerta como guardada en el caché local
-        markAlertAsSaved(alertToSave.id);
-
-        // Limpiar alertas guardadas del caché (se eliminan inmediatamente)
-        cleanOldAlerts(24);
-
-        // Actualizar la lista de alertas (solo mostrar no guardadas)
-        const unsavedAlerts = getUnsavedAlerts();
-        setAlerts(unsavedAlerts);
+        if (sharedQueue) {
+          // Sale de la cola en todas las consolas
+          await markLiveAlertSaved(alertToSave.id, operatorName);
+          setAlerts(current => current.filter(a => a.id !== alertToSave.id));
+        } else {
+          // Marcar alerta como guardada en el caché local
+          markAlertAsSaved(alertToSave.id);
+
+          // Limpiar alertas guardadas del caché (se eliminan inmediatamente)
+          cleanOldAlerts(24);
+
+          // Actualizar la lista de alertas (solo mostrar no guardadas)
+          const unsavedAlerts = getUnsavedAlerts();
+          setAlerts(unsavedAlerts);
+        }
 
         window.alert('✅ Alerta guardada en la base de datos\n\nSe ha movido al "Historial" donde puedes agregar planes de acción.');
       } else {
@@ -374,11 +526,13 @@ export default function App() {
                                     activeTab === 'drivers' ? 'Gestión de Conductores' :
                                       activeTab === 'geofences' ? 'Editor de Geocercas' :
                                         activeTab === 'users' ? 'Gestión de Usuarios' :
-                                          activeTab === 'maintenance' ? 'Mantenimiento' : 'Magnex'}
+                                          activeTab === 'maintenance' ? 'Mantenimiento' :
+                                            activeTab === 'alertRules' ? 'Reglas de Alertas' :
+                                              activeTab === 'escalation' ? 'Escalamiento y Turnos' :
+                                                activeTab === 'sla' ? 'Cumplimiento SLA' :
+                                                  activeTab === 'integrations' ? 'Integraciones' :
+                                                    activeTab === 'reports' ? 'Reportes' : 'Magnex'}
                 </h2>
-                <div className="ml-4 opacity-80 scale-90 origin-left">
-                  {getStatusBadge()}
-                </div>
               </div>
             </div>
 
@@ -397,11 +551,15 @@ export default function App() {
               </button>
               <AlertSoundToggle />
               <ThemeToggle />
-              <div className="hidden sm:flex items-center gap-2 ml-2">
-                <span className="relative flex h-3 w-3">
-                  <span className={`animate-ping absolute inline-flex h-full w-full rounded-full opacity-75 ${getStatusColor().replace('bg-', 'bg-').replace('600', '400').replace('500', '300')}`}></span>
-                  <span className={`relative inline-flex rounded-full h-3 w-3 ${getStatusColor()}`}></span>
-                </span>
+              <div className="ml-2">
+                <FleetConnectionIndicator
+                  streamStatus={fleetStreamStatus}
+                  streaming={fleetSequence !== null}
+                  dataSource={dataSource}
+                  apiStatus={apiStatus}
+                  vehicleCounts={vehicleCounts}
+                  lastUpdate={lastUpdate}
+                />
               </div>
             </div>
           </div>
@@ -417,7 +575,7 @@ export default function App() {
                 <XCircle className="w-6 h-6 shrink-0" />
                 <div>
                   <h3 className="font-bold">Error de Conexión Crítico</h3>
-                  <p className="text-sm">No se pudo contactar con los servidores. Revisa tu conexión a internet.</p>
+                  <p className="text-sm">{fleetError || 'No se pudo contactar con los servidores. Revisa tu conexión a internet.'}</p>
                 </div>
               </div>
             )}
@@ -425,66 +583,6 @@ export default function App() {
             {/* Content Switch */}
             {activeTab === 'dashboard' && <KpiCards stats={stats} />}
 
-            {/* API Status Panel (Replaces old banners with collapsible modern UI) */}
-            {apiStatus && (
-              <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden transition-all duration-300">
-                <button
-                  onClick={() => setShowApiDetails(!showApiDetails)}
-                  className="w-full px-4 py-3 flex items-center justify-between hover:bg-slate-50 dark:hover:bg-slate-700/50 transition-colors"
-                >
-                  <div className="flex items-center gap-3">
-                    <Database className="w-5 h-5 text-slate-600 dark:text-slate-400" />
-                    <h3 className="font-semibold text-slate-800 dark:text-white">Estado del Sistema y APIs</h3>
-                    <span className={`text-xs px-2 py-0.5 rounded-full font-medium transition-colors ${dataSource === 'MOCK' ? 'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300' : 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'}`}>
-                      {getStatusText()}
-                    </span>
-                  </div>
-                  <span className="text-slate-400 transform transition-transform duration-200" style={{ transform: showApiDetails ? 'rotate(180deg)' : 'rotate(0deg)' }}>▼</span>
-                </button>
-
-                {showApiDetails && (
-                  <div className="px-4 pb-4 pt-2 border-t border-slate-100 dark:border-slate-700 animate-in slide-in-from-top-2 fade-in duration-200">
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                      {/* Backend */}
-                      <div className="flex items-center gap-3 p-3 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-100 dark:border-slate-800">
-                        <div className={`w-8 h-8 rounded-full flex items-center justify-center ${apiStatus.backend === 'connected' ? 'bg-green-100 text-green-600 dark:bg-green-900/30 dark:text-green-400' : 'bg-red-100 text-red-600 dark:bg-red-900/30 dark:text-red-400'}`}>
-                          {apiStatus.backend === 'connected' ? <CheckCircle className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
-                        </div>
-                        <div>
-                          <p className="text-sm font-semibold text-slate-700 dark:text-slate-200">Backend Python</p>
-                          <p className="text-xs text-slate-500 dark:text-slate-400">{apiStatus.backend === 'connected' ? 'Operativo' : 'Desconectado'}</p>
-                        </div>
-                      </div>
-                      {/* Coltrack */}
-                      <div className="flex items-center gap-3 p-3 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-100 dark:border-slate-800">
-                        <div className={`w-8 h-8 rounded-full flex items-center justify-center ${apiStatus.coltrack === 'connected' ? 'bg-purple-100 text-purple-600 dark:bg-purple-900/30 dark:text-purple-400' : 'bg-slate-100 text-slate-400 dark:bg-slate-800'}`}>
-                          <Radio className="w-4 h-4" />
-                        </div>
-                        <div>
-                          <p className="text-sm font-semibold text-slate-700 dark:text-slate-200">Coltrack</p>
-                          <p className="text-xs text-slate-500 dark:text-slate-400">
-                            {apiStatus.coltrack === 'connected' ? 'Conectado' : 'Sin conexión'}
-                          </p>
-                        </div>
-                      </div>
-                      {/* Fagor */}
-                      <div className="flex items-center gap-3 p-3 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-100 dark:border-slate-800">
-                        <div className={`w-8 h-8 rounded-full flex items-center justify-center ${apiStatus.fagor === 'connected' ? 'bg-blue-100 text-blue-600 dark:bg-blue-900/30 dark:text-blue-400' : 'bg-slate-100 text-slate-400 dark:bg-slate-800'}`}>
-                          <Radio className="w-4 h-4" />
-                        </div>
-                        <div>
-                          <p className="text-sm font-semibold text-slate-700 dark:text-slate-200">FlotasNet</p>
-                          <p className="text-xs text-slate-500 dark:text-slate-400">
-                            {apiStatus.fagor === 'connected' ? 'Conectado' : 'Sin conexión'}
-                          </p>
-                        </div>
-                      </div>
-                    </div>
-                  </div>
-                )}
-              </div>
-            )}
-
             {/* Controls / Filters Bar (Siempre visible) */}
             <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm flex flex-col md:flex-row gap-4 items-center justify-between transition-colors">
 
@@ -510,8 +608,9 @@ export default function App() {
                   className="flex-1 md:flex-none pl-3 pr-8 py-2 border border-slate-200 dark:border-slate-600 rounded-lg text-sm bg-slate-50 dark:bg-slate-700 text-slate-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500 cursor-pointer transition-colors"
                 >
                   <option value="ALL">Todas las Fuentes</option>
-                  <option value={ApiSource.FAGOR}>Fagor</option>
-                  <option value={ApiSource.COLTRACK}>Coltrack</option>
+                  {getProviders().map(provider => (
+                    <option key={provider.id} value={provider.id}>{provider.label}</option>
+                  ))}
                 </select>
 
                 <select
@@ -524,59 +623,72 @@ export default function App() {
                   <option value={VehicleStatus.STOPPED}>Detenido</option>
                   <option value={VehicleStatus.IDLE}>Ralentí</option>
                   <option value={VehicleStatus.OFF}>Apagado</option>
+                  <option value={VehicleStatus.NO_SIGNAL}>Sin Señal</option>
                 </select>
               </div>
             </div>
 
             {/* Content Views */}
             <div className="min-h-[500px] relative transition-all">
-              {activeTab === 'dashboard' && (
-                <Dashboard
-                  vehicles={vehicles}
-                  alerts={alerts}
-                  onNavigate={(tab) => setActiveTab(tab as any)}
-                  installPWA={installApp}
-                  isInstallable={isInstallable}
-                />
-              )}
+              {/* Cada sección exige su permiso (el menú ya oculta las demás) */}
+              <ProtectedRoute requiredPermission={TAB_PERMISSIONS[activeTab]}>
+                {activeTab === 'dashboard' && (
+                  <Dashboard
+                    vehicles={vehicles}
+                    alerts={alerts}
+                    onNavigate={(tab) => setActiveTab(tab as any)}
+                    installPWA={installApp}
+                    isInstallable={isInstallable}
+                  />
+                )}
 
-              {activeTab === 'table' && (
-                <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden">
-                  <VehicleTable vehicles={filteredVehicles} />
-                </div>
-              )}
+                {activeTab === 'table' && (
+                  <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden">
+                    <VehicleTable vehicles={filteredVehicles} />
+                  </div>
+                )}
 
-              {activeTab === 'map' && (
-                <div className="h-[calc(100vh-220px)] min-h-[500px] bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden border-2 border-slate-100 dark:border-slate-700">
-                  <FleetMap vehicles={filteredVehicles} />
-                </div>
-              )}
+                {activeTab === 'map' && (
+                  <div className="h-[calc(100vh-220px)] min-h-[500px] bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden border-2 border-slate-100 dark:border-slate-700">
+                    <FleetMap vehicles={filteredVehicles} />
+                  </div>
+                )}
 
-              {activeTab === 'alerts' && (
-                <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden">
-                  <AlertPanel
-                    alerts={alerts.filter(a => !a.saved)}
+                {activeTab === 'alerts' && (
+                  <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-sm overflow-hidden">
+                    <AlertPanel
+                      alerts={alerts.filter(a => !a.saved)}
+                      onSaveAlert={handleSaveAlert}
+                      onCopyAlert={handleCopyAlert}
+                      onAcknowledgeAlert={handleAcknowledgeAlert}
+                      onClaimAlert={sharedQueue ? handleClaimAlert : undefined}
+                      currentOperator={operatorName}
+                      syncStatus={sharedQueue ? liveQueueStatus : 'offline'}
+                    />
+                  </div>
+                )}
+
+                {activeTab === 'history' && <AlertHistory />}
+                {activeTab === 'sla' && <SlaReport vehicles={vehicles} />}
+                {activeTab === 'saved' && (
+                  <SavedAlertsPanel
+                    onRefresh={fetchData}
                     onSaveAlert={handleSaveAlert}
                     onCopyAlert={handleCopyAlert}
                   />
-                </div>
-              )}
-
-              {activeTab === 'history' && <AlertHistory />}
-              {activeTab === 'saved' && (
-                <SavedAlertsPanel
-                  onRefresh={fetchData}
-                  onSaveAlert={handleSaveAlert}
-                  onCopyAlert={handleCopyAlert}
-                />
-              )}
-              {activeTab === 'analytics' && <Analytics vehicles={vehicles} alerts={alerts} />}
-              {activeTab === 'inspections' && <Inspections />}
-              {activeTab === 'schedules' && <RouteSchedules vehicles={vehicles} />}
-              {activeTab === 'drivers' && <DriverManagement />}
-              {activeTab === 'geofences' && <GeofenceEditor />}
-              {activeTab === 'users' && <UserManagement />}
-              {activeTab === 'maintenance' && <MaintenancePanel />}
+                )}
+                {activeTab === 'analytics' && <Analytics vehicles={vehicles} alerts={alerts} />}
+                {activeTab === 'inspections' && <Inspections />}
+                {activeTab === 'schedules' && <RouteSchedules vehicles={vehicles} />}
+                {activeTab === 'drivers' && <DriverManagement />}
+                {activeTab === 'geofences' && <GeofenceEditor />}
+                {activeTab === 'users' && <UserManagement vehicles={vehicles} />}
+                {activeTab === 'maintenance' && <MaintenancePanel />}
+                {activeTab === 'alertRules' && <AlertRulesConfig vehicles={vehicles} />}
+                {activeTab === 'escalation' && <EscalationConfig vehicles={vehicles} />}
+                {activeTab === 'integrations' && <IntegrationsStatus />}
+                {activeTab === 'reports' && <ReportsPanel vehicles={vehicles} />}
+              </ProtectedRoute>
             </div>
           </div>
         </main>
@@ -0,0 +1,139 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createUserClient, getBearerToken, isWorkerToken } from './supabaseAuth';
+import { consumeRateLimit } from './rateLimit';
+
+/**
+ * Autenticación y límite de peticiones de las funciones /api
+ *
+ * Todas las funciones que llaman a proveedores pagos o a Apps Script exigen
+ * un JWT de Supabase (navegador) o el token del worker alert-monitor
+ * (WORKER_API_TOKEN, o la service role key si no está definido). Cada caller
+ * tiene su propio límite por endpoint. Los errores tienen siempre la forma
+ * { success: false, error, code, retryAfterSeconds? } para que fleetService
+ * y el worker los distingan de una caída del proveedor.
+ */
+
+// ==================== TYPES ====================
+
+export type ApiEndpoint = 'fleet' | 'coltrack' | 'fagor' | 'google-sheets' | 'inspections' | 'integrations';
+
+export type ApiErrorCode = 'unauthorized' | 'forbidden' | 'rate_limited' | 'server_misconfigured' | 'server_error';
+
+export interface ApiCaller {
+  kind: 'user' | 'worker';
+  /** auth.uid() del usuario; 'alert-monitor' para el worker */
+  id: string;
+  token: string;
+}
+
+// ==================== LÍMITES ====================
+
+const WINDOW_SECONDS = 60;
+
+/**
+ * Peticiones por minuto y caller. El dashboard refresca cada 5 minutos, así que
+ * los límites de usuario dejan margen para varias pestañas y recargas manuales;
+ * inspections descarga el Excel completo y es el más caro.
+ */
+const RATE_LIMITS: Record<ApiEndpoint, { user: number; worker: number }> = {
+  'fleet': { user: 30, worker: 30 },
+  'coltrack': { user: 20, worker: 60 },
+  'fagor': { user: 20, worker: 60 },
+  'google-sheets': { user: 20, worker: 60 },
+  'inspections': { user: 5, worker: 10 },
+  'integrations': { user: 30, worker: 30 }
+};
+
+// ==================== RESPUESTAS ====================
+
+export function sendApiError(
+  res: VercelResponse,
+  status: number,
+  code: ApiErrorCode,
+  error: string,
+  retryAfterSeconds?: number
+) {
+  if (status === 401) {
+    res.setHeader('WWW-Authenticate', 'Bearer');
+  }
+  if (retryAfterSeconds !== undefined) {
+    res.setHeader('Retry-After', String(retryAfterSeconds));
+  }
+
+  return res.status(status).json({
+    success: false,
+    error,
+    code,
+    ...(retryAfterSeconds !== undefined && { retryAfterSeconds })
+  });
+}
+
+// ==================== AUTENTICACIÓN ====================
+
+/**
+ * Usuario del JWT, verificado contra Supabase Auth (firma y vencimiento).
+ * null si el token no es válido.
+ */
+async function verifyUserToken(supabase: SupabaseClient, token: string): Promise<ApiCaller | null> {
+  try {
+    const { data, error } = await supabase.auth.getUser(token);
+    if (error || !data.user) {
+      console.warn('[ApiAuth] Token rejected:', error?.message || 'no user');
+      return null;
+    }
+    return { kind: 'user', id: data.user.id, token };
+  } catch (error: any) {
+    console.error('[ApiAuth] Error verifying token:', error);
+    return null;
+  }
+}
+
+/**
+ * Exige autenticación y aplica el límite del endpoint.
+ * Si la petición no pasa, ya respondió 401/429/500 y retorna null.
+ */
+export async function requireApiCaller(
+  req: VercelRequest,
+  res: VercelResponse,
+  endpoint: ApiEndpoint
+): Promise<ApiCaller | null> {
+  const token = getBearerToken(req);
+  if (!token) {
+    sendApiError(res, 401, 'unauthorized', 'Se requiere una sesión o un token de servicio');
+    return null;
+  }
+
+  let caller: ApiCaller | null;
+  if (isWorkerToken(token)) {
+    caller = { kind: 'worker', id: 'alert-monitor', token };
+  } else {
+    const supabase = createUserClient(token);
+    if (!supabase) {
+      sendApiError(res, 500, 'server_misconfigured', 'Supabase no está configurado en el servidor');
+      return null;
+    }
+    caller = await verifyUserToken(supabase, token);
+  }
+
+  if (!caller) {
+    sendApiError(res, 401, 'unauthorized', 'Sesión inválida o vencida');
+    return null;
+  }
+
+  const limit = RATE_LIMITS[endpoint][caller.kind];
+  const rate = await consumeRateLimit(`${endpoint}:${caller.kind}:${caller.id}`, limit, WINDOW_SECONDS);
+
+  res.setHeader('X-RateLimit-Limit', String(rate.limit));
+  res.setHeader('X-RateLimit-Remaining', String(rate.remaining));
+  res.setHeader('X-RateLimit-Reset', String(Math.ceil(rate.resetAt / 1000)));
+
+  if (!rate.allowed) {
+    const retryAfterSeconds = Math.max(Math.ceil((rate.resetAt - Date.now()) / 1000), 1);
+    console.warn(`[ApiAuth] Rate limit exceeded: ${endpoint} ${caller.kind}:${caller.id}`);
+    sendApiError(res, 429, 'rate_limited', `Demasiadas solicitudes. Intenta de nuevo en ${retryAfterSeconds} s`, retryAfterSeconds);
+    return null;
+  }
+
+  return caller;
+}
@@ -0,0 +1,94 @@
+import type { ApiCaller, ApiErrorCode } from './apiAuth';
+import { createUserClient } from './supabaseAuth';
+import { fetchVehicleSheet } from './vehicleContracts';
+
+/**
+ * Contratos que puede ver quien llama (get_my_contract_scope en contract_scope.sql)
+ */
+export interface ContractScope {
+  /** Permiso contract:all (o el worker): sin filtro */
+  all: boolean;
+  contracts: string[];
+}
+
+export interface ContractScopeResult {
+  success: boolean;
+  data?: ContractScope;
+  /** Código HTTP a devolver cuando success es false (401 / 500) */
+  status?: number;
+  code?: ApiErrorCode;
+  error?: string;
+}
+
+/**
+ * Resuelve el alcance de contratos de quien llama (ya autenticado con
+ * requireApiCaller). Para usuarios se consulta con su propio token.
+ */
+export async function resolveContractScope(caller: ApiCaller): Promise<ContractScopeResult> {
+  // El worker alert-monitor evalúa toda la flota
+  if (caller.kind === 'worker') {
+    return { success: true, data: { all: true, contracts: [] } };
+  }
+
+  const supabase = createUserClient(caller.token);
+  if (!supabase) {
+    return { success: false, status: 500, code: 'server_misconfigured', error: 'Supabase no está configurado en el servidor' };
+  }
+
+  try {
+    const { data, error } = await supabase.rpc('get_my_contract_scope');
+
+    if (error) {
+      // PostgREST rechaza los tokens vencidos o inválidos
+      console.warn('[ContractScope] Scope rejected:', error.message);
+      return { success: false, status: 401, code: 'unauthorized', error: 'Sesión inválida o vencida' };
+    }
+
+    return {
+      success: true,
+      data: {
+        all: data?.all === true,
+        contracts: Array.isArray(data?.contracts) ? data.contracts : []
+      }
+    };
+  } catch (error: any) {
+    console.error('[ContractScope] Error resolving scope:', error);
+    return { success: false, status: 500, code: 'server_error', error: 'No se pudo resolver el alcance de contratos' };
+  }
+}
+
+export function canSeeContract(scope: ContractScope, contract: string | null | undefined): boolean {
+  return scope.all || (!!contract && scope.contracts.includes(contract));
+}
+
+/** Contrato del registro crudo, en el mismo orden que los normalize de los proveedores */
+const recordContract = (record: Record<string, any>): string | undefined =>
+  record.CONTRATO || record.Contrato ||
+  record.GRUPO || record.Grupo ||
+  record.CLIENTE || record.Cliente;
+
+/**
+ * Asigna a cada registro crudo el contrato de la hoja de vehículos y descarta
+ * los que quedan fuera del alcance. El contrato se escribe en CONTRATO, que los
+ * normalize leen primero, así el navegador y el worker guardan el mismo contrato.
+ */
+export async function scopeFleetRecords<T extends Record<string, any>>(
+  records: T[],
+  scope: ContractScope,
+  getPlate: (record: T) => string | undefined
+): Promise<T[]> {
+  let vehicleMap: Record<string, any> = {};
+  try {
+    vehicleMap = (await fetchVehicleSheet()).vehicleMap;
+  } catch (error: any) {
+    // Sin la hoja queda el contrato que reporta el proveedor
+    console.warn('[ContractScope] Vehicle sheet unavailable:', error.message);
+  }
+
+  return records
+    .map(record => {
+      const sheetVehicle = vehicleMap[getPlate(record) || ''];
+      return sheetVehicle ? { ...record, CONTRATO: sheetVehicle.contrato } : record;
+    })
+    .filter(record => canSeeContract(scope, recordContract(record)));
+}
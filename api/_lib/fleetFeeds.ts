@@ -0,0 +1,196 @@
+import { ColtrackAccount, FagorAccount, integrationsConfig } from './integrationsConfig';
+
+/**
+ * Consulta de los proveedores GPS (todas las cuentas configuradas)
+ * Compartida por /api/coltrack, /api/fagor y la ingesta del snapshot de /api/fleet
+ */
+
+// ==================== TYPES ====================
+
+export interface FeedAccountError {
+  account: string;
+  error: string;
+}
+
+export interface FeedResult {
+  success: boolean;
+  /** Registros crudos de las cuentas que respondieron */
+  records: any[];
+  /** Cuentas que fallaron (con éxito parcial también) */
+  accountErrors: FeedAccountError[];
+  /** Código HTTP a devolver cuando success es false (500 sin configurar / 502 todas caídas) */
+  status?: number;
+  error?: string;
+}
+
+// ==================== COLTRACK ====================
+
+/**
+ * Registros de una cuenta de Coltrack
+ */
+async function fetchColtrackAccount(account: ColtrackAccount): Promise<any[]> {
+  // Preparar credenciales Basic Auth
+  const credentials = Buffer.from(`${account.user}:${account.pass}`).toString('base64');
+
+  // Hacer request a Coltrack
+  const response = await fetch(integrationsConfig.coltrack.url, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${credentials}`,
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Coltrack API returned ${response.status}`);
+  }
+
+  const data = await response.json();
+
+  // Validar estructura de respuesta
+  if (data.status !== 'OK' || !data.message || !data.message.data) {
+    throw new Error('Invalid response structure from Coltrack');
+  }
+
+  return data.message.data;
+}
+
+// ==================== FAGOR ====================
+
+// Las credenciales van dentro del XML
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+// Helper para parsear XML a JSON simple
+function parseVehicleXML(xmlText: string): any[] {
+  const vehicles: any[] = [];
+
+  // Buscar todos los bloques DatosEstadoVehiculo
+  const vehiclePattern = /<DatosEstadoVehiculo>([\s\S]*?)<\/DatosEstadoVehiculo>/g;
+  let match;
+
+  while ((match = vehiclePattern.exec(xmlText)) !== null) {
+    const vehicleXml = match[1];
+
+    const getTagValue = (tag: string): string => {
+      const regex = new RegExp(`<${tag}>(.*?)<\/${tag}>`, 's');
+      const tagMatch = vehicleXml.match(regex);
+      return tagMatch ? tagMatch[1].trim() : '';
+    };
+
+    vehicles.push({
+      Matricula: getTagValue('Matricula'),
+      Codigo: getTagValue('Codigo'),
+      Conductor: getTagValue('Conductor'),
+      Remolque: getTagValue('Remolque'),
+      EstadoUsuario: getTagValue('EstadoUsuario'),
+      Estado: getTagValue('Estado'),
+      Localidad: getTagValue('Localidad'),
+      Latitud: getTagValue('Latitud').replace(',', '.'),
+      Longitud: getTagValue('Longitud').replace(',', '.'),
+      UltimaPosicion: getTagValue('UltimaPosicion'),
+      Velocidad: getTagValue('Velocidad'),
+      Kilometros: getTagValue('Kilometros').replace(',', '.'),
+      TiempoEstado: getTagValue('TiempoEstado'),
+      Sensores: getTagValue('Sensores').replace(/&nbsp;/g, ' ').replace(/<[^>]*>/g, '').trim(),
+      Rumbo: getTagValue('Rumbo')
+    });
+  }
+
+  return vehicles;
+}
+
+/**
+ * Vehículos de una cuenta (empresa) de Fagor
+ */
+async function fetchFagorAccount(account: FagorAccount): Promise<any[]> {
+  // Construir el SOAP envelope
+  const soapEnvelope = `<?xml version="1.0" encoding="utf-8"?>
+<soap:Envelope xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"
+               xmlns:xsd="http://www.w3.org/2001/XMLSchema"
+               xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/">
+  <soap:Header>
+      <AuthHeader xmlns="http://212.8.96.37/webservices/">
+          <Username>${escapeXml(account.user)}</Username>
+          <Password>${escapeXml(account.pass)}</Password>
+      </AuthHeader>
+  </soap:Header>
+  <soap:Body>
+      <EstadoActualFlota xmlns="http://212.8.96.37/webservices/">
+          <empresa>${escapeXml(account.empresa)}</empresa>
+      </EstadoActualFlota>
+  </soap:Body>
+</soap:Envelope>`;
+
+  // Hacer request a Fagor
+  const response = await fetch(integrationsConfig.fagor.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'text/xml; charset=utf-8',
+      'SOAPAction': 'http://212.8.96.37/webservices/EstadoActualFlota'
+    },
+    body: soapEnvelope
+  });
+
+  if (!response.ok) {
+    throw new Error(`Fagor API returned ${response.status}`);
+  }
+
+  // Parsear XML a JSON
+  const vehicles = parseVehicleXML(await response.text());
+
+  if (vehicles.length === 0) {
+    throw new Error('No vehicles found in Fagor response');
+  }
+
+  return vehicles.map(vehicle => ({ ...vehicle, Empresa: account.empresa }));
+}
+
+// ==================== CONSULTA POR CUENTAS ====================
+
+/**
+ * Todas las cuentas en paralelo; una cuenta caída no tumba a las demás
+ */
+async function fetchAllAccounts<T extends { id: string }>(
+  label: string,
+  accounts: T[],
+  fetchAccount: (account: T) => Promise<any[]>
+): Promise<FeedResult> {
+  if (accounts.length === 0) {
+    return { success: false, records: [], accountErrors: [], status: 500, error: `${label} no está configurado en el servidor` };
+  }
+
+  const results = await Promise.allSettled(accounts.map(fetchAccount));
+
+  const accountErrors = results.flatMap((result, index) =>
+    result.status === 'rejected' ? [{ account: accounts[index].id, error: result.reason?.message || 'Unknown error' }] : []
+  );
+  accountErrors.forEach(({ account, error }) => console.error(`[${label}] Account ${account} failed:`, error));
+
+  if (accountErrors.length === accounts.length) {
+    return {
+      success: false,
+      records: [],
+      accountErrors,
+      status: 502,
+      error: `Failed to connect to ${label} API: ${accountErrors.map(({ account, error }) => `${account}: ${error}`).join('; ')}`
+    };
+  }
+
+  return {
+    success: true,
+    records: results.flatMap(result => (result.status === 'fulfilled' ? result.value : [])),
+    accountErrors
+  };
+}
+
+export const fetchColtrackFeed = (): Promise<FeedResult> =>
+  fetchAllAccounts('Coltrack', integrationsConfig.coltrack.accounts, fetchColtrackAccount);
+
+export const fetchFagorFeed = (): Promise<FeedResult> =>
+  fetchAllAccounts('Fagor', integrationsConfig.fagor.accounts, fetchFagorAccount);
+
+/** Placa de cada registro crudo, para asignar el contrato de la hoja de vehículos */
+export const coltrackPlate = (record: Record<string, any>): string | undefined =>
+  record.PLACA || record.Placa || record.PATENTE || record.patente;
+
+export const fagorPlate = (record: Record<string, any>): string | undefined => record.Matricula;
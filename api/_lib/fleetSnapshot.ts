@@ -0,0 +1,245 @@
+import { createHash } from 'crypto';
+import type { Vehicle } from '../../types';
+import { normalizeColtrackRecord } from '../../services/telematics/coltrackProvider';
+import { normalizeFagorRecord } from '../../services/telematics/fagorProvider';
+import { ContractScope, scopeFleetRecords } from './contractScope';
+import { coltrackPlate, fagorPlate, fetchColtrackFeed, fetchFagorFeed, FeedResult } from './fleetFeeds';
+import { getServiceClient } from './supabaseAuth';
+import { diffFleetVehicles, FLEET_UPDATE_RETENTION_MINUTES, fleetVehicleKey } from '../../supabase/functions/_shared/fleetUpdates';
+
+/**
+ * Snapshot de la flota (fleet_snapshots.sql)
+ *
+ * Una sola ingesta consulta Coltrack, Fagor y la hoja de vehículos, normaliza con
+ * los mismos normalize del frontend y guarda el resultado en Supabase. /api/fleet
+ * sirve ese snapshot a todos los navegadores, así la carga sobre los proveedores
+ * no depende de cuántos operadores tengan el dashboard abierto.
+ *
+ * La ingesta la dispara el worker alert-monitor (cron cada 5 minutos). Si el
+ * snapshot envejece porque el worker no corre, la primera lectura lo renueva,
+ * como máximo una vez por ventana de INGEST_LOCK_SECONDS entre todas las instancias.
+ *
+ * Cada ingesta registra además en fleet_vehicle_updates los vehículos que cambiaron
+ * respecto del snapshot anterior; los navegadores los reciben por Realtime
+ * (fleet_vehicle_updates.sql) y solo recargan el snapshot completo al iniciar o
+ * cuando perdieron cambios.
+ */
+
+// ==================== TYPES ====================
+
+export interface SnapshotProviderStatus {
+  status: 'connected' | 'failed';
+  vehicleCount: number;
+  /** Cuentas caídas o motivo del fallo (solo para el worker y los logs) */
+  error?: string;
+}
+
+export interface FleetSnapshot {
+  /** Hash del contenido: base del ETag de /api/fleet */
+  version: string;
+  capturedAt: string;
+  /** Último seq de fleet_vehicle_updates incluido en vehicles (punto de reanudación del stream) */
+  sequence: number;
+  /** Flota completa, con el contrato de la hoja de vehículos */
+  vehicles: Vehicle[];
+  /** Clave: id del proveedor en minúsculas (igual que FleetResponse.apiStatus) */
+  providers: Record<string, SnapshotProviderStatus>;
+}
+
+export interface FleetIngestionResult {
+  success: boolean;
+  data?: {
+    snapshot: FleetSnapshot;
+    /** Registros crudos ya con CONTRATO, para el worker (normaliza con sus propias reglas) */
+    records: { coltrack: any[]; fagor: any[] };
+  };
+  error?: string;
+}
+
+// ==================== CONFIGURACIÓN ====================
+
+const SNAPSHOT_ID = 'latest';
+
+// Lecturas seguidas de la misma instancia no vuelven a consultar Supabase
+const READ_CACHE_TTL_MS = 30 * 1000;
+
+/** Dos ciclos del worker sin ingesta: el snapshot se considera viejo */
+export const SNAPSHOT_MAX_AGE_MS = 10 * 60 * 1000;
+
+/** Ventana de la ingesta bajo demanda (clave en api_rate_limits) */
+export const INGEST_LOCK_SECONDS = 4 * 60;
+export const INGEST_LOCK_KEY = 'fleet:ingest';
+
+const ALL_CONTRACTS: ContractScope = { all: true, contracts: [] };
+
+let readCache: { snapshot: FleetSnapshot; readAt: number } | null = null;
+
+// ==================== INGESTA ====================
+
+function providerStatus(feed: FeedResult, vehicleCount: number): SnapshotProviderStatus {
+  const error = feed.success
+    ? feed.accountErrors.map(({ account, error }) => `${account}: ${error}`).join('; ')
+    : feed.error;
+
+  return {
+    status: feed.success && vehicleCount > 0 ? 'connected' : 'failed',
+    vehicleCount,
+    ...(error ? { error } : {})
+  };
+}
+
+/**
+ * Guarda los vehículos que cambiaron respecto del snapshot anterior.
+ * Retorna el último seq asignado (o el anterior si no hubo cambios).
+ */
+async function recordVehicleUpdates(
+  supabase: NonNullable<ReturnType<typeof getServiceClient>>,
+  previous: FleetSnapshot | null,
+  snapshot: FleetSnapshot
+): Promise<number> {
+  const previousSequence = previous?.sequence ?? 0;
+  const changes = diffFleetVehicles(previous?.vehicles || [], snapshot.vehicles);
+  if (changes.length === 0) return previousSequence;
+
+  // Las bajas llevan el contrato que tenía el vehículo, para que las vea quien lo veía
+  const previousByKey = new Map((previous?.vehicles || []).map(vehicle => [fleetVehicleKey(vehicle), vehicle]));
+
+  const { data, error } = await supabase
+    .from('fleet_vehicle_updates')
+    .insert(changes.map(change => {
+      const vehicle = change.vehicle || previousByKey.get(change.key);
+      return {
+        vehicle_key: change.key,
+        plate: vehicle?.plate || change.key,
+        contract: vehicle?.contract || null,
+        removed: change.removed,
+        vehicle: change.vehicle,
+        snapshot_version: snapshot.version
+      };
+    }))
+    .select('seq');
+
+  if (error) {
+    console.error('[FleetSnapshot] Error recording vehicle updates:', error.message);
+    return previousSequence;
+  }
+
+  // La función termina al responder: la purga se espera para que no quede cortada
+  const cutoff = new Date(Date.now() - FLEET_UPDATE_RETENTION_MINUTES * 60 * 1000).toISOString();
+  const { error: pruneError } = await supabase
+    .from('fleet_vehicle_updates')
+    .delete()
+    .lt('created_at', cutoff);
+
+  if (pruneError) {
+    console.error('[FleetSnapshot] Error pruning vehicle updates:', pruneError.message);
+  }
+
+  console.log(`[FleetSnapshot] Recorded ${changes.length} vehicle updates`);
+  return Math.max(previousSequence, ...(data || []).map(row => Number(row.seq)));
+}
+
+/**
+ * Consulta los proveedores, normaliza y guarda el snapshot.
+ * Si ningún proveedor responde se conserva el snapshot anterior.
+ */
+export async function ingestFleetSnapshot(): Promise<FleetIngestionResult> {
+  const [coltrackFeed, fagorFeed] = await Promise.all([fetchColtrackFeed(), fetchFagorFeed()]);
+
+  if (!coltrackFeed.success && !fagorFeed.success) {
+    return { success: false, error: [coltrackFeed.error, fagorFeed.error].filter(Boolean).join(' | ') };
+  }
+
+  // El contrato sale de la hoja de vehículos, igual que en /api/coltrack y /api/fagor
+  const [coltrackRecords, fagorRecords] = await Promise.all([
+    scopeFleetRecords(coltrackFeed.records, ALL_CONTRACTS, coltrackPlate),
+    scopeFleetRecords(fagorFeed.records, ALL_CONTRACTS, fagorPlate)
+  ]);
+
+  const coltrackVehicles = coltrackRecords.map(normalizeColtrackRecord);
+  const fagorVehicles = fagorRecords.map(normalizeFagorRecord);
+  const vehicles = [...coltrackVehicles, ...fagorVehicles];
+
+  const snapshot: FleetSnapshot = {
+    version: createHash('sha1').update(JSON.stringify(vehicles)).digest('hex').slice(0, 16),
+    capturedAt: new Date().toISOString(),
+    sequence: 0,
+    vehicles,
+    providers: {
+      coltrack: providerStatus(coltrackFeed, coltrackVehicles.length),
+      fagor: providerStatus(fagorFeed, fagorVehicles.length)
+    }
+  };
+
+  const supabase = getServiceClient();
+  if (supabase) {
+    const previous = await getFleetSnapshot();
+    snapshot.sequence = await recordVehicleUpdates(supabase, previous, snapshot);
+
+    const { error } = await supabase
+      .from('fleet_snapshots')
+      .upsert({
+        id: SNAPSHOT_ID,
+        version: snapshot.version,
+        captured_at: snapshot.capturedAt,
+        sequence: snapshot.sequence,
+        vehicles: snapshot.vehicles,
+        providers: snapshot.providers
+      }, { onConflict: 'id' });
+
+    if (error) {
+      // Las demás instancias seguirán leyendo el snapshot anterior
+      console.error('[FleetSnapshot] Error saving snapshot:', error.message);
+    }
+  } else {
+    console.warn('[FleetSnapshot] SUPABASE_SERVICE_ROLE_KEY not configured, snapshot kept in memory only');
+  }
+
+  readCache = { snapshot, readAt: Date.now() };
+  console.log(`[FleetSnapshot] Ingested ${vehicles.length} vehicles (Coltrack: ${coltrackVehicles.length}, Fagor: ${fagorVehicles.length})`);
+
+  return {
+    success: true,
+    data: { snapshot, records: { coltrack: coltrackRecords, fagor: fagorRecords } }
+  };
+}
+
+// ==================== LECTURA ====================
+
+/**
+ * Último snapshot guardado, o null si todavía no hay ninguno
+ */
+export async function getFleetSnapshot(): Promise<FleetSnapshot | null> {
+  if (readCache && Date.now() - readCache.readAt < READ_CACHE_TTL_MS) {
+    return readCache.snapshot;
+  }
+
+  const supabase = getServiceClient();
+  if (!supabase) return readCache?.snapshot ?? null;
+
+  const { data, error } = await supabase
+    .from('fleet_snapshots')
+    .select('version, captured_at, sequence, vehicles, providers')
+    .eq('id', SNAPSHOT_ID)
+    .maybeSingle();
+
+  if (error) {
+    console.error('[FleetSnapshot] Error reading snapshot:', error.message);
+    return readCache?.snapshot ?? null;
+  }
+  if (!data) return null;
+
+  const snapshot: FleetSnapshot = {
+    version: data.version,
+    capturedAt: data.captured_at,
+    sequence: Number(data.sequence) || 0,
+    vehicles: data.vehicles || [],
+    providers: data.providers || {}
+  };
+
+  readCache = { snapshot, readAt: Date.now() };
+  return snapshot;
+}
+
+export const isSnapshotStale = (snapshot: FleetSnapshot): boolean =>
+  Date.now() - new Date(snapshot.capturedAt).getTime() > SNAPSHOT_MAX_AGE_MS;
@@ -0,0 +1,245 @@
+/**
+ * Configuración de integraciones externas (solo servidor)
+ *
+ * Credenciales y URLs de Coltrack, Fagor y las hojas de Apps Script salen de
+ * variables de entorno de Vercel; nada de esto se empaqueta en el frontend.
+ * Se lee y valida una vez al cargar el módulo (arranque en frío de la función)
+ * y los problemas quedan en `errors` y en el log. /api/integrations muestra el
+ * estado sin secretos (getIntegrationsStatus).
+ *
+ * Variables (ver .env.example):
+ * - COLTRACK_ACCOUNTS: JSON [{"id","user","pass"}]  ó  COLTRACK_USER + COLTRACK_PASS
+ * - FAGOR_ACCOUNTS: JSON [{"id","user","pass","empresa"}]  ó  FAGOR_USER + FAGOR_PASS +
+ *   FAGOR_EMPRESA (varias empresas separadas por coma, mismas credenciales)
+ * - COLTRACK_API_URL, FAGOR_API_URL: opcionales, por defecto los endpoints públicos
+ * - VEHICLE_SHEET_URL: Apps Script con Placa → Contrato (/api/google-sheets)
+ * - INSPECTIONS_SHEET_URL: Apps Script de inspecciones (/api/inspections)
+ */
+
+// ==================== TYPES ====================
+
+export interface ColtrackAccount {
+  id: string;
+  user: string;
+  pass: string;
+}
+
+export interface FagorAccount {
+  id: string;
+  user: string;
+  pass: string;
+  empresa: string;
+}
+
+export interface IntegrationsConfig {
+  coltrack: { url: string; accounts: ColtrackAccount[] };
+  fagor: { url: string; accounts: FagorAccount[] };
+  vehicleSheetUrl: string | null;
+  inspectionsSheetUrl: string | null;
+  /** Problemas de configuración (sin valores secretos) */
+  errors: string[];
+}
+
+export type IntegrationId = 'coltrack' | 'fagor' | 'vehicleSheet' | 'inspectionsSheet';
+
+/** Estado de una integración para la vista de administración: nunca incluye secretos */
+export interface IntegrationStatus {
+  id: IntegrationId;
+  label: string;
+  configured: boolean;
+  /** Host del endpoint (sin ruta ni parámetros) */
+  host: string | null;
+  accounts: { id: string; user?: string; empresa?: string }[];
+  errors: string[];
+}
+
+// ==================== DEFAULTS ====================
+
+const DEFAULT_COLTRACK_API_URL = 'https://gps.coltrack.com/gps/api.jsp';
+const DEFAULT_FAGOR_API_URL = 'http://www.flotasnet.com/servicios/EstadoVehiculo.asmx';
+
+// ==================== LECTURA ====================
+
+const env = (name: string): string => (process.env[name] || '').trim();
+
+const parseUrl = (name: string, fallback: string | null, errors: string[]): string | null => {
+  const value = env(name) || fallback;
+  if (!value) return null;
+
+  try {
+    const url = new URL(value);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error('protocol');
+    return value;
+  } catch {
+    errors.push(`${name} no es una URL http(s) válida`);
+    return null;
+  }
+};
+
+/** Lee un JSON de cuentas; los errores no repiten el contenido (tiene contraseñas) */
+const parseAccountsJson = (name: string, errors: string[]): Record<string, unknown>[] | null => {
+  const raw = env(name);
+  if (!raw) return null;
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) throw new Error('not an array');
+    return parsed;
+  } catch {
+    errors.push(`${name} debe ser un arreglo JSON de cuentas`);
+    return [];
+  }
+};
+
+const text = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+/** Descarta cuentas incompletas o con id repetido */
+function validateAccounts<T extends { id: string; user: string; pass: string }>(
+  name: string,
+  accounts: T[],
+  required: (keyof T)[],
+  errors: string[]
+): T[] {
+  const seen = new Set<string>();
+
+  return accounts.filter((account, index) => {
+    const missing = required.filter(field => !account[field]);
+    if (missing.length > 0) {
+      errors.push(`${name}: la cuenta ${account.id || `#${index + 1}`} no tiene ${missing.join(', ')}`);
+      return false;
+    }
+    if (seen.has(account.id)) {
+      errors.push(`${name}: el id de cuenta "${account.id}" está repetido`);
+      return false;
+    }
+    seen.add(account.id);
+    return true;
+  });
+}
+
+function loadColtrackAccounts(errors: string[]): ColtrackAccount[] {
+  const json = parseAccountsJson('COLTRACK_ACCOUNTS', errors);
+  const accounts: ColtrackAccount[] = json
+    ? json.map((entry, index) => ({
+      id: text(entry.id) || `coltrack-${index + 1}`,
+      user: text(entry.user),
+      pass: text(entry.pass),
+    }))
+    : env('COLTRACK_USER') || env('COLTRACK_PASS')
+      ? [{ id: 'default', user: env('COLTRACK_USER'), pass: env('COLTRACK_PASS') }]
+      : [];
+
+  return validateAccounts('Coltrack', accounts, ['user', 'pass'], errors);
+}
+
+function loadFagorAccounts(errors: string[]): FagorAccount[] {
+  const json = parseAccountsJson('FAGOR_ACCOUNTS', errors);
+  let accounts: FagorAccount[];
+
+  if (json) {
+    accounts = json.map((entry, index) => ({
+      id: text(entry.id) || `fagor-${index + 1}`,
+      user: text(entry.user),
+      pass: text(entry.pass),
+      empresa: text(entry.empresa),
+    }));
+  } else if (env('FAGOR_USER') || env('FAGOR_PASS') || env('FAGOR_EMPRESA')) {
+    // Una cuenta por empresa con las mismas credenciales
+    const empresas = env('FAGOR_EMPRESA').split(',').map(empresa => empresa.trim()).filter(Boolean);
+    accounts = (empresas.length > 0 ? empresas : ['']).map(empresa => ({
+      id: empresa || 'default',
+      user: env('FAGOR_USER'),
+      pass: env('FAGOR_PASS'),
+      empresa,
+    }));
+  } else {
+    accounts = [];
+  }
+
+  return validateAccounts('Fagor', accounts, ['user', 'pass', 'empresa'], errors);
+}
+
+function loadIntegrationsConfig(): IntegrationsConfig {
+  const errors: string[] = [];
+
+  const config: IntegrationsConfig = {
+    coltrack: {
+      url: parseUrl('COLTRACK_API_URL', DEFAULT_COLTRACK_API_URL, errors) || DEFAULT_COLTRACK_API_URL,
+      accounts: loadColtrackAccounts(errors),
+    },
+    fagor: {
+      url: parseUrl('FAGOR_API_URL', DEFAULT_FAGOR_API_URL, errors) || DEFAULT_FAGOR_API_URL,
+      accounts: loadFagorAccounts(errors),
+    },
+    vehicleSheetUrl: parseUrl('VEHICLE_SHEET_URL', null, errors),
+    inspectionsSheetUrl: parseUrl('INSPECTIONS_SHEET_URL', null, errors),
+    errors,
+  };
+
+  if (config.coltrack.accounts.length === 0) errors.push('Coltrack: sin cuentas configuradas');
+  if (config.fagor.accounts.length === 0) errors.push('Fagor: sin cuentas configuradas');
+  if (!config.vehicleSheetUrl) errors.push('VEHICLE_SHEET_URL no está configurada');
+  if (!config.inspectionsSheetUrl) errors.push('INSPECTIONS_SHEET_URL no está configurada');
+
+  errors.forEach(error => console.error(`[Config] ${error}`));
+  return config;
+}
+
+// Validación al arrancar: una vez por instancia de la función
+export const integrationsConfig: IntegrationsConfig = loadIntegrationsConfig();
+
+// ==================== ESTADO (SIN SECRETOS) ====================
+
+const hostOf = (url: string | null): string | null => {
+  if (!url) return null;
+  try {
+    return new URL(url).host;
+  } catch {
+    return null;
+  }
+};
+
+/** Usuario enmascarado: solo las dos primeras letras */
+const maskUser = (user: string): string => `${user.slice(0, 2)}${'•'.repeat(Math.max(user.length - 2, 3))}`;
+
+const errorsFor = (prefixes: string[]) =>
+  integrationsConfig.errors.filter(error => prefixes.some(prefix => error.startsWith(prefix)));
+
+export function getIntegrationsStatus(): IntegrationStatus[] {
+  const { coltrack, fagor, vehicleSheetUrl, inspectionsSheetUrl } = integrationsConfig;
+
+  return [
+    {
+      id: 'coltrack',
+      label: 'Coltrack (GPS)',
+      configured: coltrack.accounts.length > 0,
+      host: hostOf(coltrack.url),
+      accounts: coltrack.accounts.map(account => ({ id: account.id, user: maskUser(account.user) })),
+      errors: errorsFor(['Coltrack', 'COLTRACK_']),
+    },
+    {
+      id: 'fagor',
+      label: 'Fagor / FlotasNet (GPS)',
+      configured: fagor.accounts.length > 0,
+      host: hostOf(fagor.url),
+      accounts: fagor.accounts.map(account => ({ id: account.id, user: maskUser(account.user), empresa: account.empresa })),
+      errors: errorsFor(['Fagor', 'FAGOR_']),
+    },
+    {
+      id: 'vehicleSheet',
+      label: 'Hoja de vehículos y contratos (Apps Script)',
+      configured: !!vehicleSheetUrl,
+      host: hostOf(vehicleSheetUrl),
+      accounts: [],
+      errors: errorsFor(['VEHICLE_SHEET_URL']),
+    },
+    {
+      id: 'inspectionsSheet',
+      label: 'Inspecciones preoperacionales (Apps Script)',
+      configured: !!inspectionsSheetUrl,
+      host: hostOf(inspectionsSheetUrl),
+      accounts: [],
+      errors: errorsFor(['INSPECTIONS_SHEET_URL']),
+    },
+  ];
+}
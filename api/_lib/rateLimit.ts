@@ -0,0 +1,75 @@
+import { getServiceClient } from './supabaseAuth';
+
+/**
+ * Límite de peticiones por ventana fija (api_rate_limits.sql)
+ *
+ * El contador vive en Supabase (consume_api_rate_limit) para que todas las
+ * instancias de la función compartan el mismo conteo. Si la base no responde
+ * o falta la service role key, se cuenta en memoria de la instancia: menos
+ * exacto, pero nunca deja la API sin límite ni la bloquea por un fallo propio.
+ */
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Fin de la ventana actual (ms epoch) */
+  resetAt: number;
+}
+
+// ==================== MEMORIA (RESPALDO) ====================
+
+const memoryWindows = new Map<string, { windowStart: number; count: number }>();
+
+function consumeInMemory(key: string, limit: number, windowSeconds: number): RateLimitResult {
+  const windowMs = windowSeconds * 1000;
+  const windowStart = Math.floor(Date.now() / windowMs) * windowMs;
+
+  const entry = memoryWindows.get(key);
+  const count = entry && entry.windowStart === windowStart ? entry.count + 1 : 1;
+  memoryWindows.set(key, { windowStart, count });
+
+  // Ventanas vencidas de otras claves
+  if (memoryWindows.size > 1000) {
+    memoryWindows.forEach((value, entryKey) => {
+      if (value.windowStart < windowStart) memoryWindows.delete(entryKey);
+    });
+  }
+
+  return {
+    allowed: count <= limit,
+    limit,
+    remaining: Math.max(limit - count, 0),
+    resetAt: windowStart + windowMs
+  };
+}
+
+// ==================== CONSUMO ====================
+
+/**
+ * Cuenta una petición para `key` y dice si entra en el límite
+ */
+export async function consumeRateLimit(key: string, limit: number, windowSeconds: number): Promise<RateLimitResult> {
+  const supabase = getServiceClient();
+  if (!supabase) return consumeInMemory(key, limit, windowSeconds);
+
+  try {
+    const { data, error } = await supabase.rpc('consume_api_rate_limit', {
+      p_key: key,
+      p_limit: limit,
+      p_window_seconds: windowSeconds
+    });
+
+    if (error) throw error;
+
+    return {
+      allowed: data?.allowed === true,
+      limit,
+      remaining: Number(data?.remaining) || 0,
+      resetAt: new Date(data?.reset_at).getTime() || Date.now() + windowSeconds * 1000
+    };
+  } catch (error: any) {
+    console.warn('[RateLimit] Shared counter unavailable, using in-memory counter:', error.message);
+    return consumeInMemory(key, limit, windowSeconds);
+  }
+}
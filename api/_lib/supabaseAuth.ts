@@ -0,0 +1,60 @@
+import type { VercelRequest } from '@vercel/node';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+// Mismo proyecto que el frontend (VITE_*) salvo que se configure aparte
+const SUPABASE_URL = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const SUPABASE_ANON_KEY = process.env.SUPABASE_ANON_KEY || process.env.VITE_SUPABASE_ANON_KEY;
+// Solo servidor: rate limit (consume_api_rate_limit) y token del worker por defecto
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+// Token propio del worker alert-monitor; sin él, el worker usa la service role key
+const WORKER_API_TOKEN = process.env.WORKER_API_TOKEN;
+
+let serviceClient: SupabaseClient | null = null;
+
+/** Token del encabezado Authorization: Bearer <token>, o '' si no viene */
+export function getBearerToken(req: VercelRequest): string {
+  const header = req.headers.authorization;
+  return typeof header === 'string' && header.startsWith('Bearer ')
+    ? header.slice('Bearer '.length).trim()
+    : '';
+}
+
+function isServiceRoleToken(token: string): boolean {
+  return !!SUPABASE_SERVICE_ROLE_KEY && token === SUPABASE_SERVICE_ROLE_KEY;
+}
+
+/** Token del worker (WORKER_API_TOKEN o la service role key) */
+export function isWorkerToken(token: string): boolean {
+  return (!!WORKER_API_TOKEN && token === WORKER_API_TOKEN) || isServiceRoleToken(token);
+}
+
+/**
+ * Cliente de Supabase que actúa como el usuario del token
+ * (las funciones y políticas ven su auth.uid()). null si falta la configuración.
+ */
+export function createUserClient(token: string): SupabaseClient | null {
+  if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+    console.error('[SupabaseAuth] SUPABASE_URL / SUPABASE_ANON_KEY not configured');
+    return null;
+  }
+
+  return createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: { persistSession: false, autoRefreshToken: false }
+  });
+}
+
+/**
+ * Cliente con la service role key, reutilizado entre invocaciones de la misma
+ * instancia. Nunca actúa en nombre del usuario. null si falta la configuración.
+ */
+export function getServiceClient(): SupabaseClient | null {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) return null;
+
+  if (!serviceClient) {
+    serviceClient = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+      auth: { persistSession: false, autoRefreshToken: false }
+    });
+  }
+  return serviceClient;
+}
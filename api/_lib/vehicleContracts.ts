@@ -0,0 +1,78 @@
+import { integrationsConfig } from './integrationsConfig';
+
+// Las funciones calientes reutilizan la hoja unos minutos en lugar de
+// consultarla en cada llamada a /api/coltrack y /api/fagor
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+export interface VehicleSheet {
+  /** Registros crudos de la hoja */
+  records: any[];
+  /** Placa → datos del vehículo (incluyendo contrato) */
+  vehicleMap: Record<string, any>;
+}
+
+let cache: { sheet: VehicleSheet; fetchedAt: number } | null = null;
+
+/**
+ * Obtiene la hoja de vehículos (Apps Script) y arma el Map de Placa → Datos
+ * Compartido por /api/google-sheets y el filtro por contrato de los feeds GPS
+ */
+export async function fetchVehicleSheet(): Promise<VehicleSheet> {
+  if (cache && Date.now() - cache.fetchedAt < CACHE_TTL_MS) {
+    return cache.sheet;
+  }
+
+  // URL del Apps Script en VEHICLE_SHEET_URL
+  const sheetUrl = integrationsConfig.vehicleSheetUrl;
+  if (!sheetUrl) {
+    throw new Error('VEHICLE_SHEET_URL is not configured');
+  }
+
+  console.log('[Google Sheets API] Fetching data from Apps Script...');
+
+  const response = await fetch(sheetUrl, {
+    method: 'GET',
+    headers: {
+      'Accept': 'application/json'
+    }
+  });
+
+  if (!response.ok) {
+    throw new Error(`Google Sheets API returned status ${response.status}`);
+  }
+
+  const data = await response.json();
+
+  // Verificar estructura de datos
+  if (!data.success || !data.data || !Array.isArray(data.data)) {
+    throw new Error('Invalid response format from Google Sheets API');
+  }
+
+  console.log(`[Google Sheets API] Successfully fetched ${data.data.length} records`);
+
+  // Crear un Map de Placa → Datos para fácil lookup
+  const vehicleMap: Record<string, any> = {};
+
+  data.data.forEach((record: any) => {
+    const plate = record.Placa || record.PLACA;
+    if (plate) {
+      vehicleMap[plate] = {
+        placa: plate,
+        contrato: record.Contrato || record.CONTRATO || 'No asignado',
+        cliente: record.Cliente || record.CLIENTE || '',
+        marca: record.Marca || record.MARCA || '',
+        linea: record.Linea || record.LINEA || '',
+        tipo: record['Tipo de activo'] || record.TIPO_DE_ACTIVO || '',
+        clase: record['Clase activo'] || record.CLASE_ACTIVO || '',
+        conductor: record.Conductor || record.CONDUCTOR || '',
+        estado: record['Estado actual activo'] || record.ESTADO_ACTUAL_ACTIVO || 'ACTIVO',
+        // Incluir todos los campos originales por si se necesitan
+        ...record
+      };
+    }
+  });
+
+  const sheet = { records: data.data, vehicleMap };
+  cache = { sheet, fetchedAt: Date.now() };
+  return sheet;
+}
@@ -1,9 +1,7 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-
-// Credenciales de Coltrack
-const COLTRACK_API_URL = 'https://gps.coltrack.com/gps/api.jsp';
-const COLTRACK_USER = 'WebSMagnex';
-const COLTRACK_PASS = ']0zSKl549!9%';
+import { requireApiCaller, sendApiError } from './_lib/apiAuth';
+import { resolveContractScope, scopeFleetRecords } from './_lib/contractScope';
+import { coltrackPlate, fetchColtrackFeed } from './_lib/fleetFeeds';
 
 export default async function handler(
   req: VercelRequest,
@@ -14,32 +12,22 @@ export default async function handler(
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  try {
-    // Preparar credenciales Basic Auth
-    const credentials = Buffer.from(`${COLTRACK_USER}:${COLTRACK_PASS}`).toString('base64');
+  // Solo usuarios con sesión o el worker, con límite por caller
+  const caller = await requireApiCaller(req, res, 'coltrack');
+  if (!caller) return;
 
-    // Hacer request a Coltrack
-    const response = await fetch(COLTRACK_API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Basic ${credentials}`,
-      },
-    });
-
-    if (!response.ok) {
-      return res.status(response.status).json({
-        error: `Coltrack API returned ${response.status}`,
-        message: await response.text()
-      });
-    }
-
-    const data = await response.json();
+  // Los clientes solo reciben los vehículos de sus contratos
+  const scope = await resolveContractScope(caller);
+  if (!scope.success) {
+    return sendApiError(res, scope.status, scope.code, scope.error);
+  }
 
-    // Validar estructura de respuesta
-    if (data.status !== 'OK' || !data.message || !data.message.data) {
-      return res.status(500).json({
-        error: 'Invalid response structure from Coltrack',
-        data
+  try {
+    const feed = await fetchColtrackFeed();
+    if (!feed.success) {
+      return res.status(feed.status).json({
+        error: feed.status === 502 ? 'Failed to connect to Coltrack API' : feed.error,
+        message: feed.error
       });
     }
 
@@ -47,7 +35,8 @@ export default async function handler(
     return res.status(200).json({
       success: true,
       source: 'coltrack',
-      data: data.message.data
+      data: await scopeFleetRecords(feed.records, scope.data, coltrackPlate),
+      ...(feed.accountErrors.length > 0 && { accountErrors: feed.accountErrors })
     });
 
   } catch (error: any) {
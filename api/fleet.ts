@@ -0,0 +1,129 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createHash } from 'crypto';
+import { requireApiCaller, sendApiError } from './_lib/apiAuth';
+import { canSeeContract, ContractScope, resolveContractScope } from './_lib/contractScope';
+import {
+  FleetSnapshot,
+  getFleetSnapshot,
+  ingestFleetSnapshot,
+  INGEST_LOCK_KEY,
+  INGEST_LOCK_SECONDS,
+  isSnapshotStale
+} from './_lib/fleetSnapshot';
+import { consumeRateLimit } from './_lib/rateLimit';
+
+/**
+ * ETag por snapshot y alcance: dos usuarios con contratos distintos nunca
+ * comparten la misma versión de la respuesta
+ */
+const buildEtag = (snapshot: FleetSnapshot, scope: ContractScope): string => {
+  const scopeKey = scope.all
+    ? 'all'
+    : createHash('sha1').update([...scope.contracts].sort().join('|')).digest('hex').slice(0, 8);
+  return `"${snapshot.version}.${snapshot.sequence}-${scopeKey}"`;
+};
+
+const matchesEtag = (header: string | string[] | undefined, etag: string): boolean => {
+  const value = Array.isArray(header) ? header.join(',') : header || '';
+  return value.split(',').some(candidate => candidate.trim().replace(/^W\//, '') === etag);
+};
+
+/**
+ * Serverless function con el snapshot de la flota
+ *
+ * GET (navegadores): vehículos normalizados del último snapshot, filtrados por
+ * contrato, con el seq desde el que se aplican los cambios incrementales
+ * (fleet_vehicle_updates). Con If-None-Match responde 304 si no hubo ingesta nueva.
+ * POST (solo worker): ejecuta la ingesta y retorna además los registros crudos
+ * para que alert-monitor evalúe la misma lectura sin volver a consultar a los proveedores.
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const caller = await requireApiCaller(req, res, 'fleet');
+  if (!caller) return;
+
+  try {
+    // ==================== INGESTA (WORKER) ====================
+    if (req.method === 'POST') {
+      if (caller.kind !== 'worker') {
+        return sendApiError(res, 403, 'forbidden', 'Solo el worker puede ejecutar la ingesta');
+      }
+
+      const ingestion = await ingestFleetSnapshot();
+      if (!ingestion.success) {
+        return res.status(502).json({ success: false, error: ingestion.error });
+      }
+
+      const { snapshot, records } = ingestion.data;
+      return res.status(200).json({
+        success: true,
+        version: snapshot.version,
+        sequence: snapshot.sequence,
+        capturedAt: snapshot.capturedAt,
+        providers: snapshot.providers,
+        records
+      });
+    }
+
+    // ==================== LECTURA ====================
+    const scope = await resolveContractScope(caller);
+    if (!scope.success) {
+      return sendApiError(res, scope.status, scope.code, scope.error);
+    }
+
+    let snapshot = await getFleetSnapshot();
+
+    // Sin ingesta reciente (worker detenido): una sola lectura por ventana la renueva
+    if (!snapshot || isSnapshotStale(snapshot)) {
+      const lock = await consumeRateLimit(INGEST_LOCK_KEY, 1, INGEST_LOCK_SECONDS);
+      if (lock.allowed) {
+        console.warn('[Fleet] Snapshot missing or stale, ingesting on demand');
+        const ingestion = await ingestFleetSnapshot();
+        if (ingestion.success) {
+          snapshot = ingestion.data.snapshot;
+        }
+      }
+    }
+
+    if (!snapshot) {
+      return res.status(503).json({
+        success: false,
+        error: 'El snapshot de la flota todavía no está disponible',
+        code: 'snapshot_unavailable'
+      });
+    }
+
+    const etag = buildEtag(snapshot, scope.data);
+    res.setHeader('ETag', etag);
+    // Cada lectura se revalida; el 304 evita volver a enviar la flota
+    res.setHeader('Cache-Control', 'private, no-cache');
+
+    if (matchesEtag(req.headers['if-none-match'], etag)) {
+      return res.status(304).end();
+    }
+
+    const vehicles = snapshot.vehicles.filter(vehicle => canSeeContract(scope.data, vehicle.contract));
+
+    return res.status(200).json({
+      success: true,
+      etag,
+      capturedAt: snapshot.capturedAt,
+      // Último cambio incluido: el stream de fleet_vehicle_updates se reanuda desde aquí
+      sequence: snapshot.sequence,
+      stale: isSnapshotStale(snapshot),
+      // Solo el estado: los errores de cuentas y los conteos de la flota completa no salen al navegador
+      providers: Object.fromEntries(
+        Object.entries(snapshot.providers).map(([key, provider]) => [key, provider.status])
+      ),
+      data: vehicles,
+      count: vehicles.length
+    });
+
+  } catch (error: any) {
+    console.error('[Fleet] Error:', error);
+    return res.status(500).json({ success: false, error: error.message || 'Unknown error' });
+  }
+}
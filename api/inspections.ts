@@ -1,9 +1,16 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { ApiCaller, requireApiCaller, sendApiError } from './_lib/apiAuth';
+import { canSeeContract, resolveContractScope } from './_lib/contractScope';
+import { createUserClient } from './_lib/supabaseAuth';
+import { integrationsConfig } from './_lib/integrationsConfig';
+import { Permission } from '../supabase/functions/_shared/rolePermissions';
+
 // ============================================================================
 // CONFIGURACIÓN - Google Apps Script API
 // ============================================================================
-// URL de Apps Script deployado como Web App
+// URL de Apps Script deployado como Web App, en INSPECTIONS_SHEET_URL
 // Instrucciones completas en: /docs/GOOGLE_SHEETS_SETUP.md
-const APPS_SCRIPT_URL = 'https://script.google.com/macros/s/AKfycbx-TjIIneq8C6FLTBNPq6_Asdd273nYmvw8r5QVRl8YxIM7Y8klA31HiUJfErK340KYpg/exec';
+const APPS_SCRIPT_URL = integrationsConfig.inspectionsSheetUrl;
 
 // ============================================================================
 // Interfaces
@@ -56,6 +63,29 @@ function getDefaultDateRange(): { startDate: string; endDate: string } {
   };
 }
 
+/**
+ * Reemplazar la hoja con el Excel requiere fleet:edit (o el token del worker)
+ * null si puede; si no, el código y mensaje a devolver
+ */
+async function checkReplacePermission(caller: ApiCaller): Promise<{ status: number; code: 'unauthorized' | 'forbidden' | 'server_misconfigured'; error: string } | null> {
+  if (caller.kind === 'worker') return null;
+
+  const supabase = createUserClient(caller.token);
+  if (!supabase) {
+    return { status: 500, code: 'server_misconfigured', error: 'Supabase no está configurado en el servidor' };
+  }
+
+  const { data: allowed, error } = await supabase.rpc('has_permission', { p_permission: Permission.FLEET_EDIT });
+  if (error) {
+    console.warn('[Inspections] Permission check rejected:', error.message);
+    return { status: 401, code: 'unauthorized', error: 'Sesión inválida o vencida' };
+  }
+  if (!allowed) {
+    return { status: 403, code: 'forbidden', error: 'No tienes permiso para reemplazar las inspecciones' };
+  }
+  return null;
+}
+
 // ============================================================================
 // Handler Principal
 // ============================================================================
@@ -67,24 +97,35 @@ function getDefaultDateRange(): { startDate: string; endDate: string } {
  * - startDate: YYYY-MM-DD (default: hoy - 7 días)
  * - endDate: YYYY-MM-DD (default: hoy)
  * - limit: número máximo de registros (default: 3000, max: 5000)
- * - action: 'replace' (descarga Excel y reemplaza Sheet) o 'get' (solo lee Sheet)
+ * - action: 'get' (solo lee Sheet, por defecto) o 'replace' (descarga Excel y reemplaza Sheet; requiere fleet:edit)
+ *
+ * Solo devuelve las inspecciones de los contratos que puede ver quien llama.
  */
 export default async function handler(req: VercelRequest, res: VercelResponse) {
-  // CORS headers
-  res.setHeader('Access-Control-Allow-Credentials', 'true');
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS,POST');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  // Sin CORS: solo el frontend (mismo origen) con sesión; cada descarga lee el Excel completo
+  const caller = await requireApiCaller(req, res, 'inspections');
+  if (!caller) return;
+
+  const action = req.query.action === 'replace' ? 'replace' : 'get';
+  if (action === 'replace') {
+    const denied = await checkReplacePermission(caller);
+    if (denied) return sendApiError(res, denied.status, denied.code, denied.error);
+  }
+
+  const scope = await resolveContractScope(caller);
+  if (!scope.success) {
+    return sendApiError(res, scope.status, scope.code, scope.error);
   }
 
   try {
     // Verificar que Apps Script esté configurado
-    if (APPS_SCRIPT_URL === 'TU_URL_DE_APPS_SCRIPT_AQUI') {
+    if (!APPS_SCRIPT_URL) {
       throw new Error(
-        'Apps Script no configurado. Por favor, actualiza APPS_SCRIPT_URL en /api/inspections.ts con tu URL de Apps Script. ' +
+        'Apps Script no configurado. Por favor, define INSPECTIONS_SHEET_URL en las variables de entorno de Vercel con tu URL de Apps Script. ' +
         'Consulta /docs/GOOGLE_SHEETS_SETUP.md para instrucciones.'
       );
     }
@@ -95,7 +136,6 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const endDateParam = (req.query.endDate as string) || defaultRange.endDate;
     const limitParam = parseInt(req.query.limit as string) || 3000;
     const limit = Math.min(limitParam, 5000); // Máximo 5k registros
-    const action = (req.query.action as string) || 'replace'; // 'replace' o 'get'
 
     console.log('[Inspections] Calling Apps Script API');
     console.log('[Inspections] Date range:', startDateParam, 'to', endDateParam);
@@ -141,10 +181,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       throw new Error(appsScriptData.error || 'Apps Script retornó error desconocido');
     }
 
-    // Obtener datos
-    const inspections = appsScriptData.data || [];
+    // Solo los contratos del alcance de quien llama
+    const received = appsScriptData.data || [];
+    const inspections = received.filter(inspection => canSeeContract(scope.data, inspection.contrato));
 
-    console.log(`[Inspections] Received ${inspections.length} records from Apps Script`);
+    console.log(`[Inspections] Received ${received.length} records from Apps Script, ${inspections.length} in scope`);
 
     // Calcular estadísticas localmente
     const stats = {
@@ -188,8 +229,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       downloadedAt: appsScriptData.timestamp || new Date().toISOString(),
       filterStartDate: startDateParam,
       filterEndDate: endDateParam,
-      totalRecordsInExcel: appsScriptData.stats?.totalInExcel || 0,
-      recordsAfterFilter: appsScriptData.stats?.filteredRecords || inspections.length,
+      // Con alcance por contrato no se informa el tamaño del Excel completo
+      totalRecordsInExcel: scope.data.all ? appsScriptData.stats?.totalInExcel || 0 : inspections.length,
+      recordsAfterFilter: scope.data.all ? appsScriptData.stats?.filteredRecords || inspections.length : inspections.length,
       source: 'apps-script',
       action: action
     });
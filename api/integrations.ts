@@ -0,0 +1,40 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getIntegrationsStatus } from './_lib/integrationsConfig';
+import { requireApiCaller, sendApiError } from './_lib/apiAuth';
+import { createUserClient } from './_lib/supabaseAuth';
+import { Permission } from '../supabase/functions/_shared/rolePermissions';
+
+/**
+ * Serverless function con el estado de las integraciones (Administración → Integraciones)
+ * Solo indica qué está configurado: cuentas, empresas y host, nunca contraseñas ni URLs completas
+ */
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const caller = await requireApiCaller(req, res, 'integrations');
+  if (!caller) return;
+
+  if (caller.kind === 'user') {
+    const supabase = createUserClient(caller.token);
+    if (!supabase) {
+      return sendApiError(res, 500, 'server_misconfigured', 'Supabase no está configurado en el servidor');
+    }
+
+    const { data: allowed, error } = await supabase.rpc('has_permission', { p_permission: Permission.CONFIG_EDIT });
+    if (error) {
+      console.warn('[Integrations] Permission check rejected:', error.message);
+      return sendApiError(res, 401, 'unauthorized', 'Sesión inválida o vencida');
+    }
+    if (!allowed) {
+      return sendApiError(res, 403, 'forbidden', 'No tienes permiso para ver las integraciones');
+    }
+  }
+
+  return res.status(200).json({
+    success: true,
+    data: getIntegrationsStatus(),
+    checkedAt: new Date().toISOString()
+  });
+}
@@ -1,6 +1,7 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Alert, AlertSeverity } from '../types';
-import { X, AlertTriangle, AlertCircle, Bell, BellRing, MapPin, User, Gauge, Clock, Briefcase, Save, Copy } from 'lucide-react';
+import { X, AlertTriangle, AlertCircle, Bell, BellRing, MapPin, User, Gauge, Clock, Briefcase, Save, Copy, CheckCheck, ChevronsUp } from 'lucide-react';
+import { getAlertEscalation, AlertEscalation, AlertEscalationStepLog, ESCALATION_ROLE_LABELS } from '../services/escalationService';
 
 interface AlertDetailModalProps {
   alert: Alert | null;
@@ -8,15 +9,37 @@ interface AlertDetailModalProps {
   onClose: () => void;
   onSaveAlert?: (alert: Alert) => void;
   onCopyAlert?: (alert: Alert) => void;
+  onAcknowledgeAlert?: (alert: Alert) => void;
 }
 
+const ESCALATION_STATUS_LABELS: Record<AlertEscalation['status'], string> = {
+  active: 'En curso',
+  acknowledged: 'Confirmada',
+  exhausted: 'Sin más niveles',
+};
+
 export const AlertDetailModal: React.FC<AlertDetailModalProps> = ({
   alert,
   isOpen,
   onClose,
   onSaveAlert,
-  onCopyAlert
+  onCopyAlert,
+  onAcknowledgeAlert
 }) => {
+  const [escalation, setEscalation] = useState<{ escalation: AlertEscalation; steps: AlertEscalationStepLog[] } | null>(null);
+
+  // Estado del escalamiento (lo mantiene el worker; null si la alerta no escala)
+  useEffect(() => {
+    setEscalation(null);
+    if (!isOpen || !alert) return;
+
+    let cancelled = false;
+    getAlertEscalation(alert.id).then(result => {
+      if (!cancelled && result.success) setEscalation(result.data ?? null);
+    });
+    return () => { cancelled = true; };
+  }, [isOpen, alert?.id, alert?.acknowledged]);
+
   if (!isOpen || !alert) return null;
 
   const getSeverityIcon = (severity: AlertSeverity) => {
@@ -130,6 +153,54 @@ export const AlertDetailModal: React.FC<AlertDetailModalProps> = ({
             <p className="text-slate-900">{alert.location}</p>
           </div>
 
+          {/* Escalamiento */}
+          {(escalation || alert.acknowledged) && (
+            <div className="bg-orange-50 p-4 rounded-lg">
+              <div className="flex items-center gap-2 mb-2">
+                <ChevronsUp className="w-5 h-5 text-orange-600" />
+                <h3 className="font-semibold text-slate-900">Escalamiento</h3>
+                {escalation && (
+                  <span className="ml-auto px-2 py-0.5 rounded-full text-xs font-semibold bg-orange-100 text-orange-800">
+                    {ESCALATION_STATUS_LABELS[escalation.escalation.status]}
+                  </span>
+                )}
+              </div>
+              <div className="text-sm text-slate-700 space-y-1">
+                {escalation?.steps.map(step => (
+                  <p key={step.id}>
+                    Nivel {step.step_order} · {ESCALATION_ROLE_LABELS[step.role] || step.role} ·{' '}
+                    {new Date(step.executed_at).toLocaleTimeString('es-CO', { hour: '2-digit', minute: '2-digit' })} ·{' '}
+                    {step.contacts.length > 0
+                      ? Array.from(new Set(step.contacts.map(contact => contact.name))).join(', ')
+                      : step.note || 'Sin contactos de turno'}
+                  </p>
+                ))}
+                {escalation?.escalation.status === 'active' && escalation.escalation.next_escalation_at && (
+                  <p className="text-orange-700">
+                    Próximo nivel: {new Date(escalation.escalation.next_escalation_at).toLocaleTimeString('es-CO', { hour: '2-digit', minute: '2-digit' })}
+                  </p>
+                )}
+                {(alert.acknowledged || escalation?.escalation.acknowledged_at) && (
+                  <p className="text-green-700">
+                    Confirmada {new Date((alert.acknowledgedAt || escalation?.escalation.acknowledged_at)!).toLocaleString('es-CO')}
+                    {(alert.acknowledgedBy || escalation?.escalation.acknowledged_by) && ` por ${alert.acknowledgedBy || escalation?.escalation.acknowledged_by}`}
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Atención (cola compartida) */}
+          {alert.claimedBy && (
+            <div className="bg-indigo-50 p-4 rounded-lg">
+              <h3 className="font-semibold text-slate-900 mb-2">Atención</h3>
+              <p className="text-sm text-slate-700">
+                La atiende {alert.claimedBy}
+                {alert.claimedAt && ` desde ${new Date(alert.claimedAt).toLocaleString('es-CO')}`}
+              </p>
+            </div>
+          )}
+
           {/* Estado de Envío */}
           {alert.sent && alert.sentAt && (
             <div className="bg-sky-50 p-4 rounded-lg">
@@ -144,6 +215,15 @@ export const AlertDetailModal: React.FC<AlertDetailModalProps> = ({
 
         {/* Footer con Acciones */}
         <div className="p-6 border-t border-slate-200 bg-slate-50 flex gap-3">
+          {onAcknowledgeAlert && !alert.acknowledged && (
+            <button
+              onClick={() => onAcknowledgeAlert(alert)}
+              className="flex-1 flex items-center justify-center gap-2 px-4 py-3 bg-amber-500 text-white rounded-lg hover:bg-amber-600 transition-colors font-medium"
+            >
+              <CheckCheck className="w-5 h-5" />
+              Confirmar
+            </button>
+          )}
           {onSaveAlert && (
             <button
               onClick={() => {
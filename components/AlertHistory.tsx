@@ -1,9 +1,10 @@
 import React, { useState, useEffect } from 'react';
-import { AlertTriangle, AlertCircle, Bell, BellRing, CheckCircle, Clock, MapPin, User, Gauge, FileText, Plus, Trash2, Edit, X, FileDown, Search, Calendar, History, ShieldAlert } from 'lucide-react';
+import { AlertTriangle, AlertCircle, Bell, BellRing, CheckCircle, Clock, MapPin, User, Gauge, FileText, Plus, Trash2, Edit, X, FileDown, Search, Calendar, History, ShieldAlert, Timer } from 'lucide-react';
 import {
   getAllSavedAlerts,
   getFilteredAlerts,
   updateAlertStatus,
+  assignAlert,
   deleteAlert,
   addActionPlan,
   updateActionPlan,
@@ -14,8 +15,13 @@ import {
 import { usePagination } from '../hooks/usePagination';
 import { PaginationControls } from './PaginationControls';
 import { useExportToExcel } from '../hooks/useExportToExcel';
+import { Permission } from '../types';
 import { useAuth } from '../contexts/AuthContext';
 import { DataCleanupService } from '../services/dataCleanupService';
+import { userService } from '../services/userService';
+import { resolveRolePermissions } from '../services/roleService';
+import { evaluateSlaBreaches } from '../supabase/functions/_shared/alertSla';
+import { buildAlertReport, downloadReportAsPDF } from '../services/pdfService';
 
 interface AlertHistoryProps {
   onRefresh?: () => void;
@@ -34,8 +40,11 @@ export const AlertHistory: React.FC<AlertHistoryProps> = ({ onRefresh }) => {
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
   const { exportToExcel } = useExportToExcel();
-  const { user } = useAuth();
+  const { user, roles, can } = useAuth();
+  const canEditHistory = can(Permission.HISTORY_EDIT);
   const [isCleaning, setIsCleaning] = useState(false);
+  const [exportingPdf, setExportingPdf] = useState(false);
+  const [operators, setOperators] = useState<string[]>([]);
 
   // Action Plan Form
   const [newActionPlan, setNewActionPlan] = useState({
@@ -94,6 +103,12 @@ export const AlertHistory: React.FC<AlertHistoryProps> = ({ onRefresh }) => {
         { header: 'Placa', key: 'plate', width: 12 },
         { header: 'Contrato', key: 'contract', width: 15 },
         { header: 'Estado', key: 'status', width: 12 },
+        { header: 'Asignada a', key: 'assigned_to', width: 20 },
+        { header: 'Confirmada', key: 'acknowledged_at', width: 20 },
+        { header: 'Confirmada por', key: 'acknowledged_by', width: 20 },
+        { header: 'Resuelta', key: 'resolved_at', width: 20 },
+        { header: 'SLA Confirmación Incumplido', key: 'ack_sla_breached', width: 14 },
+        { header: 'SLA Resolución Incumplido', key: 'resolution_sla_breached', width: 14 },
         { header: 'Severidad', key: 'severity', width: 12 },
         { header: 'Detalles', key: 'details', width: 40 },
         { header: 'Conductor', key: 'driver', width: 25 },
@@ -106,10 +121,42 @@ export const AlertHistory: React.FC<AlertHistoryProps> = ({ onRefresh }) => {
     );
   };
 
+  // Reporte PDF con las alertas filtradas
+  const handleExportPdf = async () => {
+    setExportingPdf(true);
+    try {
+      const period = startDate || endDate ? `Período: ${startDate || '...'} a ${endDate || '...'}` : 'Todo el historial';
+      await downloadReportAsPDF(
+        buildAlertReport(filteredAndSearchedAlerts),
+        `Historial_Alertas_${new Date().toLocaleDateString('es-CO').replace(/\//g, '-')}`,
+        {
+          subtitle: `${period} · ${filteredAndSearchedAlerts.length} alertas`,
+          generatedBy: user ? `${user.name} (${user.email})` : undefined,
+        }
+      );
+    } catch (error) {
+      alert('No se pudo generar el PDF');
+    } finally {
+      setExportingPdf(false);
+    }
+  };
+
   useEffect(() => {
     loadAlerts();
   }, [statusFilter, severityFilter]);
 
+  useEffect(() => {
+    userService.getAllUsers().then(result => {
+      if (result.success && result.data) {
+        // Responsables posibles: quienes pueden atender el seguimiento
+        setOperators(result.data
+          .filter(u => resolveRolePermissions(u.role, roles).includes(Permission.HISTORY_EDIT))
+          .map(u => u.name || u.email)
+          .sort());
+      }
+    });
+  }, [roles]);
+
   const loadAlerts = async () => {
     setLoading(true);
     const filters: any = {};
@@ -130,7 +177,7 @@ export const AlertHistory: React.FC<AlertHistoryProps> = ({ onRefresh }) => {
   };
 
   const handleStatusChange = async (alertId: string, newStatus: 'pending' | 'in_progress' | 'resolved') => {
-    const result = await updateAlertStatus(alertId, newStatus);
+    const result = await updateAlertStatus(alertId, newStatus, user?.name || user?.email);
     if (result.success) {
       loadAlerts();
       onRefresh?.();
@@ -139,6 +186,15 @@ export const AlertHistory: React.FC<AlertHistoryProps> = ({ onRefresh }) => {
     }
   };
 
+  const handleAssign = async (alertId: string, assignee: string) => {
+    const result = await assignAlert(alertId, assignee || null, user?.name || user?.email);
+    if (result.success) {
+      loadAlerts();
+    } else {
+      alert('Error al asignar la alerta: ' + result.error);
+    }
+  };
+
   const handleDeleteAlert = async (alertId: string) => {
     if (!confirm('¿Estás seguro de eliminar esta alerta del historial?')) return;
 
@@ -266,6 +322,38 @@ export const AlertHistory: React.FC<AlertHistoryProps> = ({ onRefresh }) => {
     );
   };
 
+  const getSlaBadge = (label: string, doneAt?: string | null, dueAt?: string | null, breached?: boolean) => {
+    if (!dueAt) return null;
+
+    const style = breached
+      ? 'bg-red-100 text-red-700 border-red-300'
+      : doneAt
+        ? 'bg-green-100 text-green-700 border-green-300'
+        : 'bg-slate-100 text-slate-600 border-slate-300';
+    const text = breached
+      ? 'fuera de SLA'
+      : doneAt
+        ? 'a tiempo'
+        : `vence ${new Date(dueAt).toLocaleTimeString('es-CO', { hour: '2-digit', minute: '2-digit' })}`;
+
+    return (
+      <span className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded border text-[10px] font-semibold ${style}`}>
+        <Timer className="w-3 h-3" />
+        {label} {text}
+      </span>
+    );
+  };
+
+  const getSlaBadges = (alert: SavedAlertWithPlans) => {
+    const breaches = evaluateSlaBreaches(alert);
+    return (
+      <div className="flex flex-col items-start gap-1 mt-1">
+        {getSlaBadge('Conf.', alert.acknowledged_at, alert.ack_due_at, alert.ack_sla_breached || breaches.ack_sla_breached)}
+        {getSlaBadge('Res.', alert.resolved_at, alert.resolve_due_at, alert.resolution_sla_breached || breaches.resolution_sla_breached)}
+      </div>
+    );
+  };
+
   return (
     <div className="space-y-4">
       {/* Filtros y Búsqueda */}
@@ -351,8 +439,19 @@ export const AlertHistory: React.FC<AlertHistoryProps> = ({ onRefresh }) => {
             Excel
           </button>
 
-          {/* Botón Limpiar Historial (Solo Admin) */}
-          {user?.role === 'admin' && (
+          {/* Botón PDF */}
+          <button
+            onClick={handleExportPdf}
+            disabled={exportingPdf}
+            className={`flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm font-medium ${exportingPdf ? 'opacity-50 cursor-not-allowed' : ''}`}
+            title="Descargar reporte PDF"
+          >
+            <FileText className="w-4 h-4" />
+            {exportingPdf ? 'Generando...' : 'PDF'}
+          </button>
+
+          {/* Botón Limpiar Historial (requiere eliminar historial) */}
+          {can(Permission.HISTORY_DELETE) && (
             <button
               onClick={handleCleanupHistory}
               disabled={isCleaning}
@@ -391,6 +490,7 @@ export const AlertHistory: React.FC<AlertHistoryProps> = ({ onRefresh }) => {
                 <th className="px-4 py-3 text-left text-xs font-bold uppercase tracking-wider">Tipo</th>
                 <th className="px-4 py-3 text-left text-xs font-bold uppercase tracking-wider">Placa/Contrato</th>
                 <th className="px-4 py-3 text-center text-xs font-bold uppercase tracking-wider">Estado</th>
+                <th className="px-4 py-3 text-left text-xs font-bold uppercase tracking-wider">Responsable/SLA</th>
                 <th className="px-4 py-3 text-center text-xs font-bold uppercase tracking-wider">Severidad</th>
                 <th className="px-4 py-3 text-left text-xs font-bold uppercase tracking-wider">Detalles</th>
                 <th className="px-4 py-3 text-left text-xs font-bold uppercase tracking-wider">Conductor</th>
@@ -460,6 +560,7 @@ export const AlertHistory: React.FC<AlertHistoryProps> = ({ onRefresh }) => {
                         e.stopPropagation();
                         handleStatusChange(alert.id, e.target.value as any);
                       }}
+                      disabled={!canEditHistory}
                       className="px-2 py-1 text-xs font-medium border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-sky-500"
                     >
                       <option value="pending">Pendiente</option>
@@ -468,6 +569,25 @@ export const AlertHistory: React.FC<AlertHistoryProps> = ({ onRefresh }) => {
                     </select>
                   </td>
 
+                  {/* Responsable/SLA */}
+                  <td className="px-4 py-3 whitespace-nowrap" onClick={(e) => e.stopPropagation()}>
+                    <select
+                      value={alert.assigned_to || ''}
+                      onChange={(e) => handleAssign(alert.id, e.target.value)}
+                      disabled={!canEditHistory}
+                      className="px-2 py-1 text-xs font-medium border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-sky-500 max-w-[160px]"
+                    >
+                      <option value="">Sin asignar</option>
+                      {alert.assigned_to && !operators.includes(alert.assigned_to) && (
+                        <option value={alert.assigned_to}>{alert.assigned_to}</option>
+                      )}
+                      {operators.map(name => (
+                        <option key={name} value={name}>{name}</option>
+                      ))}
+                    </select>
+                    {getSlaBadges(alert)}
+                  </td>
+
                   {/* Severidad */}
                   <td className="px-4 py-3 text-center whitespace-nowrap">
                     <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-semibold ${getSeverityColor(alert.severity)}`}>
@@ -562,6 +682,15 @@ export const AlertHistory: React.FC<AlertHistoryProps> = ({ onRefresh }) => {
               <div>
                 <h3 className="text-xl font-bold text-slate-900">Agregar Plan de Acción</h3>
                 <p className="text-sm text-slate-600 mt-1">Alerta: {selectedAlert.plate} - {selectedAlert.type}</p>
+                <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-slate-500 mt-2">
+                  {selectedAlert.assigned_to && <span>Asignada a: <b>{selectedAlert.assigned_to}</b></span>}
+                  {selectedAlert.acknowledged_at && (
+                    <span>Confirmada: {new Date(selectedAlert.acknowledged_at).toLocaleString('es-CO')}{selectedAlert.acknowledged_by && ` por ${selectedAlert.acknowledged_by}`}</span>
+                  )}
+                  {selectedAlert.resolved_at && (
+                    <span>Resuelta: {new Date(selectedAlert.resolved_at).toLocaleString('es-CO')}{selectedAlert.resolved_by && ` por ${selectedAlert.resolved_by}`}</span>
+                  )}
+                </div>
               </div>
               <button
                 onClick={() => setShowActionModal(false)}
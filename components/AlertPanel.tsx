@@ -1,18 +1,29 @@
 import React, { useState } from 'react';
 import { Alert, AlertSeverity, AlertType } from '../types';
-import { AlertTriangle, AlertCircle, Bell, BellRing, Copy, CheckCircle, Clock, MapPin, User, Gauge, Save, FileDown, Search, MessageCircle } from 'lucide-react';
+import { AlertTriangle, AlertCircle, Bell, BellRing, Copy, CheckCircle, CheckCheck, Clock, MapPin, User, Gauge, Save, FileDown, Search, MessageCircle, Hand } from 'lucide-react';
 import { usePagination } from '../hooks/usePagination';
 import { PaginationControls } from './PaginationControls';
 import { useExportToExcel } from '../hooks/useExportToExcel';
 import { AlertDetailModal } from './AlertDetailModal';
+import { LiveQueueStatus } from '../services/liveAlertQueueService';
 
 interface AlertPanelProps {
   alerts: Alert[];
   onCopyAlert?: (alert: Alert) => void;
   onSaveAlert?: (alert: Alert) => void;
+  onAcknowledgeAlert?: (alert: Alert) => void;
+  onClaimAlert?: (alert: Alert) => void; // Tomar / liberar (solo con la cola compartida)
+  currentOperator?: string;
+  syncStatus?: LiveQueueStatus;
 }
 
-export const AlertPanel: React.FC<AlertPanelProps> = ({ alerts, onCopyAlert, onSaveAlert }) => {
+const SYNC_STATUS_STYLES: Record<LiveQueueStatus, { label: string; dot: string; title: string }> = {
+  live: { label: 'En vivo', dot: 'bg-green-500', title: 'Sincronizada con las demás consolas' },
+  connecting: { label: 'Conectando', dot: 'bg-amber-400', title: 'Conectando con la cola compartida' },
+  offline: { label: 'Solo esta consola', dot: 'bg-slate-400', title: 'Sin cola compartida: los cambios no se ven en otras consolas' },
+};
+
+export const AlertPanel: React.FC<AlertPanelProps> = ({ alerts, onCopyAlert, onSaveAlert, onAcknowledgeAlert, onClaimAlert, currentOperator, syncStatus }) => {
   const [selectedSeverity, setSelectedSeverity] = useState<'ALL' | AlertSeverity>('ALL');
   const [selectedType, setSelectedType] = useState<'ALL' | AlertType>('ALL');
   const [searchText, setSearchText] = useState('');
@@ -154,6 +165,14 @@ export const AlertPanel: React.FC<AlertPanelProps> = ({ alerts, onCopyAlert, onS
           Excel
         </button>
 
+        {/* Sincronización */}
+        {syncStatus && (
+          <div className="flex items-center gap-1.5 text-xs font-medium text-slate-500" title={SYNC_STATUS_STYLES[syncStatus].title}>
+            <span className={`w-2 h-2 rounded-full ${SYNC_STATUS_STYLES[syncStatus].dot} ${syncStatus === 'live' ? 'animate-pulse' : ''}`}></span>
+            {SYNC_STATUS_STYLES[syncStatus].label}
+          </div>
+        )}
+
         {/* Contador */}
         <div className="text-sm font-semibold text-slate-600">
           {filteredAlerts.length} alerta{filteredAlerts.length !== 1 ? 's' : ''}
@@ -193,6 +212,33 @@ export const AlertPanel: React.FC<AlertPanelProps> = ({ alerts, onCopyAlert, onS
                   {/* Acciones */}
                   <td className="px-4 py-3 text-center whitespace-nowrap">
                     <div className="flex items-center justify-center gap-2">
+                      {onClaimAlert && (!alert.claimedBy || alert.claimedBy === currentOperator) && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onClaimAlert(alert);
+                          }}
+                          className={`p-2 rounded-lg transition-colors ${alert.claimedBy
+                            ? 'text-indigo-700 bg-indigo-100 hover:bg-indigo-200'
+                            : 'text-white bg-indigo-500 hover:bg-indigo-600'
+                            }`}
+                          title={alert.claimedBy ? 'Liberar Alerta' : 'Tomar Alerta'}
+                        >
+                          <Hand className="w-4 h-4" />
+                        </button>
+                      )}
+                      {onAcknowledgeAlert && !alert.acknowledged && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            onAcknowledgeAlert(alert);
+                          }}
+                          className="p-2 rounded-lg text-white bg-amber-500 hover:bg-amber-600 transition-colors"
+                          title="Confirmar Alerta (detiene el escalamiento)"
+                        >
+                          <CheckCheck className="w-4 h-4" />
+                        </button>
+                      )}
                       {onSaveAlert && (
                         <button
                           onClick={(e) => {
@@ -218,9 +264,20 @@ export const AlertPanel: React.FC<AlertPanelProps> = ({ alerts, onCopyAlert, onS
                         </button>
                       )}
                     </div>
+                    {alert.claimedBy && (
+                      <div className="text-xs text-indigo-600 font-medium mt-1" title={alert.claimedAt ? `Desde ${new Date(alert.claimedAt).toLocaleTimeString('es-CO', { hour: '2-digit', minute: '2-digit' })}` : undefined}>
+                        Atiende: {alert.claimedBy === currentOperator ? 'Tú' : alert.claimedBy}
+                      </div>
+                    )}
+                    {alert.acknowledged && (
+                      <div className="text-xs text-amber-600 font-medium mt-1" title={alert.acknowledgedBy ? `Por: ${alert.acknowledgedBy}` : undefined}>
+                        Confirmada{alert.acknowledgedAt ? ` ${new Date(alert.acknowledgedAt).toLocaleTimeString('es-CO', { hour: '2-digit', minute: '2-digit' })}` : ''}
+                      </div>
+                    )}
                     {alert.sent && alert.sentAt && (
                       <div className="text-xs text-slate-500 mt-1">
                         {new Date(alert.sentAt).toLocaleTimeString('es-CO', { hour: '2-digit', minute: '2-digit' })}
+                        {alert.sentBy && ` · ${alert.sentBy}`}
                       </div>
                     )}
                   </td>
@@ -315,11 +372,12 @@ export const AlertPanel: React.FC<AlertPanelProps> = ({ alerts, onCopyAlert, onS
 
       {/* Modal de Detalle */}
       <AlertDetailModal
-        alert={selectedAlert}
+        alert={alerts.find(a => a.id === selectedAlert?.id) ?? selectedAlert}
         isOpen={isModalOpen}
         onClose={handleCloseModal}
         onSaveAlert={onSaveAlert}
         onCopyAlert={onCopyAlert}
+        onAcknowledgeAlert={onAcknowledgeAlert}
       />
     </div>
   );
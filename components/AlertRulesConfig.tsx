@@ -0,0 +1,485 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+    SlidersHorizontal,
+    Plus,
+    Search,
+    Edit2,
+    Trash2,
+    X,
+    Save,
+    AlertCircle,
+    CheckCircle,
+    Eye,
+    EyeOff,
+    Gauge,
+    Clock,
+    Fuel,
+    WifiOff,
+} from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { Vehicle, Permission } from '../types';
+import { alertRulesService, AlertThresholdRule, DEFAULT_ALERT_THRESHOLDS } from '../services/alertRulesService';
+
+interface AlertRulesConfigProps {
+    vehicles: Vehicle[];
+}
+
+type RuleForm = Partial<AlertThresholdRule>;
+
+const describeScope = (rule: AlertThresholdRule): string => {
+    if (rule.contract && rule.vehicle_type) return `${rule.contract} · ${rule.vehicle_type}`;
+    if (rule.contract) return rule.contract;
+    if (rule.vehicle_type) return `Tipo: ${rule.vehicle_type}`;
+    return 'Toda la flota';
+};
+
+const formatValue = (value: number | null | undefined, unit: string): string =>
+    value === null || value === undefined ? 'Hereda' : `${value} ${unit}`;
+
+const parseOptionalNumber = (value: string): number | null => (value === '' ? null : parseFloat(value));
+
+export const AlertRulesConfig: React.FC<AlertRulesConfigProps> = ({ vehicles }) => {
+    const { user, can } = useAuth();
+    const canEdit = can(Permission.CONFIG_EDIT);
+
+    const [rules, setRules] = useState<AlertThresholdRule[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [searchQuery, setSearchQuery] = useState('');
+    const [showModal, setShowModal] = useState(false);
+    const [editingRule, setEditingRule] = useState<AlertThresholdRule | null>(null);
+    const [formData, setFormData] = useState<RuleForm>({});
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+    const [success, setSuccess] = useState('');
+
+    // Sugerencias tomadas de la flota en vivo
+    const contracts = useMemo(
+        () => Array.from(new Set(vehicles.map(v => v.contract).filter(Boolean) as string[])).sort(),
+        [vehicles]
+    );
+    const vehicleTypes = useMemo(
+        () => Array.from(new Set(vehicles.map(v => v.vehicleType).filter(Boolean) as string[])).sort(),
+        [vehicles]
+    );
+
+    useEffect(() => {
+        if (canEdit) loadRules();
+    }, [canEdit]);
+
+    const loadRules = async () => {
+        setLoading(true);
+        const result = await alertRulesService.getAll();
+        if (result.success && result.data) {
+            setRules(result.data);
+        }
+        setLoading(false);
+    };
+
+    const filteredRules = rules.filter((rule) =>
+        describeScope(rule).toLowerCase().includes(searchQuery.toLowerCase()) ||
+        rule.description?.toLowerCase().includes(searchQuery.toLowerCase())
+    );
+
+    const handleOpenModal = (rule?: AlertThresholdRule) => {
+        if (rule) {
+            setEditingRule(rule);
+            setFormData(rule);
+        } else {
+            setEditingRule(null);
+            setFormData({ is_active: true });
+        }
+        setError('');
+        setSuccess('');
+        setShowModal(true);
+    };
+
+    const handleCloseModal = () => {
+        setShowModal(false);
+        setEditingRule(null);
+        setFormData({});
+        setError('');
+        setSuccess('');
+    };
+
+    const handleSave = async () => {
+        if (formData.speed_limit == null && formData.idle_time_minutes == null && formData.low_fuel_percent == null && formData.offline_minutes == null) {
+            setError('Define al menos un umbral');
+            return;
+        }
+
+        const payload = {
+            contract: formData.contract?.trim() || null,
+            vehicle_type: formData.vehicle_type?.trim() || null,
+            speed_limit: formData.speed_limit ?? null,
+            idle_time_minutes: formData.idle_time_minutes ?? null,
+            low_fuel_percent: formData.low_fuel_percent ?? null,
+            offline_minutes: formData.offline_minutes ?? null,
+            description: formData.description || null,
+            is_active: formData.is_active ?? true,
+        };
+
+        setSaving(true);
+        setError('');
+
+        try {
+            const result = editingRule
+                ? await alertRulesService.update(editingRule.id, payload)
+                : await alertRulesService.create({ ...payload, created_by: user?.email || 'Sistema' });
+
+            if (result.success) {
+                setSuccess(editingRule ? 'Regla actualizada exitosamente' : 'Regla creada exitosamente');
+                loadRules();
+                setTimeout(handleCloseModal, 1500);
+            } else {
+                setError(result.error || 'Error al guardar la regla');
+            }
+        } catch (err: any) {
+            setError(err.message || 'Error inesperado');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async (rule: AlertThresholdRule) => {
+        if (!confirm(`¿Estás seguro de eliminar la regla "${describeScope(rule)}"?`)) {
+            return;
+        }
+        const result = await alertRulesService.delete(rule.id);
+        if (result.success) {
+            loadRules();
+        }
+    };
+
+    const handleToggleActive = async (rule: AlertThresholdRule) => {
+        const result = await alertRulesService.toggleActive(rule.id, !rule.is_active);
+        if (result.success) {
+            loadRules();
+        }
+    };
+
+    if (!canEdit) {
+        return (
+            <div className="p-8 text-center">
+                <p className="text-red-500">No tienes permisos para acceder a esta página</p>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                <div>
+                    <h2 className="text-2xl font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                        <SlidersHorizontal className="w-7 h-7 text-blue-600" />
+                        Reglas de Alertas
+                    </h2>
+                    <p className="text-slate-500 dark:text-slate-400 mt-1">
+                        Umbrales por contrato y tipo de vehículo ({rules.filter((r) => r.is_active).length} reglas activas)
+                    </p>
+                </div>
+                <button
+                    onClick={() => handleOpenModal()}
+                    className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+                >
+                    <Plus className="w-5 h-5" />
+                    Nueva Regla
+                </button>
+            </div>
+
+            {/* Info Banner */}
+            <div className="p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-xl">
+                <div className="flex items-start gap-3">
+                    <AlertCircle className="w-5 h-5 text-blue-600 dark:text-blue-400 mt-0.5" />
+                    <div className="text-sm text-blue-700 dark:text-blue-400">
+                        <p>
+                            Gana la regla más específica: contrato + tipo → contrato → tipo de vehículo → toda la flota.
+                            Un umbral vacío se hereda de la siguiente regla.
+                        </p>
+                        <p className="mt-1">
+                            Sin reglas se usan {DEFAULT_ALERT_THRESHOLDS.speedLimit} km/h, {DEFAULT_ALERT_THRESHOLDS.idleTimeMinutes} min
+                            de ralentí, {DEFAULT_ALERT_THRESHOLDS.lowFuelPercent}% de combustible y {DEFAULT_ALERT_THRESHOLDS.offlineMinutes} min
+                            sin reportar para "sin señal". Los cambios aplican en la consola y en el worker 24/7.
+                        </p>
+                        <p className="mt-1">
+                            Dentro de una zona de velocidad (ver Geocercas) el límite de la zona reemplaza al del contrato.
+                        </p>
+                    </div>
+                </div>
+            </div>
+
+            {/* Search */}
+            <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-slate-400" />
+                <input
+                    type="text"
+                    placeholder="Buscar por contrato, tipo o descripción..."
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    className="w-full pl-10 pr-4 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-transparent text-slate-900 dark:text-white placeholder-slate-400"
+                />
+            </div>
+
+            {/* Rules Table */}
+            {loading ? (
+                <div className="flex items-center justify-center py-12">
+                    <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+                </div>
+            ) : filteredRules.length > 0 ? (
+                <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 overflow-x-auto">
+                    <table className="min-w-full divide-y divide-slate-200 dark:divide-slate-700">
+                        <thead className="bg-slate-50 dark:bg-slate-900/50">
+                            <tr>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Alcance</th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                                    <span className="flex items-center gap-1"><Gauge className="w-3 h-3" /> Velocidad</span>
+                                </th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                                    <span className="flex items-center gap-1"><Clock className="w-3 h-3" /> Ralentí</span>
+                                </th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                                    <span className="flex items-center gap-1"><Fuel className="w-3 h-3" /> Combustible</span>
+                                </th>
+                                <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">
+                                    <span className="flex items-center gap-1"><WifiOff className="w-3 h-3" /> Sin Señal</span>
+                                </th>
+                                <th className="px-4 py-3 text-right text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Acciones</th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                            {filteredRules.map((rule) => (
+                                <tr key={rule.id} className={rule.is_active ? '' : 'opacity-60'}>
+                                    <td className="px-4 py-3">
+                                        <p className="font-medium text-slate-900 dark:text-white">{describeScope(rule)}</p>
+                                        {rule.description && (
+                                            <p className="text-xs text-slate-500 dark:text-slate-400">{rule.description}</p>
+                                        )}
+                                    </td>
+                                    <td className="px-4 py-3 text-sm text-slate-700 dark:text-slate-300">{formatValue(rule.speed_limit, 'km/h')}</td>
+                                    <td className="px-4 py-3 text-sm text-slate-700 dark:text-slate-300">{formatValue(rule.idle_time_minutes, 'min')}</td>
+                                    <td className="px-4 py-3 text-sm text-slate-700 dark:text-slate-300">{formatValue(rule.low_fuel_percent, '%')}</td>
+                                    <td className="px-4 py-3 text-sm text-slate-700 dark:text-slate-300">{formatValue(rule.offline_minutes, 'min')}</td>
+                                    <td className="px-4 py-3">
+                                        <div className="flex items-center justify-end gap-2">
+                                            <button
+                                                onClick={() => handleToggleActive(rule)}
+                                                className={`p-2 rounded-lg transition-colors ${rule.is_active
+                                                        ? 'text-green-600 hover:bg-green-50 dark:hover:bg-green-900/20'
+                                                        : 'text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'
+                                                    }`}
+                                                title={rule.is_active ? 'Desactivar' : 'Activar'}
+                                            >
+                                                {rule.is_active ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                                            </button>
+                                            <button
+                                                onClick={() => handleOpenModal(rule)}
+                                                className="p-2 text-slate-600 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                                                title="Editar"
+                                            >
+                                                <Edit2 className="w-4 h-4" />
+                                            </button>
+                                            <button
+                                                onClick={() => handleDelete(rule)}
+                                                className="p-2 text-slate-600 dark:text-slate-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                                                title="Eliminar"
+                                            >
+                                                <Trash2 className="w-4 h-4" />
+                                            </button>
+                                        </div>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            ) : (
+                <div className="text-center py-12 bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700">
+                    <SlidersHorizontal className="w-12 h-12 text-slate-300 dark:text-slate-600 mx-auto mb-4" />
+                    <h3 className="text-lg font-medium text-slate-900 dark:text-white mb-2">
+                        No se encontraron reglas
+                    </h3>
+                    <p className="text-slate-500 dark:text-slate-400">
+                        {searchQuery ? 'Intenta con otros términos de búsqueda' : 'Toda la flota usa los umbrales por defecto'}
+                    </p>
+                </div>
+            )}
+
+            {/* Modal */}
+            {showModal && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+                    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+                        <div className="flex items-center justify-between p-6 border-b border-slate-200 dark:border-slate-700">
+                            <h3 className="text-xl font-semibold text-slate-900 dark:text-white">
+                                {editingRule ? 'Editar Regla' : 'Nueva Regla'}
+                            </h3>
+                            <button
+                                onClick={handleCloseModal}
+                                className="p-2 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+                            >
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <div className="p-6 space-y-4">
+                            {error && (
+                                <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg flex items-center gap-2 text-red-700 dark:text-red-400">
+                                    <AlertCircle className="w-5 h-5" />
+                                    <span className="text-sm">{error}</span>
+                                </div>
+                            )}
+
+                            {success && (
+                                <div className="p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg flex items-center gap-2 text-green-700 dark:text-green-400">
+                                    <CheckCircle className="w-5 h-5" />
+                                    <span className="text-sm">{success}</span>
+                                </div>
+                            )}
+
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                        Contrato
+                                    </label>
+                                    <input
+                                        type="text"
+                                        list="alert-rules-contracts"
+                                        value={formData.contract || ''}
+                                        onChange={(e) => setFormData({ ...formData, contract: e.target.value })}
+                                        placeholder="Todos"
+                                        className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 text-slate-900 dark:text-white"
+                                    />
+                                    <datalist id="alert-rules-contracts">
+                                        {contracts.map((contract) => <option key={contract} value={contract} />)}
+                                    </datalist>
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                        Tipo de Vehículo
+                                    </label>
+                                    <input
+                                        type="text"
+                                        list="alert-rules-vehicle-types"
+                                        value={formData.vehicle_type || ''}
+                                        onChange={(e) => setFormData({ ...formData, vehicle_type: e.target.value })}
+                                        placeholder="Todos"
+                                        className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 text-slate-900 dark:text-white"
+                                    />
+                                    <datalist id="alert-rules-vehicle-types">
+                                        {vehicleTypes.map((type) => <option key={type} value={type} />)}
+                                    </datalist>
+                                </div>
+                            </div>
+
+                            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                        Velocidad máx. (km/h)
+                                    </label>
+                                    <input
+                                        type="number"
+                                        min="1"
+                                        value={formData.speed_limit ?? ''}
+                                        onChange={(e) => setFormData({ ...formData, speed_limit: parseOptionalNumber(e.target.value) })}
+                                        placeholder="Hereda"
+                                        className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 text-slate-900 dark:text-white"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                        Ralentí (min)
+                                    </label>
+                                    <input
+                                        type="number"
+                                        min="1"
+                                        value={formData.idle_time_minutes ?? ''}
+                                        onChange={(e) => setFormData({ ...formData, idle_time_minutes: parseOptionalNumber(e.target.value) })}
+                                        placeholder="Hereda"
+                                        className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 text-slate-900 dark:text-white"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                        Combustible (%)
+                                    </label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        max="100"
+                                        value={formData.low_fuel_percent ?? ''}
+                                        onChange={(e) => setFormData({ ...formData, low_fuel_percent: parseOptionalNumber(e.target.value) })}
+                                        placeholder="Hereda"
+                                        className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 text-slate-900 dark:text-white"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                        Sin señal (min)
+                                    </label>
+                                    <input
+                                        type="number"
+                                        min="1"
+                                        value={formData.offline_minutes ?? ''}
+                                        onChange={(e) => setFormData({ ...formData, offline_minutes: parseOptionalNumber(e.target.value) })}
+                                        placeholder="Hereda"
+                                        className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 text-slate-900 dark:text-white"
+                                    />
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                    Descripción
+                                </label>
+                                <textarea
+                                    value={formData.description || ''}
+                                    onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                                    rows={2}
+                                    placeholder="Ej: Contrato urbano, límite municipal"
+                                    className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 text-slate-900 dark:text-white resize-none"
+                                ></textarea>
+                            </div>
+
+                            <label className="flex items-center gap-2 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={formData.is_active ?? true}
+                                    onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+                                    className="w-4 h-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                                />
+                                <span className="text-sm text-slate-700 dark:text-slate-300">Regla activa</span>
+                            </label>
+                        </div>
+
+                        <div className="flex items-center justify-end gap-3 p-6 border-t border-slate-200 dark:border-slate-700">
+                            <button
+                                onClick={handleCloseModal}
+                                className="px-4 py-2 text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+                            >
+                                Cancelar
+                            </button>
+                            <button
+                                onClick={handleSave}
+                                disabled={saving}
+                                className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+                            >
+                                {saving ? (
+                                    <>
+                                        <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                                        Guardando...
+                                    </>
+                                ) : (
+                                    <>
+                                        <Save className="w-4 h-4" />
+                                        Guardar
+                                    </>
+                                )}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AlertRulesConfig;
@@ -2,24 +2,28 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { TrendingUp, Activity, AlertTriangle, Shield, Clock, Award, Users } from 'lucide-react';
 import { Vehicle, Alert } from '../types';
 import { getAllSavedAlerts, getAlertStatistics, SavedAlertWithPlans } from '../services/databaseService';
-import { getIdleTimeByContract, type IdleTimeRecord } from '../services/towerControlService';
-import { getCurrentIdleStats } from '../services/alertService';
-import { TrendChart, DonutChart, ScoreGauge, EfficiencyBar } from './AnalyticsCharts';
+import { getIdleTimeByContract, getCurrentIdleStats, type IdleTimeRecord } from '../services/towerControlService';
+import {
+  driverScoreService,
+  DRIVER_SCORE_CONFIG,
+  DRIVER_SCORE_FACTOR_LABELS,
+  DRIVER_SCORE_PERIOD_LABELS,
+  formatScorePeriod,
+  isRankable,
+  summarizeDriverScores,
+  type DriverScoreFactor,
+  type DriverScorePeriod,
+  type DriverScoreRow
+} from '../services/driverScoreService';
+import { TrendChart, DonutChart, ScoreGauge, EfficiencyBar, ScoreTrendChart } from './AnalyticsCharts';
 
 interface AnalyticsProps {
   vehicles: Vehicle[];
   alerts?: Alert[]; // Optional: realtime alerts
 }
 
-interface VehicleAlertStats {
-  plate: string;
-  driver: string;
-  contract: string;
-  alertCount: number;
-  criticalCount: number;
-  lastAlert?: string;
-  score: number;
-}
+/** Períodos que se muestran en la tendencia del puntaje */
+const SCORE_TREND_PERIODS = 8;
 
 export const Analytics: React.FC<AnalyticsProps> = ({ vehicles, alerts: realtimeAlerts = [] }) => {
   const [savedAlerts, setSavedAlerts] = useState<SavedAlertWithPlans[]>([]);
@@ -27,18 +31,30 @@ export const Analytics: React.FC<AnalyticsProps> = ({ vehicles, alerts: realtime
   const [idleRecords, setIdleRecords] = useState<IdleTimeRecord[]>([]);
   const [currentIdleVehicles, setCurrentIdleVehicles] = useState<Array<{ plate: string; durationMinutes: number; driver?: string; location?: string }>>([]);
   const [loading, setLoading] = useState(true);
+  const [scorePeriod, setScorePeriod] = useState<DriverScorePeriod>('weekly');
+  const [driverScores, setDriverScores] = useState<DriverScoreRow[]>([]);
+  const [selectedDriverKey, setSelectedDriverKey] = useState<string | null>(null);
 
   useEffect(() => {
     loadAnalytics();
 
-    // Actualizar vehículos en ralentí cada 30 segundos
-    const interval = setInterval(() => {
-      setCurrentIdleVehicles(getCurrentIdleStats());
+    // Actualizar vehículos en ralentí cada 30 segundos (estado que mantiene el worker)
+    const interval = setInterval(async () => {
+      setCurrentIdleVehicles(await getCurrentIdleStats());
     }, 30000);
 
     return () => clearInterval(interval);
   }, []);
 
+  useEffect(() => {
+    loadDriverScores();
+  }, [scorePeriod]);
+
+  const loadDriverScores = async () => {
+    const result = await driverScoreService.getRecent(scorePeriod, SCORE_TREND_PERIODS);
+    setDriverScores(result.success && result.data ? result.data : []);
+  };
+
   const loadAnalytics = async () => {
     setLoading(true);
 
@@ -78,7 +94,7 @@ export const Analytics: React.FC<AnalyticsProps> = ({ vehicles, alerts: realtime
     setIdleRecords(allIdleRecords);
 
     // Cargar vehículos actualmente en ralentí
-    setCurrentIdleVehicles(getCurrentIdleStats());
+    setCurrentIdleVehicles(await getCurrentIdleStats());
 
     setLoading(false);
   };
@@ -144,62 +160,53 @@ export const Analytics: React.FC<AnalyticsProps> = ({ vehicles, alerts: realtime
   }, [savedAlerts]);
 
 
-  // Calcular estadísticas por vehículo (incluyendo SCORE)
-  const vehicleStats: VehicleAlertStats[] = React.useMemo(() => {
-    const statsMap = new Map<string, VehicleAlertStats>();
-
-    // Initial population from vehicles list
-    vehicles.forEach(v => {
-      statsMap.set(v.plate, {
-        plate: v.plate,
-        driver: v.driver,
-        contract: v.contract || 'Sin Contrato',
-        alertCount: 0,
-        criticalCount: 0,
-        lastAlert: undefined,
-        score: 100 // Start with perfect score
-      });
+  // --- MEMO: Puntaje de conducción (driver_scores) ---
+  const scoreTrend = useMemo(() => {
+    const byPeriod = new Map<string, DriverScoreRow[]>();
+    driverScores.forEach(row => {
+      if (!byPeriod.has(row.period_start)) byPeriod.set(row.period_start, []);
+      byPeriod.get(row.period_start)!.push(row);
     });
 
-    // Process alerts
-    savedAlerts.forEach(alert => {
-      if (!statsMap.has(alert.plate)) {
-        statsMap.set(alert.plate, {
-          plate: alert.plate,
-          driver: alert.driver || 'Desconocido',
-          contract: alert.contract || 'Sin Contrato',
-          alertCount: 0,
-          criticalCount: 0,
-          lastAlert: undefined,
-          score: 100
-        });
-      }
-      const stats = statsMap.get(alert.plate)!;
-      stats.alertCount++;
-      if (alert.severity === 'critical') stats.criticalCount++;
-
-      // Update score (Simple deduction logic)
-      let pen = 0;
-      if (alert.severity === 'critical') pen = 5;
-      else if (alert.severity === 'high') pen = 3;
-      else if (alert.severity === 'medium') pen = 1;
-      stats.score = Math.max(0, stats.score - pen);
-
-      if (!stats.lastAlert || new Date(alert.timestamp) > new Date(stats.lastAlert)) {
-        stats.lastAlert = alert.timestamp;
-      }
+    return Array.from(byPeriod.keys()).sort().map(periodStart => {
+      const rows = byPeriod.get(periodStart)!;
+      const driverRow = selectedDriverKey ? rows.find(row => row.driver_key === selectedDriverKey) : undefined;
+
+      return {
+        periodStart,
+        label: formatScorePeriod(scorePeriod, periodStart),
+        score: selectedDriverKey ? driverRow?.score ?? null : summarizeDriverScores(rows).score,
+        rows
+      };
     });
+  }, [driverScores, scorePeriod, selectedDriverKey]);
 
-    return Array.from(statsMap.values()).sort((a, b) => a.score - b.score); // Sort by lowest score (worst first)
-  }, [vehicles, savedAlerts]);
+  // Último período calculado: índice de la flota y ranking
+  const currentScores = scoreTrend.length > 0 ? scoreTrend[scoreTrend.length - 1] : null;
 
-  // Average Fleet Score
-  const averageFleetScore = useMemo(() => {
-    if (vehicleStats.length === 0) return 100;
-    const totalScore = vehicleStats.reduce((sum, v) => sum + v.score, 0);
-    return Math.round(totalScore / vehicleStats.length);
-  }, [vehicleStats]);
+  const fleetScore = useMemo(() => summarizeDriverScores(currentScores?.rows || []), [currentScores]);
 
+  const leaderboard = useMemo(() => {
+    return (currentScores?.rows || [])
+      .filter(isRankable)
+      .sort((a, b) => b.score - a.score || b.km - a.km);
+  }, [currentScores]);
+
+  const unrankedDrivers = (currentScores?.rows.length || 0) - leaderboard.length;
+
+  const selectedDriver = useMemo(() => {
+    if (!selectedDriverKey) return null;
+    return currentScores?.rows.find(row => row.driver_key === selectedDriverKey)
+      || [...driverScores].reverse().find(row => row.driver_key === selectedDriverKey)
+      || null;
+  }, [selectedDriverKey, currentScores, driverScores]);
+
+  /** Factor que más puntos le quitó al conductor */
+  const mainPenalty = (row: DriverScoreRow): string | null => {
+    const [factor, points] = (Object.entries(row.penalties || {}) as [DriverScoreFactor, number][])
+      .sort((a, b) => b[1] - a[1])[0] || [];
+    return factor && points > 0 ? `${DRIVER_SCORE_FACTOR_LABELS[factor]} (-${Math.round(points)})` : null;
+  };
 
   // Calcular métricas generales
   const overallMetrics = React.useMemo(() => {
@@ -250,9 +257,15 @@ export const Analytics: React.FC<AnalyticsProps> = ({ vehicles, alerts: realtime
             <Shield className="w-32 h-32 text-slate-900 dark:text-white" />
           </div>
           <h3 className="text-lg font-bold text-slate-800 dark:text-white mb-2 z-10">Puntaje de Seguridad</h3>
-          <ScoreGauge score={averageFleetScore} label="Índice Global" size={160} />
-          <p className="text-sm text-center text-slate-500 dark:text-slate-400 mt-2 z-10 max-w-[200px]">
-            Calidad de conducción basada en infracciones y alertas.
+          {fleetScore.score !== null ? (
+            <ScoreGauge score={fleetScore.score} label="Índice Global" size={160} />
+          ) : (
+            <p className="text-sm text-slate-400 py-12 z-10">Aún no hay puntajes calculados</p>
+          )}
+          <p className="text-sm text-center text-slate-500 dark:text-slate-400 mt-2 z-10 max-w-[220px]">
+            {currentScores
+              ? `${DRIVER_SCORE_PERIOD_LABELS[scorePeriod]} ${currentScores.label}: ${fleetScore.drivers} conductores, ${Math.round(fleetScore.km)} km.`
+              : 'Calidad de conducción por cada 100 km recorridos.'}
           </p>
         </div>
 
@@ -308,37 +321,89 @@ export const Analytics: React.FC<AnalyticsProps> = ({ vehicles, alerts: realtime
           <TrendChart data={trendData} height={220} />
         </div>
 
-        {/* Driver Ranking (Worst Scores) */}
+        {/* Driver Leaderboard */}
         <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6 shadow-sm flex flex-col">
-          <h3 className="text-lg font-bold text-slate-800 dark:text-white mb-4 flex items-center gap-2">
-            <Award className="w-5 h-5 text-slate-500 dark:text-slate-400" />
-            Ranking de Conductores (Requieren Atención)
-          </h3>
+          <div className="flex items-center justify-between gap-2 mb-4">
+            <h3 className="text-lg font-bold text-slate-800 dark:text-white flex items-center gap-2">
+              <Award className="w-5 h-5 text-slate-500 dark:text-slate-400" />
+              Ranking de Conductores
+            </h3>
+            <select
+              value={scorePeriod}
+              onChange={(e) => { setScorePeriod(e.target.value as DriverScorePeriod); setSelectedDriverKey(null); }}
+              className="px-2 py-1 text-sm bg-white dark:bg-slate-900 border border-slate-200 dark:border-slate-700 rounded-lg text-slate-700 dark:text-slate-200"
+            >
+              {(Object.keys(DRIVER_SCORE_PERIOD_LABELS) as DriverScorePeriod[]).map(period => (
+                <option key={period} value={period}>{DRIVER_SCORE_PERIOD_LABELS[period]}</option>
+              ))}
+            </select>
+          </div>
           <div className="overflow-auto max-h-[250px] pr-2 custom-scrollbar">
-            {vehicleStats.slice(0, 8).map((v, i) => (
-              <div key={i} className="flex items-center justify-between p-3 mb-2 bg-slate-50 dark:bg-slate-900/50 rounded-lg border border-slate-100 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors">
+            {leaderboard.map((row, i) => (
+              <button
+                key={row.driver_key}
+                onClick={() => setSelectedDriverKey(selectedDriverKey === row.driver_key ? null : row.driver_key)}
+                className={`w-full text-left flex items-center justify-between p-3 mb-2 rounded-lg border transition-colors ${selectedDriverKey === row.driver_key ? 'bg-sky-50 dark:bg-sky-900/30 border-sky-300 dark:border-sky-700' : 'bg-slate-50 dark:bg-slate-900/50 border-slate-100 dark:border-slate-700 hover:bg-slate-100 dark:hover:bg-slate-700'}`}
+              >
                 <div className="flex items-center gap-3">
-                  <div className={`w-8 h-8 rounded-full flex items-center justify-center font-bold text-white text-sm ${v.score < 60 ? 'bg-red-500' : v.score < 80 ? 'bg-amber-400' : 'bg-green-500'}`}>
-                    {v.score}
+                  <span className="w-5 text-xs font-semibold text-slate-400 text-right">{i + 1}</span>
+                  <div className={`w-8 h-8 rounded-full flex items-center justify-center font-bold text-white text-sm ${row.score < 60 ? 'bg-red-500' : row.score < 80 ? 'bg-amber-400' : 'bg-green-500'}`}>
+                    {row.score}
                   </div>
                   <div>
-                    <p className="font-semibold text-slate-800 dark:text-white text-sm">{v.driver}</p>
-                    <p className="text-xs text-slate-500 dark:text-slate-400">{v.plate} • {v.alertCount} alertas</p>
+                    <p className="font-semibold text-slate-800 dark:text-white text-sm">{row.driver_name}</p>
+                    <p className="text-xs text-slate-500 dark:text-slate-400">
+                      {Math.round(row.km)} km • {row.plates.join(', ') || 'Sin placa'}
+                    </p>
                   </div>
                 </div>
                 <div className="text-right">
-                  <span className="text-xs font-medium text-slate-400">Contrato</span>
-                  <p className="text-xs text-slate-600 dark:text-slate-300">{v.contract}</p>
+                  <span className="text-xs font-medium text-slate-400">{row.contract || 'Sin Contrato'}</span>
+                  <p className="text-xs text-slate-600 dark:text-slate-300">{mainPenalty(row) || 'Sin descuentos'}</p>
                 </div>
-              </div>
+              </button>
             ))}
-            {vehicleStats.length === 0 && (
+            {leaderboard.length === 0 && (
               <p className="text-center text-slate-400 py-10">Sin datos suficientes para el ranking</p>
             )}
           </div>
+          {unrankedDrivers > 0 && (
+            <p className="text-xs text-slate-400 mt-2">
+              {unrankedDrivers} conductores con menos de {DRIVER_SCORE_CONFIG.MIN_RANKING_KM[scorePeriod]} km en el periodo no entran al ranking.
+            </p>
+          )}
         </div>
       </div>
 
+      {/* Score Trend */}
+      <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-6 shadow-sm">
+        <div className="flex items-center justify-between gap-2 mb-4">
+          <h3 className="text-lg font-bold text-slate-800 dark:text-white flex items-center gap-2">
+            <Users className="w-5 h-5 text-slate-500 dark:text-slate-400" />
+            {selectedDriver ? `Tendencia del Puntaje: ${selectedDriver.driver_name}` : 'Tendencia del Puntaje de la Flota'}
+          </h3>
+          {selectedDriver && (
+            <button
+              onClick={() => setSelectedDriverKey(null)}
+              className="text-xs text-sky-600 dark:text-sky-400 hover:underline"
+            >
+              Ver flota
+            </button>
+          )}
+        </div>
+        <ScoreTrendChart data={scoreTrend.map(({ label, score }) => ({ label, score }))} height={180} />
+        {selectedDriver && (
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mt-4">
+            {(Object.keys(DRIVER_SCORE_FACTOR_LABELS) as DriverScoreFactor[]).map(factor => (
+              <div key={factor} className="bg-slate-50 dark:bg-slate-900/50 p-3 rounded-lg border border-slate-100 dark:border-slate-700">
+                <p className="text-xs text-slate-500 dark:text-slate-400">{DRIVER_SCORE_FACTOR_LABELS[factor]}</p>
+                <p className="text-lg font-bold text-slate-800 dark:text-white">-{Math.round(selectedDriver.penalties?.[factor] || 0)}</p>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Current Idle Realtime */}
       {currentIdleVehicles.length > 0 && (
         <div className="bg-gradient-to-r from-orange-50 to-white dark:from-orange-900/20 dark:to-slate-800 border border-orange-200 dark:border-orange-800 rounded-xl p-6 shadow-sm">
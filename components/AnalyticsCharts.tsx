@@ -253,3 +253,130 @@ export const EfficiencyBar: React.FC<EfficiencyProps> = ({ moving, idle, stopped
         </div>
     );
 }
+
+// --- FUEL LEVEL CHART (Line Chart) ---
+
+interface FuelPoint {
+    time: string;  // ISO
+    level: number; // %
+}
+
+interface FuelMarker {
+    time: string;
+    level: number;
+    type: 'drop' | 'refuel';
+    label: string;
+}
+
+interface FuelLevelChartProps {
+    points: FuelPoint[];
+    markers?: FuelMarker[];
+    height?: number;
+}
+
+export const FuelLevelChart: React.FC<FuelLevelChartProps> = ({ points, markers = [], height = 160 }) => {
+    if (points.length < 2) {
+        return (
+            <div className="flex items-center justify-center text-slate-400 text-xs bg-slate-50 rounded-lg" style={{ height }}>
+                Sin lecturas de combustible suficientes en el periodo
+            </div>
+        );
+    }
+
+    const width = 600;
+    const padding = 8;
+    const start = new Date(points[0].time).getTime();
+    const end = new Date(points[points.length - 1].time).getTime();
+    const span = Math.max(end - start, 1);
+
+    const x = (time: string) => padding + ((new Date(time).getTime() - start) / span) * (width - padding * 2);
+    const y = (level: number) => padding + (1 - Math.min(Math.max(level, 0), 100) / 100) * (height - padding * 2);
+
+    const line = points.map(p => `${x(p.time).toFixed(1)},${y(p.level).toFixed(1)}`).join(' ');
+    const formatTime = (time: string) => new Date(time).toLocaleString('es-CO', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+    return (
+        <div className="w-full">
+            <svg viewBox={`0 0 ${width} ${height}`} className="w-full" style={{ height }} preserveAspectRatio="none">
+                {/* Líneas guía: 25%, 50%, 75% */}
+                {[25, 50, 75].map(level => (
+                    <line key={level} x1={padding} x2={width - padding} y1={y(level)} y2={y(level)} stroke="#e2e8f0" strokeDasharray="4 4" />
+                ))}
+
+                <polyline points={line} fill="none" stroke="#0ea5e9" strokeWidth="2" strokeLinejoin="round" vectorEffect="non-scaling-stroke" />
+
+                {/* Caídas sospechosas (rojo) y recargas (verde) */}
+                {markers.map((marker, index) => (
+                    <circle key={index} cx={x(marker.time)} cy={y(marker.level)} r="5" fill={marker.type === 'drop' ? '#ef4444' : '#22c55e'} stroke="#fff" strokeWidth="1.5">
+                        <title>{`${formatTime(marker.time)} - ${marker.label}`}</title>
+                    </circle>
+                ))}
+            </svg>
+
+            <div className="flex justify-between mt-1 text-xs text-slate-500">
+                <span>{formatTime(points[0].time)}</span>
+                <span>{formatTime(points[points.length - 1].time)}</span>
+            </div>
+        </div>
+    );
+}
+
+// --- SCORE TREND CHART (Line Chart) ---
+
+interface ScoreTrendPoint {
+    label: string;        // e.g., "Sem. 12 de oct"
+    score: number | null; // 0 to 100 (null = sin datos en el período)
+}
+
+interface ScoreTrendChartProps {
+    data: ScoreTrendPoint[];
+    height?: number;
+    color?: string;
+}
+
+export const ScoreTrendChart: React.FC<ScoreTrendChartProps> = ({ data, height = 180, color = '#0ea5e9' }) => {
+    const points = data
+        .map((item, index) => ({ ...item, index }))
+        .filter((item): item is ScoreTrendPoint & { index: number; score: number } => item.score !== null);
+
+    if (points.length === 0) {
+        return (
+            <div className="flex items-center justify-center text-slate-400 text-xs bg-slate-50 dark:bg-slate-900/50 rounded-lg" style={{ height }}>
+                Sin puntajes calculados en el periodo
+            </div>
+        );
+    }
+
+    const width = 600;
+    const padding = 12;
+    const step = data.length > 1 ? (width - padding * 2) / (data.length - 1) : 0;
+
+    const x = (index: number) => data.length > 1 ? padding + index * step : width / 2;
+    const y = (score: number) => padding + (1 - Math.min(Math.max(score, 0), 100) / 100) * (height - padding * 2);
+
+    const line = points.map(p => `${x(p.index).toFixed(1)},${y(p.score).toFixed(1)}`).join(' ');
+
+    return (
+        <div className="w-full">
+            <svg viewBox={`0 0 ${width} ${height}`} className="w-full" style={{ height }} preserveAspectRatio="none">
+                {/* Líneas guía: mismos cortes de color que ScoreGauge */}
+                {[50, 70, 90].map(level => (
+                    <line key={level} x1={padding} x2={width - padding} y1={y(level)} y2={y(level)} stroke="#e2e8f0" strokeDasharray="4 4" />
+                ))}
+
+                <polyline points={line} fill="none" stroke={color} strokeWidth="2" strokeLinejoin="round" vectorEffect="non-scaling-stroke" />
+
+                {points.map(point => (
+                    <circle key={point.index} cx={x(point.index)} cy={y(point.score)} r="4" fill={color} stroke="#fff" strokeWidth="1.5">
+                        <title>{`${point.label}: ${point.score}`}</title>
+                    </circle>
+                ))}
+            </svg>
+
+            <div className="flex justify-between mt-1 text-xs text-slate-500">
+                <span>{data[0].label}</span>
+                {data.length > 1 && <span>{data[data.length - 1].label}</span>}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,677 @@
+import React, { useState, useMemo } from 'react';
+import {
+    FileText,
+    Search,
+    Plus,
+    Edit2,
+    Trash2,
+    X,
+    Save,
+    Download,
+    Paperclip,
+    AlertCircle,
+    CheckCircle,
+    ShieldAlert,
+    UserX,
+} from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { Permission } from '../types';
+import {
+    driverComplianceService,
+    daysUntilExpiry,
+    describeExpiry,
+    documentExpiryStatus,
+    documentLabel,
+    DOCUMENT_EXPIRY_STATUS_LABELS,
+    DRIVER_COMPLIANCE_CONFIG,
+    DRIVER_DOCUMENT_TYPE_LABELS,
+    type DocumentExpiryStatus,
+    type DriverDocumentInput,
+    type DriverDocumentRow,
+    type DriverDocumentType,
+} from '../services/driverComplianceService';
+import type { Driver } from './DriverManagement';
+
+const LICENSE_CATEGORIES = ['A1', 'A2', 'B1', 'B2', 'B3', 'C1', 'C2', 'C3'];
+
+/** Ventanas del tablero: vencidos o que vencen en 7, 15 o 30 días */
+type ExpiryWindow = 'expired' | 7 | 15 | 30;
+
+export const getExpiryClasses = (status: DocumentExpiryStatus) => {
+    switch (status) {
+        case 'expired':
+            return 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400';
+        case 'due_7':
+            return 'bg-orange-100 dark:bg-orange-900/30 text-orange-700 dark:text-orange-400';
+        case 'due_15':
+        case 'due_30':
+            return 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400';
+        default:
+            return 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400';
+    }
+};
+
+const formatDate = (value: string | null) =>
+    value ? new Date(`${value.slice(0, 10)}T12:00:00`).toLocaleDateString('es-CO', { day: '2-digit', month: 'short', year: 'numeric' }) : '—';
+
+const ExpiryBadge: React.FC<{ expiresAt: string | null }> = ({ expiresAt }) => {
+    const days = daysUntilExpiry(expiresAt);
+    const status = documentExpiryStatus(days);
+    return (
+        <span className={`px-2 py-0.5 text-xs font-medium rounded-full whitespace-nowrap ${getExpiryClasses(status)}`} title={DOCUMENT_EXPIRY_STATUS_LABELS[status]}>
+            {status === 'valid' || status === 'no_expiry' ? DOCUMENT_EXPIRY_STATUS_LABELS[status] : describeExpiry(days)}
+        </span>
+    );
+};
+
+const handleDownload = async (document: DriverDocumentRow) => {
+    const result = await driverComplianceService.download(document);
+    if (!result.success) alert('Error al descargar: ' + result.error);
+};
+
+// =====================================================
+// DASHBOARD
+// =====================================================
+
+interface DriverCompliancePanelProps {
+    drivers: Driver[];
+    documents: DriverDocumentRow[];
+    loading: boolean;
+    onOpenDocuments: (driver: Driver) => void;
+}
+
+/**
+ * Tablero de vencimientos de licencias, certificados médicos y cursos
+ * (ver supabase/functions/_shared/driverCompliance.ts)
+ */
+export const DriverCompliancePanel: React.FC<DriverCompliancePanelProps> = ({ drivers, documents, loading, onOpenDocuments }) => {
+    const [expiryWindow, setExpiryWindow] = useState<ExpiryWindow>(30);
+    const [typeFilter, setTypeFilter] = useState<'all' | DriverDocumentType>('all');
+    const [searchQuery, setSearchQuery] = useState('');
+
+    const driversById = useMemo(() => new Map(drivers.map((driver) => [driver.id, driver])), [drivers]);
+
+    // Documentos de conductores que no están retirados, con los días que faltan
+    const trackedDocuments = useMemo(
+        () =>
+            documents
+                .filter((document) => driversById.get(document.driver_id)?.status !== 'inactive')
+                .map((document) => ({ document, days: daysUntilExpiry(document.expires_at) })),
+        [documents, driversById]
+    );
+
+    const counts = useMemo(() => {
+        const result = { expired: 0, 7: 0, 15: 0, 30: 0 };
+        trackedDocuments.forEach(({ days }) => {
+            if (days === null) return;
+            if (days < 0) result.expired++;
+            else {
+                if (days <= 7) result[7]++;
+                if (days <= 15) result[15]++;
+                if (days <= 30) result[30]++;
+            }
+        });
+        return result;
+    }, [trackedDocuments]);
+
+    // Conductores activos sin ninguna licencia registrada
+    const unlicensedDrivers = useMemo(() => {
+        const licensed = new Set(documents.filter((d) => d.document_type === 'license').map((d) => d.driver_id));
+        return drivers.filter((driver) => driver.status === 'active' && !licensed.has(driver.id));
+    }, [drivers, documents]);
+
+    const filteredDocuments = trackedDocuments.filter(({ document, days }) => {
+        if (days === null) return false;
+        if (expiryWindow === 'expired' ? days >= 0 : days < 0 || days > expiryWindow) return false;
+        if (typeFilter !== 'all' && document.document_type !== typeFilter) return false;
+        if (!searchQuery) return true;
+
+        const driver = driversById.get(document.driver_id);
+        const query = searchQuery.toLowerCase();
+        return (
+            (driver && `${driver.first_name} ${driver.last_name}`.toLowerCase().includes(query)) ||
+            driver?.document_number.includes(searchQuery) ||
+            documentLabel(document).toLowerCase().includes(query) ||
+            document.document_number?.toLowerCase().includes(query)
+        );
+    });
+
+    const windowCards: { key: ExpiryWindow; label: string; count: number; classes: string }[] = [
+        { key: 'expired', label: 'Vencidos', count: counts.expired, classes: 'text-red-600 dark:text-red-400' },
+        { key: 7, label: 'Vencen en 7 días', count: counts[7], classes: 'text-orange-600 dark:text-orange-400' },
+        { key: 15, label: 'Vencen en 15 días', count: counts[15], classes: 'text-amber-600 dark:text-amber-400' },
+        { key: 30, label: 'Vencen en 30 días', count: counts[30], classes: 'text-amber-500 dark:text-amber-300' },
+    ];
+
+    if (loading) {
+        return (
+            <div className="flex items-center justify-center py-12">
+                <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-4">
+            {/* Summary */}
+            <div className="grid grid-cols-2 lg:grid-cols-5 gap-4">
+                {windowCards.map((card) => (
+                    <button
+                        key={card.key}
+                        onClick={() => setExpiryWindow(card.key)}
+                        className={`p-4 text-left bg-white dark:bg-slate-800 rounded-xl border transition-all ${
+                            expiryWindow === card.key
+                                ? 'border-blue-500 ring-2 ring-blue-500/20'
+                                : 'border-slate-200 dark:border-slate-700 hover:shadow-md'
+                        }`}
+                    >
+                        <p className="text-sm text-slate-500 dark:text-slate-400">{card.label}</p>
+                        <p className={`text-3xl font-bold ${card.classes}`}>{card.count}</p>
+                    </button>
+                ))}
+                <div className="p-4 bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700">
+                    <p className="text-sm text-slate-500 dark:text-slate-400">Activos sin licencia registrada</p>
+                    <p className="text-3xl font-bold text-slate-900 dark:text-white">{unlicensedDrivers.length}</p>
+                </div>
+            </div>
+
+            {/* Filters */}
+            <div className="flex flex-col sm:flex-row gap-4">
+                <div className="relative flex-1">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-slate-400" />
+                    <input
+                        type="text"
+                        placeholder="Buscar por conductor, documento o número..."
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                        className="w-full pl-10 pr-4 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-transparent text-slate-900 dark:text-white placeholder-slate-400"
+                    />
+                </div>
+                <select
+                    value={typeFilter}
+                    onChange={(e) => setTypeFilter(e.target.value as any)}
+                    className="px-4 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-blue-500 text-slate-900 dark:text-white"
+                >
+                    <option value="all">Todos los documentos</option>
+                    {(Object.keys(DRIVER_DOCUMENT_TYPE_LABELS) as DriverDocumentType[]).map((type) => (
+                        <option key={type} value={type}>
+                            {DRIVER_DOCUMENT_TYPE_LABELS[type]}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            {/* Documents */}
+            {filteredDocuments.length > 0 ? (
+                <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead className="bg-slate-50 dark:bg-slate-900/50 text-left text-slate-500 dark:text-slate-400">
+                            <tr>
+                                <th className="px-4 py-3 font-medium">Conductor</th>
+                                <th className="px-4 py-3 font-medium">Documento</th>
+                                <th className="px-4 py-3 font-medium">Número</th>
+                                <th className="px-4 py-3 font-medium">Vencimiento</th>
+                                <th className="px-4 py-3 font-medium">Estado</th>
+                                <th className="px-4 py-3"></th>
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                            {filteredDocuments.map(({ document }) => {
+                                const driver = driversById.get(document.driver_id);
+                                return (
+                                    <tr key={document.id} className="text-slate-700 dark:text-slate-300">
+                                        <td className="px-4 py-3">
+                                            <p className="font-medium text-slate-900 dark:text-white">
+                                                {driver ? `${driver.first_name} ${driver.last_name}` : '—'}
+                                            </p>
+                                            {driver?.assigned_vehicle && (
+                                                <p className="text-xs text-slate-500 dark:text-slate-400">{driver.assigned_vehicle}</p>
+                                            )}
+                                        </td>
+                                        <td className="px-4 py-3">{documentLabel(document)}</td>
+                                        <td className="px-4 py-3">{document.document_number || '—'}</td>
+                                        <td className="px-4 py-3 whitespace-nowrap">{formatDate(document.expires_at)}</td>
+                                        <td className="px-4 py-3">
+                                            <ExpiryBadge expiresAt={document.expires_at} />
+                                        </td>
+                                        <td className="px-4 py-3">
+                                            <div className="flex items-center justify-end gap-1">
+                                                {document.file_path && (
+                                                    <button
+                                                        onClick={() => handleDownload(document)}
+                                                        className="p-2 text-slate-600 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                                                        title={`Descargar ${document.file_name || 'archivo'}`}
+                                                    >
+                                                        <Download className="w-4 h-4" />
+                                                    </button>
+                                                )}
+                                                {driver && (
+                                                    <button
+                                                        onClick={() => onOpenDocuments(driver)}
+                                                        className="p-2 text-slate-600 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                                                        title="Documentos del conductor"
+                                                    >
+                                                        <FileText className="w-4 h-4" />
+                                                    </button>
+                                                )}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            ) : (
+                <div className="text-center py-12 bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700">
+                    <CheckCircle className="w-12 h-12 text-green-400 dark:text-green-600 mx-auto mb-4" />
+                    <h3 className="text-lg font-medium text-slate-900 dark:text-white mb-2">
+                        {expiryWindow === 'expired' ? 'No hay documentos vencidos' : `Ningún documento vence en los próximos ${expiryWindow} días`}
+                    </h3>
+                    <p className="text-slate-500 dark:text-slate-400">
+                        {searchQuery || typeFilter !== 'all' ? 'Intenta con otros filtros' : 'Los avisos de vencimiento se envían a los destinatarios de notificaciones'}
+                    </p>
+                </div>
+            )}
+
+            {/* Drivers without license */}
+            {unlicensedDrivers.length > 0 && (
+                <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-4">
+                    <h3 className="flex items-center gap-2 font-semibold text-slate-900 dark:text-white mb-3">
+                        <UserX className="w-5 h-5 text-slate-400" />
+                        Conductores activos sin licencia registrada
+                    </h3>
+                    <div className="flex flex-wrap gap-2">
+                        {unlicensedDrivers.map((driver) => (
+                            <button
+                                key={driver.id}
+                                onClick={() => onOpenDocuments(driver)}
+                                className="px-3 py-1 text-sm rounded-full border border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+                            >
+                                {driver.first_name} {driver.last_name}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+// =====================================================
+// DRIVER DOCUMENTS MODAL
+// =====================================================
+
+interface DriverDocumentsModalProps {
+    driver: Driver;
+    documents: DriverDocumentRow[];
+    onClose: () => void;
+    /** Se llama después de crear, editar o eliminar un documento */
+    onChanged: () => void;
+}
+
+type DocumentForm = Partial<DriverDocumentInput>;
+
+/**
+ * Licencias, certificados médicos y cursos de un conductor con su archivo adjunto
+ */
+export const DriverDocumentsModal: React.FC<DriverDocumentsModalProps> = ({ driver, documents, onClose, onChanged }) => {
+    const { user, can } = useAuth();
+    const canEdit = can(Permission.FLEET_EDIT);
+
+    const [editing, setEditing] = useState<DriverDocumentRow | null>(null);
+    const [formData, setFormData] = useState<DocumentForm | null>(null);
+    const [file, setFile] = useState<File | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+
+    const sortedDocuments = useMemo(
+        () =>
+            [...documents].sort(
+                (a, b) =>
+                    a.document_type.localeCompare(b.document_type) ||
+                    (b.expires_at || '9999').localeCompare(a.expires_at || '9999')
+            ),
+        [documents]
+    );
+
+    const handleOpenForm = (document?: DriverDocumentRow) => {
+        setEditing(document || null);
+        setFormData(
+            document
+                ? {
+                      document_type: document.document_type,
+                      name: document.name,
+                      document_number: document.document_number,
+                      category: document.category,
+                      issuer: document.issuer,
+                      issued_at: document.issued_at,
+                      expires_at: document.expires_at,
+                      notes: document.notes,
+                  }
+                : { document_type: 'license', name: null }
+        );
+        setFile(null);
+        setError('');
+    };
+
+    const handleCloseForm = () => {
+        setEditing(null);
+        setFormData(null);
+        setFile(null);
+        setError('');
+    };
+
+    const handleSave = async () => {
+        if (!formData?.document_type) return;
+        if (formData.document_type !== 'license' && !formData.name) {
+            setError('Indica el nombre del certificado o curso');
+            return;
+        }
+        if (formData.document_type === 'license' && !formData.expires_at) {
+            setError('La licencia requiere fecha de vencimiento');
+            return;
+        }
+
+        setSaving(true);
+        setError('');
+
+        const input: DriverDocumentInput = {
+            driver_id: driver.id,
+            document_type: formData.document_type,
+            name: formData.name || null,
+            document_number: formData.document_number || null,
+            category: formData.document_type === 'license' ? formData.category || null : null,
+            issuer: formData.issuer || null,
+            issued_at: formData.issued_at || null,
+            expires_at: formData.expires_at || null,
+            notes: formData.notes || null,
+        };
+
+        const result = await driverComplianceService.save(input, file, user?.email || 'Sistema', editing || undefined);
+        setSaving(false);
+
+        if (result.success) {
+            handleCloseForm();
+            onChanged();
+        } else {
+            setError(result.error || 'Error al guardar el documento');
+        }
+    };
+
+    const handleDelete = async (document: DriverDocumentRow) => {
+        if (!confirm(`¿Eliminar ${documentLabel(document)}?`)) return;
+
+        const result = await driverComplianceService.delete(document);
+        if (result.success) {
+            onChanged();
+        } else {
+            alert('Error al eliminar: ' + result.error);
+        }
+    };
+
+    const inputClasses =
+        'w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 text-slate-900 dark:text-white';
+    const labelClasses = 'block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1';
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+            <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+                <div className="flex items-center justify-between p-6 border-b border-slate-200 dark:border-slate-700">
+                    <div>
+                        <h3 className="text-xl font-semibold text-slate-900 dark:text-white">Documentos</h3>
+                        <p className="text-sm text-slate-500 dark:text-slate-400">
+                            {driver.first_name} {driver.last_name} · {driver.document_type} {driver.document_number}
+                        </p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-2 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+                    >
+                        <X className="w-5 h-5" />
+                    </button>
+                </div>
+
+                <div className="p-6 space-y-4">
+                    {daysUntilExpiry(driver.license_expiry) !== null && daysUntilExpiry(driver.license_expiry)! < 0 && (
+                        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg flex items-center gap-2 text-red-700 dark:text-red-400 text-sm">
+                            <ShieldAlert className="w-5 h-5 shrink-0" />
+                            Licencia vencida: se genera una alerta cada vez que este conductor mueva un vehículo
+                        </div>
+                    )}
+
+                    {sortedDocuments.length > 0 ? (
+                        <div className="space-y-2">
+                            {sortedDocuments.map((document) => (
+                                <div
+                                    key={document.id}
+                                    className="flex items-start justify-between gap-3 p-3 rounded-lg border border-slate-200 dark:border-slate-700"
+                                >
+                                    <div className="min-w-0">
+                                        <div className="flex flex-wrap items-center gap-2">
+                                            <p className="font-medium text-slate-900 dark:text-white">{documentLabel(document)}</p>
+                                            <ExpiryBadge expiresAt={document.expires_at} />
+                                        </div>
+                                        <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                                            {[
+                                                document.document_number && `Nº ${document.document_number}`,
+                                                document.issuer,
+                                                document.issued_at && `Expedido ${formatDate(document.issued_at)}`,
+                                                document.expires_at && `Vence ${formatDate(document.expires_at)}`,
+                                            ]
+                                                .filter(Boolean)
+                                                .join(' · ')}
+                                        </p>
+                                        {document.notes && (
+                                            <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{document.notes}</p>
+                                        )}
+                                    </div>
+                                    <div className="flex items-center gap-1 shrink-0">
+                                        {document.file_path && (
+                                            <button
+                                                onClick={() => handleDownload(document)}
+                                                className="p-2 text-slate-600 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                                                title={`Descargar ${document.file_name || 'archivo'}`}
+                                            >
+                                                <Download className="w-4 h-4" />
+                                            </button>
+                                        )}
+                                        {canEdit && (
+                                            <>
+                                                <button
+                                                    onClick={() => handleOpenForm(document)}
+                                                    className="p-2 text-slate-600 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                                                    title="Editar"
+                                                >
+                                                    <Edit2 className="w-4 h-4" />
+                                                </button>
+                                                <button
+                                                    onClick={() => handleDelete(document)}
+                                                    className="p-2 text-slate-600 dark:text-slate-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                                                    title="Eliminar"
+                                                >
+                                                    <Trash2 className="w-4 h-4" />
+                                                </button>
+                                            </>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    ) : (
+                        <p className="text-center text-slate-500 dark:text-slate-400 py-6">
+                            Este conductor no tiene documentos registrados.
+                        </p>
+                    )}
+
+                    {canEdit && !formData && (
+                        <button
+                            onClick={() => handleOpenForm()}
+                            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+                        >
+                            <Plus className="w-4 h-4" />
+                            Agregar documento
+                        </button>
+                    )}
+
+                    {formData && (
+                        <div className="p-4 rounded-xl bg-slate-50 dark:bg-slate-900/50 space-y-4">
+                            <h4 className="font-semibold text-slate-900 dark:text-white">
+                                {editing ? 'Editar documento' : 'Nuevo documento'}
+                            </h4>
+
+                            {error && (
+                                <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg flex items-center gap-2 text-red-700 dark:text-red-400">
+                                    <AlertCircle className="w-5 h-5" />
+                                    <span className="text-sm">{error}</span>
+                                </div>
+                            )}
+
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className={labelClasses}>Tipo *</label>
+                                    <select
+                                        value={formData.document_type}
+                                        onChange={(e) => setFormData({ ...formData, document_type: e.target.value as DriverDocumentType })}
+                                        className={inputClasses}
+                                    >
+                                        {(Object.keys(DRIVER_DOCUMENT_TYPE_LABELS) as DriverDocumentType[]).map((type) => (
+                                            <option key={type} value={type}>
+                                                {DRIVER_DOCUMENT_TYPE_LABELS[type]}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                                {formData.document_type === 'license' ? (
+                                    <div>
+                                        <label className={labelClasses}>Categoría</label>
+                                        <select
+                                            value={formData.category || ''}
+                                            onChange={(e) => setFormData({ ...formData, category: e.target.value || null })}
+                                            className={inputClasses}
+                                        >
+                                            <option value="">Seleccionar</option>
+                                            {LICENSE_CATEGORIES.map((category) => (
+                                                <option key={category} value={category}>
+                                                    {category}
+                                                </option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                ) : (
+                                    <div>
+                                        <label className={labelClasses}>Nombre *</label>
+                                        <input
+                                            type="text"
+                                            value={formData.name || ''}
+                                            onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                                            placeholder={formData.document_type === 'medical' ? 'Ej: Examen psicosensométrico' : 'Ej: Manejo defensivo'}
+                                            className={inputClasses}
+                                        />
+                                    </div>
+                                )}
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className={labelClasses}>Número</label>
+                                    <input
+                                        type="text"
+                                        value={formData.document_number || ''}
+                                        onChange={(e) => setFormData({ ...formData, document_number: e.target.value })}
+                                        className={inputClasses}
+                                    />
+                                </div>
+                                <div>
+                                    <label className={labelClasses}>Entidad</label>
+                                    <input
+                                        type="text"
+                                        value={formData.issuer || ''}
+                                        onChange={(e) => setFormData({ ...formData, issuer: e.target.value })}
+                                        placeholder={formData.document_type === 'license' ? 'Ej: Secretaría de Movilidad' : ''}
+                                        className={inputClasses}
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className={labelClasses}>Expedición</label>
+                                    <input
+                                        type="date"
+                                        value={formData.issued_at || ''}
+                                        onChange={(e) => setFormData({ ...formData, issued_at: e.target.value || null })}
+                                        className={inputClasses}
+                                    />
+                                </div>
+                                <div>
+                                    <label className={labelClasses}>Vencimiento{formData.document_type === 'license' ? ' *' : ''}</label>
+                                    <input
+                                        type="date"
+                                        value={formData.expires_at || ''}
+                                        onChange={(e) => setFormData({ ...formData, expires_at: e.target.value || null })}
+                                        className={inputClasses}
+                                    />
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className={labelClasses}>
+                                    Archivo (PDF o imagen, máx. {DRIVER_COMPLIANCE_CONFIG.MAX_FILE_MB} MB)
+                                </label>
+                                <label className="flex items-center gap-2 px-3 py-2 bg-white dark:bg-slate-700 border border-dashed border-slate-300 dark:border-slate-600 rounded-lg cursor-pointer text-sm text-slate-600 dark:text-slate-300 hover:border-blue-400">
+                                    <Paperclip className="w-4 h-4 shrink-0" />
+                                    <span className="truncate">
+                                        {file ? file.name : editing?.file_name ? `${editing.file_name} (seleccionar para reemplazar)` : 'Seleccionar archivo'}
+                                    </span>
+                                    <input
+                                        type="file"
+                                        accept="application/pdf,image/*"
+                                        onChange={(e) => setFile(e.target.files?.[0] || null)}
+                                        className="hidden"
+                                    />
+                                </label>
+                            </div>
+
+                            <div>
+                                <label className={labelClasses}>Notas</label>
+                                <textarea
+                                    value={formData.notes || ''}
+                                    onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                                    rows={2}
+                                    className={`${inputClasses} resize-none`}
+                                ></textarea>
+                            </div>
+
+                            <div className="flex items-center justify-end gap-3">
+                                <button
+                                    onClick={handleCloseForm}
+                                    className="px-4 py-2 text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+                                >
+                                    Cancelar
+                                </button>
+                                <button
+                                    onClick={handleSave}
+                                    disabled={saving}
+                                    className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+                                >
+                                    {saving ? (
+                                        <>
+                                            <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                                            Guardando...
+                                        </>
+                                    ) : (
+                                        <>
+                                            <Save className="w-4 h-4" />
+                                            Guardar
+                                        </>
+                                    )}
+                                </button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -17,8 +17,28 @@ import {
     Calendar,
     Star,
     FileText,
+    Link2,
 } from 'lucide-react';
 import { supabase } from '../services/supabaseClient';
+import {
+    driverScoreService,
+    driverKey,
+    formatScorePeriod,
+    DRIVER_SCORE_FACTOR_LABELS,
+    type DriverScoreFactor,
+    type DriverScoreRow,
+} from '../services/driverScoreService';
+import { driverMatchingService } from '../services/driverMatchingService';
+import { ScoreTrendChart } from './AnalyticsCharts';
+import { DriverMatchingPanel } from './DriverMatchingPanel';
+import { DriverCompliancePanel, DriverDocumentsModal, getExpiryClasses } from './DriverCompliance';
+import {
+    driverComplianceService,
+    daysUntilExpiry,
+    describeExpiry,
+    documentExpiryStatus,
+    type DriverDocumentRow,
+} from '../services/driverComplianceService';
 
 // =====================================================
 // TYPES
@@ -45,13 +65,22 @@ export interface Driver {
 }
 
 interface DriverStats {
-    totalAlerts: number;
-    criticalAlerts: number;
-    lastAlert?: string;
-    inspectionsCompleted: number;
-    safetyScore: number;
+    /** Último puntaje semanal calculado */
+    current?: DriverScoreRow;
+    /** Puntajes semanales de las últimas 12 semanas (más antiguo primero) */
+    history: DriverScoreRow[];
 }
 
+/**
+ * Claves con las que el conductor puede aparecer en driver_scores: su id cuando
+ * el nombre del GPS está vinculado (driver_matching.sql) y, mientras no lo esté,
+ * el nombre completo normalizado
+ */
+const driverScoreKeys = (driver: Pick<Driver, 'id' | 'first_name' | 'last_name'>): string[] => {
+    const nameKey = driverKey(`${driver.first_name} ${driver.last_name}`);
+    return nameKey ? [driver.id, nameKey] : [driver.id];
+};
+
 // =====================================================
 // SERVICE
 // =====================================================
@@ -114,17 +143,19 @@ export const driverService = {
         }
     },
 
-    async getStats(driverId: string): Promise<{ success: boolean; data?: DriverStats; error?: string }> {
-        // TODO: Implement actual stats from alert_history
-        return {
-            success: true,
-            data: {
-                totalAlerts: Math.floor(Math.random() * 20),
-                criticalAlerts: Math.floor(Math.random() * 5),
-                inspectionsCompleted: Math.floor(Math.random() * 30) + 10,
-                safetyScore: Math.floor(Math.random() * 30) + 70,
-            },
-        };
+    /**
+     * Puntaje de conducción del conductor (driver_scores, lo calcula el worker driver-scoring)
+     */
+    async getStats(driver: Driver): Promise<{ success: boolean; data?: DriverStats; error?: string }> {
+        for (const key of driverScoreKeys(driver)) {
+            const result = await driverScoreService.getDriverHistory(key, 'weekly', 12);
+            if (!result.success) return { success: false, error: result.error };
+
+            const history = result.data || [];
+            if (history.length > 0) return { success: true, data: { current: history[history.length - 1], history } };
+        }
+
+        return { success: true, data: { history: [] } };
     },
 };
 
@@ -137,6 +168,13 @@ export const DriverManagement: React.FC = () => {
     const [loading, setLoading] = useState(true);
     const [searchQuery, setSearchQuery] = useState('');
     const [statusFilter, setStatusFilter] = useState<'all' | 'active' | 'inactive' | 'on_leave'>('all');
+    const [view, setView] = useState<'drivers' | 'compliance' | 'matching'>('drivers');
+    const [pendingAliases, setPendingAliases] = useState(0);
+
+    // Licencias, certificados médicos y cursos de todos los conductores
+    const [documents, setDocuments] = useState<DriverDocumentRow[]>([]);
+    const [loadingDocuments, setLoadingDocuments] = useState(true);
+    const [documentsDriver, setDocumentsDriver] = useState<Driver | null>(null);
 
     // Modal state
     const [showModal, setShowModal] = useState(false);
@@ -146,10 +184,67 @@ export const DriverManagement: React.FC = () => {
     const [error, setError] = useState('');
     const [success, setSuccess] = useState('');
 
+    // Puntaje de conducción de la última semana calculada, por driver_key
+    const [weeklyScores, setWeeklyScores] = useState<Map<string, DriverScoreRow>>(new Map());
+    const [statsDriver, setStatsDriver] = useState<Driver | null>(null);
+    const [driverStats, setDriverStats] = useState<DriverStats | null>(null);
+    const [loadingStats, setLoadingStats] = useState(false);
+
     useEffect(() => {
         loadDrivers();
+        loadWeeklyScores();
+        loadPendingAliases();
+        loadDocuments();
     }, []);
 
+    const loadDocuments = async () => {
+        setLoadingDocuments(true);
+        const result = await driverComplianceService.getDocuments();
+        if (result.success && result.data) {
+            setDocuments(result.data);
+        }
+        setLoadingDocuments(false);
+    };
+
+    // La licencia vigente se copia a drivers (trigger sync_driver_license): recargar ambos
+    const handleDocumentsChanged = () => {
+        loadDocuments();
+        loadDrivers();
+    };
+
+    // Documentos vencidos o que vencen en 7 días (conductores no retirados)
+    const urgentDocuments = documents.filter((document) => {
+        const days = daysUntilExpiry(document.expires_at);
+        const driver = drivers.find((d) => d.id === document.driver_id);
+        return days !== null && days <= 7 && driver?.status !== 'inactive';
+    }).length;
+
+    const loadPendingAliases = async () => {
+        const result = await driverMatchingService.getAliases('pending');
+        if (result.success && result.data) {
+            setPendingAliases(result.data.length);
+        }
+    };
+
+    const loadWeeklyScores = async () => {
+        const result = await driverScoreService.getLeaderboard('weekly');
+        if (result.success && result.data) {
+            setWeeklyScores(new Map(result.data.rows.map((row) => [row.driver_key, row])));
+        }
+    };
+
+    const getWeeklyScore = (driver: Driver) =>
+        driverScoreKeys(driver).map((key) => weeklyScores.get(key)).find(Boolean);
+
+    const handleOpenStats = async (driver: Driver) => {
+        setStatsDriver(driver);
+        setDriverStats(null);
+        setLoadingStats(true);
+        const result = await driverService.getStats(driver);
+        setDriverStats(result.success && result.data ? result.data : { history: [] });
+        setLoadingStats(false);
+    };
+
     const loadDrivers = async () => {
         setLoading(true);
         const result = await driverService.getAll();
@@ -204,9 +299,12 @@ export const DriverManagement: React.FC = () => {
         setSaving(true);
         setError('');
 
+        // La licencia se registra en Documentos (drivers.license_* la copia el trigger)
+        const { license_number, license_category, license_expiry, ...driverData } = formData;
+
         try {
             if (editingDriver) {
-                const result = await driverService.update(editingDriver.id, formData);
+                const result = await driverService.update(editingDriver.id, driverData);
                 if (result.success) {
                     setSuccess('Conductor actualizado exitosamente');
                     loadDrivers();
@@ -215,7 +313,7 @@ export const DriverManagement: React.FC = () => {
                     setError(result.error || 'Error al actualizar');
                 }
             } else {
-                const result = await driverService.create(formData as any);
+                const result = await driverService.create(driverData as any);
                 if (result.success) {
                     setSuccess('Conductor creado exitosamente');
                     loadDrivers();
@@ -244,6 +342,18 @@ export const DriverManagement: React.FC = () => {
         }
     };
 
+    /** Estado de la licencia vigente (drivers.license_expiry) */
+    const getLicenseExpiry = (driver: Driver) => {
+        const days = daysUntilExpiry(driver.license_expiry);
+        return { days, status: documentExpiryStatus(days) };
+    };
+
+    const getScoreClasses = (score: number) => {
+        if (score >= 80) return 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400';
+        if (score >= 60) return 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400';
+        return 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400';
+    };
+
     const getStatusBadge = (status: string) => {
         switch (status) {
             case 'active':
@@ -282,126 +392,303 @@ export const DriverManagement: React.FC = () => {
                         {drivers.length} conductores registrados
                     </p>
                 </div>
+                {view === 'drivers' && (
+                    <button
+                        onClick={() => handleOpenModal()}
+                        className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+                    >
+                        <Plus className="w-5 h-5" />
+                        Nuevo Conductor
+                    </button>
+                )}
+            </div>
+
+            {/* View Toggle */}
+            <div className="flex gap-2 border-b border-slate-200 dark:border-slate-700">
                 <button
-                    onClick={() => handleOpenModal()}
-                    className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+                    onClick={() => setView('drivers')}
+                    className={`flex items-center gap-2 px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                        view === 'drivers'
+                            ? 'border-blue-600 text-blue-600 dark:text-blue-400'
+                            : 'border-transparent text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+                    }`}
                 >
-                    <Plus className="w-5 h-5" />
-                    Nuevo Conductor
+                    <Users className="w-4 h-4" />
+                    Conductores
                 </button>
-            </div>
-
-            {/* Filters */}
-            <div className="flex flex-col sm:flex-row gap-4">
-                <div className="relative flex-1">
-                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-slate-400" />
-                    <input
-                        type="text"
-                        placeholder="Buscar por nombre, documento o placa..."
-                        value={searchQuery}
-                        onChange={(e) => setSearchQuery(e.target.value)}
-                        className="w-full pl-10 pr-4 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-transparent text-slate-900 dark:text-white placeholder-slate-400"
-                    />
-                </div>
-                <select
-                    value={statusFilter}
-                    onChange={(e) => setStatusFilter(e.target.value as any)}
-                    className="px-4 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-blue-500 text-slate-900 dark:text-white"
+                <button
+                    onClick={() => setView('compliance')}
+                    className={`flex items-center gap-2 px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                        view === 'compliance'
+                            ? 'border-blue-600 text-blue-600 dark:text-blue-400'
+                            : 'border-transparent text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+                    }`}
+                >
+                    <FileText className="w-4 h-4" />
+                    Documentos
+                    {urgentDocuments > 0 && (
+                        <span className="px-2 py-0.5 text-xs rounded-full bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400">
+                            {urgentDocuments} por atender
+                        </span>
+                    )}
+                </button>
+                <button
+                    onClick={() => setView('matching')}
+                    className={`flex items-center gap-2 px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${
+                        view === 'matching'
+                            ? 'border-blue-600 text-blue-600 dark:text-blue-400'
+                            : 'border-transparent text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+                    }`}
                 >
-                    <option value="all">Todos los estados</option>
-                    <option value="active">Activos</option>
-                    <option value="inactive">Inactivos</option>
-                    <option value="on_leave">En Licencia</option>
-                </select>
+                    <Link2 className="w-4 h-4" />
+                    Vinculación GPS
+                    {pendingAliases > 0 && (
+                        <span className="px-2 py-0.5 text-xs rounded-full bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400">
+                            {pendingAliases} pendientes
+                        </span>
+                    )}
+                </button>
             </div>
 
-            {/* Drivers Grid */}
-            {loading ? (
-                <div className="flex items-center justify-center py-12">
-                    <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
-                </div>
-            ) : filteredDrivers.length > 0 ? (
-                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                    {filteredDrivers.map((driver) => (
-                        <div
-                            key={driver.id}
-                            className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-5 hover:shadow-md transition-all"
+            {view === 'matching' ? (
+                <DriverMatchingPanel drivers={drivers} onAliasesChange={loadPendingAliases} />
+            ) : view === 'compliance' ? (
+                <DriverCompliancePanel
+                    drivers={drivers}
+                    documents={documents}
+                    loading={loadingDocuments}
+                    onOpenDocuments={setDocumentsDriver}
+                />
+            ) : (
+                <>
+                    {/* Filters */}
+                    <div className="flex flex-col sm:flex-row gap-4">
+                        <div className="relative flex-1">
+                            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-slate-400" />
+                            <input
+                                type="text"
+                                placeholder="Buscar por nombre, documento o placa..."
+                                value={searchQuery}
+                                onChange={(e) => setSearchQuery(e.target.value)}
+                                className="w-full pl-10 pr-4 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-transparent text-slate-900 dark:text-white placeholder-slate-400"
+                            />
+                        </div>
+                        <select
+                            value={statusFilter}
+                            onChange={(e) => setStatusFilter(e.target.value as any)}
+                            className="px-4 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-blue-500 text-slate-900 dark:text-white"
                         >
-                            <div className="flex items-start justify-between mb-4">
-                                <div className="flex items-center gap-3">
-                                    <div className="w-12 h-12 rounded-full bg-gradient-to-br from-blue-500 to-cyan-400 flex items-center justify-center text-white font-bold text-lg">
-                                        {driver.first_name[0]}
-                                        {driver.last_name[0]}
+                            <option value="all">Todos los estados</option>
+                            <option value="active">Activos</option>
+                            <option value="inactive">Inactivos</option>
+                            <option value="on_leave">En Licencia</option>
+                        </select>
+                    </div>
+
+                    {/* Drivers Grid */}
+                    {loading ? (
+                        <div className="flex items-center justify-center py-12">
+                            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+                        </div>
+                    ) : filteredDrivers.length > 0 ? (
+                        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                            {filteredDrivers.map((driver) => (
+                                <div
+                                    key={driver.id}
+                                    className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-5 hover:shadow-md transition-all"
+                                >
+                                    <div className="flex items-start justify-between mb-4">
+                                        <div className="flex items-center gap-3">
+                                            <div className="w-12 h-12 rounded-full bg-gradient-to-br from-blue-500 to-cyan-400 flex items-center justify-center text-white font-bold text-lg">
+                                                {driver.first_name[0]}
+                                                {driver.last_name[0]}
+                                            </div>
+                                            <div>
+                                                <h3 className="font-semibold text-slate-900 dark:text-white">
+                                                    {driver.first_name} {driver.last_name}
+                                                </h3>
+                                                <p className="text-sm text-slate-500 dark:text-slate-400">
+                                                    {driver.document_type} {driver.document_number}
+                                                </p>
+                                            </div>
+                                        </div>
+                                        <div className="flex flex-col items-end gap-2">
+                                            {getStatusBadge(driver.status)}
+                                            {getWeeklyScore(driver) && (
+                                                <span
+                                                    className={`flex items-center gap-1 px-2 py-0.5 text-xs font-semibold rounded-full ${getScoreClasses(getWeeklyScore(driver)!.score)}`}
+                                                    title={`Puntaje de conducción ${formatScorePeriod('weekly', getWeeklyScore(driver)!.period_start)}`}
+                                                >
+                                                    <Star className="w-3 h-3" />
+                                                    {getWeeklyScore(driver)!.score}
+                                                </span>
+                                            )}
+                                        </div>
                                     </div>
-                                    <div>
-                                        <h3 className="font-semibold text-slate-900 dark:text-white">
-                                            {driver.first_name} {driver.last_name}
-                                        </h3>
-                                        <p className="text-sm text-slate-500 dark:text-slate-400">
-                                            {driver.document_type} {driver.document_number}
-                                        </p>
+
+                                    <div className="space-y-2 mb-4">
+                                        {driver.assigned_vehicle && (
+                                            <div className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+                                                <Truck className="w-4 h-4" />
+                                                <span>{driver.assigned_vehicle}</span>
+                                            </div>
+                                        )}
+                                        {driver.phone && (
+                                            <div className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+                                                <Phone className="w-4 h-4" />
+                                                <span>{driver.phone}</span>
+                                            </div>
+                                        )}
+                                        {(driver.license_category || driver.license_expiry) && (
+                                            <div className="flex flex-wrap items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
+                                                <CreditCard className="w-4 h-4" />
+                                                <span>Licencia {driver.license_category}</span>
+                                                {driver.license_expiry && (
+                                                    <span className="text-xs text-slate-400">
+                                                        (Vence: {new Date(`${driver.license_expiry}T12:00:00`).toLocaleDateString()})
+                                                    </span>
+                                                )}
+                                                {!['valid', 'no_expiry'].includes(getLicenseExpiry(driver).status) && (
+                                                    <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${getExpiryClasses(getLicenseExpiry(driver).status)}`}>
+                                                        {describeExpiry(getLicenseExpiry(driver).days)}
+                                                    </span>
+                                                )}
+                                            </div>
+                                        )}
+                                    </div>
+
+                                    <div className="flex items-center justify-end gap-2 pt-3 border-t border-slate-200 dark:border-slate-700">
+                                        <button
+                                            onClick={() => handleOpenStats(driver)}
+                                            className="p-2 text-slate-600 dark:text-slate-400 hover:text-amber-600 dark:hover:text-amber-400 hover:bg-amber-50 dark:hover:bg-amber-900/20 rounded-lg transition-colors"
+                                            title="Puntaje de conducción"
+                                        >
+                                            <Star className="w-4 h-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => setDocumentsDriver(driver)}
+                                            className="p-2 text-slate-600 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                                            title="Documentos"
+                                        >
+                                            <FileText className="w-4 h-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => handleOpenModal(driver)}
+                                            className="p-2 text-slate-600 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                                            title="Editar"
+                                        >
+                                            <Edit2 className="w-4 h-4" />
+                                        </button>
+                                        <button
+                                            onClick={() => handleDelete(driver)}
+                                            className="p-2 text-slate-600 dark:text-slate-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                                            title="Eliminar"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
                                     </div>
                                 </div>
-                                {getStatusBadge(driver.status)}
+                            ))}
+                        </div>
+                    ) : (
+                        <div className="text-center py-12 bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700">
+                            <Users className="w-12 h-12 text-slate-300 dark:text-slate-600 mx-auto mb-4" />
+                            <h3 className="text-lg font-medium text-slate-900 dark:text-white mb-2">
+                                No se encontraron conductores
+                            </h3>
+                            <p className="text-slate-500 dark:text-slate-400">
+                                {searchQuery ? 'Intenta con otros términos de búsqueda' : 'Agrega tu primer conductor'}
+                            </p>
+                        </div>
+                    )}
+                </>
+            )}
+
+            {/* Stats Modal */}
+            {statsDriver && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+                    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+                        <div className="flex items-center justify-between p-6 border-b border-slate-200 dark:border-slate-700">
+                            <div>
+                                <h3 className="text-xl font-semibold text-slate-900 dark:text-white">
+                                    Puntaje de conducción
+                                </h3>
+                                <p className="text-sm text-slate-500 dark:text-slate-400">
+                                    {statsDriver.first_name} {statsDriver.last_name} · últimas 12 semanas
+                                </p>
                             </div>
+                            <button
+                                onClick={() => setStatsDriver(null)}
+                                className="p-2 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+                            >
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
 
-                            <div className="space-y-2 mb-4">
-                                {driver.assigned_vehicle && (
-                                    <div className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
-                                        <Truck className="w-4 h-4" />
-                                        <span>{driver.assigned_vehicle}</span>
-                                    </div>
-                                )}
-                                {driver.phone && (
-                                    <div className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
-                                        <Phone className="w-4 h-4" />
-                                        <span>{driver.phone}</span>
-                                    </div>
-                                )}
-                                {driver.license_category && (
-                                    <div className="flex items-center gap-2 text-sm text-slate-600 dark:text-slate-400">
-                                        <CreditCard className="w-4 h-4" />
-                                        <span>Licencia {driver.license_category}</span>
-                                        {driver.license_expiry && (
-                                            <span className="text-xs text-slate-400">
-                                                (Vence: {new Date(driver.license_expiry).toLocaleDateString()})
-                                            </span>
-                                        )}
+                        <div className="p-6 space-y-6">
+                            {loadingStats ? (
+                                <div className="flex items-center justify-center py-12">
+                                    <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+                                </div>
+                            ) : driverStats?.current ? (
+                                <>
+                                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                                        <div className={`p-3 rounded-lg ${getScoreClasses(driverStats.current.score)}`}>
+                                            <p className="text-xs font-medium">Puntaje</p>
+                                            <p className="text-2xl font-bold">{driverStats.current.score}</p>
+                                            <p className="text-xs">{formatScorePeriod('weekly', driverStats.current.period_start)}</p>
+                                        </div>
+                                        <div className="p-3 rounded-lg bg-slate-50 dark:bg-slate-900/50">
+                                            <p className="text-xs text-slate-500 dark:text-slate-400">Recorrido</p>
+                                            <p className="text-2xl font-bold text-slate-900 dark:text-white">{Math.round(driverStats.current.km)} km</p>
+                                        </div>
+                                        <div className="p-3 rounded-lg bg-slate-50 dark:bg-slate-900/50">
+                                            <p className="text-xs text-slate-500 dark:text-slate-400">Excesos de velocidad</p>
+                                            <p className="text-2xl font-bold text-slate-900 dark:text-white">{driverStats.current.speeding_episodes}</p>
+                                        </div>
+                                        <div className="p-3 rounded-lg bg-slate-50 dark:bg-slate-900/50">
+                                            <p className="text-xs text-slate-500 dark:text-slate-400">Ralentí</p>
+                                            <p className="text-2xl font-bold text-slate-900 dark:text-white">{Math.round(driverStats.current.idle_minutes)} min</p>
+                                        </div>
                                     </div>
-                                )}
-                            </div>
 
-                            <div className="flex items-center justify-end gap-2 pt-3 border-t border-slate-200 dark:border-slate-700">
-                                <button
-                                    onClick={() => handleOpenModal(driver)}
-                                    className="p-2 text-slate-600 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
-                                    title="Editar"
-                                >
-                                    <Edit2 className="w-4 h-4" />
-                                </button>
-                                <button
-                                    onClick={() => handleDelete(driver)}
-                                    className="p-2 text-slate-600 dark:text-slate-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
-                                    title="Eliminar"
-                                >
-                                    <Trash2 className="w-4 h-4" />
-                                </button>
-                            </div>
+                                    <ScoreTrendChart
+                                        data={driverStats.history.map((row) => ({ label: formatScorePeriod('weekly', row.period_start), score: row.score }))}
+                                        height={160}
+                                    />
+
+                                    <div>
+                                        <h4 className="text-sm font-semibold text-slate-700 dark:text-slate-300 mb-2">Descuentos de la semana</h4>
+                                        <div className="space-y-1">
+                                            {(Object.keys(DRIVER_SCORE_FACTOR_LABELS) as DriverScoreFactor[]).map((factor) => (
+                                                <div key={factor} className="flex justify-between text-sm text-slate-600 dark:text-slate-400">
+                                                    <span>{DRIVER_SCORE_FACTOR_LABELS[factor]}</span>
+                                                    <span className="font-medium">-{Math.round(driverStats.current!.penalties?.[factor] || 0)}</span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                </>
+                            ) : (
+                                <p className="text-center text-slate-500 dark:text-slate-400 py-8">
+                                    Aún no hay puntajes para este conductor. El puntaje se calcula con el nombre que reporta el GPS; revisa que esté vinculado en Vinculación GPS.
+                                </p>
+                            )}
                         </div>
-                    ))}
-                </div>
-            ) : (
-                <div className="text-center py-12 bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700">
-                    <Users className="w-12 h-12 text-slate-300 dark:text-slate-600 mx-auto mb-4" />
-                    <h3 className="text-lg font-medium text-slate-900 dark:text-white mb-2">
-                        No se encontraron conductores
-                    </h3>
-                    <p className="text-slate-500 dark:text-slate-400">
-                        {searchQuery ? 'Intenta con otros términos de búsqueda' : 'Agrega tu primer conductor'}
-                    </p>
+                    </div>
                 </div>
             )}
 
+            {/* Documents Modal */}
+            {documentsDriver && (
+                <DriverDocumentsModal
+                    driver={drivers.find((driver) => driver.id === documentsDriver.id) || documentsDriver}
+                    documents={documents.filter((document) => document.driver_id === documentsDriver.id)}
+                    onClose={() => setDocumentsDriver(null)}
+                    onChanged={handleDocumentsChanged}
+                />
+            )}
+
             {/* Modal */}
             {showModal && (
                 <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
@@ -460,34 +747,20 @@ export const DriverManagement: React.FC = () => {
                                 </div>
                             </div>
 
-                            <div className="grid grid-cols-3 gap-4">
-                                <div>
-                                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
-                                        Tipo Doc.
-                                    </label>
-                                    <select
-                                        value={formData.document_type || 'CC'}
-                                        onChange={(e) => setFormData({ ...formData, document_type: e.target.value as any })}
-                                        className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 text-slate-900 dark:text-white"
-                                    >
-                                        <option value="CC">CC</option>
-                                        <option value="CE">CE</option>
-                                        <option value="TI">TI</option>
-                                        <option value="PAS">Pasaporte</option>
-                                    </select>
-                                </div>
-                                <div className="col-span-2">
-                                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
-                                        Número Documento *
-                                    </label>
-                                    <input
-                                        type="text"
-                                        value={formData.document_number || ''}
-                                        onChange={(e) => setFormData({ ...formData, document_number: e.target.value })}
-                                        className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 text-slate-900 dark:text-white"
-                                        required
-                                    />
-                                </div>
+                            <div className="p-3 rounded-lg bg-slate-50 dark:bg-slate-900/50 flex items-start gap-2 text-sm text-slate-600 dark:text-slate-400">
+                                <CreditCard className="w-4 h-4 mt-0.5 shrink-0" />
+                                {editingDriver?.license_expiry ? (
+                                    <span>
+                                        Licencia {editingDriver.license_category} Nº {editingDriver.license_number || '—'} · vence el{' '}
+                                        {new Date(`${editingDriver.license_expiry}T12:00:00`).toLocaleDateString()}. La licencia, los
+                                        certificados médicos y los cursos se registran en Documentos.
+                                    </span>
+                                ) : (
+                                    <span>
+                                        La licencia, los certificados médicos y los cursos se registran en Documentos
+                                        {editingDriver ? '' : ' después de crear el conductor'}.
+                                    </span>
+                                )}
                             </div>
 
                             <div className="grid grid-cols-2 gap-4">
@@ -0,0 +1,366 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+    Link2,
+    Search,
+    RefreshCw,
+    RotateCcw,
+    EyeOff,
+    AlertCircle,
+    CheckCircle,
+    Truck,
+} from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { Permission } from '../types';
+import {
+    driverMatchingService,
+    registryName,
+    DRIVER_ALIAS_STATUS_LABELS,
+    DRIVER_MATCH_METHOD_LABELS,
+    type DriverAliasRow,
+    type DriverAliasStatus,
+} from '../services/driverMatchingService';
+import type { Driver } from './DriverManagement';
+
+interface DriverMatchingPanelProps {
+    drivers: Driver[];
+    /** Se llama después de vincular, ignorar o restablecer un nombre */
+    onAliasesChange?: () => void;
+}
+
+const formatDate = (value: string) =>
+    new Date(value).toLocaleDateString('es-CO', { day: '2-digit', month: 'short', year: 'numeric' });
+
+/**
+ * Cola de revisión de los nombres de conductor que envía el GPS
+ * (ver supabase/functions/_shared/driverMatching.ts)
+ */
+export const DriverMatchingPanel: React.FC<DriverMatchingPanelProps> = ({ drivers, onAliasesChange }) => {
+    const { user, can } = useAuth();
+    const canEdit = can(Permission.FLEET_EDIT);
+
+    const [aliases, setAliases] = useState<DriverAliasRow[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [statusFilter, setStatusFilter] = useState<DriverAliasStatus>('pending');
+    const [searchQuery, setSearchQuery] = useState('');
+    // Conductor elegido en el selector de cada alias
+    const [selected, setSelected] = useState<Record<string, string>>({});
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [running, setRunning] = useState(false);
+    const [error, setError] = useState('');
+    const [success, setSuccess] = useState('');
+
+    useEffect(() => {
+        loadAliases();
+    }, []);
+
+    const loadAliases = async () => {
+        setLoading(true);
+        const result = await driverMatchingService.getAliases();
+        if (result.success && result.data) {
+            setAliases(result.data);
+        } else {
+            setError(result.error || 'Error al cargar los nombres del GPS');
+        }
+        setLoading(false);
+    };
+
+    const driversById = useMemo(() => new Map(drivers.map((driver) => [driver.id, driver])), [drivers]);
+
+    const sortedDrivers = useMemo(
+        () => [...drivers].sort((a, b) => registryName(a).localeCompare(registryName(b))),
+        [drivers]
+    );
+
+    const counts = useMemo(() => {
+        const result: Record<DriverAliasStatus, number> = { pending: 0, matched: 0, ignored: 0 };
+        aliases.forEach((alias) => result[alias.status]++);
+        return result;
+    }, [aliases]);
+
+    const filteredAliases = aliases.filter((alias) => {
+        if (alias.status !== statusFilter) return false;
+        if (!searchQuery) return true;
+
+        const query = searchQuery.toLowerCase();
+        const linked = alias.driver_id ? driversById.get(alias.driver_id) : undefined;
+        return (
+            alias.raw_name.toLowerCase().includes(query) ||
+            alias.last_plate?.toLowerCase().includes(query) ||
+            (linked && registryName(linked).toLowerCase().includes(query))
+        );
+    });
+
+    const applyAction = async (
+        alias: DriverAliasRow,
+        action: () => Promise<{ success: boolean; data?: { relinked: number }; error?: string }>,
+        message: string
+    ) => {
+        setBusyId(alias.id);
+        setError('');
+        setSuccess('');
+
+        const result = await action();
+        if (result.success) {
+            setSuccess(`${message} (${result.data?.relinked || 0} registros actualizados)`);
+            await loadAliases();
+            onAliasesChange?.();
+        } else {
+            setError(result.error || 'Error al actualizar el nombre');
+        }
+        setBusyId(null);
+    };
+
+    const handleLink = (alias: DriverAliasRow, driverId: string) => {
+        const driver = driversById.get(driverId);
+        if (!driver) return;
+        applyAction(
+            alias,
+            () => driverMatchingService.link(alias, driverId, user?.email || 'Sistema'),
+            `"${alias.raw_name}" vinculado con ${registryName(driver)}`
+        );
+    };
+
+    const handleIgnore = (alias: DriverAliasRow) =>
+        applyAction(
+            alias,
+            () => driverMatchingService.ignore(alias, user?.email || 'Sistema'),
+            `"${alias.raw_name}" ignorado`
+        );
+
+    const handleReset = (alias: DriverAliasRow) =>
+        applyAction(alias, () => driverMatchingService.reset(alias), `"${alias.raw_name}" devuelto a pendientes`);
+
+    const handleRunMatching = async () => {
+        setRunning(true);
+        setError('');
+        setSuccess('');
+
+        const result = await driverMatchingService.runMatching();
+        if (result.success && result.data) {
+            setSuccess(
+                `${result.data.checked} nombres revisados: ${result.data.matched} vinculados, ${result.data.pending} siguen pendientes`
+            );
+            await loadAliases();
+            onAliasesChange?.();
+        } else {
+            setError(result.error || 'Error al buscar coincidencias');
+        }
+        setRunning(false);
+    };
+
+    const renderDriverSelect = (alias: DriverAliasRow) => (
+        <div className="flex items-center gap-2">
+            <select
+                value={selected[alias.id] || ''}
+                onChange={(e) => setSelected({ ...selected, [alias.id]: e.target.value })}
+                disabled={busyId === alias.id}
+                className="flex-1 min-w-0 px-2 py-1.5 text-sm bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 text-slate-900 dark:text-white"
+            >
+                <option value="">Seleccionar conductor...</option>
+                {sortedDrivers.map((driver) => (
+                    <option key={driver.id} value={driver.id}>
+                        {registryName(driver)} · {driver.document_number}
+                        {driver.status !== 'active' ? ' (inactivo)' : ''}
+                    </option>
+                ))}
+            </select>
+            <button
+                onClick={() => handleLink(alias, selected[alias.id])}
+                disabled={!selected[alias.id] || busyId === alias.id}
+                className="flex items-center gap-1 px-3 py-1.5 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+                <Link2 className="w-4 h-4" />
+                Vincular
+            </button>
+        </div>
+    );
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+                <p className="text-sm text-slate-500 dark:text-slate-400 max-w-2xl">
+                    Nombres de conductor que reporta el GPS en alertas, inspecciones y ralentí. Los que no se
+                    pudieron vincular automáticamente quedan pendientes con sugerencias. Los puntajes de
+                    conducción se recalculan con la vinculación en la siguiente ejecución del cálculo.
+                </p>
+                {canEdit && (
+                    <button
+                        onClick={handleRunMatching}
+                        disabled={running}
+                        className="flex items-center gap-2 px-4 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 hover:bg-slate-50 dark:hover:bg-slate-700 text-slate-700 dark:text-slate-200 rounded-lg transition-colors disabled:opacity-50 shrink-0"
+                    >
+                        <RefreshCw className={`w-4 h-4 ${running ? 'animate-spin' : ''}`} />
+                        Buscar coincidencias
+                    </button>
+                )}
+            </div>
+
+            {error && (
+                <div className="flex items-center gap-2 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-red-700 dark:text-red-400 text-sm">
+                    <AlertCircle className="w-4 h-4 shrink-0" />
+                    {error}
+                </div>
+            )}
+            {success && (
+                <div className="flex items-center gap-2 p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg text-green-700 dark:text-green-400 text-sm">
+                    <CheckCircle className="w-4 h-4 shrink-0" />
+                    {success}
+                </div>
+            )}
+
+            {/* Filters */}
+            <div className="flex flex-col sm:flex-row gap-4">
+                <div className="flex rounded-lg border border-slate-200 dark:border-slate-700 overflow-hidden">
+                    {(['pending', 'matched', 'ignored'] as DriverAliasStatus[]).map((status) => (
+                        <button
+                            key={status}
+                            onClick={() => setStatusFilter(status)}
+                            className={`px-4 py-2 text-sm font-medium transition-colors ${
+                                statusFilter === status
+                                    ? 'bg-blue-600 text-white'
+                                    : 'bg-white dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-700'
+                            }`}
+                        >
+                            {DRIVER_ALIAS_STATUS_LABELS[status]} ({counts[status]})
+                        </button>
+                    ))}
+                </div>
+                <div className="relative flex-1">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-slate-400" />
+                    <input
+                        type="text"
+                        placeholder="Buscar por nombre del GPS, conductor o placa..."
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                        className="w-full pl-10 pr-4 py-2 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-lg focus:ring-2 focus:ring-blue-500 dark:focus:ring-blue-400 focus:border-transparent text-slate-900 dark:text-white placeholder-slate-400"
+                    />
+                </div>
+            </div>
+
+            {loading ? (
+                <div className="flex items-center justify-center py-12">
+                    <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+                </div>
+            ) : filteredAliases.length > 0 ? (
+                <div className="space-y-3">
+                    {filteredAliases.map((alias) => {
+                        const linked = alias.driver_id ? driversById.get(alias.driver_id) : undefined;
+                        return (
+                            <div
+                                key={alias.id}
+                                className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-4"
+                            >
+                                <div className="flex flex-col lg:flex-row lg:items-start gap-4">
+                                    <div className="flex-1 min-w-0">
+                                        <h3 className="font-semibold text-slate-900 dark:text-white truncate">
+                                            {alias.raw_name}
+                                        </h3>
+                                        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 mt-1 text-xs text-slate-500 dark:text-slate-400">
+                                            {alias.last_plate && (
+                                                <span className="flex items-center gap-1">
+                                                    <Truck className="w-3 h-3" />
+                                                    {alias.last_plate}
+                                                </span>
+                                            )}
+                                            <span>{alias.occurrences} registros</span>
+                                            <span>Último: {formatDate(alias.last_seen_at)}</span>
+                                            {alias.reviewed_by && alias.reviewed_at && (
+                                                <span>
+                                                    Revisado por {alias.reviewed_by} el {formatDate(alias.reviewed_at)}
+                                                </span>
+                                            )}
+                                        </div>
+
+                                        {alias.status === 'matched' && (
+                                            <p className="mt-2 text-sm text-slate-700 dark:text-slate-300">
+                                                <Link2 className="inline w-4 h-4 mr-1 text-green-600" />
+                                                {linked ? registryName(linked) : 'Conductor eliminado del registro'}
+                                                {alias.method && (
+                                                    <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300">
+                                                        {DRIVER_MATCH_METHOD_LABELS[alias.method]}
+                                                        {alias.method !== 'manual' && alias.confidence !== null
+                                                            ? ` · ${Math.round(alias.confidence * 100)}%`
+                                                            : ''}
+                                                    </span>
+                                                )}
+                                            </p>
+                                        )}
+
+                                        {alias.status === 'pending' && (
+                                            <div className="mt-2 flex flex-wrap items-center gap-2">
+                                                {alias.candidates.length > 0 ? (
+                                                    <>
+                                                        <span className="text-xs text-slate-500 dark:text-slate-400">Sugerencias:</span>
+                                                        {alias.candidates.map((candidate) => (
+                                                            <button
+                                                                key={candidate.driver_id}
+                                                                onClick={() => handleLink(alias, candidate.driver_id)}
+                                                                disabled={!canEdit || busyId === alias.id || !driversById.has(candidate.driver_id)}
+                                                                className="px-2 py-1 text-xs rounded-full border border-blue-200 dark:border-blue-800 bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300 hover:bg-blue-100 dark:hover:bg-blue-900/40 transition-colors disabled:opacity-60 disabled:cursor-default"
+                                                                title={canEdit ? 'Vincular con este conductor' : undefined}
+                                                            >
+                                                                {candidate.name}
+                                                                {candidate.method === 'plate'
+                                                                    ? ` · ${DRIVER_MATCH_METHOD_LABELS.plate}`
+                                                                    : ` · ${Math.round(candidate.score * 100)}%`}
+                                                            </button>
+                                                        ))}
+                                                    </>
+                                                ) : (
+                                                    <span className="text-xs text-slate-400">Sin sugerencias en el registro</span>
+                                                )}
+                                            </div>
+                                        )}
+                                    </div>
+
+                                    {canEdit && (
+                                        <div className="flex flex-col gap-2 lg:w-96">
+                                            {alias.status !== 'ignored' && renderDriverSelect(alias)}
+                                            <div className="flex justify-end gap-2">
+                                                {alias.status === 'pending' ? (
+                                                    <button
+                                                        onClick={() => handleIgnore(alias)}
+                                                        disabled={busyId === alias.id}
+                                                        className="flex items-center gap-1 px-3 py-1.5 text-sm text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors disabled:opacity-50"
+                                                        title="No corresponde a un conductor del registro"
+                                                    >
+                                                        <EyeOff className="w-4 h-4" />
+                                                        Ignorar
+                                                    </button>
+                                                ) : (
+                                                    <button
+                                                        onClick={() => handleReset(alias)}
+                                                        disabled={busyId === alias.id}
+                                                        className="flex items-center gap-1 px-3 py-1.5 text-sm text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors disabled:opacity-50"
+                                                        title="Volver a pendientes para la vinculación automática"
+                                                    >
+                                                        <RotateCcw className="w-4 h-4" />
+                                                        Restablecer
+                                                    </button>
+                                                )}
+                                            </div>
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                        );
+                    })}
+                </div>
+            ) : (
+                <div className="text-center py-12 bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700">
+                    <Link2 className="w-12 h-12 text-slate-300 dark:text-slate-600 mx-auto mb-4" />
+                    <h3 className="text-lg font-medium text-slate-900 dark:text-white mb-2">
+                        {statusFilter === 'pending' ? 'No hay nombres pendientes' : 'No se encontraron nombres'}
+                    </h3>
+                    <p className="text-slate-500 dark:text-slate-400">
+                        {searchQuery
+                            ? 'Intenta con otros términos de búsqueda'
+                            : 'Los nombres aparecen cuando el GPS reporta alertas, inspecciones o ralentí'}
+                    </p>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default DriverMatchingPanel;
@@ -0,0 +1,768 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+    ChevronsUp,
+    Plus,
+    Edit2,
+    Trash2,
+    X,
+    Save,
+    AlertCircle,
+    CheckCircle,
+    Eye,
+    EyeOff,
+    UserCheck,
+    Mail,
+    Send,
+    MessageCircle,
+} from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { AlertType, Vehicle, Permission } from '../types';
+import {
+    escalationPolicyService,
+    onCallRosterService,
+    EscalationPolicy,
+    EscalationRole,
+    EscalationStep,
+    OnCallShift,
+    ESCALATION_ROLE_LABELS,
+} from '../services/escalationService';
+import { NotificationChannel, NOTIFICATION_CHANNEL_LABELS } from '../services/notificationService';
+
+interface EscalationConfigProps {
+    vehicles: Vehicle[];
+}
+
+type PolicyForm = Partial<EscalationPolicy>;
+type ShiftForm = Partial<OnCallShift>;
+
+const ROLES = Object.keys(ESCALATION_ROLE_LABELS) as EscalationRole[];
+const CHANNELS = Object.keys(NOTIFICATION_CHANNEL_LABELS) as NotificationChannel[];
+
+const SEVERITY_LABELS: Record<EscalationPolicy['min_severity'], string> = {
+    low: 'Baja o mayor',
+    medium: 'Media o mayor',
+    high: 'Alta o mayor',
+    critical: 'Solo crítica',
+};
+
+const DEFAULT_STEPS: EscalationStep[] = [
+    { role: 'shift_operator', wait_minutes: 0, channels: ['telegram', 'whatsapp'] },
+    { role: 'supervisor', wait_minutes: 10, channels: ['telegram', 'whatsapp', 'email'] },
+    { role: 'contract_manager', wait_minutes: 15, channels: ['whatsapp', 'email'] },
+];
+
+const inputClass = 'w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 text-slate-900 dark:text-white';
+const labelClass = 'block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1';
+
+/** ISO → valor de <input type="datetime-local"> en hora local */
+const toLocalInput = (iso?: string): string => {
+    if (!iso) return '';
+    const date = new Date(iso);
+    const offset = date.getTimezoneOffset() * 60000;
+    return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+const formatShiftTime = (iso: string): string =>
+    new Date(iso).toLocaleString('es-CO', { day: '2-digit', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const describeSteps = (steps: EscalationStep[]): string =>
+    steps.map((step, index) =>
+        `${index + 1}. ${ESCALATION_ROLE_LABELS[step.role]}${step.wait_minutes > 0 ? ` (+${step.wait_minutes} min)` : ''}`
+    ).join(' → ');
+
+export const EscalationConfig: React.FC<EscalationConfigProps> = ({ vehicles }) => {
+    const { user, can } = useAuth();
+    const canEdit = can(Permission.CONFIG_EDIT);
+
+    const [policies, setPolicies] = useState<EscalationPolicy[]>([]);
+    const [roster, setRoster] = useState<OnCallShift[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [policyForm, setPolicyForm] = useState<PolicyForm | null>(null);
+    const [shiftForm, setShiftForm] = useState<ShiftForm | null>(null);
+    const [saving, setSaving] = useState(false);
+    const [error, setError] = useState('');
+    const [success, setSuccess] = useState('');
+
+    const contracts = useMemo(
+        () => Array.from(new Set(vehicles.map(v => v.contract).filter(Boolean) as string[])).sort(),
+        [vehicles]
+    );
+
+    useEffect(() => {
+        if (canEdit) loadData();
+    }, [canEdit]);
+
+    const loadData = async () => {
+        setLoading(true);
+        const [policiesResult, rosterResult] = await Promise.all([
+            escalationPolicyService.getAll(),
+            onCallRosterService.getUpcoming(),
+        ]);
+        if (policiesResult.success && policiesResult.data) setPolicies(policiesResult.data);
+        if (rosterResult.success && rosterResult.data) setRoster(rosterResult.data);
+        setLoading(false);
+    };
+
+    const resetMessages = () => {
+        setError('');
+        setSuccess('');
+    };
+
+    const closeModals = () => {
+        setPolicyForm(null);
+        setShiftForm(null);
+        resetMessages();
+    };
+
+    const finishSave = (result: { success: boolean; error?: string }, message: string) => {
+        if (result.success) {
+            setSuccess(message);
+            loadData();
+            setTimeout(closeModals, 1500);
+        } else {
+            setError(result.error || 'Error al guardar');
+        }
+    };
+
+    // ==================== POLICIES ====================
+
+    const updateStep = (index: number, updates: Partial<EscalationStep>) => {
+        const steps = [...(policyForm?.steps || [])];
+        steps[index] = { ...steps[index], ...updates };
+        setPolicyForm({ ...policyForm, steps });
+    };
+
+    const toggleStepChannel = (index: number, channel: NotificationChannel) => {
+        const channels = policyForm?.steps?.[index].channels || [];
+        updateStep(index, {
+            channels: channels.includes(channel) ? channels.filter(c => c !== channel) : [...channels, channel],
+        });
+    };
+
+    const toggleAlertType = (type: string) => {
+        const types = policyForm?.alert_types || [];
+        setPolicyForm({
+            ...policyForm,
+            alert_types: types.includes(type) ? types.filter(t => t !== type) : [...types, type],
+        });
+    };
+
+    const handleSavePolicy = async () => {
+        if (!policyForm) return;
+        const steps = policyForm.steps || [];
+
+        if (!policyForm.name?.trim()) {
+            setError('El nombre es requerido');
+            return;
+        }
+        if (steps.length === 0 || steps.some(step => step.channels.length === 0)) {
+            setError('Cada nivel necesita al menos un canal');
+            return;
+        }
+
+        const payload = {
+            name: policyForm.name.trim(),
+            contract: policyForm.contract?.trim() || null,
+            alert_types: policyForm.alert_types || [],
+            min_severity: policyForm.min_severity || 'critical',
+            steps: steps.map(step => ({ ...step, wait_minutes: Math.max(0, step.wait_minutes || 0) })),
+            is_active: policyForm.is_active ?? true,
+        };
+
+        setSaving(true);
+        resetMessages();
+        try {
+            const result = policyForm.id
+                ? await escalationPolicyService.update(policyForm.id, payload)
+                : await escalationPolicyService.create({ ...payload, created_by: user?.email || 'Sistema' });
+            finishSave(result, policyForm.id ? 'Política actualizada exitosamente' : 'Política creada exitosamente');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDeletePolicy = async (policy: EscalationPolicy) => {
+        if (!confirm(`¿Estás seguro de eliminar la política "${policy.name}"?`)) return;
+        const result = await escalationPolicyService.delete(policy.id);
+        if (result.success) loadData();
+    };
+
+    const handleTogglePolicy = async (policy: EscalationPolicy) => {
+        const result = await escalationPolicyService.update(policy.id, { is_active: !policy.is_active });
+        if (result.success) loadData();
+    };
+
+    // ==================== ROSTER ====================
+
+    const handleSaveShift = async () => {
+        if (!shiftForm) return;
+
+        if (!shiftForm.name?.trim() || !shiftForm.starts_at || !shiftForm.ends_at) {
+            setError('Nombre, inicio y fin del turno son requeridos');
+            return;
+        }
+        if (new Date(shiftForm.ends_at) <= new Date(shiftForm.starts_at)) {
+            setError('El fin del turno debe ser posterior al inicio');
+            return;
+        }
+        if (!shiftForm.email?.trim() && !shiftForm.telegram_chat_id?.trim() && !shiftForm.whatsapp_number?.trim()) {
+            setError('Define al menos un contacto (correo, Telegram o WhatsApp)');
+            return;
+        }
+
+        const payload = {
+            role: shiftForm.role || 'shift_operator',
+            contract: shiftForm.contract?.trim() || null,
+            name: shiftForm.name.trim(),
+            email: shiftForm.email?.trim() || null,
+            telegram_chat_id: shiftForm.telegram_chat_id?.trim() || null,
+            whatsapp_number: shiftForm.whatsapp_number?.trim() || null,
+            starts_at: new Date(shiftForm.starts_at).toISOString(),
+            ends_at: new Date(shiftForm.ends_at).toISOString(),
+            is_active: shiftForm.is_active ?? true,
+        };
+
+        setSaving(true);
+        resetMessages();
+        try {
+            const result = shiftForm.id
+                ? await onCallRosterService.update(shiftForm.id, payload)
+                : await onCallRosterService.create(payload);
+            finishSave(result, shiftForm.id ? 'Turno actualizado exitosamente' : 'Turno creado exitosamente');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDeleteShift = async (shift: OnCallShift) => {
+        if (!confirm(`¿Estás seguro de eliminar el turno de ${shift.name}?`)) return;
+        const result = await onCallRosterService.delete(shift.id);
+        if (result.success) loadData();
+    };
+
+    const isOnShift = (shift: OnCallShift) => {
+        const now = Date.now();
+        return shift.is_active && new Date(shift.starts_at).getTime() <= now && new Date(shift.ends_at).getTime() > now;
+    };
+
+    if (!canEdit) {
+        return (
+            <div className="p-8 text-center">
+                <p className="text-red-500">No tienes permisos para acceder a esta página</p>
+            </div>
+        );
+    }
+
+    const messages = (
+        <>
+            {error && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg flex items-center gap-2 text-red-700 dark:text-red-400">
+                    <AlertCircle className="w-5 h-5" />
+                    <span className="text-sm">{error}</span>
+                </div>
+            )}
+            {success && (
+                <div className="p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg flex items-center gap-2 text-green-700 dark:text-green-400">
+                    <CheckCircle className="w-5 h-5" />
+                    <span className="text-sm">{success}</span>
+                </div>
+            )}
+        </>
+    );
+
+    const modalFooter = (onSave: () => void) => (
+        <div className="flex items-center justify-end gap-3 p-6 border-t border-slate-200 dark:border-slate-700">
+            <button
+                onClick={closeModals}
+                className="px-4 py-2 text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+            >
+                Cancelar
+            </button>
+            <button
+                onClick={onSave}
+                disabled={saving}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+                {saving ? (
+                    <>
+                        <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                        Guardando...
+                    </>
+                ) : (
+                    <>
+                        <Save className="w-4 h-4" />
+                        Guardar
+                    </>
+                )}
+            </button>
+        </div>
+    );
+
+    const modalHeader = (title: string) => (
+        <div className="flex items-center justify-between p-6 border-b border-slate-200 dark:border-slate-700">
+            <h3 className="text-xl font-semibold text-slate-900 dark:text-white">{title}</h3>
+            <button
+                onClick={closeModals}
+                className="p-2 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+            >
+                <X className="w-5 h-5" />
+            </button>
+        </div>
+    );
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div>
+                <h2 className="text-2xl font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                    <ChevronsUp className="w-7 h-7 text-blue-600" />
+                    Escalamiento y Turnos
+                </h2>
+                <p className="text-slate-500 dark:text-slate-400 mt-1">
+                    Políticas por contrato ({policies.filter((p) => p.is_active).length} activas) y personal de guardia
+                </p>
+            </div>
+
+            {/* Info Banner */}
+            <div className="p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-xl">
+                <div className="flex items-start gap-3">
+                    <AlertCircle className="w-5 h-5 text-blue-600 dark:text-blue-400 mt-0.5" />
+                    <div className="text-sm text-blue-700 dark:text-blue-400">
+                        <p>
+                            Si una alerta que coincide con la política no se confirma, el worker avisa al siguiente nivel tras
+                            los minutos indicados. Se revisa cada 5 minutos, también sin consolas abiertas.
+                        </p>
+                        <p className="mt-1">
+                            Gana la política del contrato sobre la global. Para cada nivel se avisa a quien esté de turno en
+                            ese rol para el contrato o, si no hay, al turno general.
+                        </p>
+                    </div>
+                </div>
+            </div>
+
+            {loading ? (
+                <div className="flex items-center justify-center py-12">
+                    <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+                </div>
+            ) : (
+                <>
+                    {/* Policies */}
+                    <div className="space-y-3">
+                        <div className="flex items-center justify-between">
+                            <h3 className="text-lg font-semibold text-slate-900 dark:text-white">Políticas de Escalamiento</h3>
+                            <button
+                                onClick={() => { resetMessages(); setPolicyForm({ is_active: true, min_severity: 'critical', alert_types: [], steps: DEFAULT_STEPS }); }}
+                                className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+                            >
+                                <Plus className="w-5 h-5" />
+                                Nueva Política
+                            </button>
+                        </div>
+
+                        <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 overflow-x-auto">
+                            <table className="min-w-full divide-y divide-slate-200 dark:divide-slate-700">
+                                <thead className="bg-slate-50 dark:bg-slate-900/50">
+                                    <tr>
+                                        <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Política</th>
+                                        <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Alertas</th>
+                                        <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Niveles</th>
+                                        <th className="px-4 py-3 text-right text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Acciones</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                                    {policies.map((policy) => (
+                                        <tr key={policy.id} className={policy.is_active ? '' : 'opacity-60'}>
+                                            <td className="px-4 py-3">
+                                                <p className="font-medium text-slate-900 dark:text-white">{policy.name}</p>
+                                                <p className="text-xs text-slate-500 dark:text-slate-400">{policy.contract || 'Todos los contratos'}</p>
+                                            </td>
+                                            <td className="px-4 py-3 text-sm text-slate-700 dark:text-slate-300">
+                                                <p>{policy.alert_types.length > 0 ? policy.alert_types.join(', ') : 'Todos los tipos'}</p>
+                                                <p className="text-xs text-slate-500 dark:text-slate-400">{SEVERITY_LABELS[policy.min_severity]}</p>
+                                            </td>
+                                            <td className="px-4 py-3 text-sm text-slate-700 dark:text-slate-300">{describeSteps(policy.steps)}</td>
+                                            <td className="px-4 py-3">
+                                                <div className="flex items-center justify-end gap-2">
+                                                    <button
+                                                        onClick={() => handleTogglePolicy(policy)}
+                                                        className={`p-2 rounded-lg transition-colors ${policy.is_active
+                                                                ? 'text-green-600 hover:bg-green-50 dark:hover:bg-green-900/20'
+                                                                : 'text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'
+                                                            }`}
+                                                        title={policy.is_active ? 'Desactivar' : 'Activar'}
+                                                    >
+                                                        {policy.is_active ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                                                    </button>
+                                                    <button
+                                                        onClick={() => { resetMessages(); setPolicyForm(policy); }}
+                                                        className="p-2 text-slate-600 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                                                        title="Editar"
+                                                    >
+                                                        <Edit2 className="w-4 h-4" />
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleDeletePolicy(policy)}
+                                                        className="p-2 text-slate-600 dark:text-slate-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                                                        title="Eliminar"
+                                                    >
+                                                        <Trash2 className="w-4 h-4" />
+                                                    </button>
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                    {policies.length === 0 && (
+                                        <tr>
+                                            <td colSpan={4} className="px-4 py-8 text-center text-slate-500 dark:text-slate-400">
+                                                No hay políticas: ninguna alerta escala
+                                            </td>
+                                        </tr>
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+
+                    {/* Roster */}
+                    <div className="space-y-3">
+                        <div className="flex items-center justify-between">
+                            <h3 className="text-lg font-semibold text-slate-900 dark:text-white">Turnos de Guardia</h3>
+                            <button
+                                onClick={() => { resetMessages(); setShiftForm({ is_active: true, role: 'shift_operator' }); }}
+                                className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+                            >
+                                <Plus className="w-5 h-5" />
+                                Nuevo Turno
+                            </button>
+                        </div>
+
+                        <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 overflow-x-auto">
+                            <table className="min-w-full divide-y divide-slate-200 dark:divide-slate-700">
+                                <thead className="bg-slate-50 dark:bg-slate-900/50">
+                                    <tr>
+                                        <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Persona</th>
+                                        <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Rol</th>
+                                        <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Turno</th>
+                                        <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Contacto</th>
+                                        <th className="px-4 py-3 text-right text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Acciones</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                                    {roster.map((shift) => (
+                                        <tr key={shift.id} className={shift.is_active ? '' : 'opacity-60'}>
+                                            <td className="px-4 py-3">
+                                                <p className="font-medium text-slate-900 dark:text-white flex items-center gap-2">
+                                                    {shift.name}
+                                                    {isOnShift(shift) && (
+                                                        <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-semibold bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400">
+                                                            <UserCheck className="w-3 h-3" />
+                                                            De turno
+                                                        </span>
+                                                    )}
+                                                </p>
+                                                <p className="text-xs text-slate-500 dark:text-slate-400">{shift.contract || 'Todos los contratos'}</p>
+                                            </td>
+                                            <td className="px-4 py-3 text-sm text-slate-700 dark:text-slate-300">{ESCALATION_ROLE_LABELS[shift.role]}</td>
+                                            <td className="px-4 py-3 text-sm text-slate-700 dark:text-slate-300 whitespace-nowrap">
+                                                {formatShiftTime(shift.starts_at)} – {formatShiftTime(shift.ends_at)}
+                                            </td>
+                                            <td className="px-4 py-3 text-xs text-slate-600 dark:text-slate-400 space-y-0.5">
+                                                {shift.email && <p className="flex items-center gap-1"><Mail className="w-3 h-3" /> {shift.email}</p>}
+                                                {shift.telegram_chat_id && <p className="flex items-center gap-1"><Send className="w-3 h-3" /> {shift.telegram_chat_id}</p>}
+                                                {shift.whatsapp_number && <p className="flex items-center gap-1"><MessageCircle className="w-3 h-3" /> {shift.whatsapp_number}</p>}
+                                            </td>
+                                            <td className="px-4 py-3">
+                                                <div className="flex items-center justify-end gap-2">
+                                                    <button
+                                                        onClick={() => { resetMessages(); setShiftForm({ ...shift, starts_at: toLocalInput(shift.starts_at), ends_at: toLocalInput(shift.ends_at) }); }}
+                                                        className="p-2 text-slate-600 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                                                        title="Editar"
+                                                    >
+                                                        <Edit2 className="w-4 h-4" />
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleDeleteShift(shift)}
+                                                        className="p-2 text-slate-600 dark:text-slate-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                                                        title="Eliminar"
+                                                    >
+                                                        <Trash2 className="w-4 h-4" />
+                                                    </button>
+                                                </div>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                    {roster.length === 0 && (
+                                        <tr>
+                                            <td colSpan={5} className="px-4 py-8 text-center text-slate-500 dark:text-slate-400">
+                                                No hay turnos vigentes ni programados
+                                            </td>
+                                        </tr>
+                                    )}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                </>
+            )}
+
+            {/* Policy Modal */}
+            {policyForm && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+                    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+                        {modalHeader(policyForm.id ? 'Editar Política' : 'Nueva Política')}
+
+                        <div className="p-6 space-y-4">
+                            {messages}
+
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className={labelClass}>Nombre</label>
+                                    <input
+                                        type="text"
+                                        value={policyForm.name || ''}
+                                        onChange={(e) => setPolicyForm({ ...policyForm, name: e.target.value })}
+                                        placeholder="Ej: Pánico contrato urbano"
+                                        className={inputClass}
+                                    />
+                                </div>
+                                <div>
+                                    <label className={labelClass}>Contrato</label>
+                                    <input
+                                        type="text"
+                                        list="escalation-contracts"
+                                        value={policyForm.contract || ''}
+                                        onChange={(e) => setPolicyForm({ ...policyForm, contract: e.target.value })}
+                                        placeholder="Todos"
+                                        className={inputClass}
+                                    />
+                                    <datalist id="escalation-contracts">
+                                        {contracts.map((contract) => <option key={contract} value={contract} />)}
+                                    </datalist>
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className={labelClass}>Severidad mínima</label>
+                                <select
+                                    value={policyForm.min_severity || 'critical'}
+                                    onChange={(e) => setPolicyForm({ ...policyForm, min_severity: e.target.value as EscalationPolicy['min_severity'] })}
+                                    className={inputClass}
+                                >
+                                    {Object.entries(SEVERITY_LABELS).map(([value, label]) => (
+                                        <option key={value} value={value}>{label}</option>
+                                    ))}
+                                </select>
+                            </div>
+
+                            <div>
+                                <label className={labelClass}>Tipos de alerta (ninguno = todos)</label>
+                                <div className="flex flex-wrap gap-2">
+                                    {Object.values(AlertType).map((type) => (
+                                        <button
+                                            key={type}
+                                            type="button"
+                                            onClick={() => toggleAlertType(type)}
+                                            className={`px-2.5 py-1 rounded-full text-xs font-medium border transition-colors ${(policyForm.alert_types || []).includes(type)
+                                                    ? 'bg-blue-600 text-white border-blue-600'
+                                                    : 'bg-white dark:bg-slate-700 text-slate-600 dark:text-slate-300 border-slate-200 dark:border-slate-600'
+                                                }`}
+                                        >
+                                            {type}
+                                        </button>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div className="space-y-2">
+                                <label className={labelClass}>Niveles</label>
+                                {(policyForm.steps || []).map((step, index) => (
+                                    <div key={index} className="flex flex-wrap items-center gap-3 p-3 bg-slate-50 dark:bg-slate-900/40 rounded-lg">
+                                        <span className="text-sm font-semibold text-slate-500 dark:text-slate-400 w-6">{index + 1}.</span>
+                                        <select
+                                            value={step.role}
+                                            onChange={(e) => updateStep(index, { role: e.target.value as EscalationRole })}
+                                            className="px-3 py-1.5 text-sm bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg text-slate-900 dark:text-white"
+                                        >
+                                            {ROLES.map((role) => <option key={role} value={role}>{ESCALATION_ROLE_LABELS[role]}</option>)}
+                                        </select>
+                                        <label className="flex items-center gap-1 text-sm text-slate-600 dark:text-slate-300">
+                                            {index === 0 ? 'tras' : '+'}
+                                            <input
+                                                type="number"
+                                                min="0"
+                                                value={step.wait_minutes}
+                                                onChange={(e) => updateStep(index, { wait_minutes: parseInt(e.target.value, 10) || 0 })}
+                                                className="w-16 px-2 py-1.5 text-sm bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg text-slate-900 dark:text-white"
+                                            />
+                                            min
+                                        </label>
+                                        <div className="flex items-center gap-2">
+                                            {CHANNELS.map((channel) => (
+                                                <label key={channel} className="flex items-center gap-1 text-xs text-slate-600 dark:text-slate-300">
+                                                    <input
+                                                        type="checkbox"
+                                                        checked={step.channels.includes(channel)}
+                                                        onChange={() => toggleStepChannel(index, channel)}
+                                                        className="w-3.5 h-3.5 rounded border-slate-300 text-blue-600"
+                                                    />
+                                                    {NOTIFICATION_CHANNEL_LABELS[channel]}
+                                                </label>
+                                            ))}
+                                        </div>
+                                        <button
+                                            type="button"
+                                            onClick={() => setPolicyForm({ ...policyForm, steps: (policyForm.steps || []).filter((_, i) => i !== index) })}
+                                            className="ml-auto p-1.5 text-slate-400 hover:text-red-600 rounded-lg"
+                                            title="Quitar nivel"
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </button>
+                                    </div>
+                                ))}
+                                <button
+                                    type="button"
+                                    onClick={() => setPolicyForm({
+                                        ...policyForm,
+                                        steps: [...(policyForm.steps || []), { role: 'supervisor', wait_minutes: 10, channels: ['email'] }],
+                                    })}
+                                    className="flex items-center gap-1 text-sm text-blue-600 hover:text-blue-700"
+                                >
+                                    <Plus className="w-4 h-4" />
+                                    Agregar nivel
+                                </button>
+                            </div>
+
+                            <label className="flex items-center gap-2 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={policyForm.is_active ?? true}
+                                    onChange={(e) => setPolicyForm({ ...policyForm, is_active: e.target.checked })}
+                                    className="w-4 h-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                                />
+                                <span className="text-sm text-slate-700 dark:text-slate-300">Política activa</span>
+                            </label>
+                        </div>
+
+                        {modalFooter(handleSavePolicy)}
+                    </div>
+                </div>
+            )}
+
+            {/* Shift Modal */}
+            {shiftForm && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+                    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+                        {modalHeader(shiftForm.id ? 'Editar Turno' : 'Nuevo Turno')}
+
+                        <div className="p-6 space-y-4">
+                            {messages}
+
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className={labelClass}>Nombre</label>
+                                    <input
+                                        type="text"
+                                        value={shiftForm.name || ''}
+                                        onChange={(e) => setShiftForm({ ...shiftForm, name: e.target.value })}
+                                        className={inputClass}
+                                    />
+                                </div>
+                                <div>
+                                    <label className={labelClass}>Rol</label>
+                                    <select
+                                        value={shiftForm.role || 'shift_operator'}
+                                        onChange={(e) => setShiftForm({ ...shiftForm, role: e.target.value as EscalationRole })}
+                                        className={inputClass}
+                                    >
+                                        {ROLES.map((role) => <option key={role} value={role}>{ESCALATION_ROLE_LABELS[role]}</option>)}
+                                    </select>
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className={labelClass}>Contrato</label>
+                                <input
+                                    type="text"
+                                    list="escalation-contracts-roster"
+                                    value={shiftForm.contract || ''}
+                                    onChange={(e) => setShiftForm({ ...shiftForm, contract: e.target.value })}
+                                    placeholder="Todos"
+                                    className={inputClass}
+                                />
+                                <datalist id="escalation-contracts-roster">
+                                    {contracts.map((contract) => <option key={contract} value={contract} />)}
+                                </datalist>
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className={labelClass}>Inicio</label>
+                                    <input
+                                        type="datetime-local"
+                                        value={shiftForm.starts_at || ''}
+                                        onChange={(e) => setShiftForm({ ...shiftForm, starts_at: e.target.value })}
+                                        className={inputClass}
+                                    />
+                                </div>
+                                <div>
+                                    <label className={labelClass}>Fin</label>
+                                    <input
+                                        type="datetime-local"
+                                        value={shiftForm.ends_at || ''}
+                                        onChange={(e) => setShiftForm({ ...shiftForm, ends_at: e.target.value })}
+                                        className={inputClass}
+                                    />
+                                </div>
+                            </div>
+
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                <div>
+                                    <label className={labelClass}>Correo</label>
+                                    <input
+                                        type="email"
+                                        value={shiftForm.email || ''}
+                                        onChange={(e) => setShiftForm({ ...shiftForm, email: e.target.value })}
+                                        className={inputClass}
+                                    />
+                                </div>
+                                <div>
+                                    <label className={labelClass}>Chat de Telegram</label>
+                                    <input
+                                        type="text"
+                                        value={shiftForm.telegram_chat_id || ''}
+                                        onChange={(e) => setShiftForm({ ...shiftForm, telegram_chat_id: e.target.value })}
+                                        className={inputClass}
+                                    />
+                                </div>
+                                <div>
+                                    <label className={labelClass}>WhatsApp</label>
+                                    <input
+                                        type="tel"
+                                        value={shiftForm.whatsapp_number || ''}
+                                        onChange={(e) => setShiftForm({ ...shiftForm, whatsapp_number: e.target.value })}
+                                        placeholder="+57..."
+                                        className={inputClass}
+                                    />
+                                </div>
+                            </div>
+
+                            <label className="flex items-center gap-2 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={shiftForm.is_active ?? true}
+                                    onChange={(e) => setShiftForm({ ...shiftForm, is_active: e.target.checked })}
+                                    className="w-4 h-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                                />
+                                <span className="text-sm text-slate-700 dark:text-slate-300">Turno activo</span>
+                            </label>
+                        </div>
+
+                        {modalFooter(handleSaveShift)}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default EscalationConfig;
@@ -0,0 +1,184 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CheckCircle, CloudOff, Radio, RefreshCw, Wifi, XCircle } from 'lucide-react';
+import { FleetResponse } from '../services/fleetService';
+import { FleetStreamStatus } from '../services/fleetStreamService';
+import { getProviders, getProviderStatusKey } from '../services/telematics';
+
+interface FleetConnectionIndicatorProps {
+    /** Estado del canal de cambios incrementales (fleet_vehicle_updates) */
+    streamStatus: FleetStreamStatus;
+    /** true si la flota viene del snapshot y los cambios del stream se aplican sobre ella */
+    streaming: boolean;
+    dataSource: FleetResponse['source'];
+    apiStatus?: FleetResponse['apiStatus'];
+    vehicleCounts?: FleetResponse['vehicleCounts'];
+    lastUpdate: Date;
+}
+
+type Tone = 'green' | 'purple' | 'orange' | 'amber' | 'red';
+
+const TONE_CLASSES: Record<Tone, { badge: string; dot: string; ping: string }> = {
+    green: {
+        badge: 'text-green-600 bg-green-50 border-green-100 dark:bg-green-900/30 dark:text-green-400 dark:border-green-800',
+        dot: 'bg-green-600',
+        ping: 'bg-green-400',
+    },
+    purple: {
+        badge: 'text-purple-600 bg-purple-50 border-purple-100 dark:bg-purple-900/30 dark:text-purple-400 dark:border-purple-800',
+        dot: 'bg-purple-600',
+        ping: 'bg-purple-400',
+    },
+    orange: {
+        badge: 'text-orange-600 bg-orange-50 border-orange-100 dark:bg-orange-900/30 dark:text-orange-400 dark:border-orange-800',
+        dot: 'bg-orange-500',
+        ping: 'bg-orange-300',
+    },
+    amber: {
+        badge: 'text-amber-600 bg-amber-50 border-amber-100 dark:bg-amber-900/30 dark:text-amber-400 dark:border-amber-800',
+        dot: 'bg-amber-500',
+        ping: 'bg-amber-300',
+    },
+    red: {
+        badge: 'text-red-600 bg-red-50 border-red-100 dark:bg-red-900/30 dark:text-red-400 dark:border-red-800',
+        dot: 'bg-red-600',
+        ping: 'bg-red-400',
+    },
+};
+
+const SOURCE_LABELS: Record<FleetResponse['source'], string> = {
+    REAL: 'Backend Python',
+    DIRECT_API: 'Snapshot / APIs directas',
+    PARTIAL_DIRECT: 'Conexión parcial',
+    ERROR: 'Sin conexión',
+    MOCK: 'Datos simulados',
+};
+
+const STREAM_LABELS: Record<FleetStreamStatus, string> = {
+    connecting: 'Conectando…',
+    live: 'Recibiendo cambios',
+    reconnecting: 'Reconectando…',
+    offline: 'Sin canal: consulta periódica',
+};
+
+/**
+ * Estado de la conexión de la flota en el encabezado
+ *
+ * "En vivo" cuando los cambios llegan por el stream; si el canal se cae o la
+ * flota no viene del snapshot, muestra la fuente de la última consulta completa.
+ * Al hacer clic despliega el detalle del canal, el backend y cada proveedor.
+ */
+export const FleetConnectionIndicator: React.FC<FleetConnectionIndicatorProps> = ({
+    streamStatus,
+    streaming,
+    dataSource,
+    apiStatus,
+    vehicleCounts,
+    lastUpdate,
+}) => {
+    const [open, setOpen] = useState(false);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        if (!open) return;
+        const handleClick = (event: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+                setOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClick);
+        return () => document.removeEventListener('mousedown', handleClick);
+    }, [open]);
+
+    const { tone, label, icon } = ((): { tone: Tone; label: string; icon: React.ReactNode } => {
+        if (dataSource === 'ERROR') return { tone: 'red', label: 'Sin Conexión', icon: <XCircle className="w-3 h-3" /> };
+        if (dataSource === 'MOCK') return { tone: 'amber', label: 'Modo Demo', icon: <CloudOff className="w-3 h-3" /> };
+
+        if (streaming && streamStatus === 'live') {
+            return {
+                tone: dataSource === 'PARTIAL_DIRECT' ? 'orange' : 'green',
+                label: dataSource === 'PARTIAL_DIRECT' ? 'En vivo (parcial)' : 'En vivo',
+                icon: <Radio className="w-3 h-3" />,
+            };
+        }
+        if (streaming && (streamStatus === 'connecting' || streamStatus === 'reconnecting')) {
+            return { tone: 'amber', label: STREAM_LABELS[streamStatus], icon: <RefreshCw className="w-3 h-3 animate-spin" /> };
+        }
+
+        if (dataSource === 'REAL') return { tone: 'green', label: 'Backend Conectado', icon: <Wifi className="w-3 h-3" /> };
+        if (dataSource === 'PARTIAL_DIRECT') return { tone: 'orange', label: 'Conexión Parcial', icon: <Radio className="w-3 h-3" /> };
+        return { tone: 'purple', label: 'Actualización periódica', icon: <Radio className="w-3 h-3" /> };
+    })();
+
+    const classes = TONE_CLASSES[tone];
+    const pulsing = streaming && streamStatus === 'live' && dataSource !== 'ERROR';
+
+    return (
+        <div ref={containerRef} className="relative">
+            <button
+                type="button"
+                onClick={() => setOpen(!open)}
+                className={`flex items-center gap-2 text-xs font-medium px-2 py-1 rounded-md border transition-colors ${classes.badge}`}
+                title="Estado de la conexión"
+            >
+                <span className="relative flex h-2.5 w-2.5">
+                    {pulsing && <span className={`animate-ping absolute inline-flex h-full w-full rounded-full opacity-75 ${classes.ping}`}></span>}
+                    <span className={`relative inline-flex rounded-full h-2.5 w-2.5 ${classes.dot}`}></span>
+                </span>
+                {icon}
+                <span className="hidden sm:inline">{label}</span>
+                {vehicleCounts && dataSource !== 'ERROR' && (
+                    <span className="hidden md:inline opacity-75">({vehicleCounts.total})</span>
+                )}
+            </button>
+
+            {open && (
+                <div className="absolute right-0 mt-2 w-72 bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 shadow-lg z-40 p-3 space-y-3 animate-in fade-in slide-in-from-top-2 duration-200">
+                    <div className="space-y-1 text-xs">
+                        <div className="flex justify-between gap-2">
+                            <span className="text-slate-500 dark:text-slate-400">Cambios en vivo</span>
+                            <span className="font-medium text-slate-800 dark:text-slate-200">
+                                {streaming ? STREAM_LABELS[streamStatus] : 'No disponible con esta fuente'}
+                            </span>
+                        </div>
+                        <div className="flex justify-between gap-2">
+                            <span className="text-slate-500 dark:text-slate-400">Fuente de datos</span>
+                            <span className="font-medium text-slate-800 dark:text-slate-200">{SOURCE_LABELS[dataSource]}</span>
+                        </div>
+                        <div className="flex justify-between gap-2">
+                            <span className="text-slate-500 dark:text-slate-400">Última actualización</span>
+                            <span className="font-medium text-slate-800 dark:text-slate-200">{lastUpdate.toLocaleTimeString()}</span>
+                        </div>
+                    </div>
+
+                    {apiStatus && (
+                        <div className="pt-3 border-t border-slate-100 dark:border-slate-700 space-y-2">
+                            <div className="flex items-center gap-2">
+                                {apiStatus.backend === 'connected'
+                                    ? <CheckCircle className="w-4 h-4 text-green-600 dark:text-green-400" />
+                                    : <XCircle className="w-4 h-4 text-slate-400" />}
+                                <span className="text-sm text-slate-700 dark:text-slate-200 flex-1">Backend Python</span>
+                                <span className="text-xs text-slate-500 dark:text-slate-400">
+                                    {apiStatus.backend === 'connected' ? 'Operativo' : 'Desconectado'}
+                                </span>
+                            </div>
+                            {/* Proveedores de telemetría registrados */}
+                            {getProviders().map(provider => {
+                                const key = getProviderStatusKey(provider);
+                                const isConnected = apiStatus[key] === 'connected';
+                                return (
+                                    <div key={provider.id} className="flex items-center gap-2">
+                                        <Radio className={`w-4 h-4 ${isConnected ? 'text-purple-600 dark:text-purple-400' : 'text-slate-400'}`} />
+                                        <span className="text-sm text-slate-700 dark:text-slate-200 flex-1">{provider.label}</span>
+                                        <span className="text-xs text-slate-500 dark:text-slate-400">
+                                            {isConnected ? `Conectado · ${vehicleCounts?.[key] ?? 0} vehículos` : 'Sin conexión'}
+                                        </span>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
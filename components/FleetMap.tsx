@@ -1,8 +1,9 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { MapContainer, TileLayer, Marker, Popup } from 'react-leaflet';
 import { Icon } from 'leaflet';
 import { Vehicle, ApiSource } from '../types';
-import { Navigation, Clock, Fuel, User } from 'lucide-react';
+import { Navigation, Clock, Fuel, User, Radio, History } from 'lucide-react';
+import { TrackPlayback } from './TrackPlayback';
 
 // Custom icons based on API source
 // Note: We use the URLs directly. Leaflet CSS is loaded in index.html
@@ -30,59 +31,82 @@ interface FleetMapProps {
 
 const FleetMap: React.FC<FleetMapProps> = ({ vehicles }) => {
   const centerPosition: [number, number] = [4.5709, -74.2973]; // Colombia Center
+  const [mode, setMode] = useState<'live' | 'playback'>('live');
 
   return (
-    <div className="h-[600px] w-full rounded-xl overflow-hidden border border-slate-200 shadow-sm z-0 relative">
-      <MapContainer center={centerPosition} zoom={6} scrollWheelZoom={true} className="h-full w-full">
-        <TileLayer
-          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-        />
-        {vehicles.map((vehicle) => (
-          <Marker
-            key={vehicle.id}
-            position={[vehicle.latitude, vehicle.longitude]}
-            icon={vehicle.source === ApiSource.FAGOR ? fagorIcon : coltrackIcon}
-          >
-            <Popup>
-              <div className="p-1 min-w-[200px]">
-                <div className="border-b pb-2 mb-2">
-                  <div className="flex justify-between items-center">
-                    <h3 className="font-bold text-lg text-slate-800">{vehicle.plate}</h3>
-                    <span className={`text-xs px-2 py-0.5 rounded-full text-white ${vehicle.source === ApiSource.FAGOR ? 'bg-blue-500' : 'bg-green-500'}`}>
-                      {vehicle.source}
-                    </span>
-                  </div>
-                  {vehicle.contract && vehicle.contract !== 'No asignado' && (
-                    <div className="text-xs text-sky-600 font-semibold mt-1">
-                      {vehicle.contract}
+    <div className="h-[600px] w-full rounded-xl overflow-hidden border border-slate-200 shadow-sm z-0 relative flex flex-col">
+      {/* Selector de modo: en vivo / reproducción de recorrido */}
+      <div className="flex items-center justify-end gap-1 px-3 py-2 border-b border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800">
+        <button
+          onClick={() => setMode('live')}
+          className={`flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${mode === 'live' ? 'bg-blue-600 text-white' : 'text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'}`}
+        >
+          <Radio className="w-3.5 h-3.5" /> En Vivo
+        </button>
+        <button
+          onClick={() => setMode('playback')}
+          className={`flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors ${mode === 'playback' ? 'bg-blue-600 text-white' : 'text-slate-600 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700'}`}
+        >
+          <History className="w-3.5 h-3.5" /> Recorrido
+        </button>
+      </div>
+
+      <div className="flex-1 min-h-0">
+        {mode === 'playback' ? (
+          <TrackPlayback vehicles={vehicles} />
+        ) : (
+          <MapContainer center={centerPosition} zoom={6} scrollWheelZoom={true} className="h-full w-full">
+            <TileLayer
+              attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+              url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+            />
+            {vehicles.map((vehicle) => (
+              <Marker
+                key={vehicle.id}
+                position={[vehicle.latitude, vehicle.longitude]}
+                icon={vehicle.source === ApiSource.FAGOR ? fagorIcon : coltrackIcon}
+              >
+                <Popup>
+                  <div className="p-1 min-w-[200px]">
+                    <div className="border-b pb-2 mb-2">
+                      <div className="flex justify-between items-center">
+                        <h3 className="font-bold text-lg text-slate-800">{vehicle.plate}</h3>
+                        <span className={`text-xs px-2 py-0.5 rounded-full text-white ${vehicle.source === ApiSource.FAGOR ? 'bg-blue-500' : 'bg-green-500'}`}>
+                          {vehicle.source}
+                        </span>
+                      </div>
+                      {vehicle.contract && vehicle.contract !== 'No asignado' && (
+                        <div className="text-xs text-sky-600 font-semibold mt-1">
+                          {vehicle.contract}
+                        </div>
+                      )}
                     </div>
-                  )}
-                </div>
 
-                <div className="space-y-2 text-sm text-slate-600">
-                  <div className="flex items-center gap-2">
-                    <User className="w-4 h-4" />
-                    <span>{vehicle.driver}</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <Navigation className="w-4 h-4" />
-                    <span>{vehicle.status} ({vehicle.speed} km/h)</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <Fuel className="w-4 h-4" />
-                    <span>{vehicle.fuelLevel}% Combustible</span>
-                  </div>
-                  <div className="flex items-center gap-2">
-                    <Clock className="w-4 h-4" />
-                    <span>{new Date(vehicle.lastUpdate).toLocaleTimeString()}</span>
+                    <div className="space-y-2 text-sm text-slate-600">
+                      <div className="flex items-center gap-2">
+                        <User className="w-4 h-4" />
+                        <span>{vehicle.driver}</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Navigation className="w-4 h-4" />
+                        <span>{vehicle.status} ({vehicle.speed} km/h)</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Fuel className="w-4 h-4" />
+                        <span>{vehicle.fuelLevel}% Combustible</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Clock className="w-4 h-4" />
+                        <span>{new Date(vehicle.lastUpdate).toLocaleTimeString()}</span>
+                      </div>
+                    </div>
                   </div>
-                </div>
-              </div>
-            </Popup>
-          </Marker>
-        ))}
-      </MapContainer>
+                </Popup>
+              </Marker>
+            ))}
+          </MapContainer>
+        )}
+      </div>
     </div>
   );
 };
@@ -18,8 +18,10 @@ import {
     Clock,
     Eye,
     EyeOff,
+    Gauge,
 } from 'lucide-react';
 import { supabase } from '../services/supabaseClient';
+import { isPointInGeofence } from '../supabase/functions/_shared/geofenceEngine';
 
 // =====================================================
 // TYPES
@@ -47,6 +49,8 @@ export interface Geofence {
     applies_to_all: boolean;
     vehicle_plates?: string[];
     is_active: boolean;
+    speed_limit_kmh?: number | null; // Zona de velocidad
+    speed_tolerance_kmh?: number | null;
     fill_color: string;
     stroke_color: string;
     fill_opacity: number;
@@ -120,53 +124,9 @@ export const geofenceService = {
         return this.update(id, { is_active: isActive });
     },
 
-    // Check if a point is inside a geofence
+    // Misma evaluación que usan el ciclo de alertas y el worker
     isPointInGeofence(lat: number, lng: number, geofence: Geofence): boolean {
-        if (geofence.geofence_type === 'circle') {
-            const distance = this.calculateDistance(
-                lat,
-                lng,
-                geofence.center_lat!,
-                geofence.center_lng!
-            );
-            return distance <= (geofence.radius_meters || 0);
-        }
-
-        // For polygon, use ray casting algorithm
-        if (geofence.geofence_type === 'polygon' && Array.isArray(geofence.geometry)) {
-            return this.isPointInPolygon(lat, lng, geofence.geometry);
-        }
-
-        return false;
-    },
-
-    calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-        const R = 6371000; // Earth's radius in meters
-        const dLat = ((lat2 - lat1) * Math.PI) / 180;
-        const dLng = ((lng2 - lng1) * Math.PI) / 180;
-        const a =
-            Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-            Math.cos((lat1 * Math.PI) / 180) *
-            Math.cos((lat2 * Math.PI) / 180) *
-            Math.sin(dLng / 2) *
-            Math.sin(dLng / 2);
-        const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-        return R * c;
-    },
-
-    isPointInPolygon(lat: number, lng: number, polygon: { lat: number; lng: number }[]): boolean {
-        let inside = false;
-        for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
-            const xi = polygon[i].lat,
-                yi = polygon[i].lng;
-            const xj = polygon[j].lat,
-                yj = polygon[j].lng;
-
-            if (yi > lng !== yj > lng && lat < ((xj - xi) * (lng - yi)) / (yj - yi) + xi) {
-                inside = !inside;
-            }
-        }
-        return inside;
+        return isPointInGeofence(lat, lng, geofence);
     },
 };
 
@@ -462,6 +422,11 @@ export const GeofenceEditor: React.FC = () => {
                                         Zona Restringida
                                     </span>
                                 )}
+                                {geofence.speed_limit_kmh && (
+                                    <span className="flex items-center gap-1 px-2 py-0.5 bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-400 text-xs rounded-full">
+                                        <Gauge className="w-3 h-3" /> {geofence.speed_limit_kmh} km/h
+                                    </span>
+                                )}
                             </div>
 
                             {geofence.contract && (
@@ -614,6 +579,36 @@ export const GeofenceEditor: React.FC = () => {
                                 </div>
                             </div>
 
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                        Límite Velocidad (km/h)
+                                    </label>
+                                    <input
+                                        type="number"
+                                        min="1"
+                                        value={formData.speed_limit_kmh ?? ''}
+                                        onChange={(e) => setFormData({ ...formData, speed_limit_kmh: e.target.value === '' ? null : parseFloat(e.target.value) })}
+                                        placeholder="Sin límite de zona"
+                                        className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-green-500 text-slate-900 dark:text-white"
+                                    />
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                        Tolerancia (km/h)
+                                    </label>
+                                    <input
+                                        type="number"
+                                        min="0"
+                                        value={formData.speed_tolerance_kmh ?? ''}
+                                        onChange={(e) => setFormData({ ...formData, speed_tolerance_kmh: e.target.value === '' ? null : parseFloat(e.target.value) })}
+                                        disabled={!formData.speed_limit_kmh}
+                                        placeholder="0"
+                                        className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-green-500 text-slate-900 dark:text-white disabled:opacity-50"
+                                    />
+                                </div>
+                            </div>
+
                             <div>
                                 <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
                                     Contrato
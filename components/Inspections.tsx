@@ -1,5 +1,5 @@
 import React from 'react';
-import { ClipboardCheck, RefreshCw, AlertTriangle, CheckCircle, Clock, Download, Upload, FileSpreadsheet } from 'lucide-react';
+import { ClipboardCheck, RefreshCw, AlertTriangle, CheckCircle, Clock, Download, Upload, FileSpreadsheet, FileText } from 'lucide-react';
 import {
   importInspectionsToDatabase,
   getInspectionsByDateRange,
@@ -10,14 +10,19 @@ import {
   type InspectionCrossCheck
 } from '../services/towerControlService';
 import { useManualInspectionUpload } from '../hooks/useManualInspectionUpload';
+import { apiFetch } from '../services/apiClient';
+import { buildInspectionReport, downloadReportAsPDF } from '../services/pdfService';
+import { useAuth } from '../contexts/AuthContext';
 
 interface InspectionsProps {
   selectedContract?: string;
 }
 
 export const Inspections: React.FC<InspectionsProps> = ({ selectedContract }) => {
+  const { user } = useAuth();
   const [loading, setLoading] = React.useState(false);
   const [downloading, setDownloading] = React.useState(false);
+  const [exportingPdf, setExportingPdf] = React.useState(false);
   const [inspections, setInspections] = React.useState<PreoperationalInspection[]>([]);
   const [summary, setSummary] = React.useState<InspectionSummary[]>([]);
   const [crossCheck, setCrossCheck] = React.useState<InspectionCrossCheck[]>([]);
@@ -136,16 +141,11 @@ export const Inspections: React.FC<InspectionsProps> = ({ selectedContract }) =>
       console.log('[Inspections] Fetching from API:', downloadStartDate, 'to', downloadEndDate);
 
       // Llamar al endpoint que descarga el Excel CON RANGO DE FECHAS
-      const response = await fetch(
-        `/api/inspections?startDate=${downloadStartDate}&endDate=${downloadEndDate}&limit=3000`
+      // Con la sesión actual; 401 / 429 llegan con el mensaje del servidor
+      const result = await apiFetch(
+        `/api/inspections?action=replace&startDate=${downloadStartDate}&endDate=${downloadEndDate}&limit=3000`
       );
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
-
-      const result = await response.json();
-
       if (!result.success) {
         throw new Error(result.error || result.errorDetails || 'Error al descargar inspecciones');
       }
@@ -335,6 +335,28 @@ export const Inspections: React.FC<InspectionsProps> = ({ selectedContract }) =>
     link.click();
   };
 
+  /**
+   * Reporte PDF de cumplimiento con el rango y el contrato seleccionados
+   */
+  const handleExportPDF = async () => {
+    setExportingPdf(true);
+    try {
+      const definition = buildInspectionReport(inspections);
+      await downloadReportAsPDF(
+        definition,
+        `inspecciones_${viewStartDate}_${viewEndDate}_${filterContract || 'todas'}`,
+        {
+          subtitle: `Período: ${viewStartDate} a ${viewEndDate} · ${filterContract || 'Todos los contratos'} · ${definition.subtitle}`,
+          generatedBy: user ? `${user.name} (${user.email})` : undefined,
+        }
+      );
+    } catch (error: any) {
+      setErrorMessage(`Error al generar el PDF: ${error.message}`);
+    } finally {
+      setExportingPdf(false);
+    }
+  };
+
   /**
    * Determinar color de fila según estado
    */
@@ -486,7 +508,7 @@ export const Inspections: React.FC<InspectionsProps> = ({ selectedContract }) =>
               </select>
             </div>
 
-            <div className="flex items-end">
+            <div className="flex items-end gap-2">
               <button
                 onClick={handleExportCSV}
                 disabled={inspections.length === 0}
@@ -496,6 +518,14 @@ export const Inspections: React.FC<InspectionsProps> = ({ selectedContract }) =>
                 <span className="hidden sm:inline">Exportar CSV</span>
                 <span className="sm:hidden">CSV</span>
               </button>
+              <button
+                onClick={handleExportPDF}
+                disabled={inspections.length === 0 || exportingPdf}
+                className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors w-full justify-center"
+              >
+                <FileText className="w-5 h-5" />
+                {exportingPdf ? 'Generando...' : 'PDF'}
+              </button>
             </div>
           </div>
         </div>
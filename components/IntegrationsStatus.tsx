@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import {
+    Plug,
+    KeyRound,
+    Server,
+    RefreshCw,
+    AlertCircle,
+    CheckCircle,
+    XCircle,
+} from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { Permission } from '../types';
+import { integrationsService, IntegrationStatus } from '../services/integrationsService';
+
+export const IntegrationsStatus: React.FC = () => {
+    const { can } = useAuth();
+    const canView = can(Permission.CONFIG_EDIT);
+
+    const [integrations, setIntegrations] = useState<IntegrationStatus[]>([]);
+    const [checkedAt, setCheckedAt] = useState<string | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState('');
+
+    useEffect(() => {
+        if (canView) loadStatus();
+    }, [canView]);
+
+    const loadStatus = async () => {
+        setLoading(true);
+        setError('');
+
+        const result = await integrationsService.getStatus();
+        if (result.success && result.data) {
+            setIntegrations(result.data);
+            setCheckedAt(result.checkedAt || null);
+        } else {
+            setError(result.error || 'No se pudo consultar el estado de las integraciones');
+        }
+
+        setLoading(false);
+    };
+
+    if (!canView) {
+        return (
+            <div className="p-8 text-center">
+                <p className="text-red-500">No tienes permisos para acceder a esta página</p>
+            </div>
+        );
+    }
+
+    const configuredCount = integrations.filter((integration) => integration.configured).length;
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h2 className="text-2xl font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                        <Plug className="w-7 h-7 text-blue-600" />
+                        Integraciones
+                    </h2>
+                    <p className="text-slate-500 dark:text-slate-400 mt-1">
+                        {loading ? 'Consultando...' : `${configuredCount} de ${integrations.length} configuradas`}
+                        {checkedAt && !loading && ` · ${new Date(checkedAt).toLocaleString('es-CO')}`}
+                    </p>
+                </div>
+                <button
+                    onClick={loadStatus}
+                    disabled={loading}
+                    className="flex items-center gap-2 px-4 py-2 bg-slate-100 dark:bg-slate-700 hover:bg-slate-200 dark:hover:bg-slate-600 text-slate-700 dark:text-slate-200 rounded-lg transition-colors disabled:opacity-50"
+                >
+                    <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+                    Actualizar
+                </button>
+            </div>
+
+            {/* Info Banner */}
+            <div className="p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-xl">
+                <div className="flex items-start gap-3">
+                    <AlertCircle className="w-5 h-5 text-blue-600 dark:text-blue-400 mt-0.5" />
+                    <div className="text-sm text-blue-700 dark:text-blue-400">
+                        <p>
+                            Las credenciales se configuran como variables de entorno en Vercel (ver <code>.env.example</code>)
+                            y no se muestran aquí. Después de cambiarlas hay que volver a desplegar.
+                        </p>
+                    </div>
+                </div>
+            </div>
+
+            {error && (
+                <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg flex items-center gap-2 text-red-700 dark:text-red-400">
+                    <AlertCircle className="w-5 h-5" />
+                    <span className="text-sm">{error}</span>
+                </div>
+            )}
+
+            {loading ? (
+                <div className="flex items-center justify-center py-12">
+                    <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+                </div>
+            ) : (
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                    {integrations.map((integration) => (
+                        <div
+                            key={integration.id}
+                            className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 p-5 space-y-3"
+                        >
+                            <div className="flex items-start justify-between gap-3">
+                                <div>
+                                    <h3 className="font-semibold text-slate-900 dark:text-white">{integration.label}</h3>
+                                    <p className="text-xs text-slate-500 dark:text-slate-400 flex items-center gap-1 mt-1">
+                                        <Server className="w-3.5 h-3.5" />
+                                        {integration.host || 'Sin URL'}
+                                    </p>
+                                </div>
+                                {integration.configured ? (
+                                    <span className="flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-full bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400">
+                                        <CheckCircle className="w-3.5 h-3.5" />
+                                        Configurada
+                                    </span>
+                                ) : (
+                                    <span className="flex items-center gap-1 px-2 py-1 text-xs font-medium rounded-full bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400">
+                                        <XCircle className="w-3.5 h-3.5" />
+                                        Sin configurar
+                                    </span>
+                                )}
+                            </div>
+
+                            {integration.accounts.length > 0 && (
+                                <ul className="space-y-1">
+                                    {integration.accounts.map((account) => (
+                                        <li key={account.id} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                                            <KeyRound className="w-4 h-4 text-slate-400" />
+                                            <span className="font-medium">{account.id}</span>
+                                            {account.empresa && account.empresa !== account.id && (
+                                                <span className="text-slate-500 dark:text-slate-400">· {account.empresa}</span>
+                                            )}
+                                            {account.user && (
+                                                <span className="text-xs text-slate-400 font-mono">{account.user}</span>
+                                            )}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+
+                            {integration.errors.length > 0 && (
+                                <ul className="space-y-1">
+                                    {integration.errors.map((message) => (
+                                        <li key={message} className="flex items-start gap-2 text-sm text-amber-700 dark:text-amber-400">
+                                            <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                                            {message}
+                                        </li>
+                                    ))}
+                                </ul>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default IntegrationsStatus;
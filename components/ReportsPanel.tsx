@@ -0,0 +1,700 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+    FileText,
+    Plus,
+    Edit2,
+    Trash2,
+    X,
+    Save,
+    AlertCircle,
+    CheckCircle,
+    Eye,
+    EyeOff,
+    Play,
+    Download,
+    Clock,
+    Mail,
+    RefreshCw,
+} from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { Vehicle, Permission } from '../types';
+import {
+    reportScheduleService,
+    generatedReportService,
+    GeneratedReportRow,
+    ReportScheduleRow,
+    ReportScheduleInput,
+    REPORT_FORMAT_LABELS,
+    REPORT_PERIOD_LABELS,
+    REPORT_TYPE_LABELS,
+    WEEKDAY_LABELS,
+} from '../services/reportService';
+
+interface ReportsPanelProps {
+    vehicles: Vehicle[];
+}
+
+const EMPTY_SCHEDULE: ReportScheduleInput = {
+    name: '',
+    report_type: 'inspections',
+    contract: null,
+    period: 'daily',
+    run_time: '07:00',
+    weekday: 1,
+    day_of_month: 1,
+    format: 'pdf',
+    recipients: [],
+    is_active: true,
+};
+
+const describeRecurrence = (schedule: ReportScheduleRow): string => {
+    const time = schedule.run_time.slice(0, 5);
+    if (schedule.period === 'weekly') return `${WEEKDAY_LABELS[schedule.weekday ?? 1]} ${time}`;
+    if (schedule.period === 'monthly') return `Día ${schedule.day_of_month ?? 1} · ${time}`;
+    return `Todos los días ${time}`;
+};
+
+const formatDateTime = (value: string | null): string =>
+    value ? new Date(value).toLocaleString('es-CO', { dateStyle: 'short', timeStyle: 'short' }) : '—';
+
+const formatPeriod = (report: GeneratedReportRow): string => {
+    const start = new Date(report.period_start).toLocaleDateString('es-CO');
+    const end = new Date(new Date(report.period_end).getTime() - 1).toLocaleDateString('es-CO');
+    return start === end ? start : `${start} - ${end}`;
+};
+
+const formatFileSize = (bytes: number | null): string => {
+    if (!bytes) return '—';
+    return bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+};
+
+const parseRecipients = (value: string): string[] =>
+    value.split(/[,;\s]+/).map(recipient => recipient.trim()).filter(Boolean);
+
+export const ReportsPanel: React.FC<ReportsPanelProps> = ({ vehicles }) => {
+    const { user, can } = useAuth();
+    const canManage = can(Permission.REPORT_MANAGE);
+
+    const [schedules, setSchedules] = useState<ReportScheduleRow[]>([]);
+    const [reports, setReports] = useState<GeneratedReportRow[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [showModal, setShowModal] = useState(false);
+    const [editingSchedule, setEditingSchedule] = useState<ReportScheduleRow | null>(null);
+    const [formData, setFormData] = useState<ReportScheduleInput>(EMPTY_SCHEDULE);
+    const [recipientsText, setRecipientsText] = useState('');
+    const [saving, setSaving] = useState(false);
+    const [runningId, setRunningId] = useState<string | null>(null);
+    const [error, setError] = useState('');
+    const [success, setSuccess] = useState('');
+    const [notice, setNotice] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    const contracts = useMemo(
+        () => Array.from(new Set(vehicles.map(v => v.contract).filter(Boolean) as string[])).sort(),
+        [vehicles]
+    );
+
+    useEffect(() => {
+        loadData();
+    }, []);
+
+    const loadData = async () => {
+        setLoading(true);
+        const [schedulesResult, reportsResult] = await Promise.all([
+            reportScheduleService.getAll(),
+            generatedReportService.getRecent(),
+        ]);
+        if (schedulesResult.success && schedulesResult.data) setSchedules(schedulesResult.data);
+        if (reportsResult.success && reportsResult.data) setReports(reportsResult.data);
+        setLoading(false);
+    };
+
+    const handleOpenModal = (schedule?: ReportScheduleRow) => {
+        if (schedule) {
+            setEditingSchedule(schedule);
+            setFormData({
+                name: schedule.name,
+                report_type: schedule.report_type,
+                contract: schedule.contract,
+                period: schedule.period,
+                run_time: schedule.run_time.slice(0, 5),
+                weekday: schedule.weekday ?? 1,
+                day_of_month: schedule.day_of_month ?? 1,
+                format: schedule.format,
+                recipients: schedule.recipients || [],
+                is_active: schedule.is_active,
+            });
+            setRecipientsText((schedule.recipients || []).join(', '));
+        } else {
+            setEditingSchedule(null);
+            setFormData(EMPTY_SCHEDULE);
+            setRecipientsText('');
+        }
+        setError('');
+        setSuccess('');
+        setShowModal(true);
+    };
+
+    const handleCloseModal = () => {
+        setShowModal(false);
+        setEditingSchedule(null);
+        setFormData(EMPTY_SCHEDULE);
+        setError('');
+        setSuccess('');
+    };
+
+    const handleSave = async () => {
+        if (!formData.name.trim()) {
+            setError('El nombre es requerido');
+            return;
+        }
+
+        const recipients = parseRecipients(recipientsText);
+        const invalid = recipients.find(recipient => !/^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(recipient));
+        if (invalid) {
+            setError(`Correo inválido: ${invalid}`);
+            return;
+        }
+
+        const payload: ReportScheduleInput = {
+            ...formData,
+            name: formData.name.trim(),
+            contract: formData.contract?.trim() || null,
+            weekday: formData.period === 'weekly' ? formData.weekday ?? 1 : null,
+            day_of_month: formData.period === 'monthly' ? formData.day_of_month ?? 1 : null,
+            recipients,
+        };
+
+        setSaving(true);
+        setError('');
+
+        try {
+            const result = editingSchedule
+                ? await reportScheduleService.update(editingSchedule.id, payload)
+                : await reportScheduleService.create({ ...payload, created_by: user?.email || 'Sistema' });
+
+            if (result.success) {
+                setSuccess(editingSchedule ? 'Programación actualizada exitosamente' : 'Programación creada exitosamente');
+                loadData();
+                setTimeout(handleCloseModal, 1500);
+            } else {
+                setError(result.error || 'Error al guardar la programación');
+            }
+        } catch (err: any) {
+            setError(err.message || 'Error inesperado');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async (schedule: ReportScheduleRow) => {
+        if (!confirm(`¿Estás seguro de eliminar la programación "${schedule.name}"? Los reportes ya generados se conservan.`)) {
+            return;
+        }
+        const result = await reportScheduleService.delete(schedule.id);
+        if (result.success) {
+            loadData();
+        }
+    };
+
+    const handleToggleActive = async (schedule: ReportScheduleRow) => {
+        const result = await reportScheduleService.toggleActive(schedule, !schedule.is_active);
+        if (result.success) {
+            loadData();
+        }
+    };
+
+    const handleRunNow = async (schedule: ReportScheduleRow) => {
+        setRunningId(schedule.id);
+        setNotice(null);
+        const result = await reportScheduleService.runNow(schedule.id);
+        if (result.success && result.data?.generated) {
+            setNotice({ type: 'success', text: `Reporte "${schedule.name}" generado` });
+        } else {
+            setNotice({ type: 'error', text: result.error || `No se pudo generar "${schedule.name}"` });
+        }
+        setRunningId(null);
+        loadData();
+    };
+
+    const handleDownload = async (report: GeneratedReportRow) => {
+        const result = await generatedReportService.download(report);
+        if (!result.success) {
+            setNotice({ type: 'error', text: result.error || 'No se pudo descargar el reporte' });
+        }
+    };
+
+    const handleDeleteReport = async (report: GeneratedReportRow) => {
+        if (!confirm(`¿Eliminar el reporte "${report.name}" del ${formatPeriod(report)}?`)) {
+            return;
+        }
+        const result = await generatedReportService.delete(report);
+        if (result.success) {
+            loadData();
+        } else {
+            setNotice({ type: 'error', text: result.error || 'No se pudo eliminar el reporte' });
+        }
+    };
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+                <div>
+                    <h2 className="text-2xl font-bold text-slate-900 dark:text-white flex items-center gap-2">
+                        <FileText className="w-7 h-7 text-blue-600" />
+                        Reportes
+                    </h2>
+                    <p className="text-slate-500 dark:text-slate-400 mt-1">
+                        Reportes programados y archivo de reportes generados ({schedules.filter((s) => s.is_active).length} programaciones activas)
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={loadData}
+                        className="p-2 text-slate-600 dark:text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+                        title="Actualizar"
+                    >
+                        <RefreshCw className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
+                    </button>
+                    {canManage && (
+                        <button
+                            onClick={() => handleOpenModal()}
+                            className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors"
+                        >
+                            <Plus className="w-5 h-5" />
+                            Nueva Programación
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {/* Info Banner */}
+            <div className="p-4 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-xl">
+                <div className="flex items-start gap-3">
+                    <AlertCircle className="w-5 h-5 text-blue-600 dark:text-blue-400 mt-0.5" />
+                    <div className="text-sm text-blue-700 dark:text-blue-400">
+                        <p>
+                            Cada reporte cubre el período anterior completo: el día de ayer, la semana pasada (lunes a domingo)
+                            o el mes pasado. El de flota es la foto del momento en que se genera.
+                        </p>
+                        <p className="mt-1">
+                            Las horas son de Colombia. El worker revisa las programaciones cada 15 minutos, guarda el archivo aquí
+                            y lo envía por correo con un enlace de descarga.
+                        </p>
+                    </div>
+                </div>
+            </div>
+
+            {notice && (
+                <div className={`p-3 rounded-lg flex items-center gap-2 border ${notice.type === 'success'
+                        ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800 text-green-700 dark:text-green-400'
+                        : 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-700 dark:text-red-400'
+                    }`}>
+                    {notice.type === 'success' ? <CheckCircle className="w-5 h-5" /> : <AlertCircle className="w-5 h-5" />}
+                    <span className="text-sm flex-1">{notice.text}</span>
+                    <button onClick={() => setNotice(null)} className="p-1 rounded hover:bg-black/5">
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+            )}
+
+            {/* Schedules Table */}
+            <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 overflow-hidden">
+                <div className="px-4 py-3 border-b border-slate-200 dark:border-slate-700">
+                    <h3 className="font-semibold text-slate-900 dark:text-white flex items-center gap-2">
+                        <Clock className="w-4 h-4 text-slate-400" />
+                        Programaciones
+                    </h3>
+                </div>
+                {loading && schedules.length === 0 ? (
+                    <div className="flex items-center justify-center py-12">
+                        <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600"></div>
+                    </div>
+                ) : schedules.length > 0 ? (
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full divide-y divide-slate-200 dark:divide-slate-700">
+                            <thead className="bg-slate-50 dark:bg-slate-900/50">
+                                <tr>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Reporte</th>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Frecuencia</th>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Destinatarios</th>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Próxima</th>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Última</th>
+                                    {canManage && (
+                                        <th className="px-4 py-3 text-right text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Acciones</th>
+                                    )}
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                                {schedules.map((schedule) => (
+                                    <tr key={schedule.id} className={schedule.is_active ? '' : 'opacity-60'}>
+                                        <td className="px-4 py-3">
+                                            <p className="font-medium text-slate-900 dark:text-white">{schedule.name}</p>
+                                            <p className="text-xs text-slate-500 dark:text-slate-400">
+                                                {REPORT_TYPE_LABELS[schedule.report_type]} · {schedule.contract || 'Todos los contratos'} · {schedule.format.toUpperCase()}
+                                            </p>
+                                        </td>
+                                        <td className="px-4 py-3 text-sm text-slate-700 dark:text-slate-300">
+                                            <p>{REPORT_PERIOD_LABELS[schedule.period]}</p>
+                                            <p className="text-xs text-slate-500 dark:text-slate-400">{describeRecurrence(schedule)}</p>
+                                        </td>
+                                        <td className="px-4 py-3 text-sm text-slate-700 dark:text-slate-300">
+                                            {schedule.recipients?.length ? (
+                                                <span className="flex items-center gap-1" title={schedule.recipients.join(', ')}>
+                                                    <Mail className="w-3 h-3" /> {schedule.recipients.length}
+                                                </span>
+                                            ) : (
+                                                <span className="text-xs text-slate-400">Solo archivo</span>
+                                            )}
+                                        </td>
+                                        <td className="px-4 py-3 text-sm text-slate-700 dark:text-slate-300">
+                                            {schedule.is_active ? formatDateTime(schedule.next_run_at) : 'Pausada'}
+                                        </td>
+                                        <td className="px-4 py-3 text-sm">
+                                            {schedule.last_status === 'failed' ? (
+                                                <span className="text-red-600 dark:text-red-400" title={schedule.last_error || ''}>
+                                                    Falló · {formatDateTime(schedule.last_run_at)}
+                                                </span>
+                                            ) : (
+                                                <span className="text-slate-700 dark:text-slate-300">{formatDateTime(schedule.last_run_at)}</span>
+                                            )}
+                                        </td>
+                                        {canManage && (
+                                            <td className="px-4 py-3">
+                                                <div className="flex items-center justify-end gap-2">
+                                                    <button
+                                                        onClick={() => handleRunNow(schedule)}
+                                                        disabled={!schedule.is_active || runningId !== null}
+                                                        className="p-2 text-slate-600 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors disabled:opacity-40"
+                                                        title="Generar ahora"
+                                                    >
+                                                        {runningId === schedule.id
+                                                            ? <RefreshCw className="w-4 h-4 animate-spin" />
+                                                            : <Play className="w-4 h-4" />}
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleToggleActive(schedule)}
+                                                        className={`p-2 rounded-lg transition-colors ${schedule.is_active
+                                                                ? 'text-green-600 hover:bg-green-50 dark:hover:bg-green-900/20'
+                                                                : 'text-slate-400 hover:bg-slate-100 dark:hover:bg-slate-700'
+                                                            }`}
+                                                        title={schedule.is_active ? 'Pausar' : 'Activar'}
+                                                    >
+                                                        {schedule.is_active ? <Eye className="w-4 h-4" /> : <EyeOff className="w-4 h-4" />}
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleOpenModal(schedule)}
+                                                        className="p-2 text-slate-600 dark:text-slate-400 hover:text-blue-600 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                                                        title="Editar"
+                                                    >
+                                                        <Edit2 className="w-4 h-4" />
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleDelete(schedule)}
+                                                        className="p-2 text-slate-600 dark:text-slate-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                                                        title="Eliminar"
+                                                    >
+                                                        <Trash2 className="w-4 h-4" />
+                                                    </button>
+                                                </div>
+                                            </td>
+                                        )}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                ) : (
+                    <div className="text-center py-10">
+                        <Clock className="w-10 h-10 text-slate-300 dark:text-slate-600 mx-auto mb-3" />
+                        <p className="text-slate-500 dark:text-slate-400">
+                            {canManage ? 'Crea una programación, por ejemplo las inspecciones diarias a las 07:00' : 'No hay reportes programados'}
+                        </p>
+                    </div>
+                )}
+            </div>
+
+            {/* Archive */}
+            <div className="bg-white dark:bg-slate-800 rounded-xl border border-slate-200 dark:border-slate-700 overflow-hidden">
+                <div className="px-4 py-3 border-b border-slate-200 dark:border-slate-700">
+                    <h3 className="font-semibold text-slate-900 dark:text-white flex items-center gap-2">
+                        <FileText className="w-4 h-4 text-slate-400" />
+                        Reportes generados
+                    </h3>
+                </div>
+                {reports.length > 0 ? (
+                    <div className="overflow-x-auto">
+                        <table className="min-w-full divide-y divide-slate-200 dark:divide-slate-700">
+                            <thead className="bg-slate-50 dark:bg-slate-900/50">
+                                <tr>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Reporte</th>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Período</th>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Registros</th>
+                                    <th className="px-4 py-3 text-left text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Generado</th>
+                                    <th className="px-4 py-3 text-right text-xs font-medium text-slate-500 dark:text-slate-400 uppercase tracking-wider">Acciones</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-slate-200 dark:divide-slate-700">
+                                {reports.map((report) => (
+                                    <tr key={report.id}>
+                                        <td className="px-4 py-3">
+                                            <p className="font-medium text-slate-900 dark:text-white">{report.name}</p>
+                                            <p className="text-xs text-slate-500 dark:text-slate-400">
+                                                {REPORT_TYPE_LABELS[report.report_type]} · {report.contract || 'Todos los contratos'}
+                                            </p>
+                                        </td>
+                                        <td className="px-4 py-3 text-sm text-slate-700 dark:text-slate-300">{formatPeriod(report)}</td>
+                                        <td className="px-4 py-3 text-sm text-slate-700 dark:text-slate-300">{report.row_count}</td>
+                                        <td className="px-4 py-3 text-sm text-slate-700 dark:text-slate-300">{formatDateTime(report.generated_at)}</td>
+                                        <td className="px-4 py-3">
+                                            <div className="flex items-center justify-end gap-2">
+                                                <button
+                                                    onClick={() => handleDownload(report)}
+                                                    className="flex items-center gap-1 px-2 py-1 text-sm text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+                                                    title={REPORT_FORMAT_LABELS[report.format]}
+                                                >
+                                                    <Download className="w-4 h-4" />
+                                                    {report.format.toUpperCase()} · {formatFileSize(report.file_size)}
+                                                </button>
+                                                {canManage && (
+                                                    <button
+                                                        onClick={() => handleDeleteReport(report)}
+                                                        className="p-2 text-slate-600 dark:text-slate-400 hover:text-red-600 dark:hover:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                                                        title="Eliminar"
+                                                    >
+                                                        <Trash2 className="w-4 h-4" />
+                                                    </button>
+                                                )}
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                ) : (
+                    <div className="text-center py-10">
+                        <FileText className="w-10 h-10 text-slate-300 dark:text-slate-600 mx-auto mb-3" />
+                        <p className="text-slate-500 dark:text-slate-400">Aún no se han generado reportes</p>
+                    </div>
+                )}
+            </div>
+
+            {/* Modal */}
+            {showModal && (
+                <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50">
+                    <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto">
+                        <div className="flex items-center justify-between p-6 border-b border-slate-200 dark:border-slate-700">
+                            <h3 className="text-xl font-semibold text-slate-900 dark:text-white">
+                                {editingSchedule ? 'Editar Programación' : 'Nueva Programación'}
+                            </h3>
+                            <button
+                                onClick={handleCloseModal}
+                                className="p-2 text-slate-400 hover:text-slate-600 dark:hover:text-slate-300 rounded-lg hover:bg-slate-100 dark:hover:bg-slate-700 transition-colors"
+                            >
+                                <X className="w-5 h-5" />
+                            </button>
+                        </div>
+
+                        <div className="p-6 space-y-4">
+                            {error && (
+                                <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg flex items-center gap-2 text-red-700 dark:text-red-400">
+                                    <AlertCircle className="w-5 h-5" />
+                                    <span className="text-sm">{error}</span>
+                                </div>
+                            )}
+
+                            {success && (
+                                <div className="p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg flex items-center gap-2 text-green-700 dark:text-green-400">
+                                    <CheckCircle className="w-5 h-5" />
+                                    <span className="text-sm">{success}</span>
+                                </div>
+                            )}
+
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                    Nombre *
+                                </label>
+                                <input
+                                    type="text"
+                                    value={formData.name}
+                                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                                    placeholder="Ej: Cumplimiento de preoperacionales diario"
+                                    className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 text-slate-900 dark:text-white"
+                                />
+                            </div>
+
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                        Tipo de reporte
+                                    </label>
+                                    <select
+                                        value={formData.report_type}
+                                        onChange={(e) => setFormData({ ...formData, report_type: e.target.value as ReportScheduleInput['report_type'] })}
+                                        className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 text-slate-900 dark:text-white"
+                                    >
+                                        {Object.entries(REPORT_TYPE_LABELS).map(([value, label]) => (
+                                            <option key={value} value={value}>{label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                        Contrato
+                                    </label>
+                                    <input
+                                        type="text"
+                                        list="report-schedule-contracts"
+                                        value={formData.contract || ''}
+                                        onChange={(e) => setFormData({ ...formData, contract: e.target.value })}
+                                        placeholder="Todos"
+                                        className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 text-slate-900 dark:text-white"
+                                    />
+                                    <datalist id="report-schedule-contracts">
+                                        {contracts.map((contract) => <option key={contract} value={contract} />)}
+                                    </datalist>
+                                </div>
+                            </div>
+
+                            <div className="grid grid-cols-3 gap-4">
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                        Frecuencia
+                                    </label>
+                                    <select
+                                        value={formData.period}
+                                        onChange={(e) => setFormData({ ...formData, period: e.target.value as ReportScheduleInput['period'] })}
+                                        className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 text-slate-900 dark:text-white"
+                                    >
+                                        {Object.entries(REPORT_PERIOD_LABELS).map(([value, label]) => (
+                                            <option key={value} value={value}>{label}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                <div>
+                                    {formData.period === 'weekly' && (
+                                        <>
+                                            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                                Día
+                                            </label>
+                                            <select
+                                                value={formData.weekday ?? 1}
+                                                onChange={(e) => setFormData({ ...formData, weekday: parseInt(e.target.value) })}
+                                                className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 text-slate-900 dark:text-white"
+                                            >
+                                                {WEEKDAY_LABELS.map((label, index) => (
+                                                    <option key={label} value={index}>{label}</option>
+                                                ))}
+                                            </select>
+                                        </>
+                                    )}
+                                    {formData.period === 'monthly' && (
+                                        <>
+                                            <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                                Día del mes
+                                            </label>
+                                            <input
+                                                type="number"
+                                                min="1"
+                                                max="28"
+                                                value={formData.day_of_month ?? 1}
+                                                onChange={(e) => setFormData({ ...formData, day_of_month: Math.min(28, Math.max(1, parseInt(e.target.value) || 1)) })}
+                                                className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 text-slate-900 dark:text-white"
+                                            />
+                                        </>
+                                    )}
+                                </div>
+                                <div>
+                                    <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                        Hora
+                                    </label>
+                                    <input
+                                        type="time"
+                                        value={formData.run_time}
+                                        onChange={(e) => setFormData({ ...formData, run_time: e.target.value })}
+                                        className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 text-slate-900 dark:text-white"
+                                    />
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                    Formato
+                                </label>
+                                <div className="flex gap-4">
+                                    {Object.entries(REPORT_FORMAT_LABELS).map(([value, label]) => (
+                                        <label key={value} className="flex items-center gap-2 cursor-pointer">
+                                            <input
+                                                type="radio"
+                                                name="report-format"
+                                                checked={formData.format === value}
+                                                onChange={() => setFormData({ ...formData, format: value as ReportScheduleInput['format'] })}
+                                                className="w-4 h-4 text-blue-600 focus:ring-blue-500"
+                                            />
+                                            <span className="text-sm text-slate-700 dark:text-slate-300">{label}</span>
+                                        </label>
+                                    ))}
+                                </div>
+                            </div>
+
+                            <div>
+                                <label className="block text-sm font-medium text-slate-700 dark:text-slate-300 mb-1">
+                                    Destinatarios
+                                </label>
+                                <textarea
+                                    value={recipientsText}
+                                    onChange={(e) => setRecipientsText(e.target.value)}
+                                    rows={2}
+                                    placeholder="correo@empresa.com, otro@empresa.com"
+                                    className="w-full px-3 py-2 bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-blue-500 text-slate-900 dark:text-white resize-none"
+                                ></textarea>
+                                <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">
+                                    Sin destinatarios el reporte solo se guarda en el archivo
+                                </p>
+                            </div>
+
+                            <label className="flex items-center gap-2 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={formData.is_active}
+                                    onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+                                    className="w-4 h-4 rounded border-slate-300 text-blue-600 focus:ring-blue-500"
+                                />
+                                <span className="text-sm text-slate-700 dark:text-slate-300">Programación activa</span>
+                            </label>
+                        </div>
+
+                        <div className="flex items-center justify-end gap-3 p-6 border-t border-slate-200 dark:border-slate-700">
+                            <button
+                                onClick={handleCloseModal}
+                                className="px-4 py-2 text-slate-700 dark:text-slate-300 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+                            >
+                                Cancelar
+                            </button>
+                            <button
+                                onClick={handleSave}
+                                disabled={saving}
+                                className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+                            >
+                                {saving ? (
+                                    <>
+                                        <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin"></div>
+                                        Guardando...
+                                    </>
+                                ) : (
+                                    <>
+                                        <Save className="w-4 h-4" />
+                                        Guardar
+                                    </>
+                                )}
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ReportsPanel;
@@ -20,11 +20,39 @@ import {
     Activity,
     AlertTriangle,
     Wrench,
-    Shield
+    Shield,
+    SlidersHorizontal,
+    ChevronsUp,
+    Timer,
+    Plug,
+    FileText
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
+import { Permission } from '../types';
 
-export type TabType = 'dashboard' | 'table' | 'map' | 'alerts' | 'history' | 'saved' | 'analytics' | 'inspections' | 'schedules' | 'drivers' | 'geofences' | 'users' | 'maintenance';
+export type TabType = 'dashboard' | 'table' | 'map' | 'alerts' | 'history' | 'saved' | 'analytics' | 'inspections' | 'schedules' | 'drivers' | 'geofences' | 'users' | 'maintenance' | 'alertRules' | 'escalation' | 'sla' | 'integrations' | 'reports';
+
+/** Permiso necesario para ver cada sección (menú y ProtectedRoute en App) */
+export const TAB_PERMISSIONS: Record<TabType, Permission> = {
+    dashboard: Permission.FLEET_VIEW,
+    table: Permission.FLEET_VIEW,
+    map: Permission.FLEET_VIEW,
+    alerts: Permission.ALERT_VIEW,
+    history: Permission.HISTORY_VIEW,
+    saved: Permission.SAVED_ALERTS_VIEW,
+    sla: Permission.HISTORY_VIEW,
+    drivers: Permission.MANAGEMENT_VIEW,
+    geofences: Permission.MANAGEMENT_VIEW,
+    inspections: Permission.MANAGEMENT_VIEW,
+    schedules: Permission.MANAGEMENT_VIEW,
+    maintenance: Permission.MANAGEMENT_VIEW,
+    reports: Permission.REPORT_VIEW,
+    users: Permission.USER_VIEW,
+    analytics: Permission.ANALYTICS_VIEW,
+    alertRules: Permission.CONFIG_EDIT,
+    escalation: Permission.CONFIG_EDIT,
+    integrations: Permission.CONFIG_EDIT,
+};
 
 interface SidebarProps {
     activeTab: TabType;
@@ -41,7 +69,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
     onClose,
     criticalAlertsCount
 }) => {
-    const { user, logout } = useAuth();
+    const { user, logout, can } = useAuth();
 
     // Estado para controlar qué grupos están expandidos
     const [expandedGroups, setExpandedGroups] = useState<string[]>(['monitoring', 'alerts', 'management', 'admin']);
@@ -66,6 +94,7 @@ export const Sidebar: React.FC<SidebarProps> = ({
                 { id: 'alerts', label: 'Centro de Alertas', icon: Bell, badge: criticalAlertsCount },
                 { id: 'history', label: 'Historial', icon: History },
                 { id: 'saved', label: 'Auto-Guardadas', icon: Database },
+                { id: 'sla', label: 'Cumplimiento SLA', icon: Timer },
             ]
         },
         {
@@ -78,22 +107,30 @@ export const Sidebar: React.FC<SidebarProps> = ({
                 { id: 'inspections', label: 'Inspecciones', icon: ClipboardCheck },
                 { id: 'schedules', label: 'Cronogramas', icon: Calendar },
                 { id: 'maintenance', label: 'Mantenimiento', icon: Settings },
+                { id: 'reports', label: 'Reportes', icon: FileText },
+            ]
+        },
+        {
+            id: 'admin',
+            label: 'Administración',
+            icon: Shield,
+            items: [
+                { id: 'users', label: 'Usuarios', icon: UserIcon },
+                { id: 'analytics', label: 'Análisis', icon: BarChart3 },
+                { id: 'alertRules', label: 'Reglas de Alertas', icon: SlidersHorizontal },
+                { id: 'escalation', label: 'Escalamiento', icon: ChevronsUp },
+                { id: 'integrations', label: 'Integraciones', icon: Plug },
             ]
         },
     ];
 
-    // Grupo de administración (solo para admins)
-    const adminGroup = user?.role === 'admin' ? {
-        id: 'admin',
-        label: 'Administración',
-        icon: Shield,
-        items: [
-            { id: 'users', label: 'Usuarios', icon: UserIcon },
-            { id: 'analytics', label: 'Análisis', icon: BarChart3 },
-        ]
-    } : null;
-
-    const allGroups = adminGroup ? [...menuGroups, adminGroup] : menuGroups;
+    // Solo las secciones que permite el rol; los grupos vacíos no se muestran
+    const allGroups = menuGroups
+        .map(group => ({
+            ...group,
+            items: group.items.filter(item => can(TAB_PERMISSIONS[item.id as TabType]))
+        }))
+        .filter(group => group.items.length > 0);
 
     const handleTabClick = (id: string) => {
         setActiveTab(id as TabType);
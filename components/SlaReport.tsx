@@ -0,0 +1,480 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Timer, FileDown, Calendar, Settings, X, Save, CheckCircle, AlertCircle, Trash2 } from 'lucide-react';
+import { Vehicle, Permission } from '../types';
+import { useAuth } from '../contexts/AuthContext';
+import { useExportToExcel } from '../hooks/useExportToExcel';
+import {
+  getSlaReport,
+  slaTargetService,
+  SlaReport as SlaReportData,
+  SlaGroupStats,
+  SlaTarget,
+  DEFAULT_SLA_TARGETS,
+  SLA_SEVERITIES
+} from '../services/slaService';
+
+interface SlaReportProps {
+  vehicles: Vehicle[];
+}
+
+type GroupBy = 'contract' | 'operator' | 'severity';
+
+type TargetForm = Record<string, { ack_minutes: number; resolve_minutes: number }>;
+
+const SEVERITY_LABELS: Record<string, string> = {
+  critical: 'Crítica',
+  high: 'Alta',
+  medium: 'Media',
+  low: 'Baja'
+};
+
+const GROUP_LABELS: Record<GroupBy, string> = {
+  contract: 'Contrato',
+  operator: 'Operador',
+  severity: 'Severidad'
+};
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const formatMinutes = (minutes: number | null): string => {
+  if (minutes === null) return '-';
+  if (minutes < 60) return `${minutes} min`;
+  if (minutes < 1440) return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+  return `${Math.floor(minutes / 1440)} d ${Math.floor((minutes % 1440) / 60)} h`;
+};
+
+const formatPercent = (value: number | null): string => value === null ? '-' : `${value}%`;
+
+const complianceColor = (value: number | null): string => {
+  if (value === null) return 'text-slate-400';
+  if (value >= 95) return 'text-green-600';
+  if (value >= 80) return 'text-yellow-600';
+  return 'text-red-600';
+};
+
+export const SlaReport: React.FC<SlaReportProps> = ({ vehicles }) => {
+  const { can } = useAuth();
+  const { exportToExcel } = useExportToExcel();
+  const canEditTargets = can(Permission.CONFIG_EDIT);
+
+  const [report, setReport] = useState<SlaReportData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [groupBy, setGroupBy] = useState<GroupBy>('contract');
+  const [startDate, setStartDate] = useState(toDateInput(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)));
+  const [endDate, setEndDate] = useState(toDateInput(new Date()));
+  const [contract, setContract] = useState('');
+
+  // Metas
+  const [showTargets, setShowTargets] = useState(false);
+  const [targets, setTargets] = useState<SlaTarget[]>([]);
+  const [targetContract, setTargetContract] = useState('');
+  const [targetForm, setTargetForm] = useState<TargetForm>({});
+  const [savingTargets, setSavingTargets] = useState(false);
+  const [targetMessage, setTargetMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const contracts = useMemo(
+    () => Array.from(new Set(vehicles.map(v => v.contract).filter(Boolean) as string[])).sort(),
+    [vehicles]
+  );
+
+  useEffect(() => {
+    loadReport();
+  }, [startDate, endDate, contract]);
+
+  const loadReport = async () => {
+    setLoading(true);
+    setError('');
+
+    const end = endDate ? new Date(endDate) : null;
+    end?.setHours(23, 59, 59, 999);
+
+    const result = await getSlaReport({
+      startDate: startDate ? new Date(startDate).toISOString() : undefined,
+      endDate: end ? end.toISOString() : undefined,
+      contract: contract || undefined
+    });
+
+    if (result.success && result.data) {
+      setReport(result.data.report);
+    } else {
+      setError(result.error || 'Error al generar el reporte');
+    }
+    setLoading(false);
+  };
+
+  const rows: SlaGroupStats[] = report
+    ? groupBy === 'contract' ? report.byContract : groupBy === 'operator' ? report.byOperator : report.bySeverity
+    : [];
+
+  const handleExport = () => {
+    exportToExcel(
+      rows.map(row => ({
+        ...row,
+        key: groupBy === 'severity' ? SEVERITY_LABELS[row.key] || row.key : row.key,
+        avgAckMinutes: row.avgAckMinutes ?? '',
+        avgResolveMinutes: row.avgResolveMinutes ?? '',
+        ackCompliance: row.ackCompliance ?? '',
+        resolutionCompliance: row.resolutionCompliance ?? ''
+      })),
+      [
+        { header: GROUP_LABELS[groupBy], key: 'key', width: 25 },
+        { header: 'Alertas', key: 'total', width: 10 },
+        { header: 'Confirmadas', key: 'acknowledged', width: 12 },
+        { header: 'Conf. a tiempo', key: 'ackWithinSla', width: 14 },
+        { header: 'Conf. fuera de SLA', key: 'ackBreached', width: 16 },
+        { header: '% Cumplimiento Confirmación', key: 'ackCompliance', width: 16 },
+        { header: 'Prom. Confirmación (min)', key: 'avgAckMinutes', width: 16 },
+        { header: 'Resueltas', key: 'resolved', width: 12 },
+        { header: 'Res. a tiempo', key: 'resolvedWithinSla', width: 14 },
+        { header: 'Res. fuera de SLA', key: 'resolutionBreached', width: 16 },
+        { header: '% Cumplimiento Resolución', key: 'resolutionCompliance', width: 16 },
+        { header: 'Prom. Resolución (min)', key: 'avgResolveMinutes', width: 16 },
+        { header: 'Planes de Acción', key: 'actionPlans', width: 12 },
+        { header: 'Planes Completados', key: 'actionPlansCompleted', width: 14 },
+      ],
+      `SLA_Alertas_${GROUP_LABELS[groupBy]}_${startDate}_${endDate}`
+    );
+  };
+
+  // ==================== TARGETS ====================
+
+  const fillTargetForm = (all: SlaTarget[], forContract: string) => {
+    const form: TargetForm = {};
+    SLA_SEVERITIES.forEach(severity => {
+      const match =
+        (forContract && all.find(t => t.contract === forContract && t.severity === severity)) ||
+        all.find(t => !t.contract && t.severity === severity);
+      form[severity] = match
+        ? { ack_minutes: match.ack_minutes, resolve_minutes: match.resolve_minutes }
+        : { ...DEFAULT_SLA_TARGETS[severity] };
+    });
+    setTargetForm(form);
+  };
+
+  const openTargets = async () => {
+    setShowTargets(true);
+    setTargetMessage(null);
+    setTargetContract('');
+    const result = await slaTargetService.getAll();
+    const all = result.success && result.data ? result.data : [];
+    setTargets(all);
+    fillTargetForm(all, '');
+  };
+
+  const handleTargetContractChange = (value: string) => {
+    setTargetContract(value);
+    setTargetMessage(null);
+    fillTargetForm(targets, value);
+  };
+
+  const updateTarget = (severity: string, field: 'ack_minutes' | 'resolve_minutes', value: string) => {
+    setTargetForm({
+      ...targetForm,
+      [severity]: { ...targetForm[severity], [field]: parseInt(value, 10) || 0 }
+    });
+  };
+
+  const handleSaveTargets = async () => {
+    const invalid = SLA_SEVERITIES.some(severity => {
+      const target = targetForm[severity];
+      return !target || target.ack_minutes <= 0 || target.resolve_minutes < target.ack_minutes;
+    });
+
+    if (invalid) {
+      setTargetMessage({ type: 'error', text: 'Los minutos deben ser mayores a 0 y la resolución no puede ser menor que la confirmación' });
+      return;
+    }
+
+    setSavingTargets(true);
+    const result = await slaTargetService.saveForContract(
+      targetContract || null,
+      SLA_SEVERITIES.map(severity => ({ severity, ...targetForm[severity] }))
+    );
+    setSavingTargets(false);
+
+    if (result.success) {
+      const refreshed = await slaTargetService.getAll();
+      if (refreshed.success && refreshed.data) setTargets(refreshed.data);
+      setTargetMessage({ type: 'success', text: 'Metas guardadas. Aplican a las alertas que se guarden desde ahora.' });
+    } else {
+      setTargetMessage({ type: 'error', text: result.error || 'Error al guardar' });
+    }
+  };
+
+  const handleDeleteContractTargets = async () => {
+    if (!targetContract) return;
+    if (!confirm(`¿Eliminar las metas propias de ${targetContract}? Se usarán las metas globales.`)) return;
+
+    const result = await slaTargetService.deleteForContract(targetContract);
+    if (result.success) {
+      const refreshed = await slaTargetService.getAll();
+      const all = refreshed.success && refreshed.data ? refreshed.data : [];
+      setTargets(all);
+      fillTargetForm(all, targetContract);
+      setTargetMessage({ type: 'success', text: 'Metas del contrato eliminadas' });
+    }
+  };
+
+  const contractHasOwnTargets = !!targetContract && targets.some(t => t.contract === targetContract);
+
+  const totals = report?.totals;
+
+  return (
+    <div className="space-y-4">
+      {/* Filtros */}
+      <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+        <div className="flex flex-wrap gap-4 items-center">
+          <div className="flex items-center gap-2">
+            <Calendar className="w-4 h-4 text-slate-400" />
+            <input
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-sky-500"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Calendar className="w-4 h-4 text-slate-400" />
+            <input
+              type="date"
+              value={endDate}
+              onChange={(e) => setEndDate(e.target.value)}
+              className="px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-sky-500"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="text-sm font-semibold text-slate-600">Contrato:</label>
+            <select
+              value={contract}
+              onChange={(e) => setContract(e.target.value)}
+              className="px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-sky-500"
+            >
+              <option value="">Todos</option>
+              {contracts.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </div>
+
+          <div className="ml-auto flex items-center gap-2">
+            {canEditTargets && (
+              <button
+                onClick={openTargets}
+                className="flex items-center gap-2 px-4 py-2 bg-slate-100 text-slate-700 rounded-lg hover:bg-slate-200 border border-slate-200 transition-colors text-sm font-medium"
+              >
+                <Settings className="w-4 h-4" />
+                Metas SLA
+              </button>
+            )}
+            <button
+              onClick={handleExport}
+              className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm font-medium"
+              title="Exportar a Excel"
+            >
+              <FileDown className="w-4 h-4" />
+              Excel
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+      )}
+
+      {/* Resumen */}
+      {totals && (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+          <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+            <p className="text-xs font-semibold text-slate-500 uppercase">Alertas</p>
+            <p className="text-2xl font-bold text-slate-900 mt-1">{totals.total}</p>
+          </div>
+          <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+            <p className="text-xs font-semibold text-slate-500 uppercase">Cumpl. Confirmación</p>
+            <p className={`text-2xl font-bold mt-1 ${complianceColor(totals.ackCompliance)}`}>{formatPercent(totals.ackCompliance)}</p>
+            <p className="text-xs text-slate-500">{totals.ackBreached} fuera de SLA</p>
+          </div>
+          <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+            <p className="text-xs font-semibold text-slate-500 uppercase">Cumpl. Resolución</p>
+            <p className={`text-2xl font-bold mt-1 ${complianceColor(totals.resolutionCompliance)}`}>{formatPercent(totals.resolutionCompliance)}</p>
+            <p className="text-xs text-slate-500">{totals.resolutionBreached} fuera de SLA</p>
+          </div>
+          <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+            <p className="text-xs font-semibold text-slate-500 uppercase">Prom. Confirmación</p>
+            <p className="text-2xl font-bold text-slate-900 mt-1">{formatMinutes(totals.avgAckMinutes)}</p>
+          </div>
+          <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+            <p className="text-xs font-semibold text-slate-500 uppercase">Prom. Resolución</p>
+            <p className="text-2xl font-bold text-slate-900 mt-1">{formatMinutes(totals.avgResolveMinutes)}</p>
+          </div>
+          <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+            <p className="text-xs font-semibold text-slate-500 uppercase">Planes de Acción</p>
+            <p className="text-2xl font-bold text-slate-900 mt-1">{totals.actionPlansCompleted}/{totals.actionPlans}</p>
+            <p className="text-xs text-slate-500">completados</p>
+          </div>
+        </div>
+      )}
+
+      {/* Tabla por grupo */}
+      <div className="overflow-x-auto rounded-xl border border-slate-200 shadow-sm bg-white">
+        <div className="flex items-center gap-2 p-3 border-b border-slate-200">
+          <Timer className="w-4 h-4 text-slate-500" />
+          <span className="text-sm font-semibold text-slate-700 mr-2">Cumplimiento por</span>
+          {(Object.keys(GROUP_LABELS) as GroupBy[]).map(key => (
+            <button
+              key={key}
+              onClick={() => setGroupBy(key)}
+              className={`px-3 py-1 rounded-lg text-xs font-semibold transition-colors ${groupBy === key ? 'bg-sky-600 text-white' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+            >
+              {GROUP_LABELS[key]}
+            </button>
+          ))}
+        </div>
+
+        {loading ? (
+          <div className="text-center py-12 text-slate-600">Generando reporte...</div>
+        ) : rows.length === 0 ? (
+          <div className="text-center py-12 text-slate-500">No hay alertas en seguimiento para el periodo</div>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="bg-gradient-to-r from-slate-700 to-slate-600 text-white">
+              <tr>
+                <th className="px-4 py-3 text-left text-xs font-bold uppercase tracking-wider">{GROUP_LABELS[groupBy]}</th>
+                <th className="px-4 py-3 text-center text-xs font-bold uppercase tracking-wider">Alertas</th>
+                <th className="px-4 py-3 text-center text-xs font-bold uppercase tracking-wider">Confirmación</th>
+                <th className="px-4 py-3 text-center text-xs font-bold uppercase tracking-wider">Prom. Conf.</th>
+                <th className="px-4 py-3 text-center text-xs font-bold uppercase tracking-wider">Resolución</th>
+                <th className="px-4 py-3 text-center text-xs font-bold uppercase tracking-wider">Prom. Res.</th>
+                <th className="px-4 py-3 text-center text-xs font-bold uppercase tracking-wider">Planes</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {rows.map((row, index) => (
+                <tr key={row.key} className={index % 2 === 0 ? 'bg-white' : 'bg-slate-50'}>
+                  <td className="px-4 py-3 font-semibold text-slate-900">
+                    {groupBy === 'severity' ? SEVERITY_LABELS[row.key] || row.key : row.key}
+                  </td>
+                  <td className="px-4 py-3 text-center text-slate-700">{row.total}</td>
+                  <td className="px-4 py-3 text-center">
+                    <span className={`font-bold ${complianceColor(row.ackCompliance)}`}>{formatPercent(row.ackCompliance)}</span>
+                    <div className="text-xs text-slate-500">{row.ackWithinSla} a tiempo · {row.ackBreached} fuera</div>
+                  </td>
+                  <td className="px-4 py-3 text-center text-slate-700">{formatMinutes(row.avgAckMinutes)}</td>
+                  <td className="px-4 py-3 text-center">
+                    <span className={`font-bold ${complianceColor(row.resolutionCompliance)}`}>{formatPercent(row.resolutionCompliance)}</span>
+                    <div className="text-xs text-slate-500">{row.resolvedWithinSla} a tiempo · {row.resolutionBreached} fuera</div>
+                  </td>
+                  <td className="px-4 py-3 text-center text-slate-700">{formatMinutes(row.avgResolveMinutes)}</td>
+                  <td className="px-4 py-3 text-center text-slate-700">{row.actionPlansCompleted}/{row.actionPlans}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <p className="text-xs text-slate-500">
+        Tiempos contados desde la hora del evento. El cumplimiento considera solo alertas confirmadas/resueltas
+        o ya vencidas; las abiertas que aún están dentro de su meta no cuentan.
+      </p>
+
+      {/* Modal de Metas */}
+      {showTargets && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-slate-200 flex items-center justify-between">
+              <div>
+                <h3 className="text-xl font-bold text-slate-900">Metas de SLA</h3>
+                <p className="text-sm text-slate-600 mt-1">Minutos desde el evento, por severidad</p>
+              </div>
+              <button
+                onClick={() => setShowTargets(false)}
+                className="p-2 hover:bg-slate-100 rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="p-6 space-y-4">
+              {targetMessage && (
+                <div className={`p-3 rounded-lg flex items-center gap-2 text-sm border ${targetMessage.type === 'success' ? 'bg-green-50 border-green-200 text-green-700' : 'bg-red-50 border-red-200 text-red-700'}`}>
+                  {targetMessage.type === 'success' ? <CheckCircle className="w-4 h-4" /> : <AlertCircle className="w-4 h-4" />}
+                  {targetMessage.text}
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-semibold text-slate-700 mb-2">Aplica a</label>
+                <select
+                  value={targetContract}
+                  onChange={(e) => handleTargetContractChange(e.target.value)}
+                  className="w-full px-3 py-2 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-sky-500"
+                >
+                  <option value="">Todos los contratos (global)</option>
+                  {contracts.map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+                {targetContract && !contractHasOwnTargets && (
+                  <p className="text-xs text-slate-500 mt-1">El contrato usa las metas globales; al guardar tendrá metas propias.</p>
+                )}
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-slate-500 uppercase">
+                    <th className="text-left py-2">Severidad</th>
+                    <th className="text-left py-2">Confirmación</th>
+                    <th className="text-left py-2">Resolución</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {SLA_SEVERITIES.map(severity => (
+                    <tr key={severity}>
+                      <td className="py-2 font-semibold text-slate-700">{SEVERITY_LABELS[severity]}</td>
+                      <td className="py-2 pr-2">
+                        <input
+                          type="number"
+                          min="1"
+                          value={targetForm[severity]?.ack_minutes ?? ''}
+                          onChange={(e) => updateTarget(severity, 'ack_minutes', e.target.value)}
+                          className="w-24 px-2 py-1 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-sky-500"
+                        />
+                      </td>
+                      <td className="py-2">
+                        <input
+                          type="number"
+                          min="1"
+                          value={targetForm[severity]?.resolve_minutes ?? ''}
+                          onChange={(e) => updateTarget(severity, 'resolve_minutes', e.target.value)}
+                          className="w-24 px-2 py-1 border border-slate-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-sky-500"
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <div className="flex gap-3 pt-2">
+                <button
+                  onClick={handleSaveTargets}
+                  disabled={savingTargets}
+                  className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-sky-600 text-white rounded-lg font-medium hover:bg-sky-700 transition-colors disabled:opacity-50"
+                >
+                  <Save className="w-4 h-4" />
+                  {savingTargets ? 'Guardando...' : 'Guardar Metas'}
+                </button>
+                {contractHasOwnTargets && (
+                  <button
+                    onClick={handleDeleteContractTargets}
+                    className="flex items-center gap-2 px-4 py-2 bg-slate-100 text-slate-700 rounded-lg font-medium hover:bg-red-50 hover:text-red-700 transition-colors"
+                    title="Volver a las metas globales"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,356 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { MapContainer, TileLayer, Marker, Popup, Polyline, CircleMarker, useMap } from 'react-leaflet';
+import { Icon, LatLngBounds } from 'leaflet';
+import { Play, Pause, Search, AlertCircle, Gauge, Clock, MapPin } from 'lucide-react';
+import { Vehicle } from '../types';
+import { getPositionHistory, VehiclePosition } from '../services/positionHistoryService';
+import { getFilteredAutoSavedAlerts, SavedAlert } from '../services/databaseService';
+
+const currentPositionIcon = new Icon({
+  iconUrl: 'https://raw.githubusercontent.com/pointhi/leaflet-color-markers/master/img/marker-icon-2x-violet.png',
+  shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/0.7.7/images/marker-shadow.png',
+  iconSize: [25, 41],
+  iconAnchor: [12, 41],
+  popupAnchor: [1, -34],
+  shadowSize: [41, 41]
+});
+
+// Rangos de velocidad para colorear el recorrido (km/h)
+const SPEED_BANDS = [
+  { max: 5, color: '#94a3b8', label: 'Detenido' },
+  { max: 40, color: '#22c55e', label: '< 40' },
+  { max: 60, color: '#eab308', label: '40 - 60' },
+  { max: 80, color: '#f97316', label: '60 - 80' },
+  { max: Infinity, color: '#dc2626', label: '≥ 80' },
+];
+
+const PLAYBACK_SPEEDS = [1, 2, 5, 10];
+
+const SEVERITY_COLORS: Record<string, string> = {
+  critical: '#dc2626',
+  high: '#f97316',
+  medium: '#eab308',
+  low: '#3b82f6',
+};
+
+const getSpeedColor = (speed: number): string =>
+  SPEED_BANDS.find(band => speed < band.max)?.color || SPEED_BANDS[SPEED_BANDS.length - 1].color;
+
+// Formato requerido por <input type="datetime-local">
+const toLocalInputValue = (date: Date): string => {
+  const offsetMs = date.getTimezoneOffset() * 60 * 1000;
+  return new Date(date.getTime() - offsetMs).toISOString().slice(0, 16);
+};
+
+/**
+ * Agrupa puntos consecutivos con el mismo color de velocidad en un solo segmento
+ */
+const buildSpeedSegments = (positions: VehiclePosition[]): { color: string; points: [number, number][] }[] => {
+  const segments: { color: string; points: [number, number][] }[] = [];
+
+  for (let i = 1; i < positions.length; i++) {
+    const from = positions[i - 1];
+    const to = positions[i];
+    const color = getSpeedColor(to.speed);
+    const last = segments[segments.length - 1];
+
+    if (last && last.color === color) {
+      last.points.push([to.latitude, to.longitude]);
+    } else {
+      segments.push({ color, points: [[from.latitude, from.longitude], [to.latitude, to.longitude]] });
+    }
+  }
+
+  return segments;
+};
+
+/**
+ * Índice del punto del recorrido más cercano en el tiempo a un instante
+ */
+const findClosestIndex = (positions: VehiclePosition[], timestamp: string): number => {
+  const target = new Date(timestamp).getTime();
+  let closest = 0;
+  let minDiff = Infinity;
+
+  positions.forEach((position, index) => {
+    const diff = Math.abs(new Date(position.recorded_at).getTime() - target);
+    if (diff < minDiff) {
+      minDiff = diff;
+      closest = index;
+    }
+  });
+
+  return closest;
+};
+
+const FitToTrack: React.FC<{ positions: VehiclePosition[] }> = ({ positions }) => {
+  const map = useMap();
+
+  useEffect(() => {
+    if (positions.length === 0) return;
+    const bounds = new LatLngBounds(positions.map(p => [p.latitude, p.longitude] as [number, number]));
+    map.fitBounds(bounds, { padding: [30, 30] });
+  }, [positions, map]);
+
+  return null;
+};
+
+interface TrackPlaybackProps {
+  vehicles: Vehicle[];
+}
+
+export const TrackPlayback: React.FC<TrackPlaybackProps> = ({ vehicles }) => {
+  const [plate, setPlate] = useState(vehicles[0]?.plate || '');
+  const [startDate, setStartDate] = useState(() => toLocalInputValue(new Date(Date.now() - 24 * 60 * 60 * 1000)));
+  const [endDate, setEndDate] = useState(() => toLocalInputValue(new Date()));
+  const [positions, setPositions] = useState<VehiclePosition[]>([]);
+  const [events, setEvents] = useState<SavedAlert[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState('');
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [playbackSpeed, setPlaybackSpeed] = useState(1);
+
+  const plates = useMemo(() => Array.from(new Set(vehicles.map(v => v.plate))).sort(), [vehicles]);
+  const segments = useMemo(() => buildSpeedSegments(positions), [positions]);
+  const eventIndexes = useMemo(
+    () => positions.length === 0
+      ? []
+      : events.map(event => ({ event, index: findClosestIndex(positions, event.timestamp) })),
+    [events, positions]
+  );
+
+  // Avanzar la reproducción
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const interval = setInterval(() => {
+      setCurrentIndex(prev => {
+        if (prev >= positions.length - 1) {
+          setIsPlaying(false);
+          return prev;
+        }
+        return prev + 1;
+      });
+    }, 1000 / playbackSpeed);
+
+    return () => clearInterval(interval);
+  }, [isPlaying, playbackSpeed, positions.length]);
+
+  const loadTrack = async () => {
+    if (!plate) {
+      setError('Selecciona un vehículo');
+      return;
+    }
+
+    setLoading(true);
+    setError('');
+    setIsPlaying(false);
+
+    const start = new Date(startDate).toISOString();
+    const end = new Date(endDate).toISOString();
+
+    const [historyResult, alertsResult] = await Promise.all([
+      getPositionHistory(plate, start, end),
+      getFilteredAutoSavedAlerts({ plate, startDate: start, endDate: end })
+    ]);
+
+    if (!historyResult.success) {
+      setError(historyResult.error || 'Error al cargar el recorrido');
+      setPositions([]);
+    } else {
+      setPositions(historyResult.data || []);
+      if ((historyResult.data || []).length === 0) {
+        setError('No hay posiciones registradas para este vehículo en el rango seleccionado');
+      }
+    }
+
+    setEvents(alertsResult.success ? alertsResult.data || [] : []);
+    setCurrentIndex(0);
+    setLoading(false);
+  };
+
+  const current = positions[currentIndex];
+
+  return (
+    <div className="h-full w-full flex flex-col">
+      {/* Controles de búsqueda */}
+      <div className="flex flex-wrap items-end gap-3 p-3 border-b border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800">
+        <div>
+          <label className="block text-xs font-semibold text-slate-500 mb-1">Vehículo</label>
+          <select
+            value={plate}
+            onChange={(e) => setPlate(e.target.value)}
+            className="px-3 py-2 text-sm border border-slate-200 dark:border-slate-600 rounded-lg bg-slate-50 dark:bg-slate-700 text-slate-900 dark:text-white"
+          >
+            {plates.map(p => (
+              <option key={p} value={p}>{p}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs font-semibold text-slate-500 mb-1">Desde</label>
+          <input
+            type="datetime-local"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+            className="px-3 py-2 text-sm border border-slate-200 dark:border-slate-600 rounded-lg bg-slate-50 dark:bg-slate-700 text-slate-900 dark:text-white"
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-semibold text-slate-500 mb-1">Hasta</label>
+          <input
+            type="datetime-local"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+            className="px-3 py-2 text-sm border border-slate-200 dark:border-slate-600 rounded-lg bg-slate-50 dark:bg-slate-700 text-slate-900 dark:text-white"
+          />
+        </div>
+        <button
+          onClick={loadTrack}
+          disabled={loading}
+          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium disabled:opacity-50"
+        >
+          <Search className="w-4 h-4" />
+          {loading ? 'Cargando...' : 'Ver recorrido'}
+        </button>
+
+        {/* Leyenda de velocidad */}
+        <div className="flex items-center gap-3 ml-auto text-xs text-slate-600 dark:text-slate-300">
+          {SPEED_BANDS.map(band => (
+            <span key={band.label} className="flex items-center gap-1">
+              <span className="inline-block w-4 h-1.5 rounded" style={{ backgroundColor: band.color }}></span>
+              {band.label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 px-3 py-2 text-sm text-amber-800 bg-amber-50 dark:bg-amber-900/20 dark:text-amber-300 border-b border-amber-200 dark:border-amber-800">
+          <AlertCircle className="w-4 h-4" />
+          {error}
+        </div>
+      )}
+
+      {/* Mapa */}
+      <div className="flex-1 min-h-[350px] relative z-0">
+        <MapContainer center={[4.5709, -74.2973]} zoom={6} scrollWheelZoom={true} className="h-full w-full">
+          <TileLayer
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+          />
+          <FitToTrack positions={positions} />
+
+          {segments.map((segment, index) => (
+            <Polyline key={index} positions={segment.points} pathOptions={{ color: segment.color, weight: 5, opacity: 0.85 }} />
+          ))}
+
+          {eventIndexes.map(({ event, index }) => (
+            <CircleMarker
+              key={event.id}
+              center={[positions[index].latitude, positions[index].longitude]}
+              radius={8}
+              pathOptions={{ color: '#ffffff', weight: 2, fillColor: SEVERITY_COLORS[event.severity] || '#64748b', fillOpacity: 1 }}
+              eventHandlers={{ click: () => setCurrentIndex(index) }}
+            >
+              <Popup>
+                <div className="text-sm">
+                  <p className="font-bold text-slate-800">{event.type}</p>
+                  <p className="text-slate-600">{new Date(event.timestamp).toLocaleString('es-CO')}</p>
+                  <p className="text-slate-600">{event.details}</p>
+                </div>
+              </Popup>
+            </CircleMarker>
+          ))}
+
+          {current && (
+            <Marker position={[current.latitude, current.longitude]} icon={currentPositionIcon}>
+              <Popup>
+                <div className="text-sm space-y-1">
+                  <p className="font-bold text-slate-800">{current.plate}</p>
+                  <p className="text-slate-600">{current.driver}</p>
+                  <p className="text-slate-600">{current.speed} km/h · {current.status}</p>
+                  <p className="text-slate-600">{new Date(current.recorded_at).toLocaleString('es-CO')}</p>
+                </div>
+              </Popup>
+            </Marker>
+          )}
+        </MapContainer>
+      </div>
+
+      {/* Línea de tiempo */}
+      {positions.length > 0 && current && (
+        <div className="p-3 border-t border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 space-y-2">
+          <div className="flex flex-wrap items-center gap-4 text-sm text-slate-700 dark:text-slate-200">
+            <button
+              onClick={() => {
+                if (currentIndex >= positions.length - 1) setCurrentIndex(0);
+                setIsPlaying(!isPlaying);
+              }}
+              className="p-2 rounded-full bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+              title={isPlaying ? 'Pausar' : 'Reproducir'}
+            >
+              {isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+            </button>
+            <div className="flex gap-1">
+              {PLAYBACK_SPEEDS.map(speed => (
+                <button
+                  key={speed}
+                  onClick={() => setPlaybackSpeed(speed)}
+                  className={`px-2 py-1 text-xs rounded ${playbackSpeed === speed ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300 font-semibold' : 'text-slate-500 hover:bg-slate-100 dark:hover:bg-slate-700'}`}
+                >
+                  {speed}x
+                </button>
+              ))}
+            </div>
+            <span className="flex items-center gap-1">
+              <Clock className="w-4 h-4 text-slate-400" />
+              {new Date(current.recorded_at).toLocaleString('es-CO')}
+            </span>
+            <span className="flex items-center gap-1">
+              <Gauge className="w-4 h-4 text-slate-400" />
+              <span style={{ color: getSpeedColor(current.speed) }} className="font-semibold">{current.speed} km/h</span>
+            </span>
+            <span className="flex items-center gap-1 truncate">
+              <MapPin className="w-4 h-4 text-slate-400" />
+              {current.location}
+            </span>
+            <span className="ml-auto text-xs text-slate-500">
+              Punto {currentIndex + 1} de {positions.length} · {events.length} eventos
+            </span>
+          </div>
+
+          <div className="relative">
+            <input
+              type="range"
+              min={0}
+              max={positions.length - 1}
+              value={currentIndex}
+              onChange={(e) => {
+                setIsPlaying(false);
+                setCurrentIndex(Number(e.target.value));
+              }}
+              className="w-full accent-blue-600"
+            />
+            {/* Marcas de eventos sobre la línea de tiempo */}
+            <div className="relative h-2">
+              {eventIndexes.map(({ event, index }) => (
+                <button
+                  key={event.id}
+                  onClick={() => setCurrentIndex(index)}
+                  title={`${event.type} - ${new Date(event.timestamp).toLocaleTimeString('es-CO')}`}
+                  className="absolute top-0 w-2 h-2 rounded-full -translate-x-1/2"
+                  style={{
+                    left: `${positions.length > 1 ? (index / (positions.length - 1)) * 100 : 0}%`,
+                    backgroundColor: SEVERITY_COLORS[event.severity] || '#64748b'
+                  }}
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,8 +1,36 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { useAuth, User as AuthUser } from '../contexts/AuthContext';
 import { userService } from '../services/userService';
+import {
+  roleService,
+  findRole,
+  buildRlsPoliciesSql,
+  PERMISSION_GROUPS,
+  DEFAULT_ROLE,
+  resolveRolePermissions,
+  RoleDefinition,
+  RoleKey
+} from '../services/roleService';
+import { Permission, Vehicle } from '../types';
 
-type UserRole = 'admin' | 'operator' | 'viewer';
+type UserRole = RoleKey;
+
+// Colores de los roles del sistema; los personalizados usan el último
+const ROLE_BADGE_STYLES: Record<string, string> = {
+  admin: 'bg-purple-600 text-white',
+  supervisor: 'bg-indigo-600 text-white',
+  operator: 'bg-blue-600 text-white',
+  viewer: 'bg-gray-600 text-white',
+  client_viewer: 'bg-teal-600 text-white',
+  custom: 'bg-emerald-700 text-white',
+};
+
+const emptyRoleForm = {
+  key: '',
+  name: '',
+  description: '',
+  permissions: [] as Permission[],
+};
 
 // Extend User type for management purposes
 interface User extends AuthUser {
@@ -11,8 +39,22 @@ interface User extends AuthUser {
   last_login?: string; // Alias for lastLogin
 }
 
-export const UserManagement: React.FC = () => {
-  const { user: currentUser } = useAuth();
+const emptyUserForm = {
+  email: '',
+  full_name: '',
+  role: DEFAULT_ROLE as UserRole,
+  contracts: [] as string[],
+  password: '',
+  confirmPassword: ''
+};
+
+interface UserManagementProps {
+  /** Flota actual, para sugerir contratos al asignarlos */
+  vehicles?: Vehicle[];
+}
+
+export const UserManagement: React.FC<UserManagementProps> = ({ vehicles = [] }) => {
+  const { user: currentUser, can, roles, refreshRoles } = useAuth();
 
   const [users, setUsers] = useState<User[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -26,16 +68,24 @@ export const UserManagement: React.FC = () => {
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
 
   // Form states
-  const [formData, setFormData] = useState({
-    email: '',
-    full_name: '',
-    role: 'viewer' as UserRole,
-    password: '',
-    confirmPassword: ''
-  });
+  const [formData, setFormData] = useState(emptyUserForm);
+  const [contractInput, setContractInput] = useState('');
   const [formError, setFormError] = useState('');
   const [formLoading, setFormLoading] = useState(false);
 
+  // Roles
+  const [showRoleModal, setShowRoleModal] = useState(false);
+  const [editingRole, setEditingRole] = useState<RoleDefinition | null>(null);
+  const [roleForm, setRoleForm] = useState(emptyRoleForm);
+  const [roleError, setRoleError] = useState('');
+  const [showPoliciesSql, setShowPoliciesSql] = useState(false);
+  const [sqlCopied, setSqlCopied] = useState(false);
+
+  const contractOptions = useMemo(
+    () => Array.from(new Set(vehicles.map(v => v.contract).filter(c => c && c !== 'No asignado') as string[])).sort(),
+    [vehicles]
+  );
+
   // Cargar usuarios al montar
   useEffect(() => {
     loadUsers();
@@ -88,6 +138,11 @@ export const UserManagement: React.FC = () => {
         return;
       }
 
+      if (!roleSeesAllContracts(formData.role) && formData.contracts.length === 0) {
+        setFormError('Asigna al menos un contrato: este rol solo ve sus contratos');
+        return;
+      }
+
       setFormLoading(true);
 
       const result = await userService.createUser(
@@ -95,7 +150,8 @@ export const UserManagement: React.FC = () => {
           email: formData.email,
           full_name: formData.full_name,
           role: formData.role,
-          password: formData.password
+          password: formData.password,
+          contracts: formData.contracts
         },
         currentUser!.id
       );
@@ -120,6 +176,12 @@ export const UserManagement: React.FC = () => {
 
     try {
       setFormError('');
+
+      if (!roleSeesAllContracts(formData.role) && formData.contracts.length === 0) {
+        setFormError('Asigna al menos un contrato: este rol solo ve sus contratos');
+        return;
+      }
+
       setFormLoading(true);
 
       const result = await userService.updateUser(
@@ -128,6 +190,7 @@ export const UserManagement: React.FC = () => {
           email: formData.email,
           full_name: formData.full_name,
           role: formData.role,
+          contracts: formData.contracts,
         },
         currentUser!.id
       );
@@ -207,49 +270,169 @@ export const UserManagement: React.FC = () => {
   const openEditModal = (user: User) => {
     setSelectedUser(user);
     setFormData({
+      ...emptyUserForm,
       email: user.email,
       full_name: user.full_name,
       role: user.role,
-      password: '',
-      confirmPassword: ''
+      contracts: user.contracts || []
     });
+    setContractInput('');
     setShowEditModal(true);
   };
 
   // Abrir modal de resetear contraseña
   const openResetPasswordModal = (user: User) => {
     setSelectedUser(user);
-    setFormData({
-      email: '',
-      full_name: '',
-      role: 'viewer',
-      password: '',
-      confirmPassword: ''
-    });
+    setFormData(emptyUserForm);
     setShowResetPasswordModal(true);
   };
 
   // Resetear formulario
   const resetForm = () => {
-    setFormData({
-      email: '',
-      full_name: '',
-      role: 'viewer',
-      password: '',
-      confirmPassword: ''
-    });
+    setFormData(emptyUserForm);
+    setContractInput('');
     setFormError('');
   };
 
+  // ==================== CONTRATOS ====================
+
+  // Sin Permission.CONTRACT_ALL el usuario solo ve los contratos asignados
+  const roleSeesAllContracts = (role: RoleKey) =>
+    resolveRolePermissions(role, roles).includes(Permission.CONTRACT_ALL);
+
+  const addContract = () => {
+    const contract = contractInput.trim();
+    if (contract && !formData.contracts.includes(contract)) {
+      setFormData({ ...formData, contracts: [...formData.contracts, contract] });
+    }
+    setContractInput('');
+  };
+
+  const removeContract = (contract: string) => {
+    setFormData({ ...formData, contracts: formData.contracts.filter(c => c !== contract) });
+  };
+
+  // ==================== ROLES ====================
+
+  const roleName = (role: RoleKey) => findRole(role, roles)?.name || role;
+
+  const roleBadgeStyle = (role: RoleKey) =>
+    ROLE_BADGE_STYLES[role] || ROLE_BADGE_STYLES.custom;
+
+  const openRoleModal = (role: RoleDefinition | null) => {
+    setEditingRole(role);
+    setRoleForm(role
+      ? { key: role.key, name: role.name, description: role.description || '', permissions: [...role.permissions] }
+      : emptyRoleForm);
+    setRoleError('');
+    setShowRoleModal(true);
+  };
+
+  const toggleRolePermission = (permission: Permission) => {
+    setRoleForm(prev => ({
+      ...prev,
+      permissions: prev.permissions.includes(permission)
+        ? prev.permissions.filter(p => p !== permission)
+        : [...prev.permissions, permission]
+    }));
+  };
+
+  const handleSaveRole = async () => {
+    setFormLoading(true);
+    setRoleError('');
+
+    const result = await roleService.save(roleForm, !editingRole);
+
+    setFormLoading(false);
+    if (result.success) {
+      setShowRoleModal(false);
+      await refreshRoles();
+    } else {
+      setRoleError(result.error || 'Error al guardar el rol');
+    }
+  };
+
+  const handleDeleteRole = async (role: RoleDefinition) => {
+    if (!confirm(`¿Eliminar el rol "${role.name}"?`)) return;
+
+    const result = await roleService.delete(role.key);
+    if (result.success) {
+      await refreshRoles();
+    } else {
+      alert(result.error || 'Error al eliminar el rol');
+    }
+  };
+
+  const handleCopyPoliciesSql = async () => {
+    await navigator.clipboard.writeText(buildRlsPoliciesSql());
+    setSqlCopied(true);
+    setTimeout(() => setSqlCopied(false), 2000);
+  };
+
   // Filtrar usuarios por búsqueda
   const filteredUsers = users.filter(user =>
     user.email.toLowerCase().includes(searchTerm.toLowerCase()) ||
     user.full_name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    user.role.toLowerCase().includes(searchTerm.toLowerCase())
+    roleName(user.role).toLowerCase().includes(searchTerm.toLowerCase()) ||
+    (user.contracts || []).some(contract => contract.toLowerCase().includes(searchTerm.toLowerCase()))
+  );
+
+  const roleOptions = roles.map(role => (
+    <option key={role.key} value={role.key}>
+      {role.name}{role.description ? ` (${role.description})` : ''}
+    </option>
+  ));
+
+  // Contratos del usuario (modales de crear y editar)
+  const contractsField = !roleSeesAllContracts(formData.role) && (
+    <div>
+      <label className="block text-sm font-medium text-gray-300 mb-2">
+        Contratos visibles
+      </label>
+      <div className="flex gap-2">
+        <input
+          type="text"
+          list="user-contracts"
+          value={contractInput}
+          onChange={(e) => setContractInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addContract();
+            }
+          }}
+          className="flex-1 px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          placeholder="Ej: SIERRACOL"
+        />
+        <button
+          type="button"
+          onClick={addContract}
+          className="px-4 py-2 bg-gray-600 hover:bg-gray-500 text-white rounded-lg transition"
+        >
+          Agregar
+        </button>
+      </div>
+      <datalist id="user-contracts">
+        {contractOptions.map(contract => <option key={contract} value={contract} />)}
+      </datalist>
+      <div className="flex flex-wrap gap-2 mt-2">
+        {formData.contracts.map(contract => (
+          <span key={contract} className="inline-flex items-center gap-1 px-2 py-1 text-xs font-semibold rounded bg-teal-700 text-white">
+            {contract}
+            <button type="button" onClick={() => removeContract(contract)} className="hover:text-red-300" title="Quitar">
+              ✕
+            </button>
+          </span>
+        ))}
+      </div>
+      <p className="text-xs text-gray-400 mt-1">
+        Este rol no ve todos los contratos: solo la flota, alertas e historial de los contratos asignados.
+      </p>
+    </div>
   );
 
-  // Si no es admin, no mostrar nada
-  if (currentUser?.role !== 'admin') {
+  // Sin permiso de ver usuarios, no mostrar nada
+  if (!can(Permission.USER_VIEW)) {
     return (
       <div className="p-8 text-center">
         <p className="text-red-500">No tienes permisos para acceder a esta página</p>
@@ -274,22 +457,24 @@ export const UserManagement: React.FC = () => {
         {/* Búsqueda */}
         <input
           type="text"
-          placeholder="Buscar por email, nombre o rol..."
+          placeholder="Buscar por email, nombre, rol o contrato..."
           value={searchTerm}
           onChange={(e) => setSearchTerm(e.target.value)}
           className="flex-1 px-4 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500"
         />
 
         {/* Botón crear usuario */}
-        <button
-          onClick={() => {
-            resetForm();
-            setShowCreateModal(true);
-          }}
-          className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition whitespace-nowrap"
-        >
-          + Crear Usuario
-        </button>
+        {can(Permission.USER_CREATE) && (
+          <button
+            onClick={() => {
+              resetForm();
+              setShowCreateModal(true);
+            }}
+            className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition whitespace-nowrap"
+          >
+            + Crear Usuario
+          </button>
+        )}
       </div>
 
       {/* Error general */}
@@ -348,17 +533,14 @@ export const UserManagement: React.FC = () => {
                         {user.full_name}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
-                        <span
-                          className={`px-2 py-1 text-xs font-semibold rounded ${
-                            user.role === 'admin'
-                              ? 'bg-purple-600 text-white'
-                              : user.role === 'operator'
-                              ? 'bg-blue-600 text-white'
-                              : 'bg-gray-600 text-white'
-                          }`}
-                        >
-                          {user.role === 'admin' ? 'ADMIN' : user.role === 'operator' ? 'OPERADOR' : 'VISOR'}
+                        <span className={`px-2 py-1 text-xs font-semibold rounded uppercase ${roleBadgeStyle(user.role)}`}>
+                          {roleName(user.role)}
                         </span>
+                        {!roleSeesAllContracts(user.role) && (
+                          <div className="text-xs text-gray-400 mt-1">
+                            {user.contracts?.length ? user.contracts.join(', ') : 'Sin contratos'}
+                          </div>
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <span
@@ -377,31 +559,37 @@ export const UserManagement: React.FC = () => {
                           : 'Nunca'}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
-                        <button
-                          onClick={() => openEditModal(user)}
-                          className="text-blue-400 hover:text-blue-300"
-                          title="Editar"
-                        >
-                          ✏️
-                        </button>
-                        <button
-                          onClick={() => openResetPasswordModal(user)}
-                          className="text-yellow-400 hover:text-yellow-300"
-                          title="Resetear contraseña"
-                        >
-                          🔑
-                        </button>
-                        <button
-                          onClick={() => handleToggleUserStatus(user)}
-                          className={
-                            user.is_active
-                              ? 'text-red-400 hover:text-red-300'
-                              : 'text-green-400 hover:text-green-300'
-                          }
-                          title={user.is_active ? 'Desactivar' : 'Activar'}
-                        >
-                          {user.is_active ? '🚫' : '✅'}
-                        </button>
+                        {can(Permission.USER_EDIT) && (
+                          <>
+                            <button
+                              onClick={() => openEditModal(user)}
+                              className="text-blue-400 hover:text-blue-300"
+                              title="Editar"
+                            >
+                              ✏️
+                            </button>
+                            <button
+                              onClick={() => openResetPasswordModal(user)}
+                              className="text-yellow-400 hover:text-yellow-300"
+                              title="Resetear contraseña"
+                            >
+                              🔑
+                            </button>
+                          </>
+                        )}
+                        {can(Permission.USER_DELETE) && (
+                          <button
+                            onClick={() => handleToggleUserStatus(user)}
+                            className={
+                              user.is_active
+                                ? 'text-red-400 hover:text-red-300'
+                                : 'text-green-400 hover:text-green-300'
+                            }
+                            title={user.is_active ? 'Desactivar' : 'Activar'}
+                          >
+                            {user.is_active ? '🚫' : '✅'}
+                          </button>
+                        )}
                       </td>
                     </tr>
                   ))
@@ -412,6 +600,94 @@ export const UserManagement: React.FC = () => {
         </div>
       )}
 
+      {/* Roles y permisos */}
+      {can(Permission.ROLE_MANAGE) && (
+        <div className="mt-8">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-4">
+            <div>
+              <h2 className="text-2xl font-bold text-white">Roles y permisos</h2>
+              <p className="text-gray-400 text-sm">
+                Los roles del sistema se definen en el código; los personalizados se aplican al instante en la base de datos
+              </p>
+            </div>
+            <div className="flex gap-3">
+              <button
+                onClick={() => setShowPoliciesSql(true)}
+                className="px-4 py-2 bg-gray-700 hover:bg-gray-600 text-white rounded-lg transition whitespace-nowrap"
+              >
+                SQL de políticas
+              </button>
+              <button
+                onClick={() => openRoleModal(null)}
+                className="px-6 py-2 bg-blue-600 hover:bg-blue-700 text-white font-semibold rounded-lg transition whitespace-nowrap"
+              >
+                + Nuevo Rol
+              </button>
+            </div>
+          </div>
+
+          <div className="bg-gray-800 rounded-lg shadow-xl overflow-hidden">
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-700">
+                <thead className="bg-gray-700">
+                  <tr>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Rol</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Clave</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Permisos</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-300 uppercase tracking-wider">Usuarios</th>
+                    <th className="px-6 py-3 text-right text-xs font-medium text-gray-300 uppercase tracking-wider">Acciones</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-700">
+                  {roles.map(role => (
+                    <tr key={role.key} className="hover:bg-gray-700/50">
+                      <td className="px-6 py-4 text-sm text-white">
+                        <span className={`px-2 py-1 text-xs font-semibold rounded uppercase ${roleBadgeStyle(role.key)}`}>
+                          {role.name}
+                        </span>
+                        {role.description && (
+                          <p className="text-xs text-gray-400 mt-1">{role.description}</p>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300 font-mono">
+                        {role.key}
+                        {role.is_system && (
+                          <span className="ml-2 text-xs text-gray-500 font-sans">sistema</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                        {role.permissions.length}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-300">
+                        {users.filter(u => u.role === role.key).length}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium space-x-2">
+                        <button
+                          onClick={() => openRoleModal(role)}
+                          className="text-blue-400 hover:text-blue-300"
+                          title={role.is_system ? 'Ver permisos' : 'Editar'}
+                        >
+                          {role.is_system ? '👁️' : '✏️'}
+                        </button>
+                        {!role.is_system && (
+                          <button
+                            onClick={() => handleDeleteRole(role)}
+                            className="text-red-400 hover:text-red-300"
+                            title="Eliminar"
+                          >
+                            🗑️
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Modal Crear Usuario */}
       {showCreateModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -457,12 +733,12 @@ export const UserManagement: React.FC = () => {
                   onChange={(e) => setFormData({ ...formData, role: e.target.value as UserRole })}
                   className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
-                  <option value="viewer">Visor (Solo lectura)</option>
-                  <option value="operator">Operador (Puede editar)</option>
-                  <option value="admin">Administrador (Control total)</option>
+                  {roleOptions}
                 </select>
               </div>
 
+              {contractsField}
+
               {/* Password */}
               <div>
                 <label className="block text-sm font-medium text-gray-300 mb-2">
@@ -566,12 +842,12 @@ export const UserManagement: React.FC = () => {
                   onChange={(e) => setFormData({ ...formData, role: e.target.value as UserRole })}
                   className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
                 >
-                  <option value="viewer">Visor (Solo lectura)</option>
-                  <option value="operator">Operador (Puede editar)</option>
-                  <option value="admin">Administrador (Control total)</option>
+                  {roleOptions}
                 </select>
               </div>
 
+              {contractsField}
+
               {/* Error */}
               {formError && (
                 <div className="bg-red-900/50 border border-red-500 text-red-200 px-4 py-3 rounded-lg">
@@ -678,6 +954,153 @@ export const UserManagement: React.FC = () => {
           </div>
         </div>
       )}
+      {/* Modal Rol */}
+      {showRoleModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-gray-800 rounded-lg shadow-xl max-w-2xl w-full p-6 max-h-[90vh] overflow-y-auto">
+            <h2 className="text-2xl font-bold text-white mb-4">
+              {!editingRole ? 'Nuevo Rol' : editingRole.is_system ? `Rol: ${editingRole.name}` : 'Editar Rol'}
+            </h2>
+
+            {editingRole?.is_system && (
+              <p className="text-sm text-gray-400 mb-4">
+                Rol del sistema: sus permisos se definen en el código y no se editan desde aquí.
+              </p>
+            )}
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                {/* Clave */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    Clave
+                  </label>
+                  <input
+                    type="text"
+                    value={roleForm.key}
+                    onChange={(e) => setRoleForm({ ...roleForm, key: e.target.value.toLowerCase() })}
+                    disabled={!!editingRole}
+                    className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white font-mono disabled:opacity-60 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="cliente_contrato"
+                  />
+                </div>
+
+                {/* Nombre */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    Nombre
+                  </label>
+                  <input
+                    type="text"
+                    value={roleForm.name}
+                    onChange={(e) => setRoleForm({ ...roleForm, name: e.target.value })}
+                    disabled={editingRole?.is_system}
+                    className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white disabled:opacity-60 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="Cliente (contrato)"
+                  />
+                </div>
+              </div>
+
+              {/* Descripción */}
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Descripción
+                </label>
+                <input
+                  type="text"
+                  value={roleForm.description}
+                  onChange={(e) => setRoleForm({ ...roleForm, description: e.target.value })}
+                  disabled={editingRole?.is_system}
+                  className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-lg text-white disabled:opacity-60 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+
+              {/* Permisos */}
+              <div className="space-y-3">
+                {PERMISSION_GROUPS.map(group => (
+                  <div key={group.label}>
+                    <p className="text-sm font-semibold text-gray-300 mb-2">{group.label}</p>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                      {group.permissions.map(({ permission, label }) => (
+                        <label key={permission} className="flex items-start gap-2 text-sm text-gray-300">
+                          <input
+                            type="checkbox"
+                            checked={roleForm.permissions.includes(permission)}
+                            onChange={() => toggleRolePermission(permission)}
+                            disabled={editingRole?.is_system}
+                            className="mt-0.5"
+                          />
+                          <span>
+                            {label}
+                            <span className="block text-xs text-gray-500 font-mono">{permission}</span>
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {/* Error */}
+              {roleError && (
+                <div className="bg-red-900/50 border border-red-500 text-red-200 px-4 py-3 rounded-lg">
+                  <p className="text-sm">{roleError}</p>
+                </div>
+              )}
+
+              {/* Botones */}
+              <div className="flex gap-3 pt-4">
+                <button
+                  onClick={() => setShowRoleModal(false)}
+                  className="flex-1 px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg transition"
+                  disabled={formLoading}
+                >
+                  {editingRole?.is_system ? 'Cerrar' : 'Cancelar'}
+                </button>
+                {!editingRole?.is_system && (
+                  <button
+                    onClick={handleSaveRole}
+                    className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-gray-600 text-white rounded-lg transition"
+                    disabled={formLoading}
+                  >
+                    {formLoading ? 'Guardando...' : 'Guardar Rol'}
+                  </button>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Modal SQL de políticas */}
+      {showPoliciesSql && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-gray-800 rounded-lg shadow-xl max-w-4xl w-full p-6 max-h-[90vh] flex flex-col">
+            <h2 className="text-2xl font-bold text-white mb-2">SQL de políticas RLS</h2>
+            <p className="text-sm text-gray-400 mb-4">
+              Generado desde la misma definición de permisos que usa la consola. Ejecutarlo en Supabase SQL Editor
+              cuando cambien los roles del sistema o las tablas protegidas; los roles personalizados no lo necesitan.
+            </p>
+            <pre className="flex-1 overflow-auto bg-gray-900 text-gray-200 text-xs p-4 rounded-lg font-mono">
+              {buildRlsPoliciesSql()}
+            </pre>
+            <div className="flex gap-3 pt-4">
+              <button
+                onClick={() => setShowPoliciesSql(false)}
+                className="flex-1 px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg transition"
+              >
+                Cerrar
+              </button>
+              <button
+                onClick={handleCopyPoliciesSql}
+                className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition"
+              >
+                {sqlCopied ? 'Copiado ✓' : 'Copiar SQL'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -1,6 +1,9 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Vehicle } from '../types';
-import { X, MapPin, Battery, Signal, Clock, Gauge, User, Briefcase, Radio } from 'lucide-react';
+import { X, MapPin, Battery, Signal, Clock, Gauge, User, Briefcase, Radio, Fuel } from 'lucide-react';
+import { getPositionHistory } from '../services/positionHistoryService';
+import { analyzeFuelHistory, hasFuelData, FuelHistoryAnalysis } from '../services/fuelMonitorService';
+import { FuelLevelChart } from './AnalyticsCharts';
 
 interface VehicleDetailModalProps {
   vehicle: Vehicle | null;
@@ -8,7 +11,35 @@ interface VehicleDetailModalProps {
   onClose: () => void;
 }
 
+// Periodo del gráfico de combustible
+const FUEL_HISTORY_HOURS = 24;
+
 export const VehicleDetailModal: React.FC<VehicleDetailModalProps> = ({ vehicle, isOpen, onClose }) => {
+  const [fuelHistory, setFuelHistory] = useState<FuelHistoryAnalysis | null>(null);
+  const [loadingFuel, setLoadingFuel] = useState(false);
+
+  const showFuel = !!vehicle && hasFuelData(vehicle);
+
+  useEffect(() => {
+    if (!isOpen || !vehicle || !showFuel) {
+      setFuelHistory(null);
+      return;
+    }
+
+    let cancelled = false;
+    const end = new Date();
+    const start = new Date(end.getTime() - FUEL_HISTORY_HOURS * 60 * 60 * 1000);
+
+    setLoadingFuel(true);
+    getPositionHistory(vehicle.plate, start.toISOString(), end.toISOString()).then(result => {
+      if (cancelled) return;
+      setFuelHistory(result.success && result.data ? analyzeFuelHistory(result.data) : null);
+      setLoadingFuel(false);
+    });
+
+    return () => { cancelled = true; };
+  }, [isOpen, vehicle?.plate, showFuel]);
+
   if (!isOpen || !vehicle) return null;
 
   return (
@@ -138,6 +169,40 @@ export const VehicleDetailModal: React.FC<VehicleDetailModalProps> = ({ vehicle,
             </div>
           </div>
 
+          {/* Consumo de Combustible */}
+          {showFuel && (
+            <div className="bg-slate-50 p-4 rounded-lg">
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center gap-2">
+                  <Fuel className="w-5 h-5 text-slate-600" />
+                  <h3 className="font-semibold text-slate-900">Combustible (últimas {FUEL_HISTORY_HOURS} h)</h3>
+                </div>
+                {fuelHistory && (
+                  <div className="flex gap-3 text-xs text-slate-600">
+                    <span>Consumo: <strong>{Math.round(fuelHistory.consumedPercent)}%</strong></span>
+                    <span>Recargas: <strong className="text-green-700">+{Math.round(fuelHistory.refueledPercent)}%</strong></span>
+                    <span>Caídas: <strong className="text-red-700">{fuelHistory.changes.filter(c => c.type === 'drop').length}</strong></span>
+                  </div>
+                )}
+              </div>
+              {loadingFuel ? (
+                <p className="text-sm text-slate-500">Cargando histórico...</p>
+              ) : (
+                <FuelLevelChart
+                  points={(fuelHistory?.readings || []).map(r => ({ time: r.recordedAt, level: r.fuelLevel }))}
+                  markers={(fuelHistory?.changes || []).map(c => ({
+                    time: c.at,
+                    level: c.to,
+                    type: c.type,
+                    label: c.type === 'drop'
+                      ? `Caída con el vehículo detenido: ${c.from}% → ${c.to}%`
+                      : `Recarga: ${c.from}% → ${c.to}%`
+                  }))}
+                />
+              )}
+            </div>
+          )}
+
           {/* Última Actualización */}
           <div className="bg-amber-50 p-4 rounded-lg">
             <div className="flex items-center gap-2 mb-2">
@@ -1,15 +1,37 @@
 import React, { useState } from 'react';
 import { Vehicle, ApiSource, VehicleStatus } from '../types';
-import { Battery, Signal, MapPin, FileDown, Search } from 'lucide-react';
+import { Battery, Signal, MapPin, FileDown, FileText, Search, Wifi, WifiOff } from 'lucide-react';
 import { usePagination } from '../hooks/usePagination';
 import { PaginationControls } from './PaginationControls';
 import { useExportToExcel } from '../hooks/useExportToExcel';
 import { VehicleDetailModal } from './VehicleDetailModal';
+import { getProviders } from '../services/telematics';
+import { getVehicleCommunicationHealth } from '../services/fleetService';
+import { CommunicationHealth, minutesSinceReport } from '../supabase/functions/_shared/communicationHealth';
+import { buildFleetReport, downloadReportAsPDF } from '../services/pdfService';
+import { useAuth } from '../contexts/AuthContext';
 
 interface VehicleTableProps {
   vehicles: Vehicle[];
 }
 
+const COMMUNICATION_BADGES: Record<CommunicationHealth, { label: string; className: string }> = {
+  online: { label: 'En línea', className: 'text-green-700 bg-green-100' },
+  delayed: { label: 'Retrasado', className: 'text-amber-700 bg-amber-100' },
+  offline: { label: 'Sin señal', className: 'text-red-700 bg-red-100' },
+  unknown: { label: 'Sin hora GPS', className: 'text-slate-600 bg-slate-100' },
+};
+
+/**
+ * Tiempo desde el último reporte en formato corto: "5 min", "3 h 20 min", "2 d"
+ */
+const formatSilence = (lastUpdate: string): string => {
+  const minutes = Math.round(minutesSinceReport(lastUpdate) ?? 0);
+  if (minutes < 60) return `${minutes} min`;
+  if (minutes < 24 * 60) return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+  return `${Math.floor(minutes / (24 * 60))} d`;
+};
+
 export const VehicleTable: React.FC<VehicleTableProps> = ({ vehicles }) => {
   const [searchText, setSearchText] = useState('');
   const [statusFilter, setStatusFilter] = useState<'ALL' | VehicleStatus>('ALL');
@@ -17,6 +39,8 @@ export const VehicleTable: React.FC<VehicleTableProps> = ({ vehicles }) => {
   const [selectedVehicle, setSelectedVehicle] = useState<Vehicle | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const { exportToExcel } = useExportToExcel();
+  const { user } = useAuth();
+  const [exportingPdf, setExportingPdf] = useState(false);
 
   const handleRowClick = (vehicle: Vehicle) => {
     setSelectedVehicle(vehicle);
@@ -76,17 +100,35 @@ export const VehicleTable: React.FC<VehicleTableProps> = ({ vehicles }) => {
         { header: 'Combustible', key: 'fuelLevel', width: 12 },
         { header: 'Odómetro', key: 'odometer', width: 12 },
         { header: 'Última Actualización', key: 'lastUpdate', width: 20 },
+        { header: 'Hora Estimada', key: 'lastUpdateEstimated', width: 14 },
       ],
       `Vehiculos_${new Date().toLocaleDateString('es-CO').replace(/\//g, '-')}`
     );
   };
 
+  // Reporte PDF con los vehículos filtrados
+  const handleExportPdf = async () => {
+    setExportingPdf(true);
+    try {
+      await downloadReportAsPDF(
+        buildFleetReport(filteredVehicles),
+        `Vehiculos_${new Date().toLocaleDateString('es-CO').replace(/\//g, '-')}`,
+        { generatedBy: user ? `${user.name} (${user.email})` : undefined }
+      );
+    } catch (error) {
+      alert('No se pudo generar el PDF');
+    } finally {
+      setExportingPdf(false);
+    }
+  };
+
   const getStatusColor = (status: VehicleStatus) => {
     switch (status) {
       case VehicleStatus.MOVING: return 'text-green-600 bg-green-100';
       case VehicleStatus.IDLE: return 'text-orange-600 bg-orange-100';
       case VehicleStatus.STOPPED:
       case VehicleStatus.OFF: return 'text-red-600 bg-red-100';
+      case VehicleStatus.NO_SIGNAL: return 'text-slate-700 bg-slate-200';
       default: return 'text-gray-600 bg-gray-100';
     }
   };
@@ -126,6 +168,7 @@ export const VehicleTable: React.FC<VehicleTableProps> = ({ vehicles }) => {
             <option value={VehicleStatus.IDLE}>Inactivo</option>
             <option value={VehicleStatus.STOPPED}>Detenido</option>
             <option value={VehicleStatus.OFF}>Apagado</option>
+            <option value={VehicleStatus.NO_SIGNAL}>Sin Señal</option>
           </select>
         </div>
 
@@ -138,8 +181,9 @@ export const VehicleTable: React.FC<VehicleTableProps> = ({ vehicles }) => {
             className="px-3 py-2 text-sm border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-sky-500"
           >
             <option value="ALL">Todas</option>
-            <option value={ApiSource.FAGOR}>Fagor</option>
-            <option value={ApiSource.SASCAR}>Sascar</option>
+            {getProviders().map(provider => (
+              <option key={provider.id} value={provider.id}>{provider.label}</option>
+            ))}
           </select>
         </div>
 
@@ -153,6 +197,17 @@ export const VehicleTable: React.FC<VehicleTableProps> = ({ vehicles }) => {
           Excel
         </button>
 
+        {/* Botón PDF */}
+        <button
+          onClick={handleExportPdf}
+          disabled={exportingPdf}
+          className={`flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors text-sm font-medium ${exportingPdf ? 'opacity-50 cursor-not-allowed' : ''}`}
+          title="Descargar reporte PDF"
+        >
+          <FileText className="w-4 h-4" />
+          {exportingPdf ? 'Generando...' : 'PDF'}
+        </button>
+
         {/* Contador */}
         <div className="text-sm font-semibold text-slate-600">
           {filteredVehicles.length} vehículo{filteredVehicles.length !== 1 ? 's' : ''}
@@ -174,6 +229,7 @@ export const VehicleTable: React.FC<VehicleTableProps> = ({ vehicles }) => {
             <th className="px-4 py-3 text-center text-xs font-bold uppercase tracking-wider">Combustible</th>
             <th className="px-4 py-3 text-center text-xs font-bold uppercase tracking-wider">Odómetro</th>
             <th className="px-4 py-3 text-center text-xs font-bold uppercase tracking-wider">Última Act.</th>
+            <th className="px-4 py-3 text-center text-xs font-bold uppercase tracking-wider">Comunicación</th>
           </tr>
         </thead>
         <tbody className="divide-y divide-slate-100">
@@ -263,6 +319,25 @@ export const VehicleTable: React.FC<VehicleTableProps> = ({ vehicles }) => {
                   {new Date(vehicle.lastUpdate).toLocaleDateString('es-CO', { day: '2-digit', month: 'short' })}
                 </div>
               </td>
+
+              {/* Comunicación */}
+              <td className="px-4 py-3 text-center whitespace-nowrap">
+                {(() => {
+                  const health = getVehicleCommunicationHealth(vehicle);
+                  const badge = COMMUNICATION_BADGES[health];
+                  return (
+                    <>
+                      <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-semibold ${badge.className}`}>
+                        {health === 'offline' ? <WifiOff className="w-3 h-3" /> : <Wifi className="w-3 h-3" />}
+                        {badge.label}
+                      </span>
+                      {health !== 'unknown' && (
+                        <div className="text-xs text-slate-500 mt-0.5">hace {formatSilence(vehicle.lastUpdate)}</div>
+                      )}
+                    </>
+                  );
+                })()}
+              </td>
             </tr>
           ))}
         </tbody>
@@ -43,6 +43,13 @@ export const DATA_RETENTION_CONFIG = {
     archiveBeforeDelete: false // No es necesario archivar
   } as RetentionPolicy,
 
+  /** Histórico de posiciones GPS (recorridos de vehículos) */
+  vehiclePositions: {
+    retentionDays: 30, // Mantener 30 días de recorridos
+    maxRecords: 500000,
+    archiveBeforeDelete: false // Volumen alto, no se archiva
+  } as RetentionPolicy,
+
   /** Configuración de limpieza automática */
   autoCleanup: {
     /** Si la limpieza automática está habilitada */
@@ -1,5 +1,14 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useMemo, useCallback, ReactNode } from 'react';
 import { supabase } from '../services/supabaseClient';
+import {
+  roleService,
+  resolveRolePermissions,
+  BUILTIN_ROLES,
+  DEFAULT_ROLE,
+  RoleDefinition,
+  RoleKey
+} from '../services/roleService';
+import { Permission } from '../types';
 
 // =====================================================
 // TYPES
@@ -9,7 +18,9 @@ export interface User {
   id: string;
   email: string;
   name: string;
-  role: 'admin' | 'operator' | 'viewer';
+  role: RoleKey;
+  /** Contratos asignados; solo limitan a quien no tiene Permission.CONTRACT_ALL */
+  contracts?: string[];
   avatar?: string;
   createdAt: string;
   lastLogin?: string;
@@ -23,6 +34,12 @@ interface AuthContextType {
   logout: () => Promise<void>;
   register: (email: string, password: string, name: string) => Promise<{ success: boolean; error?: string }>;
   updateProfile: (updates: Partial<User>) => Promise<{ success: boolean; error?: string }>;
+  /** Roles del sistema y personalizados (app_roles) */
+  roles: RoleDefinition[];
+  /** Permisos del rol del usuario actual */
+  permissions: Permission[];
+  can: (permission: Permission) => boolean;
+  refreshRoles: () => Promise<void>;
 }
 
 // =====================================================
@@ -42,6 +59,7 @@ interface AuthProviderProps {
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
+  const [roles, setRoles] = useState<RoleDefinition[]>(BUILTIN_ROLES);
 
   // Initialize Supabase Auth
   useEffect(() => {
@@ -69,12 +87,21 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     return () => subscription.unsubscribe();
   }, []);
 
-  const mapSupabaseUser = (supabaseUser: any) => {
+  // El rol y los contratos salen de user_profiles (los asigna un administrador);
+  // user_metadata solo se usa si el perfil aún no existe, p.ej. antes de ejecutar las migraciones
+  const mapSupabaseUser = async (supabaseUser: any) => {
+    const [profile, rolesResult] = await Promise.all([
+      roleService.getUserAccess(supabaseUser.id),
+      roleService.getAll(),
+    ]);
+    setRoles(rolesResult.data);
+
     const userMap: User = {
       id: supabaseUser.id,
       email: supabaseUser.email!,
       name: supabaseUser.user_metadata?.name || supabaseUser.email!.split('@')[0],
-      role: (supabaseUser.user_metadata?.role as any) || 'operator', // Default safe role
+      role: profile.data?.role || supabaseUser.user_metadata?.role || DEFAULT_ROLE,
+      contracts: profile.data?.contracts || [],
       createdAt: supabaseUser.created_at,
       lastLogin: new Date().toISOString(),
     };
@@ -82,6 +109,21 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setIsLoading(false);
   };
 
+  const refreshRoles = useCallback(async () => {
+    const result = await roleService.getAll();
+    setRoles(result.data);
+  }, []);
+
+  const permissions = useMemo(
+    () => (user ? resolveRolePermissions(user.role, roles) : []),
+    [user, roles]
+  );
+
+  const can = useCallback(
+    (permission: Permission) => permissions.includes(permission),
+    [permissions]
+  );
+
   const login = async (email: string, password: string): Promise<{ success: boolean; error?: string }> => {
     try {
       setIsLoading(true);
@@ -131,7 +173,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         options: {
           data: {
             name,
-            role: 'operator' // Default role for new users
+            role: DEFAULT_ROLE // Default role for new users
           },
         },
       });
@@ -160,10 +202,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       setUser(updatedUser);
 
       // Persist to Supabase metadata if needed
+      // El rol no: se asigna desde Gestión de Usuarios (user_profiles)
       const { error } = await supabase.auth.updateUser({
         data: {
-          name: updates.name,
-          role: updates.role
+          name: updates.name
         }
       });
 
@@ -184,6 +226,10 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     logout,
     register,
     updateProfile,
+    roles,
+    permissions,
+    can,
+    refreshRoles,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -207,16 +253,17 @@ export const useAuth = (): AuthContextType => {
 
 interface ProtectedRouteProps {
   children: ReactNode;
-  requiredRole?: 'admin' | 'operator' | 'viewer';
+  /** Permiso requerido; con una lista basta cualquiera de ellos */
+  requiredPermission?: Permission | Permission[];
   fallback?: ReactNode;
 }
 
 export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
   children,
-  requiredRole,
+  requiredPermission,
   fallback,
 }) => {
-  const { isAuthenticated, isLoading, user } = useAuth();
+  const { isAuthenticated, isLoading, can } = useAuth();
 
   if (isLoading) {
     return (
@@ -230,13 +277,10 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
     return fallback || null;
   }
 
-  // Role hierarchy: admin > operator > viewer
-  const roleHierarchy = { admin: 3, operator: 2, viewer: 1 };
-  if (requiredRole && user) {
-    const userLevel = roleHierarchy[user.role] || 0;
-    const requiredLevel = roleHierarchy[requiredRole] || 0;
+  if (requiredPermission) {
+    const required = Array.isArray(requiredPermission) ? requiredPermission : [requiredPermission];
 
-    if (userLevel < requiredLevel) {
+    if (!required.some(permission => can(permission))) {
       return (
         <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-900">
           <div className="text-center">
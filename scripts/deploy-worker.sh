@@ -77,6 +77,15 @@ else
     echo -e "${RED}❌ Error al desplegar función${NC}"
     exit 1
 fi
+
+supabase functions deploy notification-dispatcher
+
+if [ $? -eq 0 ]; then
+    echo -e "${GREEN}✅ Dispatcher de notificaciones desplegado${NC}"
+else
+    echo -e "${RED}❌ Error al desplegar notification-dispatcher${NC}"
+    exit 1
+fi
 echo ""
 
 # Step 5: Listar funciones
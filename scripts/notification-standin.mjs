@@ -0,0 +1,70 @@
+#!/usr/bin/env node
+
+// ============================================
+// Stand-in HTTP para notificaciones
+// ============================================
+//
+// Recibe los mensajes que notification-dispatcher enviaría por correo,
+// Telegram o WhatsApp cuando corre con NOTIFICATION_TRANSPORT=standin,
+// y los muestra en consola. Permite probar el flujo completo sin
+// credenciales ni salida a internet.
+//
+// Uso:
+//   node scripts/notification-standin.mjs
+//   PORT=8787 STANDIN_FAIL_ATTEMPTS=2 node scripts/notification-standin.mjs
+//
+// STANDIN_FAIL_ATTEMPTS=N responde 503 a los primeros N intentos de cada
+// envío para probar los reintentos. GET / devuelve los mensajes recibidos.
+// ============================================
+
+import { createServer } from 'node:http';
+import { randomUUID } from 'node:crypto';
+
+const PORT = parseInt(process.env.PORT || '8787', 10);
+const FAIL_ATTEMPTS = parseInt(process.env.STANDIN_FAIL_ATTEMPTS || '0', 10);
+
+const received = [];
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const server = createServer((req, res) => {
+  if (req.method === 'GET') {
+    return sendJson(res, 200, received);
+  }
+
+  if (req.method !== 'POST') {
+    return sendJson(res, 405, { error: 'Method not allowed' });
+  }
+
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => {
+    let message;
+    try {
+      message = JSON.parse(body);
+    } catch {
+      return sendJson(res, 400, { error: 'JSON inválido' });
+    }
+
+    if ((message.attempt || 1) <= FAIL_ATTEMPTS) {
+      console.log(`❌ [${message.channel}] ${message.recipient} - intento ${message.attempt} rechazado (STANDIN_FAIL_ATTEMPTS=${FAIL_ATTEMPTS})`);
+      return sendJson(res, 503, { error: 'Fallo simulado' });
+    }
+
+    const id = randomUUID();
+    received.push({ id, received_at: new Date().toISOString(), ...message });
+
+    console.log(`✅ [${message.channel}] ${message.recipient} - alerta ${message.alert_id} (intento ${message.attempt})`);
+    if (message.subject) console.log(`   Asunto: ${message.subject}`);
+    console.log(`   ${String(message.message).replace(/\s+/g, ' ').slice(0, 200)}`);
+
+    return sendJson(res, 200, { id });
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`📨 Stand-in de notificaciones escuchando en http://localhost:${PORT}`);
+});
@@ -0,0 +1,129 @@
+import { Vehicle } from '../types';
+import { supabase } from './supabaseClient';
+import {
+  AlertThresholdRule,
+  AlertThresholds,
+  loadAlertThresholdRules,
+  resolveAlertThresholds
+} from '../supabase/functions/_shared/alertThresholds';
+import {
+  EffectiveSpeedLimit,
+  GeofenceDefinition,
+  loadSpeedLimitZones,
+  resolveSpeedLimit
+} from '../supabase/functions/_shared/geofenceEngine';
+
+export type { AlertThresholdRule, AlertThresholds } from '../supabase/functions/_shared/alertThresholds';
+export { DEFAULT_ALERT_THRESHOLDS } from '../supabase/functions/_shared/alertThresholds';
+
+// ==================== CACHE ====================
+
+// Las reglas cambian poco: recargarlas como máximo cada 5 minutos (igual que el refresco de la flota)
+const RULES_CACHE_TTL_MS = 5 * 60 * 1000;
+
+let cachedRules: AlertThresholdRule[] = [];
+let cachedSpeedZones: GeofenceDefinition[] = [];
+let cachedAt = 0;
+
+/**
+ * Recarga las reglas activas y las zonas de velocidad si el caché expiró (o si se fuerza)
+ * Si falla la consulta se conservan los últimos valores conocidos
+ */
+export async function refreshAlertThresholdRules(force: boolean = false): Promise<void> {
+  if (!force && Date.now() - cachedAt < RULES_CACHE_TTL_MS) return;
+
+  try {
+    const [rules, speedZones] = await Promise.all([
+      loadAlertThresholdRules(supabase),
+      loadSpeedLimitZones(supabase)
+    ]);
+    cachedRules = rules;
+    cachedSpeedZones = speedZones;
+    cachedAt = Date.now();
+  } catch (error) {
+    console.warn('[AlertRules] Could not load alert rules, using last known values:', error);
+  }
+}
+
+/**
+ * Umbrales efectivos para el vehículo según las reglas en caché
+ */
+export function getVehicleThresholds(vehicle: Pick<Vehicle, 'contract' | 'vehicleType'>): AlertThresholds {
+  return resolveAlertThresholds(cachedRules, vehicle);
+}
+
+/**
+ * Límite de velocidad según la zona en la que está el vehículo (o el de su contrato)
+ */
+export function getVehicleSpeedLimit(vehicle: Vehicle, thresholds: AlertThresholds = getVehicleThresholds(vehicle)): EffectiveSpeedLimit {
+  return resolveSpeedLimit(vehicle, cachedSpeedZones, thresholds.speedLimit);
+}
+
+// ==================== CRUD ====================
+
+export const alertRulesService = {
+  async getAll(): Promise<{ success: boolean; data?: AlertThresholdRule[]; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('alert_rules')
+        .select('*')
+        .order('contract', { ascending: true, nullsFirst: true })
+        .order('vehicle_type', { ascending: true, nullsFirst: true });
+
+      if (error) throw error;
+      return { success: true, data: data || [] };
+    } catch (error: any) {
+      console.error('[AlertRules] Error fetching alert rules:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  async create(rule: Omit<AlertThresholdRule, 'id' | 'created_at' | 'updated_at'>): Promise<{ success: boolean; data?: AlertThresholdRule; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('alert_rules')
+        .insert(rule)
+        .select()
+        .single();
+
+      if (error) throw error;
+      await refreshAlertThresholdRules(true);
+      return { success: true, data };
+    } catch (error: any) {
+      console.error('[AlertRules] Error creating alert rule:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  async update(id: string, updates: Partial<AlertThresholdRule>): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('alert_rules')
+        .update(updates)
+        .eq('id', id);
+
+      if (error) throw error;
+      await refreshAlertThresholdRules(true);
+      return { success: true };
+    } catch (error: any) {
+      console.error('[AlertRules] Error updating alert rule:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  async delete(id: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.from('alert_rules').delete().eq('id', id);
+      if (error) throw error;
+      await refreshAlertThresholdRules(true);
+      return { success: true };
+    } catch (error: any) {
+      console.error('[AlertRules] Error deleting alert rule:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  async toggleActive(id: string, isActive: boolean): Promise<{ success: boolean; error?: string }> {
+    return this.update(id, { is_active: isActive });
+  },
+};
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Alert } from '../types';
+import { detectAlerts } from './alertService';
+import { refreshAlertThresholdRules } from './alertRulesService';
+import { normalizeColtrackRecord } from './telematics/coltrackProvider';
+import { normalizeFagorRecord } from './telematics/fagorProvider';
+import { detectWorkerAlerts } from '../supabase/functions/_shared/workerAlerts';
+import {
+  normalizeColtrackRecord as workerNormalizeColtrack,
+  normalizeFagorRecord as workerNormalizeFagor,
+  NormalizedVehicle
+} from '../supabase/functions/_shared/telematicsNormalize';
+import snapshotFixture from './fixtures/alert-snapshots.json';
+
+/**
+ * Paridad consola / worker sobre lecturas grabadas de la flota (fixtures/alert-snapshots.json):
+ * la consola normaliza con los proveedores y detecta con alertService + alertRulesService,
+ * el worker alert-monitor con telematicsNormalize + detectWorkerAlerts (las filas que guarda en saved_alerts)
+ */
+
+// alert_rules y geofences (zonas de velocidad) servidos desde el fixture
+const tables = vi.hoisted(() => ({ rows: {} as Record<string, any[]> }));
+
+vi.mock('./supabaseClient', () => {
+  const query = (table: string) => {
+    const builder: any = {
+      select: () => builder,
+      eq: () => builder,
+      not: () => builder,
+      then: (resolve: (value: any) => void) => resolve({ data: tables.rows[table] || [], error: null })
+    };
+    return builder;
+  };
+  return { supabase: { from: query } };
+});
+
+interface ParityAlert {
+  vehicleId: string;
+  type: string;
+  severity: string;
+  details: string;
+  timestamp: string;
+}
+
+const consoleAlerts = (records: { coltrack: any[]; fagor: any[] }): ParityAlert[] =>
+  [...records.coltrack.map(normalizeColtrackRecord), ...records.fagor.map(normalizeFagorRecord)]
+    .flatMap(detectAlerts)
+    .map(({ vehicleId, type, severity, details, timestamp }: Alert) => ({ vehicleId, type, severity, details, timestamp }));
+
+const workerAlerts = (records: { coltrack: any[]; fagor: any[] }): ParityAlert[] =>
+  [...records.coltrack.map(workerNormalizeColtrack), ...records.fagor.map(workerNormalizeFagor)]
+    .flatMap((vehicle: NormalizedVehicle) =>
+      detectWorkerAlerts(vehicle, {
+        thresholdRules: snapshotFixture.alertRules,
+        speedZones: snapshotFixture.speedZones as any[]
+      }).map(row => ({
+        vehicleId: row.vehicle_id,
+        type: row.type,
+        severity: row.severity,
+        details: row.details,
+        timestamp: row.timestamp
+      }))
+    );
+
+describe('paridad de alertas consola / worker', () => {
+  beforeEach(async () => {
+    tables.rows = { alert_rules: snapshotFixture.alertRules, geofences: snapshotFixture.speedZones };
+    await refreshAlertThresholdRules(true);
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it.each(snapshotFixture.snapshots)('lectura de $fetchedAt', ({ fetchedAt, records, expected }) => {
+    vi.setSystemTime(new Date(fetchedAt));
+
+    const fromConsole = consoleAlerts(records);
+    const fromWorker = workerAlerts(records);
+
+    expect(fromWorker).toEqual(fromConsole);
+    expect(fromConsole.map(a => `${a.vehicleId} ${a.type} ${a.severity}`)).toEqual(expected);
+  });
+});
@@ -0,0 +1,95 @@
+// ==================== ERRORS ====================
+
+/**
+ * Error de una función /api con el código estructurado que devuelve el servidor
+ * (api/_lib/apiAuth.ts): 'unauthorized', 'forbidden', 'rate_limited', ...
+ */
+export class ApiRequestError extends Error {
+  status: number;
+  code?: string;
+  retryAfterSeconds?: number;
+
+  constructor(message: string, status: number, code?: string, retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.status = status;
+    this.code = code;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export const isRateLimitError = (error: unknown): boolean =>
+  error instanceof ApiRequestError && error.status === 429;
+
+export const isUnauthorizedError = (error: unknown): boolean =>
+  error instanceof ApiRequestError && error.status === 401;
+
+// ==================== FETCH ====================
+
+// Fin del bloqueo por 429 de cada ruta: no se vuelve a llamar antes de Retry-After
+const rateLimitedUntil = new Map<string, number>();
+
+const routeOf = (path: string): string => path.split('?')[0];
+
+/**
+ * Llama a una función /api con la sesión actual y retorna el JSON.
+ * - 401: renueva la sesión una vez y reintenta (el access token venció)
+ * - 429: respeta Retry-After; mientras tanto falla sin llamar al servidor
+ * - 304: retorna null
+ * Cualquier respuesta no exitosa lanza ApiRequestError.
+ */
+export const apiFetch = async (path: string, init: RequestInit = {}): Promise<any> => {
+  const route = routeOf(path);
+  const blockedUntil = rateLimitedUntil.get(route) || 0;
+
+  if (blockedUntil > Date.now()) {
+    const retryAfterSeconds = Math.ceil((blockedUntil - Date.now()) / 1000);
+    throw new ApiRequestError(`Demasiadas solicitudes. Intenta de nuevo en ${retryAfterSeconds} s`, 429, 'rate_limited', retryAfterSeconds);
+  }
+
+  // Import diferido: los normalize de los proveedores (que importan este módulo)
+  // también corren en /api al armar el snapshot, donde no existe import.meta.env
+  const { supabase, getAuthHeaders } = await import('./supabaseClient');
+
+  const send = async () => fetch(path, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(init.headers as Record<string, string>),
+      ...(await getAuthHeaders())
+    }
+  });
+
+  let response = await send();
+
+  if (response.status === 401) {
+    const { error } = await supabase.auth.refreshSession();
+    if (!error) {
+      response = await send();
+    }
+  }
+
+  // Respuesta condicional (If-None-Match) sin cambios: quien llama reutiliza su copia
+  if (response.status === 304) {
+    return null;
+  }
+
+  const result = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    const retryAfterSeconds = result?.retryAfterSeconds ?? (Number(response.headers.get('Retry-After')) || undefined);
+
+    if (response.status === 429) {
+      rateLimitedUntil.set(route, Date.now() + (retryAfterSeconds || 60) * 1000);
+    }
+
+    throw new ApiRequestError(
+      result?.error || `${route} returned ${response.status}`,
+      response.status,
+      result?.code,
+      retryAfterSeconds
+    );
+  }
+
+  return result;
+};
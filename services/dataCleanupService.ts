@@ -7,6 +7,7 @@ export interface CleanupResult {
   deletedAlerts: number;
   deletedInspections: number;
   deletedActionPlans: number;
+  deletedPositions: number;
   archivedFiles: string[];
   errors: string[];
 }
@@ -25,6 +26,7 @@ export class DataCleanupService {
       deletedAlerts: 0,
       deletedInspections: 0,
       deletedActionPlans: 0,
+      deletedPositions: 0,
       archivedFiles: [],
       errors: []
     };
@@ -52,7 +54,12 @@ export class DataCleanupService {
       result.deletedActionPlans = actionPlanResult.deleted;
       if (actionPlanResult.error) result.errors.push(actionPlanResult.error);
 
-      // 5. Guardar fecha de última limpieza
+      // 5. Limpiar histórico de posiciones antiguo
+      const positionsResult = await this.cleanupVehiclePositions();
+      result.deletedPositions = positionsResult.deleted;
+      if (positionsResult.error) result.errors.push(positionsResult.error);
+
+      // 6. Guardar fecha de última limpieza
       localStorage.setItem('lastCleanupDate', new Date().toISOString());
 
       result.success = result.errors.length === 0;
@@ -241,6 +248,31 @@ export class DataCleanupService {
     }
   }
 
+  /**
+   * Limpia posiciones GPS más antiguas que la política de retención
+   */
+  private static async cleanupVehiclePositions(): Promise<{ deleted: number; error?: string }> {
+    try {
+      const { retentionDays } = DATA_RETENTION_CONFIG.vehiclePositions;
+      const cutoffDate = getRetentionCutoffDate(retentionDays);
+
+      // count: 'exact' evita traer de vuelta todas las filas eliminadas
+      const { count, error } = await supabase
+        .from('vehicle_positions')
+        .delete({ count: 'exact' })
+        .lt('recorded_at', cutoffDate.toISOString());
+
+      if (error) throw error;
+
+      return { deleted: count || 0 };
+    } catch (error) {
+      return {
+        deleted: 0,
+        error: `Error al limpiar histórico de posiciones: ${error}`
+      };
+    }
+  }
+
   /**
    * Archiva datos a Excel antes de eliminar
    */
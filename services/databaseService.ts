@@ -1,6 +1,15 @@
 import { Alert } from '../types';
 import { DataCleanupService } from './dataCleanupService';
 import { supabase } from './supabaseClient';
+import { isEpisodicAlertType, recordEpisodeAlert } from '../supabase/functions/_shared/alertEpisodes';
+import { acknowledgeAlertEscalation } from '../supabase/functions/_shared/alertEscalation';
+import {
+  computeSlaDueDates,
+  evaluateSlaBreaches,
+  loadSlaTargets,
+  AlertSlaState,
+  SlaTarget
+} from '../supabase/functions/_shared/alertSla';
 
 // ==================== TYPES ====================
 
@@ -10,6 +19,8 @@ export interface SavedAlert {
   vehicle_id: string;
   plate: string;
   driver: string;
+  // Conductor del registro vinculado al nombre GPS (ver _shared/driverMatching.ts)
+  driver_id?: string | null;
   type: string;
   severity: string;
   timestamp: string;
@@ -23,6 +34,26 @@ export interface SavedAlert {
   saved_by: string;
   created_at: string;
   updated_at: string;
+  // Episodio (solo infracciones continuas, ver _shared/alertEpisodes.ts)
+  episode_started_at?: string | null;
+  episode_ended_at?: string | null;
+  episode_open?: boolean;
+  peak_speed?: number | null;
+  avg_speed?: number | null;
+  sample_count?: number;
+  // Confirmación (ack): detiene el escalamiento, ver _shared/alertEscalation.ts
+  acknowledged_at?: string | null;
+  acknowledged_by?: string | null;
+  // Seguimiento y SLA (solo alert_history, ver _shared/alertSla.ts)
+  assigned_to?: string | null;
+  assigned_by?: string | null;
+  assigned_at?: string | null;
+  resolved_at?: string | null;
+  resolved_by?: string | null;
+  ack_due_at?: string | null;
+  resolve_due_at?: string | null;
+  ack_sla_breached?: boolean;
+  resolution_sla_breached?: boolean;
 }
 
 export interface ActionPlan {
@@ -46,22 +77,11 @@ export interface SavedAlertWithPlans extends SavedAlert {
 /**
  * Guarda una alerta AUTOMÁTICAMENTE en saved_alerts
  * Esta tabla almacena TODAS las alertas detectadas para análisis y reportes
+ * Los excesos de velocidad, ralentí y eventos bruscos se guardan como episodios
  * Las alertas se limpian automáticamente cada 7-30 días
  */
 export async function autoSaveAlert(alert: Alert): Promise<{ success: boolean; data?: SavedAlert; error?: string }> {
   try {
-    // Verificar duplicados en saved_alerts
-    const isDuplicate = await DataCleanupService.checkDuplicate('saved_alerts', {
-      plate: alert.plate,
-      timestamp: alert.timestamp,
-      type: alert.type
-    });
-
-    if (isDuplicate) {
-      // No es error, simplemente ya existe
-      return { success: true };
-    }
-
     const alertData = {
       alert_id: alert.id,
       vehicle_id: alert.vehicleId,
@@ -79,6 +99,24 @@ export async function autoSaveAlert(alert: Alert): Promise<{ success: boolean; d
       saved_by: 'Sistema (Auto)'
     };
 
+    // Infracciones continuas: se agrupan en un episodio en lugar de una fila por lectura
+    if (isEpisodicAlertType(alert.type)) {
+      const episode = await recordEpisodeAlert(supabase, alertData);
+      return { success: true, data: episode.data as SavedAlert | undefined };
+    }
+
+    // Verificar duplicados en saved_alerts
+    const isDuplicate = await DataCleanupService.checkDuplicate('saved_alerts', {
+      plate: alert.plate,
+      timestamp: alert.timestamp,
+      type: alert.type
+    });
+
+    if (isDuplicate) {
+      // No es error, simplemente ya existe
+      return { success: true };
+    }
+
     // 🔍 LOG DE DIAGNÓSTICO: Verificar datos de alertas críticas
     if (alert.severity === 'critical') {
       console.log('🚨 [DIAGNÓSTICO] Guardando alerta CRÍTICA:', {
@@ -171,6 +209,7 @@ export async function getFilteredAutoSavedAlerts(
   filters: {
     status?: 'pending' | 'in_progress' | 'resolved';
     severity?: string;
+    plate?: string;
     startDate?: string;
     endDate?: string;
   }
@@ -197,6 +236,10 @@ export async function getFilteredAutoSavedAlerts(
         query = query.eq('severity', filters.severity);
       }
 
+      if (filters.plate) {
+        query = query.eq('plate', filters.plate);
+      }
+
       if (filters.startDate) {
         query = query.gte('timestamp', filters.startDate);
       }
@@ -231,8 +274,110 @@ export async function getFilteredAutoSavedAlerts(
   }
 }
 
+/**
+ * Confirma (ack) una alerta en saved_alerts y detiene su escalamiento
+ * Busca la fila por alert_id; las lecturas de un episodio tienen su propio id,
+ * así que si no existe se confirma la última alerta sin confirmar de la misma placa y tipo
+ */
+export async function acknowledgeAlert(
+  alert: Pick<Alert, 'id' | 'plate' | 'type'>,
+  acknowledgedBy: string
+): Promise<{ success: boolean; data?: SavedAlert; error?: string }> {
+  try {
+    let { data: target, error } = await supabase
+      .from('saved_alerts')
+      .select('*')
+      .eq('alert_id', alert.id)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (!target) {
+      const fallback = await supabase
+        .from('saved_alerts')
+        .select('*')
+        .eq('plate', alert.plate)
+        .eq('type', alert.type)
+        .is('acknowledged_at', null)
+        .order('timestamp', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (fallback.error) throw fallback.error;
+      target = fallback.data;
+    }
+
+    if (!target) {
+      return { success: false, error: 'La alerta aún no se ha guardado en la base de datos' };
+    }
+
+    const acknowledgedAt = new Date();
+    const { data, error: updateError } = await supabase
+      .from('saved_alerts')
+      .update({
+        acknowledged_at: target.acknowledged_at ?? acknowledgedAt.toISOString(),
+        acknowledged_by: target.acknowledged_by ?? acknowledgedBy,
+        status: target.status === 'pending' ? 'in_progress' : target.status
+      })
+      .eq('id', target.id)
+      .select()
+      .single();
+
+    if (updateError) throw updateError;
+
+    await acknowledgeAlertEscalation(supabase, target.alert_id, acknowledgedBy, acknowledgedAt);
+    await acknowledgeHistoryAlert(target.alert_id, acknowledgedBy, acknowledgedAt);
+
+    return { success: true, data: data as SavedAlert };
+  } catch (error: any) {
+    console.error('Error acknowledging alert:', error);
+    return { success: false, error: error.message || 'Error desconocido' };
+  }
+}
+
 // ==================== ALERT_HISTORY FUNCTIONS (Guardado Manual para Seguimiento) ====================
 
+/**
+ * Metas de SLA vigentes; sin la tabla alert_sla_targets se usan las metas por defecto
+ */
+async function loadSlaTargetsSafe(): Promise<SlaTarget[]> {
+  try {
+    return await loadSlaTargets(supabase);
+  } catch (error) {
+    console.error('Error loading SLA targets, using defaults:', error);
+    return [];
+  }
+}
+
+/**
+ * Lleva la confirmación hecha en el Centro de Alertas a la alerta en seguimiento
+ */
+async function acknowledgeHistoryAlert(alertId: string, acknowledgedBy: string, acknowledgedAt: Date): Promise<void> {
+  const { data: rows, error } = await supabase
+    .from('alert_history')
+    .select('*')
+    .eq('alert_id', alertId)
+    .is('acknowledged_at', null);
+
+  if (error) {
+    console.error('Error loading alert_history for acknowledgement:', error);
+    return;
+  }
+
+  for (const row of rows || []) {
+    const state: AlertSlaState = { ...row, acknowledged_at: acknowledgedAt.toISOString() };
+    await supabase
+      .from('alert_history')
+      .update({
+        acknowledged_at: state.acknowledged_at,
+        acknowledged_by: acknowledgedBy,
+        status: row.status === 'pending' ? 'in_progress' : row.status,
+        ack_sla_breached: evaluateSlaBreaches(state, acknowledgedAt).ack_sla_breached
+      })
+      .eq('id', row.id);
+  }
+}
+
 /**
  * Guarda una alerta MANUALMENTE en alert_history para SEGUIMIENTO/GESTIÓN
  * Esta tabla almacena solo alertas que requieren seguimiento con planes de acción
@@ -254,10 +399,10 @@ export async function saveAlertToDatabase(alert: Alert, savedBy: string = 'Usuar
       };
     }
 
-    // Primero, buscar si existe en saved_alerts para obtener el ID
+    // Primero, buscar si existe en saved_alerts para obtener el ID y la confirmación
     const { data: savedAlert } = await supabase
       .from('saved_alerts')
-      .select('id')
+      .select('id, acknowledged_at, acknowledged_by')
       .eq('alert_id', alert.id)
       .eq('plate', alert.plate)
       .eq('timestamp', alert.timestamp)
@@ -277,13 +422,23 @@ export async function saveAlertToDatabase(alert: Alert, savedBy: string = 'Usuar
       details: alert.details,
       contract: alert.contract || null,
       source: alert.source,
-      status: 'pending' as const,
-      saved_by: savedBy
+      status: savedAlert?.acknowledged_at ? 'in_progress' as const : 'pending' as const,
+      saved_by: savedBy,
+      acknowledged_at: savedAlert?.acknowledged_at ?? null,
+      acknowledged_by: savedAlert?.acknowledged_by ?? null
+    };
+
+    // SLA: vencimientos con la meta vigente al guardar (no cambian si luego cambian las metas)
+    const dueDates = computeSlaDueDates(await loadSlaTargetsSafe(), alertData);
+    const historyData = {
+      ...alertData,
+      ...dueDates,
+      ...evaluateSlaBreaches({ ...alertData, ...dueDates })
     };
 
     const { data, error } = await supabase
       .from('alert_history')
-      .insert(alertData)
+      .insert(historyData)
       .select()
       .single();
 
@@ -376,15 +531,47 @@ export async function getFilteredAlerts(
 
 /**
  * Update alert status
+ * Pasar a En Proceso o Resuelta confirma la alerta; Resuelta registra la resolución.
+ * Reabrir una alerta resuelta borra la resolución pero no la confirmación.
  */
 export async function updateAlertStatus(
   alertId: string,
-  status: 'pending' | 'in_progress' | 'resolved'
+  status: 'pending' | 'in_progress' | 'resolved',
+  changedBy: string = 'Usuario'
 ): Promise<{ success: boolean; error?: string }> {
   try {
+    const { data: current, error: fetchError } = await supabase
+      .from('alert_history')
+      .select('*')
+      .eq('id', alertId)
+      .single();
+
+    if (fetchError) {
+      console.error('Error fetching alert for status update:', fetchError);
+      return { success: false, error: fetchError.message };
+    }
+
+    const now = new Date();
+    const updates: Partial<SavedAlert> = { status };
+
+    if (status !== 'pending' && !current.acknowledged_at) {
+      updates.acknowledged_at = now.toISOString();
+      updates.acknowledged_by = changedBy;
+    }
+
+    if (status === 'resolved' && !current.resolved_at) {
+      updates.resolved_at = now.toISOString();
+      updates.resolved_by = changedBy;
+    } else if (status !== 'resolved' && current.resolved_at) {
+      updates.resolved_at = null;
+      updates.resolved_by = null;
+    }
+
+    Object.assign(updates, evaluateSlaBreaches({ ...current, ...updates }, now));
+
     const { error } = await supabase
       .from('alert_history')
-      .update({ status })
+      .update(updates)
       .eq('id', alertId);
 
     if (error) {
@@ -399,6 +586,36 @@ export async function updateAlertStatus(
   }
 }
 
+/**
+ * Asigna la alerta a un operador (null = quitar asignación)
+ */
+export async function assignAlert(
+  alertId: string,
+  assignee: string | null,
+  assignedBy: string = 'Usuario'
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from('alert_history')
+      .update({
+        assigned_to: assignee,
+        assigned_by: assignee ? assignedBy : null,
+        assigned_at: assignee ? new Date().toISOString() : null
+      })
+      .eq('id', alertId);
+
+    if (error) {
+      console.error('Error assigning alert:', error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('Exception assigning alert:', error);
+    return { success: false, error: error.message || 'Error desconocido' };
+  }
+}
+
 /**
  * Delete an alert from history
  */
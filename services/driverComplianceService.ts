@@ -0,0 +1,189 @@
+import { supabase } from './supabaseClient';
+import { DRIVER_COMPLIANCE_CONFIG, DriverDocumentRow } from '../supabase/functions/_shared/driverCompliance';
+
+export type {
+  DocumentExpiryStatus,
+  DriverDocumentRow,
+  DriverDocumentType
+} from '../supabase/functions/_shared/driverCompliance';
+export {
+  DOCUMENT_EXPIRY_STATUS_LABELS,
+  DRIVER_COMPLIANCE_CONFIG,
+  DRIVER_DOCUMENT_TYPE_LABELS,
+  daysUntilExpiry,
+  describeExpiry,
+  documentExpiryStatus,
+  documentLabel,
+  expiryThreshold
+} from '../supabase/functions/_shared/driverCompliance';
+
+/** Campos que edita el usuario; el archivo y los avisos los manejan el servicio y el worker */
+export type DriverDocumentInput = Pick<
+  DriverDocumentRow,
+  'driver_id' | 'document_type' | 'name' | 'document_number' | 'category' | 'issuer' | 'issued_at' | 'expires_at' | 'notes'
+>;
+
+/** Ruta del archivo en el bucket: carpeta del conductor y nombre sin caracteres especiales */
+const buildFilePath = (driverId: string, file: File): string => {
+  const safeName = file.name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9._-]+/g, '_');
+  return `${driverId}/${Date.now()}_${safeName}`;
+};
+
+// ==================== DOCUMENTS ====================
+
+export const driverComplianceService = {
+  /**
+   * Documentos de todos los conductores (o de uno), del que vence primero al último
+   */
+  async getDocuments(driverId?: string): Promise<{ success: boolean; data?: DriverDocumentRow[]; error?: string }> {
+    try {
+      // Supabase limita a 1000 filas por consulta: paginar
+      const rows: DriverDocumentRow[] = [];
+      let from = 0;
+      const pageSize = 1000;
+      let hasMore = true;
+
+      while (hasMore) {
+        let query = supabase
+          .from('driver_documents')
+          .select('*')
+          .order('expires_at', { ascending: true, nullsFirst: false })
+          .order('id', { ascending: true })
+          .range(from, from + pageSize - 1);
+
+        if (driverId) query = query.eq('driver_id', driverId);
+
+        const { data, error } = await query;
+        if (error) throw error;
+
+        rows.push(...(data || []));
+        from += pageSize;
+        hasMore = (data || []).length === pageSize;
+      }
+
+      return { success: true, data: rows };
+    } catch (error: any) {
+      console.error('[DriverCompliance] Error fetching documents:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  /**
+   * Crea o actualiza un documento; si viene un archivo lo sube y reemplaza el anterior
+   */
+  async save(
+    input: DriverDocumentInput,
+    file: File | null,
+    createdBy: string,
+    existing?: DriverDocumentRow
+  ): Promise<{ success: boolean; data?: DriverDocumentRow; error?: string }> {
+    let uploadedPath: string | null = null;
+
+    try {
+      if (file && file.size > DRIVER_COMPLIANCE_CONFIG.MAX_FILE_MB * 1024 * 1024) {
+        throw new Error(`El archivo supera ${DRIVER_COMPLIANCE_CONFIG.MAX_FILE_MB} MB`);
+      }
+
+      const fileFields: Partial<DriverDocumentRow> = {};
+      if (file) {
+        uploadedPath = buildFilePath(input.driver_id, file);
+        const { error: uploadError } = await supabase.storage
+          .from(DRIVER_COMPLIANCE_CONFIG.BUCKET)
+          .upload(uploadedPath, file, { contentType: file.type || undefined });
+
+        if (uploadError) throw uploadError;
+        Object.assign(fileFields, {
+          file_path: uploadedPath,
+          file_name: file.name,
+          file_size: file.size,
+          file_type: file.type || null
+        });
+      }
+
+      const { data, error } = existing
+        ? await supabase
+          .from('driver_documents')
+          .update({ ...input, ...fileFields })
+          .eq('id', existing.id)
+          .select()
+          .single()
+        : await supabase
+          .from('driver_documents')
+          .insert({ ...input, ...fileFields, created_by: createdBy })
+          .select()
+          .single();
+
+      if (error) throw error;
+
+      // El archivo anterior ya no lo referencia ningún documento
+      if (file && existing?.file_path) {
+        const { error: removeError } = await supabase.storage
+          .from(DRIVER_COMPLIANCE_CONFIG.BUCKET)
+          .remove([existing.file_path]);
+        if (removeError) console.error('[DriverCompliance] Error removing replaced file:', removeError);
+      }
+
+      return { success: true, data };
+    } catch (error: any) {
+      console.error('[DriverCompliance] Error saving document:', error);
+      if (uploadedPath) {
+        await supabase.storage.from(DRIVER_COMPLIANCE_CONFIG.BUCKET).remove([uploadedPath]);
+      }
+      return { success: false, error: error.message };
+    }
+  },
+
+  /**
+   * Borra el archivo y luego el documento
+   */
+  async delete(document: DriverDocumentRow): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (document.file_path) {
+        const { error: storageError } = await supabase.storage
+          .from(DRIVER_COMPLIANCE_CONFIG.BUCKET)
+          .remove([document.file_path]);
+
+        if (storageError) throw storageError;
+      }
+
+      const { error } = await supabase.from('driver_documents').delete().eq('id', document.id);
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error('[DriverCompliance] Error deleting document:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  /**
+   * Descarga el archivo adjunto y lo guarda en el equipo
+   */
+  async download(document: DriverDocumentRow): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (!document.file_path) throw new Error('El documento no tiene archivo adjunto');
+
+      const { data, error } = await supabase.storage
+        .from(DRIVER_COMPLIANCE_CONFIG.BUCKET)
+        .download(document.file_path);
+
+      if (error) throw error;
+
+      const url = URL.createObjectURL(data);
+      const link = window.document.createElement('a');
+      link.href = url;
+      link.download = document.file_name || document.file_path.split('/').pop() || 'documento';
+      window.document.body.appendChild(link);
+      link.click();
+      window.document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      return { success: true };
+    } catch (error: any) {
+      console.error('[DriverCompliance] Error downloading document:', error);
+      return { success: false, error: error.message };
+    }
+  }
+};
@@ -0,0 +1,157 @@
+import { supabase } from './supabaseClient';
+import { DriverAliasRow, DriverAliasStatus } from '../supabase/functions/_shared/driverMatching';
+
+export type {
+  DriverAliasRow,
+  DriverAliasStatus,
+  DriverMatchCandidate,
+  DriverMatchMethod
+} from '../supabase/functions/_shared/driverMatching';
+export {
+  DRIVER_ALIAS_STATUS_LABELS,
+  DRIVER_MATCH_METHOD_LABELS,
+  registryName
+} from '../supabase/functions/_shared/driverMatching';
+
+/**
+ * Vuelve a vincular alertas, inspecciones y ralentí del alias (últimos 90 días)
+ */
+async function relink(nameKey: string): Promise<number> {
+  const { data, error } = await supabase.rpc('relink_driver_alias', { p_name_key: nameKey });
+
+  if (error) throw error;
+  if (!data?.success) throw new Error(data?.error || 'Error al vincular los registros');
+  return data.updated || 0;
+}
+
+// ==================== ALIASES ====================
+
+export const driverMatchingService = {
+  /**
+   * Nombres del GPS (por defecto todos), los vistos más recientemente primero
+   */
+  async getAliases(status?: DriverAliasStatus): Promise<{ success: boolean; data?: DriverAliasRow[]; error?: string }> {
+    try {
+      // Supabase limita a 1000 filas por consulta: paginar
+      const rows: DriverAliasRow[] = [];
+      let from = 0;
+      const pageSize = 1000;
+      let hasMore = true;
+
+      while (hasMore) {
+        let query = supabase
+          .from('driver_name_aliases')
+          .select('*')
+          .order('last_seen_at', { ascending: false })
+          .order('id', { ascending: true })
+          .range(from, from + pageSize - 1);
+
+        if (status) query = query.eq('status', status);
+
+        const { data, error } = await query;
+        if (error) throw error;
+
+        rows.push(...(data || []));
+        from += pageSize;
+        hasMore = (data || []).length === pageSize;
+      }
+
+      return { success: true, data: rows };
+    } catch (error: any) {
+      console.error('[DriverMatching] Error fetching aliases:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  /**
+   * Vincula manualmente un nombre del GPS con un conductor del registro
+   */
+  async link(alias: DriverAliasRow, driverId: string, reviewedBy: string): Promise<{ success: boolean; data?: { relinked: number }; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('driver_name_aliases')
+        .update({
+          driver_id: driverId,
+          status: 'matched',
+          method: 'manual',
+          confidence: 1,
+          reviewed_by: reviewedBy,
+          reviewed_at: new Date().toISOString()
+        })
+        .eq('id', alias.id);
+
+      if (error) throw error;
+      return { success: true, data: { relinked: await relink(alias.name_key) } };
+    } catch (error: any) {
+      console.error('[DriverMatching] Error linking alias:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  /**
+   * Marca el nombre como no vinculable (no es un conductor del registro);
+   * sus registros quedan con el conductor asignado a la placa, si lo hay
+   */
+  async ignore(alias: DriverAliasRow, reviewedBy: string): Promise<{ success: boolean; data?: { relinked: number }; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('driver_name_aliases')
+        .update({
+          driver_id: null,
+          status: 'ignored',
+          method: 'manual',
+          confidence: null,
+          reviewed_by: reviewedBy,
+          reviewed_at: new Date().toISOString()
+        })
+        .eq('id', alias.id);
+
+      if (error) throw error;
+      return { success: true, data: { relinked: await relink(alias.name_key) } };
+    } catch (error: any) {
+      console.error('[DriverMatching] Error ignoring alias:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  /**
+   * Devuelve el nombre a pendiente para que la vinculación automática lo procese de nuevo
+   */
+  async reset(alias: DriverAliasRow): Promise<{ success: boolean; data?: { relinked: number }; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('driver_name_aliases')
+        .update({
+          driver_id: null,
+          status: 'pending',
+          method: null,
+          confidence: null,
+          reviewed_by: null,
+          reviewed_at: null
+        })
+        .eq('id', alias.id);
+
+      if (error) throw error;
+      return { success: true, data: { relinked: await relink(alias.name_key) } };
+    } catch (error: any) {
+      console.error('[DriverMatching] Error resetting alias:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  /**
+   * Ejecuta la vinculación automática sin esperar al cron
+   */
+  async runMatching(): Promise<{ success: boolean; data?: { checked: number; matched: number; pending: number }; error?: string }> {
+    try {
+      const { data, error } = await supabase.functions.invoke('driver-matching', { body: {} });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Error en driver-matching');
+      return { success: true, data: { checked: data.checked, matched: data.matched, pending: data.pending } };
+    } catch (error: any) {
+      console.error('[DriverMatching] Error running driver matching:', error);
+      return { success: false, error: error.message };
+    }
+  }
+};
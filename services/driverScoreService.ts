@@ -0,0 +1,131 @@
+import { supabase } from './supabaseClient';
+import {
+  DriverScorePeriod,
+  DriverScoreRow,
+  scorePeriodStart,
+  shiftPeriodStart
+} from '../supabase/functions/_shared/driverScoring';
+
+export type {
+  DriverScoreFactor,
+  DriverScorePeriod,
+  DriverScoreRow
+} from '../supabase/functions/_shared/driverScoring';
+export {
+  DRIVER_SCORE_CONFIG,
+  DRIVER_SCORE_FACTOR_LABELS,
+  DRIVER_SCORE_PERIOD_LABELS,
+  driverKey,
+  formatScorePeriod,
+  isRankable,
+  summarizeDriverScores
+} from '../supabase/functions/_shared/driverScoring';
+
+// ==================== QUERIES ====================
+
+export const driverScoreService = {
+  /**
+   * Puntajes de todos los conductores en un período (por defecto el último
+   * calculado), de mayor a menor
+   */
+  async getLeaderboard(
+    period: DriverScorePeriod,
+    periodStart?: string
+  ): Promise<{ success: boolean; data?: { periodStart: string | null; rows: DriverScoreRow[] }; error?: string }> {
+    try {
+      let start = periodStart;
+
+      if (!start) {
+        const { data: latest, error: latestError } = await supabase
+          .from('driver_scores')
+          .select('period_start')
+          .eq('period', period)
+          .order('period_start', { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        if (latestError) throw latestError;
+        if (!latest) return { success: true, data: { periodStart: null, rows: [] } };
+        start = latest.period_start as string;
+      }
+
+      const { data, error } = await supabase
+        .from('driver_scores')
+        .select('*')
+        .eq('period', period)
+        .eq('period_start', start)
+        .order('score', { ascending: false })
+        .order('km', { ascending: false });
+
+      if (error) throw error;
+      return { success: true, data: { periodStart: start, rows: data || [] } };
+    } catch (error: any) {
+      console.error('[DriverScores] Error fetching leaderboard:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  /**
+   * Puntajes de los últimos N períodos (todos los conductores), del más antiguo al más reciente
+   */
+  async getRecent(period: DriverScorePeriod, periods: number = 8): Promise<{ success: boolean; data?: DriverScoreRow[]; error?: string }> {
+    try {
+      const since = shiftPeriodStart(period, scorePeriodStart(period), -(periods - 1));
+
+      // Supabase limita a 1000 filas por consulta: paginar
+      const rows: DriverScoreRow[] = [];
+      let from = 0;
+      const pageSize = 1000;
+      let hasMore = true;
+
+      while (hasMore) {
+        const { data, error } = await supabase
+          .from('driver_scores')
+          .select('*')
+          .eq('period', period)
+          .gte('period_start', since)
+          .order('period_start', { ascending: true })
+          .order('driver_key', { ascending: true })
+          .range(from, from + pageSize - 1);
+
+        if (error) throw error;
+
+        rows.push(...(data || []));
+        from += pageSize;
+        hasMore = (data || []).length === pageSize;
+      }
+
+      return { success: true, data: rows };
+    } catch (error: any) {
+      console.error('[DriverScores] Error fetching recent scores:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  /**
+   * Histórico de un conductor para graficar su tendencia
+   */
+  async getDriverHistory(
+    key: string,
+    period: DriverScorePeriod,
+    periods: number = 12
+  ): Promise<{ success: boolean; data?: DriverScoreRow[]; error?: string }> {
+    try {
+      const since = shiftPeriodStart(period, scorePeriodStart(period), -(periods - 1));
+
+      const { data, error } = await supabase
+        .from('driver_scores')
+        .select('*')
+        .eq('driver_key', key)
+        .eq('period', period)
+        .gte('period_start', since)
+        .order('period_start', { ascending: true });
+
+      if (error) throw error;
+      return { success: true, data: data || [] };
+    } catch (error: any) {
+      console.error('[DriverScores] Error fetching driver history:', error);
+      return { success: false, error: error.message };
+    }
+  }
+};
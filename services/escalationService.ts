@@ -0,0 +1,176 @@
+import { supabase } from './supabaseClient';
+import {
+  AlertEscalation,
+  AlertEscalationStepLog,
+  EscalationPolicy,
+  OnCallShift
+} from '../supabase/functions/_shared/alertEscalation';
+
+export type {
+  AlertEscalation,
+  AlertEscalationStepLog,
+  EscalationPolicy,
+  EscalationRole,
+  EscalationStep,
+  OnCallShift
+} from '../supabase/functions/_shared/alertEscalation';
+export { ESCALATION_ROLE_LABELS } from '../supabase/functions/_shared/alertEscalation';
+
+// ==================== POLICIES ====================
+
+export const escalationPolicyService = {
+  async getAll(): Promise<{ success: boolean; data?: EscalationPolicy[]; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('escalation_policies')
+        .select('*')
+        .order('contract', { ascending: true, nullsFirst: true })
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return { success: true, data: data || [] };
+    } catch (error: any) {
+      console.error('[Escalation] Error fetching escalation policies:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  async create(policy: Omit<EscalationPolicy, 'id' | 'created_at' | 'updated_at'>): Promise<{ success: boolean; data?: EscalationPolicy; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('escalation_policies')
+        .insert(policy)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data };
+    } catch (error: any) {
+      console.error('[Escalation] Error creating escalation policy:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  async update(id: string, updates: Partial<EscalationPolicy>): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('escalation_policies')
+        .update(updates)
+        .eq('id', id);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error('[Escalation] Error updating escalation policy:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  async delete(id: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.from('escalation_policies').delete().eq('id', id);
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error('[Escalation] Error deleting escalation policy:', error);
+      return { success: false, error: error.message };
+    }
+  },
+};
+
+// ==================== ON-CALL ROSTER ====================
+
+export const onCallRosterService = {
+  /**
+   * Turnos que terminan después de la fecha indicada (por defecto, vigentes y futuros)
+   */
+  async getUpcoming(from: Date = new Date()): Promise<{ success: boolean; data?: OnCallShift[]; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('on_call_roster')
+        .select('*')
+        .gt('ends_at', from.toISOString())
+        .order('starts_at', { ascending: true });
+
+      if (error) throw error;
+      return { success: true, data: data || [] };
+    } catch (error: any) {
+      console.error('[Escalation] Error fetching on-call roster:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  async create(shift: Omit<OnCallShift, 'id' | 'created_at' | 'updated_at'>): Promise<{ success: boolean; data?: OnCallShift; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('on_call_roster')
+        .insert(shift)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data };
+    } catch (error: any) {
+      console.error('[Escalation] Error creating on-call shift:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  async update(id: string, updates: Partial<OnCallShift>): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('on_call_roster')
+        .update(updates)
+        .eq('id', id);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error('[Escalation] Error updating on-call shift:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  async delete(id: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.from('on_call_roster').delete().eq('id', id);
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error('[Escalation] Error deleting on-call shift:', error);
+      return { success: false, error: error.message };
+    }
+  },
+};
+
+// ==================== ESCALATION STATUS ====================
+
+/**
+ * Escalamiento de una alerta con sus pasos ejecutados (null si la alerta no escala)
+ */
+export async function getAlertEscalation(
+  alertId: string
+): Promise<{ success: boolean; data?: { escalation: AlertEscalation; steps: AlertEscalationStepLog[] } | null; error?: string }> {
+  try {
+    const { data: escalation, error } = await supabase
+      .from('alert_escalations')
+      .select('*')
+      .eq('alert_id', alertId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!escalation) return { success: true, data: null };
+
+    const { data: steps, error: stepsError } = await supabase
+      .from('alert_escalation_steps')
+      .select('*')
+      .eq('escalation_id', escalation.id)
+      .order('step_order', { ascending: true });
+
+    if (stepsError) throw stepsError;
+    return { success: true, data: { escalation, steps: steps || [] } };
+  } catch (error: any) {
+    console.error('[Escalation] Error fetching alert escalation:', error);
+    return { success: false, error: error.message };
+  }
+}
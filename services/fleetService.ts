@@ -1,69 +1,32 @@
-import { Vehicle, ApiSource, VehicleStatus } from '../types';
+import { Vehicle, VehicleStatus } from '../types';
 import { generateMockVehicles } from './mockData';
+import { getProviders, getProviderStatusKey, ProviderConnectionStatus } from './telematics';
+import { getVehicleThresholds, refreshAlertThresholdRules } from './alertRulesService';
+import { CommunicationHealth, getCommunicationHealth } from '../supabase/functions/_shared/communicationHealth';
+import { apiFetch, isRateLimitError, isUnauthorizedError, ApiRequestError } from './apiClient';
 
 const BACKEND_API_URL = 'http://localhost:8000/api';
 
-// --- COLTRACK CONFIGURATION ---
-const COLTRACK_API_URL = 'https://gps.coltrack.com/gps/api.jsp';
-const COLTRACK_USER = 'WebSMagnex';
-const COLTRACK_PASS = ']0zSKl549!9%';
-
-// --- FAGOR CONFIGURATION ---
-// Changed to HTTPS to attempt to avoid Mixed Content blocking
-const FAGOR_API_URL = 'https://www.flotasnet.com/servicios/EstadoVehiculo.asmx'; 
-const FAGOR_USER = 'WebMasa2024';
-const FAGOR_PASS = 'Weblog24*';
-
 export interface FleetResponse {
   data: Vehicle[];
   source: 'REAL' | 'DIRECT_API' | 'PARTIAL_DIRECT' | 'ERROR' | 'MOCK';
   error?: string;
+  /**
+   * Último cambio de fleet_vehicle_updates incluido en data (solo con el snapshot de /api/fleet).
+   * Sin él, los cambios del stream no se pueden aplicar sobre estos datos.
+   */
+  sequence?: number;
+  // Una entrada por proveedor registrado (clave: id en minúsculas, ej. 'coltrack')
   apiStatus?: {
-    coltrack: 'connected' | 'failed' | 'not_tested';
-    fagor: 'connected' | 'failed' | 'not_tested';
-    backend: 'connected' | 'failed' | 'not_tested';
+    backend: ProviderConnectionStatus;
+    [providerKey: string]: ProviderConnectionStatus;
   };
   vehicleCounts?: {
-    coltrack: number;
-    fagor: number;
     total: number;
+    [providerKey: string]: number;
   };
 }
 
-// Helper to determine status from speed/ignition/event text
-const determineStatus = (speed: number, isIgnitionOn: boolean, eventText: string = ''): VehicleStatus => {
-  if (speed > 0) return VehicleStatus.MOVING;
-  // Fagor specific strings often contain these keywords
-  if (eventText.includes('Arranque') || eventText.includes('Inicio ralenti') || eventText.includes('ON')) return VehicleStatus.IDLE;
-  if (eventText.includes('Parada') || eventText.includes('Fin ralenti') || eventText.includes('OFF')) return VehicleStatus.OFF;
-
-  // Fallback
-  return isIgnitionOn ? VehicleStatus.IDLE : VehicleStatus.STOPPED;
-};
-
-// Helper to determine contract/client from vehicle data
-const determineContract = (record: any, source: ApiSource): string => {
-  // Priorizar "Contrato" sobre "Cliente" o "Grupo" según la API de Google Sheets
-  // La API de Google Sheets devuelve: { "Placa": "LHR713", "Contrato": "CAMPO TECA", "Cliente": "SIERRACOL" }
-
-  if (source === ApiSource.COLTRACK) {
-    // Buscar en este orden: Contrato > Grupo > Cliente
-    return record.CONTRATO || record.Contrato ||
-           record.GRUPO || record.Grupo ||
-           record.CLIENTE || record.Cliente ||
-           'No asignado';
-  }
-
-  if (source === ApiSource.FAGOR) {
-    // Buscar en este orden: Contrato > Cliente
-    return record.CONTRATO || record.Contrato ||
-           record.CLIENTE || record.Cliente ||
-           'No asignado';
-  }
-
-  return 'No asignado';
-};
-
 /**
  * Fetch contract data from Google Sheets (Apps Script)
  * Returns a Map of plate → contract info
@@ -72,18 +35,7 @@ const fetchGoogleSheetsData = async (): Promise<Record<string, any>> => {
   try {
     console.log('[Google Sheets] Fetching contract data...');
 
-    const response = await fetch('/api/google-sheets', {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json'
-      }
-    });
-
-    if (!response.ok) {
-      throw new Error(`Google Sheets API returned ${response.status}`);
-    }
-
-    const result = await response.json();
+    const result = await apiFetch('/api/google-sheets', { method: 'GET' });
 
     if (result.success && result.vehicleMap) {
       console.log(`[Google Sheets] Successfully loaded ${result.count} vehicle contracts`);
@@ -99,6 +51,56 @@ const fetchGoogleSheetsData = async (): Promise<Record<string, any>> => {
   }
 };
 
+// Último snapshot recibido de /api/fleet; se reutiliza cuando el servidor responde 304
+let cachedSnapshot: {
+  etag: string;
+  sequence: number;
+  vehicles: Vehicle[];
+  providers: Record<string, ProviderConnectionStatus>;
+} | null = null;
+
+/**
+ * Lee el snapshot de la flota que arma el servidor (/api/fleet) con If-None-Match.
+ * Retorna null solo si el despliegue no tiene /api/fleet (404): entonces se consulta a cada proveedor.
+ * Cualquier otro fallo (snapshot todavía sin ingesta, 5xx, 401 / 429) se propaga: consultar a
+ * los proveedores desde cada navegador es justo la carga que el snapshot evita.
+ */
+const fetchFleetSnapshot = async (): Promise<typeof cachedSnapshot> => {
+  try {
+    const result = await apiFetch('/api/fleet', {
+      method: 'GET',
+      headers: cachedSnapshot ? { 'If-None-Match': cachedSnapshot.etag } : {}
+    });
+
+    // 304: sin ingesta nueva desde la última lectura
+    if (result === null && cachedSnapshot) {
+      return cachedSnapshot;
+    }
+
+    if (!result?.success || !Array.isArray(result.data)) {
+      throw new Error('Invalid response from Fleet API');
+    }
+
+    if (result.stale) {
+      console.warn(`[Fleet Snapshot] Snapshot from ${result.capturedAt} is stale; is the alert-monitor worker running?`);
+    }
+
+    cachedSnapshot = {
+      etag: result.etag,
+      sequence: Number(result.sequence) || 0,
+      vehicles: result.data,
+      providers: result.providers || {}
+    };
+    return cachedSnapshot;
+  } catch (error) {
+    if ((error as ApiRequestError).status === 404) {
+      console.warn('[Fleet Snapshot] /api/fleet not deployed, querying providers directly');
+      return null;
+    }
+    throw error;
+  }
+};
+
 /**
  * Enrich vehicles with contract information from Google Sheets
  * @param vehicles - Array of vehicles from Coltrack/Fagor
@@ -129,125 +131,68 @@ const enrichVehiclesWithContracts = (
 };
 
 /**
- * Attempts to fetch data from Coltrack via serverless function
+ * Salud de la comunicación del vehículo según la hora real de su último reporte
+ * y el umbral "sin señal" de su contrato / tipo (alert_rules.offline_minutes)
  */
-const fetchColtrackViaAPI = async (): Promise<Vehicle[]> => {
-  try {
-    const response = await fetch('/api/coltrack', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      }
-    });
-
-    if (!response.ok) {
-      throw new Error(`Coltrack serverless function returned ${response.status}`);
-    }
-
-    const result = await response.json();
-
-    if (!result.success || !result.data) {
-      throw new Error('Invalid response from Coltrack serverless function');
-    }
-
-    return result.data.map((record: any, index: number) => {
-      const speed = parseFloat(record.VELOCIDAD || record.Velocidad || '0');
-      const ignicion = record.IGNICION === 'ON' || record.Ignicion === 'ON' || record.Ignicion === '1' || record.Ignicion === true;
-      const status = determineStatus(speed, ignicion);
-
-      // Coltrack usa campos en MAYÚSCULAS (según código de referencia)
-      const plate = record.PLACA || record.Placa || 'UNKNOWN';
-      const driver = record.CONDUCTOR || record.Conductor || 'Sin Asignar';
-      const contract = determineContract(record, ApiSource.COLTRACK);
-
-      return {
-        id: `COL-${plate}-${index}`,
-        plate: plate,
-        source: ApiSource.COLTRACK,
-        latitude: parseFloat(record.LATITUD || record.Latitud || '0'),
-        longitude: parseFloat(record.LONGITUD || record.Longitud || '0'),
-        speed: speed,
-        status: status,
-        driver: driver,
-        fuelLevel: parseInt(record.COMBUSTIBLE || record.Combustible || '0', 10),
-        lastUpdate: new Date().toISOString(),
-        location: record.CIUDAD || record.Ciudad || record.Ubicacion || 'Desconocido',
-        odometer: parseFloat(record.ODOMETRO || record.Odometro || '0'),
-        contract: contract,
-        event: record.EVENTO || record.Evento || '',
-        vehicleType: record.TIPO || record.Tipo || record.TipoVehiculo || ''
-      };
-    });
-
-  } catch (error) {
-    console.warn('Coltrack serverless function failed:', error);
-    return [];
-  }
+export const getVehicleCommunicationHealth = (vehicle: Vehicle, now: Date = new Date()): CommunicationHealth => {
+  if (vehicle.lastUpdateEstimated) return 'unknown';
+  return getCommunicationHealth(vehicle.lastUpdate, getVehicleThresholds(vehicle).offlineMinutes, now);
 };
 
 /**
- * Attempts to fetch data from Fagor via serverless function
+ * Marca como "Sin Señal" los vehículos que dejaron de reportar
+ * Se aplica después de enriquecer contratos, porque el umbral depende del contrato
  */
-const fetchFagorViaAPI = async (): Promise<Vehicle[]> => {
-  try {
-    const response = await fetch('/api/fagor', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      }
-    });
-
-    if (!response.ok) {
-      throw new Error(`Fagor serverless function returned ${response.status}`);
-    }
-
-    const result = await response.json();
-
-    if (!result.success || !result.data) {
-      throw new Error('Invalid response from Fagor serverless function');
-    }
-
-    return result.data.map((record: any, index: number) => {
-      const plate = record.Matricula;
-      const speed = parseInt(record.Velocidad || '0', 10);
-      const estadoText = record.Estado;
-      const contract = determineContract(record, ApiSource.FAGOR);
+export const markVehiclesWithoutSignal = async (vehicles: Vehicle[]): Promise<Vehicle[]> => {
+  await refreshAlertThresholdRules();
+
+  const now = new Date();
+  return vehicles.map(vehicle =>
+    getVehicleCommunicationHealth(vehicle, now) === 'offline'
+      ? { ...vehicle, status: VehicleStatus.NO_SIGNAL }
+      : vehicle
+  );
+};
 
-      const status = determineStatus(speed, false, estadoText);
+/**
+ * Cuenta vehículos por proveedor registrado (claves de FleetResponse.vehicleCounts)
+ */
+export const countVehiclesByProvider = (vehicles: Vehicle[]): FleetResponse['vehicleCounts'] => {
+  const counts: NonNullable<FleetResponse['vehicleCounts']> = { total: vehicles.length };
 
-      return {
-        id: `FAG-${plate || index}`,
-        plate: plate || 'UNKNOWN',
-        source: ApiSource.FAGOR,
-        latitude: parseFloat(record.Latitud) || 0,
-        longitude: parseFloat(record.Longitud) || 0,
-        speed: speed,
-        status: status,
-        driver: record.Conductor || 'Sin Asignar',
-        fuelLevel: 0,
-        lastUpdate: new Date().toISOString(),
-        location: record.Localidad || 'Desconocido',
-        odometer: parseFloat(record.Kilometros || '0'),
-        contract: contract,
-        event: record.Estado || record.EstadoUsuario || '',
-        vehicleType: record.TipoVehiculo || ''
-      };
-    });
+  getProviders().forEach(provider => {
+    counts[getProviderStatusKey(provider)] = vehicles.filter(v => v.source === provider.id).length;
+  });
 
-  } catch (error) {
-    console.warn('Fagor serverless function failed:', error);
-    return [];
-  }
+  return counts;
 };
 
+/**
+ * Respuesta para un 401 / 429 de /api o un snapshot no disponible: no se muestran datos simulados,
+ * la UI conserva los últimos datos reales
+ */
+const accessErrorResponse = (status: number, apiStatus: FleetResponse['apiStatus']): FleetResponse => ({
+  data: [],
+  source: 'ERROR',
+  error: status === 401
+    ? 'Tu sesión venció. Vuelve a iniciar sesión para actualizar la flota.'
+    : status === 429
+      ? 'Se alcanzó el límite de consultas a los proveedores GPS. Se reintentará en la próxima actualización.'
+      : 'El snapshot de la flota no está disponible. Se reintentará en la próxima actualización.',
+  apiStatus,
+  vehicleCounts: countVehiclesByProvider([])
+});
 
 export const fetchFleetData = async (): Promise<FleetResponse> => {
+  const providers = getProviders();
+
   // Initialize status tracking
-  const apiStatus = {
-    coltrack: 'not_tested' as const,
-    fagor: 'not_tested' as const,
-    backend: 'not_tested' as const
+  const apiStatus: NonNullable<FleetResponse['apiStatus']> = {
+    backend: 'not_tested'
   };
+  providers.forEach(provider => {
+    apiStatus[getProviderStatusKey(provider)] = 'not_tested';
+  });
 
   // 1. First, try the Python Backend
   try {
@@ -261,22 +206,14 @@ export const fetchFleetData = async (): Promise<FleetResponse> => {
     clearTimeout(timeoutId);
 
     if (response.ok) {
-      const data = await response.json();
+      const data = await markVehiclesWithoutSignal(await response.json());
       apiStatus.backend = 'connected';
 
-      // Count vehicles by source
-      const coltrackCount = data.filter((v: Vehicle) => v.source === ApiSource.COLTRACK).length;
-      const fagorCount = data.filter((v: Vehicle) => v.source === ApiSource.FAGOR).length;
-
       return {
         data,
         source: 'REAL',
         apiStatus,
-        vehicleCounts: {
-          coltrack: coltrackCount,
-          fagor: fagorCount,
-          total: data.length
-        }
+        vehicleCounts: countVehiclesByProvider(data)
       };
     }
     apiStatus.backend = 'failed';
@@ -284,23 +221,49 @@ export const fetchFleetData = async (): Promise<FleetResponse> => {
     apiStatus.backend = 'failed';
   }
 
-  // 2. Second, try Serverless API Functions to BOTH APIs in parallel
-  console.log("Attempting serverless API connections to Fagor, Coltrack, and Google Sheets...");
+  // 2. Snapshot del servidor: una sola ingesta para todos los navegadores
+  try {
+    const snapshot = await fetchFleetSnapshot();
+
+    if (snapshot) {
+      providers.forEach(provider => {
+        const key = getProviderStatusKey(provider);
+        apiStatus[key] = snapshot.providers[key] || 'failed';
+      });
+
+      const data = await markVehiclesWithoutSignal(snapshot.vehicles);
+      const allConnected = providers.every(provider => apiStatus[getProviderStatusKey(provider)] === 'connected');
 
-  const results = await Promise.allSettled([
-    fetchColtrackViaAPI(),
-    fetchFagorViaAPI(),
+      return {
+        data,
+        source: allConnected ? 'DIRECT_API' : 'PARTIAL_DIRECT',
+        sequence: snapshot.sequence,
+        apiStatus,
+        vehicleCounts: countVehiclesByProvider(data)
+      };
+    }
+  } catch (error) {
+    if (!isRateLimitError(error) && !isUnauthorizedError(error)) {
+      console.warn('[Fleet Snapshot] Unavailable, keeping the last fleet until the next refresh:', error);
+    }
+    return accessErrorResponse((error as ApiRequestError).status, apiStatus);
+  }
+
+  // 3. Sin /api/fleet en el despliegue: Serverless API Functions for every registered provider in parallel
+  console.log(`Attempting serverless API connections to ${providers.map(p => p.label).join(', ')} and Google Sheets...`);
+
+  const [providerResults, googleSheetsMap] = await Promise.all([
+    Promise.allSettled(providers.map(provider => provider.fetchVehicles())),
     fetchGoogleSheetsData()
   ]);
 
-  const coltrackData = results[0].status === 'fulfilled' ? results[0].value : [];
-  const fagorData = results[1].status === 'fulfilled' ? results[1].value : [];
-  const googleSheetsMap = results[2].status === 'fulfilled' ? results[2].value : {};
+  const providerData = providerResults.map(result => result.status === 'fulfilled' ? result.value : []);
 
-  apiStatus.coltrack = coltrackData.length > 0 ? 'connected' : 'failed';
-  apiStatus.fagor = fagorData.length > 0 ? 'connected' : 'failed';
+  providers.forEach((provider, index) => {
+    apiStatus[getProviderStatusKey(provider)] = providerData[index].length > 0 ? 'connected' : 'failed';
+  });
 
-  let combinedData = [...coltrackData, ...fagorData];
+  let combinedData = providerData.flat();
 
   // Enriquecer vehículos con contratos de Google Sheets
   if (Object.keys(googleSheetsMap).length > 0) {
@@ -309,40 +272,40 @@ export const fetchFleetData = async (): Promise<FleetResponse> => {
   }
 
   if (combinedData.length > 0) {
-    const hasColtrack = coltrackData.length > 0;
-    const hasFagor = fagorData.length > 0;
-    const sourceStatus = (hasColtrack && hasFagor) ? 'DIRECT_API' : 'PARTIAL_DIRECT';
+    combinedData = await markVehiclesWithoutSignal(combinedData);
+
+    const allConnected = providerData.every(data => data.length > 0);
+    const sourceStatus = allConnected ? 'DIRECT_API' : 'PARTIAL_DIRECT';
 
     return {
       data: combinedData,
       source: sourceStatus,
       apiStatus,
-      vehicleCounts: {
-        coltrack: coltrackData.length,
-        fagor: fagorData.length,
-        total: combinedData.length
-      }
+      vehicleCounts: countVehiclesByProvider(combinedData)
     };
   }
 
-  // 3. Fallback to MOCK
+  // 4. Sesión rechazada o límite de /api alcanzado: no es una caída del proveedor
+  const blockedStatuses = providers
+    .map(provider => provider.health().lastErrorStatus)
+    .filter((status): status is number => status === 401 || status === 429);
+
+  if (blockedStatuses.length > 0) {
+    return accessErrorResponse(blockedStatuses.includes(401) ? 401 : 429, apiStatus);
+  }
+
+  // 5. Fallback to MOCK
   // In a pure client-side environment (like a browser), accessing 3rd party APIs
   // without CORS headers will almost always fail. To prevent the app from appearing "broken",
   // we return fallback data with a MOCK source status.
   console.warn('All connections failed. Falling back to Simulation Mode.');
   const mockData = generateMockVehicles(25);
-  const mockColtrackCount = mockData.filter(v => v.source === ApiSource.COLTRACK).length;
-  const mockFagorCount = mockData.filter(v => v.source === ApiSource.FAGOR).length;
 
   return {
     data: mockData,
     source: 'MOCK',
-    error: 'No se pudo establecer conexión con Fagor ni Coltrack. Mostrando datos de respaldo.',
+    error: `No se pudo establecer conexión con ${providers.map(p => p.label).join(' ni ')}. Mostrando datos de respaldo.`,
     apiStatus,
-    vehicleCounts: {
-      coltrack: mockColtrackCount,
-      fagor: mockFagorCount,
-      total: mockData.length
-    }
+    vehicleCounts: countVehiclesByProvider(mockData)
   };
-};
\ No newline at end of file
+};
@@ -0,0 +1,240 @@
+import { Vehicle } from '../types';
+import { supabase } from './supabaseClient';
+import { FLEET_UPDATE_RETENTION_MINUTES, FleetVehicleUpdate } from '../supabase/functions/_shared/fleetUpdates';
+
+/**
+ * Stream de cambios de la flota (tabla fleet_vehicle_updates)
+ *
+ * La consola carga el snapshot completo una vez (/api/fleet, con su seq) y
+ * después solo recibe por Supabase Realtime los vehículos que cambiaron en cada
+ * ingesta. Los cambios se agrupan por ingesta y se aplican en orden de seq.
+ *
+ * Si el canal se cae se reconecta con espera creciente y, al volver, pide las
+ * filas con seq mayor al último aplicado. Si estuvo desconectado más tiempo del
+ * que se conservan las filas, avisa para recargar el snapshot completo.
+ * Lo mismo si llegan cambios y la flota cargada no tiene seq (no vino del snapshot).
+ * Las políticas RLS filtran las filas por contrato (role_policies.sql).
+ */
+
+// ==================== TYPES ====================
+
+/** Fila de fleet_vehicle_updates */
+export interface FleetVehicleUpdateRow {
+  seq: number | string;
+  vehicle_key: string;
+  plate: string;
+  contract: string | null;
+  removed: boolean;
+  vehicle: Vehicle | null;
+  snapshot_version: string;
+  created_at?: string;
+}
+
+/**
+ * - connecting: primera conexión
+ * - live: recibiendo cambios
+ * - reconnecting: canal caído, reintentando
+ * - offline: varios reintentos fallidos (la app vuelve a consultar la flota completa)
+ */
+export type FleetStreamStatus = 'connecting' | 'live' | 'reconnecting' | 'offline';
+
+export interface FleetStreamHandlers {
+  /** Último seq aplicado; null si la flota actual no viene del snapshot (no se aplican cambios) */
+  getSequence: () => number | null;
+  /** Cambios nuevos, en orden de seq */
+  onUpdates: (updates: FleetVehicleUpdate<Vehicle>[]) => void;
+  /** Se perdieron cambios: hay que recargar el snapshot completo */
+  onResyncRequired: () => void;
+  onStatus?: (status: FleetStreamStatus) => void;
+}
+
+// ==================== CONFIGURATION ====================
+
+export const FLEET_STREAM_CONFIG = {
+  // Una ingesta llega como muchas filas seguidas: se aplican juntas
+  BATCH_DELAY_MS: 500,
+  // Más cambios pendientes que esto: es más barato recargar el snapshot
+  CATCH_UP_LIMIT: 1000,
+  RECONNECT_BASE_MS: 2000,
+  RECONNECT_MAX_MS: 60 * 1000,
+  OFFLINE_AFTER_ATTEMPTS: 3,
+  // Cambios recibidos sin seq (carga en curso): reintentos antes de recargar el snapshot
+  SEQUENCE_RETRY_MS: 5000,
+  SEQUENCE_RETRY_ATTEMPTS: 3,
+  // Margen frente a la purga de filas viejas
+  RESUME_WINDOW_MS: (FLEET_UPDATE_RETENTION_MINUTES - 10) * 60 * 1000,
+};
+
+// ==================== MAPPING ====================
+
+export function rowToFleetUpdate(row: FleetVehicleUpdateRow): FleetVehicleUpdate<Vehicle> {
+  return {
+    seq: Number(row.seq),
+    key: row.vehicle_key,
+    removed: row.removed,
+    vehicle: row.vehicle
+  };
+}
+
+// ==================== STREAM ====================
+
+/**
+ * Se suscribe a los cambios de la flota. Retorna la función para cancelar.
+ */
+export function subscribeToFleetUpdates(handlers: FleetStreamHandlers): () => void {
+  let channel: ReturnType<typeof supabase.channel> | null = null;
+  let closed = false;
+  let attempts = 0;
+  let disconnectedAt: number | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+  let sequenceRetries = 0;
+  let resyncRequested = false;
+  const pending = new Map<number, FleetVehicleUpdate<Vehicle>>();
+
+  const flush = () => {
+    flushTimer = null;
+    const sequence = handlers.getSequence();
+    // Sin seq todavía (carga en curso): se conservan y se reintenta. Si la flota
+    // sigue sin seq (no vino del snapshot) se recarga el snapshot y se intenta
+    // una vez más con el seq que traiga; si tampoco, se espera a la próxima ingesta
+    if (sequence === null) {
+      if (resyncRequested) return;
+      sequenceRetries += 1;
+      if (sequenceRetries >= FLEET_STREAM_CONFIG.SEQUENCE_RETRY_ATTEMPTS) {
+        sequenceRetries = 0;
+        resyncRequested = true;
+        console.warn('[Fleet Stream] Updates received without a fleet sequence, reloading snapshot');
+        handlers.onResyncRequired();
+      }
+      flushTimer = setTimeout(flush, FLEET_STREAM_CONFIG.SEQUENCE_RETRY_MS);
+      return;
+    }
+    resyncRequested = false;
+    sequenceRetries = 0;
+
+    const updates = [...pending.values()]
+      .filter(update => update.seq > sequence)
+      .sort((a, b) => a.seq - b.seq);
+    pending.clear();
+
+    if (updates.length > 0) handlers.onUpdates(updates);
+  };
+
+  const enqueue = (updates: FleetVehicleUpdate<Vehicle>[]) => {
+    updates.forEach(update => pending.set(update.seq, update));
+    resyncRequested = false;
+
+    // Map conserva el orden de llegada: se descartan los más viejos
+    while (pending.size > FLEET_STREAM_CONFIG.CATCH_UP_LIMIT) {
+      pending.delete(pending.keys().next().value);
+    }
+
+    if (!flushTimer) flushTimer = setTimeout(flush, FLEET_STREAM_CONFIG.BATCH_DELAY_MS);
+  };
+
+  // Cambios ocurridos mientras el canal estuvo caído
+  const catchUp = async (since: number | null) => {
+    const sequence = handlers.getSequence();
+    if (sequence === null) return;
+
+    if (since !== null && Date.now() - since > FLEET_STREAM_CONFIG.RESUME_WINDOW_MS) {
+      console.warn('[Fleet Stream] Disconnected longer than the update retention, reloading snapshot');
+      handlers.onResyncRequired();
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('fleet_vehicle_updates')
+      .select('*')
+      .gt('seq', sequence)
+      .order('seq', { ascending: true })
+      .limit(FLEET_STREAM_CONFIG.CATCH_UP_LIMIT);
+
+    if (error) {
+      console.error('[Fleet Stream] Error catching up:', error.message);
+      handlers.onResyncRequired();
+      return;
+    }
+
+    if ((data || []).length >= FLEET_STREAM_CONFIG.CATCH_UP_LIMIT) {
+      handlers.onResyncRequired();
+      return;
+    }
+
+    if (data && data.length > 0) {
+      console.log(`[Fleet Stream] Resumed from seq ${sequence} with ${data.length} updates`);
+      enqueue((data as FleetVehicleUpdateRow[]).map(rowToFleetUpdate));
+    }
+  };
+
+  const scheduleReconnect = () => {
+    if (closed || reconnectTimer) return;
+    if (disconnectedAt === null) disconnectedAt = Date.now();
+
+    if (channel) {
+      const previous = channel;
+      channel = null;
+      supabase.removeChannel(previous);
+    }
+
+    attempts += 1;
+    handlers.onStatus?.(attempts >= FLEET_STREAM_CONFIG.OFFLINE_AFTER_ATTEMPTS ? 'offline' : 'reconnecting');
+
+    const delay = Math.min(
+      FLEET_STREAM_CONFIG.RECONNECT_BASE_MS * 2 ** (attempts - 1),
+      FLEET_STREAM_CONFIG.RECONNECT_MAX_MS
+    );
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, delay);
+  };
+
+  const connect = () => {
+    if (closed) return;
+    if (attempts === 0) handlers.onStatus?.('connecting');
+
+    const current = supabase
+      .channel('fleet-updates')
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'fleet_vehicle_updates' }, (payload: any) => {
+        enqueue([rowToFleetUpdate(payload.new as FleetVehicleUpdateRow)]);
+      })
+      .subscribe((status: string) => {
+        // Estados de un canal que ya se reemplazó o se cerró a propósito
+        if (closed || current !== channel) return;
+
+        if (status === 'SUBSCRIBED') {
+          const since = disconnectedAt;
+          attempts = 0;
+          disconnectedAt = null;
+          handlers.onStatus?.('live');
+          catchUp(since);
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+          scheduleReconnect();
+        }
+      });
+
+    channel = current;
+  };
+
+  // Al volver la red no se espera el próximo reintento
+  const handleOnline = () => {
+    if (closed || !reconnectTimer) return;
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+    connect();
+  };
+
+  window.addEventListener('online', handleOnline);
+  connect();
+
+  return () => {
+    closed = true;
+    window.removeEventListener('online', handleOnline);
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    if (flushTimer) clearTimeout(flushTimer);
+    if (channel) supabase.removeChannel(channel);
+    channel = null;
+  };
+}
@@ -0,0 +1,66 @@
+import { Vehicle } from '../types';
+import { getProvider } from './telematics';
+import { VehiclePosition } from './positionHistoryService';
+import { detectFuelChange, FuelChange, FuelReading } from '../supabase/functions/_shared/fuelMonitor';
+
+/**
+ * Serie de combustible del detalle del vehículo.
+ * Las alertas de caída y recarga las genera el worker alert-monitor (_shared/fuelMonitor.ts)
+ */
+
+// ==================== TYPES ====================
+
+export interface FuelHistoryAnalysis {
+  readings: FuelReading[];
+  changes: FuelChange[];
+  /** Combustible consumido en el periodo, sin contar recargas ni caídas sospechosas (%) */
+  consumedPercent: number;
+  /** Combustible agregado por recargas (%) */
+  refueledPercent: number;
+}
+
+// ==================== DETECTION ====================
+
+/**
+ * El proveedor reporta combustible y la lectura es utilizable (0 = sin dato)
+ */
+export function hasFuelData(vehicle: Pick<Vehicle, 'source' | 'fuelLevel'>): boolean {
+  const provider = getProvider(vehicle.source);
+  return (!provider || provider.capabilities.fuelLevel) && vehicle.fuelLevel > 0;
+}
+
+// ==================== HISTORY ====================
+
+/**
+ * Analiza el histórico de posiciones de un vehículo: serie de combustible,
+ * caídas/recargas y consumo total del periodo
+ */
+export function analyzeFuelHistory(points: VehiclePosition[]): FuelHistoryAnalysis {
+  const readings: FuelReading[] = points
+    .filter(point => Number(point.fuel_level) > 0)
+    .map(point => ({
+      fuelLevel: Number(point.fuel_level),
+      speed: Number(point.speed),
+      latitude: Number(point.latitude),
+      longitude: Number(point.longitude),
+      recordedAt: point.recorded_at
+    }));
+
+  const changes: FuelChange[] = [];
+  let consumedPercent = 0;
+  let refueledPercent = 0;
+
+  for (let i = 1; i < readings.length; i++) {
+    const change = detectFuelChange(readings[i - 1], readings[i]);
+    const delta = readings[i].fuelLevel - readings[i - 1].fuelLevel;
+
+    if (change) {
+      changes.push(change);
+      if (change.type === 'refuel') refueledPercent += change.delta;
+    } else if (delta < 0) {
+      consumedPercent += -delta;
+    }
+  }
+
+  return { readings, changes, consumedPercent, refueledPercent };
+}
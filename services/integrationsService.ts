@@ -0,0 +1,28 @@
+import { apiFetch } from './apiClient';
+import type { IntegrationStatus } from '../api/_lib/integrationsConfig';
+
+export type { IntegrationId, IntegrationStatus } from '../api/_lib/integrationsConfig';
+
+// ==================== INTEGRATIONS ====================
+
+export const integrationsService = {
+  /**
+   * Estado de las integraciones (/api/integrations)
+   * Las credenciales viven en variables de entorno del servidor; aquí solo llega
+   * si están configuradas, con cuentas y usuarios enmascarados
+   */
+  async getStatus(): Promise<{ success: boolean; data?: IntegrationStatus[]; checkedAt?: string; error?: string }> {
+    try {
+      const result = await apiFetch('/api/integrations', { method: 'GET' });
+
+      if (!result?.success) {
+        throw new Error(result?.error || 'Invalid response from Integrations API');
+      }
+
+      return { success: true, data: result.data, checkedAt: result.checkedAt };
+    } catch (error: any) {
+      console.error('[Integrations] Error fetching integrations status:', error);
+      return { success: false, error: error.message };
+    }
+  },
+};
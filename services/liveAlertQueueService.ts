@@ -0,0 +1,379 @@
+import { Alert, AlertSeverity, AlertType, ApiSource } from '../types';
+import { supabase } from './supabaseClient';
+import { fleetVehicleKey } from '../supabase/functions/_shared/fleetUpdates';
+
+/**
+ * Cola compartida de alertas activas (tabla live_alerts)
+ *
+ * Todas las consolas leen y escriben la misma cola y reciben los cambios por
+ * Supabase Realtime, así que reportar, tomar, confirmar o guardar una alerta en
+ * una consola se refleja en las demás en segundos. Reportar y tomar se hacen con
+ * una actualización condicional: si dos operadores lo intentan a la vez, solo
+ * uno lo consigue y el otro ve quién se le adelantó.
+ *
+ * Si la tabla no está disponible la app sigue con el caché local (alertService).
+ */
+
+// ==================== TYPES ====================
+
+/** Fila de live_alerts */
+export interface LiveAlertRow {
+  id: string;
+  alert_id: string;
+  vehicle_id: string;
+  plate: string;
+  driver: string | null;
+  type: string;
+  severity: string;
+  timestamp: string;
+  location: string | null;
+  latitude: number | string | null;
+  longitude: number | string | null;
+  speed: number | string | null;
+  details: string | null;
+  contract: string | null;
+  source: string | null;
+  status: 'active' | 'saved';
+  claimed_by: string | null;
+  claimed_at: string | null;
+  sent: boolean;
+  sent_at: string | null;
+  sent_by: string | null;
+  acknowledged_at: string | null;
+  acknowledged_by: string | null;
+  saved_at: string | null;
+  saved_by: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export type LiveAlertChange =
+  | { type: 'upsert'; alert: Alert }
+  | { type: 'remove'; alertId: string };
+
+export type LiveQueueStatus = 'connecting' | 'live' | 'offline';
+
+/** Resultado de tomar o reportar: claimed=false si otra consola se adelantó */
+export interface LiveAlertClaimResult {
+  success: boolean;
+  claimed?: boolean;
+  by?: string | null;
+  at?: string | null;
+  error?: string;
+}
+
+// ==================== CONFIGURATION ====================
+
+export const LIVE_ALERT_CONFIG = {
+  RETENTION_HOURS: 24,
+  MAX_ACTIVE: 500,
+  DEDUP_WINDOW_MINUTES: 5,
+};
+
+// ==================== MAPPING ====================
+
+export function rowToAlert(row: LiveAlertRow): Alert {
+  return {
+    id: row.alert_id,
+    vehicleId: row.vehicle_id,
+    plate: row.plate,
+    type: row.type as AlertType,
+    severity: row.severity as AlertSeverity,
+    timestamp: row.timestamp,
+    location: row.location || '',
+    latitude: Number(row.latitude) || 0,
+    longitude: Number(row.longitude) || 0,
+    speed: Number(row.speed) || 0,
+    driver: row.driver || '',
+    source: row.source as ApiSource,
+    contract: row.contract || undefined,
+    details: row.details || '',
+    sent: row.sent,
+    sentAt: row.sent_at || undefined,
+    sentBy: row.sent_by || undefined,
+    claimedBy: row.claimed_by || undefined,
+    claimedAt: row.claimed_at || undefined,
+    acknowledged: !!row.acknowledged_at,
+    acknowledgedAt: row.acknowledged_at || undefined,
+    acknowledgedBy: row.acknowledged_by || undefined,
+    saved: row.status === 'saved',
+  };
+}
+
+// vehicle_id es la clave estable (proveedor + placa): dos consolas con la misma
+// lectura publican la misma fila aunque su lista de vehículos sea de otra versión
+const alertToRow = (alert: Alert) => ({
+  alert_id: alert.id,
+  vehicle_id: fleetVehicleKey(alert),
+  plate: alert.plate,
+  driver: alert.driver,
+  type: alert.type,
+  severity: alert.severity,
+  timestamp: alert.timestamp,
+  location: alert.location,
+  latitude: alert.latitude,
+  longitude: alert.longitude,
+  speed: alert.speed,
+  details: alert.details,
+  contract: alert.contract || null,
+  source: alert.source,
+});
+
+/**
+ * Misma alerta: mismo vehículo (proveedor + placa) y tipo con menos de
+ * DEDUP_WINDOW_MINUTES entre lecturas (el timestamp es la hora del reporte del
+ * equipo, que llega con minutos de retraso)
+ */
+export function isSameAlertWindow(a: Alert, b: Alert): boolean {
+  return fleetVehicleKey(a) === fleetVehicleKey(b) &&
+    a.type === b.type &&
+    Math.abs(new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()) < LIVE_ALERT_CONFIG.DEDUP_WINDOW_MINUTES * 60 * 1000;
+}
+
+/**
+ * Aplica un cambio recibido por Realtime a la lista de alertas de la consola
+ */
+export function applyLiveAlertChange(alerts: Alert[], change: LiveAlertChange): Alert[] {
+  if (change.type === 'remove') {
+    return alerts.filter(alert => alert.id !== change.alertId);
+  }
+
+  const incoming = change.alert;
+  if (incoming.saved) {
+    return alerts.filter(alert => alert.id !== incoming.id);
+  }
+
+  if (alerts.some(alert => alert.id === incoming.id)) {
+    return alerts.map(alert => alert.id === incoming.id ? incoming : alert);
+  }
+
+  // Otra consola publicó otra lectura de una alerta que ya está en la cola
+  if (alerts.some(alert => isSameAlertWindow(alert, incoming))) {
+    return alerts;
+  }
+
+  return [incoming, ...alerts].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+}
+
+// ==================== QUEUE ====================
+
+/**
+ * Alertas de la cola de las últimas RETENTION_HOURS horas
+ * Incluye las ya guardadas (saved=true) para que una nueva lectura de la misma
+ * alerta no vuelva a entrar a la cola; la consola solo muestra las activas
+ */
+export async function fetchLiveAlerts(
+  retentionHours: number = LIVE_ALERT_CONFIG.RETENTION_HOURS
+): Promise<{ success: boolean; data?: Alert[]; error?: string }> {
+  try {
+    const cutoff = new Date(Date.now() - retentionHours * 60 * 60 * 1000);
+    const { data, error } = await supabase
+      .from('live_alerts')
+      .select('*')
+      .gte('timestamp', cutoff.toISOString())
+      .order('timestamp', { ascending: false })
+      .limit(LIVE_ALERT_CONFIG.MAX_ACTIVE);
+
+    if (error) throw error;
+    return { success: true, data: (data || []).map(rowToAlert) };
+  } catch (error: any) {
+    console.error('[LiveAlerts] Error fetching active alerts:', error);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Publica en la cola las alertas detectadas por esta consola
+ * Si otra consola ya publicó la misma lectura, la fila existente no se toca
+ */
+export async function publishAlerts(alerts: Alert[]): Promise<{ success: boolean; inserted?: number; error?: string }> {
+  if (alerts.length === 0) return { success: true, inserted: 0 };
+
+  try {
+    const { data, error } = await supabase
+      .from('live_alerts')
+      .upsert(alerts.map(alertToRow), { onConflict: 'alert_id', ignoreDuplicates: true })
+      .select('id');
+
+    if (error) throw error;
+    return { success: true, inserted: (data || []).length };
+  } catch (error: any) {
+    console.error('[LiveAlerts] Error publishing alerts:', error);
+    return { success: false, error: error.message };
+  }
+}
+
+async function getLiveAlert(alertId: string): Promise<LiveAlertRow | null> {
+  const { data, error } = await supabase
+    .from('live_alerts')
+    .select('*')
+    .eq('alert_id', alertId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Marca la alerta como reportada por WhatsApp solo si nadie lo hizo antes
+ */
+export async function claimAlertForSending(alertId: string, sentBy: string): Promise<LiveAlertClaimResult> {
+  try {
+    const { data, error } = await supabase
+      .from('live_alerts')
+      .update({ sent: true, sent_at: new Date().toISOString(), sent_by: sentBy })
+      .eq('alert_id', alertId)
+      .eq('sent', false)
+      .select('alert_id');
+
+    if (error) throw error;
+    if ((data || []).length > 0) return { success: true, claimed: true };
+
+    const current = await getLiveAlert(alertId);
+    if (!current) return { success: false, error: 'La alerta no está en la cola compartida' };
+    return { success: true, claimed: false, by: current.sent_by, at: current.sent_at };
+  } catch (error: any) {
+    console.error('[LiveAlerts] Error claiming alert for sending:', error);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Toma la alerta para atenderla; si ya la tiene otro operador retorna quién
+ */
+export async function claimAlert(alertId: string, claimedBy: string): Promise<LiveAlertClaimResult> {
+  try {
+    const { data, error } = await supabase
+      .from('live_alerts')
+      .update({ claimed_by: claimedBy, claimed_at: new Date().toISOString() })
+      .eq('alert_id', alertId)
+      .is('claimed_by', null)
+      .select('alert_id');
+
+    if (error) throw error;
+    if ((data || []).length > 0) return { success: true, claimed: true };
+
+    const current = await getLiveAlert(alertId);
+    if (!current) return { success: false, error: 'La alerta no está en la cola compartida' };
+    return { success: true, claimed: current.claimed_by === claimedBy, by: current.claimed_by, at: current.claimed_at };
+  } catch (error: any) {
+    console.error('[LiveAlerts] Error claiming alert:', error);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Libera una alerta tomada (solo quien la tomó)
+ */
+export async function releaseAlert(alertId: string, claimedBy: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from('live_alerts')
+      .update({ claimed_by: null, claimed_at: null })
+      .eq('alert_id', alertId)
+      .eq('claimed_by', claimedBy);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (error: any) {
+    console.error('[LiveAlerts] Error releasing alert:', error);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Confirmación (ack) visible en todas las consolas; quien confirma queda atendiéndola
+ */
+export async function markLiveAlertAcknowledged(alertId: string, acknowledgedBy: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from('live_alerts')
+      .update({ acknowledged_at: now, acknowledged_by: acknowledgedBy })
+      .eq('alert_id', alertId)
+      .is('acknowledged_at', null);
+
+    if (error) throw error;
+
+    await supabase
+      .from('live_alerts')
+      .update({ claimed_by: acknowledgedBy, claimed_at: now })
+      .eq('alert_id', alertId)
+      .is('claimed_by', null);
+
+    return { success: true };
+  } catch (error: any) {
+    console.error('[LiveAlerts] Error acknowledging alert:', error);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * La alerta pasó al historial: sale de la cola de todas las consolas
+ */
+export async function markLiveAlertSaved(alertId: string, savedBy: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    const { error } = await supabase
+      .from('live_alerts')
+      .update({ status: 'saved', saved_at: new Date().toISOString(), saved_by: savedBy })
+      .eq('alert_id', alertId);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (error: any) {
+    console.error('[LiveAlerts] Error marking alert as saved:', error);
+    return { success: false, error: error.message };
+  }
+}
+
+/**
+ * Elimina de la cola las alertas de más de RETENTION_HOURS horas
+ */
+export async function purgeOldLiveAlerts(
+  retentionHours: number = LIVE_ALERT_CONFIG.RETENTION_HOURS
+): Promise<{ success: boolean; error?: string }> {
+  try {
+    const cutoff = new Date(Date.now() - retentionHours * 60 * 60 * 1000).toISOString();
+    const { error } = await supabase
+      .from('live_alerts')
+      .delete()
+      .lt('timestamp', cutoff);
+
+    if (error) throw error;
+    return { success: true };
+  } catch (error: any) {
+    console.error('[LiveAlerts] Error purging live alerts:', error);
+    return { success: false, error: error.message };
+  }
+}
+
+// ==================== REALTIME ====================
+
+/**
+ * Suscribe la consola a los cambios de live_alerts
+ * Retorna la función para cancelar la suscripción
+ */
+export function subscribeToLiveAlerts(
+  onChange: (change: LiveAlertChange) => void,
+  onStatus?: (status: LiveQueueStatus) => void
+): () => void {
+  onStatus?.('connecting');
+
+  const channel = supabase
+    .channel('live-alerts')
+    .on('postgres_changes', { event: '*', schema: 'public', table: 'live_alerts' }, (payload: any) => {
+      if (payload.eventType === 'DELETE') {
+        if (payload.old?.alert_id) onChange({ type: 'remove', alertId: payload.old.alert_id });
+        return;
+      }
+      onChange({ type: 'upsert', alert: rowToAlert(payload.new as LiveAlertRow) });
+    })
+    .subscribe((status: string) => {
+      if (status === 'SUBSCRIBED') onStatus?.('live');
+      else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') onStatus?.('offline');
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -1,23 +1,44 @@
 // =====================================================
 // Notification Service
 // Handles push notifications, email alerts, and more
+//
+// Push y sonido son preferencias de cada navegador (localStorage).
+// Correo, Telegram y WhatsApp los envía el servidor: el worker alert-monitor
+// entrega las alertas nuevas a la Edge Function notification-dispatcher, que
+// toma los destinatarios de notification_settings y registra cada envío en
+// notification_deliveries (ver supabase/functions/_shared/notificationDispatch.ts)
 // =====================================================
 
 import { Alert } from '../types';
+import { getAuthHeaders, supabase } from './supabaseClient';
+import {
+    NotificationChannel,
+    NotificationDelivery,
+    NotificationDeliveryStatus,
+    NotificationSettingsRow,
+} from '../supabase/functions/_shared/notificationDispatch';
+
+export type {
+    NotificationChannel,
+    NotificationDelivery,
+    NotificationDeliveryStatus,
+    NotificationSettingsRow,
+} from '../supabase/functions/_shared/notificationDispatch';
+export {
+    NOTIFICATION_CHANNEL_LABELS,
+    formatAlertForEmail,
+    formatAlertForTelegram,
+    formatAlertForWhatsApp,
+} from '../supabase/functions/_shared/notificationDispatch';
 
 // =====================================================
 // TYPES
 // =====================================================
 
+/** Preferencias locales del navegador (los canales del servidor están en notification_settings) */
 export interface NotificationConfig {
     enablePush: boolean;
     enableSound: boolean;
-    enableEmail: boolean;
-    emailRecipients: string[];
-    enableWhatsApp: boolean;
-    whatsAppNumbers: string[];
-    enableTelegram: boolean;
-    telegramChatId: string;
     minSeverity: 'low' | 'medium' | 'high' | 'critical';
 }
 
@@ -37,12 +58,6 @@ export interface NotificationPayload {
 const DEFAULT_CONFIG: NotificationConfig = {
     enablePush: true,
     enableSound: true,
-    enableEmail: false,
-    emailRecipients: [],
-    enableWhatsApp: false,
-    whatsAppNumbers: [],
-    enableTelegram: false,
-    telegramChatId: '',
     minSeverity: 'high',
 };
 
@@ -155,192 +170,94 @@ export const notifyAlert = async (alert: Alert): Promise<void> => {
         await sendPushNotification(payload);
     }
 
-    // Email notification (placeholder - requires backend)
-    if (config.enableEmail && config.emailRecipients.length > 0) {
-        await sendEmailNotification(alert, config.emailRecipients);
-    }
-
-    // WhatsApp notification (placeholder - requires backend)
-    if (config.enableWhatsApp && config.whatsAppNumbers.length > 0) {
-        await sendWhatsAppNotification(alert, config.whatsAppNumbers);
-    }
-
-    // Telegram notification (placeholder - requires backend)
-    if (config.enableTelegram && config.telegramChatId) {
-        await sendTelegramNotification(alert, config.telegramChatId);
-    }
+    // Correo, WhatsApp y Telegram: los envía el servidor (notification-dispatcher)
 };
 
 // =====================================================
-// EMAIL NOTIFICATION (Placeholder)
+// SERVER NOTIFICATIONS (notification-dispatcher)
 // =====================================================
 
-export const sendEmailNotification = async (
-    alert: Alert,
-    recipients: string[]
-): Promise<boolean> => {
-    // TODO: Implement with Supabase Edge Function or external service
-    console.log('📧 Email notification would be sent to:', recipients, 'for alert:', alert.id);
-
-    // Example implementation with a backend endpoint:
-    /*
+export const getNotificationSettings = async (): Promise<{ success: boolean; data?: NotificationSettingsRow[]; error?: string }> => {
     try {
-      const response = await fetch('/api/notifications/email', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          recipients,
-          subject: `🚨 Alerta: ${alert.type} - ${alert.plate}`,
-          body: formatAlertForEmail(alert),
-        }),
-      });
-      return response.ok;
-    } catch (error) {
-      console.error('Error sending email:', error);
-      return false;
+        const { data, error } = await supabase
+            .from('notification_settings')
+            .select('*')
+            .order('contract', { ascending: true, nullsFirst: true });
+
+        if (error) throw error;
+        return { success: true, data: data || [] };
+    } catch (error: any) {
+        console.error('[Notifications] Error fetching notification settings:', error);
+        return { success: false, error: error.message };
     }
-    */
-
-    return true;
 };
 
-// =====================================================
-// WHATSAPP NOTIFICATION (Placeholder)
-// =====================================================
-
-export const sendWhatsAppNotification = async (
-    alert: Alert,
-    phoneNumbers: string[]
-): Promise<boolean> => {
-    // TODO: Implement with WhatsApp Business API or Twilio
-    console.log('📱 WhatsApp notification would be sent to:', phoneNumbers, 'for alert:', alert.id);
-
-    // Example implementation:
-    /*
-    const message = formatAlertForWhatsApp(alert);
-    
-    for (const phone of phoneNumbers) {
-      await fetch('https://api.twilio.com/...', {
-        method: 'POST',
-        body: JSON.stringify({ to: phone, message }),
-      });
+export const saveNotificationSettings = async (
+    settings: Omit<NotificationSettingsRow, 'id' | 'created_at' | 'updated_at'> & { id?: string }
+): Promise<{ success: boolean; data?: NotificationSettingsRow; error?: string }> => {
+    try {
+        const { data, error } = settings.id
+            ? await supabase.from('notification_settings').update(settings).eq('id', settings.id).select().single()
+            : await supabase.from('notification_settings').insert(settings).select().single();
+
+        if (error) throw error;
+        return { success: true, data };
+    } catch (error: any) {
+        console.error('[Notifications] Error saving notification settings:', error);
+        return { success: false, error: error.message };
     }
-    */
-
-    return true;
-};
-
-// =====================================================
-// TELEGRAM NOTIFICATION (Placeholder)
-// =====================================================
-
-export const sendTelegramNotification = async (
-    alert: Alert,
-    chatId: string
-): Promise<boolean> => {
-    // TODO: Implement with Telegram Bot API
-    console.log('📢 Telegram notification would be sent to chat:', chatId, 'for alert:', alert.id);
-
-    // Example implementation:
-    /*
-    const message = formatAlertForTelegram(alert);
-    const botToken = import.meta.env.VITE_TELEGRAM_BOT_TOKEN;
-    
-    await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        chat_id: chatId,
-        text: message,
-        parse_mode: 'HTML',
-      }),
-    });
-    */
-
-    return true;
 };
 
-// =====================================================
-// MESSAGE FORMATTERS
-// =====================================================
-
-export const formatAlertForWhatsApp = (alert: Alert): string => {
-    const isSpeed = alert.type.toLowerCase().includes('velocidad');
-
-    return `🚨 *ALERTA DE FLOTA*
-
-*Tipo:* ${alert.type}
-*Vehículo:* ${alert.plate}
-*Conductor:* ${alert.driver}
-Detalles: ${alert.details}
-${isSpeed ? `*Velocidad:* ${alert.speed} km/h ⚠️` : `Velocidad: ${alert.speed} km/h`}
-Ubicación: ${alert.location}
-Hora: ${new Date(alert.timestamp).toLocaleString()}
-${alert.contract ? `Contrato: ${alert.contract}` : ''}
-Fuente: ${alert.source}`;
+/**
+ * Registro de envíos (más recientes primero)
+ */
+export const getNotificationDeliveries = async (
+    filters: { status?: NotificationDeliveryStatus; channel?: NotificationChannel; limit?: number } = {}
+): Promise<{ success: boolean; data?: NotificationDelivery[]; error?: string }> => {
+    try {
+        let query = supabase
+            .from('notification_deliveries')
+            .select('*')
+            .order('created_at', { ascending: false })
+            .limit(filters.limit ?? 100);
+
+        if (filters.status) query = query.eq('status', filters.status);
+        if (filters.channel) query = query.eq('channel', filters.channel);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        return { success: true, data: data || [] };
+    } catch (error: any) {
+        console.error('[Notifications] Error fetching notification deliveries:', error);
+        return { success: false, error: error.message };
+    }
 };
 
-export const formatAlertForTelegram = (alert: Alert): string => {
-    const severityEmoji = {
-        critical: '🔴',
-        high: '🟠',
-        medium: '🟡',
-        low: '🟢',
-    };
-
-    return `${severityEmoji[alert.severity as keyof typeof severityEmoji] || '⚪'} <b>ALERTA: ${alert.type}</b>
-
-🚗 <b>Vehículo:</b> ${alert.plate}
-👤 <b>Conductor:</b> ${alert.driver}
-📍 <b>Ubicación:</b> ${alert.location}
-⚡ <b>Velocidad:</b> ${alert.speed} km/h
-🕐 <b>Hora:</b> ${new Date(alert.timestamp).toLocaleString()}
-${alert.contract ? `📋 <b>Contrato:</b> ${alert.contract}` : ''}
+/**
+ * Envía un mensaje de prueba por el canal indicado a través del dispatcher
+ * Requiere sesión con config:edit y un destinatario de notification_settings
+ */
+export const sendTestNotification = async (
+    channel: NotificationChannel,
+    recipient: string
+): Promise<{ success: boolean; data?: { queued: number; sent: number; retrying: number; failed: number }; error?: string }> => {
+    try {
+        // El dispatcher verifica el JWT del usuario: sin sesión respondería 401
+        const headers = await getAuthHeaders();
+        if (!headers.Authorization) throw new Error('Inicia sesión para enviar mensajes de prueba');
 
-<i>${alert.details}</i>`;
-};
+        const { data, error } = await supabase.functions.invoke('notification-dispatcher', {
+            headers,
+            body: { test: { channel, recipient } },
+        });
 
-export const formatAlertForEmail = (alert: Alert): string => {
-    return `
-    <h2>🚨 Alerta de Flota: ${alert.type}</h2>
-    
-    <table style="border-collapse: collapse; width: 100%; max-width: 600px;">
-      <tr>
-        <td style="padding: 8px; border: 1px solid #ddd;"><strong>Vehículo</strong></td>
-        <td style="padding: 8px; border: 1px solid #ddd;">${alert.plate}</td>
-      </tr>
-      <tr>
-        <td style="padding: 8px; border: 1px solid #ddd;"><strong>Conductor</strong></td>
-        <td style="padding: 8px; border: 1px solid #ddd;">${alert.driver}</td>
-      </tr>
-      <tr>
-        <td style="padding: 8px; border: 1px solid #ddd;"><strong>Ubicación</strong></td>
-        <td style="padding: 8px; border: 1px solid #ddd;">${alert.location}</td>
-      </tr>
-      <tr>
-        <td style="padding: 8px; border: 1px solid #ddd;"><strong>Velocidad</strong></td>
-        <td style="padding: 8px; border: 1px solid #ddd;">${alert.speed} km/h</td>
-      </tr>
-      <tr>
-        <td style="padding: 8px; border: 1px solid #ddd;"><strong>Hora</strong></td>
-        <td style="padding: 8px; border: 1px solid #ddd;">${new Date(alert.timestamp).toLocaleString()}</td>
-      </tr>
-      ${alert.contract ? `
-      <tr>
-        <td style="padding: 8px; border: 1px solid #ddd;"><strong>Contrato</strong></td>
-        <td style="padding: 8px; border: 1px solid #ddd;">${alert.contract}</td>
-      </tr>
-      ` : ''}
-    </table>
-    
-    <p style="margin-top: 20px;">${alert.details}</p>
-    
-    <hr style="margin-top: 30px;">
-    <p style="font-size: 12px; color: #666;">
-      Este mensaje fue generado automáticamente por Torre de Control.<br>
-      Para más detalles, accede al sistema.
-    </p>
-  `;
+        if (error) throw error;
+        if (!data?.success) throw new Error(data?.error || 'Error en notification-dispatcher');
+        return { success: true, data };
+    } catch (error: any) {
+        console.error('[Notifications] Error sending test notification:', error);
+        return { success: false, error: error.message };
+    }
 };
 
 // =====================================================
@@ -353,7 +270,8 @@ export default {
     notifyAlert,
     getNotificationConfig,
     saveNotificationConfig,
-    formatAlertForWhatsApp,
-    formatAlertForTelegram,
-    formatAlertForEmail,
+    getNotificationSettings,
+    saveNotificationSettings,
+    getNotificationDeliveries,
+    sendTestNotification,
 };
@@ -0,0 +1,237 @@
+import { Vehicle } from '../types';
+import { supabase } from './supabaseClient';
+import { haversineDistance, isValidCoordinate } from '../supabase/functions/_shared/geo';
+
+// ==================== TYPES ====================
+
+export interface VehiclePosition {
+  id?: number;
+  plate: string;
+  vehicle_id?: string;
+  source?: string;
+  latitude: number;
+  longitude: number;
+  speed: number;
+  status?: string;
+  location?: string;
+  driver?: string;
+  contract?: string;
+  fuel_level?: number;
+  odometer?: number;
+  event?: string;
+  recorded_at: string;
+  created_at?: string;
+}
+
+type StoredPoint = Pick<VehiclePosition, 'latitude' | 'longitude' | 'speed' | 'status' | 'fuel_level' | 'recorded_at'>;
+
+// ==================== CONFIGURATION ====================
+
+const POSITION_HISTORY_CONFIG = {
+  /** Desplazamiento mínimo (metros) para considerar que el vehículo se movió */
+  MIN_DISTANCE_METERS: 15,
+  /** Aunque no haya cambios, guardar un punto cada N minutos para no dejar huecos en la línea de tiempo */
+  HEARTBEAT_MINUTES: 30,
+  /** Variación de combustible (puntos %) que justifica un punto nuevo aunque el vehículo esté quieto */
+  MIN_FUEL_CHANGE_PERCENT: 5,
+};
+
+// Última posición guardada por placa (se inicializa desde vehicle_latest_positions)
+const lastStoredPoints = new Map<string, StoredPoint>();
+let lastStoredPointsLoaded = false;
+
+// ==================== DEDUPLICATION ====================
+
+/**
+ * Determina si la posición actual del vehículo aporta información nueva
+ * respecto al último punto guardado
+ */
+export function hasPositionChanged(previous: StoredPoint | undefined, vehicle: Vehicle): boolean {
+  if (!previous) return true;
+
+  const distance = haversineDistance(previous.latitude, previous.longitude, vehicle.latitude, vehicle.longitude);
+  if (distance >= POSITION_HISTORY_CONFIG.MIN_DISTANCE_METERS) return true;
+
+  if (previous.status !== vehicle.status) return true;
+  if ((previous.speed > 0) !== (vehicle.speed > 0)) return true;
+
+  const previousFuel = Number(previous.fuel_level) || 0;
+  if (vehicle.fuelLevel > 0 && Math.abs(vehicle.fuelLevel - previousFuel) >= POSITION_HISTORY_CONFIG.MIN_FUEL_CHANGE_PERCENT) return true;
+
+  const minutesSinceLast = (new Date(vehicle.lastUpdate).getTime() - new Date(previous.recorded_at).getTime()) / (1000 * 60);
+  return minutesSinceLast >= POSITION_HISTORY_CONFIG.HEARTBEAT_MINUTES;
+}
+
+async function loadLastStoredPoints(): Promise<void> {
+  if (lastStoredPointsLoaded) return;
+
+  const { data, error } = await supabase
+    .from('vehicle_latest_positions')
+    .select('*');
+
+  if (error) {
+    console.warn('[PositionHistory] Could not load latest positions:', error.message);
+    return;
+  }
+
+  (data || []).forEach((row: any) => {
+    lastStoredPoints.set(row.plate, {
+      latitude: Number(row.latitude),
+      longitude: Number(row.longitude),
+      speed: Number(row.speed),
+      status: row.status,
+      fuel_level: row.fuel_level !== null && row.fuel_level !== undefined ? Number(row.fuel_level) : undefined,
+      recorded_at: row.recorded_at
+    });
+  });
+
+  lastStoredPointsLoaded = true;
+}
+
+// ==================== WRITE ====================
+
+/**
+ * Guarda la posición actual de cada vehículo en vehicle_positions,
+ * omitiendo los puntos que no cambiaron desde el último guardado
+ */
+export async function recordVehiclePositions(vehicles: Vehicle[]): Promise<{ success: boolean; recorded: number; error?: string }> {
+  try {
+    await loadLastStoredPoints();
+
+    const rows: VehiclePosition[] = vehicles
+      .filter(vehicle => isValidCoordinate(vehicle.latitude, vehicle.longitude))
+      .filter(vehicle => hasPositionChanged(lastStoredPoints.get(vehicle.plate), vehicle))
+      .map(vehicle => ({
+        plate: vehicle.plate,
+        vehicle_id: vehicle.id,
+        source: vehicle.source,
+        latitude: vehicle.latitude,
+        longitude: vehicle.longitude,
+        speed: vehicle.speed,
+        status: vehicle.status,
+        location: vehicle.location,
+        driver: vehicle.driver,
+        contract: vehicle.contract,
+        fuel_level: vehicle.fuelLevel,
+        odometer: vehicle.odometer,
+        event: vehicle.event,
+        recorded_at: vehicle.lastUpdate
+      }));
+
+    if (rows.length === 0) {
+      return { success: true, recorded: 0 };
+    }
+
+    const { error } = await supabase
+      .from('vehicle_positions')
+      .upsert(rows, { onConflict: 'plate,recorded_at', ignoreDuplicates: true });
+
+    if (error) {
+      console.error('[PositionHistory] Error saving positions:', error);
+      return { success: false, recorded: 0, error: error.message };
+    }
+
+    rows.forEach(row => {
+      lastStoredPoints.set(row.plate, {
+        latitude: row.latitude,
+        longitude: row.longitude,
+        speed: row.speed,
+        status: row.status,
+        fuel_level: row.fuel_level,
+        recorded_at: row.recorded_at
+      });
+    });
+
+    return { success: true, recorded: rows.length };
+  } catch (error: any) {
+    console.error('[PositionHistory] Exception saving positions:', error);
+    return { success: false, recorded: 0, error: error.message || 'Error desconocido' };
+  }
+}
+
+// ==================== READ ====================
+
+/**
+ * Obtiene el recorrido de un vehículo en un rango de tiempo, ordenado cronológicamente
+ */
+export async function getPositionHistory(
+  plate: string,
+  startDate: string,
+  endDate: string
+): Promise<{ success: boolean; data?: VehiclePosition[]; error?: string }> {
+  try {
+    // Supabase limita a 1000 filas por consulta: paginar
+    let allData: VehiclePosition[] = [];
+    let from = 0;
+    const pageSize = 1000;
+    let hasMore = true;
+
+    while (hasMore) {
+      const { data, error } = await supabase
+        .from('vehicle_positions')
+        .select('*')
+        .eq('plate', plate)
+        .gte('recorded_at', startDate)
+        .lte('recorded_at', endDate)
+        .order('recorded_at', { ascending: true })
+        .range(from, from + pageSize - 1);
+
+      if (error) {
+        console.error('[PositionHistory] Error fetching history:', error);
+        return { success: false, error: error.message };
+      }
+
+      if (data && data.length > 0) {
+        allData = [...allData, ...data];
+        from += pageSize;
+        hasMore = data.length === pageSize;
+      } else {
+        hasMore = false;
+      }
+    }
+
+    return {
+      success: true,
+      data: allData.map(row => ({
+        ...row,
+        latitude: Number(row.latitude),
+        longitude: Number(row.longitude),
+        speed: Number(row.speed),
+        fuel_level: row.fuel_level !== null && row.fuel_level !== undefined ? Number(row.fuel_level) : undefined
+      }))
+    };
+  } catch (error: any) {
+    console.error('[PositionHistory] Exception fetching history:', error);
+    return { success: false, error: error.message || 'Error desconocido' };
+  }
+}
+
+/**
+ * Obtiene la posición más cercana (anterior o igual) a un instante dado
+ * Responde preguntas como "¿dónde estaba LHR713 a las 14:10 de ayer?"
+ */
+export async function getPositionAt(
+  plate: string,
+  at: string
+): Promise<{ success: boolean; data?: VehiclePosition | null; error?: string }> {
+  try {
+    const { data, error } = await supabase
+      .from('vehicle_positions')
+      .select('*')
+      .eq('plate', plate)
+      .lte('recorded_at', at)
+      .order('recorded_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('[PositionHistory] Error fetching position:', error);
+      return { success: false, error: error.message };
+    }
+
+    return { success: true, data };
+  } catch (error: any) {
+    console.error('[PositionHistory] Exception fetching position:', error);
+    return { success: false, error: error.message || 'Error desconocido' };
+  }
+}
@@ -0,0 +1,203 @@
+import { supabase } from './supabaseClient';
+import {
+  GeneratedReportRow,
+  REPORT_SCHEDULE_CONFIG,
+  ReportScheduleRow,
+  computeNextRun
+} from '../supabase/functions/_shared/reportSchedules';
+
+export type {
+  GeneratedReportRow,
+  ReportFormat,
+  ReportPeriod,
+  ReportScheduleRow,
+  ReportType
+} from '../supabase/functions/_shared/reportSchedules';
+export {
+  REPORT_FORMAT_LABELS,
+  REPORT_PERIOD_LABELS,
+  REPORT_TYPE_LABELS,
+  WEEKDAY_LABELS,
+  computeNextRun
+} from '../supabase/functions/_shared/reportSchedules';
+
+/** Campos que edita el usuario; next_run_at y el estado los maneja el servicio y el worker */
+export type ReportScheduleInput = Pick<
+  ReportScheduleRow,
+  'name' | 'report_type' | 'contract' | 'period' | 'run_time' | 'weekday' | 'day_of_month' | 'format' | 'recipients' | 'is_active'
+>;
+
+// ==================== SCHEDULES ====================
+
+export const reportScheduleService = {
+  async getAll(): Promise<{ success: boolean; data?: ReportScheduleRow[]; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('report_schedules')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return { success: true, data: data || [] };
+    } catch (error: any) {
+      console.error('[Reports] Error fetching report schedules:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  async create(schedule: ReportScheduleInput & { created_by?: string }): Promise<{ success: boolean; data?: ReportScheduleRow; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('report_schedules')
+        .insert({ ...schedule, next_run_at: computeNextRun(schedule).toISOString() })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return { success: true, data };
+    } catch (error: any) {
+      console.error('[Reports] Error creating report schedule:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  /**
+   * Al cambiar la periodicidad o la hora se recalcula la próxima ejecución
+   */
+  async update(id: string, schedule: ReportScheduleInput): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase
+        .from('report_schedules')
+        .update({ ...schedule, next_run_at: computeNextRun(schedule).toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error('[Reports] Error updating report schedule:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  async delete(id: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.from('report_schedules').delete().eq('id', id);
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error('[Reports] Error deleting report schedule:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  async toggleActive(schedule: ReportScheduleRow, isActive: boolean): Promise<{ success: boolean; error?: string }> {
+    try {
+      // Al reactivar no se generan las ejecuciones perdidas: sigue desde la próxima
+      const updates = isActive
+        ? { is_active: true, next_run_at: computeNextRun(schedule).toISOString() }
+        : { is_active: false };
+
+      const { error } = await supabase
+        .from('report_schedules')
+        .update(updates)
+        .eq('id', schedule.id);
+
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error('[Reports] Error toggling report schedule:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  /**
+   * Genera el reporte ahora: deja la programación vencida e invoca al worker.
+   * El worker la vuelve a programar para su próxima ejecución normal.
+   */
+  async runNow(id: string): Promise<{ success: boolean; data?: { generated: number; failed: number }; error?: string }> {
+    try {
+      const { error: updateError } = await supabase
+        .from('report_schedules')
+        .update({ next_run_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (updateError) throw updateError;
+
+      const { data, error } = await supabase.functions.invoke('report-scheduler', { body: {} });
+
+      if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Error en report-scheduler');
+      return { success: true, data: { generated: data.generated, failed: data.failed } };
+    } catch (error: any) {
+      console.error('[Reports] Error running report schedule:', error);
+      return { success: false, error: error.message };
+    }
+  }
+};
+
+// ==================== ARCHIVE ====================
+
+export const generatedReportService = {
+  async getRecent(limit: number = 100): Promise<{ success: boolean; data?: GeneratedReportRow[]; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('generated_reports')
+        .select('*')
+        .order('generated_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return { success: true, data: data || [] };
+    } catch (error: any) {
+      console.error('[Reports] Error fetching generated reports:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  /**
+   * Descarga el archivo del bucket y lo guarda en el equipo
+   */
+  async download(report: GeneratedReportRow): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { data, error } = await supabase.storage
+        .from(REPORT_SCHEDULE_CONFIG.BUCKET)
+        .download(report.file_path);
+
+      if (error) throw error;
+
+      const url = URL.createObjectURL(data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = report.file_path.split('/').pop() || `reporte.${report.format}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      return { success: true };
+    } catch (error: any) {
+      console.error('[Reports] Error downloading generated report:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  /**
+   * Borra el archivo y luego su registro (la política de Storage exige que el registro exista)
+   */
+  async delete(report: GeneratedReportRow): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error: storageError } = await supabase.storage
+        .from(REPORT_SCHEDULE_CONFIG.BUCKET)
+        .remove([report.file_path]);
+
+      if (storageError) throw storageError;
+
+      const { error } = await supabase.from('generated_reports').delete().eq('id', report.id);
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error('[Reports] Error deleting generated report:', error);
+      return { success: false, error: error.message };
+    }
+  }
+};
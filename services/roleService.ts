@@ -0,0 +1,138 @@
+import { supabase } from './supabaseClient';
+import {
+  BUILTIN_ROLES,
+  isValidRoleKey,
+  mergeRoleDefinitions,
+  RoleDefinition,
+  RoleKey
+} from '../supabase/functions/_shared/rolePermissions';
+
+export type { BuiltinRole, RoleDefinition, RoleKey } from '../supabase/functions/_shared/rolePermissions';
+export {
+  ALL_PERMISSIONS,
+  BUILTIN_ROLES,
+  DEFAULT_ROLE,
+  PERMISSION_GROUPS,
+  buildRlsPoliciesSql,
+  findRole,
+  isValidRoleKey,
+  resolveRolePermissions
+} from '../supabase/functions/_shared/rolePermissions';
+
+// ==================== ROLES ====================
+
+export const roleService = {
+  /**
+   * Roles del sistema más los personalizados de app_roles
+   * Si la tabla no existe aún (role_permissions.sql sin ejecutar) devuelve los del sistema
+   */
+  async getAll(): Promise<{ success: boolean; data: RoleDefinition[]; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('app_roles')
+        .select('*')
+        .order('name', { ascending: true });
+
+      if (error) throw error;
+      return { success: true, data: mergeRoleDefinitions((data || []) as RoleDefinition[]) };
+    } catch (error: any) {
+      console.error('[Roles] Error fetching roles:', error);
+      return { success: false, data: BUILTIN_ROLES, error: error.message };
+    }
+  },
+
+  /**
+   * Rol efectivo y contratos asignados de un usuario (user_profiles, no user_metadata)
+   */
+  async getUserAccess(userId: string): Promise<{
+    success: boolean;
+    data?: { role: RoleKey; is_active: boolean; contracts: string[] };
+    error?: string;
+  }> {
+    try {
+      const { data, error } = await supabase
+        .from('user_profiles')
+        .select('role, is_active, contracts')
+        .eq('id', userId)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return { success: false, error: 'Perfil no encontrado' };
+      return {
+        success: true,
+        data: { role: data.role, is_active: data.is_active !== false, contracts: data.contracts || [] }
+      };
+    } catch (error: any) {
+      console.error('[Roles] Error fetching user access:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  /**
+   * Crea o actualiza un rol personalizado
+   */
+  async save(
+    role: Pick<RoleDefinition, 'key' | 'name' | 'description' | 'permissions'>,
+    isNew: boolean
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (!isValidRoleKey(role.key)) {
+        return { success: false, error: 'La clave debe empezar con letra y tener solo minúsculas, números y guion bajo' };
+      }
+      if (BUILTIN_ROLES.some(builtin => builtin.key === role.key)) {
+        return { success: false, error: 'Los roles del sistema no se pueden modificar' };
+      }
+      if (!role.name.trim()) {
+        return { success: false, error: 'El nombre es requerido' };
+      }
+
+      const row = {
+        name: role.name.trim(),
+        description: role.description?.trim() || null,
+        permissions: role.permissions,
+      };
+
+      const { error } = isNew
+        ? await supabase.from('app_roles').insert({ ...row, key: role.key, is_system: false })
+        : await supabase.from('app_roles').update(row).eq('key', role.key);
+
+      if (error) {
+        if (error.code === '23505') return { success: false, error: 'Ya existe un rol con esa clave' };
+        throw error;
+      }
+
+      return { success: true };
+    } catch (error: any) {
+      console.error('[Roles] Error saving role:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  /**
+   * Elimina un rol personalizado sin usuarios asignados
+   */
+  async delete(key: RoleKey): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (BUILTIN_ROLES.some(builtin => builtin.key === key)) {
+        return { success: false, error: 'Los roles del sistema no se pueden eliminar' };
+      }
+
+      const { count, error: countError } = await supabase
+        .from('user_profiles')
+        .select('id', { count: 'exact', head: true })
+        .eq('role', key);
+
+      if (countError) throw countError;
+      if (count && count > 0) {
+        return { success: false, error: `El rol está asignado a ${count} usuario(s)` };
+      }
+
+      const { error } = await supabase.from('app_roles').delete().eq('key', key);
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error('[Roles] Error deleting role:', error);
+      return { success: false, error: error.message };
+    }
+  },
+};
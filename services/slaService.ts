@@ -0,0 +1,238 @@
+import { supabase } from './supabaseClient';
+import { SavedAlertWithPlans } from './databaseService';
+import { elapsedMinutes, evaluateSlaBreaches, SlaTarget } from '../supabase/functions/_shared/alertSla';
+
+export type { SlaTarget } from '../supabase/functions/_shared/alertSla';
+export { DEFAULT_SLA_TARGETS, SLA_SEVERITIES } from '../supabase/functions/_shared/alertSla';
+
+// ==================== TYPES ====================
+
+/** Cumplimiento de un grupo (contrato, operador o severidad) */
+export interface SlaGroupStats {
+  key: string;
+  total: number;
+  acknowledged: number;
+  resolved: number;
+  ackWithinSla: number;
+  resolvedWithinSla: number;
+  ackBreached: number;
+  resolutionBreached: number;
+  /** % de confirmaciones a tiempo sobre las ya definidas (confirmadas o vencidas); null sin datos */
+  ackCompliance: number | null;
+  resolutionCompliance: number | null;
+  avgAckMinutes: number | null;
+  avgResolveMinutes: number | null;
+  actionPlans: number;
+  actionPlansCompleted: number;
+}
+
+export interface SlaReport {
+  generatedAt: string;
+  totals: SlaGroupStats;
+  byContract: SlaGroupStats[];
+  byOperator: SlaGroupStats[];
+  bySeverity: SlaGroupStats[];
+}
+
+export interface SlaReportFilters {
+  startDate?: string;
+  endDate?: string;
+  contract?: string;
+}
+
+export const UNASSIGNED_OPERATOR = 'Sin asignar';
+
+// ==================== TARGETS ====================
+
+export const slaTargetService = {
+  async getAll(): Promise<{ success: boolean; data?: SlaTarget[]; error?: string }> {
+    try {
+      const { data, error } = await supabase
+        .from('alert_sla_targets')
+        .select('*')
+        .order('contract', { ascending: true, nullsFirst: true });
+
+      if (error) throw error;
+      return { success: true, data: data || [] };
+    } catch (error: any) {
+      console.error('[SLA] Error fetching SLA targets:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  /**
+   * Guarda las metas de un contrato (null = globales), una fila por severidad
+   */
+  async saveForContract(
+    contract: string | null,
+    targets: Pick<SlaTarget, 'severity' | 'ack_minutes' | 'resolve_minutes'>[]
+  ): Promise<{ success: boolean; error?: string }> {
+    try {
+      for (const target of targets) {
+        const existing = supabase
+          .from('alert_sla_targets')
+          .select('id')
+          .eq('severity', target.severity);
+
+        const { data: row, error: fetchError } = await (contract
+          ? existing.eq('contract', contract)
+          : existing.is('contract', null)
+        ).maybeSingle();
+
+        if (fetchError) throw fetchError;
+
+        const { error } = row
+          ? await supabase.from('alert_sla_targets').update(target).eq('id', row.id)
+          : await supabase.from('alert_sla_targets').insert({ ...target, contract });
+
+        if (error) throw error;
+      }
+
+      return { success: true };
+    } catch (error: any) {
+      console.error('[SLA] Error saving SLA targets:', error);
+      return { success: false, error: error.message };
+    }
+  },
+
+  async deleteForContract(contract: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      const { error } = await supabase.from('alert_sla_targets').delete().eq('contract', contract);
+      if (error) throw error;
+      return { success: true };
+    } catch (error: any) {
+      console.error('[SLA] Error deleting SLA targets:', error);
+      return { success: false, error: error.message };
+    }
+  },
+};
+
+// ==================== REPORT ====================
+
+const emptyGroup = (key: string): SlaGroupStats => ({
+  key,
+  total: 0,
+  acknowledged: 0,
+  resolved: 0,
+  ackWithinSla: 0,
+  resolvedWithinSla: 0,
+  ackBreached: 0,
+  resolutionBreached: 0,
+  ackCompliance: null,
+  resolutionCompliance: null,
+  avgAckMinutes: null,
+  avgResolveMinutes: null,
+  actionPlans: 0,
+  actionPlansCompleted: 0,
+});
+
+const percent = (part: number, total: number): number | null =>
+  total > 0 ? Math.round((part / total) * 1000) / 10 : null;
+
+const average = (values: number[]): number | null =>
+  values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : null;
+
+/**
+ * Responsable de la alerta para el reporte: asignado, si no quien la confirmó
+ */
+export const alertOperator = (alert: SavedAlertWithPlans): string =>
+  alert.assigned_to || alert.acknowledged_by || UNASSIGNED_OPERATOR;
+
+/**
+ * Arma el reporte de cumplimiento a partir de alert_history con sus planes de acción
+ * Las banderas guardadas por el worker se complementan con la evaluación al momento,
+ * así una alerta vencida cuenta aunque el barrido aún no la haya marcado
+ */
+export function buildSlaReport(alerts: SavedAlertWithPlans[], now: Date = new Date()): SlaReport {
+  const groups = {
+    totals: new Map<string, { stats: SlaGroupStats; ack: number[]; resolve: number[] }>(),
+    contract: new Map<string, { stats: SlaGroupStats; ack: number[]; resolve: number[] }>(),
+    operator: new Map<string, { stats: SlaGroupStats; ack: number[]; resolve: number[] }>(),
+    severity: new Map<string, { stats: SlaGroupStats; ack: number[]; resolve: number[] }>(),
+  };
+
+  const bucket = (map: typeof groups.totals, key: string) => {
+    if (!map.has(key)) map.set(key, { stats: emptyGroup(key), ack: [], resolve: [] });
+    return map.get(key)!;
+  };
+
+  for (const alert of alerts) {
+    const evaluated = evaluateSlaBreaches(alert, now);
+    const ackBreached = Boolean(alert.ack_sla_breached) || evaluated.ack_sla_breached;
+    const resolutionBreached = Boolean(alert.resolution_sla_breached) || evaluated.resolution_sla_breached;
+    const ackMinutes = elapsedMinutes(alert.timestamp, alert.acknowledged_at);
+    const resolveMinutes = elapsedMinutes(alert.timestamp, alert.resolved_at);
+    const plans = alert.action_plans || [];
+
+    const targets = [
+      bucket(groups.totals, 'Total'),
+      bucket(groups.contract, alert.contract || 'Sin contrato'),
+      bucket(groups.operator, alertOperator(alert)),
+      bucket(groups.severity, alert.severity),
+    ];
+
+    for (const target of targets) {
+      const stats = target.stats;
+      stats.total++;
+      if (alert.acknowledged_at) stats.acknowledged++;
+      if (alert.resolved_at) stats.resolved++;
+      if (alert.acknowledged_at && !ackBreached) stats.ackWithinSla++;
+      if (alert.resolved_at && !resolutionBreached) stats.resolvedWithinSla++;
+      if (ackBreached) stats.ackBreached++;
+      if (resolutionBreached) stats.resolutionBreached++;
+      if (ackMinutes !== null) target.ack.push(ackMinutes);
+      if (resolveMinutes !== null) target.resolve.push(resolveMinutes);
+      stats.actionPlans += plans.length;
+      stats.actionPlansCompleted += plans.filter(plan => plan.status === 'completed').length;
+    }
+  }
+
+  const finish = (map: typeof groups.totals): SlaGroupStats[] =>
+    Array.from(map.values())
+      .map(({ stats, ack, resolve }) => ({
+        ...stats,
+        ackCompliance: percent(stats.ackWithinSla, stats.ackWithinSla + stats.ackBreached),
+        resolutionCompliance: percent(stats.resolvedWithinSla, stats.resolvedWithinSla + stats.resolutionBreached),
+        avgAckMinutes: average(ack),
+        avgResolveMinutes: average(resolve),
+      }))
+      .sort((a, b) => b.total - a.total);
+
+  return {
+    generatedAt: now.toISOString(),
+    totals: finish(groups.totals)[0] || emptyGroup('Total'),
+    byContract: finish(groups.contract),
+    byOperator: finish(groups.operator),
+    bySeverity: finish(groups.severity),
+  };
+}
+
+/**
+ * Reporte de cumplimiento de SLA para el periodo (fechas del evento)
+ */
+export async function getSlaReport(
+  filters: SlaReportFilters = {}
+): Promise<{ success: boolean; data?: { report: SlaReport; alerts: SavedAlertWithPlans[] }; error?: string }> {
+  try {
+    let query = supabase
+      .from('alert_history')
+      .select(`
+        *,
+        action_plans (*)
+      `)
+      .order('timestamp', { ascending: false });
+
+    if (filters.startDate) query = query.gte('timestamp', filters.startDate);
+    if (filters.endDate) query = query.lte('timestamp', filters.endDate);
+    if (filters.contract) query = query.eq('contract', filters.contract);
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    const alerts = (data || []) as SavedAlertWithPlans[];
+    return { success: true, data: { report: buildSlaReport(alerts), alerts } };
+  } catch (error: any) {
+    console.error('[SLA] Error building SLA report:', error);
+    return { success: false, error: error.message };
+  }
+}
@@ -12,3 +12,13 @@ export const supabaseConfig = {
     url: SUPABASE_URL,
     isConfigured: !!import.meta.env.VITE_SUPABASE_URL,
 };
+
+/**
+ * Encabezado Authorization con la sesión actual para las funciones /api,
+ * que filtran la flota según los contratos del usuario
+ */
+export const getAuthHeaders = async (): Promise<Record<string, string>> => {
+    const { data } = await supabase.auth.getSession();
+    const token = data.session?.access_token;
+    return token ? { 'Authorization': `Bearer ${token}` } : {};
+};
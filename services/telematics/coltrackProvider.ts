@@ -0,0 +1,40 @@
+import { Vehicle, ApiSource } from '../../types';
+import { defineProvider } from './registry';
+import { ColtrackRecord, normalizeColtrackRecord as normalizeColtrack } from '../../supabase/functions/_shared/telematicsNormalize';
+import { apiFetch } from '../apiClient';
+
+export type { ColtrackRecord } from '../../supabase/functions/_shared/telematicsNormalize';
+
+/**
+ * Obtiene los registros crudos de Coltrack vía serverless function
+ */
+async function fetchColtrackRecords(baseUrl: string = ''): Promise<ColtrackRecord[]> {
+  // 401 / 429 llegan como ApiRequestError (ver services/apiClient.ts)
+  const result = await apiFetch(`${baseUrl}/api/coltrack`, { method: 'POST' });
+
+  if (!result.success || !result.data) {
+    throw new Error('Invalid response from Coltrack serverless function');
+  }
+
+  return result.data;
+}
+
+/**
+ * Convierte un registro de Coltrack en Vehicle
+ * La normalización es la misma del worker alert-monitor (_shared/telematicsNormalize.ts)
+ */
+export const normalizeColtrackRecord = (record: ColtrackRecord): Vehicle => normalizeColtrack(record) as Vehicle;
+
+export const coltrackProvider = defineProvider<ColtrackRecord>({
+  id: ApiSource.COLTRACK,
+  label: 'Coltrack',
+  capabilities: {
+    ignition: true,
+    fuelLevel: true,
+    odometer: true,
+    events: true,
+    driverName: true
+  },
+  fetch: fetchColtrackRecords,
+  normalize: normalizeColtrackRecord
+});
@@ -0,0 +1,40 @@
+import { Vehicle, ApiSource } from '../../types';
+import { defineProvider } from './registry';
+import { FagorRecord, normalizeFagorRecord as normalizeFagor } from '../../supabase/functions/_shared/telematicsNormalize';
+import { apiFetch } from '../apiClient';
+
+export type { FagorRecord } from '../../supabase/functions/_shared/telematicsNormalize';
+
+/**
+ * Obtiene los registros crudos de Fagor vía serverless function
+ */
+async function fetchFagorRecords(baseUrl: string = ''): Promise<FagorRecord[]> {
+  // 401 / 429 llegan como ApiRequestError (ver services/apiClient.ts)
+  const result = await apiFetch(`${baseUrl}/api/fagor`, { method: 'POST' });
+
+  if (!result.success || !result.data) {
+    throw new Error('Invalid response from Fagor serverless function');
+  }
+
+  return result.data;
+}
+
+/**
+ * Convierte un registro de Fagor en Vehicle
+ * La normalización es la misma del worker alert-monitor (_shared/telematicsNormalize.ts)
+ */
+export const normalizeFagorRecord = (record: FagorRecord): Vehicle => normalizeFagor(record) as Vehicle;
+
+export const fagorProvider = defineProvider<FagorRecord>({
+  id: ApiSource.FAGOR,
+  label: 'Fagor',
+  capabilities: {
+    ignition: false,
+    fuelLevel: false,
+    odometer: true,
+    events: true,
+    driverName: true
+  },
+  fetch: fetchFagorRecords,
+  normalize: normalizeFagorRecord
+});
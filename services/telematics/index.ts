@@ -0,0 +1,21 @@
+/**
+ * Capa de proveedores de telemetría (GPS)
+ *
+ * Para incorporar un nuevo proveedor:
+ * 1. Crear `<proveedor>Provider.ts` con defineProvider({ id, label, capabilities, fetch, normalize })
+ * 2. Registrarlo aquí con registerProvider()
+ *
+ * fetchFleetData, los detectores de alertas y la UI leen la lista desde getProviders().
+ */
+
+import { registerProvider } from './registry';
+import { coltrackProvider } from './coltrackProvider';
+import { fagorProvider } from './fagorProvider';
+
+registerProvider(coltrackProvider);
+registerProvider(fagorProvider);
+
+export * from './types';
+export { defineProvider, registerProvider, getProvider, getProviders, getProviderStatusKey } from './registry';
+export { coltrackProvider, normalizeColtrackRecord } from './coltrackProvider';
+export { fagorProvider, normalizeFagorRecord } from './fagorProvider';
@@ -0,0 +1,73 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Vehicle } from '../../types';
+import { normalizeColtrackRecord } from './coltrackProvider';
+import { normalizeFagorRecord } from './fagorProvider';
+import { parseDeviceTimestamp } from '../../supabase/functions/_shared/communicationHealth';
+import coltrackFixture from './fixtures/coltrack-records.json';
+import fagorFixture from './fixtures/fagor-records.json';
+
+/**
+ * Normalización de los registros de cada proveedor contra payloads grabados
+ * (fixtures/*.json): mismo registro crudo → mismo Vehicle en la consola y el worker
+ */
+
+interface NormalizeFixture {
+  fetchedAt: string;
+  cases: { name: string; record: Record<string, any>; expected: Record<string, any> }[];
+}
+
+const fixtures: { provider: string; fixture: NormalizeFixture; normalize: (record: any) => Vehicle }[] = [
+  { provider: 'Coltrack', fixture: coltrackFixture, normalize: normalizeColtrackRecord },
+  { provider: 'Fagor', fixture: fagorFixture, normalize: normalizeFagorRecord },
+];
+
+describe.each(fixtures)('$provider normalize', ({ fixture, normalize }) => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(fixture.fetchedAt));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it.each(fixture.cases)('$name', ({ record, expected }) => {
+    expect(normalize(record)).toEqual(expected);
+  });
+
+  it('identifica el vehículo por proveedor y placa', () => {
+    const { record, expected } = fixture.cases[0];
+    expect(normalize(record).id).toBe(`${expected.source}:${expected.plate}`);
+  });
+});
+
+describe('parseDeviceTimestamp', () => {
+  it.each([
+    ['13/05/2025 14:30:15', '2025-05-13T19:30:15.000Z'],
+    ['05/03/2025 08:00', '2025-03-05T13:00:00.000Z'],
+    ['05-03-2025 08:00:00', '2025-03-05T13:00:00.000Z'],
+    ['05/03/2025', '2025-03-05T05:00:00.000Z'],
+    ['3/4/2025 10:15:00 p. m.', '2025-04-04T03:15:00.000Z'],
+    ['3/4/2025 12:05:00 AM', '2025-04-03T05:05:00.000Z'],
+    ['2025-05-13 09:05:00', '2025-05-13T14:05:00.000Z'],
+    ['2025/05/13 09:05:00.250', '2025-05-13T14:05:00.000Z'],
+    ['2025-05-13T09:05:00Z', '2025-05-13T09:05:00.000Z'],
+    ['2025-05-13T09:05:00-05:00', '2025-05-13T14:05:00.000Z'],
+  ])('lee %s como hora de Colombia', (value, expected) => {
+    expect(parseDeviceTimestamp(value)).toBe(expected);
+  });
+
+  it.each([
+    null,
+    undefined,
+    '',
+    '   ',
+    'sin dato',
+    '31/04/2025 09:00:00',
+    '13/13/2025 09:00',
+    '13/05/25 10:00',
+    '13:00 13/05/2025',
+  ])('descarta %s', value => {
+    expect(parseDeviceTimestamp(value)).toBeNull();
+  });
+});
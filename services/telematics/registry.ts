@@ -0,0 +1,78 @@
+import { Vehicle } from '../../types';
+import { TelematicsProvider, TelematicsProviderDefinition, ProviderHealth } from './types';
+import { ApiRequestError } from '../apiClient';
+
+// Proveedores registrados, en orden de registro
+const providers = new Map<string, TelematicsProvider>();
+
+/**
+ * Envuelve una definición de proveedor agregando fetchVehicles() y health()
+ */
+export function defineProvider<TRaw>(definition: TelematicsProviderDefinition<TRaw>): TelematicsProvider<TRaw> {
+  let health: ProviderHealth = { status: 'not_tested', vehicleCount: 0 };
+
+  return {
+    ...definition,
+
+    async fetchVehicles(baseUrl?: string): Promise<Vehicle[]> {
+      const startTime = Date.now();
+
+      try {
+        const records = await definition.fetch(baseUrl);
+        const vehicles = records
+          .map((record, index) => definition.normalize(record, index))
+          .filter((vehicle): vehicle is Vehicle => vehicle !== null);
+
+        health = {
+          ...health,
+          status: vehicles.length > 0 ? 'connected' : 'failed',
+          lastSuccessAt: new Date().toISOString(),
+          vehicleCount: vehicles.length,
+          latencyMs: Date.now() - startTime
+        };
+
+        return vehicles;
+      } catch (error: any) {
+        console.warn(`[Telematics] ${definition.label} failed:`, error);
+
+        health = {
+          ...health,
+          status: 'failed',
+          lastErrorAt: new Date().toISOString(),
+          lastError: error?.message || 'Error desconocido',
+          lastErrorStatus: error instanceof ApiRequestError ? error.status : undefined,
+          vehicleCount: 0,
+          latencyMs: Date.now() - startTime
+        };
+
+        return [];
+      }
+    },
+
+    health(): ProviderHealth {
+      return health;
+    }
+  };
+}
+
+/**
+ * Registra un proveedor. Si ya existe uno con el mismo id, lo reemplaza.
+ */
+export function registerProvider(provider: TelematicsProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function getProvider(id: string): TelematicsProvider | undefined {
+  return providers.get(id);
+}
+
+export function getProviders(): TelematicsProvider[] {
+  return Array.from(providers.values());
+}
+
+/**
+ * Clave usada en FleetResponse.apiStatus / vehicleCounts para un proveedor
+ */
+export function getProviderStatusKey(provider: TelematicsProvider): string {
+  return provider.id.toLowerCase();
+}
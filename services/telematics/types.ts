@@ -0,0 +1,51 @@
+import { Vehicle, ApiSource } from '../../types';
+
+// ==================== TYPES ====================
+
+export type ProviderConnectionStatus = 'connected' | 'failed' | 'not_tested';
+
+/**
+ * Qué datos entrega realmente cada proveedor.
+ * Permite a la UI y a los detectores saber si un campo en 0 es real o simplemente no existe.
+ */
+export interface ProviderCapabilities {
+  ignition: boolean;
+  fuelLevel: boolean;
+  odometer: boolean;
+  events: boolean;
+  driverName: boolean;
+}
+
+export interface ProviderHealth {
+  status: ProviderConnectionStatus;
+  lastSuccessAt?: string;
+  lastErrorAt?: string;
+  lastError?: string;
+  /** Código HTTP de /api en el último fallo (401 sesión, 429 límite de peticiones) */
+  lastErrorStatus?: number;
+  vehicleCount: number;
+  latencyMs?: number;
+}
+
+/**
+ * Definición de un proveedor de telemetría (GPS).
+ * Solo describe cómo obtener y normalizar los registros crudos del proveedor;
+ * el registro se encarga del seguimiento de salud.
+ */
+export interface TelematicsProviderDefinition<TRaw = any> {
+  /** Identificador persistido en Vehicle.source y en las tablas de alertas */
+  id: ApiSource;
+  /** Nombre visible en la UI */
+  label: string;
+  capabilities: ProviderCapabilities;
+  /** Obtiene los registros crudos (normalmente vía /api/<proveedor>) */
+  fetch(baseUrl?: string): Promise<TRaw[]>;
+  /** Convierte un registro crudo en Vehicle. Retorna null si el registro no es utilizable */
+  normalize(record: TRaw, index: number): Vehicle | null;
+}
+
+export interface TelematicsProvider<TRaw = any> extends TelematicsProviderDefinition<TRaw> {
+  /** Obtiene y normaliza los vehículos, actualizando el estado de salud */
+  fetchVehicles(baseUrl?: string): Promise<Vehicle[]>;
+  health(): ProviderHealth;
+}
@@ -1,4 +1,5 @@
 import { supabase } from './supabaseClient';
+import { loadIdleEngineStates } from '../supabase/functions/_shared/engineStateTracker';
 
 // =====================================================
 // TYPES
@@ -36,6 +37,7 @@ export interface PreoperationalInspection {
   start_location?: string;
   end_time?: string;
   driver?: string;
+  driver_id?: string | null;
   findings_count?: number;
   status: string; // OK, Sin inspección, Fuera de tiempo
   contract?: string;
@@ -63,6 +65,7 @@ export interface IdleTimeRecord {
   id?: string;
   plate: string;
   driver?: string;
+  driver_id?: string | null;
   contract?: string;
   start_datetime: string;
   end_datetime?: string;
@@ -571,6 +574,29 @@ export async function saveIdleTimeRecord(record: IdleTimeRecord): Promise<{ succ
   }
 }
 
+/**
+ * Vehículos actualmente en ralentí, según el estado que mantiene el worker alert-monitor
+ * (vehicle_engine_states, ver supabase/functions/_shared/engineStateTracker.ts)
+ */
+export async function getCurrentIdleStats(): Promise<Array<{ plate: string; durationMinutes: number; driver?: string; location?: string }>> {
+  try {
+    const states = await loadIdleEngineStates(supabase);
+    const now = Date.now();
+
+    return states
+      .map(state => ({
+        plate: state.plate,
+        durationMinutes: Math.round(((now - new Date(state.idle_since!).getTime()) / (1000 * 60)) * 100) / 100,
+        driver: state.driver || undefined,
+        location: state.idle_location || undefined
+      }))
+      .sort((a, b) => b.durationMinutes - a.durationMinutes);
+  } catch (error) {
+    console.error('[TowerControl] Error fetching current idle vehicles:', error);
+    return [];
+  }
+}
+
 /**
  * Get idle time records for a vehicle
  */
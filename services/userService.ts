@@ -1,21 +1,25 @@
 import { supabase } from './supabaseClient';
 import { User } from '../contexts/AuthContext';
+import { RoleKey } from './roleService';
 
 // ==================== TYPES ====================
 
-type UserRole = 'admin' | 'operator' | 'viewer';
+type UserRole = RoleKey;
 
 interface CreateUserData {
   email: string;
   full_name: string;
   role: UserRole;
   password: string;
+  /** Contratos visibles para roles sin Permission.CONTRACT_ALL */
+  contracts?: string[];
 }
 
 interface UpdateUserData {
   email?: string;
   full_name?: string;
   role?: UserRole;
+  contracts?: string[];
 }
 
 interface ServiceResult<T = any> {
@@ -59,6 +63,7 @@ class UserService {
         email: profile.email,
         name: profile.name,
         role: profile.role as UserRole,
+        contracts: profile.contracts || [],
         createdAt: profile.created_at,
         lastLogin: profile.last_login || undefined,
       }));
@@ -100,6 +105,7 @@ class UserService {
         email: data.email,
         name: data.name,
         role: data.role as UserRole,
+        contracts: data.contracts || [],
         createdAt: data.created_at,
         lastLogin: data.last_login || undefined,
       };
@@ -192,6 +198,16 @@ class UserService {
       // Esperar un momento para la sincronización
       await new Promise(resolve => setTimeout(resolve, 500));
 
+      if (userData.contracts?.length) {
+        const contractsResult = await this.setContracts(authData.user.id, userData.contracts);
+        if (!contractsResult.success) {
+          return {
+            success: false,
+            error: 'Usuario creado pero sin contratos: ' + contractsResult.error
+          };
+        }
+      }
+
       // Obtener el usuario creado de user_profiles
       const result = await this.getUserById(authData.user.id);
 
@@ -208,7 +224,7 @@ class UserService {
         'USER_CREATED',
         'user',
         authData.user.id,
-        { email: userData.email, role: userData.role }
+        { email: userData.email, role: userData.role, contracts: userData.contracts || [] }
       );
 
       return {
@@ -253,10 +269,25 @@ class UserService {
         };
       }
 
-      // El trigger sincronizará automáticamente a user_profiles
-      await new Promise(resolve => setTimeout(resolve, 300));
+      // La función valida permiso y rol y devuelve el error en el JSON
+      if (rpcData && rpcData.success === false) {
+        return {
+          success: false,
+          error: rpcData.error || 'Error al actualizar usuario'
+        };
+      }
 
-      // Obtener usuario actualizado
+      if (userData.contracts) {
+        const contractsResult = await this.setContracts(userId, userData.contracts);
+        if (!contractsResult.success) {
+          return {
+            success: false,
+            error: contractsResult.error
+          };
+        }
+      }
+
+      // Obtener usuario actualizado (update_user_metadata ya actualizó user_profiles)
       const result = await this.getUserById(userId);
 
       if (!result.success || !result.data) {
@@ -289,6 +320,46 @@ class UserService {
     }
   }
 
+  /**
+   * Asigna los contratos que ve un usuario sin Permission.CONTRACT_ALL
+   * (set_user_contracts valida user:edit en la base de datos)
+   */
+  async setContracts(userId: string, contracts: string[]): Promise<ServiceResult<string[]>> {
+    try {
+      const { data, error } = await supabase.rpc('set_user_contracts', {
+        p_user_id: userId,
+        p_contracts: contracts
+      });
+
+      if (error) {
+        console.error('[UserService] Set contracts error:', error);
+        return {
+          success: false,
+          error: 'Error al asignar contratos: ' + error.message
+        };
+      }
+
+      if (data && data.success === false) {
+        return {
+          success: false,
+          error: data.error || 'Error al asignar contratos'
+        };
+      }
+
+      return {
+        success: true,
+        data: data?.contracts || contracts
+      };
+
+    } catch (error: any) {
+      console.error('[UserService] Set contracts exception:', error);
+      return {
+        success: false,
+        error: error.message || 'Error inesperado'
+      };
+    }
+  }
+
   /**
    * Desactiva un usuario (marcar como inactivo)
    */
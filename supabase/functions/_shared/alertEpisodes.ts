@@ -0,0 +1,211 @@
+/**
+ * Episodios de alerta
+ *
+ * Las infracciones continuas (exceso de velocidad, ralentí, eventos bruscos)
+ * llegan en cada lectura del GPS. En lugar de guardar una fila por lectura,
+ * se agrupan en un episodio por placa + tipo: una sola fila de saved_alerts
+ * con inicio, fin, pico y promedio que se actualiza mientras siga abierto.
+ *
+ * Compartido por el frontend (autoSaveAlert) y el worker alert-monitor.
+ * Una lectura ya contada (timestamp <= fin del episodio) se ignora, así
+ * que ambos procesos pueden registrar la misma lectura sin duplicarla.
+ */
+
+import { AlertRuleSeverity, DEFAULT_ALERT_RULES } from './alertRules.ts';
+
+// ==================== CONFIGURATION ====================
+
+/** Minutos sin una nueva lectura tras los cuales el episodio se cierra */
+export const EPISODE_GAP_MINUTES = 15;
+
+/** Reintentos cuando otro proceso actualiza el mismo episodio a la vez */
+const MAX_EPISODE_ATTEMPTS = 3;
+
+const SEVERITY_RANK: Record<AlertRuleSeverity, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  critical: 3,
+};
+
+// ==================== TYPES ====================
+
+/** Fila de saved_alerts tal como la arma quien detecta la alerta */
+export interface EpisodeAlertRow {
+  alert_id: string;
+  vehicle_id: string;
+  plate: string;
+  driver: string;
+  type: string;
+  severity: string;
+  timestamp: string;
+  location: string;
+  speed: number;
+  details: string;
+  contract: string | null;
+  source: string;
+  status: string;
+  saved_by: string;
+}
+
+export interface AlertEpisodeFields {
+  episode_started_at: string;
+  episode_ended_at: string;
+  episode_open: boolean;
+  peak_speed: number;
+  avg_speed: number;
+  sample_count: number;
+}
+
+export type EpisodeAction = 'opened' | 'updated' | 'ignored';
+
+export interface EpisodeResult {
+  action: EpisodeAction;
+  data?: EpisodeAlertRow & AlertEpisodeFields & { id: string };
+}
+
+// ==================== HELPERS ====================
+
+/** Tipos de alerta que se agrupan en episodios (reglas con episodic: true) */
+export const EPISODIC_ALERT_TYPES: string[] = Array.from(
+  new Set(DEFAULT_ALERT_RULES.filter(rule => rule.episodic).map(rule => rule.type))
+);
+
+export function isEpisodicAlertType(type: string): boolean {
+  return EPISODIC_ALERT_TYPES.includes(type);
+}
+
+const maxSeverity = (a: string, b: string): string =>
+  (SEVERITY_RANK[b as AlertRuleSeverity] ?? 0) > (SEVERITY_RANK[a as AlertRuleSeverity] ?? 0) ? b : a;
+
+const minutesBetween = (from: string, to: string): number =>
+  (new Date(to).getTime() - new Date(from).getTime()) / (1000 * 60);
+
+/**
+ * Resumen del episodio para el campo details
+ * Ej: "Exceso de Velocidad durante 6 min, pico 97 km/h (promedio 88 km/h, 3 lecturas). Última: ..."
+ */
+export function describeEpisode(
+  type: string,
+  episode: Pick<AlertEpisodeFields, 'episode_started_at' | 'episode_ended_at' | 'peak_speed' | 'avg_speed' | 'sample_count'>,
+  lastDetails: string
+): string {
+  const minutes = Math.round(minutesBetween(episode.episode_started_at, episode.episode_ended_at));
+  const duration = minutes >= 1 ? `durante ${minutes} min` : 'en curso';
+  const readings = `${episode.sample_count} ${episode.sample_count === 1 ? 'lectura' : 'lecturas'}`;
+
+  // En ralentí la velocidad es 0: el pico no aporta información
+  const summary = episode.peak_speed > 0
+    ? `${type} ${duration}, pico ${Math.round(episode.peak_speed)} km/h (promedio ${Math.round(episode.avg_speed)} km/h, ${readings})`
+    : `${type} ${duration} (${readings})`;
+
+  return `${summary}. Última: ${lastDetails}`;
+}
+
+// ==================== PERSISTENCE ====================
+
+/**
+ * Registra una lectura en el episodio abierto de la placa y tipo de alerta
+ *
+ * - Sin episodio abierto (o con el último cerrado por inactividad) → abre uno nuevo
+ * - Lectura dentro de EPISODE_GAP_MINUTES → actualiza fin, pico, promedio y severidad
+ * - Lectura ya contada → se ignora
+ *
+ * La actualización es condicional sobre episode_ended_at: si otro proceso
+ * actualizó el episodio entre la lectura y la escritura, se vuelve a intentar.
+ */
+export async function recordEpisodeAlert(supabase: any, row: EpisodeAlertRow): Promise<EpisodeResult> {
+  for (let attempt = 0; attempt < MAX_EPISODE_ATTEMPTS; attempt++) {
+    const { data: open, error } = await supabase
+      .from('saved_alerts')
+      .select('*')
+      .eq('plate', row.plate)
+      .eq('type', row.type)
+      .eq('episode_open', true)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    if (open) {
+      if (new Date(row.timestamp).getTime() <= new Date(open.episode_ended_at).getTime()) {
+        return { action: 'ignored', data: open };
+      }
+
+      if (minutesBetween(open.episode_ended_at, row.timestamp) <= EPISODE_GAP_MINUTES) {
+        const sampleCount = (open.sample_count || 1) + 1;
+        const episode = {
+          episode_started_at: open.episode_started_at,
+          episode_ended_at: row.timestamp,
+          peak_speed: Math.max(Number(open.peak_speed) || 0, row.speed),
+          avg_speed: ((Number(open.avg_speed) || 0) * (sampleCount - 1) + row.speed) / sampleCount,
+          sample_count: sampleCount,
+        };
+
+        const { data: updated, error: updateError } = await supabase
+          .from('saved_alerts')
+          .update({
+            ...episode,
+            severity: maxSeverity(open.severity, row.severity),
+            speed: episode.peak_speed,
+            details: describeEpisode(row.type, episode, row.details),
+          })
+          .eq('id', open.id)
+          .eq('episode_ended_at', open.episode_ended_at)
+          .select();
+
+        if (updateError) throw updateError;
+        if (updated && updated.length > 0) return { action: 'updated', data: updated[0] };
+        continue; // Otro proceso lo actualizó primero
+      }
+
+      // El episodio anterior quedó inactivo: cerrarlo y abrir uno nuevo
+      const { error: closeError } = await supabase
+        .from('saved_alerts')
+        .update({ episode_open: false })
+        .eq('id', open.id);
+
+      if (closeError) throw closeError;
+    }
+
+    const episode = {
+      episode_started_at: row.timestamp,
+      episode_ended_at: row.timestamp,
+      episode_open: true,
+      peak_speed: row.speed,
+      avg_speed: row.speed,
+      sample_count: 1,
+    };
+
+    const { data: inserted, error: insertError } = await supabase
+      .from('saved_alerts')
+      .insert({ ...row, ...episode, details: describeEpisode(row.type, episode, row.details) })
+      .select()
+      .single();
+
+    // 23505 = otro proceso abrió el episodio a la vez (idx_saved_alerts_open_episode)
+    if (insertError?.code === '23505') continue;
+    if (insertError) throw insertError;
+    return { action: 'opened', data: inserted };
+  }
+
+  console.warn(`[Episodes] Could not record episode after ${MAX_EPISODE_ATTEMPTS} attempts: ${row.plate} - ${row.type}`);
+  return { action: 'ignored' };
+}
+
+/**
+ * Cierra los episodios sin lecturas nuevas en los últimos EPISODE_GAP_MINUTES
+ * Devuelve cuántos episodios se cerraron
+ */
+export async function closeStaleEpisodes(supabase: any, now: Date = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - EPISODE_GAP_MINUTES * 60 * 1000).toISOString();
+
+  const { data, error } = await supabase
+    .from('saved_alerts')
+    .update({ episode_open: false })
+    .eq('episode_open', true)
+    .lt('episode_ended_at', cutoff)
+    .select('id');
+
+  if (error) throw error;
+  return data?.length || 0;
+}
@@ -0,0 +1,467 @@
+/**
+ * Escalamiento de alertas no confirmadas
+ *
+ * Una alerta que coincide con una política de escalamiento (por contrato, tipo
+ * y severidad) abre un registro en alert_escalations. El worker alert-monitor
+ * revisa cada ejecución los escalamientos vencidos: si la alerta sigue sin
+ * confirmar (saved_alerts.acknowledged_at), ejecuta el siguiente paso, avisa
+ * a quien esté de turno para ese rol (on_call_roster) a través de la cola de
+ * notificaciones y deja el paso registrado en alert_escalation_steps.
+ *
+ * El temporizador vive en la base de datos (next_escalation_at), no en el
+ * navegador. Cada paso se toma con una actualización condicional sobre
+ * current_step, así que dos ejecuciones simultáneas no lo repiten.
+ *
+ * Compartido por el worker (temporizador) y el frontend (tipos y confirmación).
+ */
+
+import {
+  enqueueTargetedNotification,
+  NotificationAlert,
+  NotificationChannel,
+  NotificationSeverity,
+  NotificationTarget
+} from './notificationDispatch.ts';
+
+// ==================== TYPES ====================
+
+export type EscalationRole = 'shift_operator' | 'supervisor' | 'contract_manager';
+
+export type EscalationStatus = 'active' | 'acknowledged' | 'exhausted';
+
+/** Paso de una política: wait_minutes es el tiempo sin confirmar desde el paso anterior */
+export interface EscalationStep {
+  role: EscalationRole;
+  wait_minutes: number;
+  channels: NotificationChannel[];
+}
+
+/** Fila de escalation_policies */
+export interface EscalationPolicy {
+  id: string;
+  name: string;
+  contract: string | null;
+  alert_types: string[];
+  min_severity: NotificationSeverity;
+  steps: EscalationStep[];
+  is_active: boolean;
+  created_by?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/** Fila de on_call_roster */
+export interface OnCallShift {
+  id: string;
+  role: EscalationRole;
+  contract: string | null;
+  name: string;
+  email: string | null;
+  telegram_chat_id: string | null;
+  whatsapp_number: string | null;
+  starts_at: string;
+  ends_at: string;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/** Fila de alert_escalations */
+export interface AlertEscalation {
+  id: string;
+  alert_id: string;
+  policy_id: string | null;
+  plate: string | null;
+  alert_type: string | null;
+  contract: string | null;
+  current_step: number;
+  status: EscalationStatus;
+  next_escalation_at: string | null;
+  acknowledged_at: string | null;
+  acknowledged_by: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+/** Fila de alert_escalation_steps */
+export interface AlertEscalationStepLog {
+  id: string;
+  escalation_id: string;
+  step_order: number;
+  role: EscalationRole;
+  contacts: { name: string; channel: NotificationChannel; recipient: string }[];
+  notifications_queued: number;
+  note: string | null;
+  executed_at: string;
+}
+
+export interface EscalationRunResult {
+  started: number;
+  escalated: number;
+  acknowledged: number;
+  exhausted: number;
+}
+
+// ==================== CONFIGURATION ====================
+
+export const ESCALATION_ROLE_LABELS: Record<EscalationRole, string> = {
+  shift_operator: 'Operador de turno',
+  supervisor: 'Supervisor',
+  contract_manager: 'Gerente de contrato',
+};
+
+/** Escalamientos vencidos procesados por ejecución */
+const ESCALATION_BATCH_SIZE = 100;
+
+/** Alertas guardadas sin avisar que se toman por ejecución, y hasta qué antigüedad */
+const DISPATCH_BATCH_SIZE = 500;
+const DISPATCH_LOOKBACK_MINUTES = 60;
+
+const SEVERITY_RANK: Record<NotificationSeverity, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  critical: 3,
+};
+
+// ==================== POLICIES AND ROSTER ====================
+
+export async function loadEscalationPolicies(supabase: any): Promise<EscalationPolicy[]> {
+  const { data, error } = await supabase
+    .from('escalation_policies')
+    .select('*')
+    .eq('is_active', true);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Política que aplica a la alerta
+ * Gana la política del contrato sobre la global; sin coincidencia retorna null
+ */
+export function findEscalationPolicy(
+  policies: EscalationPolicy[],
+  alert: Pick<NotificationAlert, 'type' | 'severity' | 'contract'>
+): EscalationPolicy | null {
+  const matches = policies.filter(policy =>
+    policy.is_active &&
+    (policy.steps || []).length > 0 &&
+    (!policy.contract || policy.contract === alert.contract) &&
+    ((policy.alert_types || []).length === 0 || policy.alert_types.includes(alert.type)) &&
+    (SEVERITY_RANK[alert.severity as NotificationSeverity] ?? 0) >= (SEVERITY_RANK[policy.min_severity] ?? 0)
+  );
+
+  return matches.find(policy => policy.contract) || matches[0] || null;
+}
+
+/**
+ * Personas de turno para el rol en el momento indicado
+ * Si el contrato tiene turno propio se usa ese; si no, el turno global
+ */
+export function resolveOnCall(
+  roster: OnCallShift[],
+  role: EscalationRole,
+  contract: string | null | undefined,
+  now: Date = new Date()
+): OnCallShift[] {
+  const time = now.getTime();
+  const onShift = roster.filter(shift =>
+    shift.is_active &&
+    shift.role === role &&
+    new Date(shift.starts_at).getTime() <= time &&
+    new Date(shift.ends_at).getTime() > time
+  );
+
+  const forContract = onShift.filter(shift => shift.contract && shift.contract === contract);
+  return forContract.length > 0 ? forContract : onShift.filter(shift => !shift.contract);
+}
+
+const shiftTargets = (shift: OnCallShift, channels: NotificationChannel[]): NotificationTarget[] => {
+  const recipients: Record<NotificationChannel, string | null> = {
+    email: shift.email,
+    telegram: shift.telegram_chat_id,
+    whatsapp: shift.whatsapp_number,
+  };
+
+  return channels
+    .filter(channel => recipients[channel]?.trim())
+    .map(channel => ({ channel, recipient: recipients[channel]!.trim() }));
+};
+
+async function loadCurrentRoster(supabase: any, now: Date): Promise<OnCallShift[]> {
+  const { data, error } = await supabase
+    .from('on_call_roster')
+    .select('*')
+    .eq('is_active', true)
+    .lte('starts_at', now.toISOString())
+    .gt('ends_at', now.toISOString());
+
+  if (error) throw error;
+  return data || [];
+}
+
+// ==================== NEW ALERTS ====================
+
+/**
+ * Toma las alertas guardadas que aún no se avisaron ni escalaron
+ * (saved_alerts_dispatch.sql). Las guarda tanto el worker como la consola,
+ * con alert_id distintos, así que el aviso sale de la tabla y no de la lista
+ * del worker. Cada fila se marca con una actualización condicional sobre
+ * dispatched_at: dos ejecuciones simultáneas no la toman dos veces.
+ * Las confirmadas o resueltas se marcan sin devolverse.
+ */
+export async function claimUndispatchedAlerts(
+  supabase: any,
+  now: Date = new Date()
+): Promise<NotificationAlert[]> {
+  const since = new Date(now.getTime() - DISPATCH_LOOKBACK_MINUTES * 60 * 1000).toISOString();
+
+  const { data: pending, error } = await supabase
+    .from('saved_alerts')
+    .select('alert_id')
+    .is('dispatched_at', null)
+    .gte('created_at', since)
+    .order('created_at', { ascending: true })
+    .limit(DISPATCH_BATCH_SIZE);
+
+  if (error) throw error;
+  if (!pending || pending.length === 0) return [];
+
+  const { data: claimed, error: claimError } = await supabase
+    .from('saved_alerts')
+    .update({ dispatched_at: now.toISOString() })
+    .in('alert_id', pending.map((row: { alert_id: string }) => row.alert_id))
+    .is('dispatched_at', null)
+    .select('*');
+
+  if (claimError) throw claimError;
+
+  return (claimed || []).filter((alert: any) => !alert.acknowledged_at && alert.status !== 'resolved');
+}
+
+/**
+ * Devuelve las alertas a la cola si no se pudieron avisar (la siguiente ejecución las reintenta)
+ */
+export async function releaseUndispatchedAlerts(supabase: any, alertIds: string[]): Promise<void> {
+  if (alertIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('saved_alerts')
+    .update({ dispatched_at: null })
+    .in('alert_id', alertIds);
+
+  if (error) console.error('[Escalation] Error releasing undispatched alerts:', error);
+}
+
+// ==================== TIMER ====================
+
+const addMinutes = (date: Date, minutes: number): string =>
+  new Date(date.getTime() + Math.max(0, minutes) * 60 * 1000).toISOString();
+
+/**
+ * Abre el escalamiento de las alertas nuevas que coinciden con una política
+ * El primer paso queda vencido tras su wait_minutes (0 = en esta misma ejecución)
+ */
+export async function startAlertEscalations(
+  supabase: any,
+  alerts: NotificationAlert[],
+  policies: EscalationPolicy[],
+  now: Date = new Date()
+): Promise<number> {
+  const rows = alerts
+    .map(alert => ({ alert, policy: findEscalationPolicy(policies, alert) }))
+    .filter(({ policy }) => policy !== null)
+    .map(({ alert, policy }) => ({
+      alert_id: alert.alert_id,
+      policy_id: policy!.id,
+      plate: alert.plate,
+      alert_type: alert.type,
+      contract: alert.contract ?? null,
+      current_step: 0,
+      status: 'active',
+      next_escalation_at: addMinutes(now, policy!.steps[0].wait_minutes),
+    }));
+
+  if (rows.length === 0) return 0;
+
+  const { data, error } = await supabase
+    .from('alert_escalations')
+    .upsert(rows, { onConflict: 'alert_id', ignoreDuplicates: true })
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).length;
+}
+
+/**
+ * Ejecuta los pasos vencidos
+ *
+ * - Alerta confirmada o resuelta → el escalamiento se cierra como 'acknowledged'
+ * - Sin confirmar → avisa al rol del paso y programa el siguiente
+ * - Tras el último paso el escalamiento queda 'exhausted'
+ */
+export async function processDueEscalations(
+  supabase: any,
+  now: Date = new Date()
+): Promise<Omit<EscalationRunResult, 'started'>> {
+  const result = { escalated: 0, acknowledged: 0, exhausted: 0 };
+
+  const { data: due, error } = await supabase
+    .from('alert_escalations')
+    .select('*')
+    .eq('status', 'active')
+    .lte('next_escalation_at', now.toISOString())
+    .order('next_escalation_at', { ascending: true })
+    .limit(ESCALATION_BATCH_SIZE);
+
+  if (error) throw error;
+  if (!due || due.length === 0) return result;
+
+  const escalations = due as AlertEscalation[];
+  const policyIds = Array.from(new Set(escalations.map(e => e.policy_id).filter(Boolean)));
+  const alertIds = escalations.map(e => e.alert_id);
+
+  const [policiesResponse, alertsResponse, roster] = await Promise.all([
+    supabase.from('escalation_policies').select('*').in('id', policyIds),
+    supabase.from('saved_alerts').select('*').in('alert_id', alertIds),
+    loadCurrentRoster(supabase, now),
+  ]);
+
+  if (policiesResponse.error) throw policiesResponse.error;
+  if (alertsResponse.error) throw alertsResponse.error;
+
+  const policies = new Map<string, EscalationPolicy>((policiesResponse.data || []).map((p: EscalationPolicy) => [p.id, p]));
+  const savedAlerts = new Map<string, any>((alertsResponse.data || []).map((a: any) => [a.alert_id, a]));
+
+  for (const escalation of escalations) {
+    const savedAlert = savedAlerts.get(escalation.alert_id);
+
+    // Confirmada (o resuelta) desde la consola: detener el escalamiento
+    if (savedAlert && (savedAlert.acknowledged_at || savedAlert.status === 'resolved')) {
+      const { error: ackError } = await supabase
+        .from('alert_escalations')
+        .update({
+          status: 'acknowledged',
+          next_escalation_at: null,
+          acknowledged_at: savedAlert.acknowledged_at ?? now.toISOString(),
+          acknowledged_by: savedAlert.acknowledged_by ?? null,
+        })
+        .eq('id', escalation.id)
+        .eq('status', 'active');
+
+      if (ackError) console.error('[Escalation] Error closing acknowledged escalation:', ackError);
+      else result.acknowledged++;
+      continue;
+    }
+
+    const steps = (escalation.policy_id && policies.get(escalation.policy_id)?.steps) || [];
+    const stepIndex = escalation.current_step;
+    const step = steps[stepIndex];
+
+    // La política se eliminó, se quedó sin pasos o la alerta ya no existe
+    if (!step || !savedAlert) {
+      await supabase
+        .from('alert_escalations')
+        .update({ status: 'exhausted', next_escalation_at: null })
+        .eq('id', escalation.id)
+        .eq('status', 'active');
+      result.exhausted++;
+      continue;
+    }
+
+    const nextStep = steps[stepIndex + 1];
+
+    const { data: claimed, error: claimError } = await supabase
+      .from('alert_escalations')
+      .update({
+        current_step: stepIndex + 1,
+        status: nextStep ? 'active' : 'exhausted',
+        next_escalation_at: nextStep ? addMinutes(now, nextStep.wait_minutes) : null,
+      })
+      .eq('id', escalation.id)
+      .eq('status', 'active')
+      .eq('current_step', stepIndex)
+      .select('id');
+
+    if (claimError) {
+      console.error('[Escalation] Error claiming escalation step:', claimError);
+      continue;
+    }
+    if (!claimed || claimed.length === 0) continue; // Otro proceso ejecutó el paso
+
+    const stepNumber = stepIndex + 1;
+    const roleLabel = ESCALATION_ROLE_LABELS[step.role] || step.role;
+    const onCall = resolveOnCall(roster, step.role, escalation.contract, now);
+    const contacts = onCall.flatMap(shift =>
+      shiftTargets(shift, step.channels || []).map(target => ({ name: shift.name, ...target }))
+    );
+
+    let queued = 0;
+    if (contacts.length > 0) {
+      const minutesOpen = Math.round((now.getTime() - new Date(escalation.created_at).getTime()) / (1000 * 60));
+      const alert: NotificationAlert = {
+        ...savedAlert,
+        // Clave propia por paso: no se deduplica contra la notificación general de la alerta
+        alert_id: `${escalation.alert_id}#esc${stepNumber}`,
+        details: `Escalamiento nivel ${stepNumber}/${steps.length} (${roleLabel}): sin confirmar desde hace ${minutesOpen} min. ${savedAlert.details}`,
+      };
+
+      try {
+        queued = await enqueueTargetedNotification(
+          supabase,
+          alert,
+          contacts.map(({ channel, recipient }) => ({ channel, recipient })),
+          `[Escalamiento ${stepNumber}/${steps.length}]`
+        );
+      } catch (enqueueError) {
+        console.error('[Escalation] Error queueing escalation notifications:', enqueueError);
+      }
+    }
+
+    const { error: logError } = await supabase
+      .from('alert_escalation_steps')
+      .insert({
+        escalation_id: escalation.id,
+        step_order: stepNumber,
+        role: step.role,
+        contacts,
+        notifications_queued: queued,
+        note: contacts.length === 0 ? `Sin ${roleLabel.toLowerCase()} de turno con contacto para ${(step.channels || []).join(', ')}` : null,
+        executed_at: now.toISOString(),
+      });
+
+    if (logError) console.error('[Escalation] Error logging escalation step:', logError);
+
+    result.escalated++;
+    if (!nextStep) result.exhausted++;
+  }
+
+  return result;
+}
+
+// ==================== ACKNOWLEDGEMENT ====================
+
+/**
+ * Cierra el escalamiento de la alerta, también si ya agotó sus pasos
+ * (la confirmación en saved_alerts la hace quien llama)
+ */
+export async function acknowledgeAlertEscalation(
+  supabase: any,
+  alertId: string,
+  acknowledgedBy: string,
+  now: Date = new Date()
+): Promise<void> {
+  const { error } = await supabase
+    .from('alert_escalations')
+    .update({
+      status: 'acknowledged',
+      next_escalation_at: null,
+      acknowledged_at: now.toISOString(),
+      acknowledged_by: acknowledgedBy,
+    })
+    .eq('alert_id', alertId)
+    .in('status', ['active', 'exhausted']);
+
+  if (error) throw error;
+}
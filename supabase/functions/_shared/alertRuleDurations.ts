@@ -0,0 +1,113 @@
+/**
+ * Duración de las condiciones de alerta
+ *
+ * Las reglas con minDurationMinutes (ver alertRules.ts) necesitan saber desde
+ * cuándo se cumple la condición. En el worker alert-monitor ese inicio vive en
+ * alert_rule_durations, no en memoria: cada ejecución puede arrancar en frío y
+ * sin la tabla la condición volvería a empezar en cada una.
+ *
+ * El worker carga el estado antes de evaluar la flota y al terminar guarda solo
+ * lo que cambió (condiciones nuevas y condiciones que terminaron).
+ *
+ * No importa nada fuera de supabase/functions/_shared; recibe el cliente de Supabase como parámetro.
+ */
+
+import type { AlertRuleDurationState } from './alertRules.ts';
+
+// ==================== TYPES ====================
+
+/** Fila de alert_rule_durations */
+export interface AlertRuleDurationRow {
+  plate: string;
+  rule_id: string;
+  started_at: string;
+  updated_at?: string;
+}
+
+export interface RuleDurationSaveResult {
+  started: number;
+  ended: number;
+}
+
+// ==================== KEYS ====================
+
+// Misma clave que usa evaluateAlertRules: `${placa}:${regla}` (el id de la regla no lleva ':')
+const toKey = (plate: string, ruleId: string) => `${plate}:${ruleId}`;
+
+const fromKey = (key: string): { plate: string; rule_id: string } => {
+  const separator = key.lastIndexOf(':');
+  return { plate: key.slice(0, separator), rule_id: key.slice(separator + 1) };
+};
+
+// ==================== LOAD / SAVE ====================
+
+/**
+ * Carga el inicio de las condiciones en curso
+ */
+export async function loadRuleDurationState(supabase: any): Promise<AlertRuleDurationState> {
+  const state: AlertRuleDurationState = new Map();
+
+  // Supabase limita a 1000 filas por consulta: paginar
+  let from = 0;
+  const pageSize = 1000;
+  let hasMore = true;
+
+  while (hasMore) {
+    const { data, error } = await supabase
+      .from('alert_rule_durations')
+      .select('plate, rule_id, started_at')
+      .range(from, from + pageSize - 1);
+
+    if (error) throw error;
+
+    (data || []).forEach((row: AlertRuleDurationRow) => state.set(toKey(row.plate, row.rule_id), row.started_at));
+
+    from += pageSize;
+    hasMore = (data || []).length === pageSize;
+  }
+
+  return state;
+}
+
+/**
+ * Guarda los cambios del estado respecto de lo cargado al inicio de la ejecución
+ * - Condición nueva: se inserta su inicio (si otra ejecución ya la registró, se conserva el primero)
+ * - Condición terminada: se elimina la fila
+ */
+export async function saveRuleDurationState(
+  supabase: any,
+  loaded: AlertRuleDurationState,
+  state: AlertRuleDurationState
+): Promise<RuleDurationSaveResult> {
+  const started: AlertRuleDurationRow[] = [];
+  for (const [key, startedAt] of state) {
+    if (!loaded.has(key)) started.push({ ...fromKey(key), started_at: startedAt });
+  }
+
+  const endedByRule = new Map<string, string[]>();
+  for (const key of loaded.keys()) {
+    if (state.has(key)) continue;
+    const { plate, rule_id } = fromKey(key);
+    endedByRule.set(rule_id, [...(endedByRule.get(rule_id) || []), plate]);
+  }
+
+  if (started.length > 0) {
+    const { error } = await supabase
+      .from('alert_rule_durations')
+      .upsert(started, { onConflict: 'plate,rule_id', ignoreDuplicates: true });
+    if (error) throw error;
+  }
+
+  let ended = 0;
+  for (const [ruleId, plates] of endedByRule) {
+    const { error } = await supabase
+      .from('alert_rule_durations')
+      .delete()
+      .eq('rule_id', ruleId)
+      .in('plate', plates);
+    if (error) throw error;
+    ended += plates.length;
+  }
+
+  return { started: started.length, ended };
+}
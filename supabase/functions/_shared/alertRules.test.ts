@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { AlertRuleDurationState, detectVehicleAlerts } from './alertRules';
+import { AlertThresholdRule } from './alertThresholds';
+
+/**
+ * Ralentí medido (IDLE_ENGINE): motor encendido y detenido durante el umbral
+ * idleTimeMinutes que resuelve alert_rules para cada vehículo.
+ * Exceso de velocidad (SPEED): estrictamente por encima de límite + tolerancia
+ */
+
+const idleRules: AlertThresholdRule[] = [
+  { id: 'rule-campo', contract: 'Contrato Campo', idle_time_minutes: 30, is_active: true },
+  { id: 'rule-tracto', vehicle_type: 'Tractocamión', idle_time_minutes: 5, is_active: true },
+];
+
+const reading = (minute: number, overrides: Record<string, any> = {}) => ({
+  plate: 'TTK123',
+  source: 'COLTRACK',
+  speed: 0,
+  ignition: true,
+  latitude: 4.711,
+  longitude: -74.0721,
+  lastUpdate: new Date(Date.UTC(2025, 4, 13, 19, minute)).toISOString(),
+  contract: 'Contrato Andes',
+  vehicleType: 'Camión',
+  ...overrides
+});
+
+/** Tipos de alerta de cada lectura, con el mismo estado de duración entre lecturas */
+const idleAlertsOver = (minutes: number[], overrides: Record<string, any> = {}) => {
+  const durationState: AlertRuleDurationState = new Map();
+  return minutes.map(minute =>
+    detectVehicleAlerts(reading(minute, overrides), {
+      thresholdRules: idleRules,
+      speedZones: [],
+      durationState,
+      now: new Date(reading(minute).lastUpdate)
+    }).filter(result => result.rule.id === 'IDLE_ENGINE')
+  );
+};
+
+describe('IDLE_ENGINE', () => {
+  it('alerta al cumplir los 10 minutos por defecto, no antes', () => {
+    const alerts = idleAlertsOver([0, 5, 9, 10]);
+    expect(alerts.map(a => a.length)).toEqual([0, 0, 0, 1]);
+    expect(alerts[3][0].details).toBe('Motor encendido y detenido hace 10 min (umbral: 10 min)');
+  });
+
+  it('usa el umbral del contrato', () => {
+    const alerts = idleAlertsOver([0, 10, 29, 30], { contract: 'Contrato Campo' });
+    expect(alerts.map(a => a.length)).toEqual([0, 0, 0, 1]);
+    expect(alerts[3][0].details).toContain('(umbral: 30 min)');
+  });
+
+  it('usa el umbral del tipo de vehículo', () => {
+    const alerts = idleAlertsOver([0, 5], { vehicleType: 'Tractocamión' });
+    expect(alerts.map(a => a.length)).toEqual([0, 1]);
+  });
+
+  it('vuelve a contar desde cero si el vehículo se mueve', () => {
+    const durationState: AlertRuleDurationState = new Map();
+    const evaluate = (minute: number, speed: number) =>
+      detectVehicleAlerts(reading(minute, { speed }), { thresholdRules: [], speedZones: [], durationState })
+        .filter(result => result.rule.id === 'IDLE_ENGINE').length;
+
+    expect([evaluate(0, 0), evaluate(8, 20), evaluate(12, 0), evaluate(20, 0), evaluate(22, 0)]).toEqual([0, 0, 0, 0, 1]);
+  });
+
+  it('no aplica sin dato de ignición', () => {
+    expect(idleAlertsOver([0, 15], { ignition: undefined }).map(a => a.length)).toEqual([0, 0]);
+  });
+
+  it('no duplica el ralentí que ya reporta el GPS', () => {
+    const alerts = idleAlertsOver([0, 15], { event: 'ALERTA RALENTI' });
+    expect(alerts.map(a => a.length)).toEqual([0, 0]);
+  });
+});
+
+describe('SPEED', () => {
+  const speedAlerts = (speed: number) =>
+    detectVehicleAlerts(reading(0, { speed, ignition: undefined }), { thresholdRules: [], speedZones: [] })
+      .filter(result => result.rule.id === 'SPEED');
+
+  it('no alerta a una velocidad igual al límite', () => {
+    expect(speedAlerts(80)).toEqual([]);
+  });
+
+  it('alerta por encima del límite', () => {
+    const [alert] = speedAlerts(81);
+    expect(alert.severity).toBe('medium');
+    expect(alert.details).toContain('Velocidad: 81 km/h (Límite: 80 km/h)');
+  });
+});
@@ -0,0 +1,427 @@
+/**
+ * Reglas de detección de alertas
+ *
+ * Única definición de reglas para el frontend (services/alertService.ts) y el
+ * worker alert-monitor: ambos evalúan la misma lista con evaluateAlertRules(),
+ * así la consola y el worker 24/7 generan exactamente las mismas alertas.
+ *
+ * Para agregar o ajustar una alerta basta con editar DEFAULT_ALERT_RULES.
+ * Los valores numéricos pueden referirse a un umbral configurable (ver
+ * alertThresholds.ts), que se resuelve por contrato y tipo de vehículo.
+ * No importa nada fuera de supabase/functions/_shared (debe poder desplegarse
+ * con las Edge Functions).
+ */
+
+import {
+  AlertThresholds,
+  AlertThresholdRule,
+  AlertThresholdVehicle,
+  DEFAULT_ALERT_THRESHOLDS,
+  resolveAlertThresholds
+} from './alertThresholds.ts';
+import { resolveSpeedLimit } from './geofenceEngine.ts';
+import type { EffectiveSpeedLimit, GeofenceDefinition, GeofenceVehicle } from './geofenceEngine.ts';
+import { minutesSinceReport } from './communicationHealth.ts';
+
+// ==================== TYPES ====================
+
+export type AlertRuleSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+/** Valor fijo o nombre de un umbral configurable */
+export type AlertRuleValue = number | keyof AlertThresholds;
+
+/**
+ * Condiciones de una regla. Todas las condiciones presentes deben cumplirse.
+ */
+export interface AlertRuleMatch {
+  /** Velocidad mínima (km/h, inclusiva) */
+  minSpeed?: AlertRuleValue;
+  /** Velocidad máxima (km/h, inclusiva) */
+  maxSpeed?: AlertRuleValue;
+  /** El equipo reporta la ignición encendida. Sin dato de ignición la regla no aplica */
+  ignitionOn?: boolean;
+  /** La velocidad supera el límite efectivo (zona de velocidad o contrato) más su tolerancia */
+  overSpeedLimit?: boolean;
+  /** Nivel de combustible máximo (%, inclusivo). Sin dato de combustible la regla no aplica */
+  maxFuelPercent?: AlertRuleValue;
+  /** Minutos mínimos sin reportar (según la hora real del equipo) */
+  minMinutesSinceReport?: AlertRuleValue;
+  /** Basta con que el texto del evento contenga una de estas palabras (en mayúsculas) */
+  keywords?: string[];
+  /** Además debe contener una de estas palabras */
+  alsoKeywords?: string[];
+  /** Solo para estos proveedores (Vehicle.source) */
+  sources?: string[];
+  /** La condición debe mantenerse al menos N minutos seguidos */
+  minDurationMinutes?: AlertRuleValue;
+  /** No aplica si en la misma lectura ya se disparó alguna de estas reglas */
+  unlessRules?: string[];
+}
+
+export interface AlertRule {
+  id: string;
+  /** Tipo de alerta (mismo texto que AlertType en types.ts) */
+  type: string;
+  severity: AlertRuleSeverity;
+  match: AlertRuleMatch;
+  /**
+   * Escalamiento según qué tanto se superó el límite efectivo (de mayor a menor).
+   * Se usa el primer escalón alcanzado; si ninguno aplica queda `severity`.
+   */
+  severityByPercentOver?: { percentOver: number; severity: AlertRuleSeverity }[];
+  /** Detalle de la alerta. Admite {speed}, {minSpeed}, {limit}, {zone}, {percentOver}, {fuel}, {maxFuel}, {silence}, {offline}, {duration}, {minDuration} y {event} */
+  details: string;
+  /** Usar el texto del evento del GPS como detalle cuando exista */
+  useEventText?: boolean;
+  /** Infracción continua: las lecturas se agrupan en un episodio (ver alertEpisodes.ts) */
+  episodic?: boolean;
+}
+
+/** Campos mínimos del vehículo que necesita el motor (compatible con Vehicle del frontend y del worker) */
+export interface AlertRuleVehicle {
+  plate: string;
+  speed: number;
+  source: string;
+  lastUpdate: string;
+  event?: string;
+  /** Nivel de combustible (%). 0 o ausente = el proveedor no lo reporta */
+  fuelLevel?: number;
+  /** lastUpdate es la hora de consulta porque el proveedor no entregó la hora del equipo */
+  lastUpdateEstimated?: boolean;
+  /** Ignición reportada por el equipo (undefined si el proveedor no la entrega) */
+  ignition?: boolean;
+}
+
+export interface AlertRuleResult {
+  rule: AlertRule;
+  type: string;
+  severity: AlertRuleSeverity;
+  details: string;
+}
+
+/**
+ * Inicio de cada condición en curso, por `${placa}:${regla}`.
+ * Solo se usa para reglas con minDurationMinutes; lo conserva quien llama entre lecturas.
+ */
+export type AlertRuleDurationState = Map<string, string>;
+
+export interface AlertRuleContext {
+  /** Umbrales efectivos del vehículo (por defecto DEFAULT_ALERT_THRESHOLDS) */
+  thresholds?: AlertThresholds;
+  /** Límite de la zona de velocidad en la que está el vehículo (por defecto thresholds.speedLimit) */
+  speedLimit?: EffectiveSpeedLimit;
+  durationState?: AlertRuleDurationState;
+  /** Hora de evaluación (por defecto ahora) */
+  now?: Date;
+}
+
+/** Configuración cargada por quien evalúa la flota (worker alert-monitor) */
+export interface VehicleAlertConfig {
+  /** Reglas activas de alert_rules (loadAlertThresholdRules) */
+  thresholdRules: AlertThresholdRule[];
+  /** Geocercas con límite de velocidad (loadSpeedLimitZones) */
+  speedZones: GeofenceDefinition[];
+  durationState?: AlertRuleDurationState;
+  now?: Date;
+}
+
+interface RuleEnvironment {
+  thresholds: AlertThresholds;
+  speedLimit: EffectiveSpeedLimit;
+  now: Date;
+}
+
+// ==================== RULES ====================
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  // 1. EXCESO DE VELOCIDAD (límite de la zona o del contrato, 80 km/h por defecto)
+  // La severidad sube con el porcentaje sobre el límite
+  {
+    id: 'SPEED',
+    type: 'Exceso de Velocidad',
+    severity: 'medium',
+    match: { overSpeedLimit: true },
+    severityByPercentOver: [
+      { percentOver: 25, severity: 'critical' },
+      { percentOver: 10, severity: 'high' },
+    ],
+    details: 'Velocidad: {speed} km/h (Límite: {limit} km/h{zone}) - {percentOver}% sobre el límite',
+    episodic: true
+  },
+  // 2. BOTÓN DE PÁNICO
+  {
+    id: 'PANIC',
+    type: 'Botón de Pánico',
+    severity: 'critical',
+    match: { keywords: ['PANICO', 'PANIC', 'SOS', 'BOTON PANICO'] },
+    details: 'Botón de pánico activado - Requiere atención inmediata'
+  },
+  // 3. FRENADA BRUSCA
+  {
+    id: 'HARSH_BRAKING',
+    type: 'Frenada Brusca',
+    severity: 'medium',
+    match: { keywords: ['FRENADA BRUSCA', 'FRENO BRUSCO', 'HARSH BRAKE'] },
+    details: 'Frenada brusca detectada',
+    episodic: true
+  },
+  // 4. ACELERACIÓN BRUSCA
+  {
+    id: 'HARSH_ACCELERATION',
+    type: 'Aceleración Brusca',
+    severity: 'medium',
+    match: { keywords: ['SOBRE ACELERACION', 'ACELERACION BRUSCA', 'HARSH ACCELERATION'] },
+    details: 'Aceleración brusca detectada',
+    episodic: true
+  },
+  // 5. COLISIÓN
+  {
+    id: 'COLLISION',
+    type: 'Colisión',
+    severity: 'critical',
+    match: { keywords: ['COLISION', 'COLLISION', 'CRASH', 'IMPACTO'] },
+    details: 'Posible colisión detectada - Verificar estado del vehículo'
+  },
+  // 6. SALIDA/ENTRADA DE GEOCERCA reportada por el GPS
+  // (las geocercas propias se evalúan con geofenceEngine.ts)
+  {
+    id: 'VENDOR_GEOFENCE_EXIT',
+    type: 'Salida de Geocerca',
+    severity: 'high',
+    match: {
+      keywords: ['GEOCERCA', 'GEOFENCE', 'SALIDA DE ZONA', 'FUERA DE ZONA'],
+      alsoKeywords: ['SALIDA', 'EXIT', 'FUERA']
+    },
+    details: 'Vehículo salió de zona permitida'
+  },
+  {
+    id: 'VENDOR_GEOFENCE_ENTRY',
+    type: 'Entrada a Geocerca',
+    severity: 'high',
+    match: { keywords: ['GEOCERCA', 'GEOFENCE'], unlessRules: ['VENDOR_GEOFENCE_EXIT'] },
+    details: 'Vehículo entró a zona permitida'
+  },
+  // 7. BATERÍA DESCONECTADA
+  {
+    id: 'BATTERY_DISCONNECT',
+    type: 'Batería Desconectada',
+    severity: 'critical',
+    match: { keywords: ['BATERIA DESCONECTADA', 'BATTERY DISCONNECT', 'DESCONEXION'] },
+    details: 'Batería desconectada - Posible manipulación'
+  },
+  // 8. RALENTÍ EXCESIVO (reportado por el GPS)
+  {
+    id: 'IDLE',
+    type: 'Ralentí Excesivo',
+    severity: 'low',
+    match: { keywords: ['RALENTI', 'IDLE', 'ALERTA RALENTI'] },
+    details: 'Ralentí excesivo detectado',
+    episodic: true
+  },
+  // Ralentí medido: motor encendido con el vehículo detenido durante el umbral
+  // del contrato (idleTimeMinutes, 10 min por defecto)
+  {
+    id: 'IDLE_ENGINE',
+    type: 'Ralentí Excesivo',
+    severity: 'low',
+    match: { maxSpeed: 0, ignitionOn: true, minDurationMinutes: 'idleTimeMinutes', unlessRules: ['IDLE'] },
+    details: 'Motor encendido y detenido hace {duration} min (umbral: {minDuration} min)',
+    episodic: true
+  },
+  // 9. ALERTAS GENERALES DE COLTRACK
+  {
+    id: 'COLTRACK_INFRACTION',
+    type: 'Alerta General',
+    severity: 'medium',
+    match: { sources: ['COLTRACK'], keywords: ['INFRACCION'] },
+    details: 'Infracción detectada',
+    useEventText: true
+  },
+  // 10. ALERTAS GENERALES DE FAGOR
+  {
+    id: 'FAGOR_EXCESS',
+    type: 'Alerta General',
+    severity: 'medium',
+    // Ya manejado por velocidad, pero podría ser otro tipo de exceso
+    match: { sources: ['FAGOR'], keywords: ['EXCESO'], unlessRules: ['SPEED'] },
+    details: 'Exceso detectado',
+    useEventText: true
+  },
+  {
+    id: 'FAGOR_ALERT',
+    type: 'Alerta General',
+    severity: 'high',
+    match: { sources: ['FAGOR'], keywords: ['ALERTA', 'EMERGENCIA'] },
+    details: 'Alerta general',
+    useEventText: true
+  },
+  // 11. COMBUSTIBLE BAJO (umbral configurable por contrato, 15% por defecto)
+  {
+    id: 'LOW_FUEL',
+    type: 'Combustible Bajo',
+    severity: 'medium',
+    match: { maxFuelPercent: 'lowFuelPercent' },
+    details: 'Combustible bajo: {fuel}% (umbral: {maxFuel}%)',
+    episodic: true
+  },
+  // 12. SIN SEÑAL GPS (el equipo dejó de reportar; 60 min por defecto)
+  // La alerta conserva la hora del último reporte, así que se guarda una sola vez por corte
+  {
+    id: 'GPS_OFFLINE',
+    type: 'Sin Señal GPS',
+    severity: 'high',
+    match: { minMinutesSinceReport: 'offlineMinutes' },
+    details: 'Sin reportar desde hace {silence} min (umbral: {offline} min)'
+  },
+];
+
+// ==================== ENGINE ====================
+
+const resolveValue = (value: AlertRuleValue | undefined, thresholds: AlertThresholds): number | undefined =>
+  typeof value === 'string' ? thresholds[value] : value;
+
+const percentOverLimit = (vehicle: AlertRuleVehicle, env: RuleEnvironment): number =>
+  env.speedLimit.limit > 0 ? Math.round(((vehicle.speed - env.speedLimit.limit) / env.speedLimit.limit) * 100) : 0;
+
+const resolveSeverity = (rule: AlertRule, vehicle: AlertRuleVehicle, env: RuleEnvironment): AlertRuleSeverity => {
+  if (!rule.severityByPercentOver) return rule.severity;
+
+  const percentOver = percentOverLimit(vehicle, env);
+  const step = rule.severityByPercentOver.find(s => percentOver >= s.percentOver);
+  return step ? step.severity : rule.severity;
+};
+
+const formatDetails = (rule: AlertRule, vehicle: AlertRuleVehicle, env: RuleEnvironment, durationMinutes: number): string => {
+  if (rule.useEventText && vehicle.event) return vehicle.event;
+
+  return rule.details
+    .replace('{speed}', String(vehicle.speed))
+    .replace('{minSpeed}', String(resolveValue(rule.match.minSpeed, env.thresholds) ?? ''))
+    .replace('{limit}', String(env.speedLimit.limit))
+    .replace('{zone}', env.speedLimit.zoneName ? ` en zona "${env.speedLimit.zoneName}"` : '')
+    .replace('{percentOver}', String(percentOverLimit(vehicle, env)))
+    .replace('{fuel}', String(vehicle.fuelLevel ?? ''))
+    .replace('{maxFuel}', String(resolveValue(rule.match.maxFuelPercent, env.thresholds) ?? ''))
+    .replace('{silence}', String(Math.round(minutesSinceReport(vehicle.lastUpdate, env.now) ?? 0)))
+    .replace('{offline}', String(resolveValue(rule.match.minMinutesSinceReport, env.thresholds) ?? ''))
+    .replace('{duration}', String(Math.round(durationMinutes)))
+    .replace('{minDuration}', String(resolveValue(rule.match.minDurationMinutes, env.thresholds) ?? ''))
+    .replace('{event}', vehicle.event || '');
+};
+
+/**
+ * Evalúa las condiciones instantáneas de la regla (sin duración)
+ */
+function matchesRule(rule: AlertRule, vehicle: AlertRuleVehicle, eventUpper: string, env: RuleEnvironment): boolean {
+  const { keywords, alsoKeywords, sources, overSpeedLimit } = rule.match;
+  const minSpeed = resolveValue(rule.match.minSpeed, env.thresholds);
+  const maxSpeed = resolveValue(rule.match.maxSpeed, env.thresholds);
+  const maxFuel = resolveValue(rule.match.maxFuelPercent, env.thresholds);
+  const minSilence = resolveValue(rule.match.minMinutesSinceReport, env.thresholds);
+
+  if (minSpeed !== undefined && !(vehicle.speed >= minSpeed)) return false;
+  if (maxSpeed !== undefined && !(vehicle.speed <= maxSpeed)) return false;
+  if (rule.match.ignitionOn && vehicle.ignition !== true) return false;
+  if (maxFuel !== undefined && !(vehicle.fuelLevel && vehicle.fuelLevel > 0 && vehicle.fuelLevel <= maxFuel)) return false;
+  if (minSilence !== undefined) {
+    const silence = vehicle.lastUpdateEstimated ? null : minutesSinceReport(vehicle.lastUpdate, env.now);
+    if (silence === null || silence < minSilence) return false;
+  }
+  if (overSpeedLimit && !(vehicle.speed > env.speedLimit.limit + env.speedLimit.tolerance)) return false;
+  if (sources && !sources.includes(vehicle.source)) return false;
+  if (keywords && !keywords.some(keyword => eventUpper.includes(keyword))) return false;
+  if (alsoKeywords && !alsoKeywords.some(keyword => eventUpper.includes(keyword))) return false;
+
+  return true;
+}
+
+/**
+ * Minutos que lleva activa la condición si ya cumple el tiempo requerido por la regla
+ * (0 para reglas sin duración); null si la regla no se dispara
+ */
+function activeDuration(
+  rule: AlertRule,
+  vehicle: AlertRuleVehicle,
+  matched: boolean,
+  thresholds: AlertThresholds,
+  durationState?: AlertRuleDurationState
+): number | null {
+  const minutes = resolveValue(rule.match.minDurationMinutes, thresholds);
+  if (!minutes) return matched ? 0 : null;
+
+  // Sin estado no se puede medir la duración: la regla no se dispara
+  if (!durationState) return null;
+
+  const key = `${vehicle.plate}:${rule.id}`;
+  if (!matched) {
+    durationState.delete(key);
+    return null;
+  }
+
+  const since = durationState.get(key);
+  if (!since) {
+    durationState.set(key, vehicle.lastUpdate);
+    return null;
+  }
+
+  const elapsedMinutes = (new Date(vehicle.lastUpdate).getTime() - new Date(since).getTime()) / (1000 * 60);
+  return elapsedMinutes >= minutes ? elapsedMinutes : null;
+}
+
+/**
+ * Evalúa todas las reglas sobre una lectura del vehículo
+ * Las reglas se procesan en orden; unlessRules solo ve las reglas anteriores.
+ */
+export function evaluateAlertRules(
+  vehicle: AlertRuleVehicle,
+  rules: AlertRule[] = DEFAULT_ALERT_RULES,
+  context: AlertRuleContext = {}
+): AlertRuleResult[] {
+  const thresholds = context.thresholds || DEFAULT_ALERT_THRESHOLDS;
+  const env: RuleEnvironment = {
+    thresholds,
+    speedLimit: context.speedLimit || { limit: thresholds.speedLimit, tolerance: 0 },
+    now: context.now || new Date()
+  };
+  const eventUpper = (vehicle.event || '').toUpperCase();
+  const fired = new Set<string>();
+  const results: AlertRuleResult[] = [];
+
+  for (const rule of rules) {
+    const matched = matchesRule(rule, vehicle, eventUpper, env);
+    const durationMinutes = activeDuration(rule, vehicle, matched, thresholds, context.durationState);
+    if (durationMinutes === null) continue;
+    if (rule.match.unlessRules?.some(id => fired.has(id))) continue;
+
+    fired.add(rule.id);
+    results.push({
+      rule,
+      type: rule.type,
+      severity: resolveSeverity(rule, vehicle, env),
+      details: formatDetails(rule, vehicle, env, durationMinutes)
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Evalúa las reglas sobre un vehículo con los umbrales de su contrato y tipo
+ * y el límite de la zona de velocidad en la que está
+ * Es la misma resolución que hace la consola con getVehicleThresholds y
+ * getVehicleSpeedLimit (services/alertRulesService.ts).
+ */
+export function detectVehicleAlerts(
+  vehicle: AlertRuleVehicle & AlertThresholdVehicle & GeofenceVehicle,
+  config: VehicleAlertConfig,
+  rules: AlertRule[] = DEFAULT_ALERT_RULES
+): AlertRuleResult[] {
+  const thresholds = resolveAlertThresholds(config.thresholdRules, vehicle);
+
+  return evaluateAlertRules(vehicle, rules, {
+    thresholds,
+    speedLimit: resolveSpeedLimit(vehicle, config.speedZones, thresholds.speedLimit),
+    durationState: config.durationState,
+    now: config.now
+  });
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { computeSlaDueDates, elapsedMinutes, evaluateSlaBreaches, findSlaTarget, SlaTarget } from './alertSla';
+
+const targets: SlaTarget[] = [
+  { contract: null, severity: 'high', ack_minutes: 20, resolve_minutes: 180 },
+  { contract: 'Contrato Andes', severity: 'high', ack_minutes: 10, resolve_minutes: 120 },
+];
+
+const EVENT = '2026-10-19T14:00:00.000Z';
+
+describe('findSlaTarget', () => {
+  it('la meta del contrato gana sobre la global', () => {
+    expect(findSlaTarget(targets, 'high', 'Contrato Andes').ack_minutes).toBe(10);
+    expect(findSlaTarget(targets, 'high', 'Contrato Campo').ack_minutes).toBe(20);
+  });
+
+  it('sin metas configuradas usa DEFAULT_SLA_TARGETS', () => {
+    expect(findSlaTarget(targets, 'critical')).toMatchObject({ contract: null, ack_minutes: 5, resolve_minutes: 60 });
+  });
+});
+
+describe('computeSlaDueDates', () => {
+  it('cuenta los minutos desde la hora del evento', () => {
+    expect(computeSlaDueDates(targets, { timestamp: EVENT, severity: 'high', contract: 'Contrato Andes' })).toEqual({
+      ack_due_at: '2026-10-19T14:10:00.000Z',
+      resolve_due_at: '2026-10-19T16:00:00.000Z'
+    });
+  });
+});
+
+describe('evaluateSlaBreaches', () => {
+  const state = {
+    timestamp: EVENT,
+    status: 'pending' as const,
+    ack_due_at: '2026-10-19T14:10:00.000Z',
+    resolve_due_at: '2026-10-19T16:00:00.000Z'
+  };
+
+  it('confirmar justo en el vencimiento cumple la meta', () => {
+    expect(evaluateSlaBreaches({ ...state, acknowledged_at: '2026-10-19T14:10:00.000Z' }).ack_sla_breached).toBe(false);
+    expect(evaluateSlaBreaches({ ...state, acknowledged_at: '2026-10-19T14:10:00.001Z' }).ack_sla_breached).toBe(true);
+  });
+
+  it('una meta abierta se incumple recién después del vencimiento', () => {
+    expect(evaluateSlaBreaches(state, new Date('2026-10-19T14:10:00.000Z'))).toEqual({
+      ack_sla_breached: false,
+      resolution_sla_breached: false
+    });
+    expect(evaluateSlaBreaches(state, new Date('2026-10-19T16:00:01.000Z'))).toEqual({
+      ack_sla_breached: true,
+      resolution_sla_breached: true
+    });
+  });
+
+  it('resolver a tiempo no borra la confirmación tardía', () => {
+    expect(evaluateSlaBreaches({
+      ...state,
+      status: 'resolved',
+      acknowledged_at: '2026-10-19T14:30:00.000Z',
+      resolved_at: '2026-10-19T15:00:00.000Z'
+    }, new Date('2026-10-20T00:00:00.000Z'))).toEqual({ ack_sla_breached: true, resolution_sla_breached: false });
+  });
+
+  it('sin vencimiento no hay incumplimiento', () => {
+    expect(evaluateSlaBreaches({ timestamp: EVENT, status: 'pending' }, new Date('2027-01-01T00:00:00.000Z'))).toEqual({
+      ack_sla_breached: false,
+      resolution_sla_breached: false
+    });
+  });
+});
+
+describe('elapsedMinutes', () => {
+  it('redondea a minutos y no devuelve negativos', () => {
+    expect(elapsedMinutes(EVENT, '2026-10-19T14:10:29.000Z')).toBe(10);
+    expect(elapsedMinutes(EVENT, '2026-10-19T13:59:00.000Z')).toBe(0);
+    expect(elapsedMinutes(EVENT, null)).toBeNull();
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * SLA de alertas en seguimiento (alert_history)
+ *
+ * Cada severidad tiene una meta de confirmación y otra de resolución en minutos
+ * desde la hora del evento (alert_sla_targets; la meta del contrato gana sobre
+ * la global). Al guardar la alerta en seguimiento se fijan ack_due_at y
+ * resolve_due_at; al confirmarla o resolverla se evalúa si se cumplió.
+ *
+ * Las alertas que siguen abiertas después del vencimiento las marca el worker
+ * alert-monitor en cada ejecución (flagSlaBreaches), así el incumplimiento
+ * queda registrado aunque nadie abra la consola.
+ *
+ * Compartido por el worker (barrido de vencidas) y el frontend (metas y reporte).
+ */
+
+import { NotificationSeverity } from './notificationDispatch.ts';
+
+// ==================== TYPES ====================
+
+/** Fila de alert_sla_targets */
+export interface SlaTarget {
+  id?: string;
+  contract: string | null;
+  severity: NotificationSeverity;
+  ack_minutes: number;
+  resolve_minutes: number;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export interface SlaDueDates {
+  ack_due_at: string;
+  resolve_due_at: string;
+}
+
+/** Campos de alert_history que intervienen en la evaluación */
+export interface AlertSlaState {
+  timestamp: string;
+  status: 'pending' | 'in_progress' | 'resolved';
+  acknowledged_at?: string | null;
+  resolved_at?: string | null;
+  ack_due_at?: string | null;
+  resolve_due_at?: string | null;
+}
+
+export interface SlaBreachFlags {
+  ack_sla_breached: boolean;
+  resolution_sla_breached: boolean;
+}
+
+export interface SlaSweepResult {
+  ack_breached: number;
+  resolution_breached: number;
+}
+
+// ==================== CONFIGURATION ====================
+
+/** Metas por defecto (mismas que siembra alert_sla.sql) */
+export const DEFAULT_SLA_TARGETS: Record<NotificationSeverity, { ack_minutes: number; resolve_minutes: number }> = {
+  critical: { ack_minutes: 5, resolve_minutes: 60 },
+  high: { ack_minutes: 15, resolve_minutes: 240 },
+  medium: { ack_minutes: 60, resolve_minutes: 1440 },
+  low: { ack_minutes: 240, resolve_minutes: 4320 },
+};
+
+export const SLA_SEVERITIES: NotificationSeverity[] = ['critical', 'high', 'medium', 'low'];
+
+// ==================== TARGETS ====================
+
+export async function loadSlaTargets(supabase: any): Promise<SlaTarget[]> {
+  const { data, error } = await supabase
+    .from('alert_sla_targets')
+    .select('*');
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Meta que aplica a la alerta
+ * Gana la del contrato sobre la global; sin ninguna se usa DEFAULT_SLA_TARGETS
+ */
+export function findSlaTarget(
+  targets: SlaTarget[],
+  severity: string,
+  contract?: string | null
+): SlaTarget {
+  const forSeverity = targets.filter(target => target.severity === severity);
+  const match =
+    forSeverity.find(target => target.contract && target.contract === contract) ||
+    forSeverity.find(target => !target.contract);
+
+  if (match) return match;
+
+  const fallback = DEFAULT_SLA_TARGETS[severity as NotificationSeverity] || DEFAULT_SLA_TARGETS.low;
+  return { contract: null, severity: severity as NotificationSeverity, ...fallback };
+}
+
+export function computeSlaDueDates(
+  targets: SlaTarget[],
+  alert: { timestamp: string; severity: string; contract?: string | null }
+): SlaDueDates {
+  const target = findSlaTarget(targets, alert.severity, alert.contract);
+  const start = new Date(alert.timestamp).getTime();
+
+  return {
+    ack_due_at: new Date(start + target.ack_minutes * 60000).toISOString(),
+    resolve_due_at: new Date(start + target.resolve_minutes * 60000).toISOString(),
+  };
+}
+
+// ==================== EVALUATION ====================
+
+/** Minutos entre dos fechas ISO (null si falta alguna) */
+export function elapsedMinutes(from?: string | null, to?: string | null): number | null {
+  if (!from || !to) return null;
+  return Math.max(0, Math.round((new Date(to).getTime() - new Date(from).getTime()) / 60000));
+}
+
+/**
+ * Incumplimientos de la alerta al momento indicado
+ * Una meta abierta cuenta como incumplida solo cuando ya venció
+ */
+export function evaluateSlaBreaches(state: AlertSlaState, now: Date = new Date()): SlaBreachFlags {
+  const breached = (doneAt: string | null | undefined, dueAt: string | null | undefined): boolean => {
+    if (!dueAt) return false;
+    const reference = doneAt ? new Date(doneAt).getTime() : now.getTime();
+    return reference > new Date(dueAt).getTime();
+  };
+
+  return {
+    ack_sla_breached: breached(state.acknowledged_at, state.ack_due_at),
+    resolution_sla_breached: breached(state.resolved_at, state.resolve_due_at),
+  };
+}
+
+// ==================== WORKER SWEEP ====================
+
+/**
+ * Marca como incumplidas las alertas abiertas cuyo vencimiento ya pasó
+ * Solo toca filas aún sin marcar, así repetir el barrido no cambia nada
+ */
+export async function flagSlaBreaches(supabase: any, now: Date = new Date()): Promise<SlaSweepResult> {
+  const nowIso = now.toISOString();
+
+  const { data: ackBreached, error: ackError } = await supabase
+    .from('alert_history')
+    .update({ ack_sla_breached: true })
+    .eq('status', 'pending')
+    .is('acknowledged_at', null)
+    .eq('ack_sla_breached', false)
+    .lt('ack_due_at', nowIso)
+    .select('id');
+
+  if (ackError) throw ackError;
+
+  const { data: resolutionBreached, error: resolutionError } = await supabase
+    .from('alert_history')
+    .update({ resolution_sla_breached: true })
+    .neq('status', 'resolved')
+    .eq('resolution_sla_breached', false)
+    .lt('resolve_due_at', nowIso)
+    .select('id');
+
+  if (resolutionError) throw resolutionError;
+
+  return {
+    ack_breached: (ackBreached || []).length,
+    resolution_breached: (resolutionBreached || []).length,
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * Umbrales de alerta configurables por contrato y tipo de vehículo
+ *
+ * Los valores viven en la tabla alert_rules. Cada fila puede fijar solo
+ * algunos umbrales; los demás se heredan de la regla menos específica:
+ *
+ *   contrato + tipo  →  contrato  →  tipo de vehículo  →  global  →  DEFAULT_ALERT_THRESHOLDS
+ *
+ * Compartido por el frontend y el worker alert-monitor.
+ */
+
+// ==================== TYPES ====================
+
+export interface AlertThresholds {
+  /** Velocidad máxima permitida (km/h) */
+  speedLimit: number;
+  /** Minutos de ralentí antes de considerarlo excesivo */
+  idleTimeMinutes: number;
+  /** Porcentaje de combustible considerado bajo */
+  lowFuelPercent: number;
+  /** Minutos sin reportar tras los cuales el vehículo queda "sin señal" */
+  offlineMinutes: number;
+}
+
+/** Fila de la tabla alert_rules */
+export interface AlertThresholdRule {
+  id: string;
+  contract?: string | null;
+  vehicle_type?: string | null;
+  speed_limit?: number | null;
+  idle_time_minutes?: number | null;
+  low_fuel_percent?: number | null;
+  offline_minutes?: number | null;
+  description?: string | null;
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+  created_by?: string;
+}
+
+export interface AlertThresholdVehicle {
+  contract?: string | null;
+  vehicleType?: string | null;
+}
+
+// ==================== DEFAULTS ====================
+
+export const DEFAULT_ALERT_THRESHOLDS: AlertThresholds = {
+  speedLimit: 80,
+  idleTimeMinutes: 10,
+  lowFuelPercent: 15,
+  offlineMinutes: 60,
+};
+
+// ==================== RESOLUTION ====================
+
+const normalizeKey = (value?: string | null): string => (value || '').trim().toUpperCase();
+
+/**
+ * Especificidad de la regla para el vehículo (-1 si no aplica)
+ */
+function ruleSpecificity(rule: AlertThresholdRule, vehicle: AlertThresholdVehicle): number {
+  const ruleContract = normalizeKey(rule.contract);
+  const ruleType = normalizeKey(rule.vehicle_type);
+
+  if (ruleContract && ruleContract !== normalizeKey(vehicle.contract)) return -1;
+  if (ruleType && ruleType !== normalizeKey(vehicle.vehicleType)) return -1;
+
+  if (ruleContract && ruleType) return 3;
+  if (ruleContract) return 2;
+  if (ruleType) return 1;
+  return 0;
+}
+
+/**
+ * Calcula los umbrales efectivos para un vehículo
+ */
+export function resolveAlertThresholds(
+  rules: AlertThresholdRule[],
+  vehicle: AlertThresholdVehicle
+): AlertThresholds {
+  const applicable = rules
+    .filter(rule => rule.is_active)
+    .map(rule => ({ rule, specificity: ruleSpecificity(rule, vehicle) }))
+    .filter(({ specificity }) => specificity >= 0)
+    .sort((a, b) => b.specificity - a.specificity)
+    .map(({ rule }) => rule);
+
+  const pick = (field: 'speed_limit' | 'idle_time_minutes' | 'low_fuel_percent' | 'offline_minutes', fallback: number): number => {
+    const rule = applicable.find(r => r[field] !== null && r[field] !== undefined);
+    return rule ? Number(rule[field]) : fallback;
+  };
+
+  return {
+    speedLimit: pick('speed_limit', DEFAULT_ALERT_THRESHOLDS.speedLimit),
+    idleTimeMinutes: pick('idle_time_minutes', DEFAULT_ALERT_THRESHOLDS.idleTimeMinutes),
+    lowFuelPercent: pick('low_fuel_percent', DEFAULT_ALERT_THRESHOLDS.lowFuelPercent),
+    offlineMinutes: pick('offline_minutes', DEFAULT_ALERT_THRESHOLDS.offlineMinutes),
+  };
+}
+
+/**
+ * Carga las reglas activas de alert_rules
+ */
+export async function loadAlertThresholdRules(supabase: any): Promise<AlertThresholdRule[]> {
+  const { data, error } = await supabase
+    .from('alert_rules')
+    .select('*')
+    .eq('is_active', true);
+
+  if (error) throw error;
+  return data || [];
+}
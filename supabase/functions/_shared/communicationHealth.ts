@@ -0,0 +1,125 @@
+/**
+ * Hora real de reporte del GPS y salud de la comunicación
+ *
+ * Los proveedores entregan la hora del último reporte del equipo en formatos
+ * distintos (ISO, "dd/mm/aaaa hh:mm:ss", "aaaa-mm-dd hh:mm:ss") y casi siempre
+ * en hora de Colombia sin zona horaria. parseDeviceTimestamp() la convierte a
+ * ISO para que Vehicle.lastUpdate refleje cuándo reportó el equipo y no
+ * cuándo se consultó la API.
+ *
+ * Compartido por los proveedores del frontend (services/telematics) y el worker alert-monitor.
+ */
+
+// ==================== TYPES ====================
+
+/**
+ * - online: reportó hace menos de la mitad del umbral de "sin señal"
+ * - delayed: reporte retrasado, aún dentro del umbral
+ * - offline: sin reportar durante el umbral o más
+ * - unknown: el proveedor no entregó la hora del reporte
+ */
+export type CommunicationHealth = 'online' | 'delayed' | 'offline' | 'unknown';
+
+// ==================== CONFIGURATION ====================
+
+/** Zona horaria de los equipos cuando el proveedor no la indica (Colombia, sin horario de verano) */
+export const DEVICE_UTC_OFFSET = '-05:00';
+
+// ==================== PARSING ====================
+
+const pad = (value: string | number): string => String(value).padStart(2, '0');
+
+/** Hora opcional: hh:mm[:ss[.fff]] con a. m. / p. m. opcional */
+const TIME_PART = '(?:[ T]+(\\d{1,2}):(\\d{2})(?::(\\d{2}))?(?:\\.\\d+)?\\s*([ap])?\\.?\\s*(?:m\\.?)?)?';
+
+// dd/mm/aaaa [hh:mm[:ss]] (formato habitual de FlotasNet y Coltrack)
+const DAY_FIRST = new RegExp(`^(\\d{1,2})[/.-](\\d{1,2})[/.-](\\d{4})${TIME_PART}$`, 'i');
+// aaaa-mm-dd [hh:mm[:ss]] o aaaa/mm/dd sin zona horaria
+const YEAR_FIRST = new RegExp(`^(\\d{4})[/-](\\d{1,2})[/-](\\d{1,2})${TIME_PART}$`, 'i');
+// Empieza como fecha numérica con el día o el mes primero (no se puede adivinar con Date)
+const NUMERIC_DATE = /^\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4}/;
+
+/**
+ * Fecha y hora del equipo (hora de Colombia) a ISO, validando que el día exista
+ */
+function buildDeviceDate(
+  year: string,
+  month: string,
+  day: string,
+  hour = '0',
+  minute = '00',
+  second = '0',
+  meridiem?: string
+): string | null {
+  let hours = Number(hour);
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem.toLowerCase() === 'p' ? 12 : 0);
+  }
+  if (Number(month) < 1 || Number(month) > 12 || Number(day) < 1 || hours > 23) return null;
+
+  const date = new Date(`${year}-${pad(month)}-${pad(day)}T${pad(hours)}:${minute}:${pad(second)}${DEVICE_UTC_OFFSET}`);
+  if (isNaN(date.getTime())) return null;
+
+  // 31/04 no existe: Date lo pasa al 1/05 en lugar de fallar
+  const local = new Date(date.getTime() + Number(DEVICE_UTC_OFFSET.slice(0, 3)) * 60 * 60 * 1000);
+  return local.getUTCDate() === Number(day) ? date.toISOString() : null;
+}
+
+/**
+ * Convierte la hora de reporte del proveedor a ISO (UTC)
+ * Retorna null si el valor está vacío o no se reconoce. Las fechas numéricas sin
+ * año al inicio se leen siempre como día/mes: new Date() las lee como mes/día,
+ * así que las que no se reconocen se descartan en lugar de pasarlas a Date.
+ */
+export function parseDeviceTimestamp(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim();
+  if (!text) return null;
+
+  const dayFirst = text.match(DAY_FIRST);
+  if (dayFirst) {
+    const [, day, month, year, hour, minute, second, meridiem] = dayFirst;
+    return buildDeviceDate(year, month, day, hour, minute, second, meridiem);
+  }
+
+  // Sin zona horaria → hora local del equipo
+  const yearFirst = text.match(YEAR_FIRST);
+  if (yearFirst) {
+    const [, year, month, day, hour, minute, second, meridiem] = yearFirst;
+    return buildDeviceDate(year, month, day, hour, minute, second, meridiem);
+  }
+
+  if (NUMERIC_DATE.test(text)) return null;
+
+  // ISO con zona horaria u otros formatos que entiende Date
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// ==================== HEALTH ====================
+
+/**
+ * Minutos transcurridos desde el último reporte del equipo
+ */
+export function minutesSinceReport(lastUpdate: string | null | undefined, now: Date = new Date()): number | null {
+  if (!lastUpdate) return null;
+  const time = new Date(lastUpdate).getTime();
+  if (isNaN(time)) return null;
+  return Math.max(0, (now.getTime() - time) / (1000 * 60));
+}
+
+/**
+ * Estado de la comunicación según el umbral de "sin señal" (minutos)
+ */
+export function getCommunicationHealth(
+  lastUpdate: string | null | undefined,
+  offlineMinutes: number,
+  now: Date = new Date()
+): CommunicationHealth {
+  const minutes = minutesSinceReport(lastUpdate, now);
+  if (minutes === null) return 'unknown';
+  if (minutes >= offlineMinutes) return 'offline';
+  if (minutes >= offlineMinutes / 2) return 'delayed';
+  return 'online';
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ComplianceDriver,
+  daysUntilExpiry,
+  describeExpiry,
+  documentExpiryStatus,
+  expiryThreshold,
+  findExpiredLicenseDrivers
+} from './driverCompliance';
+
+// Lunes 19 de octubre de 2026, 10:00 en Colombia
+const NOW = new Date('2026-10-19T15:00:00Z');
+
+describe('daysUntilExpiry', () => {
+  it('cuenta días calendario en hora de Colombia', () => {
+    expect(daysUntilExpiry('2026-10-19', NOW)).toBe(0);
+    expect(daysUntilExpiry('2026-11-18', NOW)).toBe(30);
+    expect(daysUntilExpiry('2026-10-18', NOW)).toBe(-1);
+    expect(daysUntilExpiry(null, NOW)).toBeNull();
+  });
+
+  it('a las 22:00 del 19 en Colombia todavía es el 19', () => {
+    expect(daysUntilExpiry('2026-10-20', new Date('2026-10-20T03:00:00Z'))).toBe(1);
+    expect(daysUntilExpiry('2026-10-20', new Date('2026-10-20T05:00:00Z'))).toBe(0);
+  });
+});
+
+describe('etapas de vencimiento', () => {
+  it.each([
+    [31, null, 'valid'],
+    [30, 30, 'due_30'],
+    [16, 30, 'due_30'],
+    [15, 15, 'due_15'],
+    [8, 15, 'due_15'],
+    [7, 7, 'due_7'],
+    [0, 7, 'due_7'],
+    [-1, 0, 'expired'],
+  ])('a %i días la etapa es %s (%s)', (days, threshold, status) => {
+    expect(expiryThreshold(days)).toBe(threshold);
+    expect(documentExpiryStatus(days)).toBe(status);
+  });
+
+  it('un documento sin fecha no vence', () => {
+    expect(expiryThreshold(null)).toBeNull();
+    expect(documentExpiryStatus(null)).toBe('no_expiry');
+  });
+
+  it('documentos que vencen en exactamente 30, 15 y 7 días desde hoy', () => {
+    expect(['2026-11-18', '2026-11-03', '2026-10-26'].map(date => documentExpiryStatus(daysUntilExpiry(date, NOW))))
+      .toEqual(['due_30', 'due_15', 'due_7']);
+  });
+
+  it('describe el vencimiento', () => {
+    expect([describeExpiry(0), describeExpiry(1), describeExpiry(7), describeExpiry(-1), describeExpiry(-3)])
+      .toEqual(['vence hoy', 'vence en 1 día', 'vence en 7 días', 'vencido hace 1 día', 'vencido hace 3 días']);
+  });
+});
+
+describe('findExpiredLicenseDrivers', () => {
+  const drivers: ComplianceDriver[] = [
+    { id: 'd1', first_name: 'Juan', last_name: 'Pérez', status: 'active', assigned_vehicle: 'TTK123', license_expiry: '2026-10-18' },
+    { id: 'd2', first_name: 'Ana', last_name: 'Gómez', status: 'active', assigned_vehicle: 'WPQ771', license_expiry: '2026-10-19' },
+  ];
+  const aliases = new Map([['JUANCHO', 'd1']]);
+
+  it('alerta el vehículo en movimiento con la licencia vencida desde ayer', () => {
+    const matches = findExpiredLicenseDrivers([{ plate: 'XYZ999', driver: 'Juancho', speed: 60 }], drivers, aliases, NOW);
+    expect(matches.map(match => [match.driver.id, match.expiredDays])).toEqual([['d1', 1]]);
+  });
+
+  it('no alerta la licencia que vence hoy ni los vehículos detenidos', () => {
+    expect(findExpiredLicenseDrivers([
+      { plate: 'WPQ771', driver: '', speed: 60 },
+      { plate: 'TTK123', driver: '', speed: 4 },
+    ], drivers, aliases, NOW)).toEqual([]);
+  });
+
+  it('sin alias vinculado usa el conductor con la placa asignada', () => {
+    const matches = findExpiredLicenseDrivers([{ plate: 'ttk-123', driver: 'Sin conductor', speed: 30 }], drivers, aliases, NOW);
+    expect(matches.map(match => match.driver.id)).toEqual(['d1']);
+  });
+});
@@ -0,0 +1,362 @@
+/**
+ * Documentos de conductores y vencimientos (driver_documents.sql)
+ *
+ * Cada conductor tiene licencias de conducción, certificados médicos y cursos
+ * con fecha de vencimiento y el archivo escaneado. La licencia que vence más
+ * tarde se copia a drivers.license_expiry (trigger sync_driver_license).
+ *
+ * 1. La Edge Function driver-compliance (cron diario) avisa por correo, Telegram
+ *    o WhatsApp (notification_settings globales) los documentos que entran en
+ *    30, 15 y 7 días de su vencimiento y los vencidos. Cada documento se avisa
+ *    una vez por etapa (notified_threshold); al renovarlo los avisos se reinician.
+ * 2. alert-monitor genera "Conductor con Licencia Vencida" cuando un vehículo en
+ *    movimiento reporta un conductor con la licencia vencida. El conductor se
+ *    resuelve igual que en link_driver_id (driver_matching.sql): alias vinculado
+ *    o, si no, el conductor activo con la placa asignada.
+ *
+ * Las fechas se comparan en hora de Colombia (UTC-5).
+ *
+ * Compartido por las Edge Functions y el frontend (tipos, etiquetas y estados).
+ */
+
+import {
+  NotificationChannel,
+  NotificationSeverity,
+  enqueueMessageNotification,
+  escapeHtml,
+  loadNotificationSettings,
+  resolveNotificationTargets
+} from './notificationDispatch.ts';
+import { RegistryDriver, driverKey, findAssignedDriver, loadLinkedAliases, registryName } from './driverMatching.ts';
+
+// ==================== TYPES ====================
+
+export type DriverDocumentType = 'license' | 'medical' | 'course';
+
+export type DocumentExpiryStatus = 'expired' | 'due_7' | 'due_15' | 'due_30' | 'valid' | 'no_expiry';
+
+/** Fila de driver_documents */
+export interface DriverDocumentRow {
+  id: string;
+  driver_id: string;
+  document_type: DriverDocumentType;
+  name: string | null;
+  document_number: string | null;
+  category: string | null;
+  issuer: string | null;
+  issued_at: string | null; // YYYY-MM-DD
+  expires_at: string | null; // YYYY-MM-DD, null = no vence
+  file_path: string | null;
+  file_name: string | null;
+  file_size: number | null;
+  file_type: string | null;
+  notes: string | null;
+  notified_threshold: number | null;
+  created_by: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/** Conductor del registro con la licencia vigente (copiada por sync_driver_license) */
+export interface ComplianceDriver extends RegistryDriver {
+  license_expiry?: string | null;
+}
+
+/** Vehículo en movimiento con un conductor de licencia vencida */
+export interface ExpiredLicenseMatch<V> {
+  vehicle: V;
+  driver: ComplianceDriver;
+  /** Días desde el vencimiento */
+  expiredDays: number;
+}
+
+export interface ComplianceNoticeResult {
+  checked: number;
+  notified: number;
+  queued: number;
+}
+
+// ==================== CONFIGURATION ====================
+
+export const DRIVER_COMPLIANCE_CONFIG = {
+  /** Días antes del vencimiento en que se avisa (de mayor a menor) */
+  EXPIRY_THRESHOLDS: [30, 15, 7],
+  /** Bucket privado de los archivos adjuntos */
+  BUCKET: 'driver-documents',
+  /** Tamaño máximo del archivo adjunto */
+  MAX_FILE_MB: 10,
+  /** Tipo de alerta en saved_alerts */
+  EXPIRED_LICENSE_ALERT_TYPE: 'Conductor con Licencia Vencida',
+  /** Velocidad desde la que el vehículo se considera en movimiento */
+  MOVING_SPEED_KMH: 5,
+  UTC_OFFSET_HOURS: -5,
+};
+
+export const DRIVER_DOCUMENT_TYPE_LABELS: Record<DriverDocumentType, string> = {
+  license: 'Licencia de conducción',
+  medical: 'Certificado médico',
+  course: 'Curso / certificación',
+};
+
+export const DOCUMENT_EXPIRY_STATUS_LABELS: Record<DocumentExpiryStatus, string> = {
+  expired: 'Vencido',
+  due_7: 'Vence en 7 días',
+  due_15: 'Vence en 15 días',
+  due_30: 'Vence en 30 días',
+  valid: 'Vigente',
+  no_expiry: 'Sin vencimiento',
+};
+
+/** Severidad del aviso por etapa (filtra destinatarios por min_severity) */
+const THRESHOLD_SEVERITY: Record<number, NotificationSeverity> = {
+  0: 'critical',
+  7: 'high',
+  15: 'medium',
+  30: 'low',
+};
+
+// ==================== DATES ====================
+
+const OFFSET_MS = DRIVER_COMPLIANCE_CONFIG.UTC_OFFSET_HOURS * 60 * 60 * 1000;
+
+/** Fecha de hoy en Colombia (YYYY-MM-DD) */
+export const complianceToday = (now: Date = new Date()): string =>
+  new Date(now.getTime() + OFFSET_MS).toISOString().slice(0, 10);
+
+const addDays = (day: string, days: number): string =>
+  new Date(Date.parse(`${day}T00:00:00Z`) + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+/**
+ * Días que faltan para el vencimiento (0 = vence hoy, negativo = vencido, null = no vence)
+ */
+export function daysUntilExpiry(expiresAt: string | null | undefined, now: Date = new Date()): number | null {
+  if (!expiresAt) return null;
+  const diff = Date.parse(`${expiresAt.slice(0, 10)}T00:00:00Z`) - Date.parse(`${complianceToday(now)}T00:00:00Z`);
+  return Math.round(diff / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * Etapa de aviso del documento: 30, 15 o 7 días, 0 si está vencido, null si falta más
+ */
+export function expiryThreshold(days: number | null): number | null {
+  if (days === null) return null;
+  if (days < 0) return 0;
+
+  const thresholds = [...DRIVER_COMPLIANCE_CONFIG.EXPIRY_THRESHOLDS].sort((a, b) => a - b);
+  return thresholds.find(threshold => days <= threshold) ?? null;
+}
+
+export function documentExpiryStatus(days: number | null): DocumentExpiryStatus {
+  const threshold = expiryThreshold(days);
+  if (days === null) return 'no_expiry';
+  if (threshold === null) return 'valid';
+  if (threshold === 0) return 'expired';
+  return `due_${threshold}` as DocumentExpiryStatus;
+}
+
+/** "vence hoy", "vence en 12 días", "vencido hace 3 días" */
+export function describeExpiry(days: number | null): string {
+  if (days === null) return 'sin vencimiento';
+  if (days === 0) return 'vence hoy';
+  if (days > 0) return `vence en ${days} ${days === 1 ? 'día' : 'días'}`;
+  return `vencido hace ${-days} ${days === -1 ? 'día' : 'días'}`;
+}
+
+/** Nombre del documento para listas y avisos */
+export const documentLabel = (document: Pick<DriverDocumentRow, 'document_type' | 'name' | 'category'>): string => {
+  const base = DRIVER_DOCUMENT_TYPE_LABELS[document.document_type];
+  if (document.document_type === 'license') return document.category ? `${base} ${document.category}` : base;
+  return document.name ? `${base}: ${document.name}` : base;
+};
+
+// ==================== EXPIRY NOTICES ====================
+
+interface NoticeItem {
+  document: DriverDocumentRow;
+  driverName: string;
+  days: number;
+  threshold: number;
+}
+
+function formatNotice(items: NoticeItem[], channel: NotificationChannel): { subject: string; message: string } {
+  const expired = items.filter(item => item.threshold === 0).length;
+  const subject = `🪪 Documentos de conductores: ${expired > 0 ? `${expired} vencidos, ` : ''}${items.length - expired} por vencer`;
+  const sorted = [...items].sort((a, b) => a.days - b.days);
+
+  if (channel === 'email') {
+    const rows = sorted.map(item => `
+      <tr>
+        <td style="padding:6px;border-bottom:1px solid #e2e8f0">${escapeHtml(item.driverName)}</td>
+        <td style="padding:6px;border-bottom:1px solid #e2e8f0">${escapeHtml(documentLabel(item.document))}</td>
+        <td style="padding:6px;border-bottom:1px solid #e2e8f0">${escapeHtml(item.document.expires_at)}</td>
+        <td style="padding:6px;border-bottom:1px solid #e2e8f0;color:${item.threshold === 0 ? '#dc2626' : '#d97706'}">${escapeHtml(describeExpiry(item.days))}</td>
+      </tr>`).join('');
+
+    return {
+      subject,
+      message: `
+        <div style="font-family:Arial,sans-serif;color:#0f172a">
+          <h2 style="margin:0 0 12px">Vencimiento de documentos de conductores</h2>
+          <table style="border-collapse:collapse;font-size:14px">
+            <tr style="text-align:left;background:#f1f5f9">
+              <th style="padding:6px">Conductor</th><th style="padding:6px">Documento</th>
+              <th style="padding:6px">Vencimiento</th><th style="padding:6px">Estado</th>
+            </tr>${rows}
+          </table>
+          <p style="color:#64748b;font-size:12px">Renovar en Gestión → Conductores → Documentos.</p>
+        </div>`,
+    };
+  }
+
+  const lines = sorted.map(item => `• ${item.driverName}: ${documentLabel(item.document)} (${describeExpiry(item.days)}, ${item.document.expires_at})`);
+  const title = channel === 'telegram' ? `<b>${escapeHtml(subject)}</b>` : `*${subject}*`;
+  const body = channel === 'telegram' ? lines.map(escapeHtml) : lines;
+  return { subject, message: [title, '', ...body].join('\n') };
+}
+
+/**
+ * Encola un aviso con los documentos que entraron en una nueva etapa de vencimiento
+ * (30, 15, 7 días o vencido) desde la última ejecución
+ */
+export async function runComplianceNotices(supabase: any, now: Date = new Date()): Promise<ComplianceNoticeResult> {
+  const result: ComplianceNoticeResult = { checked: 0, notified: 0, queued: 0 };
+  const maxThreshold = Math.max(...DRIVER_COMPLIANCE_CONFIG.EXPIRY_THRESHOLDS);
+
+  // Supabase limita a 1000 filas por consulta: paginar
+  const documents: (DriverDocumentRow & { drivers: { first_name: string; last_name: string; status: string } | null })[] = [];
+  let from = 0;
+  const pageSize = 1000;
+  let hasMore = true;
+
+  while (hasMore) {
+    const { data, error } = await supabase
+      .from('driver_documents')
+      .select('*, drivers(first_name, last_name, status)')
+      .not('expires_at', 'is', null)
+      .lte('expires_at', addDays(complianceToday(now), maxThreshold))
+      .order('expires_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + pageSize - 1);
+
+    if (error) throw error;
+
+    documents.push(...(data || []));
+    from += pageSize;
+    hasMore = (data || []).length === pageSize;
+  }
+
+  const items: NoticeItem[] = [];
+  for (const document of documents) {
+    // Los conductores retirados no generan avisos
+    if (!document.drivers || document.drivers.status === 'inactive') continue;
+    result.checked++;
+
+    const days = daysUntilExpiry(document.expires_at, now);
+    const threshold = expiryThreshold(days);
+    if (threshold === null || days === null) continue;
+    if (document.notified_threshold !== null && document.notified_threshold <= threshold) continue;
+
+    // Reclamar el aviso con una actualización condicional: dos ejecuciones no lo repiten
+    let claim = supabase
+      .from('driver_documents')
+      .update({ notified_threshold: threshold })
+      .eq('id', document.id);
+    claim = document.notified_threshold === null
+      ? claim.is('notified_threshold', null)
+      : claim.eq('notified_threshold', document.notified_threshold);
+
+    const { data: claimed, error: claimError } = await claim.select('id');
+    if (claimError) {
+      console.error('[DriverCompliance] Error claiming document notice:', claimError);
+      continue;
+    }
+    if (!claimed || claimed.length === 0) continue;
+
+    items.push({ document, driverName: registryName(document.drivers), days, threshold });
+  }
+
+  result.notified = items.length;
+  if (items.length === 0) return result;
+
+  // Destinatarios globales según la etapa más urgente del aviso
+  const settings = await loadNotificationSettings(supabase);
+  const severity = THRESHOLD_SEVERITY[Math.min(...items.map(item => item.threshold))];
+  const targets = resolveNotificationTargets(settings, { severity, contract: null });
+
+  for (const channel of ['email', 'telegram', 'whatsapp'] as NotificationChannel[]) {
+    const channelTargets = targets.filter(target => target.channel === channel);
+    if (channelTargets.length === 0) continue;
+
+    const { subject, message } = formatNotice(items, channel);
+    result.queued += await enqueueMessageNotification(
+      supabase,
+      {
+        key: `driver-documents-${complianceToday(now)}-${now.getTime()}`,
+        type: 'Vencimiento de documentos',
+        subject,
+        message,
+      },
+      channelTargets
+    );
+  }
+
+  return result;
+}
+
+// ==================== EXPIRED LICENSE WHILE DRIVING ====================
+
+/**
+ * Conductores del registro con la licencia vigente
+ */
+export async function loadComplianceDrivers(supabase: any): Promise<ComplianceDriver[]> {
+  const { data, error } = await supabase
+    .from('drivers')
+    .select('id, first_name, last_name, document_number, assigned_vehicle, status, license_expiry');
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Vehículos en movimiento cuyo conductor tiene la licencia vencida
+ * aliases: name_key → driver_id de los alias vinculados (loadLinkedAliases)
+ */
+export function findExpiredLicenseDrivers<V extends { plate: string; driver: string; speed: number }>(
+  vehicles: V[],
+  drivers: ComplianceDriver[],
+  aliases: Map<string, string>,
+  now: Date = new Date()
+): ExpiredLicenseMatch<V>[] {
+  const byId = new Map(drivers.map(driver => [driver.id, driver]));
+  const matches: ExpiredLicenseMatch<V>[] = [];
+
+  for (const vehicle of vehicles) {
+    if ((vehicle.speed || 0) < DRIVER_COMPLIANCE_CONFIG.MOVING_SPEED_KMH) continue;
+
+    const key = driverKey(vehicle.driver);
+    const linkedId = key ? aliases.get(key) : undefined;
+    const driver = (linkedId && byId.get(linkedId)) || findAssignedDriver(vehicle.plate, drivers);
+    if (!driver) continue;
+
+    const days = daysUntilExpiry(driver.license_expiry, now);
+    if (days === null || days >= 0) continue;
+
+    matches.push({ vehicle, driver, expiredDays: -days });
+  }
+
+  return matches;
+}
+
+/**
+ * Carga conductores y alias y devuelve los vehículos en movimiento con licencia vencida
+ */
+export async function detectExpiredLicenseDrivers<V extends { plate: string; driver: string; speed: number }>(
+  supabase: any,
+  vehicles: V[],
+  now: Date = new Date()
+): Promise<ExpiredLicenseMatch<V>[]> {
+  if (!vehicles.some(vehicle => (vehicle.speed || 0) >= DRIVER_COMPLIANCE_CONFIG.MOVING_SPEED_KMH)) return [];
+
+  const [drivers, aliases] = await Promise.all([loadComplianceDrivers(supabase), loadLinkedAliases(supabase)]);
+  return findExpiredLicenseDrivers(vehicles, drivers, aliases, now);
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { driverKey, matchDriverName, nameSimilarity, RegistryDriver } from './driverMatching';
+
+const driver = (id: string, first_name: string, last_name: string, overrides: Partial<RegistryDriver> = {}): RegistryDriver => ({
+  id,
+  first_name,
+  last_name,
+  status: 'active',
+  ...overrides
+});
+
+describe('driverKey', () => {
+  it('normaliza mayúsculas, tildes y espacios', () => {
+    expect(driverKey('  José   Pérez ')).toBe('JOSE PEREZ');
+  });
+
+  it('devuelve null cuando el GPS no identificó al conductor', () => {
+    expect(driverKey('Sin conductor')).toBeNull();
+    expect(driverKey(null)).toBeNull();
+  });
+});
+
+describe('matchDriverName', () => {
+  it('vincula por nombre exacto o por el documento dentro del texto', () => {
+    const drivers = [driver('d1', 'Juan', 'Pérez', { document_number: '1.020.345.678' })];
+
+    expect(matchDriverName('JUAN PEREZ', drivers)).toMatchObject({ driver_id: 'd1', method: 'exact', confidence: 1 });
+    expect(matchDriverName('CC 1020345678', drivers)).toMatchObject({ driver_id: 'd1', method: 'exact' });
+  });
+
+  it('vincula las mismas palabras en otro orden', () => {
+    expect(matchDriverName('PEREZ GOMEZ, JUAN', [driver('d1', 'Juan', 'Pérez Gómez')]))
+      .toMatchObject({ driver_id: 'd1', method: 'normalized', confidence: 0.98 });
+  });
+
+  it('vincula un nombre parecido justo en FUZZY_ACCEPT (0.85)', () => {
+    const drivers = [driver('d1', 'Ana', 'Maria Valderrama')];
+
+    expect(nameSimilarity('ENI MARIO VALDERRAMA', 'Ana Maria Valderrama')).toBe(0.85);
+    expect(matchDriverName('ENI MARIO VALDERRAMA', drivers)).toMatchObject({ driver_id: 'd1', method: 'fuzzy', confidence: 0.85 });
+  });
+
+  it('por debajo de FUZZY_ACCEPT deja el alias pendiente con la sugerencia', () => {
+    const drivers = [driver('d1', 'Ana', 'Maria Valderrama')];
+
+    expect(nameSimilarity('ENI MARIO VALDERRAMO', 'Ana Maria Valderrama')).toBe(0.8);
+    expect(matchDriverName('ENI MARIO VALDERRAMO', drivers)).toEqual({
+      driver_id: null,
+      method: null,
+      confidence: null,
+      candidates: [{ driver_id: 'd1', name: 'Ana Maria Valderrama', score: 0.8, method: 'fuzzy' }]
+    });
+  });
+
+  it('exige FUZZY_MARGIN sobre el segundo más parecido', () => {
+    const rodriguez = [driver('d1', 'Maria', 'Rodriguez'), driver('d2', 'Mario', 'Rodriguez')];
+    expect(matchDriverName('MARIA RODRIGES', rodriguez)).toMatchObject({ driver_id: 'd1', method: 'fuzzy', confidence: 0.867 });
+
+    const perez = [driver('d1', 'Juan', 'Perez'), driver('d2', 'Juana', 'Perez')];
+    const tied = matchDriverName('JUAN PERES', perez);
+    expect(tied.driver_id).toBeNull();
+    expect(tied.candidates.map(candidate => candidate.driver_id)).toEqual(['d1', 'd2']);
+  });
+
+  it('no sugiere nombres por debajo de FUZZY_SUGGEST (0.55) y cae en el conductor de la placa', () => {
+    const drivers = [driver('d1', 'Juan', 'Perez'), driver('d2', 'Pedro', 'Gómez', { assigned_vehicle: 'ttk-123' })];
+
+    expect(nameSimilarity('CARLOS PEREZ', 'Juan Perez')).toBe(0.5);
+    expect(matchDriverName('CARLOS PEREZ', drivers, 'TTK123').candidates).toEqual([
+      { driver_id: 'd2', name: 'Pedro Gómez', score: 0, method: 'plate' }
+    ]);
+  });
+
+  it('con homónimos vincula solo si uno está activo', () => {
+    const drivers = [driver('d1', 'Juan', 'Perez'), driver('d2', 'Juan', 'Perez', { status: 'inactive' })];
+    expect(matchDriverName('JUAN PEREZ', drivers).driver_id).toBe('d1');
+
+    drivers[1].status = 'active';
+    expect(matchDriverName('JUAN PEREZ', drivers)).toMatchObject({ driver_id: null, method: null });
+  });
+});
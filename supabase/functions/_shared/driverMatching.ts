@@ -0,0 +1,373 @@
+/**
+ * Vinculación de nombres del GPS con el registro de conductores (driver_matching.sql)
+ *
+ * Coltrack (CONDUCTOR) y Fagor (Conductor) envían el conductor como texto libre.
+ * Cada nombre distinto (normalizado con driverKey) queda en driver_name_aliases
+ * la primera vez que llega en una alerta, una inspección o un registro de ralentí
+ * (trigger link_driver_id). Desde ahí:
+ *
+ * 1. La Edge Function driver-matching busca el conductor de los alias pendientes:
+ *    - exact: mismo nombre normalizado que "nombres apellidos" (o el documento dentro del texto)
+ *    - normalized: mismas palabras en otro orden o con otra puntuación ("PEREZ GOMEZ, JUAN")
+ *    - fuzzy: nombre parecido (errores de digitación) con similitud >= FUZZY_ACCEPT
+ *      y sin otro conductor igual de parecido
+ *    Lo que no alcanza queda pendiente con sugerencias para revisión manual.
+ * 2. En Gestión → Conductores → Vinculación GPS se confirma, corrige o ignora cada
+ *    alias (method = 'manual'); el worker no vuelve a tocar los alias manuales
+ *    (salvo que el conductor vinculado se borre del registro).
+ * 3. Al vincular, relink_driver_alias() actualiza driver_id en saved_alerts,
+ *    preoperational_inspections e idle_time_records de los últimos 90 días.
+ *
+ * Los registros sin alias vinculado toman el conductor que tiene asignada la placa
+ * (drivers.assigned_vehicle), si hay uno solo activo.
+ *
+ * Compartido por la Edge Function (vinculación automática) y el frontend (tipos,
+ * etiquetas y sugerencias).
+ */
+
+// ==================== TYPES ====================
+
+export type DriverMatchMethod = 'exact' | 'normalized' | 'fuzzy' | 'plate' | 'manual';
+
+export type DriverAliasStatus = 'pending' | 'matched' | 'ignored';
+
+export interface DriverMatchCandidate {
+  driver_id: string;
+  name: string;
+  score: number; // 0 a 1
+  method: DriverMatchMethod;
+}
+
+/** Fila de driver_name_aliases */
+export interface DriverAliasRow {
+  id: string;
+  name_key: string;
+  raw_name: string;
+  driver_id: string | null;
+  status: DriverAliasStatus;
+  method: DriverMatchMethod | null;
+  confidence: number | null;
+  candidates: DriverMatchCandidate[];
+  last_plate: string | null;
+  occurrences: number;
+  first_seen_at: string;
+  last_seen_at: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/** Campos del registro de conductores que usa la vinculación */
+export interface RegistryDriver {
+  id: string;
+  first_name: string;
+  last_name: string;
+  document_number?: string | null;
+  assigned_vehicle?: string | null;
+  status?: string;
+}
+
+export interface DriverMatchResult {
+  driver_id: string | null;
+  method: DriverMatchMethod | null;
+  confidence: number | null;
+  candidates: DriverMatchCandidate[];
+}
+
+export interface DriverMatchingResult {
+  checked: number;
+  matched: number;
+  pending: number;
+  relinked: number;
+}
+
+// ==================== CONFIGURATION ====================
+
+export const DRIVER_MATCH_CONFIG = {
+  /** Similitud mínima para vincular automáticamente un nombre parecido */
+  FUZZY_ACCEPT: 0.85,
+  /** Similitud mínima para sugerir un conductor en la revisión */
+  FUZZY_SUGGEST: 0.55,
+  /** Ventaja mínima sobre el segundo más parecido para vincular sin revisión */
+  FUZZY_MARGIN: 0.06,
+  /** Sugerencias guardadas por alias */
+  MAX_CANDIDATES: 3,
+  /** Alias procesados por ejecución */
+  BATCH_SIZE: 200,
+  /** Largo mínimo de un número de documento dentro del nombre */
+  MIN_DOCUMENT_DIGITS: 6,
+};
+
+export const DRIVER_MATCH_METHOD_LABELS: Record<DriverMatchMethod, string> = {
+  exact: 'Nombre exacto',
+  normalized: 'Nombre normalizado',
+  fuzzy: 'Nombre parecido',
+  plate: 'Vehículo asignado',
+  manual: 'Manual',
+};
+
+export const DRIVER_ALIAS_STATUS_LABELS: Record<DriverAliasStatus, string> = {
+  pending: 'Pendiente',
+  matched: 'Vinculado',
+  ignored: 'Ignorado',
+};
+
+/**
+ * Nombres que el GPS envía cuando no hay conductor identificado
+ * (misma lista que driver_name_key() en driver_matching.sql)
+ */
+const UNKNOWN_DRIVERS = new Set(['', 'DESCONOCIDO', 'SIN CONDUCTOR', 'SIN ASIGNAR', 'NO ASIGNADO', 'N/A', 'NA', 'NINGUNO']);
+
+// ==================== NORMALIZATION ====================
+
+/**
+ * Clave del conductor: nombre en mayúsculas, sin tildes ni espacios repetidos
+ * (null si el GPS no identificó al conductor). driver_name_key() hace lo mismo en SQL.
+ */
+export function driverKey(name: string | null | undefined): string | null {
+  const key = (name || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toUpperCase()
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  return UNKNOWN_DRIVERS.has(key) ? null : key;
+}
+
+/** Palabras del nombre sin puntuación ni números */
+const nameTokens = (name: string): string[] =>
+  (driverKey(name) || '')
+    .replace(/[^A-Z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+/** Palabras ordenadas: "PEREZ GOMEZ, JUAN" y "JUAN PEREZ GOMEZ" dan lo mismo */
+const sortedTokenKey = (name: string): string => nameTokens(name).sort().join(' ');
+
+/** Placa comparable: mayúsculas, sin espacios ni guiones */
+export const plateKey = (plate: string | null | undefined): string =>
+  (plate || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export const registryName = (driver: Pick<RegistryDriver, 'first_name' | 'last_name'>): string =>
+  `${driver.first_name} ${driver.last_name}`.trim();
+
+// ==================== SIMILARITY ====================
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+const ratio = (a: string, b: string): number =>
+  Math.max(a.length, b.length) === 0 ? 1 : 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+
+/**
+ * Similitud entre dos nombres (0 a 1): la mejor entre la distancia de edición
+ * de las palabras ordenadas y la proporción de palabras en común (una palabra
+ * cuenta si se parece en un 80%, para tolerar errores de digitación)
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const tokensA = nameTokens(a);
+  const tokensB = nameTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return 0;
+
+  const editScore = ratio([...tokensA].sort().join(' '), [...tokensB].sort().join(' '));
+
+  const unused = [...tokensB];
+  let shared = 0;
+  tokensA.forEach(token => {
+    const index = unused.findIndex(other => ratio(token, other) >= 0.8);
+    if (index >= 0) {
+      shared++;
+      unused.splice(index, 1);
+    }
+  });
+  const tokenScore = (2 * shared) / (tokensA.length + tokensB.length);
+
+  return Math.round(Math.max(editScore, tokenScore) * 1000) / 1000;
+}
+
+// ==================== MATCHING ====================
+
+/**
+ * Conductor del registro para un nombre del GPS
+ * Sin un resultado seguro devuelve driver_id null y las sugerencias para revisión
+ */
+export function matchDriverName(rawName: string, drivers: RegistryDriver[], plate?: string | null): DriverMatchResult {
+  const { FUZZY_ACCEPT, FUZZY_SUGGEST, FUZZY_MARGIN, MAX_CANDIDATES, MIN_DOCUMENT_DIGITS } = DRIVER_MATCH_CONFIG;
+  const key = driverKey(rawName);
+  const empty: DriverMatchResult = { driver_id: null, method: null, confidence: null, candidates: [] };
+  if (!key) return empty;
+
+  const single = (matches: RegistryDriver[], method: DriverMatchMethod, confidence: number): DriverMatchResult | null => {
+    if (matches.length === 0) return null;
+    const candidates = matches.map(driver => ({ driver_id: driver.id, name: registryName(driver), score: confidence, method }));
+    // Homónimos: vale si solo uno está activo; si no, se decide en la revisión
+    const active = matches.filter(driver => driver.status === 'active');
+    const chosen = matches.length === 1 ? matches[0] : active.length === 1 ? active[0] : null;
+    if (!chosen) return { ...empty, candidates: candidates.slice(0, MAX_CANDIDATES) };
+    return { driver_id: chosen.id, method, confidence, candidates: candidates.slice(0, MAX_CANDIDATES) };
+  };
+
+  // 1. Exacto: nombre completo o número de documento dentro del texto
+  const digits: string[] = key.match(new RegExp(`\\d{${MIN_DOCUMENT_DIGITS},}`, 'g')) || [];
+  const exact = single(
+    drivers.filter(driver =>
+      driverKey(registryName(driver)) === key ||
+      (driver.document_number && digits.includes(driver.document_number.replace(/\D/g, '')))
+    ),
+    'exact',
+    1
+  );
+  if (exact) return exact;
+
+  // 2. Normalizado: mismas palabras en otro orden o con otra puntuación
+  const sorted = sortedTokenKey(rawName);
+  const normalized = single(drivers.filter(driver => sortedTokenKey(registryName(driver)) === sorted), 'normalized', 0.98);
+  if (normalized) return normalized;
+
+  // 3. Parecido
+  const scored = drivers
+    .map(driver => ({ driver, score: nameSimilarity(rawName, registryName(driver)) }))
+    .filter(item => item.score >= FUZZY_SUGGEST)
+    .sort((a, b) => b.score - a.score);
+
+  const candidates: DriverMatchCandidate[] = scored
+    .slice(0, MAX_CANDIDATES)
+    .map(item => ({ driver_id: item.driver.id, name: registryName(item.driver), score: item.score, method: 'fuzzy' as const }));
+
+  const [best, second] = scored;
+  if (best && best.score >= FUZZY_ACCEPT && (!second || best.score - second.score >= FUZZY_MARGIN)) {
+    return { driver_id: best.driver.id, method: 'fuzzy', confidence: best.score, candidates };
+  }
+
+  // Sugerencia por placa: el conductor que tiene asignado el último vehículo del alias
+  const assigned = findAssignedDriver(plate, drivers);
+  if (assigned && !candidates.some(candidate => candidate.driver_id === assigned.id)) {
+    candidates.push({ driver_id: assigned.id, name: registryName(assigned), score: 0, method: 'plate' });
+  }
+
+  return { ...empty, candidates };
+}
+
+/**
+ * Único conductor activo con la placa asignada (misma regla que el respaldo por placa del trigger)
+ */
+export function findAssignedDriver<D extends RegistryDriver>(plate: string | null | undefined, drivers: D[]): D | null {
+  const key = plateKey(plate);
+  if (!key) return null;
+
+  const assigned = drivers.filter(driver => driver.status === 'active' && plateKey(driver.assigned_vehicle) === key);
+  return assigned.length === 1 ? assigned[0] : null;
+}
+
+// ==================== PERSISTENCE ====================
+
+/**
+ * Mapa name_key → driver_id de los alias vinculados
+ */
+export async function loadLinkedAliases(supabase: any): Promise<Map<string, string>> {
+  const aliases = new Map<string, string>();
+
+  // Supabase limita a 1000 filas por consulta: paginar
+  let from = 0;
+  const pageSize = 1000;
+  let hasMore = true;
+
+  while (hasMore) {
+    const { data, error } = await supabase
+      .from('driver_name_aliases')
+      .select('name_key, driver_id')
+      .eq('status', 'matched')
+      .not('driver_id', 'is', null)
+      .order('name_key', { ascending: true })
+      .range(from, from + pageSize - 1);
+
+    if (error) throw error;
+
+    (data || []).forEach((row: Pick<DriverAliasRow, 'name_key' | 'driver_id'>) => aliases.set(row.name_key, row.driver_id!));
+    from += pageSize;
+    hasMore = (data || []).length === pageSize;
+  }
+
+  return aliases;
+}
+
+/**
+ * Busca conductor para los alias pendientes (y los vinculados automáticamente
+ * cuyo conductor se borró) y vuelve a vincular sus registros
+ */
+export async function runDriverMatching(supabase: any): Promise<DriverMatchingResult> {
+  const result: DriverMatchingResult = { checked: 0, matched: 0, pending: 0, relinked: 0 };
+
+  const { data: drivers, error: driversError } = await supabase
+    .from('drivers')
+    .select('id, first_name, last_name, document_number, assigned_vehicle, status');
+
+  if (driversError) throw driversError;
+
+  // Pendientes y vinculados cuyo conductor se borró del registro (driver_id quedó en NULL)
+  const { data: aliases, error: aliasesError } = await supabase
+    .from('driver_name_aliases')
+    .select('*')
+    .or('status.eq.pending,and(status.eq.matched,driver_id.is.null)')
+    .order('last_seen_at', { ascending: false })
+    .limit(DRIVER_MATCH_CONFIG.BATCH_SIZE);
+
+  if (aliasesError) throw aliasesError;
+
+  for (const alias of (aliases || []) as DriverAliasRow[]) {
+    result.checked++;
+    const match = matchDriverName(alias.raw_name, drivers || [], alias.last_plate);
+
+    const { error: updateError } = await supabase
+      .from('driver_name_aliases')
+      .update({
+        driver_id: match.driver_id,
+        status: match.driver_id ? 'matched' : 'pending',
+        method: match.method,
+        confidence: match.confidence,
+        candidates: match.candidates,
+      })
+      .eq('id', alias.id)
+      .eq('status', alias.status); // Un revisor pudo resolverlo mientras tanto
+
+    if (updateError) {
+      console.error('[DriverMatching] Error updating alias:', updateError);
+      continue;
+    }
+
+    if (!match.driver_id) {
+      result.pending++;
+      continue;
+    }
+
+    result.matched++;
+    const { data: relinked, error: relinkError } = await supabase.rpc('relink_driver_alias', { p_name_key: alias.name_key });
+
+    if (relinkError || !relinked?.success) {
+      console.error('[DriverMatching] Error relinking alias records:', relinkError || relinked?.error);
+    } else {
+      result.relinked += relinked.updated || 0;
+    }
+  }
+
+  return result;
+}
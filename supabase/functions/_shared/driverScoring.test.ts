@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import {
+  aggregateDriverScores,
+  computeDriverScore,
+  DriverScoreCounts,
+  periodStartOfDay,
+  scoreDrivers,
+  scorePeriodRange,
+  scorePeriodStart,
+  shiftPeriodStart,
+  DriverScoreInput
+} from './driverScoring';
+
+const counts = (overrides: Partial<DriverScoreCounts> = {}): DriverScoreCounts => ({
+  km: 0,
+  speeding_episodes: 0,
+  harsh_events: 0,
+  panic_events: 0,
+  idle_minutes: 0,
+  missed_inspections: 0,
+  ...overrides
+});
+
+const emptyInput = (overrides: Partial<DriverScoreInput> = {}): DriverScoreInput => ({
+  positions: [],
+  alerts: [],
+  idleRecords: [],
+  inspections: [],
+  ...overrides
+});
+
+describe('computeDriverScore', () => {
+  it('sin km ni eventos el puntaje es 100', () => {
+    expect(computeDriverScore(counts()).score).toBe(100);
+  });
+
+  it('con 0 km normaliza sobre MIN_KM (50 km) en vez de dividir por cero', () => {
+    const result = computeDriverScore(counts({ speeding_episodes: 1 }));
+    expect(result.penalties.speeding).toBe(6);
+    expect(result.score).toBe(94);
+  });
+
+  it('descuenta por cada 100 km y no baja de 0', () => {
+    expect(computeDriverScore(counts({ km: 200, harsh_events: 5, idle_minutes: 40 })).penalties).toEqual({
+      speeding: 0,
+      harsh: 5,
+      panic: 0,
+      idle: 1,
+      inspections: 0
+    });
+    expect(computeDriverScore(counts({ km: 10, panic_events: 20 })).score).toBe(0);
+  });
+});
+
+describe('scoreDrivers', () => {
+  it('suma los km de cada tramo al conductor del punto de llegada', () => {
+    const [row] = scoreDrivers(emptyInput({
+      positions: [
+        { plate: 'TTK123', driver: 'Juan Pérez', contract: 'Contrato Andes', latitude: 4.7, longitude: -74.07, odometer: 1000, recorded_at: '2026-10-19T13:00:00Z' },
+        { plate: 'TTK123', driver: 'JUAN  PEREZ', contract: 'Contrato Andes', latitude: 4.8, longitude: -74.07, odometer: 1060, recorded_at: '2026-10-19T14:00:00Z' }
+      ],
+      alerts: [{ plate: 'TTK123', driver: 'juan perez', type: 'Exceso de Velocidad' }]
+    }), 'daily', '2026-10-19');
+
+    expect(row).toMatchObject({ driver_key: 'JUAN PEREZ', km: 60, speeding_episodes: 1, plates: ['TTK123'], contract: 'Contrato Andes' });
+    expect(row.score).toBe(95);
+  });
+
+  it('un conductor sin km solo con alertas queda con 0 km', () => {
+    const [row] = scoreDrivers(emptyInput({
+      alerts: [{ plate: 'WPQ771', driver: 'Ana Gómez', type: 'Botón de Pánico' }]
+    }), 'daily', '2026-10-19');
+
+    expect(row).toMatchObject({ km: 0, panic_events: 1, score: 84 });
+  });
+
+  it('descarta los saltos del GPS y los conductores no identificados', () => {
+    const rows = scoreDrivers(emptyInput({
+      positions: [
+        { plate: 'TTK123', driver: 'Juan Pérez', latitude: 4.7, longitude: -74.07, odometer: 1000, recorded_at: '2026-10-19T13:00:00Z' },
+        { plate: 'TTK123', driver: 'Juan Pérez', latitude: 4.7, longitude: -74.07, odometer: 1500, recorded_at: '2026-10-19T13:30:00Z' }
+      ],
+      alerts: [{ plate: 'TTK123', driver: 'SIN CONDUCTOR', type: 'Exceso de Velocidad' }]
+    }), 'daily', '2026-10-19');
+
+    expect(rows).toHaveLength(1);
+    expect(rows[0].km).toBe(0);
+  });
+});
+
+describe('períodos que cruzan un mes', () => {
+  it('la semana del jueves 1 de octubre empieza el lunes 28 de septiembre', () => {
+    expect(periodStartOfDay('weekly', '2026-10-01')).toBe('2026-09-28');
+    expect(scorePeriodRange('weekly', '2026-09-28')).toEqual({
+      start: new Date('2026-09-28T05:00:00Z'),
+      end: new Date('2026-10-05T05:00:00Z')
+    });
+  });
+
+  it('usa la fecha de Colombia: las 22:00 del 31 de octubre siguen en octubre', () => {
+    expect(scorePeriodStart('monthly', new Date('2026-11-01T03:00:00Z'))).toBe('2026-10-01');
+    expect(scorePeriodStart('monthly', new Date('2026-11-01T05:00:00Z'))).toBe('2026-11-01');
+  });
+
+  it('desplaza meses y semanas a través del cambio de año', () => {
+    expect(shiftPeriodStart('monthly', '2026-01-01', -1)).toBe('2025-12-01');
+    expect(shiftPeriodStart('weekly', '2025-12-29', 1)).toBe('2026-01-05');
+  });
+
+  it('el puntaje semanal se recalcula con la suma de los días de ambos meses', () => {
+    const daily = [
+      ...scoreDrivers(emptyInput({
+        positions: [
+          { plate: 'TTK123', driver: 'Juan Pérez', contract: 'Contrato Andes', latitude: 4.7, longitude: -74.07, odometer: 1000, recorded_at: '2026-09-30T13:00:00Z' },
+          { plate: 'TTK123', driver: 'Juan Pérez', contract: 'Contrato Andes', latitude: 4.7, longitude: -74.07, odometer: 1100, recorded_at: '2026-09-30T15:00:00Z' }
+        ],
+        alerts: [{ plate: 'TTK123', driver: 'Juan Pérez', contract: 'Contrato Andes', type: 'Exceso de Velocidad' }]
+      }), 'daily', '2026-09-30'),
+      ...scoreDrivers(emptyInput({
+        alerts: [{ plate: 'WPQ771', driver: 'Juan Pérez', contract: 'Contrato Campo', type: 'Botón de Pánico' }]
+      }), 'daily', '2026-10-01')
+    ];
+
+    expect(daily.map(row => row.score)).toEqual([97, 84]);
+
+    const [weekly] = aggregateDriverScores(daily, 'weekly', '2026-09-28');
+    expect(weekly).toMatchObject({
+      period: 'weekly',
+      period_start: '2026-09-28',
+      km: 100,
+      speeding_episodes: 1,
+      panic_events: 1,
+      plates: ['TTK123', 'WPQ771'],
+      score: 89
+    });
+  });
+});
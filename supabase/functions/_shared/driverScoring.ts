@@ -0,0 +1,592 @@
+/**
+ * Puntaje de conducción por conductor (driver_scores.sql)
+ *
+ * Cada conductor parte de 100 puntos por período y pierde puntos por los
+ * eventos del período, normalizados por cada 100 km recorridos:
+ * - Episodios de exceso de velocidad (saved_alerts, un episodio = una fila)
+ * - Frenadas y aceleraciones bruscas
+ * - Botón de pánico
+ * - Minutos de ralentí (idle_time_records)
+ * - Inspecciones preoperacionales no realizadas o fuera de tiempo
+ *
+ * Los km salen del recorrido guardado en vehicle_positions (odómetro cuando es
+ * coherente, distancia GPS si no). Con pocos km se normaliza con MIN_KM para que
+ * un solo evento en un trayecto corto no hunda el puntaje.
+ *
+ * La Edge Function driver-scoring recalcula cada hora los puntajes diarios de
+ * hoy y ayer desde los datos crudos, y con ellos los semanales y mensuales
+ * (sumando conteos y km, no promediando puntajes). Los registros vinculados al
+ * registro de conductores (driver_id o alias de driverMatching.ts) se agrupan
+ * por conductor; los demás por el nombre que reporta el GPS, normalizado con driverKey().
+ *
+ * Compartido por la Edge Function (cálculo) y el frontend (tipos, etiquetas y
+ * resumen de la flota).
+ */
+
+import { driverKey, loadLinkedAliases, registryName } from './driverMatching.ts';
+import { haversineDistance, isValidCoordinate } from './geo.ts';
+
+export { driverKey } from './driverMatching.ts';
+
+// ==================== TYPES ====================
+
+export type DriverScorePeriod = 'daily' | 'weekly' | 'monthly';
+
+export type DriverScoreFactor = 'speeding' | 'harsh' | 'panic' | 'idle' | 'inspections';
+
+export type DriverScorePenalties = Record<DriverScoreFactor, number>;
+
+export interface DriverScoreCounts {
+  km: number;
+  speeding_episodes: number;
+  harsh_events: number;
+  panic_events: number;
+  idle_minutes: number;
+  missed_inspections: number;
+}
+
+/** Fila de driver_scores */
+export interface DriverScoreRow extends DriverScoreCounts {
+  id?: string;
+  driver_key: string; // id del conductor si está vinculado; si no, nombre normalizado
+  driver_id: string | null;
+  driver_name: string;
+  contract: string | null;
+  plates: string[];
+  period: DriverScorePeriod;
+  period_start: string; // 'AAAA-MM-DD', hora de Colombia
+  score: number;
+  penalties: DriverScorePenalties;
+  computed_at?: string;
+}
+
+export interface ScorePosition {
+  plate: string;
+  driver?: string | null;
+  contract?: string | null;
+  latitude: number;
+  longitude: number;
+  odometer?: number | null;
+  recorded_at: string;
+}
+
+export interface ScoreAlert {
+  plate: string;
+  driver?: string | null;
+  driver_id?: string | null;
+  contract?: string | null;
+  type: string;
+}
+
+export interface ScoreIdleRecord {
+  plate: string;
+  driver?: string | null;
+  driver_id?: string | null;
+  contract?: string | null;
+  duration_minutes: number;
+}
+
+export interface ScoreInspection {
+  plate: string;
+  driver?: string | null;
+  driver_id?: string | null;
+  contract?: string | null;
+  status: string;
+}
+
+export interface DriverScoreInput {
+  positions: ScorePosition[];
+  alerts: ScoreAlert[];
+  idleRecords: ScoreIdleRecord[];
+  inspections: ScoreInspection[];
+  /** name_key → driver_id de los alias vinculados */
+  aliases?: Map<string, string>;
+  /** driver_id → nombre en el registro de conductores */
+  registry?: Map<string, string>;
+}
+
+export interface DriverScoringResult {
+  days: string[];
+  daily: number;
+  weekly: number;
+  monthly: number;
+}
+
+// ==================== CONFIGURATION ====================
+
+export const DRIVER_SCORE_CONFIG = {
+  /** Puntos que descuenta cada evento por cada 100 km (ralentí: por minuto) */
+  WEIGHTS: {
+    speeding: 3,
+    harsh: 2,
+    panic: 8,
+    idle: 0.05,
+    inspections: 4,
+  } as DriverScorePenalties,
+  /** Distancia mínima con la que se normaliza */
+  MIN_KM: 50,
+  /** Distancia mínima del período para entrar al ranking */
+  MIN_RANKING_KM: { daily: 20, weekly: 100, monthly: 300 } as Record<DriverScorePeriod, number>,
+  /** Velocidad máxima creíble entre dos puntos: más rápido es un salto del GPS */
+  MAX_SEGMENT_SPEED_KMH: 200,
+  /** Días que recalcula cada ejecución (hoy y ayer: llegan datos tarde) */
+  RECOMPUTE_DAYS: 2,
+  /** Máximo de días que se pueden recalcular a pedido */
+  MAX_BACKFILL_DAYS: 62,
+  /** Colombia no tiene horario de verano: el desfase es fijo */
+  UTC_OFFSET_HOURS: -5,
+};
+
+/** Tipos de alerta que cuentan para el puntaje (ver DEFAULT_ALERT_RULES) */
+export const SCORED_ALERT_TYPES: Record<string, DriverScoreFactor> = {
+  'Exceso de Velocidad': 'speeding',
+  'Frenada Brusca': 'harsh',
+  'Aceleración Brusca': 'harsh',
+  'Botón de Pánico': 'panic',
+};
+
+/** Peso de cada estado de inspección (OK no descuenta) */
+export const INSPECTION_MISS_WEIGHTS: Record<string, number> = {
+  'Sin inspección': 1,
+  'Fuera de tiempo': 0.5,
+};
+
+export const DRIVER_SCORE_PERIOD_LABELS: Record<DriverScorePeriod, string> = {
+  daily: 'Diario',
+  weekly: 'Semanal',
+  monthly: 'Mensual',
+};
+
+export const DRIVER_SCORE_FACTOR_LABELS: Record<DriverScoreFactor, string> = {
+  speeding: 'Excesos de velocidad',
+  harsh: 'Frenadas/aceleraciones bruscas',
+  panic: 'Botón de pánico',
+  idle: 'Ralentí',
+  inspections: 'Inspecciones no realizadas',
+};
+
+// ==================== HELPERS ====================
+
+const round = (value: number, decimals = 2): number => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+const emptyCounts = (): DriverScoreCounts => ({
+  km: 0,
+  speeding_episodes: 0,
+  harsh_events: 0,
+  panic_events: 0,
+  idle_minutes: 0,
+  missed_inspections: 0,
+});
+
+/**
+ * Descuento por factor y puntaje (0 a 100) de los conteos de un período
+ */
+export function computeDriverScore(counts: DriverScoreCounts): { score: number; penalties: DriverScorePenalties } {
+  const { WEIGHTS, MIN_KM } = DRIVER_SCORE_CONFIG;
+  const per100Km = 100 / Math.max(counts.km, MIN_KM);
+
+  const penalties: DriverScorePenalties = {
+    speeding: round(counts.speeding_episodes * WEIGHTS.speeding * per100Km, 1),
+    harsh: round(counts.harsh_events * WEIGHTS.harsh * per100Km, 1),
+    panic: round(counts.panic_events * WEIGHTS.panic * per100Km, 1),
+    idle: round(counts.idle_minutes * WEIGHTS.idle * per100Km, 1),
+    inspections: round(counts.missed_inspections * WEIGHTS.inspections * per100Km, 1),
+  };
+
+  const total = Object.values(penalties).reduce((sum, value) => sum + value, 0);
+  return { score: Math.max(0, Math.round(100 - total)), penalties };
+}
+
+/** ¿Recorrió suficientes km en el período para entrar al ranking? */
+export const isRankable = (row: Pick<DriverScoreRow, 'km' | 'period'>): boolean =>
+  row.km >= DRIVER_SCORE_CONFIG.MIN_RANKING_KM[row.period];
+
+/**
+ * Puntaje de la flota: promedio ponderado por km de los conductores del período
+ */
+export function summarizeDriverScores(rows: DriverScoreRow[]): { score: number | null; drivers: number; km: number } {
+  const km = rows.reduce((sum, row) => sum + row.km, 0);
+  if (rows.length === 0) return { score: null, drivers: 0, km: 0 };
+
+  const score = km > 0
+    ? rows.reduce((sum, row) => sum + row.score * row.km, 0) / km
+    : rows.reduce((sum, row) => sum + row.score, 0) / rows.length;
+
+  return { score: Math.round(score), drivers: rows.length, km: round(km, 1) };
+}
+
+// ==================== PERIODS ====================
+
+const OFFSET_MS = DRIVER_SCORE_CONFIG.UTC_OFFSET_HOURS * 60 * 60 * 1000;
+
+/** 'AAAA-MM-DD' de una fecha UTC cuyos campos son la fecha de Colombia */
+const dateKey = (date: Date): string => date.toISOString().slice(0, 10);
+
+const parseDateKey = (key: string): Date => new Date(`${key}T00:00:00Z`);
+
+/**
+ * Primer día del período que contiene la fecha (semana de lunes a domingo),
+ * en hora de Colombia
+ */
+export function scorePeriodStart(period: DriverScorePeriod, date: Date = new Date()): string {
+  return periodStartOfDay(period, dateKey(new Date(date.getTime() + OFFSET_MS)));
+}
+
+/**
+ * Primer día del período que contiene el día 'AAAA-MM-DD'
+ */
+export function periodStartOfDay(period: DriverScorePeriod, day: string): string {
+  const date = parseDateKey(day);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const dayOfMonth = date.getUTCDate();
+
+  if (period === 'weekly') return dateKey(new Date(Date.UTC(year, month, dayOfMonth - ((date.getUTCDay() + 6) % 7))));
+  if (period === 'monthly') return dateKey(new Date(Date.UTC(year, month, 1)));
+  return day;
+}
+
+/**
+ * Inicio del período desplazado offset períodos (negativo = hacia atrás)
+ */
+export function shiftPeriodStart(period: DriverScorePeriod, periodStart: string, offset: number): string {
+  const date = parseDateKey(periodStart);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const day = date.getUTCDate();
+
+  if (period === 'weekly') return dateKey(new Date(Date.UTC(year, month, day + offset * 7)));
+  if (period === 'monthly') return dateKey(new Date(Date.UTC(year, month + offset, 1)));
+  return dateKey(new Date(Date.UTC(year, month, day + offset)));
+}
+
+/**
+ * Instantes de inicio y fin (exclusivo) del período
+ */
+export function scorePeriodRange(period: DriverScorePeriod, periodStart: string): { start: Date; end: Date } {
+  const toInstant = (key: string) => new Date(parseDateKey(key).getTime() - OFFSET_MS);
+  return {
+    start: toInstant(periodStart),
+    end: toInstant(shiftPeriodStart(period, periodStart, 1)),
+  };
+}
+
+/**
+ * Etiqueta corta del período: "19 oct", "Sem. 13 oct", "oct 2026"
+ */
+export function formatScorePeriod(period: DriverScorePeriod, periodStart: string): string {
+  const date = parseDateKey(periodStart);
+  const dayMonth = date.toLocaleDateString('es-CO', { timeZone: 'UTC', day: 'numeric', month: 'short' });
+
+  if (period === 'monthly') return date.toLocaleDateString('es-CO', { timeZone: 'UTC', month: 'short', year: 'numeric' });
+  if (period === 'weekly') return `Sem. ${dayMonth}`;
+  return dayMonth;
+}
+
+// ==================== SCORING ====================
+
+interface DriverAccumulator {
+  driverId: string | null;
+  name: string;
+  plates: Set<string>;
+  contracts: Map<string, number>;
+  counts: DriverScoreCounts;
+}
+
+function getAccumulator(
+  drivers: Map<string, DriverAccumulator>,
+  input: DriverScoreInput,
+  name: string | null | undefined,
+  driverId?: string | null
+): DriverAccumulator | null {
+  const nameKey = driverKey(name);
+  const linkedId = driverId || (nameKey ? input.aliases?.get(nameKey) : undefined) || null;
+  const key = linkedId || nameKey;
+  if (!key) return null;
+
+  if (!drivers.has(key)) {
+    drivers.set(key, {
+      driverId: linkedId,
+      name: (linkedId && input.registry?.get(linkedId)) || (name || '').trim(),
+      plates: new Set(),
+      contracts: new Map(),
+      counts: emptyCounts()
+    });
+  }
+  return drivers.get(key)!;
+}
+
+function track(accumulator: DriverAccumulator, plate: string, contract: string | null | undefined): void {
+  if (plate) accumulator.plates.add(plate);
+  if (contract) accumulator.contracts.set(contract, (accumulator.contracts.get(contract) || 0) + 1);
+}
+
+/**
+ * Km de un tramo entre dos puntos de la misma placa (0 si el tramo no es creíble)
+ */
+function segmentKm(previous: ScorePosition, current: ScorePosition): number {
+  const hours = (new Date(current.recorded_at).getTime() - new Date(previous.recorded_at).getTime()) / (1000 * 60 * 60);
+  if (hours <= 0) return 0;
+
+  const maxKm = hours * DRIVER_SCORE_CONFIG.MAX_SEGMENT_SPEED_KMH;
+  const previousOdometer = Number(previous.odometer) || 0;
+  const currentOdometer = Number(current.odometer) || 0;
+
+  // El odómetro mide la ruta real; la distancia GPS es en línea recta
+  if (previousOdometer > 0 && currentOdometer > 0) {
+    const delta = currentOdometer - previousOdometer;
+    if (delta >= 0 && delta <= maxKm) return delta;
+  }
+
+  if (!isValidCoordinate(previous.latitude, previous.longitude) || !isValidCoordinate(current.latitude, current.longitude)) return 0;
+
+  const km = haversineDistance(previous.latitude, previous.longitude, current.latitude, current.longitude) / 1000;
+  return km <= maxKm ? km : 0;
+}
+
+/**
+ * Puntajes del período a partir de los datos crudos
+ * positions debe venir ordenado por placa y hora
+ */
+export function scoreDrivers(input: DriverScoreInput, period: DriverScorePeriod, periodStart: string): DriverScoreRow[] {
+  const drivers = new Map<string, DriverAccumulator>();
+
+  // Km: cada tramo se asigna al conductor del punto de llegada
+  for (let i = 1; i < input.positions.length; i++) {
+    const previous = input.positions[i - 1];
+    const current = input.positions[i];
+    if (previous.plate !== current.plate) continue;
+
+    const accumulator = getAccumulator(drivers, input, current.driver || previous.driver);
+    if (!accumulator) continue;
+
+    accumulator.counts.km += segmentKm(previous, current);
+    track(accumulator, current.plate, current.contract);
+  }
+
+  input.alerts.forEach(alert => {
+    const factor = SCORED_ALERT_TYPES[alert.type];
+    const accumulator = factor ? getAccumulator(drivers, input, alert.driver, alert.driver_id) : null;
+    if (!accumulator) return;
+
+    if (factor === 'speeding') accumulator.counts.speeding_episodes++;
+    if (factor === 'harsh') accumulator.counts.harsh_events++;
+    if (factor === 'panic') accumulator.counts.panic_events++;
+    track(accumulator, alert.plate, alert.contract);
+  });
+
+  input.idleRecords.forEach(record => {
+    const accumulator = getAccumulator(drivers, input, record.driver, record.driver_id);
+    if (!accumulator) return;
+
+    accumulator.counts.idle_minutes += Number(record.duration_minutes) || 0;
+    track(accumulator, record.plate, record.contract);
+  });
+
+  input.inspections.forEach(inspection => {
+    const accumulator = getAccumulator(drivers, input, inspection.driver, inspection.driver_id);
+    if (!accumulator) return;
+
+    accumulator.counts.missed_inspections += INSPECTION_MISS_WEIGHTS[inspection.status] || 0;
+    track(accumulator, inspection.plate, inspection.contract);
+  });
+
+  return Array.from(drivers.entries()).map(([key, accumulator]) => buildScoreRow(key, accumulator, period, periodStart));
+}
+
+/**
+ * Puntajes semanales o mensuales sumando los puntajes diarios del período
+ */
+export function aggregateDriverScores(dailyRows: DriverScoreRow[], period: DriverScorePeriod, periodStart: string): DriverScoreRow[] {
+  const drivers = new Map<string, DriverAccumulator>();
+
+  dailyRows.forEach(row => {
+    if (!drivers.has(row.driver_key)) {
+      drivers.set(row.driver_key, {
+        driverId: row.driver_id ?? null,
+        name: row.driver_name,
+        plates: new Set(),
+        contracts: new Map(),
+        counts: emptyCounts()
+      });
+    }
+    const accumulator = drivers.get(row.driver_key)!;
+
+    (Object.keys(accumulator.counts) as (keyof DriverScoreCounts)[]).forEach(field => {
+      accumulator.counts[field] += Number(row[field]) || 0;
+    });
+    (row.plates || []).forEach(plate => accumulator.plates.add(plate));
+    if (row.contract) accumulator.contracts.set(row.contract, (accumulator.contracts.get(row.contract) || 0) + 1);
+  });
+
+  return Array.from(drivers.entries()).map(([key, accumulator]) => buildScoreRow(key, accumulator, period, periodStart));
+}
+
+function buildScoreRow(key: string, accumulator: DriverAccumulator, period: DriverScorePeriod, periodStart: string): DriverScoreRow {
+  const counts: DriverScoreCounts = {
+    ...accumulator.counts,
+    km: round(accumulator.counts.km, 1),
+    idle_minutes: round(accumulator.counts.idle_minutes, 1),
+  };
+
+  // Contrato donde más actividad tuvo el conductor en el período
+  const contract = Array.from(accumulator.contracts.entries()).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+
+  return {
+    driver_key: key,
+    driver_id: accumulator.driverId,
+    driver_name: accumulator.name,
+    contract,
+    plates: Array.from(accumulator.plates).sort(),
+    period,
+    period_start: periodStart,
+    ...counts,
+    ...computeDriverScore(counts),
+  };
+}
+
+// ==================== PERSISTENCE ====================
+
+/**
+ * Todas las filas de una consulta (Supabase limita a 1000 filas por consulta: paginar)
+ */
+async function loadAllRows<T>(buildQuery: () => any): Promise<T[]> {
+  const rows: T[] = [];
+  let from = 0;
+  const pageSize = 1000;
+  let hasMore = true;
+
+  while (hasMore) {
+    const { data, error } = await buildQuery().range(from, from + pageSize - 1);
+    if (error) throw error;
+
+    rows.push(...(data || []));
+    from += pageSize;
+    hasMore = (data || []).length === pageSize;
+  }
+
+  return rows;
+}
+
+/**
+ * Datos crudos de un día (con la service role: todos los contratos)
+ */
+async function loadDayInput(
+  supabase: any,
+  day: string,
+  links: Pick<DriverScoreInput, 'aliases' | 'registry'>
+): Promise<DriverScoreInput> {
+  const { start, end } = scorePeriodRange('daily', day);
+
+  const [positions, alerts, idleRecords, inspections] = await Promise.all([
+    loadAllRows<ScorePosition>(() => supabase
+      .from('vehicle_positions')
+      .select('plate, driver, contract, latitude, longitude, odometer, recorded_at')
+      .gte('recorded_at', start.toISOString())
+      .lt('recorded_at', end.toISOString())
+      .order('plate', { ascending: true })
+      .order('recorded_at', { ascending: true })),
+    loadAllRows<ScoreAlert>(() => supabase
+      .from('saved_alerts')
+      .select('plate, driver, driver_id, contract, type')
+      .in('type', Object.keys(SCORED_ALERT_TYPES))
+      .gte('timestamp', start.toISOString())
+      .lt('timestamp', end.toISOString())
+      .order('id', { ascending: true })),
+    loadAllRows<ScoreIdleRecord>(() => supabase
+      .from('idle_time_records')
+      .select('plate, driver, driver_id, contract, duration_minutes')
+      .gte('start_datetime', start.toISOString())
+      .lt('start_datetime', end.toISOString())
+      .order('plate', { ascending: true })
+      .order('start_datetime', { ascending: true })),
+    loadAllRows<ScoreInspection>(() => supabase
+      .from('preoperational_inspections')
+      .select('plate, driver, driver_id, contract, status')
+      .eq('inspection_date', day)
+      .order('plate', { ascending: true })),
+  ]);
+
+  return { positions, alerts, idleRecords, inspections, ...links };
+}
+
+/**
+ * Reemplaza los puntajes de un período: los conductores que ya no aparecen se borran
+ */
+async function saveScores(supabase: any, period: DriverScorePeriod, periodStart: string, rows: DriverScoreRow[]): Promise<void> {
+  const computedAt = new Date().toISOString();
+
+  if (rows.length > 0) {
+    const { error } = await supabase
+      .from('driver_scores')
+      .upsert(rows.map(row => ({ ...row, computed_at: computedAt })), { onConflict: 'driver_key,period,period_start' });
+
+    if (error) throw error;
+  }
+
+  const { error: deleteError } = await supabase
+    .from('driver_scores')
+    .delete()
+    .eq('period', period)
+    .eq('period_start', periodStart)
+    .lt('computed_at', computedAt);
+
+  if (deleteError) throw deleteError;
+}
+
+/**
+ * Recalcula los puntajes diarios de los últimos días y los semanales y
+ * mensuales que los contienen
+ */
+export async function runDriverScoring(
+  supabase: any,
+  now: Date = new Date(),
+  days: number = DRIVER_SCORE_CONFIG.RECOMPUTE_DAYS
+): Promise<DriverScoringResult> {
+  const dayCount = Math.min(Math.max(Math.floor(days) || 1, 1), DRIVER_SCORE_CONFIG.MAX_BACKFILL_DAYS);
+  const today = scorePeriodStart('daily', now);
+  const dayKeys = Array.from({ length: dayCount }, (_, i) => shiftPeriodStart('daily', today, -i)).reverse();
+  const result: DriverScoringResult = { days: dayKeys, daily: 0, weekly: 0, monthly: 0 };
+
+  // Vinculación con el registro de conductores (ver driverMatching.ts)
+  const { data: registryDrivers, error: registryError } = await supabase
+    .from('drivers')
+    .select('id, first_name, last_name');
+
+  if (registryError) throw registryError;
+
+  const links = {
+    aliases: await loadLinkedAliases(supabase),
+    registry: new Map<string, string>((registryDrivers || []).map((driver: any) => [driver.id, registryName(driver)])),
+  };
+
+  for (const day of dayKeys) {
+    const rows = scoreDrivers(await loadDayInput(supabase, day, links), 'daily', day);
+    await saveScores(supabase, 'daily', day, rows);
+    result.daily += rows.length;
+  }
+
+  for (const period of ['weekly', 'monthly'] as const) {
+    const periodStarts = Array.from(new Set(dayKeys.map(day => periodStartOfDay(period, day))));
+
+    for (const periodStart of periodStarts) {
+      const dailyRows = await loadAllRows<DriverScoreRow>(() => supabase
+        .from('driver_scores')
+        .select('*')
+        .eq('period', 'daily')
+        .gte('period_start', periodStart)
+        .lt('period_start', shiftPeriodStart(period, periodStart, 1))
+        .order('period_start', { ascending: true })
+        .order('driver_key', { ascending: true }));
+
+      const rows = aggregateDriverScores(dailyRows, period, periodStart);
+      await saveScores(supabase, period, periodStart, rows);
+      result[period] += rows.length;
+    }
+  }
+
+  return result;
+}
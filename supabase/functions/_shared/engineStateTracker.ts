@@ -0,0 +1,270 @@
+/**
+ * Seguimiento de ignición y ralentí
+ *
+ * El estado de cada vehículo (ignición, ralentí en curso) vive en
+ * vehicle_engine_states, no en memoria: sobrevive entre ejecuciones del
+ * worker alert-monitor, que es quien lo actualiza cada 5 minutos aunque no
+ * haya nadie con la consola abierta.
+ *
+ * Cada cambio de ignición se escribe en vehicle_ignition_events y cada
+ * periodo de ralentí terminado en idle_time_records una sola vez: solo el
+ * proceso que logra avanzar last_report_at registra los eventos.
+ *
+ * No importa nada fuera de supabase/functions/_shared; recibe el cliente de Supabase como parámetro.
+ */
+
+// ==================== TYPES ====================
+
+/** Campos mínimos del vehículo (compatible con Vehicle del frontend y del worker) */
+export interface EngineStateVehicle {
+  plate: string;
+  speed: number;
+  lastUpdate: string;
+  event?: string;
+  /** Ignición reportada por el equipo (undefined si el proveedor no la entrega) */
+  ignition?: boolean;
+  driver?: string;
+  location?: string;
+  latitude?: number;
+  longitude?: number;
+  contract?: string;
+  source?: string;
+}
+
+/** Fila de vehicle_engine_states */
+export interface VehicleEngineState {
+  plate: string;
+  ignition: boolean;
+  last_report_at: string;
+  idle_since?: string | null;
+  idle_location?: string | null;
+  idle_latitude?: number | null;
+  idle_longitude?: number | null;
+  driver?: string | null;
+  contract?: string | null;
+  source?: string | null;
+  updated_at?: string;
+}
+
+export interface EngineTrackingResult {
+  ignitionEvents: number;
+  idleRecords: number;
+}
+
+// ==================== CONFIGURATION ====================
+
+export const ENGINE_TRACKING_CONFIG = {
+  /** Sin dato de ignición, un vehículo detenido que reportó hace menos de N minutos se considera encendido */
+  RECENT_REPORT_MINUTES: 5,
+  /**
+   * Duración mínima para guardar un periodo de ralentí en idle_time_records.
+   * La alerta de ralentí excesivo usa el umbral de cada vehículo (idleTimeMinutes
+   * de alert_rules, regla IDLE_ENGINE de alertRules.ts)
+   */
+  MIN_IDLE_MINUTES: 1,
+};
+
+// ==================== IGNITION ====================
+
+/**
+ * Determina si la ignición está encendida
+ * Usa la ignición del equipo si existe; si no, velocidad, texto del evento y antigüedad del reporte
+ */
+export function isIgnitionOn(vehicle: EngineStateVehicle, now: Date = new Date()): boolean {
+  if (vehicle.ignition !== undefined) return vehicle.ignition;
+
+  // Si el vehículo se está moviendo, está encendido
+  if (vehicle.speed > 0) return true;
+
+  const eventUpper = (vehicle.event || '').toUpperCase();
+  if (eventUpper.includes('IGNICION ON') || eventUpper.includes('IGNITION ON') || eventUpper.includes('MOTOR ENCENDIDO')) {
+    return true;
+  }
+
+  // Detenido pero con reporte reciente: probablemente encendido
+  const reportTime = new Date(vehicle.lastUpdate).getTime();
+  if (!isNaN(reportTime)) {
+    const minutesSinceReport = (now.getTime() - reportTime) / (1000 * 60);
+    if (minutesSinceReport < ENGINE_TRACKING_CONFIG.RECENT_REPORT_MINUTES) return true;
+  }
+
+  return false;
+}
+
+// ==================== STATE TRACKING ====================
+
+const toReportTime = (lastUpdate: string, fallback: Date): string => {
+  const date = new Date(lastUpdate);
+  return isNaN(date.getTime()) ? fallback.toISOString() : date.toISOString();
+};
+
+async function loadEngineStates(supabase: any): Promise<Map<string, VehicleEngineState>> {
+  const states = new Map<string, VehicleEngineState>();
+
+  // Supabase limita a 1000 filas por consulta: paginar
+  let from = 0;
+  const pageSize = 1000;
+  let hasMore = true;
+
+  while (hasMore) {
+    const { data, error } = await supabase
+      .from('vehicle_engine_states')
+      .select('*')
+      .range(from, from + pageSize - 1);
+
+    if (error) throw error;
+
+    (data || []).forEach((row: VehicleEngineState) => states.set(row.plate, row));
+
+    from += pageSize;
+    hasMore = (data || []).length === pageSize;
+  }
+
+  return states;
+}
+
+/**
+ * Vehículos actualmente en ralentí (idle_since no nulo)
+ */
+export async function loadIdleEngineStates(supabase: any): Promise<VehicleEngineState[]> {
+  const { data, error } = await supabase
+    .from('vehicle_engine_states')
+    .select('*')
+    .not('idle_since', 'is', null)
+    .order('idle_since', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Procesa una lectura de la flota: cambios de ignición y periodos de ralentí
+ *
+ * - La primera vez que se ve un vehículo solo se guarda su estado (sin eventos)
+ * - Una lectura ya procesada (mismo reporte del equipo) se ignora
+ * - Devuelve cuántos eventos registró ESTE proceso
+ */
+export async function trackFleetEngineStates(
+  supabase: any,
+  vehicles: EngineStateVehicle[],
+  now: Date = new Date()
+): Promise<EngineTrackingResult> {
+  const states = await loadEngineStates(supabase);
+  const newStates: VehicleEngineState[] = [];
+  const result: EngineTrackingResult = { ignitionEvents: 0, idleRecords: 0 };
+
+  for (const vehicle of vehicles) {
+    const reportAt = toReportTime(vehicle.lastUpdate, now);
+    const ignition = isIgnitionOn(vehicle, now);
+    const idle = vehicle.speed === 0 && ignition;
+    const previous = states.get(vehicle.plate);
+
+    const idleStart = idle && !previous?.idle_since
+      ? {
+          idle_since: reportAt,
+          idle_location: vehicle.location ?? null,
+          idle_latitude: vehicle.latitude ?? null,
+          idle_longitude: vehicle.longitude ?? null
+        }
+      : null;
+    const context = {
+      driver: vehicle.driver ?? null,
+      contract: vehicle.contract ?? null,
+      source: vehicle.source ?? null
+    };
+
+    if (!previous) {
+      newStates.push({
+        plate: vehicle.plate,
+        ignition,
+        last_report_at: reportAt,
+        ...(idleStart || { idle_since: null }),
+        ...context
+      });
+      continue;
+    }
+
+    if (new Date(reportAt).getTime() <= new Date(previous.last_report_at).getTime()) continue;
+
+    const idleUpdate = idle
+      ? idleStart || {}
+      : { idle_since: null, idle_location: null, idle_latitude: null, idle_longitude: null };
+
+    // Actualización condicional: si dos ejecuciones procesan la misma lectura,
+    // solo quien avanza last_report_at registra los eventos
+    const { data: claimed, error: updateError } = await supabase
+      .from('vehicle_engine_states')
+      .update({ ignition, last_report_at: reportAt, ...idleUpdate, ...context, updated_at: now.toISOString() })
+      .eq('plate', vehicle.plate)
+      .eq('last_report_at', previous.last_report_at)
+      .select('plate');
+
+    if (updateError) {
+      console.error('[EngineState] Error updating vehicle state:', updateError);
+      continue;
+    }
+    if (!claimed || claimed.length === 0) continue;
+
+    // Cambio de ignición
+    if (previous.ignition !== ignition) {
+      const { error: eventError } = await supabase
+        .from('vehicle_ignition_events')
+        .upsert({
+          plate: vehicle.plate,
+          driver: vehicle.driver,
+          event_type: ignition ? 'ignition_on' : 'ignition_off',
+          event_datetime: reportAt,
+          location: vehicle.location,
+          latitude: vehicle.latitude,
+          longitude: vehicle.longitude,
+          source: vehicle.source
+        }, { onConflict: 'plate,event_datetime,event_type', ignoreDuplicates: true });
+
+      if (eventError) {
+        console.error('[EngineState] Error saving ignition event:', eventError);
+      } else {
+        result.ignitionEvents++;
+      }
+    }
+
+    // Fin de ralentí
+    if (previous.idle_since && !idle) {
+      const durationMinutes = (new Date(reportAt).getTime() - new Date(previous.idle_since).getTime()) / (1000 * 60);
+
+      if (durationMinutes >= ENGINE_TRACKING_CONFIG.MIN_IDLE_MINUTES) {
+        const { error: idleError } = await supabase
+          .from('idle_time_records')
+          .upsert({
+            plate: vehicle.plate,
+            driver: previous.driver ?? vehicle.driver,
+            contract: previous.contract ?? vehicle.contract,
+            start_datetime: previous.idle_since,
+            end_datetime: reportAt,
+            duration_minutes: Math.round(durationMinutes * 100) / 100,
+            location: previous.idle_location,
+            latitude: previous.idle_latitude,
+            longitude: previous.idle_longitude,
+            source: previous.source ?? vehicle.source
+          }, { onConflict: 'plate,start_datetime', ignoreDuplicates: true });
+
+        if (idleError) {
+          console.error('[EngineState] Error saving idle time record:', idleError);
+        } else {
+          result.idleRecords++;
+        }
+      }
+    }
+  }
+
+  if (newStates.length > 0) {
+    const { error: insertError } = await supabase
+      .from('vehicle_engine_states')
+      .upsert(newStates, { onConflict: 'plate', ignoreDuplicates: true });
+
+    if (insertError) {
+      console.error('[EngineState] Error saving initial vehicle states:', insertError);
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,106 @@
+/**
+ * Cambios incrementales de la flota (tabla fleet_vehicle_updates)
+ *
+ * Cada ingesta del snapshot (api/_lib/fleetSnapshot.ts) compara la flota nueva
+ * con la anterior y registra una fila por vehículo que cambió o desapareció.
+ * Los navegadores reciben esas filas por Supabase Realtime y las aplican sobre
+ * la flota que ya tienen (services/fleetStreamService.ts), en orden de seq.
+ *
+ * Compartido por /api (diff) y el frontend (aplicar), sin dependencias.
+ */
+
+// ==================== CONFIGURATION ====================
+
+/**
+ * Minutos que se conservan las filas de fleet_vehicle_updates. Una consola que
+ * estuvo desconectada más tiempo ya no puede reanudar y recarga el snapshot.
+ */
+export const FLEET_UPDATE_RETENTION_MINUTES = 60;
+
+// ==================== TYPES ====================
+
+/** Lo mínimo que se necesita de un vehículo para identificarlo */
+export interface FleetVehicleIdentity {
+  id?: string;
+  source: string;
+  plate: string;
+}
+
+/** Fila de fleet_vehicle_updates ya mapeada */
+export interface FleetVehicleUpdate<T extends FleetVehicleIdentity = FleetVehicleIdentity> {
+  /** Secuencia global (BIGSERIAL): orden de aplicación y punto de reanudación */
+  seq: number;
+  key: string;
+  removed: boolean;
+  /** Vehículo completo (null si salió de la flota) */
+  vehicle: T | null;
+}
+
+/** Cambio pendiente de guardar, antes de que la base asigne seq */
+export type FleetVehicleChange<T extends FleetVehicleIdentity = FleetVehicleIdentity> = Omit<FleetVehicleUpdate<T>, 'seq'>;
+
+// ==================== DIFF ====================
+
+/**
+ * Clave estable del vehículo: proveedor + placa.
+ * Es también el id de Vehicle que asignan los normalize de services/telematics,
+ * así que es la misma en todas las consolas, el stream y la cola de alertas.
+ */
+export const fleetVehicleKey = (vehicle: FleetVehicleIdentity): string => `${vehicle.source}:${vehicle.plate}`;
+
+const comparable = (vehicle: FleetVehicleIdentity): string => JSON.stringify(vehicle);
+
+/**
+ * Vehículos que cambiaron, entraron o salieron entre dos lecturas de la flota
+ */
+export function diffFleetVehicles<T extends FleetVehicleIdentity>(previous: T[], next: T[]): FleetVehicleChange<T>[] {
+  const before = new Map(previous.map(vehicle => [fleetVehicleKey(vehicle), comparable(vehicle)]));
+  const changes: FleetVehicleChange<T>[] = [];
+  const seen = new Set<string>();
+
+  next.forEach(vehicle => {
+    const key = fleetVehicleKey(vehicle);
+    if (seen.has(key)) return;
+    seen.add(key);
+
+    if (before.get(key) !== comparable(vehicle)) {
+      changes.push({ key, removed: false, vehicle });
+    }
+  });
+
+  before.forEach((_, key) => {
+    if (!seen.has(key)) {
+      changes.push({ key, removed: true, vehicle: null });
+    }
+  });
+
+  return changes;
+}
+
+// ==================== APLICAR ====================
+
+/**
+ * Aplica los cambios en orden sobre la flota actual.
+ * Retorna la flota nueva y los vehículos que cambiaron (para evaluar alertas solo sobre ellos).
+ */
+export function applyFleetUpdates<T extends FleetVehicleIdentity>(
+  vehicles: T[],
+  updates: FleetVehicleUpdate<T>[]
+): { vehicles: T[]; changed: T[] } {
+  const byKey = new Map(vehicles.map(vehicle => [fleetVehicleKey(vehicle), vehicle]));
+  const changed = new Map<string, T>();
+
+  [...updates]
+    .sort((a, b) => a.seq - b.seq)
+    .forEach(update => {
+      if (update.removed || !update.vehicle) {
+        byKey.delete(update.key);
+        changed.delete(update.key);
+        return;
+      }
+      byKey.set(update.key, update.vehicle);
+      changed.set(update.key, update.vehicle);
+    });
+
+  return { vehicles: [...byKey.values()], changed: [...changed.values()] };
+}
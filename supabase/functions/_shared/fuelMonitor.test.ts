@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { trackFleetFuelStates, describeFuelChange, VehicleFuelState } from './fuelMonitor';
+
+/**
+ * Caídas y recargas de combustible con la última lectura en vehicle_fuel_states:
+ * cada ejecución del worker arranca sin memoria y solo ve lo que quedó en la tabla
+ */
+
+/** vehicle_fuel_states en memoria con las operaciones que usa trackFleetFuelStates */
+const createFuelStatesTable = () => {
+  const rows = new Map<string, VehicleFuelState>();
+
+  const client = {
+    from: () => ({
+      select: () => ({
+        range: async (from: number, to: number) => ({ data: [...rows.values()].slice(from, to + 1), error: null })
+      }),
+      update: (values: VehicleFuelState) => {
+        const filters: Record<string, string> = {};
+        const builder = {
+          eq: (column: string, value: string) => {
+            filters[column] = value;
+            return builder;
+          },
+          select: async () => {
+            const row = rows.get(filters.plate);
+            if (!row || row.last_report_at !== filters.last_report_at) return { data: [], error: null };
+            rows.set(row.plate, { ...row, ...values });
+            return { data: [{ plate: row.plate }], error: null };
+          }
+        };
+        return builder;
+      },
+      upsert: async (values: VehicleFuelState[]) => {
+        values.filter(row => !rows.has(row.plate)).forEach(row => rows.set(row.plate, row));
+        return { error: null };
+      }
+    })
+  };
+
+  return { client, rows };
+};
+
+const reading = (minute: number, overrides: Record<string, any> = {}) => ({
+  plate: 'TTK123',
+  fuelLevel: 80,
+  speed: 0,
+  latitude: 4.711,
+  longitude: -74.0721,
+  lastUpdate: new Date(Date.UTC(2025, 4, 13, 19, minute)).toISOString(),
+  ...overrides
+});
+
+describe('trackFleetFuelStates', () => {
+  it('detecta la caída con el vehículo detenido entre dos ejecuciones', async () => {
+    const table = createFuelStatesTable();
+
+    expect(await trackFleetFuelStates(table.client, [reading(0)])).toEqual([]);
+    expect(table.rows.get('TTK123')?.fuel_level).toBe(80);
+
+    const changes = await trackFleetFuelStates(table.client, [reading(5, { fuelLevel: 62 })]);
+    expect(changes.map(match => match.change.type)).toEqual(['drop']);
+    expect(describeFuelChange(changes[0].change))
+      .toBe('Caída de combustible con el vehículo detenido: 80% → 62% (-18 pts) - Posible extracción');
+    expect(table.rows.get('TTK123')?.fuel_level).toBe(62);
+  });
+
+  it('detecta la recarga', async () => {
+    const table = createFuelStatesTable();
+    await trackFleetFuelStates(table.client, [reading(0, { fuelLevel: 30 })]);
+
+    const changes = await trackFleetFuelStates(table.client, [reading(5, { fuelLevel: 95, speed: 12 })]);
+    expect(changes.map(match => describeFuelChange(match.change))).toEqual(['Recarga de combustible: 30% → 95% (+65 pts)']);
+  });
+
+  it('no alerta el consumo en movimiento pero guarda la lectura', async () => {
+    const table = createFuelStatesTable();
+    await trackFleetFuelStates(table.client, [reading(0)]);
+
+    expect(await trackFleetFuelStates(table.client, [reading(30, { fuelLevel: 65, speed: 70 })])).toEqual([]);
+    expect(table.rows.get('TTK123')?.last_report_at).toBe(reading(30).lastUpdate);
+  });
+
+  it('alerta una sola vez la misma lectura aunque la procesen dos ejecuciones', async () => {
+    const table = createFuelStatesTable();
+    await trackFleetFuelStates(table.client, [reading(0)]);
+
+    const first = await trackFleetFuelStates(table.client, [reading(5, { fuelLevel: 60 })]);
+    const second = await trackFleetFuelStates(table.client, [reading(5, { fuelLevel: 60 })]);
+    expect([first.length, second.length]).toEqual([1, 0]);
+  });
+
+  it('ignora los vehículos sin dato de combustible', async () => {
+    const table = createFuelStatesTable();
+
+    expect(await trackFleetFuelStates(table.client, [reading(0, { fuelLevel: 0 })])).toEqual([]);
+    expect(table.rows.size).toBe(0);
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Monitoreo de combustible
+ *
+ * Caídas bruscas con el vehículo detenido (posible extracción) y recargas. La
+ * última lectura de cada vehículo vive en vehicle_fuel_states, no en memoria:
+ * la actualiza el worker alert-monitor cada 5 minutos aunque no haya nadie con
+ * la consola abierta, y sobrevive entre ejecuciones.
+ *
+ * Cada cambio se alerta una sola vez: solo el proceso que logra avanzar
+ * last_report_at lo devuelve.
+ *
+ * No importa nada fuera de supabase/functions/_shared; recibe el cliente de Supabase como parámetro.
+ */
+
+import { haversineDistance } from './geo.ts';
+
+// ==================== TYPES ====================
+
+export type FuelChangeType = 'drop' | 'refuel';
+
+export interface FuelReading {
+  fuelLevel: number;
+  speed: number;
+  latitude: number;
+  longitude: number;
+  recordedAt: string;
+}
+
+export interface FuelChange {
+  type: FuelChangeType;
+  /** Nivel anterior y actual (%) */
+  from: number;
+  to: number;
+  /** Variación absoluta (puntos porcentuales) */
+  delta: number;
+  previousAt: string;
+  at: string;
+}
+
+/** Campos mínimos del vehículo (compatible con Vehicle del frontend y del worker) */
+export interface FuelMonitorVehicle {
+  plate: string;
+  /** Nivel de combustible (%), 0 = sin dato */
+  fuelLevel: number;
+  speed: number;
+  latitude: number;
+  longitude: number;
+  lastUpdate: string;
+}
+
+/** Fila de vehicle_fuel_states */
+export interface VehicleFuelState {
+  plate: string;
+  fuel_level: number;
+  speed: number;
+  latitude: number;
+  longitude: number;
+  last_report_at: string;
+  updated_at?: string;
+}
+
+export interface FuelChangeMatch<V extends FuelMonitorVehicle> {
+  vehicle: V;
+  change: FuelChange;
+}
+
+// ==================== CONFIGURATION ====================
+
+export const FUEL_MONITOR_CONFIG = {
+  /** Caída mínima (puntos %) con el vehículo detenido para considerarla sospechosa */
+  DROP_PERCENT: 10,
+  /** Aumento mínimo (puntos %) para registrar una recarga */
+  REFUEL_PERCENT: 15,
+  /** Desplazamiento máximo (metros) entre lecturas para considerar que el vehículo no se movió */
+  STOPPED_MAX_DISTANCE_METERS: 100,
+  FUEL_DROP_ALERT_TYPE: 'Caída de Combustible',
+  REFUEL_ALERT_TYPE: 'Recarga de Combustible',
+};
+
+// ==================== DETECTION ====================
+
+/**
+ * Compara dos lecturas consecutivas de combustible
+ * - Caída brusca con el vehículo detenido en el mismo lugar → posible extracción
+ * - Aumento brusco → recarga
+ * El consumo normal en movimiento no genera cambios
+ */
+export function detectFuelChange(previous: FuelReading | undefined, current: FuelReading): FuelChange | null {
+  if (!previous) return null;
+  if (new Date(current.recordedAt).getTime() <= new Date(previous.recordedAt).getTime()) return null;
+
+  const delta = current.fuelLevel - previous.fuelLevel;
+  const change = { from: previous.fuelLevel, to: current.fuelLevel, delta: Math.abs(delta), previousAt: previous.recordedAt, at: current.recordedAt };
+
+  if (delta >= FUEL_MONITOR_CONFIG.REFUEL_PERCENT) {
+    return { type: 'refuel', ...change };
+  }
+
+  if (-delta >= FUEL_MONITOR_CONFIG.DROP_PERCENT) {
+    const stopped = previous.speed === 0 && current.speed === 0 &&
+      haversineDistance(previous.latitude, previous.longitude, current.latitude, current.longitude) <= FUEL_MONITOR_CONFIG.STOPPED_MAX_DISTANCE_METERS;
+    if (stopped) return { type: 'drop', ...change };
+  }
+
+  return null;
+}
+
+/**
+ * Texto de la alerta de una caída o recarga
+ */
+export function describeFuelChange(change: FuelChange): string {
+  return change.type === 'drop'
+    ? `Caída de combustible con el vehículo detenido: ${change.from}% → ${change.to}% (-${change.delta} pts) - Posible extracción`
+    : `Recarga de combustible: ${change.from}% → ${change.to}% (+${change.delta} pts)`;
+}
+
+// ==================== STATE TRACKING ====================
+
+const toReportTime = (lastUpdate: string, fallback: Date): string => {
+  const date = new Date(lastUpdate);
+  return isNaN(date.getTime()) ? fallback.toISOString() : date.toISOString();
+};
+
+const toFuelReading = (state: VehicleFuelState): FuelReading => ({
+  fuelLevel: Number(state.fuel_level),
+  speed: Number(state.speed),
+  latitude: Number(state.latitude),
+  longitude: Number(state.longitude),
+  recordedAt: state.last_report_at
+});
+
+async function loadFuelStates(supabase: any): Promise<Map<string, VehicleFuelState>> {
+  const states = new Map<string, VehicleFuelState>();
+
+  // Supabase limita a 1000 filas por consulta: paginar
+  let from = 0;
+  const pageSize = 1000;
+  let hasMore = true;
+
+  while (hasMore) {
+    const { data, error } = await supabase
+      .from('vehicle_fuel_states')
+      .select('*')
+      .range(from, from + pageSize - 1);
+
+    if (error) throw error;
+
+    (data || []).forEach((row: VehicleFuelState) => states.set(row.plate, row));
+
+    from += pageSize;
+    hasMore = (data || []).length === pageSize;
+  }
+
+  return states;
+}
+
+/**
+ * Procesa una lectura de la flota: compara el combustible de cada vehículo con
+ * su última lectura guardada y devuelve las caídas sospechosas y recargas
+ *
+ * - Solo cuentan los vehículos que reportan combustible (fuelLevel > 0)
+ * - La primera vez que se ve un vehículo solo se guarda su lectura (sin cambios)
+ * - Una lectura ya procesada (mismo reporte del equipo) se ignora
+ * - Devuelve solo los cambios que registró ESTE proceso
+ */
+export async function trackFleetFuelStates<V extends FuelMonitorVehicle>(
+  supabase: any,
+  vehicles: V[],
+  now: Date = new Date()
+): Promise<FuelChangeMatch<V>[]> {
+  const states = await loadFuelStates(supabase);
+  const newStates: VehicleFuelState[] = [];
+  const changes: FuelChangeMatch<V>[] = [];
+
+  for (const vehicle of vehicles) {
+    if (!(vehicle.fuelLevel > 0)) continue;
+
+    const current: VehicleFuelState = {
+      plate: vehicle.plate,
+      fuel_level: vehicle.fuelLevel,
+      speed: vehicle.speed,
+      latitude: vehicle.latitude,
+      longitude: vehicle.longitude,
+      last_report_at: toReportTime(vehicle.lastUpdate, now)
+    };
+    const previous = states.get(vehicle.plate);
+
+    if (!previous) {
+      newStates.push(current);
+      continue;
+    }
+
+    if (new Date(current.last_report_at).getTime() <= new Date(previous.last_report_at).getTime()) continue;
+
+    // Actualización condicional: si dos ejecuciones procesan la misma lectura,
+    // solo quien avanza last_report_at devuelve el cambio
+    const { data: claimed, error: updateError } = await supabase
+      .from('vehicle_fuel_states')
+      .update({ ...current, updated_at: now.toISOString() })
+      .eq('plate', vehicle.plate)
+      .eq('last_report_at', previous.last_report_at)
+      .select('plate');
+
+    if (updateError) {
+      console.error('[FuelMonitor] Error updating fuel state:', updateError);
+      continue;
+    }
+    if (!claimed || claimed.length === 0) continue;
+
+    const change = detectFuelChange(toFuelReading(previous), toFuelReading(current));
+    if (change) changes.push({ vehicle, change });
+  }
+
+  if (newStates.length > 0) {
+    const { error: insertError } = await supabase
+      .from('vehicle_fuel_states')
+      .upsert(newStates, { onConflict: 'plate', ignoreDuplicates: true });
+
+    if (insertError) {
+      console.error('[FuelMonitor] Error saving initial fuel states:', insertError);
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateFleetGeofences, GeofenceDefinition, tracksGeofenceTransitions } from './geofenceEngine';
+
+const geofence = (id: string, overrides: Partial<GeofenceDefinition> = {}): GeofenceDefinition => ({
+  id,
+  name: id,
+  geofence_type: 'circle',
+  geometry: {},
+  center_lat: 4.711,
+  center_lng: -74.0721,
+  radius_meters: 2000,
+  alert_on_entry: true,
+  alert_on_exit: true,
+  alert_severity: 'medium',
+  time_restrictions: null,
+  is_restricted_zone: false,
+  applies_to_all: true,
+  is_active: true,
+  ...overrides
+});
+
+const speedOnly = geofence('zona-velocidad', { speed_limit_kmh: 30, alert_on_entry: false, alert_on_exit: false });
+const speedWithEntry = geofence('zona-velocidad-entrada', { speed_limit_kmh: 30, alert_on_exit: false });
+const plain = geofence('patio');
+
+/** geofences y geofence_vehicle_states en memoria (el vehículo estaba fuera de todas) */
+const createClient = (geofences: GeofenceDefinition[]) => {
+  const events: any[] = [];
+  const states = geofences.map(zone => ({ geofence_id: zone.id, vehicle_plate: 'TTK123', is_inside: false }));
+
+  const client = {
+    from: (table: string) => {
+      if (table === 'geofences') {
+        return { select: () => ({ eq: async () => ({ data: geofences, error: null }) }) };
+      }
+      if (table === 'geofence_events') {
+        return { insert: async (row: any) => { events.push(row); return { error: null }; } };
+      }
+      const update = () => {
+        const builder: any = { eq: () => builder, select: async () => ({ data: [{ vehicle_plate: 'TTK123' }], error: null }) };
+        return builder;
+      };
+      return {
+        select: () => ({ range: async () => ({ data: states, error: null }) }),
+        update,
+        upsert: async () => ({ error: null })
+      };
+    }
+  };
+
+  return { client, events };
+};
+
+const vehicle = {
+  plate: 'TTK123',
+  driver: 'Juan Pérez',
+  latitude: 4.712,
+  longitude: -74.072,
+  speed: 25,
+  location: 'Bogotá',
+  source: 'COLTRACK',
+  lastUpdate: '2026-10-19T15:00:00.000Z'
+};
+
+describe('tracksGeofenceTransitions', () => {
+  it('las zonas de velocidad solo se siguen si piden alertar la entrada o la salida', () => {
+    expect(tracksGeofenceTransitions(plain)).toBe(true);
+    expect(tracksGeofenceTransitions(speedOnly)).toBe(false);
+    expect(tracksGeofenceTransitions(speedWithEntry)).toBe(true);
+    expect(tracksGeofenceTransitions({ ...speedOnly, is_restricted_zone: true })).toBe(true);
+  });
+});
+
+describe('evaluateFleetGeofences', () => {
+  it('no registra entradas a las zonas que solo limitan la velocidad', async () => {
+    const { client, events } = createClient([plain, speedOnly, speedWithEntry]);
+
+    const transitions = await evaluateFleetGeofences(client, [vehicle], new Date('2026-10-19T15:01:00.000Z'));
+
+    expect(transitions.map(transition => [transition.geofence.id, transition.eventType, transition.shouldAlert])).toEqual([
+      ['patio', 'entry', true],
+      ['zona-velocidad-entrada', 'entry', true]
+    ]);
+    expect(events.map(event => event.geofence_id)).toEqual(['patio', 'zona-velocidad-entrada']);
+  });
+});
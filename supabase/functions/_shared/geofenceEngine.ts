@@ -0,0 +1,421 @@
+/**
+ * Motor de evaluación de geocercas
+ *
+ * Compartido por el frontend (ciclo de refresco en App.tsx) y el worker
+ * alert-monitor. Por eso no importa nada fuera de supabase/functions/_shared
+ * y recibe el cliente de Supabase como parámetro.
+ *
+ * El estado dentro/fuera de cada vehículo por geocerca vive en
+ * geofence_vehicle_states: sobrevive a recargas del navegador y a las
+ * ejecuciones del worker, y cada cambio de estado se registra una sola vez
+ * en geofence_events aunque ambos procesos evalúen al mismo tiempo.
+ */
+
+import { haversineDistance, isValidCoordinate } from './geo.ts';
+
+// ==================== TYPES ====================
+
+export type GeofenceType = 'polygon' | 'circle' | 'rectangle';
+export type GeofenceSeverity = 'critical' | 'high' | 'medium' | 'low';
+export type GeofenceEventType = 'entry' | 'exit';
+
+export interface GeofenceTimeRestrictions {
+  days: number[];       // 0 = domingo ... 6 = sábado
+  start_time: string;   // "HH:MM"
+  end_time: string;     // "HH:MM"
+}
+
+export interface GeofenceDefinition {
+  id: string;
+  name: string;
+  geofence_type: GeofenceType;
+  geometry: any;
+  center_lat?: number | null;
+  center_lng?: number | null;
+  radius_meters?: number | null;
+  alert_on_entry: boolean;
+  alert_on_exit: boolean;
+  alert_severity: GeofenceSeverity;
+  time_restrictions?: GeofenceTimeRestrictions | null;
+  is_restricted_zone: boolean;
+  contract?: string | null;
+  applies_to_all: boolean;
+  vehicle_plates?: string[] | null;
+  is_active: boolean;
+  /** Límite de velocidad dentro de la zona (km/h). Si existe, la geocerca es una zona de velocidad */
+  speed_limit_kmh?: number | null;
+  /** Margen sobre el límite antes de alertar (km/h): alerta por encima de límite + tolerancia */
+  speed_tolerance_kmh?: number | null;
+}
+
+/** Límite de velocidad que aplica al vehículo en su posición actual */
+export interface EffectiveSpeedLimit {
+  limit: number;
+  tolerance: number;
+  zoneId?: string;
+  zoneName?: string;
+}
+
+/** Campos mínimos del vehículo que necesita el motor (compatible con Vehicle del frontend y del worker) */
+export interface GeofenceVehicle {
+  plate: string;
+  latitude: number;
+  longitude: number;
+  speed: number;
+  lastUpdate: string;
+  driver?: string;
+  location?: string;
+  source?: string;
+  contract?: string | null;
+}
+
+export interface GeofenceTransition<V extends GeofenceVehicle = GeofenceVehicle> {
+  geofence: GeofenceDefinition;
+  vehicle: V;
+  eventType: GeofenceEventType;
+  eventTime: string;
+  /** false cuando la geocerca no alerta ese tipo de evento o el evento ocurrió fuera del horario */
+  shouldAlert: boolean;
+}
+
+// ==================== CONFIGURATION ====================
+
+/** Zona horaria en la que se interpretan los horarios de las geocercas */
+export const GEOFENCE_TIMEZONE = 'America/Bogota';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// ==================== GEOMETRY ====================
+
+/**
+ * Algoritmo de ray casting sobre un polígono de vértices { lat, lng }
+ */
+export function isPointInPolygon(lat: number, lng: number, polygon: { lat: number; lng: number }[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const xi = Number(polygon[i].lat), yi = Number(polygon[i].lng);
+    const xj = Number(polygon[j].lat), yj = Number(polygon[j].lng);
+
+    if (yi > lng !== yj > lng && lat < ((xj - xi) * (lng - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Determina si una coordenada está dentro de la geocerca según su tipo
+ * Formatos de geometry: ver supabase/migrations/drivers_and_geofences.sql
+ */
+export function isPointInGeofence(lat: number, lng: number, geofence: GeofenceDefinition): boolean {
+  const geometry = geofence.geometry || {};
+
+  if (geofence.geofence_type === 'circle') {
+    // Las columnas center_lat/center_lng/radius_meters son las que edita el formulario
+    const centerLat = Number(geofence.center_lat ?? geometry.center?.lat);
+    const centerLng = Number(geofence.center_lng ?? geometry.center?.lng);
+    const radius = Number(geofence.radius_meters ?? geometry.radius ?? 0);
+    if (!Number.isFinite(centerLat) || !Number.isFinite(centerLng)) return false;
+    return haversineDistance(lat, lng, centerLat, centerLng) <= radius;
+  }
+
+  if (geofence.geofence_type === 'rectangle') {
+    const bounds = geometry.bounds;
+    if (!bounds) return false;
+    return lat <= Number(bounds.north) && lat >= Number(bounds.south) &&
+      lng <= Number(bounds.east) && lng >= Number(bounds.west);
+  }
+
+  const polygon = Array.isArray(geometry) ? geometry : geometry.points;
+  if (!Array.isArray(polygon) || polygon.length < 3) return false;
+  return isPointInPolygon(lat, lng, polygon);
+}
+
+// ==================== SCHEDULE & ASSIGNMENT ====================
+
+const parseTime = (value: string): number => {
+  const [hours, minutes] = (value || '').split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+/**
+ * Indica si una fecha cae dentro del horario de la geocerca
+ * Sin restricciones la geocerca está activa todo el tiempo. Soporta horarios
+ * que cruzan la medianoche (ej. 22:00 - 05:00).
+ */
+export function isWithinTimeWindow(
+  restrictions: GeofenceTimeRestrictions | null | undefined,
+  date: Date,
+  timeZone: string = GEOFENCE_TIMEZONE
+): boolean {
+  if (!restrictions) return true;
+
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+
+  const day = WEEKDAYS.indexOf(part('weekday'));
+  if (restrictions.days?.length && !restrictions.days.includes(day)) return false;
+
+  if (!restrictions.start_time || !restrictions.end_time) return true;
+
+  const minutes = Number(part('hour')) * 60 + Number(part('minute'));
+  const start = parseTime(restrictions.start_time);
+  const end = parseTime(restrictions.end_time);
+
+  return start <= end
+    ? minutes >= start && minutes < end
+    : minutes >= start || minutes < end;
+}
+
+/**
+ * Indica si la geocerca aplica al vehículo (contrato y placas asignadas)
+ */
+export function geofenceAppliesToVehicle(geofence: GeofenceDefinition, vehicle: GeofenceVehicle): boolean {
+  if (geofence.contract) {
+    const vehicleContract = (vehicle.contract || '').trim().toUpperCase();
+    if (vehicleContract !== geofence.contract.trim().toUpperCase()) return false;
+  }
+
+  if (geofence.applies_to_all) return true;
+
+  const plate = vehicle.plate.trim().toUpperCase();
+  return (geofence.vehicle_plates || []).some(p => p.trim().toUpperCase() === plate);
+}
+
+/**
+ * Decide si un evento de entrada/salida debe generar alerta
+ * En zonas restringidas la entrada siempre alerta, aunque alert_on_entry esté apagado.
+ */
+export function shouldAlertTransition(geofence: GeofenceDefinition, eventType: GeofenceEventType, date: Date): boolean {
+  const enabled = eventType === 'entry'
+    ? geofence.alert_on_entry || geofence.is_restricted_zone
+    : geofence.alert_on_exit;
+
+  return enabled && isWithinTimeWindow(geofence.time_restrictions, date);
+}
+
+/**
+ * Decide si se registran las entradas/salidas de la geocerca
+ * Las zonas de velocidad (speed_limit_kmh) solo limitan la velocidad: sus
+ * entradas/salidas se registran únicamente si la zona pide alertarlas.
+ */
+export function tracksGeofenceTransitions(geofence: GeofenceDefinition): boolean {
+  if (!(Number(geofence.speed_limit_kmh) > 0)) return true;
+  return geofence.alert_on_entry || geofence.alert_on_exit || geofence.is_restricted_zone;
+}
+
+/**
+ * Texto de detalle de la alerta (igual en frontend y worker)
+ */
+export function describeGeofenceTransition(transition: GeofenceTransition<any>): string {
+  const { geofence, eventType } = transition;
+
+  if (eventType === 'entry') {
+    return geofence.is_restricted_zone
+      ? `Ingreso a zona restringida "${geofence.name}"`
+      : `Vehículo entró a la geocerca "${geofence.name}"`;
+  }
+
+  return geofence.is_restricted_zone
+    ? `Vehículo salió de la zona restringida "${geofence.name}"`
+    : `Vehículo salió de la geocerca "${geofence.name}"`;
+}
+
+// ==================== SPEED ZONES ====================
+
+/**
+ * Carga las geocercas activas que definen un límite de velocidad
+ */
+export async function loadSpeedLimitZones(supabase: any): Promise<GeofenceDefinition[]> {
+  const { data, error } = await supabase
+    .from('geofences')
+    .select('*')
+    .eq('is_active', true)
+    .not('speed_limit_kmh', 'is', null);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Determina el límite de velocidad del vehículo según la zona en la que está
+ * Si está en varias zonas gana la más restrictiva; fuera de toda zona (o fuera
+ * del horario de la zona) se usa el límite del contrato.
+ */
+export function resolveSpeedLimit(
+  vehicle: GeofenceVehicle,
+  zones: GeofenceDefinition[],
+  fallbackLimit: number
+): EffectiveSpeedLimit {
+  let effective: EffectiveSpeedLimit = { limit: fallbackLimit, tolerance: 0 };
+  if (!isValidCoordinate(vehicle.latitude, vehicle.longitude)) return effective;
+
+  const date = new Date(vehicle.lastUpdate);
+  const at = isNaN(date.getTime()) ? new Date() : date;
+  let inZone = false;
+
+  for (const zone of zones) {
+    const limit = Number(zone.speed_limit_kmh);
+    if (!zone.is_active || !(limit > 0)) continue;
+    if (!geofenceAppliesToVehicle(zone, vehicle)) continue;
+    if (!isWithinTimeWindow(zone.time_restrictions, at)) continue;
+    if (!isPointInGeofence(vehicle.latitude, vehicle.longitude, zone)) continue;
+
+    if (!inZone || limit < effective.limit) {
+      effective = {
+        limit,
+        tolerance: Number(zone.speed_tolerance_kmh) || 0,
+        zoneId: zone.id,
+        zoneName: zone.name
+      };
+      inZone = true;
+    }
+  }
+
+  return effective;
+}
+
+// ==================== STATE TRACKING ====================
+
+const toEventTime = (lastUpdate: string, fallback: Date): string => {
+  const date = new Date(lastUpdate);
+  return isNaN(date.getTime()) ? fallback.toISOString() : date.toISOString();
+};
+
+async function loadVehicleStates(supabase: any): Promise<Map<string, boolean>> {
+  const states = new Map<string, boolean>();
+
+  // Supabase limita a 1000 filas por consulta: paginar
+  let from = 0;
+  const pageSize = 1000;
+  let hasMore = true;
+
+  while (hasMore) {
+    const { data, error } = await supabase
+      .from('geofence_vehicle_states')
+      .select('geofence_id, vehicle_plate, is_inside')
+      .range(from, from + pageSize - 1);
+
+    if (error) throw error;
+
+    (data || []).forEach((row: any) => {
+      states.set(`${row.geofence_id}:${row.vehicle_plate}`, row.is_inside);
+    });
+
+    from += pageSize;
+    hasMore = (data || []).length === pageSize;
+  }
+
+  return states;
+}
+
+/**
+ * Evalúa la flota contra las geocercas activas y registra las entradas/salidas
+ *
+ * - Las zonas de velocidad sin alerta de entrada/salida no se evalúan (tracksGeofenceTransitions)
+ * - La primera vez que se ve un vehículo en una geocerca solo se guarda su estado (sin evento)
+ * - Cada cambio dentro/fuera se escribe en geofence_events
+ * - Devuelve las transiciones registradas por ESTE proceso; las que alertan traen shouldAlert = true
+ */
+export async function evaluateFleetGeofences<V extends GeofenceVehicle>(
+  supabase: any,
+  vehicles: V[],
+  now: Date = new Date()
+): Promise<GeofenceTransition<V>[]> {
+  const { data: geofences, error } = await supabase
+    .from('geofences')
+    .select('*')
+    .eq('is_active', true);
+
+  if (error) throw error;
+
+  const tracked = ((geofences || []) as GeofenceDefinition[]).filter(tracksGeofenceTransitions);
+  if (tracked.length === 0) return [];
+
+  const states = await loadVehicleStates(supabase);
+  const newStates: any[] = [];
+  const transitions: GeofenceTransition<V>[] = [];
+
+  for (const vehicle of vehicles) {
+    if (!isValidCoordinate(vehicle.latitude, vehicle.longitude)) continue;
+
+    for (const geofence of tracked) {
+      if (!geofenceAppliesToVehicle(geofence, vehicle)) continue;
+
+      const inside = isPointInGeofence(vehicle.latitude, vehicle.longitude, geofence);
+      const previous = states.get(`${geofence.id}:${vehicle.plate}`);
+      const eventTime = toEventTime(vehicle.lastUpdate, now);
+
+      if (previous === undefined) {
+        newStates.push({
+          geofence_id: geofence.id,
+          vehicle_plate: vehicle.plate,
+          is_inside: inside,
+          updated_at: now.toISOString()
+        });
+        continue;
+      }
+
+      if (previous === inside) continue;
+
+      // Actualización condicional: si el navegador y el worker detectan el mismo
+      // cambio, solo quien logra voltear el estado registra el evento
+      const { data: flipped, error: updateError } = await supabase
+        .from('geofence_vehicle_states')
+        .update({ is_inside: inside, last_event_at: eventTime, updated_at: now.toISOString() })
+        .eq('geofence_id', geofence.id)
+        .eq('vehicle_plate', vehicle.plate)
+        .eq('is_inside', previous)
+        .select('vehicle_plate');
+
+      if (updateError) {
+        console.error('[Geofences] Error updating vehicle state:', updateError);
+        continue;
+      }
+      if (!flipped || flipped.length === 0) continue;
+
+      const eventType: GeofenceEventType = inside ? 'entry' : 'exit';
+      const shouldAlert = shouldAlertTransition(geofence, eventType, new Date(eventTime));
+
+      const { error: eventError } = await supabase
+        .from('geofence_events')
+        .insert({
+          geofence_id: geofence.id,
+          vehicle_plate: vehicle.plate,
+          driver: vehicle.driver,
+          event_type: eventType,
+          event_datetime: eventTime,
+          latitude: vehicle.latitude,
+          longitude: vehicle.longitude,
+          location_name: vehicle.location,
+          alert_generated: shouldAlert,
+          speed: vehicle.speed,
+          source: vehicle.source
+        });
+
+      if (eventError) {
+        console.error('[Geofences] Error saving geofence event:', eventError);
+      }
+
+      transitions.push({ geofence, vehicle, eventType, eventTime, shouldAlert });
+    }
+  }
+
+  if (newStates.length > 0) {
+    const { error: insertError } = await supabase
+      .from('geofence_vehicle_states')
+      .upsert(newStates, { onConflict: 'geofence_id,vehicle_plate', ignoreDuplicates: true });
+
+    if (insertError) {
+      console.error('[Geofences] Error saving initial vehicle states:', insertError);
+    }
+  }
+
+  return transitions;
+}
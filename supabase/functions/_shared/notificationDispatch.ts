@@ -0,0 +1,486 @@
+/**
+ * Cola de notificaciones (correo, Telegram, WhatsApp)
+ *
+ * Cada alerta nueva se encola en notification_deliveries una vez por canal y
+ * destinatario (según notification_settings). La Edge Function
+ * notification-dispatcher procesa la cola: toma cada envío pendiente con una
+ * actualización condicional (así dos ejecuciones no envían el mismo mensaje),
+ * lo entrega con el adaptador del canal y, si falla, lo reprograma con espera
+ * exponencial hasta max_attempts.
+ *
+ * Los adaptadores se reciben como parámetro: este módulo no hace llamadas de red.
+ * Compartido por la Edge Function (cola) y el frontend (tipos y formato de mensajes).
+ */
+
+// ==================== TYPES ====================
+
+export type NotificationChannel = 'email' | 'telegram' | 'whatsapp';
+
+export type NotificationSeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export type NotificationDeliveryStatus = 'pending' | 'sending' | 'sent' | 'failed';
+
+/** Fila de notification_settings */
+export interface NotificationSettingsRow {
+  id: string;
+  contract: string | null;
+  min_severity: NotificationSeverity;
+  email_enabled: boolean;
+  email_recipients: string[];
+  telegram_enabled: boolean;
+  telegram_chat_ids: string[];
+  whatsapp_enabled: boolean;
+  whatsapp_numbers: string[];
+  is_active: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/** Campos de la alerta que se usan en los mensajes (compatible con Alert del frontend y saved_alerts) */
+export interface NotificationMessageAlert {
+  plate: string;
+  driver: string;
+  type: string;
+  severity: string;
+  timestamp: string;
+  location: string;
+  speed: number;
+  details: string;
+  contract?: string | null;
+  source: string;
+}
+
+/** Alerta a notificar: alert_id es el de saved_alerts */
+export interface NotificationAlert extends NotificationMessageAlert {
+  alert_id: string;
+}
+
+/** Fila de notification_deliveries */
+export interface NotificationDelivery {
+  id: string;
+  alert_id: string;
+  plate: string | null;
+  alert_type: string | null;
+  severity: string | null;
+  contract: string | null;
+  channel: NotificationChannel;
+  recipient: string;
+  subject: string | null;
+  message: string;
+  status: NotificationDeliveryStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  provider_message_id: string | null;
+  transport: string | null;
+  sent_at: string | null;
+  created_at: string;
+  updated_at?: string;
+}
+
+/** Mensaje que no sale de una alerta (reportes programados); el texto ya viene armado */
+export interface NotificationMessage {
+  /** Clave única (se guarda en alert_id): el mensaje se encola una vez por canal y destinatario */
+  key: string;
+  type: string;
+  subject: string;
+  message: string;
+  contract?: string | null;
+}
+
+export interface NotificationTarget {
+  channel: NotificationChannel;
+  recipient: string;
+}
+
+/** Resultado de un adaptador; si el envío falla, el adaptador lanza un Error */
+export interface ChannelSendResult {
+  providerMessageId?: string;
+}
+
+export type ChannelSender = (delivery: NotificationDelivery) => Promise<ChannelSendResult>;
+
+export interface NotificationDispatchResult {
+  queued: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+// ==================== CONFIGURATION ====================
+
+export const NOTIFICATION_DISPATCH_CONFIG = {
+  /** Intentos por envío antes de marcarlo como fallido */
+  MAX_ATTEMPTS: 5,
+  /** Espera antes del primer reintento; se duplica en cada intento */
+  RETRY_BASE_MINUTES: 1,
+  RETRY_MAX_MINUTES: 60,
+  /** Un envío en 'sending' por más de N minutos se considera abandonado (la función se cortó) */
+  SENDING_TIMEOUT_MINUTES: 10,
+  /** Envíos procesados por ejecución */
+  BATCH_SIZE: 50,
+};
+
+export const NOTIFICATION_CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  email: 'Correo',
+  telegram: 'Telegram',
+  whatsapp: 'WhatsApp',
+};
+
+const SEVERITY_RANK: Record<NotificationSeverity, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  critical: 3,
+};
+
+// ==================== MESSAGE FORMATTERS ====================
+
+/** Zona horaria en la que se muestran las horas en los mensajes */
+const MESSAGE_TIME_ZONE = 'America/Bogota';
+
+const formatAlertTime = (timestamp: string): string =>
+  new Date(timestamp).toLocaleString('es-CO', { timeZone: MESSAGE_TIME_ZONE });
+
+export const escapeHtml = (value: unknown): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export const formatAlertSubject = (alert: NotificationMessageAlert): string =>
+  `🚨 Alerta: ${alert.type} - ${alert.plate}`;
+
+export const formatAlertForWhatsApp = (alert: NotificationMessageAlert): string => {
+  const isSpeed = alert.type.toLowerCase().includes('velocidad');
+
+  return `🚨 *ALERTA DE FLOTA*
+
+*Tipo:* ${alert.type}
+*Vehículo:* ${alert.plate}
+*Conductor:* ${alert.driver}
+Detalles: ${alert.details}
+${isSpeed ? `*Velocidad:* ${alert.speed} km/h ⚠️` : `Velocidad: ${alert.speed} km/h`}
+Ubicación: ${alert.location}
+Hora: ${formatAlertTime(alert.timestamp)}
+${alert.contract ? `Contrato: ${alert.contract}` : ''}
+Fuente: ${alert.source}`;
+};
+
+export const formatAlertForTelegram = (alert: NotificationMessageAlert): string => {
+  const severityEmoji = {
+    critical: '🔴',
+    high: '🟠',
+    medium: '🟡',
+    low: '🟢',
+  };
+
+  return `${severityEmoji[alert.severity as keyof typeof severityEmoji] || '⚪'} <b>ALERTA: ${escapeHtml(alert.type)}</b>
+
+🚗 <b>Vehículo:</b> ${escapeHtml(alert.plate)}
+👤 <b>Conductor:</b> ${escapeHtml(alert.driver)}
+📍 <b>Ubicación:</b> ${escapeHtml(alert.location)}
+⚡ <b>Velocidad:</b> ${alert.speed} km/h
+🕐 <b>Hora:</b> ${formatAlertTime(alert.timestamp)}
+${alert.contract ? `📋 <b>Contrato:</b> ${escapeHtml(alert.contract)}` : ''}
+
+<i>${escapeHtml(alert.details)}</i>`;
+};
+
+export const formatAlertForEmail = (alert: NotificationMessageAlert): string => {
+  const row = (label: string, value: unknown) => `
+      <tr>
+        <td style="padding: 8px; border: 1px solid #ddd;"><strong>${label}</strong></td>
+        <td style="padding: 8px; border: 1px solid #ddd;">${escapeHtml(value)}</td>
+      </tr>`;
+
+  return `
+    <h2>🚨 Alerta de Flota: ${escapeHtml(alert.type)}</h2>
+
+    <table style="border-collapse: collapse; width: 100%; max-width: 600px;">${row('Vehículo', alert.plate)}${row('Conductor', alert.driver)}${row('Ubicación', alert.location)}${row('Velocidad', `${alert.speed} km/h`)}${row('Hora', formatAlertTime(alert.timestamp))}${alert.contract ? row('Contrato', alert.contract) : ''}
+    </table>
+
+    <p style="margin-top: 20px;">${escapeHtml(alert.details)}</p>
+
+    <hr style="margin-top: 30px;">
+    <p style="font-size: 12px; color: #666;">
+      Este mensaje fue generado automáticamente por Torre de Control.<br>
+      Para más detalles, accede al sistema.
+    </p>
+  `;
+};
+
+/** Asunto y cuerpo del mensaje según el canal */
+export function formatAlertMessage(
+  alert: NotificationMessageAlert,
+  channel: NotificationChannel
+): { subject: string | null; message: string } {
+  switch (channel) {
+    case 'email':
+      return { subject: formatAlertSubject(alert), message: formatAlertForEmail(alert) };
+    case 'telegram':
+      return { subject: null, message: formatAlertForTelegram(alert) };
+    case 'whatsapp':
+      return { subject: null, message: formatAlertForWhatsApp(alert) };
+  }
+}
+
+// ==================== RECIPIENTS ====================
+
+export async function loadNotificationSettings(supabase: any): Promise<NotificationSettingsRow[]> {
+  const { data, error } = await supabase
+    .from('notification_settings')
+    .select('*')
+    .eq('is_active', true);
+
+  if (error) throw error;
+  return data || [];
+}
+
+const meetsSeverity = (severity: string, minSeverity: NotificationSeverity): boolean =>
+  (SEVERITY_RANK[severity as NotificationSeverity] ?? 0) >= (SEVERITY_RANK[minSeverity] ?? 0);
+
+/**
+ * Canales y destinatarios de una alerta
+ * Suma los de todas las filas activas del contrato de la alerta o globales (contract NULL)
+ * cuya severidad mínima se cumpla
+ */
+export function resolveNotificationTargets(
+  settings: NotificationSettingsRow[],
+  alert: Pick<NotificationMessageAlert, 'severity' | 'contract'>
+): NotificationTarget[] {
+  const targets = new Map<string, NotificationTarget>();
+  const add = (channel: NotificationChannel, recipients: string[] | null | undefined) => {
+    (recipients || [])
+      .map(recipient => recipient.trim())
+      .filter(Boolean)
+      .forEach(recipient => targets.set(`${channel}:${recipient}`, { channel, recipient }));
+  };
+
+  for (const row of settings) {
+    if (!row.is_active) continue;
+    if (row.contract && row.contract !== alert.contract) continue;
+    if (!meetsSeverity(alert.severity, row.min_severity)) continue;
+
+    if (row.email_enabled) add('email', row.email_recipients);
+    if (row.telegram_enabled) add('telegram', row.telegram_chat_ids);
+    if (row.whatsapp_enabled) add('whatsapp', row.whatsapp_numbers);
+  }
+
+  return Array.from(targets.values());
+}
+
+/**
+ * Indica si el destinatario ya está configurado para el canal en alguna fila
+ * activa (los mensajes de prueba solo se envían a destinatarios configurados)
+ */
+export function isConfiguredRecipient(
+  settings: NotificationSettingsRow[],
+  channel: NotificationChannel,
+  recipient: string
+): boolean {
+  const field: Record<NotificationChannel, keyof NotificationSettingsRow> = {
+    email: 'email_recipients',
+    telegram: 'telegram_chat_ids',
+    whatsapp: 'whatsapp_numbers'
+  };
+  const wanted = recipient.trim();
+
+  return settings.some(row =>
+    row.is_active
+    && ((row[field[channel]] as string[] | null) || []).some(configured => configured.trim() === wanted)
+  );
+}
+
+// ==================== QUEUE ====================
+
+const buildDeliveryRows = (alert: NotificationAlert, targets: NotificationTarget[], subjectPrefix?: string) =>
+  targets.map(target => {
+    const { subject, message } = formatAlertMessage(alert, target.channel);
+    return {
+      alert_id: alert.alert_id,
+      plate: alert.plate,
+      alert_type: alert.type,
+      severity: alert.severity,
+      contract: alert.contract ?? null,
+      channel: target.channel,
+      recipient: target.recipient,
+      subject: subject && subjectPrefix ? `${subjectPrefix} ${subject}` : subject,
+      message,
+      max_attempts: NOTIFICATION_DISPATCH_CONFIG.MAX_ATTEMPTS,
+    };
+  });
+
+async function insertDeliveries(supabase: any, rows: ReturnType<typeof buildDeliveryRows>): Promise<number> {
+  if (rows.length === 0) return 0;
+
+  const { data, error } = await supabase
+    .from('notification_deliveries')
+    .upsert(rows, { onConflict: 'alert_id,channel,recipient', ignoreDuplicates: true })
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).length;
+}
+
+/**
+ * Encola las notificaciones de las alertas
+ * Una alerta ya encolada para el mismo canal y destinatario se ignora
+ * Devuelve cuántos envíos nuevos se encolaron
+ */
+export async function enqueueAlertNotifications(
+  supabase: any,
+  alerts: NotificationAlert[],
+  settings: NotificationSettingsRow[]
+): Promise<number> {
+  const rows = alerts.flatMap(alert => buildDeliveryRows(alert, resolveNotificationTargets(settings, alert)));
+  return insertDeliveries(supabase, rows);
+}
+
+/**
+ * Encola una alerta para destinatarios puntuales (escalamientos, mensajes de prueba)
+ * subjectPrefix se antepone al asunto del correo
+ */
+export async function enqueueTargetedNotification(
+  supabase: any,
+  alert: NotificationAlert,
+  targets: NotificationTarget[],
+  subjectPrefix?: string
+): Promise<number> {
+  return insertDeliveries(supabase, buildDeliveryRows(alert, targets, subjectPrefix));
+}
+
+/**
+ * Encola un mensaje ya formateado (por ejemplo, el correo de un reporte programado)
+ * El mismo texto va a todos los destinatarios: usar un solo canal por mensaje
+ */
+export async function enqueueMessageNotification(
+  supabase: any,
+  message: NotificationMessage,
+  targets: NotificationTarget[]
+): Promise<number> {
+  return insertDeliveries(supabase, targets.map(target => ({
+    alert_id: message.key,
+    plate: null,
+    alert_type: message.type,
+    severity: null,
+    contract: message.contract ?? null,
+    channel: target.channel,
+    recipient: target.recipient,
+    subject: message.subject,
+    message: message.message,
+    max_attempts: NOTIFICATION_DISPATCH_CONFIG.MAX_ATTEMPTS,
+  })));
+}
+
+/** Minutos de espera antes del siguiente intento (1, 2, 4, 8... hasta RETRY_MAX_MINUTES) */
+export function retryDelayMinutes(attempt: number): number {
+  const { RETRY_BASE_MINUTES, RETRY_MAX_MINUTES } = NOTIFICATION_DISPATCH_CONFIG;
+  return Math.min(RETRY_MAX_MINUTES, RETRY_BASE_MINUTES * Math.pow(2, Math.max(0, attempt - 1)));
+}
+
+/**
+ * Devuelve a la cola los envíos que quedaron en 'sending' (la función se cortó a mitad)
+ */
+async function releaseStalledDeliveries(supabase: any, now: Date): Promise<void> {
+  const cutoff = new Date(now.getTime() - NOTIFICATION_DISPATCH_CONFIG.SENDING_TIMEOUT_MINUTES * 60 * 1000);
+
+  const { error } = await supabase
+    .from('notification_deliveries')
+    .update({ status: 'pending' })
+    .eq('status', 'sending')
+    .lt('updated_at', cutoff.toISOString());
+
+  if (error) throw error;
+}
+
+/**
+ * Procesa los envíos pendientes cuya hora de intento ya llegó
+ *
+ * - Cada envío se toma con una actualización condicional sobre status y attempts
+ * - Éxito → 'sent'; error → se reprograma con retryDelayMinutes o 'failed' al agotar intentos
+ * - Un canal sin adaptador (credenciales faltantes) cuenta como error del intento
+ */
+export async function processPendingDeliveries(
+  supabase: any,
+  senders: Partial<Record<NotificationChannel, ChannelSender>>,
+  transport: string,
+  now: Date = new Date()
+): Promise<Omit<NotificationDispatchResult, 'queued'>> {
+  const result = { sent: 0, retrying: 0, failed: 0 };
+
+  await releaseStalledDeliveries(supabase, now);
+
+  const { data: pending, error } = await supabase
+    .from('notification_deliveries')
+    .select('*')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', now.toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(NOTIFICATION_DISPATCH_CONFIG.BATCH_SIZE);
+
+  if (error) throw error;
+
+  for (const delivery of (pending || []) as NotificationDelivery[]) {
+    const attempt = delivery.attempts + 1;
+
+    const { data: claimed, error: claimError } = await supabase
+      .from('notification_deliveries')
+      .update({ status: 'sending', attempts: attempt, transport })
+      .eq('id', delivery.id)
+      .eq('status', 'pending')
+      .eq('attempts', delivery.attempts)
+      .select('id');
+
+    if (claimError) {
+      console.error('[Notifications] Error claiming delivery:', claimError);
+      continue;
+    }
+    if (!claimed || claimed.length === 0) continue; // Otro proceso lo tomó
+
+    try {
+      const sender = senders[delivery.channel];
+      if (!sender) {
+        throw new Error(`Canal ${NOTIFICATION_CHANNEL_LABELS[delivery.channel]} no configurado`);
+      }
+
+      const sendResult = await sender({ ...delivery, attempts: attempt });
+
+      const { error: sentError } = await supabase
+        .from('notification_deliveries')
+        .update({
+          status: 'sent',
+          sent_at: new Date().toISOString(),
+          provider_message_id: sendResult.providerMessageId ?? null,
+          last_error: null,
+        })
+        .eq('id', delivery.id);
+
+      if (sentError) console.error('[Notifications] Error marking delivery as sent:', sentError);
+      result.sent++;
+    } catch (sendError) {
+      const message = sendError instanceof Error ? sendError.message : String(sendError);
+      const exhausted = attempt >= delivery.max_attempts;
+      const nextAttempt = new Date(now.getTime() + retryDelayMinutes(attempt) * 60 * 1000);
+
+      console.error(`[Notifications] ${delivery.channel} → ${delivery.recipient} failed (attempt ${attempt}):`, message);
+
+      const { error: failError } = await supabase
+        .from('notification_deliveries')
+        .update({
+          status: exhausted ? 'failed' : 'pending',
+          next_attempt_at: exhausted ? delivery.next_attempt_at : nextAttempt.toISOString(),
+          last_error: message.slice(0, 1000),
+        })
+        .eq('id', delivery.id);
+
+      if (failError) console.error('[Notifications] Error rescheduling delivery:', failError);
+      if (exhausted) result.failed++;
+      else result.retrying++;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,474 @@
+/**
+ * PDF de los reportes (mismas definiciones que el HTML y el CSV)
+ *
+ * Dibuja el reporte con pdf-lib, sin DOM ni navegador, así que funciona igual en
+ * el frontend (services/pdfService.ts) y en el worker report-scheduler:
+ * - A4 horizontal, encabezado con logo en la primera página y encabezado corto en las demás
+ * - Indicadores y gráficos de barras como vectores
+ * - Tabla paginada que repite la fila de títulos en cada página
+ * - Pie con el usuario que generó el reporte, la fecha y "Página X de Y"
+ *
+ * Las fuentes son las estándar del PDF (Helvetica, WinAnsi): los caracteres que
+ * no cubren (emojis, otros alfabetos) se reemplazan por "?".
+ *
+ * En Deno "pdf-lib" se resuelve con el deno.json de la función.
+ */
+
+import { PDFDocument, PDFFont, PDFImage, PDFPage, PageSizes, StandardFonts, rgb } from 'pdf-lib';
+import {
+  REPORT_TONE_COLORS,
+  ReportChart,
+  ReportConfig,
+  ReportDefinition,
+  ReportStat,
+  ReportTone,
+  TableColumn,
+  cellText,
+  formatReportDateTime
+} from './reportTemplates.ts';
+
+// ==================== TYPES ====================
+
+export interface ReportPdfOptions extends Partial<ReportConfig> {
+  /** Bytes de public/logo.png (PNG); sin logo el encabezado solo lleva el nombre */
+  logo?: Uint8Array | ArrayBuffer | null;
+  /** Usuario que generó el reporte (pie de página) */
+  generatedBy?: string;
+}
+
+interface PdfContext {
+  doc: PDFDocument;
+  regular: PDFFont;
+  bold: PDFFont;
+  charset: Set<number>;
+  page: PDFPage;
+  /** Posición vertical actual, medida desde abajo como en PDF */
+  y: number;
+  title: string;
+  companyName: string;
+}
+
+// ==================== CONFIGURATION ====================
+
+export const REPORT_PDF_CONFIG = {
+  /** A4 horizontal: caben las 7-8 columnas de detalle */
+  PAGE_SIZE: [PageSizes.A4[1], PageSizes.A4[0]] as [number, number],
+  MARGIN: 36,
+  FOOTER_HEIGHT: 30,
+  TABLE_FONT_SIZE: 8,
+  TABLE_LINE_HEIGHT: 10,
+  /** Líneas máximas por celda; el resto se corta con "…" */
+  TABLE_MAX_LINES: 3,
+  CHART_MAX_BARS: 10,
+};
+
+const COLORS = {
+  primary: '#1e40af',
+  accent: '#3b82f6',
+  text: '#1e293b',
+  muted: '#64748b',
+  faint: '#94a3b8',
+  border: '#e2e8f0',
+  zebra: '#f8fafc',
+  white: '#ffffff',
+};
+
+const [PAGE_WIDTH, PAGE_HEIGHT] = REPORT_PDF_CONFIG.PAGE_SIZE;
+const { MARGIN, FOOTER_HEIGHT } = REPORT_PDF_CONFIG;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+// ==================== TEXT ====================
+
+const color = (hex: string) => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return rgb(((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255);
+};
+
+const toneColor = (tone: string | undefined, fallback: string = COLORS.text) =>
+  color(REPORT_TONE_COLORS[tone as ReportTone] || fallback);
+
+/** Texto en una línea con solo los caracteres que la fuente puede codificar */
+const safeText = (ctx: PdfContext, value: unknown): string =>
+  Array.from(String(value ?? '').replace(/\s+/g, ' ').trim())
+    .map(char => (ctx.charset.has(char.codePointAt(0) as number) ? char : '?'))
+    .join('');
+
+const truncate = (font: PDFFont, text: string, size: number, maxWidth: number): string => {
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && font.widthOfTextAtSize(`${text.slice(0, end)}…`, size) > maxWidth) end--;
+  return `${text.slice(0, end)}…`;
+};
+
+/**
+ * Parte el texto en líneas que caben en maxWidth (palabras largas se cortan por caracteres)
+ */
+const wrapText = (font: PDFFont, text: string, size: number, maxWidth: number, maxLines: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+
+  const pushWord = (word: string) => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+      current = candidate;
+      return;
+    }
+    if (current) lines.push(current);
+    current = '';
+
+    // Palabra más ancha que la celda (placas, correos, coordenadas)
+    let rest = word;
+    while (font.widthOfTextAtSize(rest, size) > maxWidth && rest.length > 1) {
+      let cut = rest.length - 1;
+      while (cut > 1 && font.widthOfTextAtSize(rest.slice(0, cut), size) > maxWidth) cut--;
+      lines.push(rest.slice(0, cut));
+      rest = rest.slice(cut);
+    }
+    current = rest;
+  };
+
+  text.split(' ').filter(Boolean).forEach(pushWord);
+  if (current) lines.push(current);
+  if (lines.length === 0) return [''];
+
+  if (lines.length > maxLines) {
+    const kept = lines.slice(0, maxLines);
+    kept[maxLines - 1] = truncate(font, `${kept[maxLines - 1]} ${lines[maxLines]}`, size, maxWidth);
+    return kept;
+  }
+  return lines;
+};
+
+const drawText = (
+  ctx: PdfContext,
+  text: string,
+  x: number,
+  y: number,
+  options: { size: number; font?: PDFFont; color?: string; align?: 'left' | 'right' | 'center' }
+) => {
+  const font = options.font || ctx.regular;
+  const width = font.widthOfTextAtSize(text, options.size);
+  const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x;
+  ctx.page.drawText(text, { x: left, y, size: options.size, font, color: color(options.color || COLORS.text) });
+};
+
+// ==================== LAYOUT ====================
+
+const BOTTOM_LIMIT = MARGIN + FOOTER_HEIGHT;
+
+/** Encabezado corto de las páginas siguientes */
+const addPage = (ctx: PdfContext) => {
+  ctx.page = ctx.doc.addPage(REPORT_PDF_CONFIG.PAGE_SIZE);
+  const top = PAGE_HEIGHT - MARGIN;
+
+  drawText(ctx, truncate(ctx.bold, ctx.title, 10, CONTENT_WIDTH * 0.6), MARGIN, top - 10, { size: 10, font: ctx.bold, color: COLORS.primary });
+  drawText(ctx, ctx.companyName, PAGE_WIDTH - MARGIN, top - 10, { size: 9, color: COLORS.muted, align: 'right' });
+  ctx.page.drawLine({
+    start: { x: MARGIN, y: top - 18 },
+    end: { x: PAGE_WIDTH - MARGIN, y: top - 18 },
+    thickness: 1,
+    color: color(COLORS.accent),
+  });
+
+  ctx.y = top - 32;
+};
+
+/** Salta de página si no caben height puntos; devuelve true si saltó */
+const ensureSpace = (ctx: PdfContext, height: number): boolean => {
+  if (ctx.y - height >= BOTTOM_LIMIT) return false;
+  addPage(ctx);
+  return true;
+};
+
+const drawFirstHeader = (ctx: PdfContext, subtitle: string | undefined, generatedAt: Date, logo: PDFImage | null) => {
+  const top = PAGE_HEIGHT - MARGIN;
+  const headerHeight = 56;
+  let textLeft = MARGIN;
+
+  if (logo) {
+    const scale = Math.min(headerHeight / logo.height, 110 / logo.width);
+    const width = logo.width * scale;
+    const height = logo.height * scale;
+    ctx.page.drawImage(logo, { x: MARGIN, y: top - headerHeight + (headerHeight - height) / 2, width, height });
+    textLeft = MARGIN + width + 14;
+  }
+
+  drawText(ctx, ctx.companyName, textLeft, top - 24, { size: 18, font: ctx.bold, color: COLORS.primary });
+  drawText(ctx, 'Sistema de Gestión de Flotas', textLeft, top - 40, { size: 10, color: COLORS.muted });
+
+  const right = PAGE_WIDTH - MARGIN;
+  const maxTitleWidth = CONTENT_WIDTH * 0.5;
+  drawText(ctx, truncate(ctx.bold, ctx.title, 13, maxTitleWidth), right, top - 18, { size: 13, font: ctx.bold, align: 'right' });
+  if (subtitle) {
+    drawText(ctx, truncate(ctx.regular, safeText(ctx, subtitle), 9, maxTitleWidth), right, top - 32, { size: 9, color: COLORS.muted, align: 'right' });
+  }
+  drawText(ctx, `Generado: ${formatReportDateTime(generatedAt)}`, right, top - (subtitle ? 44 : 32), { size: 9, color: COLORS.muted, align: 'right' });
+
+  ctx.page.drawLine({
+    start: { x: MARGIN, y: top - headerHeight - 6 },
+    end: { x: right, y: top - headerHeight - 6 },
+    thickness: 2,
+    color: color(COLORS.accent),
+  });
+
+  ctx.y = top - headerHeight - 26;
+};
+
+const drawSectionTitle = (ctx: PdfContext, title: string, minContent: number = 40) => {
+  ensureSpace(ctx, 24 + minContent);
+  drawText(ctx, safeText(ctx, title), MARGIN, ctx.y - 12, { size: 12, font: ctx.bold, color: COLORS.primary });
+  ctx.page.drawLine({
+    start: { x: MARGIN, y: ctx.y - 18 },
+    end: { x: PAGE_WIDTH - MARGIN, y: ctx.y - 18 },
+    thickness: 0.5,
+    color: color(COLORS.border),
+  });
+  ctx.y -= 28;
+};
+
+const drawStats = (ctx: PdfContext, stats: ReportStat[]) => {
+  if (stats.length === 0) return;
+  const gap = 10;
+  const height = 48;
+  const width = (CONTENT_WIDTH - gap * (stats.length - 1)) / stats.length;
+
+  ensureSpace(ctx, height);
+  stats.forEach((stat, index) => {
+    const x = MARGIN + index * (width + gap);
+    ctx.page.drawRectangle({
+      x,
+      y: ctx.y - height,
+      width,
+      height,
+      color: color(COLORS.zebra),
+      borderColor: color(COLORS.border),
+      borderWidth: 0.75,
+    });
+    drawText(ctx, truncate(ctx.bold, safeText(ctx, stat.value), 18, width - 12), x + width / 2, ctx.y - 24, {
+      size: 18,
+      font: ctx.bold,
+      color: REPORT_TONE_COLORS[stat.tone || 'neutral'],
+      align: 'center',
+    });
+    drawText(ctx, truncate(ctx.regular, safeText(ctx, stat.label), 9, width - 12), x + width / 2, ctx.y - 39, {
+      size: 9,
+      color: COLORS.muted,
+      align: 'center',
+    });
+  });
+  ctx.y -= height + 14;
+};
+
+const chartHeight = (chart: ReportChart): number =>
+  24 + Math.min(chart.data.length, REPORT_PDF_CONFIG.CHART_MAX_BARS) * 15 + 8;
+
+/** Barras horizontales: rectángulos vectoriales, no imágenes */
+const drawChart = (ctx: PdfContext, chart: ReportChart, x: number, width: number, height: number) => {
+  const top = ctx.y;
+  ctx.page.drawRectangle({
+    x,
+    y: top - height,
+    width,
+    height,
+    borderColor: color(COLORS.border),
+    borderWidth: 0.75,
+  });
+  drawText(ctx, truncate(ctx.bold, safeText(ctx, chart.title), 10, width - 20), x + 10, top - 16, { size: 10, font: ctx.bold });
+
+  const data = chart.data.slice(0, REPORT_PDF_CONFIG.CHART_MAX_BARS);
+  const labelWidth = width * 0.32;
+  const barLeft = x + 10 + labelWidth + 6;
+  const barMaxWidth = width - labelWidth - 60;
+  const max = Math.max(1, ...data.map(item => item.value));
+
+  data.forEach((item, index) => {
+    const rowTop = top - 28 - index * 15;
+    drawText(ctx, truncate(ctx.regular, safeText(ctx, item.label), 8, labelWidth), x + 10 + labelWidth, rowTop - 8, {
+      size: 8,
+      color: COLORS.muted,
+      align: 'right',
+    });
+    const barWidth = Math.max(1, (item.value / max) * barMaxWidth);
+    ctx.page.drawRectangle({ x: barLeft, y: rowTop - 10, width: barWidth, height: 10, color: toneColor(item.tone, COLORS.primary) });
+    drawText(ctx, String(item.value), barLeft + barWidth + 4, rowTop - 8, { size: 8 });
+  });
+};
+
+const drawCharts = (ctx: PdfContext, charts: ReportChart[]) => {
+  const visible = charts.filter(chart => chart.data.length > 0);
+  const gap = 14;
+  const width = (CONTENT_WIDTH - gap) / 2;
+
+  for (let index = 0; index < visible.length; index += 2) {
+    const pair = visible.slice(index, index + 2);
+    const height = Math.max(...pair.map(chartHeight));
+    ensureSpace(ctx, height);
+    pair.forEach((chart, position) => drawChart(ctx, chart, MARGIN + position * (width + gap), width, height));
+    ctx.y -= height + 14;
+  }
+};
+
+const columnWidths = (columns: TableColumn[]): number[] => {
+  const total = columns.reduce((acc, column) => acc + (column.width ?? 1), 0);
+  return columns.map(column => (CONTENT_WIDTH * (column.width ?? 1)) / total);
+};
+
+const drawTableHeader = (ctx: PdfContext, columns: TableColumn[], widths: number[]) => {
+  const { TABLE_FONT_SIZE, TABLE_LINE_HEIGHT } = REPORT_PDF_CONFIG;
+  const cells = columns.map((column, index) =>
+    wrapText(ctx.bold, safeText(ctx, column.header), TABLE_FONT_SIZE, widths[index] - 8, 2)
+  );
+  const height = Math.max(...cells.map(lines => lines.length)) * TABLE_LINE_HEIGHT + 8;
+
+  ctx.page.drawRectangle({ x: MARGIN, y: ctx.y - height, width: CONTENT_WIDTH, height, color: color(COLORS.accent) });
+
+  let x = MARGIN;
+  cells.forEach((lines, index) => {
+    lines.forEach((line, lineIndex) => {
+      drawText(ctx, line, x + 4, ctx.y - 4 - TABLE_FONT_SIZE - lineIndex * TABLE_LINE_HEIGHT, {
+        size: TABLE_FONT_SIZE,
+        font: ctx.bold,
+        color: COLORS.white,
+      });
+    });
+    x += widths[index];
+  });
+
+  ctx.y -= height;
+};
+
+/**
+ * Tabla de detalle: cada fila salta completa a la página siguiente y ahí se
+ * repiten los títulos de las columnas
+ */
+const drawTable = (ctx: PdfContext, columns: TableColumn[], rows: any[]) => {
+  const { TABLE_FONT_SIZE, TABLE_LINE_HEIGHT, TABLE_MAX_LINES } = REPORT_PDF_CONFIG;
+  const widths = columnWidths(columns);
+
+  if (rows.length === 0) {
+    ensureSpace(ctx, 24);
+    drawText(ctx, 'Sin registros en el período', MARGIN, ctx.y - 14, { size: 10, color: COLORS.muted });
+    ctx.y -= 24;
+    return;
+  }
+
+  drawTableHeader(ctx, columns, widths);
+
+  rows.forEach((row, rowIndex) => {
+    const cells = columns.map((column, index) => {
+      const font = column.strong || column.badge ? ctx.bold : ctx.regular;
+      return { font, lines: wrapText(font, safeText(ctx, cellText(column, row)), TABLE_FONT_SIZE, widths[index] - 8, TABLE_MAX_LINES) };
+    });
+    const height = Math.max(...cells.map(cell => cell.lines.length)) * TABLE_LINE_HEIGHT + 8;
+
+    if (ensureSpace(ctx, height)) drawTableHeader(ctx, columns, widths);
+
+    if (rowIndex % 2 === 1) {
+      ctx.page.drawRectangle({ x: MARGIN, y: ctx.y - height, width: CONTENT_WIDTH, height, color: color(COLORS.zebra) });
+    }
+    ctx.page.drawLine({
+      start: { x: MARGIN, y: ctx.y - height },
+      end: { x: PAGE_WIDTH - MARGIN, y: ctx.y - height },
+      thickness: 0.5,
+      color: color(COLORS.border),
+    });
+
+    let x = MARGIN;
+    cells.forEach((cell, index) => {
+      const column = columns[index];
+      const textColor = column.badge ? REPORT_TONE_COLORS[column.badge(row) as ReportTone] || COLORS.text : COLORS.text;
+      cell.lines.forEach((line, lineIndex) => {
+        drawText(ctx, line, x + 4, ctx.y - 4 - TABLE_FONT_SIZE - lineIndex * TABLE_LINE_HEIGHT, {
+          size: TABLE_FONT_SIZE,
+          font: cell.font,
+          color: textColor,
+        });
+      });
+      x += widths[index];
+    });
+
+    ctx.y -= height;
+  });
+};
+
+/** Pie de todas las páginas (se dibuja al final para conocer el total) */
+const drawFooters = (ctx: PdfContext, generatedBy: string, generatedAt: Date) => {
+  const pages = ctx.doc.getPages();
+  const footer = safeText(ctx, `${ctx.companyName} - Sistema de Gestión de Flotas | Generado por ${generatedBy} el ${formatReportDateTime(generatedAt)}`);
+
+  pages.forEach((page, index) => {
+    ctx.page = page;
+    const lineY = MARGIN + FOOTER_HEIGHT - 12;
+    page.drawLine({
+      start: { x: MARGIN, y: lineY },
+      end: { x: PAGE_WIDTH - MARGIN, y: lineY },
+      thickness: 0.5,
+      color: color(COLORS.border),
+    });
+    drawText(ctx, truncate(ctx.regular, footer, 8, CONTENT_WIDTH - 90), MARGIN, MARGIN + 4, { size: 8, color: COLORS.faint });
+    drawText(ctx, `Página ${index + 1} de ${pages.length}`, PAGE_WIDTH - MARGIN, MARGIN + 4, {
+      size: 8,
+      color: COLORS.faint,
+      align: 'right',
+    });
+  });
+};
+
+// ==================== MAIN ====================
+
+/**
+ * Genera el PDF del reporte y devuelve sus bytes
+ */
+export async function renderReportPdf(definition: ReportDefinition, options: ReportPdfOptions = {}): Promise<Uint8Array> {
+  const generatedAt = options.date || new Date();
+  const generatedBy = options.generatedBy || 'Torre de Control';
+  const subtitle = options.subtitle ?? definition.subtitle;
+
+  const doc = await PDFDocument.create();
+  const regular = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+
+  let logo: PDFImage | null = null;
+  if (options.logo) {
+    try {
+      logo = await doc.embedPng(options.logo);
+    } catch (error) {
+      console.warn('[ReportPdf] Could not embed logo, continuing without it:', error);
+    }
+  }
+
+  const charset = new Set(regular.getCharacterSet());
+  const ctx: PdfContext = {
+    doc,
+    regular,
+    bold,
+    charset,
+    page: doc.addPage(REPORT_PDF_CONFIG.PAGE_SIZE),
+    y: PAGE_HEIGHT - MARGIN,
+    title: '',
+    companyName: '',
+  };
+  ctx.title = safeText(ctx, options.title || definition.title);
+  ctx.companyName = safeText(ctx, options.companyName || 'Torre de Control');
+
+  doc.setTitle(ctx.title);
+  if (subtitle) doc.setSubject(safeText(ctx, subtitle));
+  doc.setAuthor(safeText(ctx, generatedBy));
+  doc.setCreator(ctx.companyName);
+  doc.setProducer(ctx.companyName);
+  doc.setCreationDate(generatedAt);
+  doc.setModificationDate(generatedAt);
+
+  drawFirstHeader(ctx, subtitle, generatedAt, logo);
+
+  drawSectionTitle(ctx, definition.summaryTitle, 48);
+  drawStats(ctx, definition.stats);
+  drawCharts(ctx, definition.charts);
+
+  drawSectionTitle(ctx, definition.tableTitle, 60);
+  drawTable(ctx, definition.columns, definition.rows);
+
+  drawFooters(ctx, generatedBy, generatedAt);
+
+  return doc.save();
+}
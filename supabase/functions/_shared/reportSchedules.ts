@@ -0,0 +1,490 @@
+/**
+ * Reportes programados (report_schedules.sql)
+ *
+ * Cada programación define el tipo de reporte, el contrato, la periodicidad
+ * (diaria, semanal o mensual), la hora en hora de Colombia, el formato y los
+ * correos destinatarios. La Edge Function report-scheduler corre cada 15 minutos:
+ * toma las programaciones cuya hora llegó con una actualización condicional de
+ * next_run_at (así dos ejecuciones no generan el mismo reporte), arma el reporte
+ * del período anterior completo con las plantillas de reportTemplates.ts (PDF con
+ * reportPdf.ts), lo guarda
+ * en el bucket "reports", lo registra en generated_reports y encola el correo con
+ * el enlace de descarga en notification_deliveries.
+ *
+ * Compartido por la Edge Function (generación) y el frontend (tipos, etiquetas y
+ * cálculo de la próxima ejecución).
+ */
+
+import { enqueueMessageNotification, escapeHtml } from './notificationDispatch.ts';
+import { renderReportPdf } from './reportPdf.ts';
+import {
+  ReportConfig,
+  ReportDefinition,
+  buildAlertReport,
+  buildFleetReport,
+  buildInspectionReport,
+  formatReportDate,
+  generateCsv,
+  renderReportHtml
+} from './reportTemplates.ts';
+
+// ==================== TYPES ====================
+
+export type ReportType = 'alerts' | 'inspections' | 'fleet';
+
+export type ReportPeriod = 'daily' | 'weekly' | 'monthly';
+
+export type ReportFormat = 'html' | 'csv' | 'pdf';
+
+/** Fila de report_schedules */
+export interface ReportScheduleRow {
+  id: string;
+  name: string;
+  report_type: ReportType;
+  contract: string | null;
+  period: ReportPeriod;
+  /** 'HH:MM' o 'HH:MM:SS', hora de Colombia */
+  run_time: string;
+  /** Semanal: 0 = domingo ... 6 = sábado */
+  weekday: number | null;
+  /** Mensual: 1 a 28 */
+  day_of_month: number | null;
+  format: ReportFormat;
+  recipients: string[];
+  is_active: boolean;
+  next_run_at: string;
+  last_run_at: string | null;
+  last_status: 'generated' | 'failed' | null;
+  last_error: string | null;
+  created_by?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/** Fila de generated_reports */
+export interface GeneratedReportRow {
+  id: string;
+  schedule_id: string | null;
+  name: string;
+  report_type: ReportType;
+  contract: string | null;
+  period_start: string;
+  period_end: string;
+  format: ReportFormat;
+  file_path: string;
+  file_size: number | null;
+  row_count: number;
+  recipients: string[];
+  generated_at: string;
+  created_at?: string;
+}
+
+export interface ReportRange {
+  start: Date;
+  /** Exclusivo */
+  end: Date;
+  label: string;
+}
+
+export interface RenderedReport {
+  content: string | Uint8Array;
+  contentType: string;
+  extension: string;
+}
+
+export interface ReportRenderOptions {
+  /** Logo del encabezado del PDF (public/logo.png) */
+  logo?: Uint8Array | null;
+  /** Pie del PDF: quién generó el reporte */
+  generatedBy?: string;
+}
+
+export interface ReportRunResult {
+  scheduleId: string;
+  success: boolean;
+  reportId?: string;
+  rows?: number;
+  queued?: number;
+  error?: string;
+}
+
+export interface ReportSweepResult {
+  due: number;
+  generated: number;
+  failed: number;
+  queued: number;
+}
+
+// ==================== CONFIGURATION ====================
+
+export const REPORT_SCHEDULE_CONFIG = {
+  BUCKET: 'reports',
+  /** Vigencia del enlace de descarga que va en el correo */
+  LINK_EXPIRY_DAYS: 7,
+  /** Programaciones procesadas por ejecución */
+  BATCH_SIZE: 10,
+  /** Filas máximas por reporte */
+  MAX_ROWS: 5000,
+  /** Colombia no tiene horario de verano: el desfase es fijo */
+  UTC_OFFSET_HOURS: -5,
+};
+
+export const REPORT_TYPE_LABELS: Record<ReportType, string> = {
+  alerts: 'Resumen de alertas',
+  inspections: 'Cumplimiento de inspecciones',
+  fleet: 'Estado de la flota',
+};
+
+export const REPORT_PERIOD_LABELS: Record<ReportPeriod, string> = {
+  daily: 'Diario',
+  weekly: 'Semanal',
+  monthly: 'Mensual',
+};
+
+export const REPORT_FORMAT_LABELS: Record<ReportFormat, string> = {
+  pdf: 'PDF',
+  html: 'HTML (imprimible)',
+  csv: 'CSV (Excel)',
+};
+
+export const WEEKDAY_LABELS = ['Domingo', 'Lunes', 'Martes', 'Miércoles', 'Jueves', 'Viernes', 'Sábado'];
+
+const REPORT_CONTENT_TYPES: Record<ReportFormat, string> = {
+  pdf: 'application/pdf',
+  html: 'text/html; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+};
+
+// ==================== TIME ====================
+
+const OFFSET_MS = REPORT_SCHEDULE_CONFIG.UTC_OFFSET_HOURS * 60 * 60 * 1000;
+
+/** Fecha "desplazada": sus campos getUTC* son la hora de Colombia */
+const toLocal = (date: Date): Date => new Date(date.getTime() + OFFSET_MS);
+
+/** Instante real de una fecha y hora de Colombia (el desborde de día y mes lo resuelve Date.UTC) */
+const fromLocal = (year: number, month: number, day: number, hours = 0, minutes = 0): Date =>
+  new Date(Date.UTC(year, month, day, hours, minutes) - OFFSET_MS);
+
+/** 'AAAA-MM-DD' de la fecha en hora de Colombia */
+const localDateKey = (date: Date): string => toLocal(date).toISOString().slice(0, 10);
+
+const parseRunTime = (runTime: string): [number, number] => {
+  const [hours, minutes] = (runTime || '07:00').split(':').map(Number);
+  return [hours || 0, minutes || 0];
+};
+
+/**
+ * Próxima ejecución estrictamente posterior a after
+ */
+export function computeNextRun(
+  schedule: Pick<ReportScheduleRow, 'period' | 'run_time' | 'weekday' | 'day_of_month'>,
+  after: Date = new Date()
+): Date {
+  const [hours, minutes] = parseRunTime(schedule.run_time);
+  const local = toLocal(after);
+  const year = local.getUTCFullYear();
+  const month = local.getUTCMonth();
+  const day = local.getUTCDate();
+
+  if (schedule.period === 'weekly') {
+    const offset = ((schedule.weekday ?? 1) - local.getUTCDay() + 7) % 7;
+    const candidate = fromLocal(year, month, day + offset, hours, minutes);
+    return candidate > after ? candidate : fromLocal(year, month, day + offset + 7, hours, minutes);
+  }
+
+  if (schedule.period === 'monthly') {
+    const dayOfMonth = schedule.day_of_month ?? 1;
+    const candidate = fromLocal(year, month, dayOfMonth, hours, minutes);
+    return candidate > after ? candidate : fromLocal(year, month + 1, dayOfMonth, hours, minutes);
+  }
+
+  const candidate = fromLocal(year, month, day, hours, minutes);
+  return candidate > after ? candidate : fromLocal(year, month, day + 1, hours, minutes);
+}
+
+/**
+ * Período anterior completo a la ejecución: el día de ayer, la semana
+ * pasada (lunes a domingo) o el mes pasado, en hora de Colombia
+ */
+export function reportPeriodRange(period: ReportPeriod, runAt: Date): ReportRange {
+  const local = toLocal(runAt);
+  const year = local.getUTCFullYear();
+  const month = local.getUTCMonth();
+  const day = local.getUTCDate();
+
+  let start: Date;
+  let end: Date;
+
+  if (period === 'weekly') {
+    const monday = day - ((local.getUTCDay() + 6) % 7);
+    start = fromLocal(year, month, monday - 7);
+    end = fromLocal(year, month, monday);
+  } else if (period === 'monthly') {
+    start = fromLocal(year, month - 1, 1);
+    end = fromLocal(year, month, 1);
+  } else {
+    start = fromLocal(year, month, day - 1);
+    end = fromLocal(year, month, day);
+  }
+
+  const lastDay = new Date(end.getTime() - 1);
+  const label = period === 'daily'
+    ? formatReportDate(start)
+    : `${formatReportDate(start)} - ${formatReportDate(lastDay)}`;
+
+  return { start, end, label };
+}
+
+// ==================== DATA ====================
+
+/**
+ * Filas del reporte (con la service role: el contrato se filtra aquí)
+ */
+async function loadReportRows(supabase: any, schedule: ReportScheduleRow, range: ReportRange): Promise<any[]> {
+  const { MAX_ROWS } = REPORT_SCHEDULE_CONFIG;
+
+  if (schedule.report_type === 'fleet') {
+    // Foto actual de la flota: el último snapshot que guardó la ingesta
+    const { data, error } = await supabase
+      .from('fleet_snapshots')
+      .select('vehicles')
+      .eq('id', 'latest')
+      .maybeSingle();
+
+    if (error) throw error;
+    const vehicles: any[] = data?.vehicles || [];
+    return (schedule.contract ? vehicles.filter(vehicle => vehicle.contract === schedule.contract) : vehicles).slice(0, MAX_ROWS);
+  }
+
+  let query = schedule.report_type === 'alerts'
+    ? supabase
+      .from('saved_alerts')
+      .select('*')
+      .gte('timestamp', range.start.toISOString())
+      .lt('timestamp', range.end.toISOString())
+      .order('timestamp', { ascending: false })
+    : supabase
+      .from('preoperational_inspections')
+      .select('*')
+      .gte('inspection_date', localDateKey(range.start))
+      .lt('inspection_date', localDateKey(range.end))
+      .order('inspection_date', { ascending: true })
+      .order('plate', { ascending: true });
+
+  if (schedule.contract) query = query.eq('contract', schedule.contract);
+
+  const { data, error } = await query.limit(MAX_ROWS);
+  if (error) throw error;
+  return data || [];
+}
+
+const REPORT_BUILDERS: Record<ReportType, (rows: any[]) => ReportDefinition> = {
+  alerts: buildAlertReport,
+  inspections: buildInspectionReport,
+  fleet: buildFleetReport,
+};
+
+/**
+ * Documento del reporte en el formato de la programación
+ */
+export async function renderReport(
+  schedule: Pick<ReportScheduleRow, 'name' | 'report_type' | 'contract' | 'format'>,
+  rows: any[],
+  range: ReportRange,
+  generatedAt: Date = new Date(),
+  options: ReportRenderOptions = {}
+): Promise<RenderedReport> {
+  const definition = REPORT_BUILDERS[schedule.report_type](rows);
+
+  if (schedule.format === 'csv') {
+    return { content: generateCsv(rows, definition.columns), contentType: REPORT_CONTENT_TYPES.csv, extension: 'csv' };
+  }
+
+  const config: Partial<ReportConfig> = {
+    title: schedule.name,
+    subtitle: `${schedule.report_type === 'fleet' ? 'Corte' : 'Período'}: ${schedule.report_type === 'fleet' ? formatReportDate(generatedAt) : range.label}${schedule.contract ? ` · Contrato ${schedule.contract}` : ''}`,
+    date: generatedAt,
+  };
+
+  if (schedule.format === 'pdf') {
+    const content = await renderReportPdf(definition, { ...config, logo: options.logo, generatedBy: options.generatedBy });
+    return { content, contentType: REPORT_CONTENT_TYPES.pdf, extension: 'pdf' };
+  }
+
+  return { content: renderReportHtml(definition, config), contentType: REPORT_CONTENT_TYPES.html, extension: 'html' };
+}
+
+// ==================== DELIVERY ====================
+
+const slug = (value: string): string =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-zA-Z0-9]+/g, '-').replace(/^-|-$/g, '').toLowerCase() || 'reporte';
+
+const formatReportEmail = (
+  schedule: ReportScheduleRow,
+  range: ReportRange,
+  rowCount: number,
+  downloadUrl: string | null
+): string => `
+    <h2>📊 ${escapeHtml(schedule.name)}</h2>
+
+    <p>
+      <strong>Reporte:</strong> ${escapeHtml(REPORT_TYPE_LABELS[schedule.report_type])}<br>
+      <strong>Período:</strong> ${escapeHtml(range.label)}<br>
+      <strong>Contrato:</strong> ${escapeHtml(schedule.contract || 'Todos')}<br>
+      <strong>Registros:</strong> ${rowCount}
+    </p>
+
+    ${downloadUrl
+      ? `<p><a href="${escapeHtml(downloadUrl)}">Descargar reporte (${escapeHtml(REPORT_FORMAT_LABELS[schedule.format])})</a><br>
+      <span style="font-size: 12px; color: #666;">El enlace vence en ${REPORT_SCHEDULE_CONFIG.LINK_EXPIRY_DAYS} días.</span></p>`
+      : ''}
+
+    <hr style="margin-top: 30px;">
+    <p style="font-size: 12px; color: #666;">
+      Este mensaje fue generado automáticamente por Torre de Control.<br>
+      El reporte también está disponible en Torre de Control → Reportes.
+    </p>
+  `;
+
+/**
+ * Genera, archiva y encola el envío de una programación
+ */
+export async function runReportSchedule(
+  supabase: any,
+  schedule: ReportScheduleRow,
+  now: Date = new Date(),
+  options: ReportRenderOptions = {}
+): Promise<ReportRunResult> {
+  try {
+    const range = reportPeriodRange(schedule.period, now);
+    const rows = await loadReportRows(supabase, schedule, range);
+    const rendered = await renderReport(schedule, rows, range, now, {
+      ...options,
+      generatedBy: options.generatedBy || `Reporte programado${schedule.created_by ? ` de ${schedule.created_by}` : ''}`,
+    });
+
+    const filePath = `${schedule.contract ? slug(schedule.contract) : 'todos'}/${schedule.id}/${localDateKey(range.start)}_${now.getTime()}.${rendered.extension}`;
+    const file = new Blob([rendered.content], { type: rendered.contentType });
+
+    const { error: uploadError } = await supabase.storage
+      .from(REPORT_SCHEDULE_CONFIG.BUCKET)
+      .upload(filePath, file, { contentType: rendered.contentType, upsert: false });
+
+    if (uploadError) throw uploadError;
+
+    const recipients = (schedule.recipients || []).map(recipient => recipient.trim()).filter(Boolean);
+
+    const { data: report, error: insertError } = await supabase
+      .from('generated_reports')
+      .insert({
+        schedule_id: schedule.id,
+        name: schedule.name,
+        report_type: schedule.report_type,
+        contract: schedule.contract,
+        period_start: range.start.toISOString(),
+        period_end: range.end.toISOString(),
+        format: schedule.format,
+        file_path: filePath,
+        file_size: file.size,
+        row_count: rows.length,
+        recipients,
+        generated_at: now.toISOString(),
+      })
+      .select('id')
+      .single();
+
+    if (insertError) throw insertError;
+
+    let queued = 0;
+    if (recipients.length > 0) {
+      const { data: signed, error: signError } = await supabase.storage
+        .from(REPORT_SCHEDULE_CONFIG.BUCKET)
+        .createSignedUrl(filePath, REPORT_SCHEDULE_CONFIG.LINK_EXPIRY_DAYS * 24 * 60 * 60);
+
+      if (signError) console.error('[Reports] Error signing download link:', signError);
+
+      queued = await enqueueMessageNotification(
+        supabase,
+        {
+          key: `report-${report.id}`,
+          type: 'Reporte programado',
+          subject: `📊 ${schedule.name} · ${range.label}`,
+          message: formatReportEmail(schedule, range, rows.length, signed?.signedUrl ?? null),
+          contract: schedule.contract,
+        },
+        recipients.map(recipient => ({ channel: 'email' as const, recipient }))
+      );
+    }
+
+    return { scheduleId: schedule.id, success: true, reportId: report.id, rows: rows.length, queued };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : (error as any)?.message || String(error);
+    console.error(`[Reports] Error generating "${schedule.name}":`, message);
+    return { scheduleId: schedule.id, success: false, error: message };
+  }
+}
+
+/**
+ * Genera las programaciones activas cuya hora ya llegó
+ *
+ * - Cada una se toma moviendo next_run_at a la próxima ejecución con una
+ *   actualización condicional: si otra ejecución ya la tomó, se omite
+ * - Un reporte fallido no se reintenta hasta la próxima ejecución; queda en
+ *   last_status / last_error y se puede generar de nuevo desde la app
+ */
+export async function runDueReportSchedules(
+  supabase: any,
+  now: Date = new Date(),
+  options: ReportRenderOptions = {}
+): Promise<ReportSweepResult> {
+  const result: ReportSweepResult = { due: 0, generated: 0, failed: 0, queued: 0 };
+
+  const { data: due, error } = await supabase
+    .from('report_schedules')
+    .select('*')
+    .eq('is_active', true)
+    .lte('next_run_at', now.toISOString())
+    .order('next_run_at', { ascending: true })
+    .limit(REPORT_SCHEDULE_CONFIG.BATCH_SIZE);
+
+  if (error) throw error;
+
+  for (const schedule of (due || []) as ReportScheduleRow[]) {
+    const { data: claimed, error: claimError } = await supabase
+      .from('report_schedules')
+      .update({ next_run_at: computeNextRun(schedule, now).toISOString() })
+      .eq('id', schedule.id)
+      .eq('next_run_at', schedule.next_run_at)
+      .select('id');
+
+    if (claimError) {
+      console.error('[Reports] Error claiming schedule:', claimError);
+      continue;
+    }
+    if (!claimed || claimed.length === 0) continue; // Otra ejecución la tomó
+
+    result.due++;
+    const run = await runReportSchedule(supabase, schedule, now, options);
+
+    const { error: statusError } = await supabase
+      .from('report_schedules')
+      .update({
+        last_run_at: now.toISOString(),
+        last_status: run.success ? 'generated' : 'failed',
+        last_error: run.success ? null : (run.error || '').slice(0, 1000),
+      })
+      .eq('id', schedule.id);
+
+    if (statusError) console.error('[Reports] Error updating schedule status:', statusError);
+
+    if (run.success) {
+      result.generated++;
+      result.queued += run.queued || 0;
+    } else {
+      result.failed++;
+    }
+  }
+
+  return result;
+}
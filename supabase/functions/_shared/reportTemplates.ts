@@ -0,0 +1,633 @@
+/**
+ * Plantillas de los reportes (alertas, flota, inspecciones)
+ *
+ * Cada reporte se describe una sola vez (build*Report: indicadores, gráficos y
+ * columnas) y se convierte a HTML imprimible, PDF (_shared/reportPdf.ts) o CSV,
+ * sin acceso al DOM: el frontend los imprime o descarga (services/pdfService.ts)
+ * y el worker report-scheduler los genera sin navegador para los reportes
+ * programados (_shared/reportSchedules.ts).
+ *
+ * Compartido por el frontend y las funciones Deno.
+ */
+
+import { escapeHtml } from './notificationDispatch.ts';
+
+// =====================================================
+// Types
+// =====================================================
+
+export interface ReportConfig {
+    title: string;
+    subtitle?: string;
+    date?: Date;
+    logoUrl?: string;
+    companyName?: string;
+}
+
+/** Columna de la tabla de detalle (también define el CSV) */
+export interface TableColumn {
+    header: string;
+    key: string;
+    format?: (row: any) => string;
+    /** Ancho relativo en el PDF (1 por defecto) */
+    width?: number;
+    strong?: boolean;
+    /** Tono de la etiqueta (badge-*) */
+    badge?: (row: any) => string;
+}
+
+// Los reportes programados se generan en el servidor (UTC): las horas van en hora de Colombia
+const REPORT_LOCALE = 'es-CO';
+const REPORT_TIME_ZONE = 'America/Bogota';
+
+export const formatReportDateTime = (value: string | Date): string =>
+    new Date(value).toLocaleString(REPORT_LOCALE, { timeZone: REPORT_TIME_ZONE });
+
+export const formatReportTime = (value: string | Date): string =>
+    new Date(value).toLocaleTimeString(REPORT_LOCALE, { timeZone: REPORT_TIME_ZONE });
+
+export const formatReportDate = (value: string | Date): string =>
+    new Date(value).toLocaleDateString(REPORT_LOCALE, { timeZone: REPORT_TIME_ZONE });
+
+// =====================================================
+// HTML to PDF (Using browser print)
+// =====================================================
+
+export const generatePrintableHTML = (
+    config: ReportConfig,
+    content: string,
+    styles: string = ''
+): string => {
+    const date = config.date || new Date();
+
+    return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta charset="UTF-8">
+      <title>${config.title}</title>
+      <style>
+        * {
+          margin: 0;
+          padding: 0;
+          box-sizing: border-box;
+        }
+        
+        body {
+          font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+          padding: 40px;
+          color: #1e293b;
+          background: white;
+        }
+        
+        .header {
+          display: flex;
+          justify-content: space-between;
+          align-items: center;
+          padding-bottom: 20px;
+          border-bottom: 2px solid #3b82f6;
+          margin-bottom: 30px;
+        }
+        
+        .header-left {
+          display: flex;
+          align-items: center;
+          gap: 20px;
+        }
+        
+        .logo {
+          width: 80px;
+          height: 80px;
+          object-fit: contain;
+        }
+        
+        .company-info h1 {
+          font-size: 24px;
+          color: #1e40af;
+          margin-bottom: 4px;
+        }
+        
+        .company-info p {
+          font-size: 14px;
+          color: #64748b;
+        }
+        
+        .header-right {
+          text-align: right;
+        }
+        
+        .report-title {
+          font-size: 18px;
+          font-weight: 600;
+          color: #1e293b;
+        }
+        
+        .report-date {
+          font-size: 12px;
+          color: #64748b;
+          margin-top: 4px;
+        }
+        
+        .content {
+          margin-bottom: 40px;
+        }
+        
+        .section {
+          margin-bottom: 30px;
+        }
+        
+        .section-title {
+          font-size: 16px;
+          font-weight: 600;
+          color: #1e40af;
+          margin-bottom: 15px;
+          padding-bottom: 8px;
+          border-bottom: 1px solid #e2e8f0;
+        }
+        
+        table {
+          width: 100%;
+          border-collapse: collapse;
+          margin-bottom: 20px;
+        }
+        
+        th {
+          background: #3b82f6;
+          color: white;
+          padding: 10px 12px;
+          text-align: left;
+          font-size: 12px;
+          font-weight: 600;
+        }
+        
+        td {
+          padding: 10px 12px;
+          border-bottom: 1px solid #e2e8f0;
+          font-size: 12px;
+        }
+        
+        tr:nth-child(even) {
+          background: #f8fafc;
+        }
+        
+        .stat-grid {
+          display: grid;
+          grid-template-columns: repeat(4, 1fr);
+          gap: 15px;
+          margin-bottom: 30px;
+        }
+        
+        .stat-card {
+          background: #f8fafc;
+          border: 1px solid #e2e8f0;
+          border-radius: 8px;
+          padding: 15px;
+          text-align: center;
+        }
+        
+        .stat-value {
+          font-size: 24px;
+          font-weight: 700;
+          color: #1e40af;
+        }
+        
+        .stat-label {
+          font-size: 12px;
+          color: #64748b;
+          margin-top: 4px;
+        }
+        
+        .footer {
+          position: fixed;
+          bottom: 20px;
+          left: 40px;
+          right: 40px;
+          text-align: center;
+          font-size: 10px;
+          color: #94a3b8;
+          padding-top: 15px;
+          border-top: 1px solid #e2e8f0;
+        }
+        
+        .badge {
+          display: inline-block;
+          padding: 2px 8px;
+          border-radius: 9999px;
+          font-size: 10px;
+          font-weight: 500;
+        }
+        
+        .badge-critical { background: #fef2f2; color: #dc2626; }
+        .badge-high { background: #fff7ed; color: #ea580c; }
+        .badge-medium { background: #fffbeb; color: #d97706; }
+        .badge-low { background: #f0fdf4; color: #16a34a; }
+        
+        .badge-active { background: #f0fdf4; color: #16a34a; }
+        .badge-inactive { background: #fef2f2; color: #dc2626; }
+        
+        @media print {
+          body { padding: 20px; }
+          .no-print { display: none; }
+        }
+        
+        ${styles}
+      </style>
+    </head>
+    <body>
+      <div class="header">
+        <div class="header-left">
+          ${config.logoUrl ? `<img src="${config.logoUrl}" class="logo" alt="Logo"/>` : ''}
+          <div class="company-info">
+            <h1>${config.companyName || 'Torre de Control'}</h1>
+            <p>Sistema de Gestión de Flotas</p>
+          </div>
+        </div>
+        <div class="header-right">
+          <div class="report-title">${config.title}</div>
+          ${config.subtitle ? `<div class="report-date">${config.subtitle}</div>` : ''}
+          <div class="report-date">Generado: ${formatReportDate(date)} ${formatReportTime(date)}</div>
+        </div>
+      </div>
+      
+      <div class="content">
+        ${content}
+      </div>
+      
+      <div class="footer">
+        <p>Torre de Control - Sistema de Gestión de Flotas | Reporte generado automáticamente | Página 1</p>
+      </div>
+    </body>
+    </html>
+  `;
+};
+
+// =====================================================
+// Report Definitions
+// =====================================================
+
+/** Tono de una celda o barra: mismos colores en el HTML y en el PDF */
+export type ReportTone = 'critical' | 'high' | 'medium' | 'low' | 'active' | 'inactive' | 'neutral';
+
+export const REPORT_TONE_COLORS: Record<ReportTone, string> = {
+    critical: '#dc2626',
+    high: '#ea580c',
+    medium: '#d97706',
+    low: '#16a34a',
+    active: '#16a34a',
+    inactive: '#dc2626',
+    neutral: '#1e40af',
+};
+
+export interface ReportStat {
+    label: string;
+    value: string | number;
+    tone?: ReportTone;
+}
+
+export interface ReportChartDatum {
+    label: string;
+    value: number;
+    tone?: ReportTone;
+}
+
+/** Gráfico de barras horizontales */
+export interface ReportChart {
+    title: string;
+    data: ReportChartDatum[];
+}
+
+/**
+ * Contenido de un reporte, independiente del formato de salida:
+ * renderReportHtml lo imprime en el navegador, reportPdf.ts lo convierte en
+ * PDF y generateCsv exporta la tabla
+ */
+export interface ReportDefinition {
+    title: string;
+    subtitle?: string;
+    summaryTitle: string;
+    stats: ReportStat[];
+    charts: ReportChart[];
+    tableTitle: string;
+    columns: TableColumn[];
+    rows: any[];
+}
+
+export const cellText = (column: TableColumn, row: any): string => {
+    const value = column.format ? column.format(row) : row[column.key];
+    return value === null || value === undefined || value === '' ? '-' : String(value);
+};
+
+const percent = (part: number, total: number): number => (total > 0 ? Math.round(part / total * 100) : 0);
+
+/** Las categorías con más registros primero; el resto se agrupa en "Otros" */
+const countBy = (rows: any[], key: (row: any) => string, limit: number = 8): ReportChartDatum[] => {
+    const counts = new Map<string, number>();
+    rows.forEach(row => {
+        const label = key(row) || 'Sin dato';
+        counts.set(label, (counts.get(label) || 0) + 1);
+    });
+
+    const sorted = Array.from(counts.entries())
+        .map(([label, value]) => ({ label, value }))
+        .sort((a, b) => b.value - a.value);
+
+    if (sorted.length <= limit) return sorted;
+    const others = sorted.slice(limit - 1).reduce((acc, item) => acc + item.value, 0);
+    return [...sorted.slice(0, limit - 1), { label: 'Otros', value: others }];
+};
+
+const SEVERITY_LABELS: Record<string, string> = {
+    critical: 'Críticas',
+    high: 'Altas',
+    medium: 'Medias',
+    low: 'Bajas',
+};
+
+export const ALERT_REPORT_COLUMNS: TableColumn[] = [
+    { header: 'Fecha/Hora', key: 'timestamp', format: alert => formatReportDateTime(alert.timestamp), width: 1.3 },
+    { header: 'Placa', key: 'plate', strong: true, width: 0.8 },
+    { header: 'Tipo', key: 'type', width: 1.3 },
+    { header: 'Severidad', key: 'severity', badge: alert => alert.severity, width: 0.8 },
+    { header: 'Conductor', key: 'driver', width: 1.3 },
+    { header: 'Ubicación', key: 'location', width: 2 },
+    { header: 'Contrato', key: 'contract', width: 1.1 },
+    { header: 'Estado', key: 'status', format: alert => alert.status || 'pending', badge: alert => (alert.status === 'resolved' ? 'active' : 'inactive'), width: 0.8 },
+];
+
+export const FLEET_REPORT_COLUMNS: TableColumn[] = [
+    { header: 'Placa', key: 'plate', strong: true, width: 0.8 },
+    { header: 'Estado', key: 'status', width: 1 },
+    { header: 'Velocidad (km/h)', key: 'speed', width: 0.8 },
+    { header: 'Conductor', key: 'driver', width: 1.3 },
+    { header: 'Ubicación', key: 'location', width: 2 },
+    { header: 'Contrato', key: 'contract', width: 1.1 },
+    { header: 'Última Actualización', key: 'lastUpdate', format: v => formatReportDateTime(v.lastUpdate), width: 1.3 },
+];
+
+export const INSPECTION_REPORT_COLUMNS: TableColumn[] = [
+    { header: 'Fecha', key: 'inspection_date', width: 0.9 },
+    { header: 'Placa', key: 'plate', strong: true, width: 0.8 },
+    { header: 'Conductor', key: 'driver', width: 1.4 },
+    { header: 'Contrato', key: 'contract', width: 1.2 },
+    { header: 'Hora Inspección', key: 'inspection_datetime', format: i => (i.inspection_datetime ? formatReportTime(i.inspection_datetime) : ''), width: 0.9 },
+    { header: 'Hallazgos', key: 'findings_count', format: i => String(i.findings_count || 0), width: 0.7 },
+    { header: 'Estado', key: 'status', badge: i => (i.status === 'OK' ? 'active' : i.status?.includes('Fuera de tiempo') ? 'medium' : 'inactive'), width: 1.2 },
+];
+
+export const buildAlertReport = (alerts: any[]): ReportDefinition => {
+    const stats = {
+        total: alerts.length,
+        critical: alerts.filter(a => a.severity === 'critical').length,
+        high: alerts.filter(a => a.severity === 'high').length,
+        resolved: alerts.filter(a => a.status === 'resolved').length,
+    };
+
+    return {
+        title: 'Reporte de Alertas',
+        subtitle: `${stats.total} alertas en el período`,
+        summaryTitle: 'Resumen de Alertas',
+        stats: [
+            { label: 'Total Alertas', value: stats.total },
+            { label: 'Críticas', value: stats.critical, tone: 'critical' },
+            { label: 'Altas', value: stats.high, tone: 'high' },
+            { label: 'Resueltas', value: stats.resolved, tone: 'low' },
+        ],
+        charts: [
+            {
+                title: 'Alertas por Severidad',
+                data: (['critical', 'high', 'medium', 'low'] as const).map(severity => ({
+                    label: SEVERITY_LABELS[severity],
+                    value: alerts.filter(a => a.severity === severity).length,
+                    tone: severity,
+                })),
+            },
+            { title: 'Alertas por Tipo', data: countBy(alerts, a => a.type) },
+        ],
+        tableTitle: 'Detalle de Alertas',
+        columns: ALERT_REPORT_COLUMNS,
+        rows: alerts,
+    };
+};
+
+export const buildFleetReport = (vehicles: any[]): ReportDefinition => {
+    const stats = {
+        total: vehicles.length,
+        moving: vehicles.filter(v => v.status === 'En Movimiento').length,
+        idle: vehicles.filter(v => v.status === 'Encendido').length,
+        avgSpeed: vehicles.length > 0
+            ? Math.round(vehicles.reduce((acc, v) => acc + v.speed, 0) / vehicles.length)
+            : 0,
+    };
+
+    return {
+        title: 'Reporte de Flota',
+        subtitle: `${stats.total} vehículos monitoreados`,
+        summaryTitle: 'Estado de la Flota',
+        stats: [
+            { label: 'Total Vehículos', value: stats.total },
+            { label: 'En Movimiento', value: stats.moving, tone: 'low' },
+            { label: 'Encendidos (Idle)', value: stats.idle, tone: 'medium' },
+            { label: 'Velocidad Promedio', value: `${stats.avgSpeed} km/h` },
+        ],
+        charts: [
+            { title: 'Vehículos por Estado', data: countBy(vehicles, v => v.status) },
+            { title: 'Vehículos por Contrato', data: countBy(vehicles, v => v.contract) },
+        ],
+        tableTitle: 'Detalle de Vehículos',
+        columns: FLEET_REPORT_COLUMNS,
+        rows: vehicles,
+    };
+};
+
+export const buildInspectionReport = (inspections: any[]): ReportDefinition => {
+    const stats = {
+        total: inspections.length,
+        ok: inspections.filter(i => i.status === 'OK').length,
+        noInspection: inspections.filter(i => i.status?.includes('Sin inspección')).length,
+        late: inspections.filter(i => i.status?.includes('Fuera de tiempo')).length,
+    };
+
+    // Cumplimiento por contrato: porcentaje de vehículos con inspección OK
+    const contracts = countBy(inspections, i => i.contract, 10);
+
+    return {
+        title: 'Reporte de Inspecciones Preoperacionales',
+        subtitle: `Cumplimiento: ${percent(stats.ok, stats.total)}%`,
+        summaryTitle: 'Resumen de Inspecciones Preoperacionales',
+        stats: [
+            { label: 'Total Vehículos', value: stats.total },
+            { label: `OK (${percent(stats.ok, stats.total)}%)`, value: stats.ok, tone: 'low' },
+            { label: 'Sin Inspección', value: stats.noInspection, tone: 'critical' },
+            { label: 'Fuera de Tiempo', value: stats.late, tone: 'medium' },
+        ],
+        charts: [
+            {
+                title: 'Inspecciones por Estado',
+                data: [
+                    { label: 'OK', value: stats.ok, tone: 'low' },
+                    { label: 'Fuera de tiempo', value: stats.late, tone: 'medium' },
+                    { label: 'Sin inspección', value: stats.noInspection, tone: 'critical' },
+                    { label: 'Otros', value: stats.total - stats.ok - stats.late - stats.noInspection, tone: 'neutral' },
+                ].filter(item => item.value > 0),
+            },
+            {
+                title: 'Cumplimiento por Contrato (%)',
+                data: contracts.filter(item => item.label !== 'Otros').map(item => {
+                    const rows = inspections.filter(i => (i.contract || 'Sin dato') === item.label);
+                    return { label: item.label, value: percent(rows.filter(i => i.status === 'OK').length, rows.length) };
+                }),
+            },
+        ],
+        tableTitle: 'Detalle de Inspecciones',
+        columns: INSPECTION_REPORT_COLUMNS,
+        rows: inspections,
+    };
+};
+
+// =====================================================
+// HTML (impresión desde el navegador y reportes programados)
+// =====================================================
+
+const CHART_STYLES = `
+        .chart-grid {
+          display: grid;
+          grid-template-columns: repeat(2, 1fr);
+          gap: 15px;
+          margin-bottom: 30px;
+        }
+
+        .chart-card {
+          border: 1px solid #e2e8f0;
+          border-radius: 8px;
+          padding: 15px;
+        }
+
+        .chart-title {
+          font-size: 13px;
+          font-weight: 600;
+          color: #1e293b;
+          margin-bottom: 10px;
+        }
+
+        thead { display: table-header-group; }
+        tr { page-break-inside: avoid; }
+`;
+
+/** Barras horizontales en SVG (vectorial también al imprimir) */
+const renderChartSvg = (chart: ReportChart): string => {
+    const barHeight = 18;
+    const gap = 6;
+    const labelWidth = 140;
+    const width = 420;
+    const max = Math.max(1, ...chart.data.map(item => item.value));
+    const height = Math.max(1, chart.data.length) * (barHeight + gap);
+
+    const bars = chart.data.map((item, index) => {
+        const y = index * (barHeight + gap);
+        const barWidth = Math.max(1, (item.value / max) * (width - labelWidth - 40));
+        return `
+          <text x="${labelWidth - 6}" y="${y + 13}" font-size="11" text-anchor="end" fill="#475569">${escapeHtml(item.label)}</text>
+          <rect x="${labelWidth}" y="${y}" width="${barWidth}" height="${barHeight}" rx="3" fill="${REPORT_TONE_COLORS[item.tone || 'neutral']}"/>
+          <text x="${labelWidth + barWidth + 6}" y="${y + 13}" font-size="11" fill="#1e293b">${item.value}</text>`;
+    }).join('');
+
+    return `<svg viewBox="0 0 ${width} ${height}" width="100%" xmlns="http://www.w3.org/2000/svg">${bars}</svg>`;
+};
+
+const renderCellHtml = (column: TableColumn, row: any): string => {
+    const text = escapeHtml(cellText(column, row));
+    if (column.badge) return `<span class="badge badge-${escapeHtml(column.badge(row) || 'neutral')}">${text}</span>`;
+    return column.strong ? `<strong>${text}</strong>` : text;
+};
+
+export const renderReportHtml = (
+    definition: ReportDefinition,
+    config: Partial<ReportConfig> = {}
+): string => {
+    const charts = definition.charts.filter(chart => chart.data.length > 0);
+
+    const content = `
+    <div class="section">
+      <h2 class="section-title">${definition.summaryTitle}</h2>
+      <div class="stat-grid">
+        ${definition.stats.map(stat => `
+        <div class="stat-card">
+          <div class="stat-value"${stat.tone ? ` style="color: ${REPORT_TONE_COLORS[stat.tone]};"` : ''}>${escapeHtml(stat.value)}</div>
+          <div class="stat-label">${escapeHtml(stat.label)}</div>
+        </div>`).join('')}
+      </div>
+      ${charts.length > 0 ? `
+      <div class="chart-grid">
+        ${charts.map(chart => `
+        <div class="chart-card">
+          <div class="chart-title">${escapeHtml(chart.title)}</div>
+          ${renderChartSvg(chart)}
+        </div>`).join('')}
+      </div>` : ''}
+    </div>
+    
+    <div class="section">
+      <h2 class="section-title">${definition.tableTitle}</h2>
+      <table>
+        <thead>
+          <tr>
+            ${definition.columns.map(column => `<th>${escapeHtml(column.header)}</th>`).join('')}
+          </tr>
+        </thead>
+        <tbody>
+          ${definition.rows.map(row => `
+            <tr>
+              ${definition.columns.map(column => `<td>${renderCellHtml(column, row)}</td>`).join('')}
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    </div>
+  `;
+
+    return generatePrintableHTML(
+        {
+            title: definition.title,
+            subtitle: definition.subtitle,
+            ...config,
+        },
+        content,
+        CHART_STYLES
+    );
+};
+
+export const generateAlertReport = (
+    alerts: any[],
+    config: Partial<ReportConfig> = {}
+): string => renderReportHtml(buildAlertReport(alerts), config);
+
+export const generateFleetReport = (
+    vehicles: any[],
+    config: Partial<ReportConfig> = {}
+): string => renderReportHtml(buildFleetReport(vehicles), config);
+
+export const generateInspectionReport = (
+    inspections: any[],
+    config: Partial<ReportConfig> = {}
+): string => renderReportHtml(buildInspectionReport(inspections), config);
+
+// =====================================================
+// CSV (mismas columnas que las tablas de detalle)
+// =====================================================
+
+const csvCell = (value: unknown): string => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[";\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV separado por punto y coma (Excel en español usa la coma como separador decimal)
+ * Empieza con BOM para que Excel reconozca UTF-8 (tildes y ñ)
+ */
+export const generateCsv = (rows: any[], columns: TableColumn[]): string => {
+    const lines = [
+        columns.map(column => csvCell(column.header)).join(';'),
+        ...rows.map(row => columns.map(column => csvCell(column.format ? column.format(row) : row[column.key])).join(';')),
+    ];
+    return `\uFEFF${lines.join('\r\n')}\r\n`;
+};
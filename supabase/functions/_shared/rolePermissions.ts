@@ -0,0 +1,657 @@
+/**
+ * Modelo único de roles y permisos
+ *
+ * Un rol es una lista de permisos. Los roles del sistema (admin, supervisor,
+ * operator, viewer, client_viewer) se definen aquí; los roles personalizados
+ * se crean desde Gestión de Usuarios y viven en app_roles con el mismo formato.
+ * El rol de cada usuario está en user_profiles.role (no en user_metadata, que
+ * el propio usuario puede modificar).
+ *
+ * El frontend usa estos permisos para el menú, ProtectedRoute y los botones;
+ * la base de datos los aplica con has_permission() en políticas RLS que se
+ * generan desde TABLE_POLICIES (buildRlsPoliciesSql), así ambos lados leen
+ * la misma definición.
+ *
+ * Alcance por contrato: los usuarios sin CONTRACT_ALL (clientes) solo ven
+ * las filas de los contratos asignados en user_profiles.contracts. Las
+ * políticas lo aplican con can_access_contract() / can_access_plate()
+ * (contract_scope.sql) y /api filtra el feed de flota con el mismo criterio.
+ *
+ * Compartido por el frontend (permisos y generador) y las funciones Deno.
+ */
+
+// ==================== PERMISSIONS ====================
+
+export enum Permission {
+  // Usuarios
+  USER_VIEW = 'user:view',
+  USER_CREATE = 'user:create',
+  USER_EDIT = 'user:edit',
+  USER_DELETE = 'user:delete',
+  ROLE_MANAGE = 'role:manage',
+
+  // Alertas
+  ALERT_VIEW = 'alert:view',
+  ALERT_CREATE = 'alert:create',
+  ALERT_EDIT = 'alert:edit',
+  ALERT_DELETE = 'alert:delete',
+  ALERT_EXPORT = 'alert:export',
+
+  // Flota
+  FLEET_VIEW = 'fleet:view',
+  FLEET_EDIT = 'fleet:edit',
+  // Sin este permiso el usuario solo ve sus contratos asignados
+  CONTRACT_ALL = 'contract:all',
+
+  // Gestión (conductores, geocercas, inspecciones, cronogramas, mantenimiento)
+  MANAGEMENT_VIEW = 'management:view',
+
+  // Auto-Guardadas
+  SAVED_ALERTS_VIEW = 'saved_alerts:view',
+  SAVED_ALERTS_EXPORT = 'saved_alerts:export',
+
+  // Historial
+  HISTORY_VIEW = 'history:view',
+  HISTORY_CREATE = 'history:create',
+  HISTORY_EDIT = 'history:edit',
+  HISTORY_DELETE = 'history:delete',
+
+  // Analytics
+  ANALYTICS_VIEW = 'analytics:view',
+
+  // Reportes programados
+  REPORT_VIEW = 'report:view',
+  REPORT_MANAGE = 'report:manage',
+
+  // Configuración
+  CONFIG_VIEW = 'config:view',
+  CONFIG_EDIT = 'config:edit',
+
+  // Auditoría
+  AUDIT_VIEW = 'audit:view',
+}
+
+export const ALL_PERMISSIONS: Permission[] = Object.values(Permission) as Permission[];
+
+/** Grupos para el editor de roles */
+export const PERMISSION_GROUPS: { label: string; permissions: { permission: Permission; label: string }[] }[] = [
+  {
+    label: 'Usuarios',
+    permissions: [
+      { permission: Permission.USER_VIEW, label: 'Ver usuarios' },
+      { permission: Permission.USER_CREATE, label: 'Crear usuarios' },
+      { permission: Permission.USER_EDIT, label: 'Editar usuarios y asignar roles' },
+      { permission: Permission.USER_DELETE, label: 'Desactivar usuarios' },
+      { permission: Permission.ROLE_MANAGE, label: 'Administrar roles' },
+    ],
+  },
+  {
+    label: 'Alertas',
+    permissions: [
+      { permission: Permission.ALERT_VIEW, label: 'Ver alertas en vivo' },
+      { permission: Permission.ALERT_CREATE, label: 'Publicar y guardar alertas detectadas' },
+      { permission: Permission.ALERT_EDIT, label: 'Atender, confirmar y reportar' },
+      { permission: Permission.ALERT_DELETE, label: 'Eliminar alertas' },
+      { permission: Permission.ALERT_EXPORT, label: 'Exportar alertas' },
+      { permission: Permission.SAVED_ALERTS_VIEW, label: 'Ver auto-guardadas' },
+      { permission: Permission.SAVED_ALERTS_EXPORT, label: 'Exportar auto-guardadas' },
+    ],
+  },
+  {
+    label: 'Historial',
+    permissions: [
+      { permission: Permission.HISTORY_VIEW, label: 'Ver historial y SLA' },
+      { permission: Permission.HISTORY_CREATE, label: 'Enviar a seguimiento' },
+      { permission: Permission.HISTORY_EDIT, label: 'Asignar, cambiar estado y planes de acción' },
+      { permission: Permission.HISTORY_DELETE, label: 'Limpiar historial' },
+    ],
+  },
+  {
+    label: 'Flota y gestión',
+    permissions: [
+      { permission: Permission.FLEET_VIEW, label: 'Ver flota y mapa' },
+      { permission: Permission.CONTRACT_ALL, label: 'Ver todos los contratos (sin esto, solo los asignados al usuario)' },
+      { permission: Permission.MANAGEMENT_VIEW, label: 'Ver conductores, geocercas, inspecciones y cronogramas' },
+      { permission: Permission.FLEET_EDIT, label: 'Editar conductores, geocercas, inspecciones y cronogramas' },
+      { permission: Permission.ANALYTICS_VIEW, label: 'Ver análisis' },
+    ],
+  },
+  {
+    label: 'Reportes',
+    permissions: [
+      { permission: Permission.REPORT_VIEW, label: 'Ver y descargar reportes generados' },
+      { permission: Permission.REPORT_MANAGE, label: 'Programar reportes y destinatarios' },
+    ],
+  },
+  {
+    label: 'Configuración',
+    permissions: [
+      { permission: Permission.CONFIG_VIEW, label: 'Ver reglas, escalamiento y notificaciones' },
+      { permission: Permission.CONFIG_EDIT, label: 'Editar reglas, escalamiento, SLA y notificaciones' },
+      { permission: Permission.AUDIT_VIEW, label: 'Ver auditoría' },
+    ],
+  },
+];
+
+// ==================== ROLES ====================
+
+export type BuiltinRole = 'admin' | 'supervisor' | 'operator' | 'viewer' | 'client_viewer';
+
+/** Clave de rol: uno del sistema o uno personalizado de app_roles */
+export type RoleKey = BuiltinRole | (string & {});
+
+/** Fila de app_roles */
+export interface RoleDefinition {
+  key: RoleKey;
+  name: string;
+  description?: string | null;
+  permissions: Permission[];
+  is_system: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+/** Rol que reciben los usuarios nuevos y los perfiles sin rol válido */
+export const DEFAULT_ROLE: BuiltinRole = 'operator';
+
+const VIEW_PERMISSIONS: Permission[] = [
+  Permission.ALERT_VIEW,
+  Permission.ALERT_EXPORT,
+  Permission.FLEET_VIEW,
+  Permission.CONTRACT_ALL,
+  Permission.MANAGEMENT_VIEW,
+  Permission.SAVED_ALERTS_VIEW,
+  Permission.SAVED_ALERTS_EXPORT,
+  Permission.HISTORY_VIEW,
+  Permission.ANALYTICS_VIEW,
+  Permission.REPORT_VIEW,
+  Permission.CONFIG_VIEW,
+];
+
+const OPERATOR_PERMISSIONS: Permission[] = [
+  ...VIEW_PERMISSIONS,
+  Permission.ALERT_CREATE,
+  Permission.ALERT_EDIT,
+  Permission.FLEET_EDIT,
+  Permission.HISTORY_CREATE,
+  Permission.HISTORY_EDIT,
+];
+
+export const BUILTIN_ROLES: RoleDefinition[] = [
+  {
+    key: 'admin',
+    name: 'Administrador',
+    description: 'Control total',
+    permissions: ALL_PERMISSIONS,
+    is_system: true,
+  },
+  {
+    key: 'supervisor',
+    name: 'Supervisor',
+    description: 'Opera la torre y ajusta reglas, escalamiento y SLA',
+    permissions: [
+      ...OPERATOR_PERMISSIONS,
+      Permission.USER_VIEW,
+      Permission.CONFIG_EDIT,
+      Permission.REPORT_MANAGE,
+      Permission.AUDIT_VIEW,
+    ],
+    is_system: true,
+  },
+  {
+    key: 'operator',
+    name: 'Operador',
+    description: 'Atiende alertas y hace seguimiento',
+    permissions: OPERATOR_PERMISSIONS,
+    is_system: true,
+  },
+  {
+    key: 'viewer',
+    name: 'Visor',
+    description: 'Solo lectura',
+    permissions: VIEW_PERMISSIONS,
+    is_system: true,
+  },
+  {
+    key: 'client_viewer',
+    name: 'Cliente (visor)',
+    description: 'Consulta de flota, alertas e historial de sus contratos',
+    permissions: [
+      Permission.FLEET_VIEW,
+      Permission.ALERT_VIEW,
+      Permission.ALERT_EXPORT,
+      Permission.HISTORY_VIEW,
+      Permission.ANALYTICS_VIEW,
+      Permission.REPORT_VIEW,
+    ],
+    is_system: true,
+  },
+];
+
+/**
+ * Completa los roles cargados de app_roles con los del sistema
+ * (los del código ganan, así un permiso nuevo aplica antes de regenerar el SQL)
+ */
+export function mergeRoleDefinitions(stored: RoleDefinition[] = []): RoleDefinition[] {
+  const custom = stored.filter(role => !BUILTIN_ROLES.some(builtin => builtin.key === role.key));
+  return [...BUILTIN_ROLES, ...custom];
+}
+
+export function findRole(roleKey: RoleKey | null | undefined, roles: RoleDefinition[] = BUILTIN_ROLES): RoleDefinition | undefined {
+  if (!roleKey) return undefined;
+  return roles.find(role => role.key === roleKey) || BUILTIN_ROLES.find(role => role.key === roleKey);
+}
+
+/** Permisos de un rol; un rol desconocido no tiene ninguno */
+export function resolveRolePermissions(roleKey: RoleKey | null | undefined, roles: RoleDefinition[] = BUILTIN_ROLES): Permission[] {
+  return findRole(roleKey, roles)?.permissions || [];
+}
+
+export function roleHasPermission(
+  roleKey: RoleKey | null | undefined,
+  permission: Permission,
+  roles: RoleDefinition[] = BUILTIN_ROLES
+): boolean {
+  return resolveRolePermissions(roleKey, roles).includes(permission);
+}
+
+/** Las claves de rol van en SQL y en user_profiles: minúsculas, números y guion bajo */
+export function isValidRoleKey(key: string): boolean {
+  return /^[a-z][a-z0-9_]{1,49}$/.test(key);
+}
+
+// ==================== RLS ====================
+
+/** Cualquier usuario autenticado (sin permiso específico) */
+export const ANY_AUTHENTICATED = 'authenticated';
+
+type PolicyRule = Permission | typeof ANY_AUTHENTICATED | null;
+
+/**
+ * Permiso requerido por operación en una tabla; null = sin política
+ * (solo el service role del worker y de /api puede hacerlo)
+ */
+export interface TablePolicy {
+  table: string;
+  select: PolicyRule;
+  insert: PolicyRule;
+  update: PolicyRule;
+  delete: PolicyRule;
+  /**
+   * Condición SQL de alcance por contrato que se suma a todas las operaciones
+   * (ver byContract / byPlate / byParent)
+   */
+  contractScope?: string;
+  /** Políticas anteriores que se eliminan para que no se sumen a las nuevas */
+  legacyPolicies?: string[];
+}
+
+const openPolicy = (table: string) => `Enable all access for ${table}`;
+
+/** Filas con columna de contrato */
+const byContract = (column = 'contract') => `public.can_access_contract(${column})`;
+
+/** Filas sin contrato: se resuelve por la placa (vehicle_engine_states) */
+const byPlate = (column = 'plate') => `public.can_access_plate(${column})`;
+
+/** Filas hijas: hereda el contrato de la fila padre */
+const byParent = (table: string, parent: string, foreignKey: string) =>
+  `EXISTS (SELECT 1 FROM ${parent} p WHERE p.id = ${table}.${foreignKey} AND ${byContract('p.contract')})`;
+
+export const TABLE_POLICIES: TablePolicy[] = [
+  // Usuarios y roles
+  {
+    table: 'user_profiles',
+    select: ANY_AUTHENTICATED,
+    insert: Permission.USER_CREATE,
+    update: Permission.USER_EDIT,
+    delete: Permission.USER_DELETE,
+    legacyPolicies: [
+      'Users can view all profiles',
+      'Only admins can insert profiles',
+      'Only admins can update profiles',
+      'Only admins can delete profiles',
+    ],
+  },
+  {
+    table: 'app_roles',
+    select: ANY_AUTHENTICATED,
+    insert: Permission.ROLE_MANAGE,
+    update: Permission.ROLE_MANAGE,
+    delete: Permission.ROLE_MANAGE,
+  },
+
+  // Alertas
+  {
+    table: 'live_alerts',
+    // Las consolas con permiso de guardar publican lo que detectan; atender y purgar requiere editar
+    select: Permission.ALERT_VIEW,
+    insert: Permission.ALERT_CREATE,
+    update: Permission.ALERT_EDIT,
+    delete: Permission.ALERT_EDIT,
+    contractScope: byContract(),
+    legacyPolicies: [openPolicy('live_alerts')],
+  },
+  {
+    table: 'saved_alerts',
+    // autoSaveAlert corre en las consolas con permiso de guardar y actualiza el episodio abierto
+    select: Permission.ALERT_VIEW,
+    insert: Permission.ALERT_CREATE,
+    update: Permission.ALERT_CREATE,
+    delete: Permission.ALERT_DELETE,
+    contractScope: byContract(),
+    legacyPolicies: [
+      openPolicy('saved_alerts'),
+      'Authenticated users can read saved_alerts',
+      'Operators can insert saved_alerts',
+      'Operators can update saved_alerts',
+      'Admins can delete saved_alerts',
+    ],
+  },
+  {
+    table: 'alert_history',
+    select: Permission.HISTORY_VIEW,
+    insert: Permission.HISTORY_CREATE,
+    update: Permission.HISTORY_EDIT,
+    delete: Permission.HISTORY_DELETE,
+    contractScope: byContract(),
+    legacyPolicies: [
+      openPolicy('alert_history'),
+      'Authenticated users can read alert_history',
+      'Operators can insert alert_history',
+      'Operators can update alert_history',
+      'Admins can delete alert_history',
+    ],
+  },
+  {
+    table: 'action_plans',
+    select: Permission.HISTORY_VIEW,
+    insert: Permission.HISTORY_EDIT,
+    update: Permission.HISTORY_EDIT,
+    delete: Permission.HISTORY_DELETE,
+    contractScope: byParent('action_plans', 'alert_history', 'alert_history_id'),
+    legacyPolicies: [
+      openPolicy('action_plans'),
+      'Authenticated users can read action_plans',
+      'Operators can insert action_plans',
+      'Operators can update action_plans',
+      'Admins can delete action_plans',
+    ],
+  },
+  {
+    table: 'alert_escalations',
+    select: Permission.ALERT_VIEW,
+    insert: null,
+    update: Permission.ALERT_EDIT,
+    delete: null,
+    contractScope: byContract(),
+    legacyPolicies: [openPolicy('alert_escalations')],
+  },
+  {
+    table: 'alert_escalation_steps',
+    select: Permission.ALERT_VIEW,
+    insert: null,
+    update: null,
+    delete: null,
+    contractScope: byParent('alert_escalation_steps', 'alert_escalations', 'escalation_id'),
+    legacyPolicies: [openPolicy('alert_escalation_steps')],
+  },
+
+  // Configuración
+  {
+    table: 'alert_rules',
+    // Todas las consolas detectan con las reglas vigentes
+    select: Permission.ALERT_VIEW,
+    insert: Permission.CONFIG_EDIT,
+    update: Permission.CONFIG_EDIT,
+    delete: Permission.CONFIG_EDIT,
+    legacyPolicies: [openPolicy('alert_rules')],
+  },
+  {
+    table: 'alert_sla_targets',
+    select: Permission.HISTORY_VIEW,
+    insert: Permission.CONFIG_EDIT,
+    update: Permission.CONFIG_EDIT,
+    delete: Permission.CONFIG_EDIT,
+    legacyPolicies: [openPolicy('alert_sla_targets')],
+  },
+  {
+    table: 'escalation_policies',
+    select: Permission.CONFIG_VIEW,
+    insert: Permission.CONFIG_EDIT,
+    update: Permission.CONFIG_EDIT,
+    delete: Permission.CONFIG_EDIT,
+    legacyPolicies: [openPolicy('escalation_policies')],
+  },
+  {
+    table: 'on_call_roster',
+    select: Permission.CONFIG_VIEW,
+    insert: Permission.CONFIG_EDIT,
+    update: Permission.CONFIG_EDIT,
+    delete: Permission.CONFIG_EDIT,
+    legacyPolicies: [openPolicy('on_call_roster')],
+  },
+  {
+    table: 'notification_settings',
+    select: Permission.CONFIG_VIEW,
+    insert: Permission.CONFIG_EDIT,
+    update: Permission.CONFIG_EDIT,
+    delete: Permission.CONFIG_EDIT,
+    legacyPolicies: [openPolicy('notification_settings')],
+  },
+  {
+    table: 'notification_deliveries',
+    select: Permission.CONFIG_VIEW,
+    insert: null,
+    update: null,
+    delete: null,
+    legacyPolicies: [openPolicy('notification_deliveries')],
+  },
+
+  // Reportes programados: el archivo lo escribe el worker report-scheduler
+  {
+    table: 'report_schedules',
+    select: Permission.REPORT_VIEW,
+    insert: Permission.REPORT_MANAGE,
+    update: Permission.REPORT_MANAGE,
+    delete: Permission.REPORT_MANAGE,
+    contractScope: byContract(),
+  },
+  {
+    table: 'generated_reports',
+    select: Permission.REPORT_VIEW,
+    insert: null,
+    update: null,
+    delete: Permission.REPORT_MANAGE,
+    contractScope: byContract(),
+  },
+
+  // Puntaje de conducción: lo calcula el worker driver-scoring
+  {
+    table: 'driver_scores',
+    select: Permission.ANALYTICS_VIEW,
+    insert: null,
+    update: null,
+    delete: null,
+    contractScope: byContract(),
+  },
+
+  // Gestión
+  // Conductores y geocercas son configuración compartida; cronogramas e
+  // inspecciones son datos operativos de cada contrato
+  ...['drivers', 'geofences', 'route_schedules', 'preoperational_inspections'].map(table => ({
+    table,
+    select: Permission.MANAGEMENT_VIEW,
+    insert: Permission.FLEET_EDIT,
+    update: Permission.FLEET_EDIT,
+    delete: Permission.FLEET_EDIT,
+    contractScope: table === 'route_schedules' || table === 'preoperational_inspections' ? byContract() : undefined,
+    legacyPolicies: [
+      openPolicy(table),
+      `Authenticated users can read ${table === 'preoperational_inspections' ? 'inspections' : table}`,
+      `Admins can manage ${table}`,
+      `Operators can manage ${table === 'preoperational_inspections' ? 'inspections' : table}`,
+    ],
+  })),
+  {
+    table: 'driver_name_aliases',
+    // Los nombres nuevos los registra el trigger link_driver_id; la revisión los vincula o ignora
+    select: Permission.MANAGEMENT_VIEW,
+    insert: null,
+    update: Permission.FLEET_EDIT,
+    delete: null,
+  },
+  {
+    table: 'driver_documents',
+    // Licencias, certificados médicos y cursos; los avisos los marca el worker driver-compliance
+    select: Permission.MANAGEMENT_VIEW,
+    insert: Permission.FLEET_EDIT,
+    update: Permission.FLEET_EDIT,
+    delete: Permission.FLEET_EDIT,
+  },
+
+  // Telemetría
+  {
+    table: 'vehicle_positions',
+    // Las consolas registran el recorrido que reciben (recordVehiclePositions)
+    select: Permission.FLEET_VIEW,
+    insert: Permission.FLEET_VIEW,
+    update: null,
+    delete: null,
+    contractScope: byContract(),
+    legacyPolicies: [openPolicy('vehicle_positions')],
+  },
+  {
+    table: 'fleet_vehicle_updates',
+    // Cambios de la flota que escribe la ingesta del snapshot; las consolas los reciben por Realtime
+    select: Permission.FLEET_VIEW,
+    insert: null,
+    update: null,
+    delete: null,
+    contractScope: byContract(),
+  },
+  {
+    table: 'alert_rule_durations',
+    // Estado interno del worker alert-monitor (inicio de las condiciones con duración mínima)
+    select: null,
+    insert: null,
+    update: null,
+    delete: null,
+  },
+  {
+    table: 'vehicle_fuel_states',
+    // Estado interno del worker alert-monitor (última lectura de combustible)
+    select: null,
+    insert: null,
+    update: null,
+    delete: null,
+  },
+  // Geocercas: las evalúan la consola y el worker (evaluateFleetGeofences); la consola
+  // registra entradas/salidas y el estado dentro/fuera de los vehículos de sus contratos
+  // El resto lo escribe el worker con service role
+  ...['vehicle_engine_states', 'vehicle_ignition_events', 'idle_time_records', 'geofence_events', 'geofence_vehicle_states'].map(table => ({
+    table,
+    select: Permission.FLEET_VIEW,
+    insert: table === 'geofence_events' || table === 'geofence_vehicle_states' ? Permission.FLEET_VIEW : null,
+    update: table === 'geofence_vehicle_states' ? Permission.FLEET_VIEW : null,
+    delete: null,
+    contractScope: table === 'vehicle_engine_states' || table === 'idle_time_records'
+      ? byContract()
+      : byPlate(table === 'vehicle_ignition_events' ? 'plate' : 'vehicle_plate'),
+    legacyPolicies: [
+      openPolicy(table),
+      `Authenticated users can read ${table === 'vehicle_ignition_events' ? 'ignition_events' : table}`,
+      `System can insert ${table === 'vehicle_ignition_events' ? 'ignition_events' : table}`,
+    ],
+  })),
+];
+
+const POLICY_COMMANDS: { key: 'select' | 'insert' | 'update' | 'delete'; command: string; label: string }[] = [
+  { key: 'select', command: 'SELECT', label: 'lectura' },
+  { key: 'insert', command: 'INSERT', label: 'inserción' },
+  { key: 'update', command: 'UPDATE', label: 'actualización' },
+  { key: 'delete', command: 'DELETE', label: 'eliminación' },
+];
+
+const sqlString = (value: string) => `'${value.replace(/'/g, "''")}'`;
+
+/** Nombre de la política generada para una tabla y operación */
+export const policyName = (table: string, label: string) => `Permiso ${label} ${table}`;
+
+/**
+ * Genera el script SQL de roles del sistema y políticas RLS
+ * Los roles personalizados no se tocan: ya están en app_roles y has_permission()
+ * los lee en cada consulta, así que no hace falta regenerar al editarlos.
+ */
+export function buildRlsPoliciesSql(
+  roles: RoleDefinition[] = BUILTIN_ROLES,
+  tables: TablePolicy[] = TABLE_POLICIES
+): string {
+  const lines: string[] = [
+    '-- =====================================================',
+    '-- ROLES DEL SISTEMA Y POLÍTICAS RLS POR PERMISO',
+    '-- Ejecutar en Supabase SQL Editor DESPUÉS de role_permissions.sql y contract_scope.sql',
+    '-- =====================================================',
+    '',
+    '-- ⚠️ GENERADO desde supabase/functions/_shared/rolePermissions.ts',
+    '-- (Gestión de Usuarios → Roles y permisos → SQL de políticas).',
+    '-- No editar a mano: cambiar la definición y volver a generar.',
+    '',
+    '-- 1. Roles del sistema',
+    'INSERT INTO app_roles (key, name, description, permissions, is_system) VALUES',
+    roles
+      .map(role => {
+        const permissions = role.permissions.map(sqlString).join(', ');
+        return `  (${sqlString(role.key)}, ${sqlString(role.name)}, ${role.description ? sqlString(role.description) : 'NULL'}, ARRAY[${permissions}]::TEXT[], ${role.is_system})`;
+      })
+      .join(',\n'),
+    'ON CONFLICT (key) DO UPDATE SET',
+    '  name = EXCLUDED.name,',
+    '  description = EXCLUDED.description,',
+    '  permissions = EXCLUDED.permissions,',
+    '  is_system = EXCLUDED.is_system;',
+  ];
+
+  tables.forEach((policy, index) => {
+    lines.push('', `-- ${index + 2}. ${policy.table}`, `ALTER TABLE ${policy.table} ENABLE ROW LEVEL SECURITY;`);
+
+    for (const legacy of policy.legacyPolicies || []) {
+      lines.push(`DROP POLICY IF EXISTS ${JSON.stringify(legacy)} ON ${policy.table};`);
+    }
+
+    for (const { key, command, label } of POLICY_COMMANDS) {
+      const name = JSON.stringify(policyName(policy.table, label));
+      lines.push(`DROP POLICY IF EXISTS ${name} ON ${policy.table};`);
+
+      const rule = policy[key];
+      if (!rule) continue;
+
+      const permission = rule === ANY_AUTHENTICATED ? 'true' : `public.has_permission(${sqlString(rule)})`;
+      const condition = policy.contractScope ? `${permission} AND ${policy.contractScope}` : permission;
+      const clause = command === 'INSERT'
+        ? `WITH CHECK (${condition})`
+        : command === 'UPDATE'
+          ? `USING (${condition}) WITH CHECK (${condition})`
+          : `USING (${condition})`;
+
+      lines.push(`CREATE POLICY ${name} ON ${policy.table}`, `  FOR ${command} TO authenticated ${clause};`);
+    }
+  });
+
+  lines.push(
+    '',
+    '-- =====================================================',
+    '-- VERIFICACIÓN',
+    '-- =====================================================',
+    '',
+    'SELECT key, name, array_length(permissions, 1) AS permissions FROM app_roles ORDER BY is_system DESC, key;',
+    '',
+    'SELECT tablename, policyname, cmd, qual',
+    'FROM pg_policies',
+    "WHERE schemaname = 'public'",
+    'ORDER BY tablename, policyname;',
+    ''
+  );
+
+  return lines.join('\n');
+}
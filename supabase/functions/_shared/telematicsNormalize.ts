@@ -0,0 +1,174 @@
+/**
+ * Normalización de los registros de los proveedores GPS
+ *
+ * Convierte los registros crudos de Coltrack y Fagor (los que devuelven
+ * /api/coltrack, /api/fagor y el snapshot de /api/fleet) en el Vehicle que
+ * evalúan las reglas de alertas. Lo usan los proveedores del frontend
+ * (services/telematics), la ingesta del snapshot y el worker alert-monitor,
+ * así que la consola y el worker evalúan exactamente la misma lectura.
+ *
+ * No importa nada fuera de supabase/functions/_shared (debe poder desplegarse
+ * con las Edge Functions).
+ */
+
+import { parseDeviceTimestamp } from './communicationHealth.ts';
+import { fleetVehicleKey } from './fleetUpdates.ts';
+
+// ==================== TYPES ====================
+
+/** Registro crudo de Coltrack (campos en MAYÚSCULAS, con variantes capitalizadas) */
+export type ColtrackRecord = Record<string, any>;
+
+/** Registro crudo de Fagor (FlotasNet), ya convertido de XML por /api/fagor */
+export interface FagorRecord {
+  Matricula: string;
+  Codigo?: string;
+  Conductor?: string;
+  Remolque?: string;
+  EstadoUsuario?: string;
+  Estado?: string;
+  Localidad?: string;
+  Latitud?: string;
+  Longitud?: string;
+  UltimaPosicion?: string;
+  Velocidad?: string;
+  Kilometros?: string;
+  TiempoEstado?: string;
+  Sensores?: string;
+  Rumbo?: string;
+  [key: string]: any;
+}
+
+/** Mismos valores que VehicleStatus en types.ts */
+export type NormalizedVehicleStatus = typeof VEHICLE_STATUS[keyof typeof VEHICLE_STATUS];
+
+/** Vehículo normalizado (mismos campos que Vehicle en types.ts) */
+export interface NormalizedVehicle {
+  id: string;
+  plate: string;
+  source: string;
+  latitude: number;
+  longitude: number;
+  speed: number;
+  status: NormalizedVehicleStatus;
+  driver: string;
+  fuelLevel: number;
+  lastUpdate: string;
+  lastUpdateEstimated?: boolean;
+  location: string;
+  odometer: number;
+  contract?: string;
+  vehicleType?: string;
+  event?: string;
+  ignition?: boolean;
+}
+
+// ==================== CONFIGURATION ====================
+
+export const TELEMATICS_SOURCES = {
+  COLTRACK: 'COLTRACK',
+  FAGOR: 'FAGOR',
+} as const;
+
+export const VEHICLE_STATUS = {
+  MOVING: 'En Movimiento',
+  STOPPED: 'Detenido',
+  IDLE: 'Encendido',
+  OFF: 'Apagado',
+} as const;
+
+// ==================== STATUS ====================
+
+/**
+ * Determina el estado del vehículo a partir de velocidad, ignición y texto del evento
+ */
+export const determineStatus = (speed: number, isIgnitionOn: boolean, eventText: string = ''): NormalizedVehicleStatus => {
+  if (speed > 0) return VEHICLE_STATUS.MOVING;
+  // Fagor specific strings often contain these keywords
+  if (eventText.includes('Arranque') || eventText.includes('Inicio ralenti') || eventText.includes('ON')) return VEHICLE_STATUS.IDLE;
+  if (eventText.includes('Parada') || eventText.includes('Fin ralenti') || eventText.includes('OFF')) return VEHICLE_STATUS.OFF;
+
+  // Fallback
+  return isIgnitionOn ? VEHICLE_STATUS.IDLE : VEHICLE_STATUS.STOPPED;
+};
+
+// ==================== COLTRACK ====================
+
+/**
+ * Convierte un registro de Coltrack en vehículo
+ * El id es proveedor + placa: no depende de la posición del registro en el feed,
+ * que cambia con el orden de la respuesta y con el filtro por contratos
+ */
+export function normalizeColtrackRecord(record: ColtrackRecord): NormalizedVehicle {
+  const speed = parseFloat(record.VELOCIDAD || record.Velocidad || record.velocidad || '0');
+  const ignicionField = record.IGNICION ?? record.Ignicion;
+  const ignicion = ignicionField === 'ON' || ignicionField === '1' || ignicionField === true;
+  const status = determineStatus(speed, ignicion);
+  const reportedAt = parseDeviceTimestamp(record.FECHA_GPS || record.FECHA_HORA || record.FECHA || record.Fecha);
+
+  const plate = record.PLACA || record.Placa || record.PATENTE || record.patente || 'UNKNOWN';
+  const driver = record.CONDUCTOR || record.Conductor || record.conductor || 'Sin Asignar';
+
+  // Buscar en este orden: Contrato > Grupo > Cliente
+  const contract = record.CONTRATO || record.Contrato ||
+    record.GRUPO || record.Grupo ||
+    record.CLIENTE || record.Cliente ||
+    'No asignado';
+
+  return {
+    id: fleetVehicleKey({ source: TELEMATICS_SOURCES.COLTRACK, plate }),
+    plate: plate,
+    source: TELEMATICS_SOURCES.COLTRACK,
+    latitude: parseFloat(record.LATITUD || record.Latitud || record.latitud || '0'),
+    longitude: parseFloat(record.LONGITUD || record.Longitud || record.longitud || '0'),
+    speed: speed,
+    status: status,
+    driver: driver,
+    fuelLevel: parseInt(record.COMBUSTIBLE || record.Combustible || '0', 10),
+    lastUpdate: reportedAt || new Date().toISOString(),
+    lastUpdateEstimated: !reportedAt,
+    location: record.CIUDAD || record.Ciudad || record.Ubicacion || record.DIRECCION || 'Desconocido',
+    odometer: parseFloat(record.ODOMETRO || record.Odometro || '0'),
+    contract: contract,
+    event: record.EVENTO || record.Evento || '',
+    ignition: ignicionField !== undefined ? ignicion : undefined,
+    vehicleType: record.TIPO || record.Tipo || record.TipoVehiculo || ''
+  };
+}
+
+// ==================== FAGOR ====================
+
+/**
+ * Convierte un registro de Fagor en vehículo
+ */
+export function normalizeFagorRecord(record: FagorRecord): NormalizedVehicle {
+  const plate = record.Matricula || 'UNKNOWN';
+  const speed = parseInt(record.Velocidad || '0', 10);
+  const status = determineStatus(speed, false, record.Estado);
+  // UltimaPosicion: hora del último reporte del equipo (hora de Colombia)
+  const reportedAt = parseDeviceTimestamp(record.UltimaPosicion);
+
+  // Buscar en este orden: Contrato > Cliente
+  const contract = record.CONTRATO || record.Contrato ||
+    record.CLIENTE || record.Cliente ||
+    'No asignado';
+
+  return {
+    id: fleetVehicleKey({ source: TELEMATICS_SOURCES.FAGOR, plate }),
+    plate: plate,
+    source: TELEMATICS_SOURCES.FAGOR,
+    latitude: parseFloat(record.Latitud || '') || 0,
+    longitude: parseFloat(record.Longitud || '') || 0,
+    speed: speed,
+    status: status,
+    driver: record.Conductor || 'Sin Asignar',
+    fuelLevel: 0,
+    lastUpdate: reportedAt || new Date().toISOString(),
+    lastUpdateEstimated: !reportedAt,
+    location: record.Localidad || 'Desconocido',
+    odometer: parseFloat(record.Kilometros || '0'),
+    contract: contract,
+    event: record.Estado || record.EstadoUsuario || '',
+    vehicleType: record.TipoVehiculo || ''
+  };
+}
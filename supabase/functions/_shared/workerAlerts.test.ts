@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { detectWorkerAlerts } from './workerAlerts';
+import { loadRuleDurationState, saveRuleDurationState, AlertRuleDurationRow } from './alertRuleDurations';
+import { NormalizedVehicle } from './telematicsNormalize';
+
+/**
+ * Reglas con duración mínima en el worker alert-monitor: cada ejecución arranca
+ * en frío y solo conoce el inicio de las condiciones guardado en alert_rule_durations
+ */
+
+/** alert_rule_durations en memoria con las operaciones que usan load/saveRuleDurationState */
+const createDurationsTable = () => {
+  const rows = new Map<string, AlertRuleDurationRow>();
+  const key = (row: { plate: string; rule_id: string }) => `${row.plate}:${row.rule_id}`;
+
+  const client = {
+    from: () => ({
+      select: () => ({
+        range: async (from: number, to: number) => ({ data: [...rows.values()].slice(from, to + 1), error: null })
+      }),
+      upsert: async (values: AlertRuleDurationRow[]) => {
+        values.filter(row => !rows.has(key(row))).forEach(row => rows.set(key(row), row));
+        return { error: null };
+      },
+      delete: () => ({
+        eq: (_column: string, ruleId: string) => ({
+          in: async (_plateColumn: string, plates: string[]) => {
+            plates.forEach(plate => rows.delete(key({ plate, rule_id: ruleId })));
+            return { error: null };
+          }
+        })
+      })
+    })
+  };
+
+  return { client, rows };
+};
+
+const vehicle = (minute: number, overrides: Partial<NormalizedVehicle> = {}): NormalizedVehicle => ({
+  id: 'COLTRACK:TTK123',
+  plate: 'TTK123',
+  source: 'COLTRACK',
+  latitude: 4.711,
+  longitude: -74.0721,
+  speed: 0,
+  status: 'Detenido',
+  driver: 'Carlos Pérez',
+  fuelLevel: 60,
+  lastUpdate: new Date(Date.UTC(2025, 4, 13, 19, minute)).toISOString(),
+  location: 'Bogotá',
+  odometer: 120000,
+  contract: 'Contrato Andes',
+  ignition: true,
+  ...overrides
+});
+
+/** Una ejecución del worker: cargar el estado, detectar y guardar los cambios */
+const runWorker = async (table: ReturnType<typeof createDurationsTable>, reading: NormalizedVehicle) => {
+  const loaded = await loadRuleDurationState(table.client);
+  const durationState = new Map(loaded);
+  const rows = detectWorkerAlerts(reading, {
+    thresholdRules: [],
+    speedZones: [],
+    durationState,
+    now: new Date(reading.lastUpdate)
+  });
+  await saveRuleDurationState(table.client, loaded, durationState);
+  return rows.filter(row => row.type === 'Ralentí Excesivo');
+};
+
+describe('detectWorkerAlerts', () => {
+  it('dispara el ralentí medido aunque cada ejecución arranque en frío', async () => {
+    const table = createDurationsTable();
+
+    expect(await runWorker(table, vehicle(0))).toEqual([]);
+    expect(table.rows.get('TTK123:IDLE_ENGINE')?.started_at).toBe(vehicle(0).lastUpdate);
+
+    expect(await runWorker(table, vehicle(5))).toEqual([]);
+
+    const [alert] = await runWorker(table, vehicle(10));
+    expect(alert).toEqual({
+      alert_id: `COLTRACK:TTK123-IDLE_ENGINE-${vehicle(10).lastUpdate}`,
+      vehicle_id: 'COLTRACK:TTK123',
+      plate: 'TTK123',
+      driver: 'Carlos Pérez',
+      type: 'Ralentí Excesivo',
+      severity: 'low',
+      timestamp: vehicle(10).lastUpdate,
+      location: 'Bogotá',
+      speed: 0,
+      details: 'Motor encendido y detenido hace 10 min (umbral: 10 min)',
+      contract: 'Contrato Andes',
+      source: 'COLTRACK',
+      status: 'pending',
+      saved_by: 'Sistema (Auto)'
+    });
+  });
+
+  it('borra el inicio guardado cuando la condición termina', async () => {
+    const table = createDurationsTable();
+
+    await runWorker(table, vehicle(0));
+    await runWorker(table, vehicle(8, { speed: 30, status: 'En Movimiento' }));
+    expect(table.rows.size).toBe(0);
+
+    expect(await runWorker(table, vehicle(12))).toEqual([]);
+    expect(await runWorker(table, vehicle(22))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Alertas del worker alert-monitor
+ *
+ * Detecta las alertas de un vehículo con las reglas compartidas (alertRules.ts)
+ * y las convierte en filas de saved_alerts. El worker llama a esta función por
+ * cada vehículo de la flota; los tests de paridad con la consola la usan igual.
+ *
+ * No importa nada fuera de supabase/functions/_shared.
+ */
+
+import { detectVehicleAlerts, VehicleAlertConfig } from './alertRules.ts';
+import type { EpisodeAlertRow } from './alertEpisodes.ts';
+import type { NormalizedVehicle } from './telematicsNormalize.ts';
+
+/**
+ * Alertas de un vehículo como filas de saved_alerts (pendientes, guardadas por el sistema)
+ */
+export function detectWorkerAlerts(vehicle: NormalizedVehicle, config: VehicleAlertConfig): EpisodeAlertRow[] {
+  return detectVehicleAlerts(vehicle, config).map(result => ({
+    alert_id: `${vehicle.id}-${result.rule.id}-${vehicle.lastUpdate}`,
+    vehicle_id: vehicle.id,
+    plate: vehicle.plate,
+    driver: vehicle.driver,
+    type: result.type,
+    severity: result.severity,
+    timestamp: vehicle.lastUpdate,
+    location: vehicle.location,
+    speed: vehicle.speed,
+    details: result.details,
+    contract: vehicle.contract || null,
+    source: vehicle.source,
+    status: 'pending',
+    saved_by: 'Sistema (Auto)'
+  }));
+}
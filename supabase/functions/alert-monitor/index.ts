@@ -6,20 +6,33 @@
  *
  * Funciones:
  * 1. Consulta APIs de Coltrack y Fagor a través de Vercel serverless functions
- * 2. Detecta alertas automáticamente (velocidad, pánico, frenada, aceleración, colisión)
- * 3. Sistema inteligente de deduplicación con ventanas de tiempo
+ * 2. Detecta alertas con las reglas compartidas con el frontend (_shared/alertRules.ts, _shared/workerAlerts.ts)
+ * 3. Agrupa las infracciones continuas en episodios (_shared/alertEpisodes.ts)
+ *    y deduplica el resto con ventanas de tiempo
  * 4. Validación estricta de eventos críticos (pánico, colisión)
  * 5. Guarda alertas únicas y verificadas en saved_alerts
+ * 6. Evalúa geocercas (entrada/salida) con el motor compartido de _shared/geofenceEngine.ts
+ * 7. Registra encendidos/apagados y periodos de ralentí (_shared/engineStateTracker.ts)
+ * 8. Escala las alertas críticas no confirmadas al personal de turno (_shared/alertEscalation.ts)
+ * 9. Envía las alertas nuevas y los escalamientos a notification-dispatcher (correo, Telegram, WhatsApp)
+ *    Las alertas nuevas salen de saved_alerts (dispatched_at NULL), también las que guardó la consola
+ * 10. Marca el incumplimiento de SLA de las alertas en seguimiento vencidas (_shared/alertSla.ts)
+ * 11. Alerta si un vehículo en movimiento reporta un conductor con la licencia vencida (_shared/driverCompliance.ts)
+ * 12. Conserva el inicio de las condiciones con duración mínima entre ejecuciones (_shared/alertRuleDurations.ts)
+ * 13. Detecta caídas de combustible con el vehículo detenido y recargas (_shared/fuelMonitor.ts)
  *
  * Arquitectura:
  * - Supabase Edge Function → Vercel Serverless Functions → Coltrack/Fagor APIs
  * - Esto evita problemas de CORS y bloqueos de IP de las APIs externas
  *
+ * Episodios (una fila que se actualiza mientras siga abierta):
+ * - Exceso de Velocidad, Ralentí Excesivo, Frenada/Aceleración Brusca
+ * - Se cierran tras EPISODE_GAP_MINUTES (15) sin lecturas nuevas
+ *
  * Características de Deduplicación:
- * - Exceso de Velocidad: 15 minutos (evita spam de mismo evento)
- * - Frenada/Aceleración Brusca: 10 minutos
  * - Botón de Pánico: 60 minutos (eventos críticos tienen ventana mayor)
  * - Colisión: 24 horas (evento único, validación estricta)
+ * - Conductor con Licencia Vencida: 12 horas por vehículo
  *
  * Trigger: Cron Job cada 5 minutos (vía cron-job.org)
  * Endpoint: https://[project-ref].supabase.co/functions/v1/alert-monitor
@@ -27,6 +40,33 @@
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  evaluateFleetGeofences,
+  describeGeofenceTransition,
+  GeofenceTransition,
+  GeofenceDefinition,
+  loadSpeedLimitZones
+} from '../_shared/geofenceEngine.ts';
+import { AlertRuleDurationState } from '../_shared/alertRules.ts';
+import { detectWorkerAlerts } from '../_shared/workerAlerts.ts';
+import { loadAlertThresholdRules, AlertThresholdRule } from '../_shared/alertThresholds.ts';
+import { normalizeColtrackRecord, normalizeFagorRecord, NormalizedVehicle } from '../_shared/telematicsNormalize.ts';
+import { trackFleetEngineStates, EngineTrackingResult } from '../_shared/engineStateTracker.ts';
+import { trackFleetFuelStates, describeFuelChange, FuelChangeMatch, FUEL_MONITOR_CONFIG } from '../_shared/fuelMonitor.ts';
+import { loadRuleDurationState, saveRuleDurationState } from '../_shared/alertRuleDurations.ts';
+import { isEpisodicAlertType, recordEpisodeAlert, closeStaleEpisodes, EPISODE_GAP_MINUTES } from '../_shared/alertEpisodes.ts';
+import {
+  claimUndispatchedAlerts,
+  releaseUndispatchedAlerts,
+  loadEscalationPolicies,
+  startAlertEscalations,
+  processDueEscalations,
+  EscalationRunResult
+} from '../_shared/alertEscalation.ts';
+import { flagSlaBreaches, SlaSweepResult } from '../_shared/alertSla.ts';
+import { NotificationAlert } from '../_shared/notificationDispatch.ts';
+import { detectExpiredLicenseDrivers, ExpiredLicenseMatch, DRIVER_COMPLIANCE_CONFIG } from '../_shared/driverCompliance.ts';
+import { registryName } from '../_shared/driverMatching.ts';
 
 // ==================== CONFIGURATION ====================
 
@@ -35,41 +75,60 @@ import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 const VERCEL_APP_URL = 'https://magnex-torre.vercel.app';
 const COLTRACK_API_URL = `${VERCEL_APP_URL}/api/coltrack`;
 const FAGOR_API_URL = `${VERCEL_APP_URL}/api/fagor`;
+// Ingesta del snapshot que leen los navegadores (ver api/_lib/fleetSnapshot.ts)
+const FLEET_API_URL = `${VERCEL_APP_URL}/api/fleet`;
+
+// /api exige un token y filtra la flota por los contratos de quien llama; el
+// worker se identifica con WORKER_API_TOKEN (el mismo valor en Vercel) o, si no
+// está definido, con la service role key, y recibe toda la flota ya con el
+// contrato de la hoja de vehículos
+const feedHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': `Bearer ${Deno.env.get('WORKER_API_TOKEN') || Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') || ''}`
+});
 
-const ALERT_THRESHOLDS = {
-  SPEED_LIMIT: 80,
-  IDLE_TIME_MINUTES: 10,
-  LOW_FUEL: 15,
-};
+// Rechazos de /api (401 token, 429 límite) en esta ejecución, por feed
+const feedErrors: Record<string, string> = {};
+
+/**
+ * Convierte los rechazos estructurados de /api en errores legibles.
+ * Un 401 es de configuración (token distinto en Vercel y Supabase); un 429
+ * se resuelve solo en la siguiente ejecución del cron.
+ */
+async function assertFeedResponse(response: Response, label: string): Promise<void> {
+  if (response.ok) return;
+
+  const body = await response.json().catch(() => null);
+
+  if (response.status === 401 || response.status === 429) {
+    const message = response.status === 401
+      ? `token rechazado por /api (${body?.error || 'unauthorized'}); revisa WORKER_API_TOKEN en Vercel y en el worker`
+      : `límite de peticiones de /api alcanzado; reintentar en ${body?.retryAfterSeconds ?? response.headers.get('Retry-After') ?? '?'} s`;
+    feedErrors[label] = message;
+    throw new Error(`${label} ${message}`);
+  }
+
+  throw new Error(`${label} serverless function error: ${response.status}`);
+}
+
+// Edge Function que envía las notificaciones (ver supabase/functions/notification-dispatcher)
+const NOTIFICATION_DISPATCHER_PATH = '/functions/v1/notification-dispatcher';
 
 // Configuración de deduplicación (en minutos)
+// Las infracciones continuas (velocidad, ralentí, eventos bruscos) no se
+// deduplican: se agrupan en episodios (ver _shared/alertEpisodes.ts)
 const DEDUPLICATION_WINDOWS = {
-  // Infracciones continuas - ventana corta para evitar spam
-  'Exceso de Velocidad': 15,      // 15 minutos
-  'Frenada Brusca': 10,            // 10 minutos
-  'Aceleración Brusca': 10,        // 10 minutos
-
   // Eventos críticos - ventana larga, son únicos
   'Botón de Pánico': 60,           // 1 hora
   'Colisión': 1440,                // 24 horas
+  // Cumplimiento - un aviso por vehículo y turno
+  [DRIVER_COMPLIANCE_CONFIG.EXPIRED_LICENSE_ALERT_TYPE]: 720, // 12 horas
 };
 
 // ==================== TYPES ====================
 
-interface Vehicle {
-  id: string;
-  plate: string;
-  driver: string;
-  speed: number;
-  location: string;
-  latitude: number;
-  longitude: number;
-  status: string;
-  lastUpdate: string;
-  source: string;
-  contract?: string;
-  event?: string;
-}
+// Misma lectura de la flota que la consola (_shared/telematicsNormalize.ts)
+type Vehicle = NormalizedVehicle;
 
 interface Alert {
   alert_id: string;
@@ -90,18 +149,56 @@ interface Alert {
 
 // ==================== API CLIENTS ====================
 
+/**
+ * Dispara la ingesta del snapshot de la flota (POST /api/fleet) y evalúa esa misma
+ * lectura: los navegadores leen el snapshot y los proveedores se consultan una sola
+ * vez por ciclo. null si /api/fleet no responde (se consulta cada proveedor).
+ */
+async function fetchFleetIngestion(): Promise<{ coltrack: Vehicle[]; fagor: Vehicle[] } | null> {
+  try {
+    console.log('[Fleet] Ingesting fleet snapshot via Vercel serverless function...');
+
+    const response = await fetch(FLEET_API_URL, {
+      method: 'POST',
+      headers: feedHeaders()
+    });
+
+    await assertFeedResponse(response, 'Fleet');
+
+    const result = await response.json();
+
+    if (!result.success || !result.records) {
+      throw new Error('Invalid response from Fleet serverless function');
+    }
+
+    // Cuentas caídas de cada proveedor (éxito parcial)
+    Object.entries(result.providers || {}).forEach(([provider, status]: [string, any]) => {
+      if (status?.error) feedErrors[provider] = status.error;
+    });
+
+    const vehicles = {
+      coltrack: (result.records.coltrack || []).map(normalizeColtrackRecord),
+      fagor: (result.records.fagor || []).map(normalizeFagorRecord)
+    };
+
+    console.log(`[Fleet] Snapshot ${result.version}: ${vehicles.coltrack.length} Coltrack, ${vehicles.fagor.length} Fagor`);
+    return vehicles;
+  } catch (error) {
+    console.error('[Fleet] Snapshot ingestion failed, querying providers directly:', error);
+    return null;
+  }
+}
+
 async function fetchColtrackData(): Promise<Vehicle[]> {
   try {
     console.log('[Coltrack] Fetching data via Vercel serverless function...');
 
     const response = await fetch(COLTRACK_API_URL, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' }
+      headers: feedHeaders()
     });
 
-    if (!response.ok) {
-      throw new Error(`Coltrack serverless function error: ${response.status}`);
-    }
+    await assertFeedResponse(response, 'Coltrack');
 
     const result = await response.json();
 
@@ -109,26 +206,7 @@ async function fetchColtrackData(): Promise<Vehicle[]> {
       throw new Error('Invalid response from Coltrack serverless function');
     }
 
-    const vehicles: Vehicle[] = [];
-
-    if (result.data && Array.isArray(result.data)) {
-      for (const record of result.data) {
-        vehicles.push({
-          id: record.IMEI || record.imei || `coltrack-${record.PLACA || record.PATENTE}`,
-          plate: record.PLACA || record.PATENTE || record.patente || 'DESCONOCIDO',
-          driver: record.CONDUCTOR || record.Conductor || record.conductor || 'Sin asignar',
-          speed: parseFloat(record.VELOCIDAD || record.Velocidad || record.velocidad || '0'),
-          location: record.CIUDAD || record.Ciudad || record.DIRECCION || record.Ubicacion || 'Ubicación desconocida',
-          latitude: parseFloat(record.LATITUD || record.Latitud || record.latitud || '0'),
-          longitude: parseFloat(record.LONGITUD || record.Longitud || record.longitud || '0'),
-          status: record.ESTADO || record.Estado || 'UNKNOWN',
-          lastUpdate: record.FECHA_GPS || record.lastUpdate || new Date().toISOString(),
-          source: 'COLTRACK',
-          contract: record.CONTRATO || record.Contrato || record.CLIENTE || record.Cliente || 'No asignado',
-          event: record.EVENTO || record.Evento || ''
-        });
-      }
-    }
+    const vehicles = (Array.isArray(result.data) ? result.data : []).map(normalizeColtrackRecord);
 
     console.log(`[Coltrack] Fetched ${vehicles.length} vehicles`);
     return vehicles;
@@ -144,12 +222,10 @@ async function fetchFagorData(): Promise<Vehicle[]> {
 
     const response = await fetch(FAGOR_API_URL, {
       method: 'POST',
-      headers: { 'Content-Type': 'application/json' }
+      headers: feedHeaders()
     });
 
-    if (!response.ok) {
-      throw new Error(`Fagor serverless function error: ${response.status}`);
-    }
+    await assertFeedResponse(response, 'Fagor');
 
     const result = await response.json();
 
@@ -157,30 +233,7 @@ async function fetchFagorData(): Promise<Vehicle[]> {
       throw new Error('Invalid response from Fagor serverless function');
     }
 
-    const vehicles: Vehicle[] = [];
-
-    if (result.data && Array.isArray(result.data)) {
-      for (const record of result.data) {
-        const plate = record.Matricula || 'DESCONOCIDO';
-        const speed = parseFloat(record.Velocidad || '0');
-        const estadoText = record.Estado || record.EstadoUsuario || '';
-
-        vehicles.push({
-          id: `fagor-${plate}`,
-          plate,
-          driver: record.Conductor || 'Sin asignar',
-          speed,
-          location: record.Localidad || 'Ubicación desconocida',
-          latitude: parseFloat(record.Latitud || '0'),
-          longitude: parseFloat(record.Longitud || '0'),
-          status: speed > 0 ? 'MOVING' : 'STOPPED',
-          lastUpdate: new Date().toISOString(),
-          source: 'FAGOR',
-          contract: record.CONTRATO || record.Contrato || 'No asignado',
-          event: estadoText
-        });
-      }
-    }
+    const vehicles = (Array.isArray(result.data) ? result.data : []).map(normalizeFagorRecord);
 
     console.log(`[Fagor] Fetched ${vehicles.length} vehicles`);
     return vehicles;
@@ -192,128 +245,78 @@ async function fetchFagorData(): Promise<Vehicle[]> {
 
 // ==================== ALERT DETECTION ====================
 
-function detectAlerts(vehicle: Vehicle): Alert[] {
-  const alerts: Alert[] = [];
-  const eventUpper = (vehicle.event || '').toUpperCase();
-
-  // 1. EXCESO DE VELOCIDAD (≥80 km/h)
-  if (vehicle.speed >= ALERT_THRESHOLDS.SPEED_LIMIT) {
-    alerts.push({
-      alert_id: `${vehicle.id}-SPEED-${vehicle.lastUpdate}`,
-      vehicle_id: vehicle.id,
-      plate: vehicle.plate,
-      driver: vehicle.driver,
-      type: 'Exceso de Velocidad',
-      severity: 'critical',
-      timestamp: vehicle.lastUpdate,
-      location: vehicle.location,
-      speed: vehicle.speed,
-      details: `Velocidad: ${vehicle.speed} km/h (Límite: ${ALERT_THRESHOLDS.SPEED_LIMIT} km/h)`,
-      contract: vehicle.contract || null,
-      source: vehicle.source,
-      status: 'pending',
-      saved_by: 'Sistema (Auto)'
-    });
-  }
-
-  // 2. BOTÓN DE PÁNICO
-  if (
-    eventUpper.includes('PANICO') ||
-    eventUpper.includes('PANIC') ||
-    eventUpper.includes('SOS') ||
-    eventUpper.includes('BOTON PANICO')
-  ) {
-    alerts.push({
-      alert_id: `${vehicle.id}-PANIC-${vehicle.lastUpdate}`,
-      vehicle_id: vehicle.id,
-      plate: vehicle.plate,
-      driver: vehicle.driver,
-      type: 'Botón de Pánico',
-      severity: 'critical',
-      timestamp: vehicle.lastUpdate,
-      location: vehicle.location,
-      speed: vehicle.speed,
-      details: 'Botón de pánico activado - Requiere atención inmediata',
-      contract: vehicle.contract || null,
-      source: vehicle.source,
-      status: 'pending',
-      saved_by: 'Sistema (Auto)'
-    });
-  }
-
-  // 3. FRENADA BRUSCA
-  if (
-    eventUpper.includes('FRENADA BRUSCA') ||
-    eventUpper.includes('FRENO BRUSCO') ||
-    eventUpper.includes('HARSH BRAKE')
-  ) {
-    alerts.push({
-      alert_id: `${vehicle.id}-BRAKE-${vehicle.lastUpdate}`,
-      vehicle_id: vehicle.id,
-      plate: vehicle.plate,
-      driver: vehicle.driver,
-      type: 'Frenada Brusca',
-      severity: 'high',
-      timestamp: vehicle.lastUpdate,
-      location: vehicle.location,
-      speed: vehicle.speed,
-      details: 'Frenada brusca detectada - Revisar comportamiento del conductor',
-      contract: vehicle.contract || null,
-      source: vehicle.source,
-      status: 'pending',
-      saved_by: 'Sistema (Auto)'
-    });
-  }
-
-  // 4. ACELERACIÓN BRUSCA
-  if (
-    eventUpper.includes('ACELERACION BRUSCA') ||
-    eventUpper.includes('HARSH ACCELERATION')
-  ) {
-    alerts.push({
-      alert_id: `${vehicle.id}-ACCEL-${vehicle.lastUpdate}`,
-      vehicle_id: vehicle.id,
-      plate: vehicle.plate,
-      driver: vehicle.driver,
-      type: 'Aceleración Brusca',
-      severity: 'high',
-      timestamp: vehicle.lastUpdate,
-      location: vehicle.location,
-      speed: vehicle.speed,
-      details: 'Aceleración brusca detectada - Revisar comportamiento del conductor',
-      contract: vehicle.contract || null,
-      source: vehicle.source,
-      status: 'pending',
-      saved_by: 'Sistema (Auto)'
-    });
-  }
+/**
+ * Convierte una entrada/salida de geocerca en alerta para saved_alerts
+ */
+function createGeofenceAlert(transition: GeofenceTransition<Vehicle>): Alert {
+  const { vehicle, geofence, eventType, eventTime } = transition;
+  const isEntry = eventType === 'entry';
+
+  return {
+    alert_id: `${vehicle.id}-GEOFENCE_${isEntry ? 'ENTRY' : 'EXIT'}-${geofence.id}-${eventTime}`,
+    vehicle_id: vehicle.id,
+    plate: vehicle.plate,
+    driver: vehicle.driver,
+    type: isEntry ? 'Entrada a Geocerca' : 'Salida de Geocerca',
+    severity: geofence.alert_severity,
+    timestamp: eventTime,
+    location: vehicle.location,
+    speed: vehicle.speed,
+    details: describeGeofenceTransition(transition),
+    contract: vehicle.contract || null,
+    source: vehicle.source,
+    status: 'pending',
+    saved_by: 'Sistema (Auto)'
+  };
+}
 
-  // 5. COLISIÓN
-  if (
-    eventUpper.includes('COLISION') ||
-    eventUpper.includes('COLLISION') ||
-    eventUpper.includes('CRASH') ||
-    eventUpper.includes('IMPACTO')
-  ) {
-    alerts.push({
-      alert_id: `${vehicle.id}-COLLISION-${vehicle.lastUpdate}`,
-      vehicle_id: vehicle.id,
-      plate: vehicle.plate,
-      driver: vehicle.driver,
-      type: 'Colisión',
-      severity: 'critical',
-      timestamp: vehicle.lastUpdate,
-      location: vehicle.location,
-      speed: vehicle.speed,
-      details: 'Posible colisión detectada - Verificar estado del vehículo',
-      contract: vehicle.contract || null,
-      source: vehicle.source,
-      status: 'pending',
-      saved_by: 'Sistema (Auto)'
-    });
-  }
+/**
+ * Convierte un vehículo en movimiento con conductor de licencia vencida en alerta para saved_alerts
+ */
+function createExpiredLicenseAlert(match: ExpiredLicenseMatch<Vehicle>): Alert {
+  const { vehicle, driver, expiredDays } = match;
+
+  return {
+    alert_id: `${vehicle.id}-EXPIRED_LICENSE-${driver.id}-${vehicle.lastUpdate}`,
+    vehicle_id: vehicle.id,
+    plate: vehicle.plate,
+    driver: vehicle.driver || registryName(driver),
+    type: DRIVER_COMPLIANCE_CONFIG.EXPIRED_LICENSE_ALERT_TYPE,
+    severity: 'high',
+    timestamp: vehicle.lastUpdate,
+    location: vehicle.location,
+    speed: vehicle.speed,
+    details: `${registryName(driver)} conduce con la licencia vencida desde el ${driver.license_expiry} (hace ${expiredDays} ${expiredDays === 1 ? 'día' : 'días'})`,
+    contract: vehicle.contract || null,
+    source: vehicle.source,
+    status: 'pending',
+    saved_by: 'Sistema (Auto)'
+  };
+}
 
-  return alerts;
+/**
+ * Convierte una caída de combustible o una recarga en alerta para saved_alerts
+ */
+function createFuelAlert(match: FuelChangeMatch<Vehicle>): Alert {
+  const { vehicle, change } = match;
+  const isDrop = change.type === 'drop';
+
+  return {
+    alert_id: `${vehicle.id}-${isDrop ? 'FUEL_DROP' : 'REFUEL'}-${change.at}`,
+    vehicle_id: vehicle.id,
+    plate: vehicle.plate,
+    driver: vehicle.driver,
+    type: isDrop ? FUEL_MONITOR_CONFIG.FUEL_DROP_ALERT_TYPE : FUEL_MONITOR_CONFIG.REFUEL_ALERT_TYPE,
+    severity: isDrop ? 'high' : 'low',
+    timestamp: change.at,
+    location: vehicle.location,
+    speed: vehicle.speed,
+    details: describeFuelChange(change),
+    contract: vehicle.contract || null,
+    source: vehicle.source,
+    status: 'pending',
+    saved_by: 'Sistema (Auto)'
+  };
 }
 
 // ==================== DATABASE OPERATIONS ====================
@@ -455,6 +458,60 @@ async function saveAlert(supabase: any, alert: Alert): Promise<boolean> {
   }
 }
 
+// ==================== NOTIFICATIONS ====================
+
+interface NotificationDispatchSummary {
+  queued: number;
+  sent: number;
+  retrying: number;
+  failed: number;
+}
+
+/**
+ * Entrega las alertas nuevas al notification-dispatcher
+ * Se llama también sin alertas para que procese los reintentos pendientes
+ */
+async function dispatchNotifications(
+  supabaseUrl: string,
+  supabaseKey: string,
+  alerts: NotificationAlert[]
+): Promise<NotificationDispatchSummary | null> {
+  try {
+    const response = await fetch(`${supabaseUrl}${NOTIFICATION_DISPATCHER_PATH}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${supabaseKey}`
+      },
+      body: JSON.stringify({
+        alerts: alerts.map(alert => ({
+          alert_id: alert.alert_id,
+          plate: alert.plate,
+          driver: alert.driver,
+          type: alert.type,
+          severity: alert.severity,
+          timestamp: alert.timestamp,
+          location: alert.location,
+          speed: alert.speed,
+          details: alert.details,
+          contract: alert.contract ?? null,
+          source: alert.source
+        }))
+      })
+    });
+
+    const result = await response.json().catch(() => null);
+    if (!response.ok || !result?.success) {
+      throw new Error(result?.error || `Notification dispatcher error: ${response.status}`);
+    }
+
+    return { queued: result.queued, sent: result.sent, retrying: result.retrying, failed: result.failed };
+  } catch (error) {
+    console.error('[Notifications] Error calling notification dispatcher:', error);
+    return null;
+  }
+}
+
 // ==================== MAIN WORKER FUNCTION ====================
 
 serve(async (req) => {
@@ -469,32 +526,149 @@ serve(async (req) => {
 
     // Fetch data from APIs
     console.log('📡 Fetching fleet data...');
-    const [coltrackVehicles, fagorVehicles] = await Promise.all([
-      fetchColtrackData(),
-      fetchFagorData()
-    ]);
+    Object.keys(feedErrors).forEach(label => delete feedErrors[label]);
+    const ingested = await fetchFleetIngestion();
+    const [coltrackVehicles, fagorVehicles] = ingested
+      ? [ingested.coltrack, ingested.fagor]
+      : await Promise.all([
+        fetchColtrackData(),
+        fetchFagorData()
+      ]);
 
     const allVehicles = [...coltrackVehicles, ...fagorVehicles];
     console.log(`📊 Total vehicles: ${allVehicles.length} (Coltrack: ${coltrackVehicles.length}, Fagor: ${fagorVehicles.length})`);
 
+    // Load per-contract thresholds and speed-limit zones
+    let thresholdRules: AlertThresholdRule[] = [];
+    let speedZones: GeofenceDefinition[] = [];
+    try {
+      [thresholdRules, speedZones] = await Promise.all([
+        loadAlertThresholdRules(supabase),
+        loadSpeedLimitZones(supabase)
+      ]);
+      console.log(`⚙️  Loaded ${thresholdRules.length} alert threshold rules, ${speedZones.length} speed zones`);
+    } catch (error) {
+      console.error('[AlertRules] Error loading alert rules, using defaults:', error);
+    }
+
+    // Inicio de las condiciones con duración mínima (alert_rule_durations)
+    // Sin el estado guardado esas reglas no se disparan en esta ejecución y no se guarda nada
+    let loadedDurations: AlertRuleDurationState | undefined;
+    let durationState: AlertRuleDurationState | undefined;
+    try {
+      loadedDurations = await loadRuleDurationState(supabase);
+      durationState = new Map(loadedDurations);
+    } catch (error) {
+      console.error('[AlertRules] Error loading rule durations, skipping duration rules:', error);
+    }
+
     // Detect alerts
     console.log('🔍 Detecting alerts...');
     const allAlerts: Alert[] = [];
     for (const vehicle of allVehicles) {
-      const alerts = detectAlerts(vehicle);
+      const alerts = detectWorkerAlerts(vehicle, { thresholdRules, speedZones, durationState });
       allAlerts.push(...alerts);
     }
 
+    if (loadedDurations && durationState) {
+      try {
+        const durations = await saveRuleDurationState(supabase, loadedDurations, durationState);
+        if (durations.started + durations.ended > 0) {
+          console.log(`⏱️  Rule durations: ${durations.started} started, ${durations.ended} ended`);
+        }
+      } catch (error) {
+        console.error('[AlertRules] Error saving rule durations:', error);
+      }
+    }
+
+    // Conductores con licencia vencida en vehículos en movimiento
+    // (pasan por la deduplicación: un aviso por vehículo cada 12 horas)
+    try {
+      const expiredLicenses = await detectExpiredLicenseDrivers(supabase, allVehicles);
+      allAlerts.push(...expiredLicenses.map(createExpiredLicenseAlert));
+      if (expiredLicenses.length > 0) console.log(`🪪 Expired licenses on moving vehicles: ${expiredLicenses.length}`);
+    } catch (error) {
+      console.error('[Compliance] Error checking driver licenses:', error);
+    }
+
     console.log(`⚠️  Detected ${allAlerts.length} alerts`);
 
+    // Evaluate geofences
+    // Cada transición se registra una sola vez en geofence_events (también si el
+    // frontend la detectó primero), así que estas alertas no pasan por la deduplicación
+    console.log('📍 Evaluating geofences...');
+    let geofenceAlerts: Alert[] = [];
+    let geofenceTransitions = 0;
+    try {
+      const transitions = await evaluateFleetGeofences(supabase, allVehicles);
+      geofenceTransitions = transitions.length;
+      geofenceAlerts = transitions
+        .filter(transition => transition.shouldAlert)
+        .map(createGeofenceAlert);
+    } catch (error) {
+      console.error('[Geofences] Error evaluating geofences:', error);
+    }
+
+    console.log(`📍 Geofence transitions: ${geofenceTransitions} (${geofenceAlerts.length} alerts)`);
+
+    // Track ignition and idle periods
+    // El estado vive en vehicle_engine_states: los eventos se escriben una sola vez
+    // aunque haya ejecuciones simultáneas
+    console.log('🔑 Tracking ignition and idle...');
+    let engineTracking: EngineTrackingResult = { ignitionEvents: 0, idleRecords: 0 };
+    try {
+      engineTracking = await trackFleetEngineStates(supabase, allVehicles);
+    } catch (error) {
+      console.error('[EngineState] Error tracking ignition and idle:', error);
+    }
+
+    console.log(`🔑 Ignition events: ${engineTracking.ignitionEvents}, idle records: ${engineTracking.idleRecords}`);
+
+    // Fuel drops and refuels
+    // La última lectura vive en vehicle_fuel_states: cada cambio lo devuelve una sola
+    // ejecución, así que estas alertas tampoco pasan por la deduplicación
+    console.log('⛽ Checking fuel levels...');
+    let fuelAlerts: Alert[] = [];
+    try {
+      fuelAlerts = (await trackFleetFuelStates(supabase, allVehicles)).map(createFuelAlert);
+    } catch (error) {
+      console.error('[FuelMonitor] Error checking fuel levels:', error);
+    }
+
+    console.log(`⛽ Fuel drops and refuels: ${fuelAlerts.length}`);
+
     // Save alerts to database with intelligent deduplication
     console.log('💾 Saving alerts to database...');
     let savedCount = 0;
     let duplicateCount = 0;
     let rejectedCount = 0;
     let errorCount = 0;
+    let episodesOpened = 0;
+    let episodesUpdated = 0;
+    let episodesClosed = 0;
+
+    // Cerrar episodios sin lecturas recientes antes de registrar las nuevas
+    try {
+      episodesClosed = await closeStaleEpisodes(supabase);
+    } catch (error) {
+      console.error('[Episodes] Error closing stale episodes:', error);
+    }
 
     for (const alert of allAlerts) {
+      // Infracciones continuas: actualizar el episodio abierto o abrir uno nuevo
+      if (isEpisodicAlertType(alert.type)) {
+        try {
+          const episode = await recordEpisodeAlert(supabase, alert);
+          if (episode.action === 'opened') episodesOpened++;
+          else if (episode.action === 'updated') episodesUpdated++;
+          else duplicateCount++;
+        } catch (error) {
+          console.error('[Episodes] Error recording episode:', error);
+          errorCount++;
+        }
+        continue;
+      }
+
       // Verificar duplicados antes de intentar guardar
       const duplicateCheck = await checkDuplicate(
         supabase,
@@ -531,6 +705,59 @@ serve(async (req) => {
       }
     }
 
+    for (const alert of [...geofenceAlerts, ...fuelAlerts]) {
+      const success = await saveAlert(supabase, alert);
+      if (success) {
+        savedCount++;
+      } else {
+        errorCount++;
+      }
+    }
+
+    // Alertas nuevas: las filas de saved_alerts aún sin avisar, las haya guardado
+    // este worker o la consola (que suele guardar primero y con otro alert_id).
+    // Los episodios se avisan solo al abrirse: sus actualizaciones no crean filas
+    let newAlerts: NotificationAlert[] = [];
+    try {
+      newAlerts = await claimUndispatchedAlerts(supabase);
+    } catch (error) {
+      console.error('[Escalation] Error loading new saved alerts:', error);
+    }
+
+    // Escalamiento: abrir el de las alertas nuevas y ejecutar los pasos vencidos
+    // El temporizador está en alert_escalations.next_escalation_at; los avisos
+    // quedan en la cola de notificaciones y salen con el dispatcher a continuación
+    console.log('⏫ Processing escalations...');
+    const escalations: EscalationRunResult = { started: 0, escalated: 0, acknowledged: 0, exhausted: 0 };
+    try {
+      const policies = await loadEscalationPolicies(supabase);
+      escalations.started = await startAlertEscalations(supabase, newAlerts, policies);
+      Object.assign(escalations, await processDueEscalations(supabase));
+    } catch (error) {
+      console.error('[Escalation] Error processing escalations:', error);
+    }
+
+    console.log(`⏫ Escalations started: ${escalations.started}, steps executed: ${escalations.escalated}, acknowledged: ${escalations.acknowledged}`);
+
+    console.log(`📨 Dispatching notifications for ${newAlerts.length} new alerts...`);
+    const notifications = await dispatchNotifications(supabaseUrl, supabaseKey, newAlerts);
+
+    // Sin dispatcher las alertas vuelven a quedar sin avisar; encolar y abrir el
+    // escalamiento son idempotentes, así que la siguiente ejecución las retoma
+    if (!notifications) {
+      await releaseUndispatchedAlerts(supabase, newAlerts.map(alert => alert.alert_id));
+    }
+
+    // SLA: las alertas en seguimiento abiertas después de su vencimiento quedan marcadas
+    let sla: SlaSweepResult = { ack_breached: 0, resolution_breached: 0 };
+    try {
+      sla = await flagSlaBreaches(supabase);
+    } catch (error) {
+      console.error('[SLA] Error flagging SLA breaches:', error);
+    }
+
+    console.log(`⏱️ SLA breaches flagged: ack ${sla.ack_breached}, resolution ${sla.resolution_breached}`);
+
     const duration = Date.now() - startTime;
 
     const result = {
@@ -540,15 +767,36 @@ serve(async (req) => {
       vehicles: {
         total: allVehicles.length,
         coltrack: coltrackVehicles.length,
-        fagor: fagorVehicles.length
+        fagor: fagorVehicles.length,
+        ...(Object.keys(feedErrors).length > 0 && { feed_errors: feedErrors })
       },
       alerts: {
-        detected: allAlerts.length,
-        saved: savedCount,
+        detected: allAlerts.length + geofenceAlerts.length + fuelAlerts.length,
+        saved: savedCount + episodesOpened,
         duplicates: duplicateCount,
         rejected_critical: rejectedCount,
         errors: errorCount
       },
+      geofences: {
+        transitions: geofenceTransitions,
+        alerts: geofenceAlerts.length
+      },
+      engine: {
+        ignition_events: engineTracking.ignitionEvents,
+        idle_records: engineTracking.idleRecords
+      },
+      fuel: {
+        alerts: fuelAlerts.length
+      },
+      episodes: {
+        gap_minutes: EPISODE_GAP_MINUTES,
+        opened: episodesOpened,
+        updated: episodesUpdated,
+        closed: episodesClosed
+      },
+      escalations,
+      notifications: notifications ?? { error: 'dispatcher unavailable' },
+      sla,
       deduplication: {
         enabled: true,
         windows: DEDUPLICATION_WINDOWS
@@ -0,0 +1,71 @@
+/**
+ * Supabase Edge Function: Driver Compliance
+ *
+ * Revisa el vencimiento de licencias, certificados médicos y cursos de los
+ * conductores (driver_documents) y encola un aviso con los documentos que
+ * entraron en 30, 15 o 7 días de su vencimiento o ya vencieron. Cada documento
+ * se avisa una vez por etapa; el envío lo hace notification-dispatcher.
+ *
+ * Request (POST, JSON):
+ * - {} → revisa los vencimientos de hoy
+ *
+ * Endpoint: https://[project-ref].supabase.co/functions/v1/driver-compliance
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { runComplianceNotices } from '../_shared/driverCompliance.ts';
+
+// ==================== CONFIGURATION ====================
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+// ==================== HELPERS ====================
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+    status
+  });
+
+// ==================== MAIN FUNCTION ====================
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: CORS_HEADERS });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const notices = await runComplianceNotices(supabase);
+
+    const result = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      ...notices
+    };
+
+    console.log('[DriverCompliance]', JSON.stringify(result));
+    return jsonResponse(result);
+
+  } catch (error) {
+    console.error('❌ Driver compliance error:', error);
+    return jsonResponse({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    }, 500);
+  }
+});
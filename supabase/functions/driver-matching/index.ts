@@ -0,0 +1,75 @@
+/**
+ * Supabase Edge Function: Driver Matching
+ *
+ * Vincula los nombres de conductor que envía el GPS (driver_name_aliases
+ * pendientes) con el registro de conductores por nombre exacto, normalizado o
+ * parecido, y actualiza driver_id en las alertas, inspecciones y registros de
+ * ralentí de cada alias vinculado. Los nombres que no alcanzan quedan en la
+ * cola de revisión con sugerencias.
+ *
+ * Request (POST, JSON):
+ * - {} → procesa los alias pendientes
+ *
+ * "Buscar coincidencias" en Gestión → Conductores → Vinculación GPS la invoca
+ * después de registrar conductores nuevos.
+ *
+ * Endpoint: https://[project-ref].supabase.co/functions/v1/driver-matching
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { runDriverMatching } from '../_shared/driverMatching.ts';
+
+// ==================== CONFIGURATION ====================
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+// ==================== HELPERS ====================
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+    status
+  });
+
+// ==================== MAIN FUNCTION ====================
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: CORS_HEADERS });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const matching = await runDriverMatching(supabase);
+
+    const result = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      ...matching
+    };
+
+    console.log('[DriverMatching]', JSON.stringify(result));
+    return jsonResponse(result);
+
+  } catch (error) {
+    console.error('❌ Driver matching error:', error);
+    return jsonResponse({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    }, 500);
+  }
+});
@@ -0,0 +1,76 @@
+/**
+ * Supabase Edge Function: Driver Scoring
+ *
+ * Recalcula el puntaje de conducción (driver_scores) de cada conductor: los
+ * diarios de hoy y ayer desde saved_alerts, idle_time_records,
+ * preoperational_inspections y vehicle_positions, y los semanales y mensuales
+ * que los contienen a partir de los diarios.
+ *
+ * Request (POST, JSON):
+ * - {}            → recalcula hoy y ayer
+ * - { days: 30 }  → recalcula los últimos N días (máximo 62), p. ej. al
+ *                   instalar la tabla o después de cambiar los pesos
+ *
+ * Endpoint: https://[project-ref].supabase.co/functions/v1/driver-scoring
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { DRIVER_SCORE_CONFIG, runDriverScoring } from '../_shared/driverScoring.ts';
+
+// ==================== CONFIGURATION ====================
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+// ==================== HELPERS ====================
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+    status
+  });
+
+// ==================== MAIN FUNCTION ====================
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: CORS_HEADERS });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const body = await req.json().catch(() => ({}));
+    const days = Number(body?.days) || DRIVER_SCORE_CONFIG.RECOMPUTE_DAYS;
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const scoring = await runDriverScoring(supabase, new Date(), days);
+
+    const result = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      ...scoring
+    };
+
+    console.log('[DriverScoring]', JSON.stringify(result));
+    return jsonResponse(result);
+
+  } catch (error) {
+    console.error('❌ Driver scoring error:', error);
+    return jsonResponse({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    }, 500);
+  }
+});
@@ -0,0 +1,224 @@
+/**
+ * Adaptadores de canal del notification-dispatcher
+ *
+ * - email: SMTP (denomailer)
+ * - telegram: Telegram Bot API (sendMessage, HTML)
+ * - whatsapp: Twilio WhatsApp (Messages API)
+ * - standin: todos los canales se publican por HTTP en NOTIFICATION_STANDIN_URL
+ *   (ver scripts/notification-standin.mjs) para probar el flujo sin salir a internet
+ *
+ * Cada adaptador lanza un Error si el proveedor rechaza el mensaje; la cola
+ * (_shared/notificationDispatch.ts) se encarga de reintentar.
+ */
+
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+import {
+  ChannelSender,
+  NotificationChannel,
+  NotificationDelivery
+} from '../_shared/notificationDispatch.ts';
+
+// ==================== TYPES ====================
+
+export type NotificationTransport = 'live' | 'standin';
+
+export interface ChannelSenders {
+  transport: NotificationTransport;
+  senders: Partial<Record<NotificationChannel, ChannelSender>>;
+}
+
+type EnvReader = (name: string) => string | undefined;
+
+// ==================== HELPERS ====================
+
+/** Tiempo máximo de espera por proveedor */
+const REQUEST_TIMEOUT_MS = 15000;
+
+async function postWithTimeout(url: string, init: RequestInit): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    return await fetch(url, { ...init, method: 'POST', signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function readError(response: Response): Promise<string> {
+  const text = await response.text().catch(() => '');
+  return `HTTP ${response.status}${text ? `: ${text.slice(0, 300)}` : ''}`;
+}
+
+// ==================== CHANNEL ADAPTERS ====================
+
+export function createSmtpSender(config: {
+  hostname: string;
+  port: number;
+  username?: string;
+  password?: string;
+  from: string;
+  tls: boolean;
+}): ChannelSender {
+  return async (delivery: NotificationDelivery) => {
+    const client = new SMTPClient({
+      connection: {
+        hostname: config.hostname,
+        port: config.port,
+        tls: config.tls,
+        auth: config.username ? { username: config.username, password: config.password ?? '' } : undefined
+      }
+    });
+
+    try {
+      await client.send({
+        from: config.from,
+        to: delivery.recipient,
+        subject: delivery.subject ?? `Alerta ${delivery.alert_type ?? ''} - ${delivery.plate ?? ''}`,
+        html: delivery.message
+      });
+    } finally {
+      await client.close();
+    }
+
+    return {};
+  };
+}
+
+export function createTelegramSender(botToken: string): ChannelSender {
+  return async (delivery: NotificationDelivery) => {
+    const response = await postWithTimeout(`https://api.telegram.org/bot${botToken}/sendMessage`, {
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        chat_id: delivery.recipient,
+        text: delivery.message,
+        parse_mode: 'HTML',
+        disable_web_page_preview: true
+      })
+    });
+
+    const result = await response.json().catch(() => null);
+    if (!response.ok || !result?.ok) {
+      throw new Error(`Telegram: ${result?.description || `HTTP ${response.status}`}`);
+    }
+
+    return { providerMessageId: String(result.result?.message_id ?? '') || undefined };
+  };
+}
+
+export function createTwilioWhatsAppSender(config: {
+  accountSid: string;
+  authToken: string;
+  from: string;
+}): ChannelSender {
+  const toWhatsApp = (number: string) => (number.startsWith('whatsapp:') ? number : `whatsapp:${number}`);
+
+  return async (delivery: NotificationDelivery) => {
+    const response = await postWithTimeout(
+      `https://api.twilio.com/2010-04-01/Accounts/${config.accountSid}/Messages.json`,
+      {
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          'Authorization': `Basic ${btoa(`${config.accountSid}:${config.authToken}`)}`
+        },
+        body: new URLSearchParams({
+          From: toWhatsApp(config.from),
+          To: toWhatsApp(delivery.recipient),
+          Body: delivery.message
+        }).toString()
+      }
+    );
+
+    const result = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(`WhatsApp (Twilio): ${result?.message || `HTTP ${response.status}`}`);
+    }
+
+    return { providerMessageId: result?.sid };
+  };
+}
+
+/**
+ * Stand-in HTTP: publica el mensaje tal como se enviaría
+ * Un estado distinto de 2xx se trata como error del proveedor (sirve para probar reintentos)
+ */
+export function createStandInSender(url: string, channel: NotificationChannel): ChannelSender {
+  return async (delivery: NotificationDelivery) => {
+    const response = await postWithTimeout(url, {
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        channel,
+        recipient: delivery.recipient,
+        subject: delivery.subject,
+        message: delivery.message,
+        alert_id: delivery.alert_id,
+        delivery_id: delivery.id,
+        attempt: delivery.attempts
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Stand-in: ${await readError(response)}`);
+    }
+
+    const result = await response.json().catch(() => null);
+    return { providerMessageId: result?.id ? String(result.id) : undefined };
+  };
+}
+
+// ==================== FACTORY ====================
+
+/**
+ * Arma los adaptadores según las variables de entorno
+ *
+ * NOTIFICATION_TRANSPORT=standin → todos los canales van a NOTIFICATION_STANDIN_URL
+ * En modo live solo se habilitan los canales con credenciales:
+ * - SMTP_HOST, SMTP_PORT, SMTP_USER, SMTP_PASSWORD, SMTP_FROM, SMTP_TLS
+ * - TELEGRAM_BOT_TOKEN
+ * - TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_WHATSAPP_FROM
+ */
+export function buildChannelSenders(env: EnvReader): ChannelSenders {
+  if (env('NOTIFICATION_TRANSPORT') === 'standin') {
+    const url = env('NOTIFICATION_STANDIN_URL');
+    if (!url) {
+      throw new Error('NOTIFICATION_STANDIN_URL es requerido con NOTIFICATION_TRANSPORT=standin');
+    }
+
+    return {
+      transport: 'standin',
+      senders: {
+        email: createStandInSender(url, 'email'),
+        telegram: createStandInSender(url, 'telegram'),
+        whatsapp: createStandInSender(url, 'whatsapp')
+      }
+    };
+  }
+
+  const senders: Partial<Record<NotificationChannel, ChannelSender>> = {};
+
+  const smtpHost = env('SMTP_HOST');
+  const smtpFrom = env('SMTP_FROM');
+  if (smtpHost && smtpFrom) {
+    senders.email = createSmtpSender({
+      hostname: smtpHost,
+      port: parseInt(env('SMTP_PORT') || '465', 10),
+      username: env('SMTP_USER'),
+      password: env('SMTP_PASSWORD'),
+      from: smtpFrom,
+      tls: env('SMTP_TLS') !== 'false'
+    });
+  }
+
+  const telegramToken = env('TELEGRAM_BOT_TOKEN');
+  if (telegramToken) {
+    senders.telegram = createTelegramSender(telegramToken);
+  }
+
+  const twilioSid = env('TWILIO_ACCOUNT_SID');
+  const twilioToken = env('TWILIO_AUTH_TOKEN');
+  const twilioFrom = env('TWILIO_WHATSAPP_FROM');
+  if (twilioSid && twilioToken && twilioFrom) {
+    senders.whatsapp = createTwilioWhatsAppSender({ accountSid: twilioSid, authToken: twilioToken, from: twilioFrom });
+  }
+
+  return { transport: 'live', senders };
+}
@@ -0,0 +1,203 @@
+/**
+ * Supabase Edge Function: Notification Dispatcher
+ *
+ * Envía por correo (SMTP), Telegram y WhatsApp (Twilio) las alertas que
+ * guarda el worker alert-monitor, con registro y reintentos en
+ * notification_deliveries.
+ *
+ * Request (POST, JSON):
+ * - { alerts: NotificationAlert[] } → encola las alertas nuevas y procesa la cola
+ * - {}                              → solo procesa la cola (reintentos pendientes)
+ * - { test: { channel, recipient } } → encola un mensaje de prueba y procesa la cola
+ *
+ * Autorización (Authorization: Bearer <token>):
+ * - alerts y {} solo los aceptan los workers: service role key o WORKER_API_TOKEN
+ * - test acepta también el JWT de un usuario con config:edit, y solo envía a
+ *   destinatarios que ya estén en notification_settings
+ *
+ * Los destinatarios salen de notification_settings. Con
+ * NOTIFICATION_TRANSPORT=standin todos los canales se publican en
+ * NOTIFICATION_STANDIN_URL para probar el flujo completo sin proveedores reales.
+ *
+ * Endpoint: https://[project-ref].supabase.co/functions/v1/notification-dispatcher
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import {
+  enqueueAlertNotifications,
+  enqueueTargetedNotification,
+  isConfiguredRecipient,
+  loadNotificationSettings,
+  processPendingDeliveries,
+  NotificationAlert,
+  NotificationChannel
+} from '../_shared/notificationDispatch.ts';
+import { Permission } from '../_shared/rolePermissions.ts';
+import { buildChannelSenders } from './channels.ts';
+
+// ==================== CONFIGURATION ====================
+
+// Origen de la app (ej. https://torre.example.com); sin configurar acepta cualquiera,
+// las peticiones igual necesitan un token válido
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': Deno.env.get('APP_ORIGIN') || '*',
+  'Vary': 'Origin',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+const NOTIFICATION_CHANNELS: NotificationChannel[] = ['email', 'telegram', 'whatsapp'];
+
+// ==================== TYPES ====================
+
+type DispatcherCaller =
+  | { kind: 'worker' }
+  | { kind: 'user'; id: string; canEditConfig: boolean };
+
+// ==================== HELPERS ====================
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+    status
+  });
+
+/**
+ * Alerta de un mensaje de prueba
+ */
+function buildTestAlert(): NotificationAlert {
+  return {
+    alert_id: `test-${Date.now()}`,
+    plate: 'PRUEBA',
+    driver: 'Torre de Control',
+    type: 'Notificación de Prueba',
+    severity: 'low',
+    timestamp: new Date().toISOString(),
+    location: 'N/A',
+    speed: 0,
+    details: 'Mensaje de prueba: el canal está configurado correctamente.',
+    contract: null,
+    source: 'Sistema'
+  };
+}
+
+/** Token del encabezado Authorization: Bearer <token>, o '' si no viene */
+function getBearerToken(req: Request): string {
+  const header = req.headers.get('Authorization') || '';
+  return header.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+}
+
+/**
+ * Quién llama: un worker (service role key o WORKER_API_TOKEN) o un usuario
+ * con sesión válida. null si el token no es ninguno de los dos.
+ */
+async function authorizeCaller(req: Request, supabase: any, supabaseUrl: string, serviceKey: string): Promise<DispatcherCaller | null> {
+  const token = getBearerToken(req);
+  if (!token) return null;
+
+  const workerToken = Deno.env.get('WORKER_API_TOKEN');
+  if ((serviceKey && token === serviceKey) || (workerToken && token === workerToken)) {
+    return { kind: 'worker' };
+  }
+
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data?.user) {
+    console.warn('[Notifications] Token rejected:', error?.message || 'no user');
+    return null;
+  }
+
+  // has_permission evalúa auth.uid(): se consulta como el usuario
+  const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY') ?? '', {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: { persistSession: false, autoRefreshToken: false }
+  });
+  const { data: allowed, error: permissionError } = await userClient.rpc('has_permission', {
+    p_permission: Permission.CONFIG_EDIT
+  });
+  if (permissionError) {
+    console.warn('[Notifications] Permission check failed:', permissionError.message);
+  }
+
+  return { kind: 'user', id: data.user.id, canEditConfig: allowed === true };
+}
+
+// ==================== MAIN FUNCTION ====================
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: CORS_HEADERS });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const caller = await authorizeCaller(req, supabase, supabaseUrl, supabaseKey);
+    if (!caller) {
+      return jsonResponse({ success: false, error: 'Se requiere una sesión o un token de servicio' }, 401);
+    }
+
+    const body = await req.json().catch(() => ({}));
+
+    // Los usuarios solo envían mensajes de prueba; encolar alertas y procesar la cola es del worker
+    if (caller.kind === 'user' && (!body?.test || body?.alerts)) {
+      return jsonResponse({ success: false, error: 'Solo los workers pueden encolar alertas' }, 403);
+    }
+    if (caller.kind === 'user' && !caller.canEditConfig) {
+      return jsonResponse({ success: false, error: 'No tienes permiso para enviar mensajes de prueba' }, 403);
+    }
+
+    const { transport, senders } = buildChannelSenders(name => Deno.env.get(name));
+    const settings = await loadNotificationSettings(supabase);
+
+    let queued = 0;
+
+    if (body?.test) {
+      const { channel, recipient } = body.test;
+      if (!NOTIFICATION_CHANNELS.includes(channel) || !recipient) {
+        return jsonResponse({ success: false, error: 'test requiere channel (email, telegram, whatsapp) y recipient' }, 400);
+      }
+      if (!isConfiguredRecipient(settings, channel, String(recipient))) {
+        return jsonResponse({ success: false, error: 'El destinatario no está en la configuración de notificaciones' }, 400);
+      }
+
+      queued = await enqueueTargetedNotification(supabase, buildTestAlert(), [{ channel, recipient: String(recipient).trim() }]);
+      if (caller.kind === 'user') {
+        console.log(`[Notifications] Test message requested by ${caller.id} (${channel})`);
+      }
+    }
+
+    const alerts: NotificationAlert[] = Array.isArray(body?.alerts) ? body.alerts : [];
+    if (alerts.length > 0) {
+      queued += await enqueueAlertNotifications(supabase, alerts, settings);
+    }
+
+    const processed = await processPendingDeliveries(supabase, senders, transport);
+
+    const result = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      transport,
+      channels: Object.keys(senders),
+      queued,
+      ...processed
+    };
+
+    console.log('[Notifications]', JSON.stringify(result));
+    return jsonResponse(result);
+
+  } catch (error) {
+    console.error('❌ Notification dispatcher error:', error);
+    return jsonResponse({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    }, 500);
+  }
+});
@@ -0,0 +1,124 @@
+/**
+ * Supabase Edge Function: Report Scheduler
+ *
+ * Genera los reportes programados (report_schedules) cuya hora llegó, los
+ * archiva en el bucket "reports" y en generated_reports, y encola el correo a
+ * los destinatarios. Al terminar llama a notification-dispatcher para que los
+ * correos salgan de inmediato en lugar de esperar al siguiente ciclo.
+ *
+ * Request (POST, JSON):
+ * - {} → procesa las programaciones vencidas
+ *
+ * Los PDF llevan el logo de la app (public/logo.png), que se descarga del
+ * despliegue de Vercel en cada ejecución; si no responde salen sin logo.
+ *
+ * "Generar ahora" desde la app mueve next_run_at de la programación al momento
+ * actual (con las políticas de report:manage) y luego invoca esta función.
+ *
+ * Endpoint: https://[project-ref].supabase.co/functions/v1/report-scheduler
+ */
+
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { runDueReportSchedules } from '../_shared/reportSchedules.ts';
+
+// ==================== CONFIGURATION ====================
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS'
+};
+
+// Edge Function que envía las notificaciones (ver supabase/functions/notification-dispatcher)
+const NOTIFICATION_DISPATCHER_PATH = '/functions/v1/notification-dispatcher';
+
+// Logo del encabezado de los PDF (mismo despliegue que usa alert-monitor)
+const VERCEL_APP_URL = 'https://magnex-torre.vercel.app';
+const LOGO_URL = `${VERCEL_APP_URL}/logo.png`;
+
+// ==================== HELPERS ====================
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+    status
+  });
+
+/**
+ * Bytes del logo para los PDF (null si no se pudo descargar)
+ */
+async function loadLogo(): Promise<Uint8Array | null> {
+  try {
+    const response = await fetch(LOGO_URL);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return new Uint8Array(await response.arrayBuffer());
+  } catch (error) {
+    console.warn('[Reports] Could not load logo, PDFs will not include it:', error);
+    return null;
+  }
+}
+
+/**
+ * Procesa la cola de notification_deliveries con los correos recién encolados
+ */
+async function flushNotifications(supabaseUrl: string, supabaseKey: string): Promise<void> {
+  try {
+    const response = await fetch(`${supabaseUrl}${NOTIFICATION_DISPATCHER_PATH}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${supabaseKey}`
+      },
+      body: JSON.stringify({})
+    });
+
+    if (!response.ok) {
+      throw new Error(`Notification dispatcher error: ${response.status}`);
+    }
+  } catch (error) {
+    // Los correos quedan en la cola: el siguiente ciclo de alert-monitor los envía
+    console.error('[Reports] Error calling notification dispatcher:', error);
+  }
+}
+
+// ==================== MAIN FUNCTION ====================
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: CORS_HEADERS });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ success: false, error: 'Method not allowed' }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? '';
+    const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const supabase = createClient(supabaseUrl, supabaseKey);
+
+    const sweep = await runDueReportSchedules(supabase, new Date(), { logo: await loadLogo() });
+
+    if (sweep.queued > 0) {
+      await flushNotifications(supabaseUrl, supabaseKey);
+    }
+
+    const result = {
+      success: true,
+      timestamp: new Date().toISOString(),
+      ...sweep
+    };
+
+    console.log('[Reports]', JSON.stringify(result));
+    return jsonResponse(result);
+
+  } catch (error) {
+    console.error('❌ Report scheduler error:', error);
+    return jsonResponse({
+      success: false,
+      error: error.message,
+      timestamp: new Date().toISOString()
+    }, 500);
+  }
+});
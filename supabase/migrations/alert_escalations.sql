@@ -0,0 +1,152 @@
+-- =====================================================
+-- ESCALAMIENTO DE ALERTAS Y TURNOS DE GUARDIA
+-- Ejecutar en Supabase SQL Editor DESPUÉS de notification_dispatch.sql
+-- =====================================================
+
+-- 1. Confirmación (ack) en saved_alerts
+-- Una alerta confirmada detiene su escalamiento
+ALTER TABLE saved_alerts
+  ADD COLUMN IF NOT EXISTS acknowledged_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS acknowledged_by VARCHAR(200);
+
+-- 2. Crear tabla de políticas de escalamiento
+-- contract NULL = política global. alert_types vacío = todos los tipos.
+-- steps: [{ "role": "shift_operator", "wait_minutes": 0, "channels": ["telegram"] }, ...]
+-- wait_minutes es el tiempo sin confirmación desde el paso anterior;
+-- ver supabase/functions/_shared/alertEscalation.ts
+CREATE TABLE IF NOT EXISTS escalation_policies (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name VARCHAR(200) NOT NULL,
+  contract VARCHAR(200),
+  alert_types TEXT[] DEFAULT '{}',
+  min_severity VARCHAR(20) NOT NULL DEFAULT 'critical'
+    CHECK (min_severity IN ('low', 'medium', 'high', 'critical')),
+  steps JSONB NOT NULL DEFAULT '[]',
+  is_active BOOLEAN DEFAULT true,
+  created_by VARCHAR(200),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 3. Crear tabla de turnos de guardia
+-- contract NULL = cubre todos los contratos (se usa si el contrato no tiene turno propio)
+CREATE TABLE IF NOT EXISTS on_call_roster (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  role VARCHAR(30) NOT NULL
+    CHECK (role IN ('shift_operator', 'supervisor', 'contract_manager')),
+  contract VARCHAR(200),
+  name VARCHAR(200) NOT NULL,
+  email VARCHAR(200),
+  telegram_chat_id VARCHAR(100),
+  whatsapp_number VARCHAR(50),
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (ends_at > starts_at)
+);
+
+-- 4. Crear tabla de escalamientos (uno por alerta)
+CREATE TABLE IF NOT EXISTS alert_escalations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  alert_id VARCHAR(100) NOT NULL, -- saved_alerts.alert_id
+  policy_id UUID REFERENCES escalation_policies(id) ON DELETE SET NULL,
+  plate VARCHAR(50),
+  alert_type VARCHAR(100),
+  contract VARCHAR(200),
+
+  current_step INTEGER NOT NULL DEFAULT 0, -- último paso ejecutado (0 = ninguno)
+  status VARCHAR(20) NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'acknowledged', 'exhausted')),
+  next_escalation_at TIMESTAMPTZ,
+  acknowledged_at TIMESTAMPTZ,
+  acknowledged_by VARCHAR(200),
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 5. Crear tabla de pasos ejecutados (registro de cada escalamiento)
+CREATE TABLE IF NOT EXISTS alert_escalation_steps (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  escalation_id UUID NOT NULL REFERENCES alert_escalations(id) ON DELETE CASCADE,
+  step_order INTEGER NOT NULL,
+  role VARCHAR(30) NOT NULL,
+  contacts JSONB DEFAULT '[]', -- [{ name, channel, recipient }]
+  notifications_queued INTEGER DEFAULT 0,
+  note TEXT,
+  executed_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 6. Índices
+CREATE UNIQUE INDEX IF NOT EXISTS idx_alert_escalations_alert ON alert_escalations(alert_id);
+CREATE INDEX IF NOT EXISTS idx_alert_escalations_due
+  ON alert_escalations(next_escalation_at)
+  WHERE status = 'active';
+CREATE UNIQUE INDEX IF NOT EXISTS idx_alert_escalation_steps_unique
+  ON alert_escalation_steps(escalation_id, step_order);
+CREATE INDEX IF NOT EXISTS idx_on_call_roster_shift ON on_call_roster(role, starts_at, ends_at);
+CREATE INDEX IF NOT EXISTS idx_escalation_policies_contract ON escalation_policies(contract);
+
+-- 7. Triggers para updated_at
+DROP TRIGGER IF EXISTS update_escalation_policies_updated_at ON escalation_policies;
+CREATE TRIGGER update_escalation_policies_updated_at
+  BEFORE UPDATE ON escalation_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_on_call_roster_updated_at ON on_call_roster;
+CREATE TRIGGER update_on_call_roster_updated_at
+  BEFORE UPDATE ON on_call_roster
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_alert_escalations_updated_at ON alert_escalations;
+CREATE TRIGGER update_alert_escalations_updated_at
+  BEFORE UPDATE ON alert_escalations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 8. RLS (Row Level Security)
+ALTER TABLE escalation_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE on_call_roster ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alert_escalations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE alert_escalation_steps ENABLE ROW LEVEL SECURITY;
+
+-- Política temporal: acceso completo (ajustar en producción)
+CREATE POLICY "Enable all access for escalation_policies" ON escalation_policies
+  FOR ALL USING (true) WITH CHECK (true);
+
+CREATE POLICY "Enable all access for on_call_roster" ON on_call_roster
+  FOR ALL USING (true) WITH CHECK (true);
+
+CREATE POLICY "Enable all access for alert_escalations" ON alert_escalations
+  FOR ALL USING (true) WITH CHECK (true);
+
+CREATE POLICY "Enable all access for alert_escalation_steps" ON alert_escalation_steps
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- 9. Política global inicial: Botón de Pánico y Colisión
+INSERT INTO escalation_policies (name, contract, alert_types, min_severity, steps, created_by)
+SELECT
+  'Eventos críticos (global)',
+  NULL,
+  ARRAY['Botón de Pánico', 'Colisión'],
+  'critical',
+  '[
+    {"role": "shift_operator", "wait_minutes": 0, "channels": ["telegram", "whatsapp"]},
+    {"role": "supervisor", "wait_minutes": 10, "channels": ["telegram", "whatsapp", "email"]},
+    {"role": "contract_manager", "wait_minutes": 15, "channels": ["whatsapp", "email"]}
+  ]'::jsonb,
+  'Sistema'
+WHERE NOT EXISTS (SELECT 1 FROM escalation_policies WHERE contract IS NULL);
+
+-- =====================================================
+-- VERIFICACIÓN
+-- =====================================================
+
+SELECT table_name
+FROM information_schema.tables
+WHERE table_schema = 'public'
+AND table_name IN ('escalation_policies', 'on_call_roster', 'alert_escalations', 'alert_escalation_steps');
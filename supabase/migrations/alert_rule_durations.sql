@@ -0,0 +1,46 @@
+-- =====================================================
+-- TABLA: alert_rule_durations (Inicio de las condiciones de alerta en curso)
+-- Ejecutar en Supabase SQL Editor DESPUÉS de alert_rules.sql
+-- =====================================================
+
+-- 1. Crear tabla
+-- Una fila por (vehículo, regla) mientras se cumple la condición de una regla
+-- con duración mínima (minDurationMinutes). La mantiene el worker alert-monitor
+-- para que la duración no vuelva a empezar en cada arranque en frío;
+-- ver supabase/functions/_shared/alertRuleDurations.ts
+CREATE TABLE IF NOT EXISTS alert_rule_durations (
+  plate VARCHAR(50) NOT NULL,
+  rule_id VARCHAR(100) NOT NULL, -- id de la regla en DEFAULT_ALERT_RULES
+
+  started_at TIMESTAMPTZ NOT NULL, -- Hora del reporte en que empezó la condición
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  PRIMARY KEY (plate, rule_id)
+);
+
+-- 2. Índices
+CREATE INDEX IF NOT EXISTS idx_alert_rule_durations_rule ON alert_rule_durations(rule_id);
+
+-- 3. Trigger para updated_at
+DROP TRIGGER IF EXISTS update_alert_rule_durations_updated_at ON alert_rule_durations;
+CREATE TRIGGER update_alert_rule_durations_updated_at
+  BEFORE UPDATE ON alert_rule_durations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 4. RLS (Row Level Security)
+-- Las políticas se generan en role_policies.sql (sin acceso para authenticated:
+-- solo el worker con service role). Volver a ejecutar role_policies.sql
+-- después de esta migración.
+ALTER TABLE alert_rule_durations ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- VERIFICACIÓN
+-- =====================================================
+
+SELECT table_name
+FROM information_schema.tables
+WHERE table_schema = 'public'
+AND table_name IN ('alert_rule_durations');
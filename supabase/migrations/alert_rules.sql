@@ -0,0 +1,64 @@
+-- =====================================================
+-- TABLA: alert_rules (Umbrales de alerta por contrato / tipo de vehículo)
+-- Ejecutar en Supabase SQL Editor
+-- =====================================================
+
+-- 1. Crear tabla de reglas
+-- contract y vehicle_type NULL = aplica a todos.
+-- Los umbrales NULL se heredan de la regla menos específica:
+--   contrato + tipo → contrato → tipo de vehículo → global → valores por defecto
+-- Ver supabase/functions/_shared/alertThresholds.ts
+CREATE TABLE IF NOT EXISTS alert_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+
+  -- Alcance
+  contract VARCHAR(200),
+  vehicle_type VARCHAR(100),
+
+  -- Umbrales
+  speed_limit NUMERIC(6, 2) CHECK (speed_limit > 0),              -- km/h
+  idle_time_minutes INTEGER CHECK (idle_time_minutes > 0),        -- minutos
+  low_fuel_percent NUMERIC(5, 2) CHECK (low_fuel_percent BETWEEN 0 AND 100),
+
+  description TEXT,
+  is_active BOOLEAN DEFAULT true,
+
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  created_by VARCHAR(200) DEFAULT 'Sistema'
+);
+
+-- 2. Índices
+-- Una sola regla por combinación contrato / tipo de vehículo
+CREATE UNIQUE INDEX IF NOT EXISTS idx_alert_rules_scope
+  ON alert_rules(COALESCE(UPPER(contract), ''), COALESCE(UPPER(vehicle_type), ''));
+CREATE INDEX IF NOT EXISTS idx_alert_rules_active ON alert_rules(is_active);
+
+-- 3. Trigger para updated_at
+DROP TRIGGER IF EXISTS update_alert_rules_updated_at ON alert_rules;
+CREATE TRIGGER update_alert_rules_updated_at
+  BEFORE UPDATE ON alert_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 4. RLS (Row Level Security)
+ALTER TABLE alert_rules ENABLE ROW LEVEL SECURITY;
+
+-- Política temporal: acceso completo (ajustar en producción)
+CREATE POLICY "Enable all access for alert_rules" ON alert_rules
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- 5. Regla global con los valores actuales
+INSERT INTO alert_rules (contract, vehicle_type, speed_limit, idle_time_minutes, low_fuel_percent, description)
+VALUES (NULL, NULL, 80, 10, 15, 'Valores por defecto para toda la flota')
+ON CONFLICT DO NOTHING;
+
+-- =====================================================
+-- VERIFICACIÓN
+-- =====================================================
+
+SELECT table_name
+FROM information_schema.tables
+WHERE table_schema = 'public'
+AND table_name IN ('alert_rules');
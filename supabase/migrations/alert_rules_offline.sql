@@ -0,0 +1,27 @@
+-- =====================================================
+-- UMBRAL "SIN SEÑAL" EN alert_rules
+-- Ejecutar en Supabase SQL Editor DESPUÉS de alert_rules.sql
+-- =====================================================
+
+-- 1. Agregar columna offline_minutes
+-- Minutos sin reportar tras los cuales el vehículo pasa a "Sin Señal" y se
+-- genera la alerta "Sin Señal GPS". NULL = se hereda (60 min por defecto).
+-- Ver supabase/functions/_shared/communicationHealth.ts
+ALTER TABLE alert_rules
+  ADD COLUMN IF NOT EXISTS offline_minutes INTEGER CHECK (offline_minutes > 0);
+
+-- 2. Valor de la regla global
+UPDATE alert_rules
+SET offline_minutes = 60
+WHERE contract IS NULL
+AND vehicle_type IS NULL
+AND offline_minutes IS NULL;
+
+-- =====================================================
+-- VERIFICACIÓN
+-- =====================================================
+
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'alert_rules'
+AND column_name = 'offline_minutes';
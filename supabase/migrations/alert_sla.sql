@@ -0,0 +1,91 @@
+-- =====================================================
+-- ASIGNACIÓN Y SLA DE ALERTAS EN SEGUIMIENTO
+-- Ejecutar en Supabase SQL Editor DESPUÉS de alert_escalations.sql
+-- =====================================================
+
+-- 1. Responsable, tiempos y banderas de incumplimiento en alert_history
+-- ack_due_at / resolve_due_at se fijan al guardar la alerta con la meta vigente,
+-- así un cambio posterior de metas no reescribe el historial auditado.
+-- Ver supabase/functions/_shared/alertSla.ts
+ALTER TABLE alert_history
+  ADD COLUMN IF NOT EXISTS assigned_to VARCHAR(200),
+  ADD COLUMN IF NOT EXISTS assigned_by VARCHAR(200),
+  ADD COLUMN IF NOT EXISTS assigned_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS acknowledged_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS acknowledged_by VARCHAR(200),
+  ADD COLUMN IF NOT EXISTS resolved_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS resolved_by VARCHAR(200),
+  ADD COLUMN IF NOT EXISTS ack_due_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS resolve_due_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS ack_sla_breached BOOLEAN DEFAULT false,
+  ADD COLUMN IF NOT EXISTS resolution_sla_breached BOOLEAN DEFAULT false;
+
+-- 2. Crear tabla de metas de SLA por severidad
+-- contract NULL = meta global (se usa si el contrato no tiene meta propia)
+-- Minutos contados desde la hora del evento (alert_history.timestamp)
+CREATE TABLE IF NOT EXISTS alert_sla_targets (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  contract VARCHAR(200),
+  severity VARCHAR(20) NOT NULL CHECK (severity IN ('critical', 'high', 'medium', 'low')),
+  ack_minutes INTEGER NOT NULL CHECK (ack_minutes > 0),
+  resolve_minutes INTEGER NOT NULL CHECK (resolve_minutes > 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (resolve_minutes >= ack_minutes)
+);
+
+-- 3. Índices
+CREATE UNIQUE INDEX IF NOT EXISTS idx_alert_sla_targets_unique
+  ON alert_sla_targets(COALESCE(contract, ''), severity);
+CREATE INDEX IF NOT EXISTS idx_alert_history_assigned_to ON alert_history(assigned_to);
+CREATE INDEX IF NOT EXISTS idx_alert_history_contract ON alert_history(contract);
+CREATE INDEX IF NOT EXISTS idx_alert_history_ack_due
+  ON alert_history(ack_due_at)
+  WHERE acknowledged_at IS NULL AND ack_sla_breached = false;
+CREATE INDEX IF NOT EXISTS idx_alert_history_resolve_due
+  ON alert_history(resolve_due_at)
+  WHERE resolved_at IS NULL AND resolution_sla_breached = false;
+
+-- 4. Trigger para updated_at
+DROP TRIGGER IF EXISTS update_alert_sla_targets_updated_at ON alert_sla_targets;
+CREATE TRIGGER update_alert_sla_targets_updated_at
+  BEFORE UPDATE ON alert_sla_targets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 5. RLS (Row Level Security)
+ALTER TABLE alert_sla_targets ENABLE ROW LEVEL SECURITY;
+
+-- Política temporal: acceso completo (ajustar en producción)
+CREATE POLICY "Enable all access for alert_sla_targets" ON alert_sla_targets
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- 6. Metas globales iniciales (mismos valores que DEFAULT_SLA_TARGETS)
+INSERT INTO alert_sla_targets (contract, severity, ack_minutes, resolve_minutes)
+SELECT NULL, v.severity, v.ack_minutes, v.resolve_minutes
+FROM (VALUES
+  ('critical', 5, 60),
+  ('high', 15, 240),
+  ('medium', 60, 1440),
+  ('low', 240, 4320)
+) AS v(severity, ack_minutes, resolve_minutes)
+WHERE NOT EXISTS (SELECT 1 FROM alert_sla_targets WHERE contract IS NULL);
+
+-- 7. Vencimientos de las alertas ya guardadas (meta global)
+UPDATE alert_history h
+SET
+  ack_due_at = h.timestamp + make_interval(mins => t.ack_minutes),
+  resolve_due_at = h.timestamp + make_interval(mins => t.resolve_minutes)
+FROM alert_sla_targets t
+WHERE t.contract IS NULL
+  AND t.severity = h.severity
+  AND h.ack_due_at IS NULL;
+
+-- =====================================================
+-- VERIFICACIÓN
+-- =====================================================
+
+SELECT severity, ack_minutes, resolve_minutes
+FROM alert_sla_targets
+WHERE contract IS NULL
+ORDER BY ack_minutes;
@@ -0,0 +1,87 @@
+-- =====================================================
+-- LÍMITE DE PETICIONES DE LAS FUNCIONES /api
+-- Ejecutar en Supabase SQL Editor DESPUÉS de contract_scope.sql
+-- =====================================================
+
+-- /api/coltrack, /api/fagor, /api/google-sheets, /api/inspections y
+-- /api/integrations cuentan las peticiones de cada usuario (o del worker)
+-- por endpoint en ventanas fijas de un minuto (ver api/_lib/apiAuth.ts).
+-- Solo las funciones de Vercel con la service role key leen o escriben aquí.
+
+-- 1. Crear tabla de contadores
+-- Una fila por clave (endpoint:tipo:id); se reinicia al empezar otra ventana
+CREATE TABLE IF NOT EXISTS api_rate_limits (
+  key VARCHAR(200) PRIMARY KEY, -- ej. 'coltrack:user:<uuid>'
+  window_start TIMESTAMPTZ NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 2. Trigger para updated_at
+DROP TRIGGER IF EXISTS update_api_rate_limits_updated_at ON api_rate_limits;
+CREATE TRIGGER update_api_rate_limits_updated_at
+  BEFORE UPDATE ON api_rate_limits
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 3. RLS sin políticas: ni anon ni authenticated acceden (service_role las omite)
+ALTER TABLE api_rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- 4. Consumir una petición de forma atómica
+-- Retorna {"allowed", "remaining", "reset_at"}; el UPSERT bloquea la fila,
+-- así dos instancias de la función no cuentan la misma petición dos veces
+CREATE OR REPLACE FUNCTION public.consume_api_rate_limit(
+  p_key TEXT,
+  p_limit INTEGER,
+  p_window_seconds INTEGER
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_window_start TIMESTAMPTZ;
+  v_count INTEGER;
+BEGIN
+  v_window_start := to_timestamp(
+    floor(extract(epoch FROM NOW()) / p_window_seconds) * p_window_seconds
+  );
+
+  INSERT INTO api_rate_limits (key, window_start, request_count)
+  VALUES (p_key, v_window_start, 1)
+  ON CONFLICT (key) DO UPDATE SET
+    request_count = CASE
+      WHEN api_rate_limits.window_start = EXCLUDED.window_start
+        THEN api_rate_limits.request_count + 1
+      ELSE 1
+    END,
+    window_start = EXCLUDED.window_start
+  RETURNING request_count INTO v_count;
+
+  RETURN json_build_object(
+    'allowed', v_count <= p_limit,
+    'remaining', GREATEST(p_limit - v_count, 0),
+    'reset_at', v_window_start + make_interval(secs => p_window_seconds)
+  );
+END;
+$$;
+
+-- 5. Grants: solo service_role
+REVOKE ALL ON FUNCTION public.consume_api_rate_limit FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.consume_api_rate_limit TO service_role;
+
+-- =====================================================
+-- VERIFICACIÓN
+-- =====================================================
+
+SELECT tablename, rowsecurity
+FROM pg_tables
+WHERE schemaname = 'public'
+  AND tablename = 'api_rate_limits';
+
+SELECT routine_name
+FROM information_schema.routines
+WHERE routine_schema = 'public'
+  AND routine_name = 'consume_api_rate_limit';
@@ -0,0 +1,144 @@
+-- =====================================================
+-- ALCANCE POR CONTRATO (USUARIOS CLIENTE)
+-- Ejecutar en Supabase SQL Editor DESPUÉS de role_permissions.sql
+-- y antes de role_policies.sql (las políticas usan estas funciones)
+-- =====================================================
+
+-- Los usuarios con el permiso 'contract:all' ven todos los contratos.
+-- El resto (ej. client_viewer de SIERRACOL) solo ve las filas de los
+-- contratos asignados en user_profiles.contracts; sin contratos no ve nada.
+-- /api/coltrack, /api/fagor y /api/google-sheets aplican el mismo alcance
+-- al feed de flota con get_my_contract_scope().
+
+-- 1. Contratos asignados al usuario
+-- Mismo texto que la columna contract de las tablas (contrato de la hoja de vehículos)
+ALTER TABLE public.user_profiles
+  ADD COLUMN IF NOT EXISTS contracts TEXT[] NOT NULL DEFAULT '{}';
+
+-- 2. Funciones que usan las políticas
+-- SECURITY DEFINER para leer user_profiles y vehicle_engine_states sin pasar por sus políticas
+
+CREATE OR REPLACE FUNCTION public.can_access_contract(p_contract TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_permission('contract:all') OR EXISTS (
+    SELECT 1
+    FROM public.user_profiles
+    WHERE id = auth.uid()
+      AND is_active
+      AND p_contract = ANY(contracts)
+  );
+$$;
+
+-- Tablas sin columna de contrato (eventos de ignición y de geocercas):
+-- el contrato del vehículo es el último que registró el worker en vehicle_engine_states
+CREATE OR REPLACE FUNCTION public.can_access_plate(p_plate TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_permission('contract:all') OR EXISTS (
+    SELECT 1
+    FROM public.vehicle_engine_states s
+    JOIN public.user_profiles up ON up.id = auth.uid()
+    WHERE s.plate = p_plate
+      AND up.is_active
+      AND s.contract = ANY(up.contracts)
+  );
+$$;
+
+-- Alcance del usuario actual para /api: {"all": true|false, "contracts": [...]}
+CREATE OR REPLACE FUNCTION public.get_my_contract_scope()
+RETURNS JSON
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT json_build_object(
+    'all', public.has_permission('contract:all'),
+    'contracts', COALESCE(
+      (SELECT contracts FROM public.user_profiles WHERE id = auth.uid() AND is_active),
+      '{}'::TEXT[]
+    )
+  );
+$$;
+
+-- 3. Asignar contratos a un usuario (requiere user:edit)
+CREATE OR REPLACE FUNCTION public.set_user_contracts(
+  p_user_id UUID,
+  p_contracts TEXT[]
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_contracts TEXT[];
+BEGIN
+  IF NOT public.has_permission('user:edit') THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'No tienes permiso para editar usuarios'
+    );
+  END IF;
+
+  -- Sin vacíos ni repetidos
+  SELECT COALESCE(array_agg(DISTINCT trim(c) ORDER BY trim(c)), '{}')
+  INTO v_contracts
+  FROM unnest(COALESCE(p_contracts, '{}')) AS c
+  WHERE trim(c) <> '';
+
+  UPDATE public.user_profiles
+  SET
+    contracts = v_contracts,
+    updated_at = NOW()
+  WHERE id = p_user_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'contracts', v_contracts
+  );
+END;
+$$;
+
+-- 4. Índice para la política por contrato de saved_alerts
+-- (alert_history, vehicle_positions y las tablas de gestión ya lo tienen)
+CREATE INDEX IF NOT EXISTS idx_saved_alerts_contract ON saved_alerts(contract);
+
+-- 5. Vistas: con los permisos de quien consulta, no los del dueño
+-- Sin security_invoker, vehicle_latest_positions se salta las políticas por
+-- contrato de vehicle_positions y muestra la última posición de toda la flota
+ALTER VIEW IF EXISTS vehicle_latest_positions SET (security_invoker = true);
+
+-- 6. Grants
+GRANT EXECUTE ON FUNCTION public.can_access_contract TO authenticated;
+GRANT EXECUTE ON FUNCTION public.can_access_plate TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_my_contract_scope TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_user_contracts TO authenticated;
+
+-- =====================================================
+-- VERIFICACIÓN
+-- =====================================================
+
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_schema = 'public'
+  AND table_name = 'user_profiles'
+  AND column_name = 'contracts';
+
+SELECT routine_name
+FROM information_schema.routines
+WHERE routine_schema = 'public'
+  AND routine_name IN ('can_access_contract', 'can_access_plate', 'get_my_contract_scope', 'set_user_contracts');
+
+SELECT relname, reloptions
+FROM pg_class
+WHERE relname = 'vehicle_latest_positions';
@@ -0,0 +1,176 @@
+-- =====================================================
+-- DOCUMENTOS DE CONDUCTORES Y VENCIMIENTOS
+-- Ejecutar en Supabase SQL Editor DESPUÉS de driver_matching.sql y notification_dispatch.sql
+-- =====================================================
+
+-- Licencias de conducción, certificados médicos y cursos de cada conductor con
+-- su fecha de vencimiento y el archivo escaneado (bucket privado "driver-documents").
+-- - La licencia vigente (la que vence más tarde) se copia a drivers.license_number,
+--   license_category y license_expiry (trigger sync_driver_license), que ya no se
+--   editan en el formulario del conductor
+-- - La Edge Function driver-compliance (cron diario) avisa los documentos que
+--   vencen en 30, 15 y 7 días y los vencidos (notified_threshold guarda el último aviso)
+-- - alert-monitor genera la alerta "Conductor con Licencia Vencida" cuando un vehículo
+--   en movimiento reporta un conductor (vinculado con driver_name_aliases) con la
+--   licencia vencida
+-- La lógica está en supabase/functions/_shared/driverCompliance.ts.
+-- Lectura con management:view; cargar y editar documentos requiere fleet:edit.
+
+-- 1. Crear tabla de documentos
+CREATE TABLE IF NOT EXISTS driver_documents (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  driver_id UUID NOT NULL REFERENCES drivers(id) ON DELETE CASCADE,
+
+  document_type VARCHAR(20) NOT NULL
+    CHECK (document_type IN ('license', 'medical', 'course')),
+  name VARCHAR(200), -- curso o certificado ("Manejo defensivo", "Examen psicosensométrico")
+  document_number VARCHAR(100),
+  category VARCHAR(10), -- licencia: A1, A2, B1, B2, B3, C1, C2, C3
+  issuer VARCHAR(200), -- entidad que lo expide
+  issued_at DATE,
+  expires_at DATE, -- NULL = no vence
+
+  -- Archivo adjunto (ruta en el bucket "driver-documents")
+  file_path VARCHAR(500),
+  file_name VARCHAR(255),
+  file_size INTEGER,
+  file_type VARCHAR(100),
+
+  notes TEXT,
+  notified_threshold SMALLINT, -- último aviso enviado: 30, 15, 7 o 0 (vencido)
+
+  created_by VARCHAR(200),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 2. Índices
+CREATE INDEX IF NOT EXISTS idx_driver_documents_driver ON driver_documents(driver_id, document_type);
+CREATE INDEX IF NOT EXISTS idx_driver_documents_expires ON driver_documents(expires_at) WHERE expires_at IS NOT NULL;
+
+-- 3. Trigger para updated_at
+DROP TRIGGER IF EXISTS update_driver_documents_updated_at ON driver_documents;
+CREATE TRIGGER update_driver_documents_updated_at
+  BEFORE UPDATE ON driver_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 4. Al renovar un documento (cambia el vencimiento) los avisos empiezan de nuevo
+CREATE OR REPLACE FUNCTION public.reset_driver_document_notice()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.expires_at IS DISTINCT FROM OLD.expires_at THEN
+    NEW.notified_threshold := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reset_driver_document_notice ON driver_documents;
+CREATE TRIGGER reset_driver_document_notice
+  BEFORE UPDATE OF expires_at ON driver_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reset_driver_document_notice();
+
+-- 5. Licencia vigente en drivers (la que vence más tarde; sin vencimiento cuenta como vigente)
+CREATE OR REPLACE FUNCTION public.sync_driver_license()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_driver UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.driver_id ELSE NEW.driver_id END;
+  v_license public.driver_documents%ROWTYPE;
+BEGIN
+  SELECT * INTO v_license
+  FROM public.driver_documents
+  WHERE driver_id = v_driver AND document_type = 'license'
+  ORDER BY expires_at DESC NULLS FIRST, created_at DESC
+  LIMIT 1;
+
+  UPDATE public.drivers
+  SET license_number = v_license.document_number,
+      license_category = v_license.category,
+      license_expiry = v_license.expires_at
+  WHERE id = v_driver
+    AND (license_number IS DISTINCT FROM v_license.document_number
+      OR license_category IS DISTINCT FROM v_license.category
+      OR license_expiry IS DISTINCT FROM v_license.expires_at);
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_driver_license ON driver_documents;
+CREATE TRIGGER sync_driver_license
+  AFTER INSERT OR UPDATE OR DELETE ON driver_documents
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_driver_license();
+
+-- 6. RLS (Row Level Security)
+-- Las políticas se generan en role_policies.sql. Volver a ejecutar role_policies.sql
+-- después de esta migración.
+ALTER TABLE driver_documents ENABLE ROW LEVEL SECURITY;
+
+-- 7. Bucket privado para los archivos
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('driver-documents', 'driver-documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Descarga: el archivo se puede leer si su fila de driver_documents es visible
+-- para el usuario (la consulta interna aplica las políticas de driver_documents)
+DROP POLICY IF EXISTS "Descarga de documentos de conductores" ON storage.objects;
+CREATE POLICY "Descarga de documentos de conductores" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'driver-documents'
+    AND EXISTS (SELECT 1 FROM public.driver_documents d WHERE d.file_path = storage.objects.name)
+  );
+
+-- Carga y eliminación: fleet:edit (la app sube el archivo antes de guardar la fila
+-- y lo borra al reemplazarlo o eliminar el documento)
+DROP POLICY IF EXISTS "Carga de documentos de conductores" ON storage.objects;
+CREATE POLICY "Carga de documentos de conductores" ON storage.objects
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    bucket_id = 'driver-documents'
+    AND public.has_permission('fleet:edit')
+  );
+
+DROP POLICY IF EXISTS "Eliminación de documentos de conductores" ON storage.objects;
+CREATE POLICY "Eliminación de documentos de conductores" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (
+    bucket_id = 'driver-documents'
+    AND public.has_permission('fleet:edit')
+  );
+
+-- 8. Licencias ya registradas en drivers como primer documento de cada conductor
+INSERT INTO driver_documents (driver_id, document_type, name, document_number, category, expires_at, created_by)
+SELECT d.id, 'license', 'Licencia de conducción', d.license_number, d.license_category, d.license_expiry, 'Migración'
+FROM drivers d
+WHERE (d.license_number IS NOT NULL OR d.license_expiry IS NOT NULL)
+  AND NOT EXISTS (
+    SELECT 1 FROM driver_documents x WHERE x.driver_id = d.id AND x.document_type = 'license'
+  );
+
+-- =====================================================
+-- VERIFICACIÓN
+-- =====================================================
+
+SELECT tablename, rowsecurity
+FROM pg_tables
+WHERE schemaname = 'public'
+  AND tablename = 'driver_documents';
+
+SELECT id, public FROM storage.buckets WHERE id = 'driver-documents';
+
+SELECT document_type,
+  COUNT(*) AS documentos,
+  COUNT(*) FILTER (WHERE expires_at < CURRENT_DATE) AS vencidos,
+  COUNT(*) FILTER (WHERE expires_at BETWEEN CURRENT_DATE AND CURRENT_DATE + 30) AS vencen_30_dias
+FROM driver_documents
+GROUP BY document_type;
@@ -0,0 +1,286 @@
+-- =====================================================
+-- VINCULACIÓN DE CONDUCTORES DEL GPS CON EL REGISTRO
+-- Ejecutar en Supabase SQL Editor DESPUÉS de drivers_and_geofences.sql y driver_scores.sql
+-- =====================================================
+
+-- Coltrack y Fagor envían el conductor como texto libre. Cada nombre distinto
+-- (normalizado) queda en driver_name_aliases y se vincula a un conductor de
+-- drivers. saved_alerts, preoperational_inspections e idle_time_records guardan
+-- el conductor vinculado en driver_id:
+-- - Al insertar (trigger link_driver_id): alias vinculado, o si no el único
+--   conductor activo con la placa asignada (drivers.assigned_vehicle)
+-- - Al vincular o corregir un alias (relink_driver_alias): registros de los últimos 90 días
+-- La Edge Function driver-matching (cron cada 15 minutos) vincula los alias pendientes
+-- por nombre exacto, normalizado o parecido; lo que no alcanza queda para revisión
+-- en Gestión → Conductores → Vinculación GPS.
+-- Ver supabase/functions/_shared/driverMatching.ts
+
+-- 1. Extensión para quitar tildes
+CREATE EXTENSION IF NOT EXISTS unaccent WITH SCHEMA extensions;
+
+-- 2. Clave del nombre: mayúsculas, sin tildes ni espacios repetidos
+-- (misma normalización y nombres "sin conductor" que driverKey() en driverMatching.ts)
+CREATE OR REPLACE FUNCTION public.driver_name_key(p_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  SELECT CASE
+    WHEN k IN ('', 'DESCONOCIDO', 'SIN CONDUCTOR', 'SIN ASIGNAR', 'NO ASIGNADO', 'N/A', 'NA', 'NINGUNO') THEN NULL
+    ELSE k
+  END
+  FROM (
+    SELECT btrim(regexp_replace(upper(extensions.unaccent(COALESCE(p_name, ''))), '\s+', ' ', 'g')) AS k
+  ) AS normalized;
+$$;
+
+-- 3. Crear tabla de alias (un nombre del GPS = una fila)
+CREATE TABLE IF NOT EXISTS driver_name_aliases (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name_key VARCHAR(200) NOT NULL UNIQUE,
+  raw_name VARCHAR(200) NOT NULL, -- como lo escribió el GPS la primera vez
+  driver_id UUID REFERENCES drivers(id) ON DELETE SET NULL,
+
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'matched', 'ignored')),
+  method VARCHAR(20)
+    CHECK (method IN ('exact', 'normalized', 'fuzzy', 'plate', 'manual')),
+  confidence NUMERIC(4, 3), -- 0 a 1
+  candidates JSONB NOT NULL DEFAULT '[]', -- sugerencias para la revisión
+
+  last_plate VARCHAR(50),
+  occurrences INTEGER NOT NULL DEFAULT 1, -- registros que llegaron con este nombre
+  first_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  reviewed_by VARCHAR(200),
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_driver_name_aliases_status ON driver_name_aliases(status, last_seen_at DESC);
+CREATE INDEX IF NOT EXISTS idx_driver_name_aliases_driver ON driver_name_aliases(driver_id);
+
+DROP TRIGGER IF EXISTS update_driver_name_aliases_updated_at ON driver_name_aliases;
+CREATE TRIGGER update_driver_name_aliases_updated_at
+  BEFORE UPDATE ON driver_name_aliases
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 4. Conductor vinculado en alertas, inspecciones, ralentí y puntajes
+ALTER TABLE saved_alerts
+  ADD COLUMN IF NOT EXISTS driver_id UUID REFERENCES drivers(id) ON DELETE SET NULL;
+ALTER TABLE preoperational_inspections
+  ADD COLUMN IF NOT EXISTS driver_id UUID REFERENCES drivers(id) ON DELETE SET NULL;
+ALTER TABLE idle_time_records
+  ADD COLUMN IF NOT EXISTS driver_id UUID REFERENCES drivers(id) ON DELETE SET NULL;
+ALTER TABLE driver_scores
+  ADD COLUMN IF NOT EXISTS driver_id UUID REFERENCES drivers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_saved_alerts_driver_id ON saved_alerts(driver_id);
+CREATE INDEX IF NOT EXISTS idx_inspections_driver_id ON preoperational_inspections(driver_id);
+CREATE INDEX IF NOT EXISTS idx_idle_time_records_driver_id ON idle_time_records(driver_id);
+CREATE INDEX IF NOT EXISTS idx_driver_scores_driver_id ON driver_scores(driver_id);
+
+-- 5. Respaldo por placa: el único conductor activo con el vehículo asignado
+CREATE OR REPLACE FUNCTION public.assigned_driver_for_plate(p_plate TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE WHEN COUNT(*) = 1 THEN (array_agg(id))[1] END
+  FROM public.drivers
+  WHERE status = 'active'
+    AND regexp_replace(upper(COALESCE(assigned_vehicle, '')), '[^A-Z0-9]', '', 'g') <> ''
+    AND regexp_replace(upper(COALESCE(assigned_vehicle, '')), '[^A-Z0-9]', '', 'g')
+      = regexp_replace(upper(COALESCE(p_plate, '')), '[^A-Z0-9]', '', 'g');
+$$;
+
+-- 6. Trigger: registra el nombre en driver_name_aliases y fija driver_id
+CREATE OR REPLACE FUNCTION public.link_driver_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_key TEXT := public.driver_name_key(NEW.driver);
+  v_alias public.driver_name_aliases%ROWTYPE;
+BEGIN
+  IF v_key IS NOT NULL THEN
+    INSERT INTO public.driver_name_aliases (name_key, raw_name, last_plate)
+    VALUES (v_key, btrim(NEW.driver), NEW.plate)
+    ON CONFLICT (name_key) DO UPDATE SET
+      last_plate = EXCLUDED.last_plate,
+      occurrences = public.driver_name_aliases.occurrences + 1,
+      last_seen_at = NOW()
+    RETURNING * INTO v_alias;
+
+    IF v_alias.status = 'matched' AND v_alias.driver_id IS NOT NULL THEN
+      NEW.driver_id := v_alias.driver_id;
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  NEW.driver_id := public.assigned_driver_for_plate(NEW.plate);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS link_driver_id_insert ON saved_alerts;
+CREATE TRIGGER link_driver_id_insert
+  BEFORE INSERT ON saved_alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION link_driver_id();
+
+DROP TRIGGER IF EXISTS link_driver_id_update ON saved_alerts;
+CREATE TRIGGER link_driver_id_update
+  BEFORE UPDATE OF driver ON saved_alerts
+  FOR EACH ROW
+  WHEN (OLD.driver IS DISTINCT FROM NEW.driver)
+  EXECUTE FUNCTION link_driver_id();
+
+DROP TRIGGER IF EXISTS link_driver_id_insert ON preoperational_inspections;
+CREATE TRIGGER link_driver_id_insert
+  BEFORE INSERT ON preoperational_inspections
+  FOR EACH ROW
+  EXECUTE FUNCTION link_driver_id();
+
+DROP TRIGGER IF EXISTS link_driver_id_update ON preoperational_inspections;
+CREATE TRIGGER link_driver_id_update
+  BEFORE UPDATE OF driver ON preoperational_inspections
+  FOR EACH ROW
+  WHEN (OLD.driver IS DISTINCT FROM NEW.driver)
+  EXECUTE FUNCTION link_driver_id();
+
+DROP TRIGGER IF EXISTS link_driver_id_insert ON idle_time_records;
+CREATE TRIGGER link_driver_id_insert
+  BEFORE INSERT ON idle_time_records
+  FOR EACH ROW
+  EXECUTE FUNCTION link_driver_id();
+
+DROP TRIGGER IF EXISTS link_driver_id_update ON idle_time_records;
+CREATE TRIGGER link_driver_id_update
+  BEFORE UPDATE OF driver ON idle_time_records
+  FOR EACH ROW
+  WHEN (OLD.driver IS DISTINCT FROM NEW.driver)
+  EXECUTE FUNCTION link_driver_id();
+
+-- 7. Volver a vincular los registros de un alias (requiere fleet:edit o service role)
+-- Alias sin vincular o ignorado: los registros vuelven al respaldo por placa
+CREATE OR REPLACE FUNCTION public.relink_driver_alias(p_name_key TEXT)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_alias public.driver_name_aliases%ROWTYPE;
+  v_driver UUID;
+  v_rows INTEGER;
+  v_total INTEGER := 0;
+BEGIN
+  IF auth.role() <> 'service_role' AND NOT public.has_permission('fleet:edit') THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'No tienes permiso para vincular conductores'
+    );
+  END IF;
+
+  SELECT * INTO v_alias FROM public.driver_name_aliases WHERE name_key = p_name_key;
+  IF NOT FOUND THEN
+    RETURN json_build_object('success', false, 'error', 'Nombre no encontrado');
+  END IF;
+
+  v_driver := CASE WHEN v_alias.status = 'matched' THEN v_alias.driver_id END;
+
+  UPDATE public.saved_alerts
+  SET driver_id = COALESCE(v_driver, public.assigned_driver_for_plate(plate))
+  WHERE timestamp >= NOW() - INTERVAL '90 days'
+    AND public.driver_name_key(driver) = p_name_key
+    AND driver_id IS DISTINCT FROM COALESCE(v_driver, public.assigned_driver_for_plate(plate));
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  v_total := v_total + v_rows;
+
+  UPDATE public.preoperational_inspections
+  SET driver_id = COALESCE(v_driver, public.assigned_driver_for_plate(plate))
+  WHERE inspection_date >= CURRENT_DATE - 90
+    AND public.driver_name_key(driver) = p_name_key
+    AND driver_id IS DISTINCT FROM COALESCE(v_driver, public.assigned_driver_for_plate(plate));
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  v_total := v_total + v_rows;
+
+  UPDATE public.idle_time_records
+  SET driver_id = COALESCE(v_driver, public.assigned_driver_for_plate(plate))
+  WHERE start_datetime >= NOW() - INTERVAL '90 days'
+    AND public.driver_name_key(driver) = p_name_key
+    AND driver_id IS DISTINCT FROM COALESCE(v_driver, public.assigned_driver_for_plate(plate));
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  v_total := v_total + v_rows;
+
+  RETURN json_build_object('success', true, 'updated', v_total);
+END;
+$$;
+
+-- 8. RLS (Row Level Security)
+-- Lectura con management:view; la revisión (vincular, ignorar) requiere fleet:edit.
+-- Las políticas se generan en role_policies.sql. Volver a ejecutar role_policies.sql
+-- después de esta migración.
+ALTER TABLE driver_name_aliases ENABLE ROW LEVEL SECURITY;
+
+-- 9. Grants
+GRANT EXECUTE ON FUNCTION public.driver_name_key TO authenticated;
+GRANT EXECUTE ON FUNCTION public.relink_driver_alias TO authenticated;
+
+-- 10. Nombres de los últimos 90 días a la cola de revisión y respaldo por placa
+-- de los registros existentes (el worker vincula los alias en su siguiente ejecución)
+INSERT INTO driver_name_aliases (name_key, raw_name, last_plate, occurrences, first_seen_at, last_seen_at)
+SELECT
+  name_key,
+  (array_agg(raw_name ORDER BY seen_at))[1],
+  (array_agg(plate ORDER BY seen_at DESC))[1],
+  COUNT(*),
+  MIN(seen_at),
+  MAX(seen_at)
+FROM (
+  SELECT public.driver_name_key(driver) AS name_key, btrim(driver) AS raw_name, plate, timestamp AS seen_at
+  FROM saved_alerts WHERE timestamp >= NOW() - INTERVAL '90 days'
+  UNION ALL
+  SELECT public.driver_name_key(driver), btrim(driver), plate, inspection_date::TIMESTAMPTZ
+  FROM preoperational_inspections WHERE inspection_date >= CURRENT_DATE - 90
+  UNION ALL
+  SELECT public.driver_name_key(driver), btrim(driver), plate, start_datetime
+  FROM idle_time_records WHERE start_datetime >= NOW() - INTERVAL '90 days'
+) AS names
+WHERE name_key IS NOT NULL
+GROUP BY name_key
+ON CONFLICT (name_key) DO NOTHING;
+
+UPDATE saved_alerts SET driver_id = public.assigned_driver_for_plate(plate)
+WHERE driver_id IS NULL AND timestamp >= NOW() - INTERVAL '90 days';
+UPDATE preoperational_inspections SET driver_id = public.assigned_driver_for_plate(plate)
+WHERE driver_id IS NULL AND inspection_date >= CURRENT_DATE - 90;
+UPDATE idle_time_records SET driver_id = public.assigned_driver_for_plate(plate)
+WHERE driver_id IS NULL AND start_datetime >= NOW() - INTERVAL '90 days';
+
+-- =====================================================
+-- VERIFICACIÓN
+-- =====================================================
+
+SELECT tablename, rowsecurity
+FROM pg_tables
+WHERE schemaname = 'public'
+  AND tablename = 'driver_name_aliases';
+
+SELECT table_name, column_name
+FROM information_schema.columns
+WHERE column_name = 'driver_id'
+  AND table_name IN ('saved_alerts', 'preoperational_inspections', 'idle_time_records', 'driver_scores');
+
+SELECT status, COUNT(*) AS nombres, SUM(occurrences) AS registros
+FROM driver_name_aliases
+GROUP BY status;
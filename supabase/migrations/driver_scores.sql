@@ -0,0 +1,75 @@
+-- =====================================================
+-- PUNTAJE DE CONDUCCIÓN POR CONDUCTOR
+-- Ejecutar en Supabase SQL Editor DESPUÉS de saved_alerts_episodes.sql y contract_scope.sql
+-- =====================================================
+
+-- La Edge Function driver-scoring (cron cada hora) calcula el puntaje diario de
+-- cada conductor de hoy y ayer a partir de saved_alerts (excesos de velocidad,
+-- eventos bruscos, pánico), idle_time_records, preoperational_inspections y el
+-- recorrido de vehicle_positions, y con los diarios arma el semanal y el mensual.
+-- El modelo está en supabase/functions/_shared/driverScoring.ts.
+-- Cada fila es un conductor en un período: el histórico permite ver la tendencia.
+
+-- 1. Crear tabla de puntajes
+CREATE TABLE IF NOT EXISTS driver_scores (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  driver_key VARCHAR(200) NOT NULL, -- nombre normalizado (mayúsculas, sin tildes)
+  driver_name VARCHAR(200) NOT NULL,
+  contract VARCHAR(200), -- contrato con más actividad del conductor en el período
+  plates TEXT[] DEFAULT '{}',
+
+  period VARCHAR(20) NOT NULL
+    CHECK (period IN ('daily', 'weekly', 'monthly')),
+  period_start DATE NOT NULL, -- hora de Colombia; semanas de lunes a domingo
+
+  -- Conteos del período
+  km NUMERIC(10, 1) NOT NULL DEFAULT 0,
+  speeding_episodes INTEGER NOT NULL DEFAULT 0,
+  harsh_events INTEGER NOT NULL DEFAULT 0,
+  panic_events INTEGER NOT NULL DEFAULT 0,
+  idle_minutes NUMERIC(10, 1) NOT NULL DEFAULT 0,
+  missed_inspections NUMERIC(6, 1) NOT NULL DEFAULT 0, -- "Fuera de tiempo" cuenta 0.5
+
+  -- Resultado
+  score SMALLINT NOT NULL CHECK (score BETWEEN 0 AND 100),
+  penalties JSONB NOT NULL DEFAULT '{}', -- puntos descontados por factor
+
+  computed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 2. Índices
+-- Un puntaje por conductor y período (el worker hace upsert sobre esta clave)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_driver_scores_driver_period
+  ON driver_scores(driver_key, period, period_start);
+CREATE INDEX IF NOT EXISTS idx_driver_scores_period ON driver_scores(period, period_start DESC);
+CREATE INDEX IF NOT EXISTS idx_driver_scores_contract ON driver_scores(contract);
+
+-- 3. Trigger para updated_at
+DROP TRIGGER IF EXISTS update_driver_scores_updated_at ON driver_scores;
+CREATE TRIGGER update_driver_scores_updated_at
+  BEFORE UPDATE ON driver_scores
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 4. RLS (Row Level Security)
+-- Lectura con analytics:view y por contrato; solo escribe el worker (service role).
+-- Las políticas se generan en role_policies.sql. Volver a ejecutar role_policies.sql
+-- después de esta migración.
+ALTER TABLE driver_scores ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- VERIFICACIÓN
+-- =====================================================
+
+SELECT tablename, rowsecurity
+FROM pg_tables
+WHERE schemaname = 'public'
+  AND tablename = 'driver_scores';
+
+SELECT period, period_start, COUNT(*) AS conductores, ROUND(AVG(score)) AS puntaje_promedio
+FROM driver_scores
+GROUP BY period, period_start
+ORDER BY period, period_start DESC
+LIMIT 20;
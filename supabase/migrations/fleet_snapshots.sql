@@ -0,0 +1,45 @@
+-- =====================================================
+-- SNAPSHOT DE LA FLOTA PARA /api/fleet
+-- Ejecutar en Supabase SQL Editor DESPUÉS de api_rate_limits.sql
+-- =====================================================
+
+-- La ingesta (api/_lib/fleetSnapshot.ts, disparada por el worker alert-monitor)
+-- guarda aquí la última lectura normalizada de Coltrack y Fagor. Todos los
+-- navegadores leen /api/fleet, que sirve esta fila filtrada por contrato;
+-- nadie más consulta a los proveedores.
+-- Solo las funciones de Vercel con la service role key leen o escriben aquí.
+
+-- 1. Crear tabla
+-- Una fila por snapshot vigente (id = 'latest'); cada ingesta la reemplaza
+CREATE TABLE IF NOT EXISTS fleet_snapshots (
+  id VARCHAR(50) PRIMARY KEY,
+  version VARCHAR(64) NOT NULL, -- hash del contenido, base del ETag
+  captured_at TIMESTAMPTZ NOT NULL,
+  vehicles JSONB NOT NULL DEFAULT '[]', -- Vehicle[] (types.ts) de toda la flota
+  providers JSONB NOT NULL DEFAULT '{}', -- estado por proveedor: {"coltrack": {"status", "vehicleCount", "error"}}
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 2. Trigger para updated_at
+DROP TRIGGER IF EXISTS update_fleet_snapshots_updated_at ON fleet_snapshots;
+CREATE TRIGGER update_fleet_snapshots_updated_at
+  BEFORE UPDATE ON fleet_snapshots
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 3. RLS sin políticas: ni anon ni authenticated acceden (service_role las omite)
+-- El filtro por contrato lo aplica /api/fleet
+ALTER TABLE fleet_snapshots ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- VERIFICACIÓN
+-- =====================================================
+
+SELECT tablename, rowsecurity
+FROM pg_tables
+WHERE schemaname = 'public'
+  AND tablename = 'fleet_snapshots';
+
+SELECT id, version, captured_at, jsonb_array_length(vehicles) AS vehicles
+FROM fleet_snapshots;
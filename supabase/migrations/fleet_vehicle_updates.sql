@@ -0,0 +1,62 @@
+-- =====================================================
+-- CAMBIOS INCREMENTALES DE LA FLOTA (STREAM AL NAVEGADOR)
+-- Ejecutar en Supabase SQL Editor DESPUÉS de fleet_snapshots.sql
+-- =====================================================
+
+-- Cada ingesta del snapshot (api/_lib/fleetSnapshot.ts) inserta aquí una fila
+-- por vehículo que cambió o salió de la flota. Los navegadores la escuchan por
+-- Supabase Realtime y aplican solo esos cambios en lugar de volver a pedir la
+-- flota completa. seq es el punto de reanudación: al reconectar, la consola pide
+-- las filas con seq mayor a la última que aplicó.
+-- Las filas se conservan una hora; quien estuvo desconectado más tiempo recarga
+-- el snapshot completo desde /api/fleet.
+
+-- 1. Secuencia del snapshot: último seq incluido en fleet_snapshots.vehicles
+ALTER TABLE fleet_snapshots ADD COLUMN IF NOT EXISTS sequence BIGINT NOT NULL DEFAULT 0;
+
+-- 2. Crear tabla
+CREATE TABLE IF NOT EXISTS fleet_vehicle_updates (
+  seq BIGSERIAL PRIMARY KEY,
+  vehicle_key VARCHAR(150) NOT NULL, -- "<proveedor>:<placa>" (fleetVehicleKey)
+  plate VARCHAR(50) NOT NULL,
+  contract VARCHAR(100), -- alcance por contrato de las políticas RLS
+  removed BOOLEAN NOT NULL DEFAULT false,
+  vehicle JSONB, -- Vehicle (types.ts) completo; NULL si el vehículo salió de la flota
+  snapshot_version VARCHAR(64) NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 3. Índices
+CREATE INDEX IF NOT EXISTS idx_fleet_vehicle_updates_created_at ON fleet_vehicle_updates(created_at);
+CREATE INDEX IF NOT EXISTS idx_fleet_vehicle_updates_contract ON fleet_vehicle_updates(contract);
+
+-- 4. RLS (Row Level Security)
+-- Las políticas por permiso y contrato se generan en role_policies.sql:
+-- lectura con fleet:view, escritura solo con service role.
+-- Volver a ejecutar role_policies.sql después de esta migración.
+ALTER TABLE fleet_vehicle_updates ENABLE ROW LEVEL SECURITY;
+
+-- 5. Realtime: publicar las filas nuevas
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'fleet_vehicle_updates'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE fleet_vehicle_updates;
+  END IF;
+END $$;
+
+-- =====================================================
+-- VERIFICACIÓN
+-- =====================================================
+
+SELECT pubname, tablename
+FROM pg_publication_tables
+WHERE tablename = 'fleet_vehicle_updates';
+
+SELECT id, version, sequence, captured_at
+FROM fleet_snapshots;
+
+SELECT MIN(seq) AS oldest, MAX(seq) AS latest, COUNT(*) AS updates
+FROM fleet_vehicle_updates;
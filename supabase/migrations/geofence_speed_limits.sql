@@ -0,0 +1,27 @@
+-- =====================================================
+-- ZONAS DE VELOCIDAD (límite por geocerca)
+-- Ejecutar en Supabase SQL Editor DESPUÉS de drivers_and_geofences.sql
+-- =====================================================
+
+-- 1. Agregar columnas de límite de velocidad a geofences
+-- Una geocerca con speed_limit_kmh es una zona de velocidad: dentro de ella
+-- el exceso de velocidad se mide contra ese límite en lugar del límite del contrato.
+-- Si el vehículo está en varias zonas, gana la más restrictiva.
+-- Ver supabase/functions/_shared/geofenceEngine.ts (resolveSpeedLimit)
+ALTER TABLE geofences
+  ADD COLUMN IF NOT EXISTS speed_limit_kmh NUMERIC(6, 2) CHECK (speed_limit_kmh > 0),
+  ADD COLUMN IF NOT EXISTS speed_tolerance_kmh NUMERIC(6, 2) DEFAULT 0 CHECK (speed_tolerance_kmh >= 0);
+
+-- 2. Índices
+CREATE INDEX IF NOT EXISTS idx_geofences_speed_limit
+  ON geofences(speed_limit_kmh)
+  WHERE speed_limit_kmh IS NOT NULL;
+
+-- =====================================================
+-- VERIFICACIÓN
+-- =====================================================
+
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'geofences'
+AND column_name IN ('speed_limit_kmh', 'speed_tolerance_kmh');
@@ -0,0 +1,47 @@
+-- =====================================================
+-- TABLA: geofence_vehicle_states (Estado dentro/fuera por geocerca)
+-- Ejecutar en Supabase SQL Editor DESPUÉS de drivers_and_geofences.sql
+-- =====================================================
+
+-- 1. Crear tabla de estados
+-- Una fila por (geocerca, vehículo) con el último estado conocido.
+-- La usan el frontend y el worker alert-monitor para detectar entradas/salidas
+-- entre consultas; ver supabase/functions/_shared/geofenceEngine.ts
+CREATE TABLE IF NOT EXISTS geofence_vehicle_states (
+  geofence_id UUID NOT NULL REFERENCES geofences(id) ON DELETE CASCADE,
+  vehicle_plate VARCHAR(50) NOT NULL,
+
+  is_inside BOOLEAN NOT NULL,
+  last_event_at TIMESTAMPTZ, -- Hora del último evento de entrada/salida
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  PRIMARY KEY (geofence_id, vehicle_plate)
+);
+
+-- 2. Índices
+CREATE INDEX IF NOT EXISTS idx_geofence_vehicle_states_plate ON geofence_vehicle_states(vehicle_plate);
+
+-- 3. Trigger para updated_at
+DROP TRIGGER IF EXISTS update_geofence_vehicle_states_updated_at ON geofence_vehicle_states;
+CREATE TRIGGER update_geofence_vehicle_states_updated_at
+  BEFORE UPDATE ON geofence_vehicle_states
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 4. RLS (Row Level Security)
+ALTER TABLE geofence_vehicle_states ENABLE ROW LEVEL SECURITY;
+
+-- Política temporal: acceso completo (ajustar en producción)
+CREATE POLICY "Enable all access for geofence_vehicle_states" ON geofence_vehicle_states
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- =====================================================
+-- VERIFICACIÓN
+-- =====================================================
+
+SELECT table_name
+FROM information_schema.tables
+WHERE table_schema = 'public'
+AND table_name IN ('geofence_vehicle_states');
@@ -0,0 +1,89 @@
+-- =====================================================
+-- COLA COMPARTIDA DE ALERTAS ACTIVAS (TIEMPO REAL)
+-- Ejecutar en Supabase SQL Editor DESPUÉS de alert_sla.sql
+-- =====================================================
+
+-- 1. Crear tabla de alertas activas
+-- Reemplaza el caché fleet_alerts de cada navegador: todas las consolas ven la misma
+-- cola y reciben los cambios por Supabase Realtime (ver services/liveAlertQueueService.ts)
+-- alert_id es el id que genera el detector: `${vehicleId}-${type}-${timestamp}`,
+-- el mismo en todas las consolas para la misma lectura.
+CREATE TABLE IF NOT EXISTS live_alerts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  alert_id VARCHAR(200) NOT NULL,
+  vehicle_id VARCHAR(100) NOT NULL,
+  plate VARCHAR(50) NOT NULL,
+  driver VARCHAR(200),
+  type VARCHAR(100) NOT NULL,
+  severity VARCHAR(20) NOT NULL CHECK (severity IN ('critical', 'high', 'medium', 'low')),
+  timestamp TIMESTAMPTZ NOT NULL,
+  location VARCHAR(500),
+  latitude NUMERIC(10, 7),
+  longitude NUMERIC(10, 7),
+  speed NUMERIC(10, 2) DEFAULT 0,
+  details TEXT,
+  contract VARCHAR(200),
+  source VARCHAR(50),
+
+  -- active = en la cola; saved = pasó al historial de seguimiento
+  -- (las guardadas se conservan hasta la retención para no volver a publicarlas)
+  status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'saved')),
+
+  -- Quién la está atendiendo (tomada desde una consola)
+  claimed_by VARCHAR(200),
+  claimed_at TIMESTAMPTZ,
+
+  -- Reporte por WhatsApp: solo una consola puede marcarla como enviada
+  sent BOOLEAN DEFAULT false,
+  sent_at TIMESTAMPTZ,
+  sent_by VARCHAR(200),
+
+  acknowledged_at TIMESTAMPTZ,
+  acknowledged_by VARCHAR(200),
+  saved_at TIMESTAMPTZ,
+  saved_by VARCHAR(200),
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 2. Índices
+CREATE UNIQUE INDEX IF NOT EXISTS idx_live_alerts_alert_id ON live_alerts(alert_id);
+CREATE INDEX IF NOT EXISTS idx_live_alerts_timestamp ON live_alerts(timestamp DESC);
+CREATE INDEX IF NOT EXISTS idx_live_alerts_vehicle_type ON live_alerts(vehicle_id, type, timestamp DESC);
+
+-- 3. Trigger para updated_at
+DROP TRIGGER IF EXISTS update_live_alerts_updated_at ON live_alerts;
+CREATE TRIGGER update_live_alerts_updated_at
+  BEFORE UPDATE ON live_alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 4. RLS (Row Level Security)
+ALTER TABLE live_alerts ENABLE ROW LEVEL SECURITY;
+
+-- Política temporal: acceso completo (ajustar en producción)
+CREATE POLICY "Enable all access for live_alerts" ON live_alerts
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- 5. Realtime: publicar los cambios de la tabla
+-- REPLICA IDENTITY FULL para que los DELETE lleguen con alert_id
+ALTER TABLE live_alerts REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'live_alerts'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE live_alerts;
+  END IF;
+END $$;
+
+-- =====================================================
+-- VERIFICACIÓN
+-- =====================================================
+
+SELECT pubname, tablename
+FROM pg_publication_tables
+WHERE tablename = 'live_alerts';
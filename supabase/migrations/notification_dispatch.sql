@@ -0,0 +1,105 @@
+-- =====================================================
+-- NOTIFICACIONES: destinatarios y registro de envíos
+-- Ejecutar en Supabase SQL Editor DESPUÉS de saved_alerts_episodes.sql
+-- =====================================================
+
+-- 1. Crear tabla de configuración de notificaciones
+-- Reemplaza la configuración de correo, Telegram y WhatsApp que antes vivía en
+-- el localStorage de cada navegador. contract NULL = aplica a todos los contratos;
+-- una alerta se envía a los destinatarios de todas las filas activas que le apliquen.
+CREATE TABLE IF NOT EXISTS notification_settings (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  contract VARCHAR(200), -- NULL = todos los contratos
+  min_severity VARCHAR(20) NOT NULL DEFAULT 'high'
+    CHECK (min_severity IN ('low', 'medium', 'high', 'critical')),
+
+  email_enabled BOOLEAN DEFAULT false,
+  email_recipients TEXT[] DEFAULT '{}',
+  telegram_enabled BOOLEAN DEFAULT false,
+  telegram_chat_ids TEXT[] DEFAULT '{}',
+  whatsapp_enabled BOOLEAN DEFAULT false,
+  whatsapp_numbers TEXT[] DEFAULT '{}',
+
+  is_active BOOLEAN DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 2. Crear tabla de envíos (registro y cola de reintentos)
+-- Una fila por alerta + canal + destinatario. La procesa la Edge Function
+-- notification-dispatcher; ver supabase/functions/_shared/notificationDispatch.ts
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  alert_id VARCHAR(100) NOT NULL, -- saved_alerts.alert_id
+  plate VARCHAR(50),
+  alert_type VARCHAR(100),
+  severity VARCHAR(20),
+  contract VARCHAR(200),
+
+  channel VARCHAR(20) NOT NULL CHECK (channel IN ('email', 'telegram', 'whatsapp')),
+  recipient VARCHAR(200) NOT NULL,
+  subject VARCHAR(300),
+  message TEXT NOT NULL,
+
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  next_attempt_at TIMESTAMPTZ DEFAULT NOW(),
+  last_error TEXT,
+  provider_message_id VARCHAR(200),
+  transport VARCHAR(20), -- 'live' o 'standin'
+  sent_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 3. Índices
+CREATE INDEX IF NOT EXISTS idx_notification_settings_contract ON notification_settings(contract);
+
+-- Cada alerta se encola una sola vez por canal y destinatario
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notification_deliveries_unique
+  ON notification_deliveries(alert_id, channel, recipient);
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_queue
+  ON notification_deliveries(status, next_attempt_at)
+  WHERE status IN ('pending', 'sending');
+CREATE INDEX IF NOT EXISTS idx_notification_deliveries_created ON notification_deliveries(created_at DESC);
+
+-- 4. Triggers para updated_at
+DROP TRIGGER IF EXISTS update_notification_settings_updated_at ON notification_settings;
+CREATE TRIGGER update_notification_settings_updated_at
+  BEFORE UPDATE ON notification_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_notification_deliveries_updated_at ON notification_deliveries;
+CREATE TRIGGER update_notification_deliveries_updated_at
+  BEFORE UPDATE ON notification_deliveries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 5. RLS (Row Level Security)
+ALTER TABLE notification_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Política temporal: acceso completo (ajustar en producción)
+CREATE POLICY "Enable all access for notification_settings" ON notification_settings
+  FOR ALL USING (true) WITH CHECK (true);
+
+CREATE POLICY "Enable all access for notification_deliveries" ON notification_deliveries
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- 6. Configuración global inicial (canales desactivados)
+INSERT INTO notification_settings (contract, min_severity)
+SELECT NULL, 'high'
+WHERE NOT EXISTS (SELECT 1 FROM notification_settings WHERE contract IS NULL);
+
+-- =====================================================
+-- VERIFICACIÓN
+-- =====================================================
+
+SELECT table_name
+FROM information_schema.tables
+WHERE table_schema = 'public'
+AND table_name IN ('notification_settings', 'notification_deliveries');
@@ -0,0 +1,27 @@
+-- =====================================================
+-- FORMATO PDF EN REPORTES PROGRAMADOS
+-- Ejecutar en Supabase SQL Editor DESPUÉS de report_schedules.sql
+-- =====================================================
+
+-- report-scheduler genera el PDF con _shared/reportPdf.ts (pdf-lib), con las
+-- mismas definiciones que el HTML y el CSV.
+
+-- 1. Permitir 'pdf' en las programaciones y en el archivo
+ALTER TABLE report_schedules DROP CONSTRAINT IF EXISTS report_schedules_format_check;
+ALTER TABLE report_schedules ADD CONSTRAINT report_schedules_format_check
+  CHECK (format IN ('html', 'csv', 'pdf'));
+
+-- 2. PDF como formato por defecto de las programaciones nuevas
+ALTER TABLE report_schedules ALTER COLUMN format SET DEFAULT 'pdf';
+
+-- =====================================================
+-- VERIFICACIÓN
+-- =====================================================
+
+SELECT conname, pg_get_constraintdef(oid)
+FROM pg_constraint
+WHERE conname = 'report_schedules_format_check';
+
+SELECT format, COUNT(*)
+FROM report_schedules
+GROUP BY format;
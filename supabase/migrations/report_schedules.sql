@@ -0,0 +1,116 @@
+-- =====================================================
+-- REPORTES PROGRAMADOS Y ARCHIVO DE REPORTES
+-- Ejecutar en Supabase SQL Editor DESPUÉS de notification_dispatch.sql y contract_scope.sql
+-- =====================================================
+
+-- La Edge Function report-scheduler (cron cada 15 minutos) genera los reportes
+-- cuya hora llegó, los guarda en el bucket privado "reports", registra cada
+-- archivo en generated_reports y encola el correo a los destinatarios en
+-- notification_deliveries. La lógica está en supabase/functions/_shared/reportSchedules.ts.
+-- Las horas de ejecución son hora de Colombia (UTC-5).
+
+-- 1. Crear tabla de programaciones
+CREATE TABLE IF NOT EXISTS report_schedules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name VARCHAR(200) NOT NULL,
+  report_type VARCHAR(30) NOT NULL
+    CHECK (report_type IN ('alerts', 'inspections', 'fleet')),
+  contract VARCHAR(200), -- NULL = todos los contratos
+  period VARCHAR(20) NOT NULL DEFAULT 'daily'
+    CHECK (period IN ('daily', 'weekly', 'monthly')),
+  run_time TIME NOT NULL DEFAULT '07:00', -- hora de Colombia
+  weekday SMALLINT CHECK (weekday BETWEEN 0 AND 6), -- semanal: 0 = domingo, 1 = lunes
+  day_of_month SMALLINT CHECK (day_of_month BETWEEN 1 AND 28), -- mensual
+  format VARCHAR(10) NOT NULL DEFAULT 'html'
+    CHECK (format IN ('html', 'csv')),
+  recipients TEXT[] DEFAULT '{}', -- correos
+
+  is_active BOOLEAN DEFAULT true,
+  next_run_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_run_at TIMESTAMPTZ,
+  last_status VARCHAR(20) CHECK (last_status IN ('generated', 'failed')),
+  last_error TEXT,
+
+  created_by VARCHAR(200),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 2. Crear tabla del archivo de reportes generados
+CREATE TABLE IF NOT EXISTS generated_reports (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  schedule_id UUID REFERENCES report_schedules(id) ON DELETE SET NULL,
+  name VARCHAR(200) NOT NULL,
+  report_type VARCHAR(30) NOT NULL,
+  contract VARCHAR(200),
+  period_start TIMESTAMPTZ NOT NULL,
+  period_end TIMESTAMPTZ NOT NULL,
+  format VARCHAR(10) NOT NULL,
+  file_path VARCHAR(500) NOT NULL, -- ruta en el bucket "reports"
+  file_size INTEGER,
+  row_count INTEGER DEFAULT 0,
+  recipients TEXT[] DEFAULT '{}',
+  generated_at TIMESTAMPTZ DEFAULT NOW(),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 3. Índices
+CREATE INDEX IF NOT EXISTS idx_report_schedules_next_run ON report_schedules(next_run_at) WHERE is_active;
+CREATE INDEX IF NOT EXISTS idx_report_schedules_contract ON report_schedules(contract);
+CREATE INDEX IF NOT EXISTS idx_generated_reports_generated_at ON generated_reports(generated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_generated_reports_schedule ON generated_reports(schedule_id);
+CREATE INDEX IF NOT EXISTS idx_generated_reports_contract ON generated_reports(contract);
+
+-- 4. Trigger para updated_at
+DROP TRIGGER IF EXISTS update_report_schedules_updated_at ON report_schedules;
+CREATE TRIGGER update_report_schedules_updated_at
+  BEFORE UPDATE ON report_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 5. RLS (Row Level Security)
+-- Las políticas por permiso (report:view, report:manage) y contrato se generan
+-- en role_policies.sql. Volver a ejecutar role_policies.sql después de esta migración.
+ALTER TABLE report_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE generated_reports ENABLE ROW LEVEL SECURITY;
+
+-- 6. Bucket privado para los archivos
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('reports', 'reports', false)
+ON CONFLICT (id) DO NOTHING;
+
+-- Descarga: el archivo se puede leer si su fila de generated_reports es visible
+-- para el usuario (la consulta interna aplica las políticas de generated_reports)
+DROP POLICY IF EXISTS "Descarga de reportes generados" ON storage.objects;
+CREATE POLICY "Descarga de reportes generados" ON storage.objects
+  FOR SELECT TO authenticated
+  USING (
+    bucket_id = 'reports'
+    AND EXISTS (SELECT 1 FROM public.generated_reports r WHERE r.file_path = storage.objects.name)
+  );
+
+-- Eliminación desde el archivo: report:manage sobre un reporte visible
+-- (la app borra el archivo antes que su fila de generated_reports)
+DROP POLICY IF EXISTS "Eliminación de reportes generados" ON storage.objects;
+CREATE POLICY "Eliminación de reportes generados" ON storage.objects
+  FOR DELETE TO authenticated
+  USING (
+    bucket_id = 'reports'
+    AND public.has_permission('report:manage')
+    AND EXISTS (SELECT 1 FROM public.generated_reports r WHERE r.file_path = storage.objects.name)
+  );
+
+-- =====================================================
+-- VERIFICACIÓN
+-- =====================================================
+
+SELECT tablename, rowsecurity
+FROM pg_tables
+WHERE schemaname = 'public'
+  AND tablename IN ('report_schedules', 'generated_reports');
+
+SELECT id, public FROM storage.buckets WHERE id = 'reports';
+
+SELECT name, report_type, period, run_time, next_run_at, last_status
+FROM report_schedules
+ORDER BY next_run_at;
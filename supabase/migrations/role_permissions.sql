@@ -0,0 +1,264 @@
+-- =====================================================
+-- ROLES Y PERMISOS
+-- Ejecutar en Supabase SQL Editor DESPUÉS de create_user_profiles_system.sql
+-- y antes de contract_scope.sql y role_policies.sql (roles del sistema y políticas RLS generadas)
+-- =====================================================
+
+-- Los roles y sus permisos se definen en supabase/functions/_shared/rolePermissions.ts.
+-- Este script crea la tabla de roles y las funciones que usan las políticas;
+-- role_policies.sql (generado) carga los roles del sistema y crea las políticas.
+
+-- 1. Crear tabla de roles
+-- permissions: claves de Permission ('alert:view', 'history:edit', ...)
+CREATE TABLE IF NOT EXISTS app_roles (
+  key VARCHAR(50) PRIMARY KEY CHECK (key ~ '^[a-z][a-z0-9_]{1,49}$'),
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  permissions TEXT[] NOT NULL DEFAULT '{}',
+  -- Roles del sistema: definidos en el código, no se editan ni eliminan desde la consola
+  is_system BOOLEAN DEFAULT false,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 2. Trigger para updated_at
+DROP TRIGGER IF EXISTS update_app_roles_updated_at ON app_roles;
+CREATE TRIGGER update_app_roles_updated_at
+  BEFORE UPDATE ON app_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 3. Proteger roles del sistema
+-- Desde la API (auth.uid() presente) no se modifican; role_policies.sql sí los
+-- actualiza porque corre en el SQL Editor sin usuario
+CREATE OR REPLACE FUNCTION public.protect_system_roles()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL AND OLD.is_system THEN
+    RAISE EXCEPTION 'El rol % es del sistema y no se puede modificar', OLD.key;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    IF EXISTS (SELECT 1 FROM public.user_profiles WHERE role = OLD.key) THEN
+      RAISE EXCEPTION 'El rol % está asignado a usuarios', OLD.key;
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS protect_app_roles ON app_roles;
+CREATE TRIGGER protect_app_roles
+  BEFORE UPDATE OR DELETE ON app_roles
+  FOR EACH ROW
+  EXECUTE FUNCTION public.protect_system_roles();
+
+-- 4. user_profiles.role acepta cualquier rol de app_roles
+ALTER TABLE public.user_profiles DROP CONSTRAINT IF EXISTS user_profiles_role_check;
+
+-- 5. Funciones que usan las políticas
+-- SECURITY DEFINER para leer user_profiles sin pasar por sus propias políticas
+
+-- Rol del usuario actual (user_profiles es la fuente; user_metadata lo edita el propio usuario)
+-- Reemplaza la versión de secure_rls_policies.sql, que leía el claim 'role' del JWT
+-- (en Supabase siempre es 'authenticated')
+CREATE OR REPLACE FUNCTION public.get_user_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT role FROM public.user_profiles WHERE id = auth.uid() AND is_active),
+    'viewer'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_permission(p_permission TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.user_profiles up
+    JOIN public.app_roles r ON r.key = up.role
+    WHERE up.id = auth.uid()
+      AND up.is_active
+      AND p_permission = ANY(r.permissions)
+  );
+$$;
+
+-- 6. Sincronización auth.users -> user_profiles
+-- El rol ya no se copia en cada actualización de auth.users: un usuario puede
+-- cambiar su propio user_metadata con supabase.auth.updateUser y subirse de rol.
+-- El rol se asigna con update_user_metadata (requiere user:edit).
+CREATE OR REPLACE FUNCTION public.sync_user_profile()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_role TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_role := NEW.raw_user_meta_data->>'role';
+    IF v_role IS NULL OR NOT EXISTS (SELECT 1 FROM public.app_roles WHERE key = v_role) THEN
+      v_role := 'operator';
+    END IF;
+
+    INSERT INTO public.user_profiles (id, email, name, role, last_login)
+    VALUES (
+      NEW.id,
+      NEW.email,
+      COALESCE(NEW.raw_user_meta_data->>'name', NEW.email::text),
+      v_role,
+      NEW.last_sign_in_at
+    )
+    ON CONFLICT (id) DO NOTHING;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' THEN
+    UPDATE public.user_profiles
+    SET
+      email = NEW.email,
+      name = COALESCE(NEW.raw_user_meta_data->>'name', NEW.email::text),
+      last_login = CASE
+        WHEN NEW.last_sign_in_at IS NOT NULL AND
+             (OLD.last_sign_in_at IS NULL OR NEW.last_sign_in_at > OLD.last_sign_in_at)
+        THEN NEW.last_sign_in_at
+        ELSE last_login
+      END,
+      updated_at = NOW()
+    WHERE id = NEW.id;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    DELETE FROM public.user_profiles WHERE id = OLD.id;
+    RETURN OLD;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- 7. Funciones de gestión de usuarios con permisos en lugar de role = 'admin'
+CREATE OR REPLACE FUNCTION public.create_user_account(
+  p_email TEXT,
+  p_password TEXT,
+  p_name TEXT,
+  p_role TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT public.has_permission('user:create') THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'No tienes permiso para crear usuarios'
+    );
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.app_roles WHERE key = p_role) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Rol inválido: ' || p_role
+    );
+  END IF;
+
+  -- Nota: La creación real del usuario debe hacerse desde Supabase Auth
+  -- Esta función solo valida permisos
+  RETURN json_build_object(
+    'success', true,
+    'message', 'Use Supabase signUp for user creation'
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_user_metadata(
+  p_user_id UUID,
+  p_name TEXT,
+  p_role TEXT
+)
+RETURNS JSON
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT public.has_permission('user:edit') THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'No tienes permiso para editar usuarios'
+    );
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.app_roles WHERE key = p_role) THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'Rol inválido: ' || p_role
+    );
+  END IF;
+
+  -- Nadie se quita a sí mismo la administración de roles
+  IF p_user_id = auth.uid() AND NOT EXISTS (
+    SELECT 1 FROM public.app_roles
+    WHERE key = p_role AND 'role:manage' = ANY(permissions)
+  ) AND public.has_permission('role:manage') THEN
+    RETURN json_build_object(
+      'success', false,
+      'error', 'No puedes quitarte el permiso de administrar roles'
+    );
+  END IF;
+
+  -- Metadata solo para mostrar; el rol efectivo es el de user_profiles
+  UPDATE auth.users
+  SET raw_user_meta_data =
+    COALESCE(raw_user_meta_data, '{}'::jsonb) ||
+    jsonb_build_object(
+      'name', p_name,
+      'role', p_role
+    )
+  WHERE id = p_user_id;
+
+  UPDATE public.user_profiles
+  SET
+    name = p_name,
+    role = p_role,
+    updated_at = NOW()
+  WHERE id = p_user_id;
+
+  RETURN json_build_object(
+    'success', true,
+    'message', 'Usuario actualizado correctamente'
+  );
+END;
+$$;
+
+-- 8. Grants
+GRANT SELECT, INSERT, UPDATE, DELETE ON app_roles TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_user_role TO authenticated;
+GRANT EXECUTE ON FUNCTION public.has_permission TO authenticated;
+
+-- 9. RLS
+-- Las políticas de app_roles, user_profiles y el resto de tablas están en role_policies.sql
+ALTER TABLE app_roles ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- VERIFICACIÓN
+-- =====================================================
+
+SELECT routine_name
+FROM information_schema.routines
+WHERE routine_schema = 'public'
+  AND routine_name IN ('get_user_role', 'has_permission', 'sync_user_profile', 'update_user_metadata');
@@ -0,0 +1,492 @@
+-- =====================================================
+-- ROLES DEL SISTEMA Y POLÍTICAS RLS POR PERMISO
+-- Ejecutar en Supabase SQL Editor DESPUÉS de role_permissions.sql y contract_scope.sql
+-- =====================================================
+
+-- ⚠️ GENERADO desde supabase/functions/_shared/rolePermissions.ts
+-- (Gestión de Usuarios → Roles y permisos → SQL de políticas).
+-- No editar a mano: cambiar la definición y volver a generar.
+
+-- 1. Roles del sistema
+INSERT INTO app_roles (key, name, description, permissions, is_system) VALUES
+  ('admin', 'Administrador', 'Control total', ARRAY['user:view', 'user:create', 'user:edit', 'user:delete', 'role:manage', 'alert:view', 'alert:create', 'alert:edit', 'alert:delete', 'alert:export', 'fleet:view', 'fleet:edit', 'contract:all', 'management:view', 'saved_alerts:view', 'saved_alerts:export', 'history:view', 'history:create', 'history:edit', 'history:delete', 'analytics:view', 'report:view', 'report:manage', 'config:view', 'config:edit', 'audit:view']::TEXT[], true),
+  ('supervisor', 'Supervisor', 'Opera la torre y ajusta reglas, escalamiento y SLA', ARRAY['alert:view', 'alert:export', 'fleet:view', 'contract:all', 'management:view', 'saved_alerts:view', 'saved_alerts:export', 'history:view', 'analytics:view', 'report:view', 'config:view', 'alert:create', 'alert:edit', 'fleet:edit', 'history:create', 'history:edit', 'user:view', 'config:edit', 'report:manage', 'audit:view']::TEXT[], true),
+  ('operator', 'Operador', 'Atiende alertas y hace seguimiento', ARRAY['alert:view', 'alert:export', 'fleet:view', 'contract:all', 'management:view', 'saved_alerts:view', 'saved_alerts:export', 'history:view', 'analytics:view', 'report:view', 'config:view', 'alert:create', 'alert:edit', 'fleet:edit', 'history:create', 'history:edit']::TEXT[], true),
+  ('viewer', 'Visor', 'Solo lectura', ARRAY['alert:view', 'alert:export', 'fleet:view', 'contract:all', 'management:view', 'saved_alerts:view', 'saved_alerts:export', 'history:view', 'analytics:view', 'report:view', 'config:view']::TEXT[], true),
+  ('client_viewer', 'Cliente (visor)', 'Consulta de flota, alertas e historial de sus contratos', ARRAY['fleet:view', 'alert:view', 'alert:export', 'history:view', 'analytics:view', 'report:view']::TEXT[], true)
+ON CONFLICT (key) DO UPDATE SET
+  name = EXCLUDED.name,
+  description = EXCLUDED.description,
+  permissions = EXCLUDED.permissions,
+  is_system = EXCLUDED.is_system;
+
+-- 2. user_profiles
+ALTER TABLE user_profiles ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Users can view all profiles" ON user_profiles;
+DROP POLICY IF EXISTS "Only admins can insert profiles" ON user_profiles;
+DROP POLICY IF EXISTS "Only admins can update profiles" ON user_profiles;
+DROP POLICY IF EXISTS "Only admins can delete profiles" ON user_profiles;
+DROP POLICY IF EXISTS "Permiso lectura user_profiles" ON user_profiles;
+CREATE POLICY "Permiso lectura user_profiles" ON user_profiles
+  FOR SELECT TO authenticated USING (true);
+DROP POLICY IF EXISTS "Permiso inserción user_profiles" ON user_profiles;
+CREATE POLICY "Permiso inserción user_profiles" ON user_profiles
+  FOR INSERT TO authenticated WITH CHECK (public.has_permission('user:create'));
+DROP POLICY IF EXISTS "Permiso actualización user_profiles" ON user_profiles;
+CREATE POLICY "Permiso actualización user_profiles" ON user_profiles
+  FOR UPDATE TO authenticated USING (public.has_permission('user:edit')) WITH CHECK (public.has_permission('user:edit'));
+DROP POLICY IF EXISTS "Permiso eliminación user_profiles" ON user_profiles;
+CREATE POLICY "Permiso eliminación user_profiles" ON user_profiles
+  FOR DELETE TO authenticated USING (public.has_permission('user:delete'));
+
+-- 3. app_roles
+ALTER TABLE app_roles ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Permiso lectura app_roles" ON app_roles;
+CREATE POLICY "Permiso lectura app_roles" ON app_roles
+  FOR SELECT TO authenticated USING (true);
+DROP POLICY IF EXISTS "Permiso inserción app_roles" ON app_roles;
+CREATE POLICY "Permiso inserción app_roles" ON app_roles
+  FOR INSERT TO authenticated WITH CHECK (public.has_permission('role:manage'));
+DROP POLICY IF EXISTS "Permiso actualización app_roles" ON app_roles;
+CREATE POLICY "Permiso actualización app_roles" ON app_roles
+  FOR UPDATE TO authenticated USING (public.has_permission('role:manage')) WITH CHECK (public.has_permission('role:manage'));
+DROP POLICY IF EXISTS "Permiso eliminación app_roles" ON app_roles;
+CREATE POLICY "Permiso eliminación app_roles" ON app_roles
+  FOR DELETE TO authenticated USING (public.has_permission('role:manage'));
+
+-- 4. live_alerts
+ALTER TABLE live_alerts ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable all access for live_alerts" ON live_alerts;
+DROP POLICY IF EXISTS "Permiso lectura live_alerts" ON live_alerts;
+CREATE POLICY "Permiso lectura live_alerts" ON live_alerts
+  FOR SELECT TO authenticated USING (public.has_permission('alert:view') AND public.can_access_contract(contract));
+DROP POLICY IF EXISTS "Permiso inserción live_alerts" ON live_alerts;
+CREATE POLICY "Permiso inserción live_alerts" ON live_alerts
+  FOR INSERT TO authenticated WITH CHECK (public.has_permission('alert:create') AND public.can_access_contract(contract));
+DROP POLICY IF EXISTS "Permiso actualización live_alerts" ON live_alerts;
+CREATE POLICY "Permiso actualización live_alerts" ON live_alerts
+  FOR UPDATE TO authenticated USING (public.has_permission('alert:edit') AND public.can_access_contract(contract)) WITH CHECK (public.has_permission('alert:edit') AND public.can_access_contract(contract));
+DROP POLICY IF EXISTS "Permiso eliminación live_alerts" ON live_alerts;
+CREATE POLICY "Permiso eliminación live_alerts" ON live_alerts
+  FOR DELETE TO authenticated USING (public.has_permission('alert:edit') AND public.can_access_contract(contract));
+
+-- 5. saved_alerts
+ALTER TABLE saved_alerts ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable all access for saved_alerts" ON saved_alerts;
+DROP POLICY IF EXISTS "Authenticated users can read saved_alerts" ON saved_alerts;
+DROP POLICY IF EXISTS "Operators can insert saved_alerts" ON saved_alerts;
+DROP POLICY IF EXISTS "Operators can update saved_alerts" ON saved_alerts;
+DROP POLICY IF EXISTS "Admins can delete saved_alerts" ON saved_alerts;
+DROP POLICY IF EXISTS "Permiso lectura saved_alerts" ON saved_alerts;
+CREATE POLICY "Permiso lectura saved_alerts" ON saved_alerts
+  FOR SELECT TO authenticated USING (public.has_permission('alert:view') AND public.can_access_contract(contract));
+DROP POLICY IF EXISTS "Permiso inserción saved_alerts" ON saved_alerts;
+CREATE POLICY "Permiso inserción saved_alerts" ON saved_alerts
+  FOR INSERT TO authenticated WITH CHECK (public.has_permission('alert:create') AND public.can_access_contract(contract));
+DROP POLICY IF EXISTS "Permiso actualización saved_alerts" ON saved_alerts;
+CREATE POLICY "Permiso actualización saved_alerts" ON saved_alerts
+  FOR UPDATE TO authenticated USING (public.has_permission('alert:create') AND public.can_access_contract(contract)) WITH CHECK (public.has_permission('alert:create') AND public.can_access_contract(contract));
+DROP POLICY IF EXISTS "Permiso eliminación saved_alerts" ON saved_alerts;
+CREATE POLICY "Permiso eliminación saved_alerts" ON saved_alerts
+  FOR DELETE TO authenticated USING (public.has_permission('alert:delete') AND public.can_access_contract(contract));
+
+-- 6. alert_history
+ALTER TABLE alert_history ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable all access for alert_history" ON alert_history;
+DROP POLICY IF EXISTS "Authenticated users can read alert_history" ON alert_history;
+DROP POLICY IF EXISTS "Operators can insert alert_history" ON alert_history;
+DROP POLICY IF EXISTS "Operators can update alert_history" ON alert_history;
+DROP POLICY IF EXISTS "Admins can delete alert_history" ON alert_history;
+DROP POLICY IF EXISTS "Permiso lectura alert_history" ON alert_history;
+CREATE POLICY "Permiso lectura alert_history" ON alert_history
+  FOR SELECT TO authenticated USING (public.has_permission('history:view') AND public.can_access_contract(contract));
+DROP POLICY IF EXISTS "Permiso inserción alert_history" ON alert_history;
+CREATE POLICY "Permiso inserción alert_history" ON alert_history
+  FOR INSERT TO authenticated WITH CHECK (public.has_permission('history:create') AND public.can_access_contract(contract));
+DROP POLICY IF EXISTS "Permiso actualización alert_history" ON alert_history;
+CREATE POLICY "Permiso actualización alert_history" ON alert_history
+  FOR UPDATE TO authenticated USING (public.has_permission('history:edit') AND public.can_access_contract(contract)) WITH CHECK (public.has_permission('history:edit') AND public.can_access_contract(contract));
+DROP POLICY IF EXISTS "Permiso eliminación alert_history" ON alert_history;
+CREATE POLICY "Permiso eliminación alert_history" ON alert_history
+  FOR DELETE TO authenticated USING (public.has_permission('history:delete') AND public.can_access_contract(contract));
+
+-- 7. action_plans
+ALTER TABLE action_plans ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable all access for action_plans" ON action_plans;
+DROP POLICY IF EXISTS "Authenticated users can read action_plans" ON action_plans;
+DROP POLICY IF EXISTS "Operators can insert action_plans" ON action_plans;
+DROP POLICY IF EXISTS "Operators can update action_plans" ON action_plans;
+DROP POLICY IF EXISTS "Admins can delete action_plans" ON action_plans;
+DROP POLICY IF EXISTS "Permiso lectura action_plans" ON action_plans;
+CREATE POLICY "Permiso lectura action_plans" ON action_plans
+  FOR SELECT TO authenticated USING (public.has_permission('history:view') AND EXISTS (SELECT 1 FROM alert_history p WHERE p.id = action_plans.alert_history_id AND public.can_access_contract(p.contract)));
+DROP POLICY IF EXISTS "Permiso inserción action_plans" ON action_plans;
+CREATE POLICY "Permiso inserción action_plans" ON action_plans
+  FOR INSERT TO authenticated WITH CHECK (public.has_permission('history:edit') AND EXISTS (SELECT 1 FROM alert_history p WHERE p.id = action_plans.alert_history_id AND public.can_access_contract(p.contract)));
+DROP POLICY IF EXISTS "Permiso actualización action_plans" ON action_plans;
+CREATE POLICY "Permiso actualización action_plans" ON action_plans
+  FOR UPDATE TO authenticated USING (public.has_permission('history:edit') AND EXISTS (SELECT 1 FROM alert_history p WHERE p.id = action_plans.alert_history_id AND public.can_access_contract(p.contract))) WITH CHECK (public.has_permission('history:edit') AND EXISTS (SELECT 1 FROM alert_history p WHERE p.id = action_plans.alert_history_id AND public.can_access_contract(p.contract)));
+DROP POLICY IF EXISTS "Permiso eliminación action_plans" ON action_plans;
+CREATE POLICY "Permiso eliminación action_plans" ON action_plans
+  FOR DELETE TO authenticated USING (public.has_permission('history:delete') AND EXISTS (SELECT 1 FROM alert_history p WHERE p.id = action_plans.alert_history_id AND public.can_access_contract(p.contract)));
+
+-- 8. alert_escalations
+ALTER TABLE alert_escalations ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable all access for alert_escalations" ON alert_escalations;
+DROP POLICY IF EXISTS "Permiso lectura alert_escalations" ON alert_escalations;
+CREATE POLICY "Permiso lectura alert_escalations" ON alert_escalations
+  FOR SELECT TO authenticated USING (public.has_permission('alert:view') AND public.can_access_contract(contract));
+DROP POLICY IF EXISTS "Permiso inserción alert_escalations" ON alert_escalations;
+DROP POLICY IF EXISTS "Permiso actualización alert_escalations" ON alert_escalations;
+CREATE POLICY "Permiso actualización alert_escalations" ON alert_escalations
+  FOR UPDATE TO authenticated USING (public.has_permission('alert:edit') AND public.can_access_contract(contract)) WITH CHECK (public.has_permission('alert:edit') AND public.can_access_contract(contract));
+DROP POLICY IF EXISTS "Permiso eliminación alert_escalations" ON alert_escalations;
+
+-- 9. alert_escalation_steps
+ALTER TABLE alert_escalation_steps ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable all access for alert_escalation_steps" ON alert_escalation_steps;
+DROP POLICY IF EXISTS "Permiso lectura alert_escalation_steps" ON alert_escalation_steps;
+CREATE POLICY "Permiso lectura alert_escalation_steps" ON alert_escalation_steps
+  FOR SELECT TO authenticated USING (public.has_permission('alert:view') AND EXISTS (SELECT 1 FROM alert_escalations p WHERE p.id = alert_escalation_steps.escalation_id AND public.can_access_contract(p.contract)));
+DROP POLICY IF EXISTS "Permiso inserción alert_escalation_steps" ON alert_escalation_steps;
+DROP POLICY IF EXISTS "Permiso actualización alert_escalation_steps" ON alert_escalation_steps;
+DROP POLICY IF EXISTS "Permiso eliminación alert_escalation_steps" ON alert_escalation_steps;
+
+-- 10. alert_rules
+ALTER TABLE alert_rules ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable all access for alert_rules" ON alert_rules;
+DROP POLICY IF EXISTS "Permiso lectura alert_rules" ON alert_rules;
+CREATE POLICY "Permiso lectura alert_rules" ON alert_rules
+  FOR SELECT TO authenticated USING (public.has_permission('alert:view'));
+DROP POLICY IF EXISTS "Permiso inserción alert_rules" ON alert_rules;
+CREATE POLICY "Permiso inserción alert_rules" ON alert_rules
+  FOR INSERT TO authenticated WITH CHECK (public.has_permission('config:edit'));
+DROP POLICY IF EXISTS "Permiso actualización alert_rules" ON alert_rules;
+CREATE POLICY "Permiso actualización alert_rules" ON alert_rules
+  FOR UPDATE TO authenticated USING (public.has_permission('config:edit')) WITH CHECK (public.has_permission('config:edit'));
+DROP POLICY IF EXISTS "Permiso eliminación alert_rules" ON alert_rules;
+CREATE POLICY "Permiso eliminación alert_rules" ON alert_rules
+  FOR DELETE TO authenticated USING (public.has_permission('config:edit'));
+
+-- 11. alert_sla_targets
+ALTER TABLE alert_sla_targets ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable all access for alert_sla_targets" ON alert_sla_targets;
+DROP POLICY IF EXISTS "Permiso lectura alert_sla_targets" ON alert_sla_targets;
+CREATE POLICY "Permiso lectura alert_sla_targets" ON alert_sla_targets
+  FOR SELECT TO authenticated USING (public.has_permission('history:view'));
+DROP POLICY IF EXISTS "Permiso inserción alert_sla_targets" ON alert_sla_targets;
+CREATE POLICY "Permiso inserción alert_sla_targets" ON alert_sla_targets
+  FOR INSERT TO authenticated WITH CHECK (public.has_permission('config:edit'));
+DROP POLICY IF EXISTS "Permiso actualización alert_sla_targets" ON alert_sla_targets;
+CREATE POLICY "Permiso actualización alert_sla_targets" ON alert_sla_targets
+  FOR UPDATE TO authenticated USING (public.has_permission('config:edit')) WITH CHECK (public.has_permission('config:edit'));
+DROP POLICY IF EXISTS "Permiso eliminación alert_sla_targets" ON alert_sla_targets;
+CREATE POLICY "Permiso eliminación alert_sla_targets" ON alert_sla_targets
+  FOR DELETE TO authenticated USING (public.has_permission('config:edit'));
+
+-- 12. escalation_policies
+ALTER TABLE escalation_policies ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable all access for escalation_policies" ON escalation_policies;
+DROP POLICY IF EXISTS "Permiso lectura escalation_policies" ON escalation_policies;
+CREATE POLICY "Permiso lectura escalation_policies" ON escalation_policies
+  FOR SELECT TO authenticated USING (public.has_permission('config:view'));
+DROP POLICY IF EXISTS "Permiso inserción escalation_policies" ON escalation_policies;
+CREATE POLICY "Permiso inserción escalation_policies" ON escalation_policies
+  FOR INSERT TO authenticated WITH CHECK (public.has_permission('config:edit'));
+DROP POLICY IF EXISTS "Permiso actualización escalation_policies" ON escalation_policies;
+CREATE POLICY "Permiso actualización escalation_policies" ON escalation_policies
+  FOR UPDATE TO authenticated USING (public.has_permission('config:edit')) WITH CHECK (public.has_permission('config:edit'));
+DROP POLICY IF EXISTS "Permiso eliminación escalation_policies" ON escalation_policies;
+CREATE POLICY "Permiso eliminación escalation_policies" ON escalation_policies
+  FOR DELETE TO authenticated USING (public.has_permission('config:edit'));
+
+-- 13. on_call_roster
+ALTER TABLE on_call_roster ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable all access for on_call_roster" ON on_call_roster;
+DROP POLICY IF EXISTS "Permiso lectura on_call_roster" ON on_call_roster;
+CREATE POLICY "Permiso lectura on_call_roster" ON on_call_roster
+  FOR SELECT TO authenticated USING (public.has_permission('config:view'));
+DROP POLICY IF EXISTS "Permiso inserción on_call_roster" ON on_call_roster;
+CREATE POLICY "Permiso inserción on_call_roster" ON on_call_roster
+  FOR INSERT TO authenticated WITH CHECK (public.has_permission('config:edit'));
+DROP POLICY IF EXISTS "Permiso actualización on_call_roster" ON on_call_roster;
+CREATE POLICY "Permiso actualización on_call_roster" ON on_call_roster
+  FOR UPDATE TO authenticated USING (public.has_permission('config:edit')) WITH CHECK (public.has_permission('config:edit'));
+DROP POLICY IF EXISTS "Permiso eliminación on_call_roster" ON on_call_roster;
+CREATE POLICY "Permiso eliminación on_call_roster" ON on_call_roster
+  FOR DELETE TO authenticated USING (public.has_permission('config:edit'));
+
+-- 14. notification_settings
+ALTER TABLE notification_settings ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable all access for notification_settings" ON notification_settings;
+DROP POLICY IF EXISTS "Permiso lectura notification_settings" ON notification_settings;
+CREATE POLICY "Permiso lectura notification_settings" ON notification_settings
+  FOR SELECT TO authenticated USING (public.has_permission('config:view'));
+DROP POLICY IF EXISTS "Permiso inserción notification_settings" ON notification_settings;
+CREATE POLICY "Permiso inserción notification_settings" ON notification_settings
+  FOR INSERT TO authenticated WITH CHECK (public.has_permission('config:edit'));
+DROP POLICY IF EXISTS "Permiso actualización notification_settings" ON notification_settings;
+CREATE POLICY "Permiso actualización notification_settings" ON notification_settings
+  FOR UPDATE TO authenticated USING (public.has_permission('config:edit')) WITH CHECK (public.has_permission('config:edit'));
+DROP POLICY IF EXISTS "Permiso eliminación notification_settings" ON notification_settings;
+CREATE POLICY "Permiso eliminación notification_settings" ON notification_settings
+  FOR DELETE TO authenticated USING (public.has_permission('config:edit'));
+
+-- 15. notification_deliveries
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable all access for notification_deliveries" ON notification_deliveries;
+DROP POLICY IF EXISTS "Permiso lectura notification_deliveries" ON notification_deliveries;
+CREATE POLICY "Permiso lectura notification_deliveries" ON notification_deliveries
+  FOR SELECT TO authenticated USING (public.has_permission('config:view'));
+DROP POLICY IF EXISTS "Permiso inserción notification_deliveries" ON notification_deliveries;
+DROP POLICY IF EXISTS "Permiso actualización notification_deliveries" ON notification_deliveries;
+DROP POLICY IF EXISTS "Permiso eliminación notification_deliveries" ON notification_deliveries;
+
+-- 16. report_schedules
+ALTER TABLE report_schedules ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Permiso lectura report_schedules" ON report_schedules;
+CREATE POLICY "Permiso lectura report_schedules" ON report_schedules
+  FOR SELECT TO authenticated USING (public.has_permission('report:view') AND public.can_access_contract(contract));
+DROP POLICY IF EXISTS "Permiso inserción report_schedules" ON report_schedules;
+CREATE POLICY "Permiso inserción report_schedules" ON report_schedules
+  FOR INSERT TO authenticated WITH CHECK (public.has_permission('report:manage') AND public.can_access_contract(contract));
+DROP POLICY IF EXISTS "Permiso actualización report_schedules" ON report_schedules;
+CREATE POLICY "Permiso actualización report_schedules" ON report_schedules
+  FOR UPDATE TO authenticated USING (public.has_permission('report:manage') AND public.can_access_contract(contract)) WITH CHECK (public.has_permission('report:manage') AND public.can_access_contract(contract));
+DROP POLICY IF EXISTS "Permiso eliminación report_schedules" ON report_schedules;
+CREATE POLICY "Permiso eliminación report_schedules" ON report_schedules
+  FOR DELETE TO authenticated USING (public.has_permission('report:manage') AND public.can_access_contract(contract));
+
+-- 17. generated_reports
+ALTER TABLE generated_reports ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Permiso lectura generated_reports" ON generated_reports;
+CREATE POLICY "Permiso lectura generated_reports" ON generated_reports
+  FOR SELECT TO authenticated USING (public.has_permission('report:view') AND public.can_access_contract(contract));
+DROP POLICY IF EXISTS "Permiso inserción generated_reports" ON generated_reports;
+DROP POLICY IF EXISTS "Permiso actualización generated_reports" ON generated_reports;
+DROP POLICY IF EXISTS "Permiso eliminación generated_reports" ON generated_reports;
+CREATE POLICY "Permiso eliminación generated_reports" ON generated_reports
+  FOR DELETE TO authenticated USING (public.has_permission('report:manage') AND public.can_access_contract(contract));
+
+-- 18. driver_scores
+ALTER TABLE driver_scores ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Permiso lectura driver_scores" ON driver_scores;
+CREATE POLICY "Permiso lectura driver_scores" ON driver_scores
+  FOR SELECT TO authenticated USING (public.has_permission('analytics:view') AND public.can_access_contract(contract));
+DROP POLICY IF EXISTS "Permiso inserción driver_scores" ON driver_scores;
+DROP POLICY IF EXISTS "Permiso actualización driver_scores" ON driver_scores;
+DROP POLICY IF EXISTS "Permiso eliminación driver_scores" ON driver_scores;
+
+-- 19. drivers
+ALTER TABLE drivers ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable all access for drivers" ON drivers;
+DROP POLICY IF EXISTS "Authenticated users can read drivers" ON drivers;
+DROP POLICY IF EXISTS "Admins can manage drivers" ON drivers;
+DROP POLICY IF EXISTS "Operators can manage drivers" ON drivers;
+DROP POLICY IF EXISTS "Permiso lectura drivers" ON drivers;
+CREATE POLICY "Permiso lectura drivers" ON drivers
+  FOR SELECT TO authenticated USING (public.has_permission('management:view'));
+DROP POLICY IF EXISTS "Permiso inserción drivers" ON drivers;
+CREATE POLICY "Permiso inserción drivers" ON drivers
+  FOR INSERT TO authenticated WITH CHECK (public.has_permission('fleet:edit'));
+DROP POLICY IF EXISTS "Permiso actualización drivers" ON drivers;
+CREATE POLICY "Permiso actualización drivers" ON drivers
+  FOR UPDATE TO authenticated USING (public.has_permission('fleet:edit')) WITH CHECK (public.has_permission('fleet:edit'));
+DROP POLICY IF EXISTS "Permiso eliminación drivers" ON drivers;
+CREATE POLICY "Permiso eliminación drivers" ON drivers
+  FOR DELETE TO authenticated USING (public.has_permission('fleet:edit'));
+
+-- 20. geofences
+ALTER TABLE geofences ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable all access for geofences" ON geofences;
+DROP POLICY IF EXISTS "Authenticated users can read geofences" ON geofences;
+DROP POLICY IF EXISTS "Admins can manage geofences" ON geofences;
+DROP POLICY IF EXISTS "Operators can manage geofences" ON geofences;
+DROP POLICY IF EXISTS "Permiso lectura geofences" ON geofences;
+CREATE POLICY "Permiso lectura geofences" ON geofences
+  FOR SELECT TO authenticated USING (public.has_permission('management:view'));
+DROP POLICY IF EXISTS "Permiso inserción geofences" ON geofences;
+CREATE POLICY "Permiso inserción geofences" ON geofences
+  FOR INSERT TO authenticated WITH CHECK (public.has_permission('fleet:edit'));
+DROP POLICY IF EXISTS "Permiso actualización geofences" ON geofences;
+CREATE POLICY "Permiso actualización geofences" ON geofences
+  FOR UPDATE TO authenticated USING (public.has_permission('fleet:edit')) WITH CHECK (public.has_permission('fleet:edit'));
+DROP POLICY IF EXISTS "Permiso eliminación geofences" ON geofences;
+CREATE POLICY "Permiso eliminación geofences" ON geofences
+  FOR DELETE TO authenticated USING (public.has_permission('fleet:edit'));
+
+-- 21. route_schedules
+ALTER TABLE route_schedules ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable all access for route_schedules" ON route_schedules;
+DROP POLICY IF EXISTS "Authenticated users can read route_schedules" ON route_schedules;
+DROP POLICY IF EXISTS "Admins can manage route_schedules" ON route_schedules;
+DROP POLICY IF EXISTS "Operators can manage route_schedules" ON route_schedules;
+DROP POLICY IF EXISTS "Permiso lectura route_schedules" ON route_schedules;
+CREATE POLICY "Permiso lectura route_schedules" ON route_schedules
+  FOR SELECT TO authenticated USING (public.has_permission('management:view') AND public.can_access_contract(contract));
+DROP POLICY IF EXISTS "Permiso inserción route_schedules" ON route_schedules;
+CREATE POLICY "Permiso inserción route_schedules" ON route_schedules
+  FOR INSERT TO authenticated WITH CHECK (public.has_permission('fleet:edit') AND public.can_access_contract(contract));
+DROP POLICY IF EXISTS "Permiso actualización route_schedules" ON route_schedules;
+CREATE POLICY "Permiso actualización route_schedules" ON route_schedules
+  FOR UPDATE TO authenticated USING (public.has_permission('fleet:edit') AND public.can_access_contract(contract)) WITH CHECK (public.has_permission('fleet:edit') AND public.can_access_contract(contract));
+DROP POLICY IF EXISTS "Permiso eliminación route_schedules" ON route_schedules;
+CREATE POLICY "Permiso eliminación route_schedules" ON route_schedules
+  FOR DELETE TO authenticated USING (public.has_permission('fleet:edit') AND public.can_access_contract(contract));
+
+-- 22. preoperational_inspections
+ALTER TABLE preoperational_inspections ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable all access for preoperational_inspections" ON preoperational_inspections;
+DROP POLICY IF EXISTS "Authenticated users can read inspections" ON preoperational_inspections;
+DROP POLICY IF EXISTS "Admins can manage preoperational_inspections" ON preoperational_inspections;
+DROP POLICY IF EXISTS "Operators can manage inspections" ON preoperational_inspections;
+DROP POLICY IF EXISTS "Permiso lectura preoperational_inspections" ON preoperational_inspections;
+CREATE POLICY "Permiso lectura preoperational_inspections" ON preoperational_inspections
+  FOR SELECT TO authenticated USING (public.has_permission('management:view') AND public.can_access_contract(contract));
+DROP POLICY IF EXISTS "Permiso inserción preoperational_inspections" ON preoperational_inspections;
+CREATE POLICY "Permiso inserción preoperational_inspections" ON preoperational_inspections
+  FOR INSERT TO authenticated WITH CHECK (public.has_permission('fleet:edit') AND public.can_access_contract(contract));
+DROP POLICY IF EXISTS "Permiso actualización preoperational_inspections" ON preoperational_inspections;
+CREATE POLICY "Permiso actualización preoperational_inspections" ON preoperational_inspections
+  FOR UPDATE TO authenticated USING (public.has_permission('fleet:edit') AND public.can_access_contract(contract)) WITH CHECK (public.has_permission('fleet:edit') AND public.can_access_contract(contract));
+DROP POLICY IF EXISTS "Permiso eliminación preoperational_inspections" ON preoperational_inspections;
+CREATE POLICY "Permiso eliminación preoperational_inspections" ON preoperational_inspections
+  FOR DELETE TO authenticated USING (public.has_permission('fleet:edit') AND public.can_access_contract(contract));
+
+-- 23. driver_name_aliases
+ALTER TABLE driver_name_aliases ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Permiso lectura driver_name_aliases" ON driver_name_aliases;
+CREATE POLICY "Permiso lectura driver_name_aliases" ON driver_name_aliases
+  FOR SELECT TO authenticated USING (public.has_permission('management:view'));
+DROP POLICY IF EXISTS "Permiso inserción driver_name_aliases" ON driver_name_aliases;
+DROP POLICY IF EXISTS "Permiso actualización driver_name_aliases" ON driver_name_aliases;
+CREATE POLICY "Permiso actualización driver_name_aliases" ON driver_name_aliases
+  FOR UPDATE TO authenticated USING (public.has_permission('fleet:edit')) WITH CHECK (public.has_permission('fleet:edit'));
+DROP POLICY IF EXISTS "Permiso eliminación driver_name_aliases" ON driver_name_aliases;
+
+-- 24. driver_documents
+ALTER TABLE driver_documents ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Permiso lectura driver_documents" ON driver_documents;
+CREATE POLICY "Permiso lectura driver_documents" ON driver_documents
+  FOR SELECT TO authenticated USING (public.has_permission('management:view'));
+DROP POLICY IF EXISTS "Permiso inserción driver_documents" ON driver_documents;
+CREATE POLICY "Permiso inserción driver_documents" ON driver_documents
+  FOR INSERT TO authenticated WITH CHECK (public.has_permission('fleet:edit'));
+DROP POLICY IF EXISTS "Permiso actualización driver_documents" ON driver_documents;
+CREATE POLICY "Permiso actualización driver_documents" ON driver_documents
+  FOR UPDATE TO authenticated USING (public.has_permission('fleet:edit')) WITH CHECK (public.has_permission('fleet:edit'));
+DROP POLICY IF EXISTS "Permiso eliminación driver_documents" ON driver_documents;
+CREATE POLICY "Permiso eliminación driver_documents" ON driver_documents
+  FOR DELETE TO authenticated USING (public.has_permission('fleet:edit'));
+
+-- 25. vehicle_positions
+ALTER TABLE vehicle_positions ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable all access for vehicle_positions" ON vehicle_positions;
+DROP POLICY IF EXISTS "Permiso lectura vehicle_positions" ON vehicle_positions;
+CREATE POLICY "Permiso lectura vehicle_positions" ON vehicle_positions
+  FOR SELECT TO authenticated USING (public.has_permission('fleet:view') AND public.can_access_contract(contract));
+DROP POLICY IF EXISTS "Permiso inserción vehicle_positions" ON vehicle_positions;
+CREATE POLICY "Permiso inserción vehicle_positions" ON vehicle_positions
+  FOR INSERT TO authenticated WITH CHECK (public.has_permission('fleet:view') AND public.can_access_contract(contract));
+DROP POLICY IF EXISTS "Permiso actualización vehicle_positions" ON vehicle_positions;
+DROP POLICY IF EXISTS "Permiso eliminación vehicle_positions" ON vehicle_positions;
+
+-- 26. fleet_vehicle_updates
+ALTER TABLE fleet_vehicle_updates ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Permiso lectura fleet_vehicle_updates" ON fleet_vehicle_updates;
+CREATE POLICY "Permiso lectura fleet_vehicle_updates" ON fleet_vehicle_updates
+  FOR SELECT TO authenticated USING (public.has_permission('fleet:view') AND public.can_access_contract(contract));
+DROP POLICY IF EXISTS "Permiso inserción fleet_vehicle_updates" ON fleet_vehicle_updates;
+DROP POLICY IF EXISTS "Permiso actualización fleet_vehicle_updates" ON fleet_vehicle_updates;
+DROP POLICY IF EXISTS "Permiso eliminación fleet_vehicle_updates" ON fleet_vehicle_updates;
+
+-- 27. alert_rule_durations
+ALTER TABLE alert_rule_durations ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Permiso lectura alert_rule_durations" ON alert_rule_durations;
+DROP POLICY IF EXISTS "Permiso inserción alert_rule_durations" ON alert_rule_durations;
+DROP POLICY IF EXISTS "Permiso actualización alert_rule_durations" ON alert_rule_durations;
+DROP POLICY IF EXISTS "Permiso eliminación alert_rule_durations" ON alert_rule_durations;
+
+-- 28. vehicle_fuel_states
+ALTER TABLE vehicle_fuel_states ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Permiso lectura vehicle_fuel_states" ON vehicle_fuel_states;
+DROP POLICY IF EXISTS "Permiso inserción vehicle_fuel_states" ON vehicle_fuel_states;
+DROP POLICY IF EXISTS "Permiso actualización vehicle_fuel_states" ON vehicle_fuel_states;
+DROP POLICY IF EXISTS "Permiso eliminación vehicle_fuel_states" ON vehicle_fuel_states;
+
+-- 29. vehicle_engine_states
+ALTER TABLE vehicle_engine_states ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable all access for vehicle_engine_states" ON vehicle_engine_states;
+DROP POLICY IF EXISTS "Authenticated users can read vehicle_engine_states" ON vehicle_engine_states;
+DROP POLICY IF EXISTS "System can insert vehicle_engine_states" ON vehicle_engine_states;
+DROP POLICY IF EXISTS "Permiso lectura vehicle_engine_states" ON vehicle_engine_states;
+CREATE POLICY "Permiso lectura vehicle_engine_states" ON vehicle_engine_states
+  FOR SELECT TO authenticated USING (public.has_permission('fleet:view') AND public.can_access_contract(contract));
+DROP POLICY IF EXISTS "Permiso inserción vehicle_engine_states" ON vehicle_engine_states;
+DROP POLICY IF EXISTS "Permiso actualización vehicle_engine_states" ON vehicle_engine_states;
+DROP POLICY IF EXISTS "Permiso eliminación vehicle_engine_states" ON vehicle_engine_states;
+
+-- 30. vehicle_ignition_events
+ALTER TABLE vehicle_ignition_events ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable all access for vehicle_ignition_events" ON vehicle_ignition_events;
+DROP POLICY IF EXISTS "Authenticated users can read ignition_events" ON vehicle_ignition_events;
+DROP POLICY IF EXISTS "System can insert ignition_events" ON vehicle_ignition_events;
+DROP POLICY IF EXISTS "Permiso lectura vehicle_ignition_events" ON vehicle_ignition_events;
+CREATE POLICY "Permiso lectura vehicle_ignition_events" ON vehicle_ignition_events
+  FOR SELECT TO authenticated USING (public.has_permission('fleet:view') AND public.can_access_plate(plate));
+DROP POLICY IF EXISTS "Permiso inserción vehicle_ignition_events" ON vehicle_ignition_events;
+DROP POLICY IF EXISTS "Permiso actualización vehicle_ignition_events" ON vehicle_ignition_events;
+DROP POLICY IF EXISTS "Permiso eliminación vehicle_ignition_events" ON vehicle_ignition_events;
+
+-- 31. idle_time_records
+ALTER TABLE idle_time_records ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable all access for idle_time_records" ON idle_time_records;
+DROP POLICY IF EXISTS "Authenticated users can read idle_time_records" ON idle_time_records;
+DROP POLICY IF EXISTS "System can insert idle_time_records" ON idle_time_records;
+DROP POLICY IF EXISTS "Permiso lectura idle_time_records" ON idle_time_records;
+CREATE POLICY "Permiso lectura idle_time_records" ON idle_time_records
+  FOR SELECT TO authenticated USING (public.has_permission('fleet:view') AND public.can_access_contract(contract));
+DROP POLICY IF EXISTS "Permiso inserción idle_time_records" ON idle_time_records;
+DROP POLICY IF EXISTS "Permiso actualización idle_time_records" ON idle_time_records;
+DROP POLICY IF EXISTS "Permiso eliminación idle_time_records" ON idle_time_records;
+
+-- 32. geofence_events
+ALTER TABLE geofence_events ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable all access for geofence_events" ON geofence_events;
+DROP POLICY IF EXISTS "Authenticated users can read geofence_events" ON geofence_events;
+DROP POLICY IF EXISTS "System can insert geofence_events" ON geofence_events;
+DROP POLICY IF EXISTS "Permiso lectura geofence_events" ON geofence_events;
+CREATE POLICY "Permiso lectura geofence_events" ON geofence_events
+  FOR SELECT TO authenticated USING (public.has_permission('fleet:view') AND public.can_access_plate(vehicle_plate));
+DROP POLICY IF EXISTS "Permiso inserción geofence_events" ON geofence_events;
+CREATE POLICY "Permiso inserción geofence_events" ON geofence_events
+  FOR INSERT TO authenticated WITH CHECK (public.has_permission('fleet:view') AND public.can_access_plate(vehicle_plate));
+DROP POLICY IF EXISTS "Permiso actualización geofence_events" ON geofence_events;
+DROP POLICY IF EXISTS "Permiso eliminación geofence_events" ON geofence_events;
+
+-- 33. geofence_vehicle_states
+ALTER TABLE geofence_vehicle_states ENABLE ROW LEVEL SECURITY;
+DROP POLICY IF EXISTS "Enable all access for geofence_vehicle_states" ON geofence_vehicle_states;
+DROP POLICY IF EXISTS "Authenticated users can read geofence_vehicle_states" ON geofence_vehicle_states;
+DROP POLICY IF EXISTS "System can insert geofence_vehicle_states" ON geofence_vehicle_states;
+DROP POLICY IF EXISTS "Permiso lectura geofence_vehicle_states" ON geofence_vehicle_states;
+CREATE POLICY "Permiso lectura geofence_vehicle_states" ON geofence_vehicle_states
+  FOR SELECT TO authenticated USING (public.has_permission('fleet:view') AND public.can_access_plate(vehicle_plate));
+DROP POLICY IF EXISTS "Permiso inserción geofence_vehicle_states" ON geofence_vehicle_states;
+CREATE POLICY "Permiso inserción geofence_vehicle_states" ON geofence_vehicle_states
+  FOR INSERT TO authenticated WITH CHECK (public.has_permission('fleet:view') AND public.can_access_plate(vehicle_plate));
+DROP POLICY IF EXISTS "Permiso actualización geofence_vehicle_states" ON geofence_vehicle_states;
+CREATE POLICY "Permiso actualización geofence_vehicle_states" ON geofence_vehicle_states
+  FOR UPDATE TO authenticated USING (public.has_permission('fleet:view') AND public.can_access_plate(vehicle_plate)) WITH CHECK (public.has_permission('fleet:view') AND public.can_access_plate(vehicle_plate));
+DROP POLICY IF EXISTS "Permiso eliminación geofence_vehicle_states" ON geofence_vehicle_states;
+
+-- =====================================================
+-- VERIFICACIÓN
+-- =====================================================
+
+SELECT key, name, array_length(permissions, 1) AS permissions FROM app_roles ORDER BY is_system DESC, key;
+
+SELECT tablename, policyname, cmd, qual
+FROM pg_policies
+WHERE schemaname = 'public'
+ORDER BY tablename, policyname;
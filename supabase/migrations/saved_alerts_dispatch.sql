@@ -0,0 +1,39 @@
+-- =====================================================
+-- AVISO Y ESCALAMIENTO DE TODAS LAS ALERTAS GUARDADAS
+-- Ejecutar en Supabase SQL Editor DESPUÉS de alert_escalations.sql
+-- =====================================================
+
+-- La consola y el worker guardan alertas en saved_alerts con alert_id distintos
+-- y la deduplicación descarta la que llega segundo. El worker ya no avisa ni
+-- escala solo las que guardó él: en cada ejecución toma las filas recientes con
+-- dispatched_at NULL (las haya guardado quien sea), las marca con una
+-- actualización condicional y abre su notificación y su escalamiento.
+-- Ver claimUndispatchedAlerts en supabase/functions/_shared/alertEscalation.ts.
+
+-- 1. Marca de alerta ya avisada y escalada
+ALTER TABLE saved_alerts
+  ADD COLUMN IF NOT EXISTS dispatched_at TIMESTAMPTZ;
+
+-- 2. Índice de alertas pendientes de aviso
+CREATE INDEX IF NOT EXISTS idx_saved_alerts_undispatched
+  ON saved_alerts(created_at)
+  WHERE dispatched_at IS NULL;
+
+-- 3. Las alertas anteriores a esta migración no se vuelven a avisar
+UPDATE saved_alerts
+SET dispatched_at = created_at
+WHERE dispatched_at IS NULL
+  AND created_at < NOW() - INTERVAL '1 hour';
+
+-- =====================================================
+-- VERIFICACIÓN
+-- =====================================================
+
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'saved_alerts'
+  AND column_name = 'dispatched_at';
+
+SELECT COUNT(*) AS pendientes_de_aviso
+FROM saved_alerts
+WHERE dispatched_at IS NULL;
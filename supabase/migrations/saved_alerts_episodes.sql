@@ -0,0 +1,45 @@
+-- =====================================================
+-- EPISODIOS DE ALERTA (saved_alerts)
+-- Ejecutar en Supabase SQL Editor DESPUÉS de secure_rls_policies.sql
+-- =====================================================
+
+-- 1. Agregar columnas de episodio a saved_alerts
+-- Excesos de velocidad, ralentí y eventos bruscos se agrupan en episodios:
+-- una sola fila por placa + tipo que se actualiza mientras el episodio está abierto.
+-- El episodio se cierra cuando pasan más de EPISODE_GAP_MINUTES sin una nueva lectura.
+-- Ver supabase/functions/_shared/alertEpisodes.ts
+ALTER TABLE saved_alerts
+  ADD COLUMN IF NOT EXISTS episode_started_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS episode_ended_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS episode_open BOOLEAN DEFAULT false,
+  ADD COLUMN IF NOT EXISTS peak_speed NUMERIC(10, 2),
+  ADD COLUMN IF NOT EXISTS avg_speed NUMERIC(10, 2),
+  ADD COLUMN IF NOT EXISTS sample_count INTEGER DEFAULT 1 CHECK (sample_count > 0);
+
+-- 2. Índices
+-- Un solo episodio abierto por placa y tipo (evita duplicados si el frontend
+-- y el worker abren el mismo episodio a la vez)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_saved_alerts_open_episode
+  ON saved_alerts(plate, type)
+  WHERE episode_open = true;
+CREATE INDEX IF NOT EXISTS idx_saved_alerts_episode_ended
+  ON saved_alerts(episode_ended_at)
+  WHERE episode_open = true;
+
+-- 3. RLS (Row Level Security)
+-- El frontend actualiza los episodios abiertos (el worker usa la service role)
+DROP POLICY IF EXISTS "Operators can update saved_alerts" ON saved_alerts;
+CREATE POLICY "Operators can update saved_alerts" ON saved_alerts
+  FOR UPDATE USING (
+    auth.role() = 'authenticated' AND
+    get_user_role() IN ('admin', 'operator')
+  );
+
+-- =====================================================
+-- VERIFICACIÓN
+-- =====================================================
+
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'saved_alerts'
+AND column_name IN ('episode_started_at', 'episode_ended_at', 'episode_open', 'peak_speed', 'avg_speed', 'sample_count');
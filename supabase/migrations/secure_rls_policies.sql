@@ -3,6 +3,10 @@
 -- Ejecutar DESPUÉS de tener autenticación configurada
 -- =====================================================
 
+-- ⚠️ REEMPLAZADO por role_permissions.sql + role_policies.sql (políticas por
+-- permiso generadas desde supabase/functions/_shared/rolePermissions.ts).
+-- role_policies.sql elimina las políticas de este script; se conserva como referencia.
+
 -- ⚠️ IMPORTANTE: Este script reemplaza las políticas de desarrollo
 -- por políticas de producción que requieren autenticación.
 -- NO ejecutar hasta que Supabase Auth esté completamente configurado.
@@ -0,0 +1,64 @@
+-- =====================================================
+-- TABLA: vehicle_engine_states (Estado de ignición y ralentí por vehículo)
+-- Ejecutar en Supabase SQL Editor DESPUÉS de supabase-additional-tables.sql
+-- =====================================================
+
+-- 1. Crear tabla de estados
+-- Una fila por vehículo con el último estado de ignición y, si está en
+-- ralentí, desde cuándo. La mantiene el worker alert-monitor para escribir
+-- vehicle_ignition_events e idle_time_records aunque no haya consolas abiertas;
+-- ver supabase/functions/_shared/engineStateTracker.ts
+CREATE TABLE IF NOT EXISTS vehicle_engine_states (
+  plate VARCHAR(50) PRIMARY KEY,
+
+  ignition BOOLEAN NOT NULL,
+  last_report_at TIMESTAMPTZ NOT NULL, -- Hora del último reporte procesado
+
+  -- Ralentí en curso (NULL = no está en ralentí)
+  idle_since TIMESTAMPTZ,
+  idle_location VARCHAR(500),
+  idle_latitude NUMERIC(10, 7),
+  idle_longitude NUMERIC(10, 7),
+
+  -- Contexto del vehículo
+  driver VARCHAR(200),
+  contract VARCHAR(200),
+  source VARCHAR(50),
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 2. Índices
+CREATE INDEX IF NOT EXISTS idx_vehicle_engine_states_idle
+  ON vehicle_engine_states(idle_since)
+  WHERE idle_since IS NOT NULL;
+
+-- Cada evento de ignición y cada periodo de ralentí se guarda una sola vez
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ignition_events_unique
+  ON vehicle_ignition_events(plate, event_datetime, event_type);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_idle_records_unique
+  ON idle_time_records(plate, start_datetime);
+
+-- 3. Trigger para updated_at
+DROP TRIGGER IF EXISTS update_vehicle_engine_states_updated_at ON vehicle_engine_states;
+CREATE TRIGGER update_vehicle_engine_states_updated_at
+  BEFORE UPDATE ON vehicle_engine_states
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 4. RLS (Row Level Security)
+ALTER TABLE vehicle_engine_states ENABLE ROW LEVEL SECURITY;
+
+-- Política temporal: acceso completo (ajustar en producción)
+CREATE POLICY "Enable all access for vehicle_engine_states" ON vehicle_engine_states
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- =====================================================
+-- VERIFICACIÓN
+-- =====================================================
+
+SELECT table_name
+FROM information_schema.tables
+WHERE table_schema = 'public'
+AND table_name IN ('vehicle_engine_states');
@@ -0,0 +1,44 @@
+-- =====================================================
+-- TABLA: vehicle_fuel_states (Última lectura de combustible por vehículo)
+-- Ejecutar en Supabase SQL Editor DESPUÉS de vehicle_positions_fuel.sql
+-- =====================================================
+
+-- 1. Crear tabla de estados
+-- Una fila por vehículo con la última lectura de combustible procesada. La
+-- mantiene el worker alert-monitor para detectar caídas con el vehículo
+-- detenido y recargas aunque no haya consolas abiertas;
+-- ver supabase/functions/_shared/fuelMonitor.ts
+CREATE TABLE IF NOT EXISTS vehicle_fuel_states (
+  plate VARCHAR(50) PRIMARY KEY,
+
+  fuel_level NUMERIC(5, 2) NOT NULL, -- Nivel de combustible (%)
+  speed NUMERIC(6, 2) NOT NULL,
+  latitude NUMERIC(10, 7) NOT NULL,
+  longitude NUMERIC(10, 7) NOT NULL,
+  last_report_at TIMESTAMPTZ NOT NULL, -- Hora del último reporte procesado
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 2. Trigger para updated_at
+DROP TRIGGER IF EXISTS update_vehicle_fuel_states_updated_at ON vehicle_fuel_states;
+CREATE TRIGGER update_vehicle_fuel_states_updated_at
+  BEFORE UPDATE ON vehicle_fuel_states
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- 3. RLS (Row Level Security)
+-- Las políticas se generan en role_policies.sql (sin acceso para authenticated:
+-- solo el worker con service role). Volver a ejecutar role_policies.sql
+-- después de esta migración.
+ALTER TABLE vehicle_fuel_states ENABLE ROW LEVEL SECURITY;
+
+-- =====================================================
+-- VERIFICACIÓN
+-- =====================================================
+
+SELECT table_name
+FROM information_schema.tables
+WHERE table_schema = 'public'
+AND table_name IN ('vehicle_fuel_states');
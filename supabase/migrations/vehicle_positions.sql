@@ -0,0 +1,71 @@
+-- =====================================================
+-- TABLA: vehicle_positions (Histórico de posiciones GPS)
+-- Ejecutar en Supabase SQL Editor
+-- =====================================================
+
+-- 1. Crear tabla de posiciones
+-- Cada fila es un "punto" del recorrido de un vehículo.
+-- Los puntos sin cambios (vehículo quieto en el mismo lugar) no se guardan
+-- en cada consulta; ver services/positionHistoryService.ts
+CREATE TABLE IF NOT EXISTS vehicle_positions (
+  id BIGSERIAL PRIMARY KEY,
+
+  plate VARCHAR(50) NOT NULL,
+  vehicle_id VARCHAR(100),
+  source VARCHAR(50),
+
+  -- Posición
+  latitude NUMERIC(10, 7) NOT NULL,
+  longitude NUMERIC(10, 7) NOT NULL,
+  speed NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  status VARCHAR(50),
+  location VARCHAR(500),
+
+  -- Contexto del vehículo en ese momento
+  driver VARCHAR(200),
+  contract VARCHAR(200),
+  fuel_level NUMERIC(5, 2),
+  odometer NUMERIC(12, 2),
+  event VARCHAR(500),
+
+  -- Hora reportada por el vehículo
+  recorded_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- 2. Índices
+-- Un mismo punto (placa + hora) solo se guarda una vez, aunque haya varias consolas abiertas
+CREATE UNIQUE INDEX IF NOT EXISTS idx_vehicle_positions_plate_recorded
+  ON vehicle_positions(plate, recorded_at);
+CREATE INDEX IF NOT EXISTS idx_vehicle_positions_recorded ON vehicle_positions(recorded_at DESC);
+CREATE INDEX IF NOT EXISTS idx_vehicle_positions_contract ON vehicle_positions(contract);
+
+-- 3. Vista: última posición guardada por vehículo (usada para deduplicar)
+-- security_invoker: la vista aplica las políticas RLS de vehicle_positions de quien consulta
+CREATE OR REPLACE VIEW vehicle_latest_positions
+WITH (security_invoker = true) AS
+SELECT DISTINCT ON (plate)
+  plate,
+  latitude,
+  longitude,
+  speed,
+  status,
+  recorded_at
+FROM vehicle_positions
+ORDER BY plate, recorded_at DESC;
+
+-- 4. RLS (Row Level Security)
+ALTER TABLE vehicle_positions ENABLE ROW LEVEL SECURITY;
+
+-- Política temporal: acceso completo (ajustar en producción)
+CREATE POLICY "Enable all access for vehicle_positions" ON vehicle_positions
+  FOR ALL USING (true) WITH CHECK (true);
+
+-- =====================================================
+-- VERIFICACIÓN
+-- =====================================================
+
+SELECT table_name
+FROM information_schema.tables
+WHERE table_schema = 'public'
+AND table_name IN ('vehicle_positions');
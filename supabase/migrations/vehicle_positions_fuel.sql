@@ -0,0 +1,35 @@
+-- =====================================================
+-- COMBUSTIBLE EN LA ÚLTIMA POSICIÓN (vehicle_latest_positions)
+-- Ejecutar en Supabase SQL Editor DESPUÉS de vehicle_positions.sql
+-- =====================================================
+
+-- 1. Agregar fuel_level a la vista de última posición
+-- Último nivel guardado de cada vehículo. Las caídas y recargas las detecta
+-- el worker con su propio estado; ver vehicle_fuel_states.sql
+CREATE OR REPLACE VIEW vehicle_latest_positions
+WITH (security_invoker = true) AS
+SELECT DISTINCT ON (plate)
+  plate,
+  latitude,
+  longitude,
+  speed,
+  status,
+  recorded_at,
+  fuel_level
+FROM vehicle_positions
+ORDER BY plate, recorded_at DESC;
+
+-- 2. Índices
+-- Serie de combustible por vehículo (gráfico en el detalle del vehículo)
+CREATE INDEX IF NOT EXISTS idx_vehicle_positions_plate_fuel
+  ON vehicle_positions(plate, recorded_at)
+  WHERE fuel_level IS NOT NULL;
+
+-- =====================================================
+-- VERIFICACIÓN
+-- =====================================================
+
+SELECT column_name, data_type
+FROM information_schema.columns
+WHERE table_name = 'vehicle_latest_positions'
+AND column_name = 'fuel_level';
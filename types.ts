@@ -1,13 +1,26 @@
-export enum ApiSource {
-  FAGOR = 'FAGOR',
-  COLTRACK = 'COLTRACK',
-}
+import {
+  BUILTIN_ROLES,
+  Permission,
+  RoleDefinition,
+  RoleKey,
+  roleHasPermission
+} from './supabase/functions/_shared/rolePermissions';
+
+// Proveedores de telemetría incorporados. El tipo admite además cualquier id
+// registrado en services/telematics, para agregar proveedores sin tocar este archivo.
+export const ApiSource = {
+  FAGOR: 'FAGOR',
+  COLTRACK: 'COLTRACK',
+} as const;
+
+export type ApiSource = typeof ApiSource[keyof typeof ApiSource] | (string & {});
 
 export enum VehicleStatus {
   MOVING = 'En Movimiento',
   STOPPED = 'Detenido',
   IDLE = 'Encendido', // Engine on but not moving
-  OFF = 'Apagado'
+  OFF = 'Apagado',
+  NO_SIGNAL = 'Sin Señal' // El equipo no reporta hace más del umbral configurado (alert_rules.offline_minutes)
 }
 
 export enum AlertType {
@@ -15,11 +28,17 @@ export enum AlertType {
   PANIC_BUTTON = 'Botón de Pánico',
   HARSH_BRAKING = 'Frenada Brusca',
   HARSH_ACCELERATION = 'Aceleración Brusca',
+  COLLISION = 'Colisión',
   GEOFENCE_EXIT = 'Salida de Geocerca',
   GEOFENCE_ENTRY = 'Entrada a Geocerca',
   ENGINE_OFF = 'Motor Apagado',
   BATTERY_DISCONNECT = 'Batería Desconectada',
   IDLE_EXCESSIVE = 'Ralentí Excesivo',
+  LOW_FUEL = 'Combustible Bajo',
+  FUEL_DROP = 'Caída de Combustible',
+  REFUEL = 'Recarga de Combustible',
+  GPS_OFFLINE = 'Sin Señal GPS',
+  EXPIRED_LICENSE = 'Conductor con Licencia Vencida', // Solo worker (ver _shared/driverCompliance.ts)
   GENERAL_ALERT = 'Alerta General'
 }
 
@@ -48,6 +67,11 @@ export interface Alert {
   sent?: boolean; // Si fue enviada por WhatsApp
   sentAt?: string; // Cuándo fue enviada
   sentBy?: string; // Quién la envió
+  acknowledged?: boolean; // Si un operador la confirmó (detiene el escalamiento)
+  acknowledgedAt?: string;
+  acknowledgedBy?: string;
+  claimedBy?: string; // Operador que la está atendiendo (cola compartida)
+  claimedAt?: string;
   saved?: boolean; // Si ya fue guardada en historial
 }
 
@@ -61,12 +85,14 @@ export interface Vehicle {
   status: VehicleStatus;
   driver: string;
   fuelLevel: number;
-  lastUpdate: string;
+  lastUpdate: string; // Hora del último reporte del equipo GPS
+  lastUpdateEstimated?: boolean; // El proveedor no entregó la hora del equipo: lastUpdate es la hora de consulta
   location: string;
   odometer: number;
   contract?: string; // Contrato/Cliente asignado
   vehicleType?: string; // Tipo de vehículo (camión, van, etc.)
   event?: string; // Evento actual del vehículo
+  ignition?: boolean; // Ignición reportada por el equipo (solo proveedores con capabilities.ignition)
 }
 
 export interface FleetStats {
@@ -82,10 +108,8 @@ export type AlertFilterType = 'ALL' | AlertSeverity;
 
 // ==================== USER MANAGEMENT ====================
 
-export enum UserRole {
-  ADMIN = 'admin',
-  USER = 'user'
-}
+/** Rol del usuario: uno del sistema o uno personalizado de app_roles */
+export type UserRole = RoleKey;
 
 export interface User {
   id: string;
@@ -122,73 +146,27 @@ export interface AuditLog {
 }
 
 // ==================== PERMISSIONS SYSTEM ====================
+// Definición única compartida con AuthContext y las políticas RLS
+// (supabase/functions/_shared/rolePermissions.ts)
 
-export enum Permission {
-  // Usuarios
-  USER_VIEW = 'user:view',
-  USER_CREATE = 'user:create',
-  USER_EDIT = 'user:edit',
-  USER_DELETE = 'user:delete',
-
-  // Alertas
-  ALERT_VIEW = 'alert:view',
-  ALERT_CREATE = 'alert:create',
-  ALERT_EDIT = 'alert:edit',
-  ALERT_DELETE = 'alert:delete',
-  ALERT_EXPORT = 'alert:export',
-
-  // Flota
-  FLEET_VIEW = 'fleet:view',
-  FLEET_EDIT = 'fleet:edit',
-
-  // Auto-Guardadas
-  SAVED_ALERTS_VIEW = 'saved_alerts:view',
-  SAVED_ALERTS_EXPORT = 'saved_alerts:export',
-
-  // Historial
-  HISTORY_VIEW = 'history:view',
-  HISTORY_CREATE = 'history:create',
-  HISTORY_EDIT = 'history:edit',
-  HISTORY_DELETE = 'history:delete',
-
-  // Analytics
-  ANALYTICS_VIEW = 'analytics:view',
-
-  // Configuración
-  CONFIG_VIEW = 'config:view',
-  CONFIG_EDIT = 'config:edit',
-
-  // Auditoría
-  AUDIT_VIEW = 'audit:view',
-}
+export { Permission, BUILTIN_ROLES } from './supabase/functions/_shared/rolePermissions';
+export type { BuiltinRole, RoleDefinition } from './supabase/functions/_shared/rolePermissions';
 
-// Mapeo de permisos por rol
-export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
-  [UserRole.ADMIN]: [
-    // Admins tienen TODOS los permisos
-    ...Object.values(Permission)
-  ],
-  [UserRole.USER]: [
-    // Usuarios regulares: Solo lectura
-    Permission.USER_VIEW,
-    Permission.ALERT_VIEW,
-    Permission.ALERT_EXPORT,
-    Permission.FLEET_VIEW,
-    Permission.SAVED_ALERTS_VIEW,
-    Permission.SAVED_ALERTS_EXPORT,
-    Permission.HISTORY_VIEW,
-    Permission.ANALYTICS_VIEW,
-  ]
-};
+// Mapeo de permisos por rol del sistema (los personalizados se cargan de app_roles)
+export const ROLE_PERMISSIONS: Record<string, Permission[]> = Object.fromEntries(
+  BUILTIN_ROLES.map(role => [role.key, role.permissions])
+);
 
 /**
  * Verifica si un rol tiene un permiso específico
+ * En componentes usar useAuth().can(), que ya incluye los roles personalizados
  * @param role Rol del usuario
  * @param permission Permiso a verificar
+ * @param roles Definiciones de roles (por defecto, las del sistema)
  * @returns true si el rol tiene el permiso
  */
-export function hasPermission(role: UserRole, permission: Permission): boolean {
-  return ROLE_PERMISSIONS[role]?.includes(permission) ?? false;
+export function hasPermission(role: UserRole, permission: Permission, roles: RoleDefinition[] = BUILTIN_ROLES): boolean {
+  return roleHasPermission(role, permission, roles);
 }
 
 /**
@@ -197,8 +175,8 @@ export function hasPermission(role: UserRole, permission: Permission): boolean {
  * @param permissions Array de permisos a verificar
  * @returns true si el rol tiene todos los permisos
  */
-export function hasAllPermissions(role: UserRole, permissions: Permission[]): boolean {
-  return permissions.every(permission => hasPermission(role, permission));
+export function hasAllPermissions(role: UserRole, permissions: Permission[], roles: RoleDefinition[] = BUILTIN_ROLES): boolean {
+  return permissions.every(permission => hasPermission(role, permission, roles));
 }
 
 /**
@@ -207,6 +185,6 @@ export function hasAllPermissions(role: UserRole, permissions: Permission[]): bo
  * @param permissions Array de permisos a verificar
  * @returns true si el rol tiene al menos uno de los permisos
  */
-export function hasAnyPermission(role: UserRole, permissions: Permission[]): boolean {
-  return permissions.some(permission => hasPermission(role, permission));
+export function hasAnyPermission(role: UserRole, permissions: Permission[], roles: RoleDefinition[] = BUILTIN_ROLES): boolean {
+  return permissions.some(permission => hasPermission(role, permission, roles));
 }